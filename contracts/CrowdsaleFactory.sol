@@ -54,6 +54,14 @@ contract CrowdsaleFactory is ICrowdsaleFactory, AccessControl, Pausable, Reentra
     address public immutable whitelistTemplate;
     address public immutable vaultTemplate;
     
+    // ============ 事件 ============
+    
+    /// @dev 创建费用变更（与 CrowdsaleFactoryLite 的事件签名一致）
+    event CreationFeeUpdated(uint256 oldFee, uint256 newFee);
+    
+    /// @dev 提取已收取的创建费用
+    event FeesWithdrawn(address indexed recipient, uint256 amount);
+    
     // ============ 修饰符 ============
     
     modifier onlyCreator() {
@@ -128,6 +136,65 @@ contract CrowdsaleFactory is ICrowdsaleFactory, AccessControl, Pausable, Reentra
     {
         require(msg.value >= creationFee, "CrowdsaleFactory: insufficient fee");
         
+        return _createCrowdsale(params, msg.value);
+    }
+    
+    /**
+     * @dev 批量创建众筹实例
+     * @param paramsArray 众筹参数数组，每个元素包含一个众筹的完整配置
+     * @return crowdsaleAddresses 创建的所有众筹合约地址数组
+     * 
+     * 实现步骤：
+     * 1. 计算总费用并验证支付金额
+     * 2. 循环调用内部创建逻辑，逐个部署众筹实例
+     * 3. 收集所有创建的众筹地址
+     * 4. 退还多余的费用给调用者
+     * 
+     * 权限要求：需要FACTORY_OPERATOR_ROLE或启用公开创建
+     * 状态要求：合约未暂停，支付足够的总创建费用
+     * Gas优化：使用批量操作减少交易次数
+     */
+    function batchCreateCrowdsale(CrowdsaleParams[] calldata paramsArray)
+        external
+        payable
+        override
+        nonReentrant
+        whenNotPaused
+        onlyCreator
+        returns (address[] memory crowdsaleAddresses)
+    {
+        uint256 totalFee = creationFee * paramsArray.length;
+        require(msg.value >= totalFee, "CrowdsaleFactory: insufficient fee");
+        
+        crowdsaleAddresses = new address[](paramsArray.length);
+        
+        // 直接走内部实现：外部自调用会被 nonReentrant 拒绝，且创建者会变成工厂自身
+        for (uint256 i = 0; i < paramsArray.length; i++) {
+            (address crowdsaleAddr,,) = _createCrowdsale(paramsArray[i], creationFee);
+            crowdsaleAddresses[i] = crowdsaleAddr;
+        }
+        
+        // 退还多余费用
+        if (msg.value > totalFee) {
+            payable(_msgSender()).transfer(msg.value - totalFee);
+        }
+    }
+    
+    // ============ 内部部署函数 ============
+    
+    /**
+     * @dev 创建众筹实例的内部实现，供单个创建和批量创建共用
+     * @param params 众筹参数结构体
+     * @param fee 计入统计的创建费用
+     */
+    function _createCrowdsale(CrowdsaleParams calldata params, uint256 fee)
+        internal
+        returns (
+            address crowdsaleAddress,
+            address tokenAddress,
+            address vestingAddress
+        )
+    {
         // 验证参数
         (bool isValid, string memory errorMessage) = validateCrowdsaleParams(params);
         require(isValid, errorMessage);
@@ -162,7 +229,7 @@ contract CrowdsaleFactory is ICrowdsaleFactory, AccessControl, Pausable, Reentra
         _recordCrowdsaleInstance(crowdsaleAddress, tokenAddress, vestingAddress);
         
         // 更新费用统计
-        totalFeesCollected += msg.value;
+        totalFeesCollected += fee;
         
         emit CrowdsaleCreated(
             _msgSender(),
@@ -174,48 +241,6 @@ contract CrowdsaleFactory is ICrowdsaleFactory, AccessControl, Pausable, Reentra
         );
     }
     
-    /**
-     * @dev 批量创建众筹实例
-     * @param paramsArray 众筹参数数组，每个元素包含一个众筹的完整配置
-     * @return crowdsaleAddresses 创建的所有众筹合约地址数组
-     * 
-     * 实现步骤：
-     * 1. 计算总费用并验证支付金额
-     * 2. 循环调用createCrowdsale创建每个众筹实例
-     * 3. 收集所有创建的众筹地址
-     * 4. 退还多余的费用给调用者
-     * 
-     * 权限要求：需要FACTORY_OPERATOR_ROLE或启用公开创建
-     * 状态要求：合约未暂停，支付足够的总创建费用
-     * Gas优化：使用批量操作减少交易次数
-     */
-    function batchCreateCrowdsale(CrowdsaleParams[] calldata paramsArray)
-        external
-        payable
-        override
-        nonReentrant
-        whenNotPaused
-        onlyCreator
-        returns (address[] memory crowdsaleAddresses)
-    {
-        uint256 totalFee = creationFee * paramsArray.length;
-        require(msg.value >= totalFee, "CrowdsaleFactory: insufficient fee");
-        
-        crowdsaleAddresses = new address[](paramsArray.length);
-        
-        for (uint256 i = 0; i < paramsArray.length; i++) {
-            (address crowdsaleAddr,,) = this.createCrowdsale{value: creationFee}(paramsArray[i]);
-            crowdsaleAddresses[i] = crowdsaleAddr;
-        }
-        
-        // 退还多余费用
-        if (msg.value > totalFee) {
-            payable(_msgSender()).transfer(msg.value - totalFee);
-        }
-    }
-    
-    // ============ 内部部署函数 ============
-    
     /**
      * @dev 部署代币合约
      * @param params 众筹参数，包含代币名称、符号、总供应量等信息
@@ -701,7 +726,9 @@ contract CrowdsaleFactory is ICrowdsaleFactory, AccessControl, Pausable, Reentra
         override
         onlyRole(FACTORY_ADMIN_ROLE) 
     {
+        uint256 oldFee = creationFee;
         creationFee = fee;
+        emit CreationFeeUpdated(oldFee, fee);
         emit FactoryConfigUpdated(_msgSender(), fee, publicCreationAllowed);
     }
     
@@ -723,6 +750,7 @@ contract CrowdsaleFactory is ICrowdsaleFactory, AccessControl, Pausable, Reentra
         require(amount <= address(this).balance, "CrowdsaleFactory: insufficient balance");
         
         to.transfer(amount);
+        emit FeesWithdrawn(to, amount);
     }
     
     function pause() external onlyRole(FACTORY_ADMIN_ROLE) {
@@ -786,8 +814,35 @@ contract CrowdsaleFactory is ICrowdsaleFactory, AccessControl, Pausable, Reentra
         onlyRole(FACTORY_ADMIN_ROLE)
         validCrowdsale(crowdsaleAddress)
     {
+        _emergencyStopCrowdsale(crowdsaleAddress, "Factory emergency pause");
+    }
+    
+    /**
+     * @dev 紧急停止特定众筹并记录原因
+     * @param crowdsaleAddress 需要停止的众筹合约地址
+     * @param reason 停止原因，写入众筹合约的 EmergencyAction 事件
+     * 
+     * 实现说明：
+     * 1. 与 emergencyStopCrowdsale(address) 行为一致，只是由调用者提供原因
+     * 2. 以重载形式新增，已部署工厂的单参数接口保持不变
+     * 
+     * 权限要求：FACTORY_ADMIN_ROLE
+     */
+    function emergencyStopCrowdsale(address crowdsaleAddress, string calldata reason) 
+        external 
+        onlyRole(FACTORY_ADMIN_ROLE)
+        validCrowdsale(crowdsaleAddress)
+    {
+        require(bytes(reason).length > 0, "CrowdsaleFactory: empty reason");
+        _emergencyStopCrowdsale(crowdsaleAddress, reason);
+    }
+    
+    /**
+     * @dev 暂停众筹并在工厂中标记为非活跃（工厂部署时保留了 EMERGENCY_ROLE）
+     */
+    function _emergencyStopCrowdsale(address crowdsaleAddress, string memory reason) internal {
         // TokenCrowdsale使用emergencyPause而不是pause
-        TokenCrowdsale(crowdsaleAddress).emergencyPause("Factory emergency pause");
+        TokenCrowdsale(crowdsaleAddress).emergencyPause(reason);
         crowdsaleInstances[crowdsaleAddress].isActive = false;
         emit CrowdsaleStatusUpdated(crowdsaleAddress, false);
     }
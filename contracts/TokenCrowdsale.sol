@@ -275,6 +275,9 @@ contract TokenCrowdsale is
         // 检查硬顶限制
         require(stats.totalRaised + weiAmount <= config.hardCap, "TokenCrowdsale: exceeds hard cap");
         
+        // 黑名单用户在任何阶段都不能购买
+        require(!whitelistManager.isBlacklisted(buyer), "TokenCrowdsale: buyer blacklisted");
+        
         // 检查白名单权限（预售阶段）
         if (currentPhase == CrowdsalePhase.PRESALE) {
             require(whitelistManager.isWhitelisted(buyer), "TokenCrowdsale: not whitelisted for presale");
@@ -356,7 +359,8 @@ contract TokenCrowdsale is
             // 检查硬顶
             if (stats.totalRaised + weiAmount > config.hardCap) break;
             
-            // 预售阶段检查白名单
+            // 跳过黑名单用户，预售阶段检查白名单
+            if (whitelistManager.isBlacklisted(buyer)) continue;
             if (currentPhase == CrowdsalePhase.PRESALE && !whitelistManager.isWhitelisted(buyer)) {
                 continue;
             }
@@ -979,7 +983,10 @@ contract TokenCrowdsale is
             return false;
         }
         
-        // 预售阶段检查白名单
+        // 黑名单检查，预售阶段检查白名单
+        if (whitelistManager.isBlacklisted(buyer)) {
+            return false;
+        }
         if (currentPhase == CrowdsalePhase.PRESALE && !whitelistManager.isWhitelisted(buyer)) {
             return false;
         }
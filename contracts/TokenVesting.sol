@@ -706,6 +706,18 @@ contract TokenVesting is ITokenVesting, AccessControl, ReentrancyGuard, Pausable
         return (milestone.description, milestone.percentage, milestone.achieved, milestone.achievedTime);
     }
     
+    /**
+     * @dev 获取释放计划的里程碑数量
+     * @param scheduleId 释放计划ID
+     * @return count 里程碑数量
+     * 
+     * 权限要求：无，公开查询接口
+     * 用途说明：前端按数量逐个读取 getMilestone，不需要依赖越界回滚判断结束
+     */
+    function getMilestoneCount(uint256 scheduleId) external view override returns (uint256 count) {
+        return milestones[scheduleId].length;
+    }
+    
     /**
      * @dev 获取阶梯式释放步骤
      * @param scheduleId 释放计划ID
@@ -373,12 +373,25 @@ contract WhitelistManager is
         
         // 检查目标地址是否已有白名单状态
         WhitelistInfo memory toInfo = _whitelistInfo[to];
+        uint256 fromIndex = _userIndex[from];
         if (toInfo.addedTime != 0) {
             _updateStats(toInfo.level, false); // 移除原有状态的统计
-            totalUsers--; // 减少总用户数，因为要被覆盖
+            
+            // 目标地址已在用户数组中，移除源地址
+            uint256 lastIndex = _allUsers.length - 1;
+            if (fromIndex != lastIndex) {
+                address lastUser = _allUsers[lastIndex];
+                _allUsers[fromIndex] = lastUser;
+                _userIndex[lastUser] = fromIndex;
+            }
+            _allUsers.pop();
+            totalUsers--; // 两条记录合并为一条
         } else {
-            totalUsers++; // 增加总用户数，因为是新用户
+            // 目标地址接管源地址在用户数组中的位置，总用户数不变
+            _allUsers[fromIndex] = to;
+            _userIndex[to] = fromIndex;
         }
+        delete _userIndex[from];
         
         // 转移状态
         _whitelistInfo[to] = WhitelistInfo({
@@ -389,10 +402,8 @@ contract WhitelistManager is
         });
         
         // 清除源地址状态（手动清除，不调用_removeFromWhitelist以避免影响统计）
+        // 源地址级别的统计直接转给目标地址，无需更新
         delete _whitelistInfo[from];
-        totalUsers--; // 减少总用户数
-        _updateStats(fromInfo.level, false); // 移除源地址的统计
-        _updateStats(fromInfo.level, true); // 添加目标地址的统计
         
         emit WhitelistTransferred(from, to, fromInfo.level, msg.sender);
     }
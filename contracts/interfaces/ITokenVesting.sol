@@ -271,6 +271,13 @@ interface ITokenVesting {
             uint256 achievedTime
         );
     
+    /**
+     * @dev 获取释放计划的里程碑数量
+     * @param scheduleId 释放计划ID
+     * @return count 里程碑数量
+     */
+    function getMilestoneCount(uint256 scheduleId) external view returns (uint256 count);
+    
     /**
      * @dev 获取阶梯式释放步骤
      * @param scheduleId 释放计划ID
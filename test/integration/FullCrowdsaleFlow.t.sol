@@ -551,4 +551,109 @@ contract FullCrowdsaleFlowTest is Test {
         assertTrue(instance.isActive);
         assertEq(instance.tokenAddress, address(token));
     }
+    
+    function test_BatchCreateCrowdsale() public {
+        ICrowdsaleFactory.CrowdsaleParams[] memory paramsArray = new ICrowdsaleFactory.CrowdsaleParams[](2);
+        for (uint256 i = 0; i < paramsArray.length; i++) {
+            paramsArray[i] = ICrowdsaleFactory.CrowdsaleParams({
+                tokenName: "Batch Token",
+                tokenSymbol: "BATCH",
+                totalSupply: TOTAL_SUPPLY,
+                softCap: SOFT_CAP,
+                hardCap: HARD_CAP,
+                startTime: block.timestamp + 1 days,
+                endTime: block.timestamp + 30 days,
+                fundingWallet: fundingWallet,
+                tokenPrice: TOKEN_PRICE,
+                vestingParams: ICrowdsaleFactory.VestingParams({
+                    enabled: i == 0,
+                    cliffDuration: 0,
+                    vestingDuration: 180 days,
+                    vestingType: ITokenVesting.VestingType.LINEAR,
+                    immediateReleasePercentage: 0
+                })
+            });
+        }
+        
+        uint256 balanceBefore = creator.balance;
+        
+        // 多付的费用应退还给创建者
+        vm.prank(creator);
+        address[] memory crowdsaleAddresses = factory.batchCreateCrowdsale{value: CREATION_FEE * 3}(paramsArray);
+        
+        assertEq(crowdsaleAddresses.length, 2);
+        assertEq(creator.balance, balanceBefore - CREATION_FEE * 2);
+        
+        (uint256 totalCrowdsales,, uint256 totalFees) = factory.getFactoryStats();
+        assertEq(totalCrowdsales, 2);
+        assertEq(totalFees, CREATION_FEE * 2);
+        
+        // 创建者记录为调用者而不是工厂本身
+        for (uint256 i = 0; i < crowdsaleAddresses.length; i++) {
+            ICrowdsaleFactory.CrowdsaleInstance memory instance = factory.getCrowdsaleInstance(crowdsaleAddresses[i]);
+            assertEq(instance.creator, creator);
+            assertTrue(TokenCrowdsale(crowdsaleAddresses[i]).hasRole(CrowdsaleConstants.CROWDSALE_ADMIN_ROLE, creator));
+        }
+        assertEq(factory.getCreatorCrowdsales(creator).length, 2);
+    }
+
+    function test_FactoryFeeAdministration() public {
+        _createCrowdsale();
+        
+        vm.expectEmit(false, false, false, true);
+        emit CrowdsaleFactory.CreationFeeUpdated(CREATION_FEE, 0.2 ether);
+        vm.prank(admin);
+        factory.setCreationFee(0.2 ether);
+        assertEq(factory.getCreationFee(), 0.2 ether);
+        
+        vm.prank(admin);
+        factory.setPublicCreationAllowed(false);
+        assertFalse(factory.isPublicCreationAllowed());
+        
+        // 非管理员不能提取费用
+        vm.expectRevert();
+        vm.prank(creator);
+        factory.withdrawFees(payable(creator), CREATION_FEE);
+        
+        address treasury = makeAddr("treasury");
+        vm.expectEmit(true, false, false, true);
+        emit CrowdsaleFactory.FeesWithdrawn(treasury, CREATION_FEE);
+        vm.prank(admin);
+        factory.withdrawFees(payable(treasury), CREATION_FEE);
+        assertEq(treasury.balance, CREATION_FEE);
+        assertEq(address(factory).balance, 0);
+    }
+    
+    function test_EmergencyStopCrowdsale() public {
+        _createCrowdsale();
+        
+        vm.expectRevert();
+        vm.prank(creator);
+        factory.emergencyStopCrowdsale(address(crowdsale), "suspicious activity");
+        
+        vm.expectRevert("CrowdsaleFactory: empty reason");
+        vm.prank(admin);
+        factory.emergencyStopCrowdsale(address(crowdsale), "");
+        
+        vm.expectEmit(true, false, false, true);
+        emit ICrowdsale.EmergencyAction("pause", address(factory), block.timestamp, "suspicious activity");
+        vm.prank(admin);
+        factory.emergencyStopCrowdsale(address(crowdsale), "suspicious activity");
+        
+        assertTrue(crowdsale.paused());
+        assertFalse(factory.getCrowdsaleInstance(address(crowdsale)).isActive);
+    }
+    
+    function test_EmergencyStopCrowdsaleWithoutReason() public {
+        _createCrowdsale();
+        
+        // 单参数接口保持兼容，使用默认原因
+        vm.expectEmit(true, false, false, true);
+        emit ICrowdsale.EmergencyAction("pause", address(factory), block.timestamp, "Factory emergency pause");
+        vm.prank(admin);
+        factory.emergencyStopCrowdsale(address(crowdsale));
+        
+        assertTrue(crowdsale.paused());
+        assertFalse(factory.getCrowdsaleInstance(address(crowdsale)).isActive);
+    }
 }
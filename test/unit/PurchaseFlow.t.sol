@@ -208,6 +208,32 @@ contract PurchaseFlowTest is Test {
         vm.stopPrank();
     }
     
+    function testBlacklistedUserCannotPurchase() public {
+        vm.startPrank(admin);
+        crowdsale.setPricingStrategy(address(fixedPricing));
+        whitelistManager.addToWhitelist(user2, IWhitelistManager.WhitelistLevel.BLACKLISTED);
+        
+        vm.warp(block.timestamp + 1 hours);
+        crowdsale.startPresale();
+        vm.warp(block.timestamp + 9 days);
+        crowdsale.startPublicSale();
+        vm.stopPrank();
+        
+        // 公售不要求白名单，但黑名单用户仍然被拒绝
+        assertFalse(crowdsale.canPurchase(user2, 1 ether));
+        vm.prank(user2);
+        vm.expectRevert("TokenCrowdsale: buyer blacklisted");
+        crowdsale.purchaseTokens{value: 1 ether}();
+        
+        // 移出黑名单后可以正常购买
+        vm.prank(admin);
+        whitelistManager.removeFromWhitelist(user2);
+        assertTrue(crowdsale.canPurchase(user2, 1 ether));
+        vm.prank(user2);
+        crowdsale.purchaseTokens{value: 1 ether}();
+        assertEq(crowdsale.getUserTotalPurchased(user2), 1 ether);
+    }
+    
     // ============ 阶梯价格策略测试 ============
     
     function testTieredPricingPurchase() public {
@@ -359,6 +385,34 @@ contract PurchaseFlowTest is Test {
         vm.stopPrank();
     }
     
+    function testBatchPurchaseSkipsBlacklisted() public {
+        vm.startPrank(admin);
+        crowdsale.setPricingStrategy(address(fixedPricing));
+        whitelistManager.addToWhitelist(user2, IWhitelistManager.WhitelistLevel.BLACKLISTED);
+        
+        vm.warp(block.timestamp + 1 hours);
+        crowdsale.startPresale();
+        vm.warp(block.timestamp + 9 days);
+        crowdsale.startPublicSale();
+        
+        address[] memory buyers = new address[](2);
+        uint256[] memory amounts = new uint256[](2);
+        
+        buyers[0] = user1;
+        buyers[1] = user2; // 黑名单用户，公售期间同样应该被跳过
+        
+        amounts[0] = 1 ether;
+        amounts[1] = 1 ether;
+        
+        crowdsale.batchPurchase{value: 2 ether}(buyers, amounts);
+        
+        assertTrue(token.balanceOf(user1) > 0);
+        assertEq(token.balanceOf(user2), 0);
+        assertEq(crowdsale.getUserTotalPurchased(user2), 0);
+        
+        vm.stopPrank();
+    }
+    
     // ============ 购买历史测试 ============
     
     function testPurchaseHistory() public {
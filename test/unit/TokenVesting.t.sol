@@ -424,6 +424,7 @@ contract TokenVestingTest is Test {
         vesting.addMilestone(scheduleId, "Second milestone", 5000); // 50%
         
         // 检查里程碑信息
+        assertEq(vesting.getMilestoneCount(scheduleId), 2);
         (string memory description, uint256 percentage, bool achieved,) = vesting.getMilestone(scheduleId, 0);
         assertEq(description, "First milestone");
         assertEq(percentage, 5000);
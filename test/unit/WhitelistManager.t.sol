@@ -316,7 +316,35 @@ contract WhitelistManagerTest is Test {
         // 验证统计不变
         (uint256 vipCount,,,) = whitelistManager.getWhitelistStats();
         assertEq(vipCount, 1);
-        
+
+        vm.stopPrank();
+    }
+
+    function testTransferWhitelistStatusUpdatesUserList() public {
+        vm.startPrank(operator);
+
+        whitelistManager.addToWhitelist(user1, IWhitelistManager.WhitelistLevel.VIP);
+        whitelistManager.addToWhitelist(user2, IWhitelistManager.WhitelistLevel.WHITELISTED);
+
+        // 转移到新地址：user3 接管 user1 的位置
+        whitelistManager.transferWhitelistStatus(user1, user3);
+        (address[] memory users, uint256 total) = whitelistManager.getAllWhitelistUsers(0, 10);
+        assertEq(total, 2);
+        assertEq(users[0], user3);
+        assertEq(users[1], user2);
+
+        // 转移到已有记录的地址：两条记录合并为一条
+        whitelistManager.transferWhitelistStatus(user3, user2);
+        (users, total) = whitelistManager.getAllWhitelistUsers(0, 10);
+        assertEq(total, 1);
+        assertEq(users[0], user2);
+        assertTrue(whitelistManager.isVIP(user2));
+
+        (uint256 vipCount, uint256 whitelistedCount,, uint256 totalCount) = whitelistManager.getWhitelistStats();
+        assertEq(vipCount, 1);
+        assertEq(whitelistedCount, 0);
+        assertEq(totalCount, 1);
+
         vm.stopPrank();
     }
     
@@ -0,0 +1,299 @@
+#!/usr/bin/env node
+/**
+ * 根据 Foundry 编译产物（out/<File>.sol/<Contract>.json）生成前端合约绑定：
+ * ABI 常量、结构体类型、函数返回值类型、事件参数类型和带类型的合约接口。
+ *
+ * 用法：在仓库根目录 forge build 之后，于 web 目录运行 npm run generate:bindings
+ * 可通过 FOUNDRY_OUT 指定产物目录（相对仓库根目录）。
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const webDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const rootDir = path.resolve(webDir, '..');
+const contractsDir = path.join(rootDir, 'contracts');
+const outDir = path.resolve(rootDir, process.env.FOUNDRY_OUT || 'out');
+const targetDir = path.join(webDir, 'src', 'generated');
+
+const HEADER = `// 此文件由 scripts/generate-contract-bindings.mjs 根据 Foundry 编译产物生成，请勿手动修改\n`;
+
+// BaseContract 自带的成员，同名合约函数只能通过 getFunction 访问
+const RESERVED_MEMBERS = new Set([
+  'target', 'interface', 'runner', 'filters', 'fallback', 'connect', 'attach', 'getAddress',
+  'getDeployedCode', 'waitForDeployment', 'deploymentTransaction', 'getFunction', 'getEvent',
+  'queryFilter', 'on', 'once', 'emit', 'listenerCount', 'listeners', 'off', 'removeAllListeners',
+  'addListener', 'removeListener',
+]);
+
+const TS_KEYWORDS = new Set(['default', 'delete', 'function', 'new', 'in', 'class', 'return', 'this', 'void', 'var', 'with']);
+
+const fail = message => {
+  console.error(message);
+  process.exit(1);
+};
+
+const pascalCase = name => name.replace(/^_+/, '').replace(/^./, char => char.toUpperCase());
+
+const paramName = (name, index, prefix) => {
+  if (!name) return `${prefix}${index}`;
+  return TS_KEYWORDS.has(name) ? `_${name}` : name;
+};
+
+// ============ 收集合约 ============
+
+const listSources = dir => fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+  const fullPath = path.join(dir, entry.name);
+  if (entry.isDirectory()) return entry.name === 'interfaces' ? [] : listSources(fullPath);
+  return entry.name.endsWith('.sol') ? [fullPath] : [];
+});
+
+if (!fs.existsSync(outDir)) {
+  fail(`未找到 Foundry 编译产物目录 ${outDir}，请先在仓库根目录运行 forge build`);
+}
+
+const contracts = [];
+for (const sourcePath of listSources(contractsDir).sort()) {
+  const source = fs.readFileSync(sourcePath, 'utf8');
+  const artifactDir = path.join(outDir, path.basename(sourcePath));
+  if (!fs.existsSync(artifactDir)) {
+    fail(`缺少 ${path.relative(rootDir, sourcePath)} 的编译产物，请重新运行 forge build`);
+  }
+
+  for (const file of fs.readdirSync(artifactDir).sort()) {
+    if (!file.endsWith('.json')) continue;
+    const name = path.basename(file, '.json');
+    // 库、接口和抽象合约不生成绑定
+    if (!new RegExp(`^\\s*contract\\s+${name}\\b`, 'm').test(source)) continue;
+
+    const artifact = JSON.parse(fs.readFileSync(path.join(artifactDir, file), 'utf8'));
+    const bytecode = artifact.bytecode?.object ?? artifact.bytecode ?? '0x';
+    if (!artifact.abi?.length || bytecode === '0x') continue;
+
+    contracts.push({ name, source: path.relative(rootDir, sourcePath), abi: artifact.abi });
+  }
+}
+
+if (contracts.length === 0) {
+  fail(`${outDir} 中没有找到 contracts/ 下合约的编译产物`);
+}
+
+// ============ 类型映射 ============
+
+const structs = new Map(); // 类型名 -> { signature, components }
+
+const componentSignature = components =>
+  components.map(component => `${component.type}:${component.name}:${component.internalType ?? ''}`).join(',');
+
+const registerStruct = param => {
+  const internal = /struct ([\w.]+)/.exec(param.internalType ?? '')?.[1] ?? 'Anonymous';
+  const parts = internal.split('.');
+  const signature = componentSignature(param.components);
+
+  // 不同合约中同名但结构不同的结构体加上所属合约前缀
+  const candidates = [parts[parts.length - 1], parts.map(pascalCase).join('')];
+  for (const candidate of candidates) {
+    const existing = structs.get(candidate);
+    if (!existing) {
+      structs.set(candidate, { signature, components: param.components });
+      return candidate;
+    }
+    if (existing.signature === signature) return candidate;
+  }
+  fail(`无法为结构体 ${internal} 生成唯一的类型名`);
+};
+
+const stripArray = type => type?.replace(/\[\d*\]$/, '');
+
+// ctx.structPrefix 为结构体类型的命名空间前缀，ctx.imports 记录用到的 ethers 类型
+const mapType = (param, mode, ctx) => {
+  const arrayMatch = /^(.*)\[(\d*)\]$/.exec(param.type);
+  if (arrayMatch) {
+    const element = mapType({ ...param, type: arrayMatch[1], internalType: stripArray(param.internalType) }, mode, ctx);
+    return `${element}[]`;
+  }
+  if (param.type === 'tuple') {
+    ctx.usesStructs = true;
+    return `${ctx.structPrefix}${registerStruct(param)}${mode === 'input' ? 'Struct' : 'StructOutput'}`;
+  }
+
+  const addImport = type => {
+    ctx.imports.add(type);
+    return type;
+  };
+  if (/^u?int\d*$/.test(param.type)) return mode === 'input' ? addImport('BigNumberish') : 'bigint';
+  if (param.type === 'address') return mode === 'input' ? addImport('AddressLike') : 'string';
+  if (param.type === 'bool') return 'boolean';
+  if (param.type === 'string') return 'string';
+  if (/^bytes\d*$/.test(param.type)) return mode === 'input' ? addImport('BytesLike') : 'string';
+  fail(`不支持的 ABI 类型 ${param.type}`);
+};
+
+const createContext = structPrefix => ({ structPrefix, imports: new Set(), usesStructs: false });
+
+// ethers Result 同时支持下标和字段名访问
+const outputTuple = (params, ctx) => {
+  const labelled = params.map((param, index) => `${paramName(param.name, index, 'output')}: ${mapType(param, 'output', ctx)}`);
+  const object = params
+    .filter(param => param.name)
+    .map(param => `${paramName(param.name, 0, '')}: ${mapType(param, 'output', ctx)}`);
+  return object.length > 0 ? `[${labelled.join(', ')}] & { ${object.join('; ')} }` : `[${labelled.join(', ')}]`;
+};
+
+const inputTuple = (params, ctx) =>
+  `[${params.map((param, index) => `${paramName(param.name, index, 'arg')}: ${mapType(param, 'input', ctx)}`).join(', ')}]`;
+
+const returnType = (outputs, ctx) => {
+  if (!outputs?.length) return 'void';
+  if (outputs.length === 1) return mapType(outputs[0], 'output', ctx);
+  return outputTuple(outputs, ctx);
+};
+
+// ============ 生成文件 ============
+
+const signatureOf = fragment => `${fragment.name}(${fragment.inputs.map(formatCanonicalType).join(',')})`;
+
+function formatCanonicalType(param) {
+  if (param.type.startsWith('tuple')) {
+    return `(${param.components.map(formatCanonicalType).join(',')})${param.type.slice('tuple'.length)}`;
+  }
+  return param.type;
+}
+
+// 例如 CrowdsaleCreated(address,address,address,string,string) -> _address_address_address_string_string
+const overloadSuffix = fragment =>
+  fragment.inputs.map(input => `_${formatCanonicalType(input).replace(/[^\w]+/g, '')}`).join('');
+
+const renderContract = ({ name, source, abi }) => {
+  const ctx = createContext('Structs.');
+  const functions = abi.filter(entry => entry.type === 'function');
+  const events = abi.filter(entry => entry.type === 'event');
+  const lines = [];
+
+  lines.push(`// ${source}`);
+  lines.push(`export const ${name}Abi = [`);
+  for (const entry of abi) {
+    lines.push(`  ${JSON.stringify(entry)},`);
+  }
+  lines.push('] as const;');
+  lines.push('');
+
+  // 函数返回值类型，重载函数按声明顺序编号
+  const byName = new Map();
+  for (const fn of functions) {
+    byName.set(fn.name, [...(byName.get(fn.name) ?? []), fn]);
+  }
+
+  const methods = [];
+  for (const [fnName, overloads] of byName) {
+    const members = overloads.map((fn, index) => {
+      const args = inputTuple(fn.inputs, ctx);
+      const result = returnType(fn.outputs, ctx);
+      if (fn.stateMutability === 'view' || fn.stateMutability === 'pure') {
+        const typeName = `${name}${pascalCase(fnName)}${overloads.length > 1 ? index + 1 : ''}Result`;
+        lines.push(`export type ${typeName} = ${result};`);
+        return { fn, type: `TypedContractMethod<${args}, ${typeName}, '${fn.stateMutability}'>` };
+      }
+      return { fn, type: `TypedContractMethod<${args}, ${result}, '${fn.stateMutability}'>` };
+    });
+    methods.push({ fnName, members });
+  }
+  lines.push('');
+
+  // 事件参数类型，重载事件按参数类型列表加后缀区分
+  const eventCounts = new Map();
+  for (const event of events) {
+    eventCounts.set(event.name, (eventCounts.get(event.name) ?? 0) + 1);
+  }
+  for (const event of events) {
+    const suffix = eventCounts.get(event.name) > 1 ? overloadSuffix(event) : '';
+    lines.push(`export interface ${name}${event.name}Event${suffix} {`);
+    event.inputs.forEach((input, index) => {
+      lines.push(`  ${paramName(input.name, index, 'arg')}: ${mapType(input, 'output', ctx)};`);
+    });
+    lines.push('}');
+    lines.push('');
+  }
+  const eventNames = [...new Set(events.map(event => `'${event.name}'`))];
+  lines.push(`export type ${name}EventName = ${eventNames.length > 0 ? eventNames.join(' | ') : 'never'};`);
+  lines.push('');
+
+  lines.push(`export interface ${name}Contract extends BaseContract {`);
+  lines.push(`  connect(runner: ContractRunner | null): ${name}Contract;`);
+  for (const { fnName, members } of methods) {
+    if (RESERVED_MEMBERS.has(fnName)) continue;
+    lines.push(`  ${fnName}: ${members.map(member => member.type).join(' & ')};`);
+    if (members.length > 1) {
+      for (const member of members) {
+        lines.push(`  '${signatureOf(member.fn)}': ${member.type};`);
+      }
+    }
+  }
+  lines.push('}');
+  lines.push('');
+  lines.push(`export const connect${name} = (address: string, runner?: ContractRunner | null): ${name}Contract =>`);
+  lines.push(`  new Contract(address, ${name}Abi, runner) as unknown as ${name}Contract;`);
+  lines.push('');
+
+  const ethersTypes = [...ctx.imports, 'BaseContract', 'ContractRunner'].sort();
+  const imports = [
+    `import { Contract } from 'ethers';`,
+    `import type { ${ethersTypes.join(', ')} } from 'ethers';`,
+    `import type { TypedContractMethod } from './common';`,
+    ...(ctx.usesStructs ? [`import type * as Structs from './structs';`] : []),
+    '',
+  ];
+  return [HEADER, ...imports, ...lines].join('\n');
+};
+
+const renderStructs = () => {
+  const ctx = createContext('');
+  const lines = [];
+  // 嵌套结构体会在遍历过程中注册，先复制一份再按名称排序输出
+  const rendered = new Set();
+  while (rendered.size < structs.size) {
+    for (const [name, { components }] of [...structs].sort(([a], [b]) => a.localeCompare(b))) {
+      if (rendered.has(name)) continue;
+      rendered.add(name);
+      const inputFields = components.map((component, index) => `${paramName(component.name, index, 'field')}: ${mapType(component, 'input', ctx)}`);
+      lines.push(`export type ${name}Struct = { ${inputFields.join('; ')} };`);
+      lines.push(`export type ${name}StructOutput = ${outputTuple(components, ctx)};`);
+      lines.push('');
+    }
+  }
+  const imports = ctx.imports.size > 0 ? [`import type { ${[...ctx.imports].sort().join(', ')} } from 'ethers';`, ''] : [];
+  return [HEADER, ...imports, ...lines].join('\n');
+};
+
+const COMMON = `${HEADER}
+import type { ContractTransaction, ContractTransactionResponse, Overrides } from 'ethers';
+
+export type StateMutability = 'pure' | 'view' | 'nonpayable' | 'payable';
+
+type MethodResult<R, S extends StateMutability> = S extends 'pure' | 'view' ? R : ContractTransactionResponse;
+
+type MethodArgs<A extends unknown[]> = A | [...A, Overrides];
+
+export interface TypedContractMethod<A extends unknown[], R, S extends StateMutability> {
+  (...args: MethodArgs<A>): Promise<MethodResult<R, S>>;
+  staticCall(...args: MethodArgs<A>): Promise<R>;
+  estimateGas(...args: MethodArgs<A>): Promise<bigint>;
+  populateTransaction(...args: MethodArgs<A>): Promise<ContractTransaction>;
+}
+`;
+
+const rendered = contracts.map(contract => ({ name: contract.name, content: renderContract(contract) }));
+
+fs.rmSync(targetDir, { recursive: true, force: true });
+fs.mkdirSync(targetDir, { recursive: true });
+fs.writeFileSync(path.join(targetDir, 'common.ts'), COMMON);
+fs.writeFileSync(path.join(targetDir, 'structs.ts'), renderStructs());
+for (const { name, content } of rendered) {
+  fs.writeFileSync(path.join(targetDir, `${name}.ts`), content);
+}
+fs.writeFileSync(
+  path.join(targetDir, 'index.ts'),
+  [HEADER, `export * from './common';`, `export * from './structs';`, ...rendered.map(({ name }) => `export * from './${name}';`), ''].join('\n')
+);
+
+console.log(`Generated bindings for ${contracts.length} contracts in ${path.relative(webDir, targetDir)}`);
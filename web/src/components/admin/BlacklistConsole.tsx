@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { useBlacklistManagement } from '@/hooks/useBlacklistManagement';
+import { Card, CardHeader, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { formatAddress, formatTimestamp } from '@/utils/formatters';
+import {
+  BLACKLIST_ACTION_LABELS,
+  filterBlacklistAudit,
+  getLatestBlacklistReason
+} from '@/utils/blacklistAudit';
+import { ArrowPathIcon, NoSymbolIcon } from '@heroicons/react/24/outline';
+
+interface BlacklistConsoleProps {
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export const BlacklistConsole: React.FC<BlacklistConsoleProps> = ({ onSuccess, onError }) => {
+  const {
+    users,
+    blacklistedCount,
+    auditLog,
+    loading,
+    error,
+    refresh,
+    addToBlacklist,
+    removeFromBlacklist
+  } = useBlacklistManagement();
+  const [newAddress, setNewAddress] = useState('');
+  const [newReason, setNewReason] = useState('');
+  const [query, setQuery] = useState('');
+  const [busyAddress, setBusyAddress] = useState<string | null>(null);
+
+  const keyword = query.trim().toLowerCase();
+  const filteredUsers = users.filter(user => {
+    if (!keyword) return true;
+    const reason = getLatestBlacklistReason(auditLog, user.address) ?? '';
+    return user.address.toLowerCase().includes(keyword) || reason.toLowerCase().includes(keyword);
+  });
+  const filteredAudit = filterBlacklistAudit(auditLog, query);
+
+  const handleAdd = async () => {
+    if (!window.confirm(`确定将 ${newAddress} 加入黑名单吗？该地址原有的白名单级别将被覆盖，且无法再参与购买。`)) return;
+
+    setBusyAddress(newAddress);
+    try {
+      await addToBlacklist(newAddress, newReason);
+      onSuccess(`已将 ${formatAddress(newAddress)} 加入黑名单`);
+      setNewAddress('');
+      setNewReason('');
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusyAddress(null);
+    }
+  };
+
+  const handleRemove = async (address: string) => {
+    const reason = window.prompt(`请输入将 ${address} 移出黑名单的原因：`);
+    if (reason === null) return;
+    if (!reason.trim()) {
+      onError('移出黑名单必须填写原因');
+      return;
+    }
+
+    setBusyAddress(address);
+    try {
+      await removeFromBlacklist(address, reason);
+      onSuccess(`已将 ${formatAddress(address)} 移出黑名单`);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusyAddress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <NoSymbolIcon className="h-5 w-5 mr-2" />
+            加入黑名单
+          </h3>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">钱包地址</label>
+              <input
+                type="text"
+                value={newAddress}
+                onChange={(e) => setNewAddress(e.target.value)}
+                placeholder="0x..."
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">原因（必填）</label>
+              <input
+                type="text"
+                value={newReason}
+                onChange={(e) => setNewReason(e.target.value)}
+                placeholder="例如：涉及欺诈交易"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">原因仅保存在本浏览器的审计记录中，不会上链。</p>
+          <Button
+            variant="danger"
+            onClick={handleAdd}
+            loading={busyAddress !== null && busyAddress === newAddress}
+            disabled={busyAddress !== null || !newAddress || !newReason.trim()}
+          >
+            加入黑名单
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              黑名单地址 ({blacklistedCount})
+            </h3>
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="按地址或原因筛选"
+                className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700"
+              />
+              <Button variant="ghost" size="sm" onClick={refresh} disabled={loading}>
+                <ArrowPathIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+
+          {filteredUsers.length === 0 ? (
+            <p className="text-sm text-gray-500">{keyword ? '没有匹配的黑名单地址' : '暂无黑名单地址'}</p>
+          ) : (
+            <div className="max-h-80 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-3 py-2 text-left">地址</th>
+                    <th className="px-3 py-2 text-left">原因</th>
+                    <th className="px-3 py-2 text-left">加入时间</th>
+                    <th className="px-3 py-2 text-left">操作人</th>
+                    <th className="px-3 py-2 text-right">操作</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredUsers.map(user => (
+                    <tr key={user.address} className="border-t border-gray-100 dark:border-gray-700">
+                      <td className="px-3 py-2 font-mono">{formatAddress(user.address)}</td>
+                      <td className="px-3 py-2">{getLatestBlacklistReason(auditLog, user.address) ?? <span className="text-gray-400">无本地记录</span>}</td>
+                      <td className="px-3 py-2">{formatTimestamp(user.addedTime)}</td>
+                      <td className="px-3 py-2 font-mono">{formatAddress(user.addedBy)}</td>
+                      <td className="px-3 py-2 text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRemove(user.address)}
+                          loading={busyAddress === user.address}
+                          disabled={busyAddress !== null}
+                        >
+                          移出
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">操作审计记录</h3>
+        </CardHeader>
+        <CardContent>
+          {filteredAudit.length === 0 ? (
+            <p className="text-sm text-gray-500">本浏览器暂无黑名单操作记录</p>
+          ) : (
+            <div className="max-h-72 overflow-y-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 pr-4">时间</th>
+                    <th className="py-2 pr-4">操作</th>
+                    <th className="py-2 pr-4">地址</th>
+                    <th className="py-2 pr-4">原因</th>
+                    <th className="py-2 pr-4">操作人</th>
+                    <th className="py-2">交易</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredAudit.map(entry => (
+                    <tr key={`${entry.txHash}-${entry.action}`} className="border-t border-gray-100 dark:border-gray-700">
+                      <td className="py-2 pr-4">{formatTimestamp(Math.floor(entry.timestamp / 1000))}</td>
+                      <td className={`py-2 pr-4 ${entry.action === 'add' ? 'text-red-600' : 'text-green-600'}`}>
+                        {BLACKLIST_ACTION_LABELS[entry.action]}
+                      </td>
+                      <td className="py-2 pr-4 font-mono">{formatAddress(entry.address)}</td>
+                      <td className="py-2 pr-4">{entry.reason}</td>
+                      <td className="py-2 pr-4 font-mono">{entry.operator ? formatAddress(entry.operator) : '-'}</td>
+                      <td className="py-2 font-mono">{formatAddress(entry.txHash)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
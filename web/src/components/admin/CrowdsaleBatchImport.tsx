@@ -0,0 +1,205 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { BatchCreateResult, useCrowdsaleFactory } from '@/hooks/useCrowdsaleFactory';
+import { Button } from '@/components/ui/Button';
+import { formatAddress, formatEther } from '@/utils/formatters';
+import { BATCH_COLUMNS, CrowdsaleBatchRow, parseCrowdsaleBatch } from '@/utils/crowdsaleBatch';
+import { resolveContractError, WIZARD_STEPS } from '@/utils/crowdsaleWizard';
+
+interface CrowdsaleBatchImportProps {
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const VALIDATION_DELAY = 400;
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export const CrowdsaleBatchImport: React.FC<CrowdsaleBatchImportProps> = ({ onSuccess, onError }) => {
+  const { creationFee, validateCrowdsaleParams, batchCreateCrowdsales } = useCrowdsaleFactory();
+
+  const [text, setText] = useState('');
+  // 合约校验结果，按行号记录；undefined 表示尚未校验
+  const [contractErrors, setContractErrors] = useState<Record<number, string | null>>({});
+  const [results, setResults] = useState<Record<number, BatchCreateResult>>({});
+  const [progress, setProgress] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const { rows, parseError } = useMemo((): { rows: CrowdsaleBatchRow[]; parseError: string | null } => {
+    try {
+      return { rows: parseCrowdsaleBatch(text), parseError: null };
+    } catch (error) {
+      return { rows: [], parseError: error instanceof Error ? error.message : String(error) };
+    }
+  }, [text]);
+
+  // 本地校验通过的行逐行调用 validateCrowdsaleParams
+  useEffect(() => {
+    setContractErrors({});
+    const candidates = rows.filter(row => row.errors.length === 0);
+    if (candidates.length === 0) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const checked = await Promise.all(candidates.map(async (row) => {
+        const result = await validateCrowdsaleParams(row.params);
+        if (!result) return [row.line, '合约校验失败'] as const;
+        const resolved = result.isValid ? null : resolveContractError(result.errorMessage, WIZARD_STEPS.length - 1);
+        return [row.line, resolved ? resolved.message : null] as const;
+      }));
+      if (!cancelled) setContractErrors(Object.fromEntries(checked));
+    }, VALIDATION_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [rows, validateCrowdsaleParams]);
+
+  const readyRows = rows.filter(row => row.errors.length === 0 && contractErrors[row.line] === null);
+  const validating = rows.some(row => row.errors.length === 0 && contractErrors[row.line] === undefined);
+  const totalFee = creationFee === null ? null : creationFee * BigInt(readyRows.length);
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setText(await file.text());
+    setResults({});
+  };
+
+  const handleSubmit = async () => {
+    if (!window.confirm(`确认批量创建 ${readyRows.length} 个众筹吗？共需支付 ${totalFee === null ? '-' : formatEther(totalFee)} ETH 创建费用。`)) return;
+
+    setBusy(true);
+    setResults({});
+    try {
+      const batchResults = await batchCreateCrowdsales(
+        readyRows.map(row => row.params),
+        (chunkResults, chunkIndex, chunkCount) => {
+          setProgress(`已提交 ${chunkIndex + 1} / ${chunkCount} 批`);
+          setResults(prev => ({
+            ...prev,
+            ...Object.fromEntries(chunkResults.map(result => [readyRows[result.index].line, result])),
+          }));
+        }
+      );
+      const failed = batchResults.filter(result => !result.success).length;
+      if (failed > 0) {
+        onError(`${failed} 个众筹创建失败，请查看结果列表`);
+      } else {
+        onSuccess(`已创建 ${batchResults.length} 个众筹`);
+      }
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+      setProgress(null);
+    }
+  };
+
+  const rowStatus = (row: CrowdsaleBatchRow) => {
+    const result = results[row.line];
+    if (result) {
+      return result.success
+        ? { text: '已创建', className: 'text-green-600' }
+        : { text: result.error || '创建失败', className: 'text-red-600' };
+    }
+    const errors = [...row.errors, ...(contractErrors[row.line] ? [`合约校验：${contractErrors[row.line]}`] : [])];
+    if (errors.length > 0) return { text: errors.join('；'), className: 'text-red-600' };
+    if (contractErrors[row.line] === undefined) return { text: '校验中...', className: 'text-gray-500' };
+    return { text: '有效', className: 'text-green-600' };
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          CSV 或 JSON 数组，列：{BATCH_COLUMNS.join(',')}
+        </label>
+        <textarea
+          rows={6}
+          value={text}
+          onChange={(e) => { setText(e.target.value); setResults({}); }}
+          placeholder={'Round A Token,RA,1000000,100,1000,2025-01-01T00:00,2025-02-01T00:00,0x1234...,0.001\nRound B Token,RB,500000,50,500,2025-03-01T00:00,2025-04-01T00:00,0x1234...,0.002,true,30,180,LINEAR,10'}
+          className={`${inputClassName} font-mono text-sm`}
+        />
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="mt-2 text-sm"
+        />
+        <p className="text-xs text-gray-500 mt-1">时间支持 Unix 时间戳或日期字符串，释放相关列可省略</p>
+      </div>
+
+      {parseError && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-800 text-sm">{parseError}</p>
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="max-h-72 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-3 py-2 text-left">行</th>
+                <th className="px-3 py-2 text-left">代币</th>
+                <th className="px-3 py-2 text-right">软顶 / 硬顶</th>
+                <th className="px-3 py-2 text-left">状态</th>
+                <th className="px-3 py-2 text-left">众筹地址</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                const status = rowStatus(row);
+                const result = results[row.line];
+                return (
+                  <tr key={row.line} className="border-t border-gray-100 dark:border-gray-700">
+                    <td className="px-3 py-2">{row.line}</td>
+                    <td className="px-3 py-2">{row.form.tokenName || '-'} ({row.form.tokenSymbol || '-'})</td>
+                    <td className="px-3 py-2 text-right">{row.form.softCap || '-'} / {row.form.hardCap || '-'}</td>
+                    <td className={`px-3 py-2 ${status.className}`}>{status.text}</td>
+                    <td className="px-3 py-2 font-mono">
+                      {result?.crowdsaleAddress ? (
+                        <Link to={`/crowdsale/${result.crowdsaleAddress}`} className="text-blue-600 hover:underline">
+                          {formatAddress(result.crowdsaleAddress)}
+                        </Link>
+                      ) : '-'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm">
+        <div>
+          <p className="text-xs text-gray-500">可创建</p>
+          <p className="font-semibold">{readyRows.length} / {rows.length}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">单个创建费用</p>
+          <p className="font-semibold">{creationFee === null ? '-' : `${formatEther(creationFee)} ETH`}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">总创建费用</p>
+          <p className="font-semibold">{totalFee === null ? '-' : `${formatEther(totalFee)} ETH`}</p>
+        </div>
+      </div>
+
+      {progress && <p className="text-sm text-gray-500">{progress}</p>}
+
+      <Button
+        variant="primary"
+        className="w-full"
+        onClick={handleSubmit}
+        loading={busy}
+        disabled={busy || validating || readyRows.length === 0}
+      >
+        {validating ? '正在校验...' : `批量创建 ${readyRows.length} 个众筹`}
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,398 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { formatEther, parseEther } from 'ethers';
+import { useCrowdsaleConfigAdmin } from '@/hooks/useCrowdsaleConfigAdmin';
+import { Card, CardHeader, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { VestingType } from '@/types/contracts';
+import { formatAddress, formatCrowdsalePhase, formatTimestamp } from '@/utils/formatters';
+import { getConfigUpdateTypeLabel } from '@/utils/transactionUtils';
+import {
+  CONFIG_FIELDS,
+  CONFIG_GROUP_LABELS,
+  CrowdsaleSettings,
+  planConfigUpdate
+} from '@/utils/crowdsaleConfig';
+import { AdjustmentsHorizontalIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+
+interface CrowdsaleConfigConsoleProps {
+  crowdsaleAddress?: string;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+// 表单中的原始输入：时间为 datetime-local，金额为 ETH，时长为天，比例为百分比
+interface ConfigForm {
+  presaleStartTime: string;
+  presaleEndTime: string;
+  publicSaleStartTime: string;
+  publicSaleEndTime: string;
+  softCap: string;
+  hardCap: string;
+  minPurchase: string;
+  maxPurchase: string;
+  fundingWallet: string;
+  vestingEnabled: boolean;
+  cliffDays: string;
+  vestingDays: string;
+  vestingType: VestingType;
+  immediateReleasePercent: string;
+}
+
+const DAY = 24 * 60 * 60;
+
+const VESTING_TYPE_OPTIONS = [
+  { value: VestingType.LINEAR, label: '线性释放' },
+  { value: VestingType.CLIFF, label: '悬崖释放' },
+  { value: VestingType.STEPPED, label: '阶梯释放' },
+  { value: VestingType.MILESTONE, label: '里程碑释放' },
+];
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const toDateTimeLocal = (timestamp: bigint) => {
+  const date = new Date(Number(timestamp) * 1000);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const toForm = (settings: CrowdsaleSettings): ConfigForm => ({
+  presaleStartTime: toDateTimeLocal(settings.presaleStartTime),
+  presaleEndTime: toDateTimeLocal(settings.presaleEndTime),
+  publicSaleStartTime: toDateTimeLocal(settings.publicSaleStartTime),
+  publicSaleEndTime: toDateTimeLocal(settings.publicSaleEndTime),
+  softCap: formatEther(settings.softCap),
+  hardCap: formatEther(settings.hardCap),
+  minPurchase: formatEther(settings.minPurchase),
+  maxPurchase: formatEther(settings.maxPurchase),
+  fundingWallet: settings.fundingWallet,
+  vestingEnabled: settings.vestingEnabled,
+  cliffDays: (Number(settings.cliffDuration) / DAY).toString(),
+  vestingDays: (Number(settings.vestingDuration) / DAY).toString(),
+  vestingType: settings.vestingType,
+  immediateReleasePercent: (Number(settings.immediateReleasePercentage) / 100).toString(),
+});
+
+// 将表单转换为合约参数，无法解析的输入单独报错，不进入差异对比
+const parseForm = (form: ConfigForm, base: CrowdsaleSettings): { settings: CrowdsaleSettings; errors: string[] } => {
+  const errors: string[] = [];
+
+  const time = (value: string, label: string, fallback: bigint) => {
+    const ms = new Date(value).getTime();
+    if (!value || Number.isNaN(ms)) {
+      errors.push(`${label}格式无效`);
+      return fallback;
+    }
+    return BigInt(Math.floor(ms / 1000));
+  };
+  const ether = (value: string, label: string, fallback: bigint) => {
+    try {
+      return parseEther(value.trim() || '0');
+    } catch {
+      errors.push(`${label}格式无效`);
+      return fallback;
+    }
+  };
+  const days = (value: string, label: string, fallback: bigint) => {
+    const parsed = Number(value);
+    if (value.trim() === '' || Number.isNaN(parsed) || parsed < 0) {
+      errors.push(`${label}格式无效`);
+      return fallback;
+    }
+    return BigInt(Math.round(parsed * DAY));
+  };
+
+  const percent = Number(form.immediateReleasePercent);
+  if (form.immediateReleasePercent.trim() === '' || Number.isNaN(percent) || percent < 0) {
+    errors.push('立即释放比例格式无效');
+  }
+
+  return {
+    settings: {
+      presaleStartTime: time(form.presaleStartTime, '预售开始时间', base.presaleStartTime),
+      presaleEndTime: time(form.presaleEndTime, '预售结束时间', base.presaleEndTime),
+      publicSaleStartTime: time(form.publicSaleStartTime, '公售开始时间', base.publicSaleStartTime),
+      publicSaleEndTime: time(form.publicSaleEndTime, '公售结束时间', base.publicSaleEndTime),
+      softCap: ether(form.softCap, '软顶', base.softCap),
+      hardCap: ether(form.hardCap, '硬顶', base.hardCap),
+      minPurchase: ether(form.minPurchase, '最小购买金额', base.minPurchase),
+      maxPurchase: ether(form.maxPurchase, '最大购买金额', base.maxPurchase),
+      fundingWallet: form.fundingWallet.trim(),
+      vestingEnabled: form.vestingEnabled,
+      cliffDuration: days(form.cliffDays, '悬崖期', base.cliffDuration),
+      vestingDuration: days(form.vestingDays, '释放期', base.vestingDuration),
+      vestingType: form.vestingType,
+      immediateReleasePercentage: Number.isNaN(percent) || percent < 0
+        ? base.immediateReleasePercentage
+        : BigInt(Math.round(percent * 100)),
+    },
+    errors,
+  };
+};
+
+export const CrowdsaleConfigConsole: React.FC<CrowdsaleConfigConsoleProps> = ({ crowdsaleAddress, onSuccess, onError }) => {
+  const { info, history, loading, error, refresh, applySettings } = useCrowdsaleConfigAdmin(crowdsaleAddress);
+  const [form, setForm] = useState<ConfigForm | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // 链上数据刷新后重置编辑草稿
+  useEffect(() => {
+    setForm(info ? toForm(info.settings) : null);
+  }, [info]);
+
+  const parsed = useMemo(() => (form && info ? parseForm(form, info.settings) : null), [form, info]);
+
+  const plan = useMemo(() => {
+    if (!parsed || !info) return null;
+    return planConfigUpdate(info.settings, parsed.settings, {
+      ...info.state,
+      now: Math.floor(Date.now() / 1000),
+    });
+  }, [parsed, info]);
+
+  const canEdit = !!info?.isCrowdsaleAdmin;
+  const errors = [...(parsed?.errors ?? []), ...(plan?.errors ?? [])];
+
+  const update = <K extends keyof ConfigForm>(key: K, value: ConfigForm[K]) => {
+    setForm(prev => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const handleSubmit = async () => {
+    if (!parsed || !plan || errors.length > 0 || plan.calls.length === 0) return;
+    const methods = plan.calls.map(call => call.method).join('、');
+    if (!window.confirm(`确定提交 ${plan.diff.length} 项配置修改吗？将依次发送 ${plan.calls.length} 笔交易：${methods}`)) return;
+
+    setBusy(true);
+    try {
+      const result = await applySettings(parsed.settings);
+      onSuccess(`众筹配置已更新（${result.count} 笔交易） - 交易哈希: ${result.txHash}`);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!crowdsaleAddress) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center">
+          <AdjustmentsHorizontalIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">暂无可管理的众筹</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const renderInput = (key: keyof ConfigForm, type: 'text' | 'datetime-local' = 'text') => (
+    <input
+      type={type}
+      value={form ? String(form[key]) : ''}
+      onChange={(e) => update(key, e.target.value as never)}
+      disabled={!canEdit}
+      className={`${inputClassName} ${key === 'fundingWallet' ? 'font-mono text-sm' : ''}`}
+    />
+  );
+
+  const labelFor = (key: string) => CONFIG_FIELDS.find(field => field.key === key)?.label ?? key;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+              <AdjustmentsHorizontalIcon className="h-5 w-5 mr-2" />
+              众筹配置
+            </h3>
+            <Button variant="ghost" size="sm" onClick={refresh} disabled={loading}>
+              <ArrowPathIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+          {info && form && (
+            <div className="space-y-6">
+              <div className="flex flex-wrap gap-6 text-sm">
+                <span>当前阶段：<strong>{formatCrowdsalePhase(info.state.phase)}</strong></span>
+                {info.state.paused && <span className="text-red-600">众筹已暂停</span>}
+                <span>上次配置更新：{info.state.lastConfigUpdateTime > 0 ? formatTimestamp(info.state.lastConfigUpdateTime) : '-'}</span>
+              </div>
+              {!canEdit && (
+                <p className="text-sm text-yellow-700">当前钱包没有 CROWDSALE_ADMIN_ROLE 权限，只能查看众筹配置</p>
+              )}
+
+              <div>
+                <h4 className="font-medium text-gray-900 dark:text-white mb-2">{CONFIG_GROUP_LABELS.time}</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {(['presaleStartTime', 'presaleEndTime', 'publicSaleStartTime', 'publicSaleEndTime'] as const).map(key => (
+                    <div key={key}>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{labelFor(key)}</label>
+                      {renderInput(key, 'datetime-local')}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <h4 className="font-medium text-gray-900 dark:text-white mb-2">{CONFIG_GROUP_LABELS.funding} / {CONFIG_GROUP_LABELS.limits} (ETH)</h4>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {(['softCap', 'hardCap', 'minPurchase', 'maxPurchase'] as const).map(key => (
+                    <div key={key}>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{labelFor(key)}</label>
+                      {renderInput(key)}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <h4 className="font-medium text-gray-900 dark:text-white mb-2">{CONFIG_GROUP_LABELS.wallet}</h4>
+                {renderInput('fundingWallet')}
+              </div>
+
+              <div>
+                <h4 className="font-medium text-gray-900 dark:text-white mb-2">{CONFIG_GROUP_LABELS.vesting}</h4>
+                <label className="flex items-center gap-2 text-sm mb-3">
+                  <input
+                    type="checkbox"
+                    checked={form.vestingEnabled}
+                    onChange={(e) => update('vestingEnabled', e.target.checked)}
+                    disabled={!canEdit}
+                  />
+                  启用代币释放
+                </label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">悬崖期 (天)</label>
+                    {renderInput('cliffDays')}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">释放期 (天)</label>
+                    {renderInput('vestingDays')}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">释放类型</label>
+                    <select
+                      value={form.vestingType}
+                      onChange={(e) => update('vestingType', Number(e.target.value) as VestingType)}
+                      disabled={!canEdit}
+                      className={inputClassName}
+                    >
+                      {VESTING_TYPE_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">立即释放 (%)</label>
+                    {renderInput('immediateReleasePercent')}
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 修改预览 */}
+      {info && plan && (
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">修改预览</h3>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {plan.diff.length === 0 ? (
+              <p className="text-sm text-gray-500">配置未修改</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2">分组</th>
+                    <th className="py-2">字段</th>
+                    <th className="py-2">当前值</th>
+                    <th className="py-2">修改后</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.diff.map(item => (
+                    <tr key={item.key} className="border-b border-gray-100">
+                      <td className="py-2 text-gray-500">{CONFIG_GROUP_LABELS[item.group]}</td>
+                      <td className="py-2">{item.label}</td>
+                      <td className="py-2 text-red-600 line-through">{item.from}</td>
+                      <td className="py-2 text-green-600">{item.to}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {plan.calls.length > 0 && (
+              <p className="text-sm text-gray-600">
+                将依次调用：{plan.calls.map(call => call.method).join(' → ')}
+              </p>
+            )}
+
+            {errors.length > 0 && (
+              <ul className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800 list-disc list-inside">
+                {errors.map(message => <li key={message}>{message}</li>)}
+              </ul>
+            )}
+
+            <div className="flex gap-3">
+              <Button
+                variant="primary"
+                onClick={handleSubmit}
+                loading={busy}
+                disabled={!canEdit || busy || plan.calls.length === 0 || errors.length > 0}
+              >
+                提交修改
+              </Button>
+              <Button variant="secondary" onClick={() => setForm(toForm(info.settings))} disabled={busy || plan.diff.length === 0}>
+                重置
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 配置变更记录 */}
+      {info && (
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">配置变更记录</h3>
+          </CardHeader>
+          <CardContent>
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-500">暂无配置变更记录</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2">时间</th>
+                    <th className="py-2">类型</th>
+                    <th className="py-2">操作人</th>
+                    <th className="py-2">交易</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.map(tx => (
+                    <tr key={tx.id} className="border-b border-gray-100">
+                      <td className="py-2">{formatTimestamp(tx.timestamp)}</td>
+                      <td className="py-2">{getConfigUpdateTypeLabel(tx.configType)}</td>
+                      <td className="py-2 font-mono">{formatAddress(tx.updatedBy)}</td>
+                      <td className="py-2 font-mono">{formatAddress(tx.hash)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,385 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useCrowdsaleFactory } from '@/hooks/useCrowdsaleFactory';
+import { Button } from '@/components/ui/Button';
+import { VestingType } from '@/types/contracts';
+import { formatAddress, formatEther } from '@/utils/formatters';
+import { FACTORY_VARIANT_LABELS } from '@/utils/factoryVariant';
+import {
+  CrowdsaleDraft,
+  CrowdsaleWizardForm,
+  WIZARD_STEPS,
+  buildCrowdsaleParams,
+  createEmptyWizardForm,
+  deleteDraft,
+  loadDrafts,
+  resolveContractError,
+  saveDraft,
+  validateWizardStep
+} from '@/utils/crowdsaleWizard';
+import { DocumentDuplicateIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+interface CrowdsaleWizardProps {
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+const VESTING_TYPE_OPTIONS = [
+  { type: VestingType.LINEAR, label: '线性释放' },
+  { type: VestingType.CLIFF, label: '悬崖释放' },
+  { type: VestingType.STEPPED, label: '阶梯释放' },
+  { type: VestingType.MILESTONE, label: '里程碑释放' },
+];
+
+// 参数全部通过后进入确认页
+const REVIEW_STEP = WIZARD_STEPS.length;
+const VALIDATION_DELAY = 400;
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const toDateTimeLocal = (timestamp: number) => {
+  if (!Number.isFinite(timestamp)) return '';
+  const date = new Date(timestamp * 1000);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromDateTimeLocal = (value: string) => Math.floor(new Date(value).getTime() / 1000);
+
+const newDraftId = () => `draft-${Date.now().toString(36)}`;
+
+export const CrowdsaleWizard: React.FC<CrowdsaleWizardProps> = ({ onSuccess, onError, onClose }) => {
+  const navigate = useNavigate();
+  const { creationFee, variant, capabilities, validateCrowdsaleParams, getLatestBlockTimestamp, createCrowdsale } = useCrowdsaleFactory();
+
+  const [step, setStep] = useState(0);
+  const [form, setForm] = useState<CrowdsaleWizardForm>(() => createEmptyWizardForm());
+  const [draftId, setDraftId] = useState(newDraftId);
+  const [drafts, setDrafts] = useState<CrowdsaleDraft[]>(() => loadDrafts());
+  const [contractError, setContractError] = useState<string | null>(null);
+  const [validating, setValidating] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [chainNow, setChainNow] = useState<number | null>(null);
+
+  const currentStep = WIZARD_STEPS[Math.min(step, REVIEW_STEP - 1)];
+  // 开始时间按最新区块时间校验，与合约的 block.timestamp 一致；读取失败时退回本机时间
+  const localErrors = useMemo(
+    () => (step < REVIEW_STEP ? validateWizardStep(currentStep.id, form, chainNow ?? undefined) : []),
+    [step, currentStep.id, form, chainNow]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    getLatestBlockTimestamp()
+      .then(timestamp => { if (!cancelled) setChainNow(timestamp); })
+      .catch(error => console.error('Failed to read latest block:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [step, form.startTime, getLatestBlockTimestamp]);
+  const params = useMemo(() => buildCrowdsaleParams(form), [form]);
+
+  // 精简版工厂启用释放会回滚，草稿里的释放设置也一并关闭
+  useEffect(() => {
+    if (!capabilities.vestingAtCreation && form.vestingEnabled) {
+      setForm(prev => ({ ...prev, vestingEnabled: false }));
+    }
+  }, [capabilities.vestingAtCreation, form.vestingEnabled]);
+
+  // 本地校验通过后再调用合约校验，输入停顿后触发
+  useEffect(() => {
+    setContractError(null);
+    if (localErrors.length > 0) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setValidating(true);
+      const result = await validateCrowdsaleParams(params);
+      if (cancelled) return;
+      setValidating(false);
+      if (result && !result.isValid) {
+        const resolved = resolveContractError(result.errorMessage, Math.min(step, REVIEW_STEP - 1));
+        if (resolved) {
+          setContractError(resolved.step < step
+            ? `${WIZARD_STEPS[resolved.step].label}：${resolved.message}`
+            : resolved.message);
+        }
+      }
+    }, VALIDATION_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setValidating(false);
+    };
+  }, [step, params, localErrors.length, validateCrowdsaleParams]);
+
+  const canContinue = localErrors.length === 0 && !contractError && !validating;
+
+  const update = <K extends keyof CrowdsaleWizardForm>(key: K, value: CrowdsaleWizardForm[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSaveDraft = () => {
+    setDrafts(saveDraft({ id: draftId, name: form.tokenName.trim() || '未命名草稿', step, form }));
+    onSuccess('草稿已保存');
+  };
+
+  const handleLoadDraft = (draft: CrowdsaleDraft) => {
+    setForm({ ...createEmptyWizardForm(), ...draft.form });
+    setStep(Math.min(draft.step, REVIEW_STEP));
+    setDraftId(draft.id);
+  };
+
+  const handleDeleteDraft = (draft: CrowdsaleDraft) => {
+    if (!window.confirm(`确认删除草稿「${draft.name}」吗？`)) return;
+    setDrafts(deleteDraft(draft.id));
+  };
+
+  const handleCreate = async () => {
+    setBusy(true);
+    try {
+      const result = await createCrowdsale(params);
+      setDrafts(deleteDraft(draftId));
+      onSuccess(`众筹 ${form.tokenSymbol} 已创建 - 交易哈希: ${result.txHash}`);
+      onClose();
+      navigate(`/crowdsale/${result.crowdsaleAddress}`);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderStepFields = () => {
+    switch (currentStep.id) {
+      case 'token':
+        return (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">代币名称</label>
+              <input type="text" value={form.tokenName} onChange={(e) => update('tokenName', e.target.value)} placeholder="My Project Token" className={inputClassName} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">代币符号</label>
+              <input type="text" value={form.tokenSymbol} onChange={(e) => update('tokenSymbol', e.target.value.toUpperCase())} placeholder="MPT" className={inputClassName} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">总供应量</label>
+              <input type="number" min="0" value={form.totalSupply} onChange={(e) => update('totalSupply', e.target.value)} placeholder="1000000" className={inputClassName} />
+              <p className="text-xs text-gray-500 mt-1">全部代币铸造后转入众筹合约</p>
+            </div>
+          </>
+        );
+      case 'caps':
+        return (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">软顶 (ETH)</label>
+              <input type="number" min="0" value={form.softCap} onChange={(e) => update('softCap', e.target.value)} placeholder="100" className={inputClassName} />
+              <p className="text-xs text-gray-500 mt-1">未达到软顶时投资者可申请退款</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">硬顶 (ETH)</label>
+              <input type="number" min="0" value={form.hardCap} onChange={(e) => update('hardCap', e.target.value)} placeholder="1000" className={inputClassName} />
+            </div>
+          </>
+        );
+      case 'timing':
+        return (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">开始时间</label>
+              <input type="datetime-local" value={toDateTimeLocal(form.startTime)} onChange={(e) => update('startTime', fromDateTimeLocal(e.target.value))} className={inputClassName} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">结束时间</label>
+              <input type="datetime-local" value={toDateTimeLocal(form.endTime)} onChange={(e) => update('endTime', fromDateTimeLocal(e.target.value))} className={inputClassName} />
+            </div>
+          </>
+        );
+      case 'funding':
+        return (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">资金钱包地址</label>
+            <input type="text" value={form.fundingWallet} onChange={(e) => update('fundingWallet', e.target.value)} placeholder="0x..." className={`${inputClassName} font-mono`} />
+            <p className="text-xs text-gray-500 mt-1">众筹成功后资金库中的 ETH 释放到该地址</p>
+          </div>
+        );
+      case 'price':
+        return (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">代币价格 (ETH / 代币)</label>
+            <input type="number" min="0" step="0.0001" value={form.tokenPrice} onChange={(e) => update('tokenPrice', e.target.value)} placeholder="0.001" className={inputClassName} />
+          </div>
+        );
+      case 'vesting':
+        return (
+          <>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={form.vestingEnabled}
+                onChange={(e) => update('vestingEnabled', e.target.checked)}
+                disabled={!capabilities.vestingAtCreation}
+              />
+              <span>启用代币释放（购买的代币按计划解锁）</span>
+            </label>
+            {!capabilities.vestingAtCreation && (
+              <p className="text-xs text-yellow-700">精简版工厂不支持在创建时配置释放，请在创建后由众筹管理员设置</p>
+            )}
+            {form.vestingEnabled && (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  {VESTING_TYPE_OPTIONS.map((option) => (
+                    <button
+                      key={option.type}
+                      onClick={() => update('vestingType', option.type)}
+                      className={`p-2 rounded-lg border text-sm ${
+                        form.vestingType === option.type ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                <div className="grid grid-cols-3 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">悬崖期 (天)</label>
+                    <input type="number" min="0" value={form.cliffDays} onChange={(e) => update('cliffDays', e.target.value)} className={inputClassName} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">释放期 (天)</label>
+                    <input type="number" min="1" value={form.vestingDays} onChange={(e) => update('vestingDays', e.target.value)} className={inputClassName} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">立即释放 (%)</label>
+                    <input type="number" min="0" max="100" value={form.immediateReleasePercent} onChange={(e) => update('immediateReleasePercent', e.target.value)} className={inputClassName} />
+                  </div>
+                </div>
+              </>
+            )}
+          </>
+        );
+    }
+  };
+
+  const reviewRows = [
+    ['代币', `${form.tokenName} (${form.tokenSymbol})`],
+    ['总供应量', form.totalSupply],
+    ['软顶 / 硬顶', `${form.softCap} / ${form.hardCap} ETH`],
+    ['开始时间', new Date(form.startTime * 1000).toLocaleString()],
+    ['结束时间', new Date(form.endTime * 1000).toLocaleString()],
+    ['资金钱包', formatAddress(form.fundingWallet)],
+    ['代币价格', `${form.tokenPrice} ETH`],
+    ['释放', form.vestingEnabled
+      ? `${VESTING_TYPE_OPTIONS.find(option => option.type === form.vestingType)?.label}，悬崖 ${form.cliffDays} 天，释放 ${form.vestingDays} 天，立即释放 ${form.immediateReleasePercent}%`
+      : '未启用'],
+  ];
+
+  return (
+    <div className="space-y-4">
+      {/* 步骤指示 */}
+      <ol className="flex flex-wrap gap-2 text-xs">
+        {[...WIZARD_STEPS.map(item => item.label), '确认创建'].map((label, index) => (
+          <li
+            key={label}
+            className={`px-2 py-1 rounded-full ${
+              index === step
+                ? 'bg-blue-600 text-white'
+                : index < step ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-500'
+            }`}
+          >
+            {index + 1}. {label}
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm">
+        <span className="text-gray-600 dark:text-gray-300">
+          工厂创建费用{variant && <span className="ml-2 text-xs text-gray-500">({FACTORY_VARIANT_LABELS[variant]})</span>}
+        </span>
+        <span className="font-semibold">{creationFee === null ? '-' : `${formatEther(creationFee)} ETH`}</span>
+      </div>
+
+      {!capabilities.saleConfigAtCreation && ['caps', 'timing', 'price'].includes(currentStep.id) && step < REVIEW_STEP && (
+        <p className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          精简版工厂只校验该参数，不会写入众筹合约；创建后众筹使用合约默认配置，需要在配置中调整
+        </p>
+      )}
+
+      {step < REVIEW_STEP ? (
+        <div className="space-y-4">{renderStepFields()}</div>
+      ) : (
+        <dl className="divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+          {reviewRows.map(([label, value]) => (
+            <div key={label} className="flex justify-between py-2">
+              <dt className="text-gray-500">{label}</dt>
+              <dd className="text-gray-900 dark:text-white text-right">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {step === REVIEW_STEP && !capabilities.tokensFundedAtCreation && (
+        <p className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          精简版工厂把全部代币铸造给创建者，且不部署退款金库；开始销售前需要把代币转入众筹合约
+        </p>
+      )}
+
+      {(localErrors.length > 0 || contractError) && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          {localErrors.map((message) => (
+            <p key={message} className="text-red-800 text-sm">{message}</p>
+          ))}
+          {contractError && <p className="text-red-800 text-sm">合约校验：{contractError}</p>}
+        </div>
+      )}
+      {validating && <p className="text-xs text-gray-500">正在调用合约校验参数...</p>}
+
+      <div className="flex space-x-3">
+        <Button variant="secondary" onClick={() => setStep(step - 1)} disabled={step === 0 || busy}>
+          上一步
+        </Button>
+        <Button variant="outline" onClick={handleSaveDraft} disabled={busy}>
+          保存草稿
+        </Button>
+        {step < REVIEW_STEP ? (
+          <Button variant="primary" className="flex-1" onClick={() => setStep(step + 1)} disabled={!canContinue}>
+            下一步
+          </Button>
+        ) : (
+          <Button variant="primary" className="flex-1" onClick={handleCreate} loading={busy} disabled={!canContinue || busy}>
+            {creationFee ? `支付 ${formatEther(creationFee)} ETH 并创建` : '创建众筹'}
+          </Button>
+        )}
+      </div>
+
+      {drafts.length > 0 && (
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">已保存的草稿</h4>
+          <ul className="space-y-2 max-h-40 overflow-y-auto">
+            {drafts.map((draft) => (
+              <li key={draft.id} className="flex items-center justify-between text-sm">
+                <div>
+                  <p className={`font-medium ${draft.id === draftId ? 'text-blue-600' : 'text-gray-900 dark:text-white'}`}>{draft.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(draft.savedAt).toLocaleString()} · 第 {Math.min(draft.step, REVIEW_STEP) + 1} 步
+                  </p>
+                </div>
+                <div className="flex space-x-1">
+                  <Button variant="ghost" size="sm" onClick={() => handleLoadDraft(draft)} disabled={busy}>
+                    <DocumentDuplicateIcon className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDeleteDraft(draft)} disabled={busy}>
+                    <TrashIcon className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
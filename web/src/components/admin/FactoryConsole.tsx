@@ -0,0 +1,421 @@
+import React, { useState } from 'react';
+import { ethers, parseEther } from 'ethers';
+import { useWallet } from '@/hooks/useWallet';
+import { useFactoryAdmin } from '@/hooks/useFactoryAdmin';
+import { Card, CardHeader, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { FACTORY_VARIANT_LABELS } from '@/utils/factoryVariant';
+import { formatAddress, formatEther, formatTimestamp } from '@/utils/formatters';
+import {
+  ArrowPathIcon,
+  BanknotesIcon,
+  BuildingOfficeIcon,
+  ClockIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline';
+
+interface FactoryConsoleProps {
+  canAdminister: boolean; // FACTORY_ADMIN_ROLE
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const TEMPLATE_LABELS = [
+  { key: 'crowdsale', label: '众筹' },
+  { key: 'token', label: '代币' },
+  { key: 'vesting', label: '释放' },
+  { key: 'whitelist', label: '白名单' },
+  { key: 'vault', label: '退款金库' },
+] as const;
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const safeParseEther = (value: string): bigint | null => {
+  try {
+    return value.trim() ? parseEther(value.trim()) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const FactoryConsole: React.FC<FactoryConsoleProps> = ({ canAdminister, onSuccess, onError }) => {
+  const { address } = useWallet();
+  const {
+    info,
+    feeHistory,
+    activeCrowdsales,
+    variant,
+    capabilities,
+    loading,
+    error,
+    refresh,
+    setCreationFee,
+    setPublicCreationAllowed,
+    withdrawFees,
+    setFactoryPaused,
+    emergencyStopCrowdsale,
+  } = useFactoryAdmin();
+
+  const [newFee, setNewFee] = useState('');
+  const [withdrawTo, setWithdrawTo] = useState('');
+  const [withdrawAmount, setWithdrawAmount] = useState('');
+  const [stopTarget, setStopTarget] = useState('');
+  const [stopReason, setStopReason] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const newFeeWei = safeParseEther(newFee);
+  const withdrawWei = safeParseEther(withdrawAmount);
+  const recipient = withdrawTo.trim() || address || '';
+  const withdrawError = !withdrawAmount.trim()
+    ? null
+    : withdrawWei === null || withdrawWei <= 0n
+      ? '提取金额格式无效'
+      : info && withdrawWei > info.balance
+        ? '提取金额超过工厂余额'
+        : null;
+
+  const runAction = async (action: () => Promise<{ txHash: string }>, successText: string) => {
+    setBusy(true);
+    try {
+      const result = await action();
+      onSuccess(`${successText} - 交易哈希: ${result.txHash}`);
+      return true;
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSetFee = async () => {
+    if (newFeeWei === null) return;
+    if (!window.confirm(`确定将创建费用设为 ${formatEther(newFeeWei)} ETH 吗？`)) return;
+    if (await runAction(() => setCreationFee(newFeeWei), '创建费用已更新')) {
+      setNewFee('');
+    }
+  };
+
+  const handleTogglePublicCreation = () => {
+    if (!info) return;
+    const next = !info.publicCreationAllowed;
+    const message = next
+      ? '确定开放公开创建吗？任何地址支付创建费用后都可以创建众筹。'
+      : '确定关闭公开创建吗？之后只有 FACTORY_OPERATOR_ROLE 可以创建众筹。';
+    if (!window.confirm(message)) return;
+    runAction(() => setPublicCreationAllowed(next), next ? '已开放公开创建' : '已关闭公开创建');
+  };
+
+  const handleWithdraw = async () => {
+    if (withdrawWei === null || withdrawError) return;
+    if (!ethers.isAddress(recipient)) {
+      onError('收款地址无效');
+      return;
+    }
+    if (!window.confirm(`确定将 ${formatEther(withdrawWei)} ETH 提取到 ${recipient} 吗？`)) return;
+    if (await runAction(() => withdrawFees(recipient, withdrawWei), '费用已提取')) {
+      setWithdrawAmount('');
+    }
+  };
+
+  const handleTogglePause = () => {
+    if (!info || info.paused === null) return;
+    const next = !info.paused;
+    if (!window.confirm(next ? '确定暂停工厂吗？暂停期间无法创建新众筹。' : '确定恢复工厂吗？')) return;
+    runAction(() => setFactoryPaused(next), next ? '工厂已暂停' : '工厂已恢复');
+  };
+
+  const handleEmergencyStop = async () => {
+    const target = stopTarget.trim();
+    if (!ethers.isAddress(target)) {
+      onError('众筹地址无效');
+      return;
+    }
+    const withReason = info?.emergencyStopReason ?? false;
+    if (withReason && !stopReason.trim()) {
+      onError('请填写停止原因');
+      return;
+    }
+    if (!window.confirm(`确定紧急停止众筹 ${target} 吗？众筹将被暂停并在工厂中标记为非活跃，${withReason ? '原因会记录在链上' : '当前工厂版本不支持自定义原因'}。`)) return;
+    if (await runAction(() => emergencyStopCrowdsale(target, stopReason), '众筹已紧急停止')) {
+      setStopTarget('');
+      setStopReason('');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* 工厂概览 */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+              <BuildingOfficeIcon className="h-5 w-5 mr-2" />
+              工厂状态
+              {variant && (
+                <span className="ml-3 text-xs font-normal text-gray-500">{FACTORY_VARIANT_LABELS[variant]}</span>
+              )}
+            </h3>
+            <Button variant="ghost" size="sm" onClick={refresh} disabled={loading}>
+              <ArrowPathIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+          {info && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <p className="text-xs text-gray-500">工厂合约</p>
+                  <p className="font-mono text-sm">{formatAddress(info.factoryAddress)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">众筹总数 / 活跃</p>
+                  <p className="font-semibold">{info.totalCrowdsales} / {info.activeCrowdsales}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">累计收取费用</p>
+                  <p className="font-semibold">{formatEther(info.totalFeesCollected)} ETH</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">可提取余额</p>
+                  <p className="font-semibold">{formatEther(info.balance)} ETH</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">创建费用</p>
+                  <p className="font-semibold">{formatEther(info.creationFee)} ETH</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">公开创建</p>
+                  <p className={`font-semibold ${info.publicCreationAllowed ? 'text-green-600' : 'text-gray-600'}`}>
+                    {info.publicCreationAllowed ? '已开放' : '仅运营者'}
+                  </p>
+                </div>
+                {info.paused !== null && (
+                  <div>
+                    <p className="text-xs text-gray-500">工厂状态</p>
+                    <p className={`font-semibold ${info.paused ? 'text-red-600' : 'text-green-600'}`}>
+                      {info.paused ? '已暂停' : '运行中'}
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {canAdminister ? (
+                <div className="flex flex-wrap gap-3 mt-4">
+                  <Button variant="secondary" size="sm" onClick={handleTogglePublicCreation} disabled={busy}>
+                    {info.publicCreationAllowed ? '关闭公开创建' : '开放公开创建'}
+                  </Button>
+                  {info.paused !== null && (
+                    <Button variant={info.paused ? 'primary' : 'danger'} size="sm" onClick={handleTogglePause} disabled={busy}>
+                      {info.paused ? '恢复工厂' : '暂停工厂'}
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <p className="mt-3 text-sm text-yellow-700">当前钱包没有 FACTORY_ADMIN_ROLE 权限，只能查看工厂配置</p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 费用管理 */}
+      {info && canAdminister && (
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+              <BanknotesIcon className="h-5 w-5 mr-2" />
+              费用管理
+            </h3>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">新的创建费用 (ETH)</label>
+              <div className="flex gap-3">
+                <input
+                  type="text"
+                  value={newFee}
+                  onChange={(e) => setNewFee(e.target.value)}
+                  placeholder={formatEther(info.creationFee)}
+                  className={inputClassName}
+                />
+                <Button variant="primary" onClick={handleSetFee} disabled={busy || newFeeWei === null}>
+                  更新
+                </Button>
+              </div>
+              {newFee.trim() && newFeeWei === null && (
+                <p className="text-xs text-red-600 mt-1">费用格式无效</p>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">收款地址</label>
+                <input
+                  type="text"
+                  value={withdrawTo}
+                  onChange={(e) => setWithdrawTo(e.target.value)}
+                  placeholder={address || '0x...'}
+                  className={`${inputClassName} font-mono text-sm`}
+                />
+                <p className="text-xs text-gray-500 mt-1">留空则提取到当前钱包</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">提取金额 (ETH)</label>
+                <div className="flex gap-3">
+                  <input
+                    type="text"
+                    value={withdrawAmount}
+                    onChange={(e) => setWithdrawAmount(e.target.value)}
+                    placeholder="0.0"
+                    className={inputClassName}
+                  />
+                  <Button variant="secondary" onClick={() => setWithdrawAmount(formatEther(info.balance))} disabled={busy}>
+                    全部
+                  </Button>
+                </div>
+                {withdrawError && <p className="text-xs text-red-600 mt-1">{withdrawError}</p>}
+              </div>
+              <Button
+                variant="primary"
+                onClick={handleWithdraw}
+                disabled={busy || withdrawWei === null || !!withdrawError || info.balance === 0n}
+              >
+                提取费用
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 费用历史 */}
+      {info && (
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+              <ClockIcon className="h-5 w-5 mr-2" />
+              费用记录
+            </h3>
+          </CardHeader>
+          <CardContent>
+            {feeHistory.length === 0 ? (
+              <p className="text-sm text-gray-500">暂无费用变更或提取记录</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2">区块</th>
+                    <th className="py-2">类型</th>
+                    <th className="py-2">详情</th>
+                    <th className="py-2">交易</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {feeHistory.map((event) => (
+                    <tr key={`${event.txHash}-${event.logIndex}`} className="border-b border-gray-100">
+                      <td className="py-2">{event.blockNumber}</td>
+                      <td className="py-2">{event.type === 'feeUpdated' ? '费用变更' : '费用提取'}</td>
+                      <td className="py-2">
+                        {event.type === 'feeUpdated'
+                          ? `${formatEther(event.oldFee)} → ${formatEther(event.newFee)} ETH`
+                          : `${formatEther(event.amount)} ETH → ${formatAddress(event.recipient)}`}
+                      </td>
+                      <td className="py-2 font-mono">{formatAddress(event.txHash)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 紧急停止 */}
+      {info && canAdminister && capabilities.emergencyStop && (
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-semibold text-red-700 flex items-center">
+              <ExclamationTriangleIcon className="h-5 w-5 mr-2" />
+              紧急停止众筹
+            </h3>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">众筹地址</label>
+              {activeCrowdsales.length > 0 && (
+                <select
+                  value={activeCrowdsales.some(c => c.crowdsaleAddress === stopTarget) ? stopTarget : ''}
+                  onChange={(e) => setStopTarget(e.target.value)}
+                  className={`${inputClassName} mb-2`}
+                >
+                  <option value="">选择活跃众筹...</option>
+                  {activeCrowdsales.map((crowdsale) => (
+                    <option key={crowdsale.crowdsaleAddress} value={crowdsale.crowdsaleAddress}>
+                      {formatAddress(crowdsale.crowdsaleAddress)} · 创建者 {formatAddress(crowdsale.creator)} · {formatTimestamp(crowdsale.createdAt)}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <input
+                type="text"
+                value={stopTarget}
+                onChange={(e) => setStopTarget(e.target.value)}
+                placeholder="0x..."
+                className={`${inputClassName} font-mono text-sm`}
+              />
+            </div>
+            {info.emergencyStopReason ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">停止原因</label>
+                <textarea
+                  rows={2}
+                  value={stopReason}
+                  onChange={(e) => setStopReason(e.target.value)}
+                  placeholder="例如：发现合约异常调用"
+                  className={inputClassName}
+                />
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500">当前工厂部署于支持停止原因之前，链上记录的原因固定为 "Factory emergency pause"</p>
+            )}
+            <Button
+              variant="danger"
+              onClick={handleEmergencyStop}
+              disabled={busy || !stopTarget.trim() || (info.emergencyStopReason && !stopReason.trim())}
+            >
+              紧急停止
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 模板地址 */}
+      {info?.templates && (
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">合约模板</h3>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {TEMPLATE_LABELS.map(({ key, label }) => (
+                <div key={key}>
+                  <p className="text-xs text-gray-500">{label}</p>
+                  <p className="font-mono text-sm">
+                    {info.templates![key] === ethers.ZeroAddress ? '未使用' : formatAddress(info.templates![key])}
+                  </p>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-3">工厂直接部署新合约，不再使用模板克隆，模板地址保留为零地址</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
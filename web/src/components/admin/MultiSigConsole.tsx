@@ -0,0 +1,373 @@
+import React, { useEffect, useState } from 'react';
+import { useWallet } from '@/hooks/useWallet';
+import { resolveRefundVaultAddress } from '@/hooks/useRefundVault';
+import { useVaultMultiSig, MultiSigOperation } from '@/hooks/useVaultMultiSig';
+import { MultiSigOperationType } from '@/stores/multiSigStore';
+import { Card, CardHeader, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { VaultState } from '@/types/contracts';
+import { formatAddress, formatDate } from '@/utils/formatters';
+import {
+  ArrowPathIcon,
+  CheckCircleIcon,
+  KeyIcon,
+  PlusIcon,
+  ShieldCheckIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+
+interface MultiSigConsoleProps {
+  crowdsaleAddress?: string;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const OPERATION_LABELS: Record<MultiSigOperationType, string> = {
+  EMERGENCY_WITHDRAW: '紧急提取',
+  UPDATE_BENEFICIARY: '更新受益人',
+};
+
+const VAULT_STATE_LABELS: Record<VaultState, string> = {
+  [VaultState.ACTIVE]: '资金托管中',
+  [VaultState.REFUNDING]: '退款进行中',
+  [VaultState.CLOSED]: '已关闭',
+};
+
+export const MultiSigConsole: React.FC<MultiSigConsoleProps> = ({ crowdsaleAddress, onSuccess, onError }) => {
+  const { getProvider } = useWallet();
+  const [vaultAddress, setVaultAddress] = useState<string | null>(null);
+  const [resolving, setResolving] = useState(false);
+  const {
+    info,
+    operations,
+    signers,
+    loading,
+    error,
+    refresh,
+    proposeOperation,
+    signOperation,
+    resetOperation,
+    executeOperation,
+    dismissProposal,
+    releaseFunds,
+    addSigner,
+    removeSigner,
+  } = useVaultMultiSig(vaultAddress);
+
+  const [operationType, setOperationType] = useState<MultiSigOperationType>('EMERGENCY_WITHDRAW');
+  const [operationParam, setOperationParam] = useState('');
+  const [newSigner, setNewSigner] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const resolve = async () => {
+      if (!crowdsaleAddress) {
+        setVaultAddress(null);
+        return;
+      }
+      setResolving(true);
+      try {
+        const provider = await getProvider();
+        setVaultAddress(provider ? await resolveRefundVaultAddress(provider, crowdsaleAddress) : null);
+      } finally {
+        setResolving(false);
+      }
+    };
+    resolve();
+  }, [crowdsaleAddress, getProvider]);
+
+  const runAction = async (action: () => Promise<{ txHash: string }>, successText: string) => {
+    setBusy(true);
+    try {
+      const result = await action();
+      onSuccess(`${successText} - 交易哈希: ${result.txHash}`);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePropose = async () => {
+    await runAction(() => proposeOperation(operationType, operationParam.trim()), '多签操作已发起并签名');
+    setOperationParam('');
+  };
+
+  const handleAddSigner = async () => {
+    await runAction(() => addSigner(newSigner.trim()), '签名者已添加');
+    setNewSigner('');
+  };
+
+  const handleReset = (operation: MultiSigOperation) => {
+    if (!window.confirm('确定要重置该操作的所有签名吗？')) return;
+    runAction(() => resetOperation(operation.hash), '签名已重置');
+  };
+
+  const handleExecute = (operation: MultiSigOperation) => {
+    if (!operation.proposal) return;
+    const label = OPERATION_LABELS[operation.proposal.type];
+    if (!window.confirm(`确定执行「${label}」操作吗？此操作不可撤销。`)) return;
+    runAction(() => executeOperation(operation), `${label}已执行`);
+  };
+
+  const handleRelease = () => {
+    if (!window.confirm('确定将托管资金释放给受益人吗？')) return;
+    runAction(releaseFunds, '资金已释放给受益人');
+  };
+
+  if (resolving) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+          <p className="text-gray-500">正在查找资金托管合约...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!vaultAddress) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center">
+          <ShieldCheckIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">当前众筹未配置资金托管合约</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* 托管合约概览 */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+              <ShieldCheckIcon className="h-5 w-5 mr-2" />
+              资金托管多签控制台
+            </h3>
+            <Button variant="ghost" size="sm" onClick={refresh} disabled={loading}>
+              <ArrowPathIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+          {info && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                <div>
+                  <p className="text-xs text-gray-500">托管合约</p>
+                  <p className="font-mono text-sm">{formatAddress(vaultAddress)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">状态</p>
+                  <p className="font-semibold">{VAULT_STATE_LABELS[info.state]}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">托管余额</p>
+                  <p className="font-semibold">{info.balance} ETH</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">签名要求</p>
+                  <p className="font-semibold">{info.requiredSignatures} / {info.signerCount}</p>
+                </div>
+              </div>
+              <div className="flex items-center justify-between border-t pt-4">
+                <div>
+                  <p className="text-xs text-gray-500">受益人</p>
+                  <p className="font-mono text-sm">{info.beneficiary}</p>
+                </div>
+                {info.isOperator && info.state === VaultState.ACTIVE && (
+                  <Button
+                    variant="primary"
+                    size="sm"
+                    onClick={handleRelease}
+                    disabled={busy || !info.canRelease}
+                    title={info.canRelease ? undefined : '众筹未达到软顶，无法释放资金'}
+                  >
+                    释放资金
+                  </Button>
+                )}
+              </div>
+              {!info.isSigner && (
+                <p className="mt-3 text-sm text-yellow-700">当前钱包不是多签签名者，只能查看签名进度</p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 待签名操作 */}
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <KeyIcon className="h-5 w-5 mr-2" />
+            待处理多签操作
+          </h3>
+        </CardHeader>
+        <CardContent>
+          {info?.isSigner && (
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 mb-6">
+              <h4 className="font-medium text-gray-900 dark:text-white mb-3">发起新操作</h4>
+              <div className="space-y-3">
+                <select
+                  value={operationType}
+                  onChange={(e) => setOperationType(e.target.value as MultiSigOperationType)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                >
+                  <option value="EMERGENCY_WITHDRAW">紧急提取全部资金</option>
+                  <option value="UPDATE_BENEFICIARY">更新受益人地址</option>
+                </select>
+                <input
+                  type="text"
+                  value={operationParam}
+                  onChange={(e) => setOperationParam(e.target.value)}
+                  placeholder={operationType === 'UPDATE_BENEFICIARY' ? '新受益人地址 (0x...)' : '紧急提取原因'}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+                <Button
+                  variant="primary"
+                  size="sm"
+                  className="w-full"
+                  onClick={handlePropose}
+                  disabled={busy || !operationParam.trim()}
+                >
+                  <PlusIcon className="h-4 w-4 mr-2" />
+                  发起并签名
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {operations.length === 0 ? (
+            <p className="text-center text-gray-500 py-4">暂无待处理的多签操作</p>
+          ) : (
+            <div className="space-y-3">
+              {operations.map((operation) => (
+                <div
+                  key={operation.hash}
+                  className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg"
+                >
+                  <div className="flex items-start justify-between mb-2">
+                    <div>
+                      <p className="font-medium text-gray-900 dark:text-white">
+                        {operation.proposal ? OPERATION_LABELS[operation.proposal.type] : '未知操作'}
+                      </p>
+                      {operation.proposal && (
+                        <p className="text-sm text-gray-600 break-all">{operation.proposal.param}</p>
+                      )}
+                      <p className="text-xs text-gray-400 font-mono">{formatAddress(operation.hash, 10, 8)}</p>
+                    </div>
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                      operation.isReady ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                    }`}>
+                      {operation.signatureCount} / {info?.requiredSignatures ?? '-'} 签名
+                    </span>
+                  </div>
+
+                  {operation.signedBy.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-3">
+                      {operation.signedBy.map((signer) => (
+                        <span key={signer} className="inline-flex items-center text-xs bg-gray-100 rounded px-2 py-1 font-mono">
+                          <CheckCircleIcon className="h-3 w-3 mr-1 text-green-500" />
+                          {formatAddress(signer)}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
+                  {operation.proposal && (
+                    <p className="text-xs text-gray-400 mb-3">
+                      由 {formatAddress(operation.proposal.proposedBy)} 于 {formatDate(operation.proposal.proposedAt)} 发起
+                    </p>
+                  )}
+
+                  <div className="flex space-x-2">
+                    {info?.isSigner && !operation.hasCurrentSigned && (
+                      <Button size="sm" variant="primary" onClick={() => runAction(() => signOperation(operation.hash), '签名已添加')} disabled={busy}>
+                        联合签名
+                      </Button>
+                    )}
+                    {operation.isReady && operation.proposal && (
+                      <Button size="sm" variant="danger" onClick={() => handleExecute(operation)} disabled={busy}>
+                        执行
+                      </Button>
+                    )}
+                    {info?.isOperator && operation.signatureCount > 0 && (
+                      <Button size="sm" variant="ghost" onClick={() => handleReset(operation)} disabled={busy}>
+                        重置签名
+                      </Button>
+                    )}
+                    {operation.signatureCount === 0 && (
+                      <Button size="sm" variant="ghost" onClick={() => dismissProposal(operation.hash)} disabled={busy}>
+                        移除
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 签名者管理 */}
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            签名者管理
+          </h3>
+        </CardHeader>
+        <CardContent>
+          {info?.isAdmin && (
+            <div className="flex space-x-3 mb-4">
+              <input
+                type="text"
+                value={newSigner}
+                onChange={(e) => setNewSigner(e.target.value)}
+                placeholder="签名者地址 (0x...)"
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+              <Button variant="primary" size="sm" onClick={handleAddSigner} disabled={busy || !newSigner.trim()}>
+                <PlusIcon className="h-4 w-4 mr-1" />
+                添加
+              </Button>
+            </div>
+          )}
+          <div className="space-y-2">
+            {signers.map((signer) => (
+              <div
+                key={signer.address}
+                className="flex items-center justify-between p-3 border border-gray-200 dark:border-gray-700 rounded-lg"
+              >
+                <span className="font-mono text-sm">{signer.address}</span>
+                {info?.isAdmin && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => runAction(() => removeSigner(signer.address), '签名者已移除')}
+                    disabled={busy || (info.signerCount <= info.requiredSignatures)}
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {info && signers.length < info.signerCount && (
+              <p className="text-xs text-gray-500">
+                另有 {info.signerCount - signers.length} 个签名者尚未在本地记录或签名过操作
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import { usePhaseControl } from '@/hooks/usePhaseControl';
+import { Card, CardHeader, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { CrowdsaleConfig, CrowdsalePhase } from '@/types/contracts';
+import { formatAddress, formatTimestamp } from '@/utils/formatters';
+import {
+  PHASE_LABELS,
+  PHASE_ORDER,
+  PhaseTransitionOption,
+  getPhaseTransitions,
+  getPhaseWarnings
+} from '@/utils/crowdsalePhases';
+import {
+  ArrowPathIcon,
+  ArrowRightIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  FlagIcon
+} from '@heroicons/react/24/outline';
+
+interface PhaseControlPanelProps {
+  crowdsaleAddress?: string;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+// 各阶段对应的计划时间窗口
+const getPhaseWindow = (phase: CrowdsalePhase, config: CrowdsaleConfig): string => {
+  switch (phase) {
+    case CrowdsalePhase.PRESALE:
+      return `${formatTimestamp(config.presaleStartTime)} - ${formatTimestamp(config.presaleEndTime)}`;
+    case CrowdsalePhase.PUBLIC_SALE:
+      return `${formatTimestamp(config.publicSaleStartTime)} - ${formatTimestamp(config.publicSaleEndTime)}`;
+    default:
+      return '';
+  }
+};
+
+const getConfirmMessage = (option: PhaseTransitionOption): string => {
+  const base = `确定将众筹从「${PHASE_LABELS[option.from]}」切换到「${PHASE_LABELS[option.to]}」吗？`;
+  if (option.method === 'finalizeCrowdsale') {
+    return `${base}\n结束后将根据软顶释放资金或开启退款，此操作不可撤销。`;
+  }
+  return base;
+};
+
+export const PhaseControlPanel: React.FC<PhaseControlPanelProps> = ({ crowdsaleAddress, onSuccess, onError }) => {
+  const { info, history, loading, error, refresh, executeTransition } = usePhaseControl(crowdsaleAddress);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const [busy, setBusy] = useState(false);
+
+  // 每 15 秒更新一次当前时间，使倒计时和提示随时间变化
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 15000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleTransition = async (option: PhaseTransitionOption) => {
+    if (!window.confirm(getConfirmMessage(option))) return;
+
+    setBusy(true);
+    try {
+      const result = await executeTransition(option.method);
+      onSuccess(`${option.label}成功 - 交易哈希: ${result.txHash}`);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+      setNow(Math.floor(Date.now() / 1000));
+    }
+  };
+
+  if (!crowdsaleAddress) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center">
+          <FlagIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">暂无可管理的众筹</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const state = info ? { phase: info.phase, paused: info.paused, hardCapReached: info.hardCapReached, now } : null;
+  const transitions = info && state ? getPhaseTransitions(info.config, state) : [];
+  const warnings = info && state ? getPhaseWarnings(info.config, state) : [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+              <FlagIcon className="h-5 w-5 mr-2" />
+              阶段控制
+            </h3>
+            <Button variant="ghost" size="sm" onClick={refresh} disabled={loading}>
+              <ArrowPathIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+          {info && (
+            <div className="space-y-6">
+              {/* 状态机 */}
+              <div className="flex items-center">
+                {PHASE_ORDER.map((phase, index) => {
+                  const isCurrent = phase === info.phase;
+                  const isDone = phase < info.phase;
+                  return (
+                    <React.Fragment key={phase}>
+                      {index > 0 && <ArrowRightIcon className="h-4 w-4 mx-2 text-gray-400 flex-shrink-0" />}
+                      <div
+                        className={`flex-1 p-3 rounded-lg border text-center ${
+                          isCurrent
+                            ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                            : isDone
+                              ? 'border-green-200 bg-green-50 dark:bg-green-900/20'
+                              : 'border-gray-200 dark:border-gray-700'
+                        }`}
+                      >
+                        <p className={`font-medium flex items-center justify-center ${isCurrent ? 'text-blue-700' : 'text-gray-900 dark:text-white'}`}>
+                          {isDone && <CheckCircleIcon className="h-4 w-4 mr-1 text-green-600" />}
+                          {PHASE_LABELS[phase]}
+                        </p>
+                        <p className="text-xs text-gray-500 mt-1">{getPhaseWindow(phase, info.config)}</p>
+                      </div>
+                    </React.Fragment>
+                  );
+                })}
+              </div>
+
+              {info.paused && (
+                <p className="text-sm text-red-600">众筹已暂停</p>
+              )}
+              {info.hardCapReached && info.phase !== CrowdsalePhase.FINALIZED && (
+                <p className="text-sm text-green-700">已达到硬顶，可以提前结束众筹</p>
+              )}
+
+              {warnings.length > 0 && (
+                <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg space-y-1">
+                  {warnings.map(warning => (
+                    <p key={warning} className="text-yellow-800 text-sm flex items-center">
+                      <ExclamationTriangleIcon className="h-4 w-4 mr-2 flex-shrink-0" />
+                      {warning}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {/* 可执行的阶段转换 */}
+              {transitions.length === 0 ? (
+                <p className="text-sm text-gray-500">众筹已结束，没有可执行的阶段转换</p>
+              ) : (
+                <div className="space-y-3">
+                  {!info.isCrowdsaleAdmin && (
+                    <p className="text-sm text-yellow-700">当前钱包没有 CROWDSALE_ADMIN_ROLE 权限，无法切换阶段</p>
+                  )}
+                  {transitions.map(option => (
+                    <div
+                      key={`${option.from}-${option.to}`}
+                      className="flex items-center justify-between p-3 border border-gray-200 dark:border-gray-700 rounded-lg"
+                    >
+                      <div>
+                        <p className="font-medium text-gray-900 dark:text-white">
+                          {PHASE_LABELS[option.from]} → {PHASE_LABELS[option.to]}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {option.available ? '满足切换条件' : option.reason}
+                        </p>
+                      </div>
+                      <Button
+                        variant={option.method === 'finalizeCrowdsale' ? 'danger' : 'primary'}
+                        size="sm"
+                        onClick={() => handleTransition(option)}
+                        loading={busy}
+                        disabled={busy || !option.available || !info.isCrowdsaleAdmin}
+                      >
+                        {option.label}
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 阶段切换记录 */}
+      {info && (
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">阶段切换记录</h3>
+          </CardHeader>
+          <CardContent>
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-500">暂无阶段切换记录</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2">时间</th>
+                    <th className="py-2">阶段</th>
+                    <th className="py-2">操作人</th>
+                    <th className="py-2">交易</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.map(tx => (
+                    <tr key={tx.id} className="border-b border-gray-100">
+                      <td className="py-2">{formatTimestamp(tx.timestamp)}</td>
+                      <td className="py-2">
+                        {PHASE_LABELS[Number(tx.previousPhase) as CrowdsalePhase]} → {PHASE_LABELS[Number(tx.newPhase) as CrowdsalePhase]}
+                      </td>
+                      <td className="py-2 font-mono">{formatAddress(tx.changedBy)}</td>
+                      <td className="py-2 font-mono">{formatAddress(tx.hash)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,523 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { parseEther } from 'ethers';
+import { usePricingAdmin } from '@/hooks/usePricingAdmin';
+import { Card, CardHeader, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { PricingType, WhitelistLevel } from '@/types/contracts';
+import { formatAddress, formatEther, formatTokenAmount } from '@/utils/formatters';
+import {
+  BASIS_POINTS,
+  MAX_DISCOUNT,
+  MAX_TIERS,
+  TierInput,
+  estimateTokenAmount,
+  scaleTierPrices,
+  validateTiers
+} from '@/utils/pricingUtils';
+import {
+  ArrowPathIcon,
+  CurrencyDollarIcon,
+  PlusIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+
+interface PricingConsoleProps {
+  crowdsaleAddress?: string;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+interface TierRow {
+  threshold: string; // 百分比
+  price: string; // ETH
+  isNew: boolean;
+}
+
+const PRICING_TYPE_LABELS: Record<PricingType, string> = {
+  [PricingType.FIXED]: '固定价格',
+  [PricingType.TIERED]: '阶梯价格',
+  [PricingType.DYNAMIC]: '动态价格',
+  [PricingType.WHITELIST]: '白名单价格',
+};
+
+const DISCOUNT_LEVELS = [
+  { level: WhitelistLevel.WHITELISTED, label: '白名单' },
+  { level: WhitelistLevel.VIP, label: 'VIP' },
+] as const;
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+// 将表格输入转换为合约参数，无法解析的输入会在校验中报错
+const parseTierRows = (rows: TierRow[]): { tiers: TierInput[]; errors: string[] } => {
+  const errors: string[] = [];
+  const tiers = rows.map((row, index) => {
+    const percent = Number(row.threshold);
+    if (row.threshold.trim() === '' || Number.isNaN(percent) || percent < 0) {
+      errors.push(`档位 ${index + 1} 的进度阈值无效`);
+    }
+
+    let pricePerToken = 0n;
+    try {
+      pricePerToken = parseEther(row.price || '0');
+    } catch {
+      errors.push(`档位 ${index + 1} 的价格格式无效`);
+    }
+
+    return {
+      progressThreshold: BigInt(Math.round((Number.isNaN(percent) ? 0 : Math.max(percent, 0)) * 100)),
+      pricePerToken,
+    };
+  });
+
+  return { tiers, errors: [...errors, ...validateTiers(tiers)] };
+};
+
+const safeParseEther = (value: string): bigint | null => {
+  try {
+    const parsed = parseEther(value);
+    return parsed > 0n ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export const PricingConsole: React.FC<PricingConsoleProps> = ({ crowdsaleAddress, onSuccess, onError }) => {
+  const {
+    info,
+    loading,
+    error,
+    refresh,
+    saveTiers,
+    setBasePrice,
+    setWhitelistDiscount,
+    setPricingStrategy,
+    previewTokenAmount,
+  } = usePricingAdmin(crowdsaleAddress);
+
+  const [tierRows, setTierRows] = useState<TierRow[]>([]);
+  const [newBasePrice, setNewBasePrice] = useState('');
+  const [discountInputs, setDiscountInputs] = useState<Record<number, string>>({});
+  const [previewAmount, setPreviewAmount] = useState('1');
+  const [onChainPreview, setOnChainPreview] = useState<bigint | null>(null);
+  const [newStrategyAddress, setNewStrategyAddress] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  // 链上数据刷新后重置编辑草稿
+  useEffect(() => {
+    if (!info) return;
+    setTierRows(info.tiers.map(tier => ({
+      threshold: (Number(tier.progressThreshold) / 100).toString(),
+      price: formatEther(tier.pricePerToken),
+      isNew: false,
+    })));
+    setDiscountInputs({
+      [WhitelistLevel.WHITELISTED]: (Number(info.discounts[WhitelistLevel.WHITELISTED]) / 100).toString(),
+      [WhitelistLevel.VIP]: (Number(info.discounts[WhitelistLevel.VIP]) / 100).toString(),
+    });
+    setOnChainPreview(null);
+  }, [info]);
+
+  const isTiered = info?.pricingType === PricingType.TIERED;
+  const canEdit = !!info?.isPricingAdmin;
+  const parsedTiers = useMemo(() => parseTierRows(tierRows), [tierRows]);
+
+  const hasTierChanges = useMemo(() => {
+    if (!info) return false;
+    if (tierRows.length !== info.tiers.length) return true;
+    return parsedTiers.tiers.some((tier, index) => (
+      tier.progressThreshold !== info.tiers[index].progressThreshold ||
+      tier.pricePerToken !== info.tiers[index].pricePerToken
+    ));
+  }, [info, tierRows.length, parsedTiers]);
+
+  const basePriceWei = safeParseEther(newBasePrice);
+  const previewWei = safeParseEther(previewAmount);
+
+  // 预览的价格来源：阶梯草稿或固定基础价格
+  const previewPrices = useMemo(() => {
+    if (!info) return [];
+    if (isTiered) {
+      return parsedTiers.tiers.map((tier, index) => ({
+        label: `档位 ${index + 1}`,
+        price: tier.pricePerToken,
+      }));
+    }
+    return [{ label: '基础价格', price: basePriceWei ?? info.basePrice }];
+  }, [info, isTiered, parsedTiers, basePriceWei]);
+
+  const runAction = async (action: () => Promise<{ txHash: string }>, successText: string) => {
+    setBusy(true);
+    try {
+      const result = await action();
+      onSuccess(`${successText} - 交易哈希: ${result.txHash}`);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updateRow = (index: number, field: 'threshold' | 'price', value: string) => {
+    setTierRows(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleSaveTiers = () => {
+    if (parsedTiers.errors.length > 0) return;
+    if (!window.confirm('确定提交档位修改吗？每个变更档位将发送一笔交易。')) return;
+    runAction(() => saveTiers(parsedTiers.tiers), '价格档位已更新');
+  };
+
+  const handleSetBasePrice = async () => {
+    const message = isTiered
+      ? `确定将第一档价格设为 ${newBasePrice} ETH 吗？其余档位将按比例调整。`
+      : `确定将基础价格设为 ${newBasePrice} ETH 吗？`;
+    if (!window.confirm(message)) return;
+    await runAction(() => setBasePrice(newBasePrice), '基础价格已更新');
+    setNewBasePrice('');
+  };
+
+  const handleSetDiscount = (level: WhitelistLevel) => {
+    const percent = Number(discountInputs[level]);
+    if (Number.isNaN(percent) || percent < 0) {
+      onError('折扣格式无效');
+      return;
+    }
+    runAction(() => setWhitelistDiscount(level, BigInt(Math.round(percent * 100))), '白名单折扣已更新');
+  };
+
+  const handleSetStrategy = async () => {
+    if (!window.confirm('确定更换该众筹的定价策略合约吗？新的购买将立即使用新策略定价。')) return;
+    await runAction(() => setPricingStrategy(newStrategyAddress.trim()), '定价策略已更换');
+    setNewStrategyAddress('');
+  };
+
+  const handleOnChainPreview = async () => {
+    try {
+      setOnChainPreview(await previewTokenAmount(previewAmount));
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  if (!crowdsaleAddress) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center">
+          <CurrencyDollarIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">暂无可管理的众筹</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* 策略概览 */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+              <CurrencyDollarIcon className="h-5 w-5 mr-2" />
+              定价策略
+            </h3>
+            <Button variant="ghost" size="sm" onClick={refresh} disabled={loading}>
+              <ArrowPathIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+          {info && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <p className="text-xs text-gray-500">策略合约</p>
+                  <p className="font-mono text-sm">{formatAddress(info.strategyAddress)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">策略类型</p>
+                  <p className="font-semibold">{PRICING_TYPE_LABELS[info.pricingType] ?? '未知'}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">当前价格</p>
+                  <p className="font-semibold">{formatEther(info.currentPrice)} ETH</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">基础价格</p>
+                  <p className="font-semibold">{formatEther(info.basePrice)} ETH</p>
+                </div>
+              </div>
+              {!canEdit && (
+                <p className="mt-3 text-sm text-yellow-700">当前钱包没有 PRICING_ADMIN_ROLE 权限，只能查看定价配置</p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 阶梯档位编辑 */}
+      {info && isTiered && (
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">价格档位</h3>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm mb-4">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2">档位</th>
+                  <th className="py-2">进度阈值 (%)</th>
+                  <th className="py-2">价格 (ETH)</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {tierRows.map((row, index) => (
+                  <tr key={index} className="border-b border-gray-100">
+                    <td className="py-2 pr-2">
+                      {index + 1}
+                      {row.isNew && <span className="ml-2 text-xs text-blue-600">新增</span>}
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.01"
+                        value={row.threshold}
+                        onChange={(e) => updateRow(index, 'threshold', e.target.value)}
+                        disabled={!canEdit}
+                        className={inputClassName}
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="text"
+                        value={row.price}
+                        onChange={(e) => updateRow(index, 'price', e.target.value)}
+                        disabled={!canEdit}
+                        className={inputClassName}
+                      />
+                    </td>
+                    <td className="py-2 text-right">
+                      {row.isNew && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => setTierRows(prev => prev.filter((_, i) => i !== index))}
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {parsedTiers.errors.length > 0 && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg space-y-1">
+                {parsedTiers.errors.map((message) => (
+                  <p key={message} className="text-red-800 text-sm">{message}</p>
+                ))}
+              </div>
+            )}
+
+            {canEdit && (
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setTierRows(prev => [...prev, { threshold: '100', price: '', isNew: true }])}
+                  disabled={busy || tierRows.length >= MAX_TIERS}
+                >
+                  <PlusIcon className="h-4 w-4 mr-1" />
+                  添加档位
+                </Button>
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={handleSaveTiers}
+                  disabled={busy || !hasTierChanges || parsedTiers.errors.length > 0}
+                >
+                  保存档位
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={refresh}
+                  disabled={busy || !hasTierChanges}
+                >
+                  撤销修改
+                </Button>
+              </div>
+            )}
+            <p className="mt-3 text-xs text-gray-500">
+              合约不支持删除已有档位；进度阈值必须严格递增且不超过 100%，最多 {MAX_TIERS} 个档位
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 基础价格与折扣 */}
+      {info && canEdit && (
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">价格参数</h3>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                {isTiered ? '第一档价格 (ETH，其余档位按比例调整)' : '基础价格 (ETH)'}
+              </label>
+              <div className="flex space-x-3">
+                <input
+                  type="text"
+                  value={newBasePrice}
+                  onChange={(e) => setNewBasePrice(e.target.value)}
+                  placeholder={formatEther(info.basePrice)}
+                  className={inputClassName}
+                />
+                <Button variant="primary" size="sm" onClick={handleSetBasePrice} disabled={busy || !basePriceWei}>
+                  更新
+                </Button>
+              </div>
+              {isTiered && basePriceWei !== null && (
+                <div className="mt-2 text-xs text-gray-500">
+                  调整后：{scaleTierPrices(info.tiers, basePriceWei).map((tier, index) => (
+                    <span key={index} className="mr-3">档位 {index + 1}: {formatEther(tier.pricePerToken)} ETH</span>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                白名单折扣 (%，最高 {Number(MAX_DISCOUNT) / 100}%)
+              </label>
+              <div className="space-y-3">
+                {DISCOUNT_LEVELS.map(({ level, label }) => (
+                  <div key={level} className="flex items-center space-x-3">
+                    <span className="w-16 text-sm text-gray-600">{label}</span>
+                    <input
+                      type="number"
+                      min="0"
+                      max={Number(MAX_DISCOUNT) / 100}
+                      step="0.01"
+                      value={discountInputs[level] ?? ''}
+                      onChange={(e) => setDiscountInputs(prev => ({ ...prev, [level]: e.target.value }))}
+                      className={inputClassName}
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleSetDiscount(level)}
+                      disabled={busy || Number(discountInputs[level]) * 100 > Number(MAX_DISCOUNT)}
+                    >
+                      保存
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 代币数量预览 */}
+      {info && (
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">购买预览</h3>
+          </CardHeader>
+          <CardContent>
+            <div className="flex space-x-3 mb-4">
+              <input
+                type="text"
+                value={previewAmount}
+                onChange={(e) => setPreviewAmount(e.target.value)}
+                placeholder="投资金额 (ETH)"
+                className={inputClassName}
+              />
+              <Button variant="outline" size="sm" onClick={handleOnChainPreview} disabled={!previewWei}>
+                链上计算
+              </Button>
+            </div>
+
+            {onChainPreview !== null && (
+              <p className="mb-4 text-sm text-blue-700">
+                当前链上策略下，当前钱包可获得 {formatTokenAmount(onChainPreview)} 代币
+              </p>
+            )}
+
+            {previewWei !== null && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2">价格来源</th>
+                    <th className="py-2">普通用户</th>
+                    {DISCOUNT_LEVELS.map(({ level, label }) => (
+                      <th key={level} className="py-2">{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {previewPrices.map(({ label, price }) => (
+                    <tr key={label} className="border-b border-gray-100">
+                      <td className="py-2">{label}</td>
+                      <td className="py-2">{formatTokenAmount(estimateTokenAmount(previewWei, price))}</td>
+                      {DISCOUNT_LEVELS.map(({ level }) => {
+                        const percent = Number(discountInputs[level]);
+                        const discount = Number.isNaN(percent)
+                          ? info.discounts[level]
+                          : BigInt(Math.min(Math.round(percent * 100), Number(BASIS_POINTS)));
+                        return (
+                          <td key={level} className="py-2">
+                            {formatTokenAmount(estimateTokenAmount(previewWei, price, discount))}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 更换定价策略 */}
+      {info?.isCrowdsaleAdmin && (
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">更换定价策略</h3>
+          </CardHeader>
+          <CardContent>
+            <div className="flex space-x-3">
+              <input
+                type="text"
+                value={newStrategyAddress}
+                onChange={(e) => setNewStrategyAddress(e.target.value)}
+                placeholder="新定价策略合约地址 (0x...)"
+                className={inputClassName}
+              />
+              <Button
+                variant="danger"
+                size="sm"
+                onClick={handleSetStrategy}
+                disabled={busy || !newStrategyAddress.trim()}
+              >
+                更换
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { useRoleExplorer, RoleContractState } from '@/hooks/useRoleExplorer';
+import { useWallet } from '@/hooks/useWallet';
+import { Card, CardHeader, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { formatAddress } from '@/utils/formatters';
+import {
+  CONTRACT_ROLE_NAMES,
+  ROLE_CONTRACT_LABELS,
+  RoleAssignment,
+  getRoleHash,
+  getRoleName,
+  getRoleRemovalWarnings
+} from '@/utils/accessRoles';
+import { ArrowPathIcon, KeyIcon } from '@heroicons/react/24/outline';
+
+interface RoleExplorerConsoleProps {
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export const RoleExplorerConsole: React.FC<RoleExplorerConsoleProps> = ({ onSuccess, onError }) => {
+  const { address } = useWallet();
+  const { contracts, loading, error, refresh, grantRole, revokeRole, renounceRole } = useRoleExplorer();
+  const [grantTarget, setGrantTarget] = useState('');
+  const [grantRoleName, setGrantRoleName] = useState('');
+  const [grantAccount, setGrantAccount] = useState('');
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const selectedContract = contracts.find(item => item.address === grantTarget) ?? contracts[0];
+  const roleOptions = selectedContract ? CONTRACT_ROLE_NAMES[selectedContract.kind] : [];
+  const selectedRoleName = roleOptions.includes(grantRoleName) ? grantRoleName : roleOptions[0];
+
+  const isSelf = (account: string) => Boolean(address) && account.toLowerCase() === address!.toLowerCase();
+
+  const runAction = async (key: string, action: () => Promise<unknown>, message: string) => {
+    setBusyKey(key);
+    try {
+      await action();
+      onSuccess(message);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleGrant = async () => {
+    if (!selectedContract || !selectedRoleName) return;
+    if (!window.confirm(`确定在${ROLE_CONTRACT_LABELS[selectedContract.kind]}上授予 ${grantAccount} ${selectedRoleName} 吗？`)) return;
+
+    await runAction(
+      'grant',
+      async () => {
+        await grantRole(selectedContract, getRoleHash(selectedRoleName), grantAccount);
+        setGrantAccount('');
+      },
+      `已授予 ${formatAddress(grantAccount)} ${selectedRoleName}`
+    );
+  };
+
+  const handleRemove = async (contract: RoleContractState, assignment: RoleAssignment, account: string) => {
+    const renounce = isSelf(account);
+    const warnings = getRoleRemovalWarnings(contract.assignments, assignment.role, account);
+    const prompt = renounce
+      ? `确定放弃自己在${ROLE_CONTRACT_LABELS[contract.kind]}上的 ${assignment.name} 吗？`
+      : `确定撤销 ${account} 在${ROLE_CONTRACT_LABELS[contract.kind]}上的 ${assignment.name} 吗？`;
+    if (!window.confirm(warnings.length > 0 ? `⚠️ ${warnings.join('\n⚠️ ')}\n\n${prompt}` : prompt)) return;
+
+    await runAction(
+      `${contract.address}-${assignment.role}-${account}`,
+      () => renounce ? renounceRole(contract, assignment.role) : revokeRole(contract, assignment.role, account),
+      renounce ? `已放弃 ${assignment.name}` : `已撤销 ${formatAddress(account)} 的 ${assignment.name}`
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+              <KeyIcon className="h-5 w-5 mr-2" />
+              授予角色
+            </h3>
+            <Button variant="ghost" size="sm" onClick={refresh} disabled={loading}>
+              <ArrowPathIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">合约</label>
+              <select
+                value={selectedContract?.address ?? ''}
+                onChange={(e) => setGrantTarget(e.target.value)}
+                className={inputClassName}
+              >
+                {contracts.map(item => (
+                  <option key={item.address} value={item.address}>
+                    {ROLE_CONTRACT_LABELS[item.kind]} ({formatAddress(item.address)})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">角色</label>
+              <select
+                value={selectedRoleName ?? ''}
+                onChange={(e) => setGrantRoleName(e.target.value)}
+                className={inputClassName}
+              >
+                {roleOptions.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">账户地址</label>
+              <input
+                type="text"
+                value={grantAccount}
+                onChange={(e) => setGrantAccount(e.target.value)}
+                placeholder="0x..."
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <Button
+            variant="primary"
+            onClick={handleGrant}
+            loading={busyKey === 'grant'}
+            disabled={busyKey !== null || !selectedContract || !grantAccount}
+          >
+            授予角色
+          </Button>
+        </CardContent>
+      </Card>
+
+      {contracts.length === 0 && !loading && (
+        <p className="text-sm text-gray-500">未找到已配置的合约地址</p>
+      )}
+
+      {contracts.map(contract => (
+        <Card key={contract.address}>
+          <CardHeader>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {ROLE_CONTRACT_LABELS[contract.kind]}
+              <span className="ml-2 text-sm font-mono font-normal text-gray-500">{contract.address}</span>
+            </h3>
+          </CardHeader>
+          <CardContent>
+            {contract.error ? (
+              <p className="text-sm text-red-600">{contract.error}</p>
+            ) : contract.assignments.length === 0 ? (
+              <p className="text-sm text-gray-500">没有 RoleGranted 事件记录</p>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 pr-4">角色</th>
+                    <th className="py-2 pr-4">管理角色</th>
+                    <th className="py-2">持有者</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {contract.assignments.map(assignment => (
+                    <tr key={assignment.role} className="border-t border-gray-100 dark:border-gray-700 align-top">
+                      <td className="py-2 pr-4 font-mono text-xs">{assignment.name}</td>
+                      <td className="py-2 pr-4 font-mono text-xs text-gray-500">{getRoleName(assignment.adminRole)}</td>
+                      <td className="py-2">
+                        {assignment.members.length === 0 ? (
+                          <span className="text-gray-400">无持有者</span>
+                        ) : (
+                          <div className="space-y-1">
+                            {assignment.members.map(member => {
+                              const key = `${contract.address}-${assignment.role}-${member}`;
+                              return (
+                                <div key={member} className="flex items-center justify-between">
+                                  <span className="font-mono">
+                                    {formatAddress(member)}
+                                    {isSelf(member) && <span className="ml-2 text-xs text-blue-600">(当前钱包)</span>}
+                                  </span>
+                                  <Button
+                                    variant={isSelf(member) ? 'outline' : 'danger'}
+                                    size="sm"
+                                    onClick={() => handleRemove(contract, assignment, member)}
+                                    loading={busyKey === key}
+                                    disabled={busyKey !== null}
+                                  >
+                                    {isSelf(member) ? '放弃' : '撤销'}
+                                  </Button>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
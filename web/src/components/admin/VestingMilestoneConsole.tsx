@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import { useVestingMilestones } from '@/hooks/useVestingMilestones';
+import { MilestoneChecklist } from '@/components/dashboard/MilestoneChecklist';
+import { Card, CardHeader, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { VestingType } from '@/types/contracts';
+import { formatAddress } from '@/utils/formatters';
+import {
+  ArrowPathIcon,
+  FlagIcon,
+  MagnifyingGlassIcon,
+  PlusIcon
+} from '@heroicons/react/24/outline';
+
+interface VestingMilestoneConsoleProps {
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export const VestingMilestoneConsole: React.FC<VestingMilestoneConsoleProps> = ({ onSuccess, onError }) => {
+  const [scheduleInput, setScheduleInput] = useState('');
+  const [scheduleId, setScheduleId] = useState<string | undefined>();
+  const [beneficiaryInput, setBeneficiaryInput] = useState('');
+  const [beneficiarySchedules, setBeneficiarySchedules] = useState<string[] | null>(null);
+  const [description, setDescription] = useState('');
+  const [percentage, setPercentage] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const {
+    schedule,
+    milestones,
+    isMilestoneManager,
+    loading,
+    error,
+    refresh,
+    addMilestone,
+    achieveMilestone,
+    findBeneficiarySchedules,
+  } = useVestingMilestones(scheduleId);
+
+  const allocated = milestones.reduce((sum, milestone) => sum + milestone.percentage, 0);
+  const percentageBps = Math.round(Number(percentage) * 100);
+  const percentageValid = percentage !== '' && !Number.isNaN(percentageBps) && percentageBps > 0 && allocated + percentageBps <= 10000;
+
+  const runAction = async (action: () => Promise<{ txHash: string }>, successText: string) => {
+    setBusy(true);
+    try {
+      const result = await action();
+      onSuccess(`${successText} - 交易哈希: ${result.txHash}`);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLoadSchedule = (id: string) => {
+    const trimmed = id.trim();
+    if (!/^\d+$/.test(trimmed)) {
+      onError('请输入有效的释放计划ID');
+      return;
+    }
+    setScheduleInput(trimmed);
+    setScheduleId(trimmed);
+  };
+
+  const handleFindSchedules = async () => {
+    try {
+      setBeneficiarySchedules(await findBeneficiarySchedules(beneficiaryInput.trim()));
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleAddMilestone = async () => {
+    await runAction(() => addMilestone(description, percentageBps), '里程碑已添加');
+    setDescription('');
+    setPercentage('');
+  };
+
+  const handleAchieve = (index: number) => {
+    const milestone = milestones[index];
+    if (!window.confirm(`确认「${milestone.description}」已达成吗？将解锁 ${(milestone.percentage / 100).toFixed(2)}% 代币，此操作不可撤销。`)) return;
+    runAction(() => achieveMilestone(index), '里程碑已标记为达成');
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* 选择释放计划 */}
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <FlagIcon className="h-5 w-5 mr-2" />
+            里程碑释放管理
+          </h3>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex space-x-3">
+            <input
+              type="text"
+              value={scheduleInput}
+              onChange={(e) => setScheduleInput(e.target.value)}
+              placeholder="释放计划ID"
+              className={inputClassName}
+            />
+            <Button variant="primary" size="sm" onClick={() => handleLoadSchedule(scheduleInput)}>
+              加载
+            </Button>
+          </div>
+          <div className="flex space-x-3">
+            <input
+              type="text"
+              value={beneficiaryInput}
+              onChange={(e) => setBeneficiaryInput(e.target.value)}
+              placeholder="按受益人地址查找 (0x...)"
+              className={inputClassName}
+            />
+            <Button variant="outline" size="sm" onClick={handleFindSchedules} disabled={!beneficiaryInput.trim()}>
+              <MagnifyingGlassIcon className="h-4 w-4" />
+            </Button>
+          </div>
+          {beneficiarySchedules && (
+            beneficiarySchedules.length === 0 ? (
+              <p className="text-sm text-gray-500">该地址没有释放计划</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {beneficiarySchedules.map((id) => (
+                  <button
+                    key={id}
+                    onClick={() => handleLoadSchedule(id)}
+                    className={`px-3 py-1 rounded-full text-sm border ${
+                      id === scheduleId ? 'bg-blue-600 text-white border-blue-600' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    #{id}
+                  </button>
+                ))}
+              </div>
+            )
+          )}
+        </CardContent>
+      </Card>
+
+      {scheduleId && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                释放计划 #{scheduleId}
+              </h3>
+              <Button variant="ghost" size="sm" onClick={refresh} disabled={loading}>
+                <ArrowPathIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-red-800 text-sm">{error}</p>
+              </div>
+            )}
+
+            {schedule && (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-4">
+                  <div>
+                    <p className="text-xs text-gray-500">受益人</p>
+                    <p className="font-mono text-sm">{formatAddress(schedule.beneficiary)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500">总量</p>
+                    <p className="font-semibold">{schedule.totalAmount}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500">已分配比例</p>
+                    <p className="font-semibold">{(allocated / 100).toFixed(2)}%</p>
+                  </div>
+                </div>
+
+                {schedule.vestingType !== VestingType.MILESTONE && (
+                  <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                    <p className="text-yellow-800 text-sm">该计划不是里程碑释放类型，里程碑不会影响其释放数量</p>
+                  </div>
+                )}
+                {schedule.revoked && (
+                  <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <p className="text-red-800 text-sm">该释放计划已被撤销</p>
+                  </div>
+                )}
+
+                <MilestoneChecklist
+                  milestones={milestones}
+                  totalAmount={schedule.totalAmount}
+                  className="mb-4"
+                />
+
+                {isMilestoneManager && milestones.some(m => !m.achieved) && !schedule.revoked && (
+                  <div className="flex flex-wrap gap-2 mb-6">
+                    {milestones.filter(m => !m.achieved).map((milestone) => (
+                      <Button
+                        key={milestone.index}
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleAchieve(milestone.index)}
+                        disabled={busy}
+                      >
+                        标记达成：{milestone.description}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+
+                {isMilestoneManager && !schedule.revoked ? (
+                  <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+                    <h4 className="font-medium text-gray-900 dark:text-white mb-3">添加里程碑</h4>
+                    <div className="space-y-3">
+                      <input
+                        type="text"
+                        value={description}
+                        onChange={(e) => setDescription(e.target.value)}
+                        placeholder="里程碑描述，如：主网上线"
+                        className={inputClassName}
+                      />
+                      <input
+                        type="number"
+                        min="0.01"
+                        max="100"
+                        step="0.01"
+                        value={percentage}
+                        onChange={(e) => setPercentage(e.target.value)}
+                        placeholder={`解锁比例 (%)，剩余可分配 ${((10000 - allocated) / 100).toFixed(2)}%`}
+                        className={inputClassName}
+                      />
+                      <Button
+                        variant="primary"
+                        size="sm"
+                        className="w-full"
+                        onClick={handleAddMilestone}
+                        disabled={busy || !description.trim() || !percentageValid}
+                      >
+                        <PlusIcon className="h-4 w-4 mr-2" />
+                        添加里程碑
+                      </Button>
+                    </div>
+                  </div>
+                ) : !isMilestoneManager && (
+                  <p className="text-sm text-yellow-700">当前钱包没有 MILESTONE_MANAGER_ROLE 权限，只能查看里程碑</p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
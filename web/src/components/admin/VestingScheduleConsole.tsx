@@ -0,0 +1,598 @@
+import React, { useMemo, useState } from 'react';
+import { formatEther, parseEther } from 'ethers';
+import { VestingCreateResult, VestingRevokePreview, useVestingAdmin } from '@/hooks/useVestingAdmin';
+import { VestingCurveChart } from '@/components/charts/VestingCurveChart';
+import { Card, CardHeader, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { VestingType } from '@/types/contracts';
+import { formatAddress, formatTokenAmount } from '@/utils/formatters';
+import { buildDefaultSteps, buildVestingCurve, calculateVestedAmount, VestingCurveInput } from '@/utils/vestingMath';
+import {
+  VestingScheduleDefaults,
+  VestingScheduleInput,
+  parseVestingCsv,
+  validateVestingSchedule
+} from '@/utils/vestingScheduleUtils';
+import {
+  ArrowPathIcon,
+  DocumentTextIcon,
+  LockClosedIcon,
+  XCircleIcon
+} from '@heroicons/react/24/outline';
+
+interface VestingScheduleConsoleProps {
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+type WizardStep = 'params' | 'review' | 'result';
+type WizardMode = 'single' | 'batch';
+
+const DAY = 24 * 60 * 60;
+
+const VESTING_TYPE_OPTIONS = [
+  { type: VestingType.LINEAR, label: '线性释放', hint: '从开始时间起按时间线性解锁' },
+  { type: VestingType.CLIFF, label: '悬崖释放', hint: '悬崖期内不解锁，之后在剩余时长内线性解锁' },
+  { type: VestingType.STEPPED, label: '阶梯释放', hint: '释放期四等分，每段结束时解锁 25%' },
+  { type: VestingType.MILESTONE, label: '里程碑释放', hint: '创建后添加里程碑，达成时按比例解锁' },
+];
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const toDateTimeLocal = (timestamp: number) => {
+  const date = new Date(timestamp * 1000);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const toCurveInput = (input: VestingScheduleInput): VestingCurveInput => ({
+  totalAmount: parseEther(input.amount),
+  releasedAmount: 0n,
+  startTime: input.startTime,
+  cliffDuration: input.cliffDuration,
+  vestingDuration: input.vestingDuration,
+  vestingType: input.vestingType,
+  revoked: false,
+  steps: input.vestingType === VestingType.STEPPED ? buildDefaultSteps(input.startTime, input.vestingDuration) : [],
+  milestones: [],
+});
+
+// 合并多个计划的解锁曲线，用于批量预览
+const buildCombinedCurve = (inputs: VestingScheduleInput[]) => {
+  const curveInputs = inputs.map(toCurveInput);
+  const now = Math.floor(Date.now() / 1000);
+  const timestamps = new Set<number>();
+  curveInputs.forEach(curveInput => buildVestingCurve(curveInput, now).forEach(point => timestamps.add(point.timestamp)));
+
+  return [...timestamps]
+    .sort((a, b) => a - b)
+    .map(timestamp => ({
+      timestamp,
+      vested: parseFloat(formatEther(
+        curveInputs.reduce((sum, curveInput) => sum + calculateVestedAmount(curveInput, timestamp), 0n)
+      )),
+    }));
+};
+
+export const VestingScheduleConsole: React.FC<VestingScheduleConsoleProps> = ({ onSuccess, onError }) => {
+  const {
+    info,
+    loading,
+    error,
+    refresh,
+    checkFunding,
+    fundVesting,
+    createSchedule,
+    createSchedules,
+    previewRevoke,
+    revokeSchedule,
+  } = useVestingAdmin();
+
+  const [step, setStep] = useState<WizardStep>('params');
+  const [mode, setMode] = useState<WizardMode>('single');
+  const [beneficiary, setBeneficiary] = useState('');
+  const [amount, setAmount] = useState('');
+  const [startInput, setStartInput] = useState(() => toDateTimeLocal(Math.floor(Date.now() / 1000) + 3600));
+  const [cliffDays, setCliffDays] = useState('0');
+  const [durationDays, setDurationDays] = useState('365');
+  const [vestingType, setVestingType] = useState<VestingType>(VestingType.LINEAR);
+  const [revocable, setRevocable] = useState(true);
+  const [csvText, setCsvText] = useState('');
+  const [results, setResults] = useState<VestingCreateResult[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const [revokeInput, setRevokeInput] = useState('');
+  const [revokePreview, setRevokePreview] = useState<VestingRevokePreview | null>(null);
+
+  const defaults: VestingScheduleDefaults = useMemo(() => ({
+    startTime: Math.floor(new Date(startInput).getTime() / 1000),
+    // 悬崖期只对悬崖释放生效
+    cliffDuration: vestingType === VestingType.CLIFF ? Math.round(Number(cliffDays) * DAY) : 0,
+    vestingDuration: Math.round(Number(durationDays) * DAY),
+    vestingType,
+    revocable,
+  }), [startInput, cliffDays, durationDays, vestingType, revocable]);
+
+  const singleInput: VestingScheduleInput = { ...defaults, beneficiary: beneficiary.trim(), amount: amount.trim() };
+  const singleErrors = validateVestingSchedule(singleInput);
+  const csvRows = useMemo(
+    () => (mode === 'batch' ? parseVestingCsv(csvText, defaults) : []),
+    [mode, csvText, defaults]
+  );
+  const validRows = csvRows.filter(row => row.errors.length === 0);
+
+  const pendingInputs = mode === 'single'
+    ? (singleErrors.length === 0 ? [singleInput] : [])
+    : validRows.map(row => row.input);
+  const funding = checkFunding(pendingInputs);
+  const previewCurve = step === 'review' && pendingInputs.length > 0 ? buildCombinedCurve(pendingInputs) : [];
+  const canContinue = mode === 'single' ? singleErrors.length === 0 : validRows.length > 0;
+
+  const runAction = async (action: () => Promise<{ txHash: string }>, successText: string) => {
+    setBusy(true);
+    try {
+      const result = await action();
+      onSuccess(`${successText} - 交易哈希: ${result.txHash}`);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCsvFile = async (file?: File) => {
+    if (!file) return;
+    setCsvText(await file.text());
+  };
+
+  const handleSubmit = async () => {
+    setBusy(true);
+    try {
+      if (mode === 'single') {
+        const result = await createSchedule(singleInput);
+        setResults([{ input: singleInput, ...result }]);
+        onSuccess(`释放计划 #${result.scheduleId ?? '?'} 已创建 - 交易哈希: ${result.txHash}`);
+      } else {
+        setResults([]);
+        const batchResults = await createSchedules(pendingInputs, (result) => {
+          setResults(prev => [...prev, result]);
+        });
+        const failed = batchResults.filter(result => !result.success).length;
+        if (failed > 0) {
+          onError(`${failed} 个释放计划创建失败，请查看结果列表`);
+        } else {
+          onSuccess(`已创建 ${batchResults.length} 个释放计划`);
+        }
+      }
+      setStep('result');
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReset = () => {
+    setStep('params');
+    setResults([]);
+    setBeneficiary('');
+    setAmount('');
+    setCsvText('');
+  };
+
+  const handlePreviewRevoke = async () => {
+    try {
+      setRevokePreview(await previewRevoke(revokeInput.trim()));
+    } catch (error) {
+      setRevokePreview(null);
+      onError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revokePreview) return;
+    if (!window.confirm(`确认撤销释放计划 #${revokePreview.scheduleId} 吗？未解锁的 ${formatTokenAmount(revokePreview.returnedAmount)} 代币将不再属于受益人，此操作不可撤销。`)) return;
+    await runAction(() => revokeSchedule(revokePreview.scheduleId), '释放计划已撤销');
+    setRevokePreview(null);
+  };
+
+  const symbol = info?.tokenSymbol || '';
+
+  return (
+    <div className="space-y-6">
+      {/* 合约资金概览 */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+              <LockClosedIcon className="h-5 w-5 mr-2" />
+              释放合约
+            </h3>
+            <Button variant="ghost" size="sm" onClick={refresh} disabled={loading}>
+              <ArrowPathIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+          {info && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <p className="text-xs text-gray-500">合约地址</p>
+                  <p className="font-mono text-sm">{formatAddress(info.vestingAddress)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">合约余额</p>
+                  <p className="font-semibold">{formatTokenAmount(info.contractBalance)} {symbol}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">已分配</p>
+                  <p className="font-semibold">{formatTokenAmount(info.totalVestingAmount)} {symbol}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">可分配</p>
+                  <p className="font-semibold text-green-600">{formatTokenAmount(info.availableBalance)} {symbol}</p>
+                </div>
+              </div>
+              {!info.isVestingAdmin && (
+                <p className="mt-4 text-sm text-yellow-700">当前钱包没有 VESTING_ADMIN_ROLE 权限，无法创建或撤销释放计划</p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 创建向导 */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">创建释放计划</h3>
+            <span className="text-sm text-gray-500">
+              {step === 'params' ? '1. 填写参数' : step === 'review' ? '2. 预览与资金检查' : '3. 创建结果'}
+            </span>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {step === 'params' && (
+            <>
+              <div className="flex space-x-2">
+                <Button variant={mode === 'single' ? 'primary' : 'outline'} size="sm" onClick={() => setMode('single')}>
+                  单个创建
+                </Button>
+                <Button variant={mode === 'batch' ? 'primary' : 'outline'} size="sm" onClick={() => setMode('batch')}>
+                  CSV 批量
+                </Button>
+              </div>
+
+              {mode === 'single' ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">受益人地址</label>
+                    <input
+                      type="text"
+                      value={beneficiary}
+                      onChange={(e) => setBeneficiary(e.target.value)}
+                      placeholder="0x..."
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">释放数量 ({symbol})</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    CSV：beneficiary,amount[,startTime,cliffDays,durationDays,vestingType,revocable]
+                  </label>
+                  <textarea
+                    rows={6}
+                    value={csvText}
+                    onChange={(e) => setCsvText(e.target.value)}
+                    placeholder={'0x1234...,1000\n0xabcd...,500,2025-01-01,30,180,CLIFF,false'}
+                    className={`${inputClassName} font-mono text-sm`}
+                  />
+                  <input
+                    type="file"
+                    accept=".csv,text/csv"
+                    onChange={(e) => handleCsvFile(e.target.files?.[0])}
+                    className="mt-2 text-sm"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">省略的列使用下方的默认参数</p>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">开始时间</label>
+                  <input
+                    type="datetime-local"
+                    value={startInput}
+                    onChange={(e) => setStartInput(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">悬崖期 (天)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={cliffDays}
+                    onChange={(e) => setCliffDays(e.target.value)}
+                    disabled={vestingType !== VestingType.CLIFF}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">释放期 (天)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={durationDays}
+                    onChange={(e) => setDurationDays(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {VESTING_TYPE_OPTIONS.map((option) => (
+                  <button
+                    key={option.type}
+                    onClick={() => setVestingType(option.type)}
+                    className={`text-left p-3 rounded-lg border ${
+                      vestingType === option.type ? 'border-blue-600 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <p className="font-medium text-gray-900">{option.label}</p>
+                    <p className="text-xs text-gray-500">{option.hint}</p>
+                  </button>
+                ))}
+              </div>
+
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input type="checkbox" checked={revocable} onChange={(e) => setRevocable(e.target.checked)} />
+                <span>可撤销（管理员可收回未解锁部分）</span>
+              </label>
+
+              {mode === 'single' && (beneficiary || amount) && singleErrors.length > 0 && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                  {singleErrors.map((message) => (
+                    <p key={message} className="text-red-800 text-sm">{message}</p>
+                  ))}
+                </div>
+              )}
+
+              {mode === 'batch' && csvRows.length > 0 && (
+                <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left">行</th>
+                        <th className="px-3 py-2 text-left">受益人</th>
+                        <th className="px-3 py-2 text-right">数量</th>
+                        <th className="px-3 py-2 text-left">状态</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {csvRows.map((row) => (
+                        <tr key={row.line} className="border-t border-gray-100">
+                          <td className="px-3 py-2">{row.line}</td>
+                          <td className="px-3 py-2 font-mono">{row.input.beneficiary ? formatAddress(row.input.beneficiary) : '-'}</td>
+                          <td className="px-3 py-2 text-right">{row.input.amount}</td>
+                          <td className={`px-3 py-2 ${row.errors.length > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            {row.errors.length > 0 ? row.errors.join('；') : '有效'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <Button
+                variant="primary"
+                className="w-full"
+                onClick={() => setStep('review')}
+                disabled={!canContinue}
+              >
+                下一步：预览
+              </Button>
+            </>
+          )}
+
+          {step === 'review' && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <p className="text-xs text-gray-500">计划数量</p>
+                  <p className="font-semibold">{pendingInputs.length}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">释放类型</p>
+                  <p className="font-semibold">{VESTING_TYPE_OPTIONS.find(o => o.type === vestingType)?.label}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">释放总量</p>
+                  <p className="font-semibold">{funding ? formatTokenAmount(funding.required) : '-'} {symbol}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">可撤销</p>
+                  <p className="font-semibold">{revocable ? '是' : '否'}</p>
+                </div>
+              </div>
+
+              {previewCurve.length > 1 && (
+                <VestingCurveChart
+                  data={previewCurve}
+                  stepped={pendingInputs.some(input => input.vestingType === VestingType.STEPPED)}
+                  tokenSymbol={symbol}
+                />
+              )}
+              {pendingInputs.some(input => input.vestingType === VestingType.MILESTONE) && (
+                <p className="text-sm text-gray-600">里程碑计划创建后需在下方里程碑管理中添加里程碑，达成前不会解锁</p>
+              )}
+
+              {funding && info && (
+                <div className={`p-3 rounded-lg border ${
+                  funding.shortfall === 0n ? 'bg-green-50 border-green-200' : 'bg-yellow-50 border-yellow-200'
+                }`}>
+                  <p className="text-sm">
+                    合约可分配余额 {formatTokenAmount(funding.available)} {symbol}，
+                    本次需要 {formatTokenAmount(funding.required)} {symbol}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    钱包余额 {formatTokenAmount(info.walletBalance)} {symbol} · 授权额度 {formatTokenAmount(info.walletAllowance)} {symbol}
+                    （合约不会通过授权拉取代币，需直接转入）
+                  </p>
+                  {funding.shortfall > 0n && (
+                    <div className="mt-2 flex items-center justify-between">
+                      <p className="text-sm text-yellow-800">
+                        还需向释放合约转入 {formatTokenAmount(funding.shortfall)} {symbol}
+                        {!funding.walletSufficient && '，钱包余额不足'}
+                      </p>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => runAction(() => fundVesting(funding.shortfall), '代币已转入释放合约')}
+                        disabled={busy || !funding.walletSufficient}
+                      >
+                        转入代币
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="flex space-x-3">
+                <Button variant="outline" onClick={() => setStep('params')} disabled={busy}>
+                  上一步
+                </Button>
+                <Button
+                  variant="primary"
+                  className="flex-1"
+                  onClick={handleSubmit}
+                  disabled={busy || !info?.isVestingAdmin || !funding || funding.shortfall > 0n}
+                >
+                  {busy ? '创建中...' : `创建 ${pendingInputs.length} 个释放计划`}
+                </Button>
+              </div>
+              {busy && mode === 'batch' && (
+                <p className="text-sm text-gray-500">进度：{results.length} / {pendingInputs.length}</p>
+              )}
+            </>
+          )}
+
+          {step === 'result' && (
+            <>
+              <ul className="space-y-2">
+                {results.map((result, index) => (
+                  <li
+                    key={index}
+                    className={`p-2 rounded-lg border text-sm ${
+                      result.success ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'
+                    }`}
+                  >
+                    <span className="font-mono">{formatAddress(result.input.beneficiary)}</span>
+                    {' · '}{result.input.amount} {symbol}
+                    {' · '}
+                    {result.success
+                      ? `计划 #${result.scheduleId ?? '?'}`
+                      : <span className="text-red-700">{result.error}</span>}
+                  </li>
+                ))}
+              </ul>
+              <Button variant="outline" className="w-full" onClick={handleReset}>
+                <DocumentTextIcon className="h-4 w-4 mr-2" />
+                继续创建
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 撤销释放计划 */}
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <XCircleIcon className="h-5 w-5 mr-2" />
+            撤销释放计划
+          </h3>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex space-x-3">
+            <input
+              type="text"
+              value={revokeInput}
+              onChange={(e) => setRevokeInput(e.target.value)}
+              placeholder="释放计划ID"
+              className={inputClassName}
+            />
+            <Button variant="outline" size="sm" onClick={handlePreviewRevoke} disabled={!/^\d+$/.test(revokeInput.trim())}>
+              查询
+            </Button>
+          </div>
+
+          {revokePreview && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <p className="text-xs text-gray-500">受益人</p>
+                  <p className="font-mono text-sm">{formatAddress(revokePreview.beneficiary)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">总量</p>
+                  <p className="font-semibold">{formatTokenAmount(revokePreview.totalAmount)} {symbol}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">已领取（受益人保留）</p>
+                  <p className="font-semibold text-green-600">{formatTokenAmount(revokePreview.releasedAmount)} {symbol}</p>
+                  <p className="text-xs text-gray-500">已解锁 {formatTokenAmount(revokePreview.vestedAmount)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">收回（回到可分配余额）</p>
+                  <p className="font-semibold text-red-600">{formatTokenAmount(revokePreview.returnedAmount)} {symbol}</p>
+                </div>
+              </div>
+
+              {!revokePreview.revoked && revokePreview.unclaimedAmount > 0n && (
+                <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                  <p className="text-yellow-800 text-sm">
+                    受益人还有 {formatTokenAmount(revokePreview.unclaimedAmount)} {symbol} 已解锁但未领取，
+                    撤销后将无法领取且不会回到可分配余额，建议先代为释放
+                  </p>
+                </div>
+              )}
+
+              {revokePreview.revoked ? (
+                <p className="text-sm text-red-700">该释放计划已被撤销</p>
+              ) : !revokePreview.revocable ? (
+                <p className="text-sm text-yellow-700">该释放计划创建时设置为不可撤销</p>
+              ) : (
+                <Button
+                  variant="danger"
+                  className="w-full"
+                  onClick={handleRevoke}
+                  disabled={busy || !info?.isVestingAdmin}
+                >
+                  撤销释放计划
+                </Button>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import { useWhitelistExpiry } from '@/hooks/useWhitelistExpiry';
+import { Card, CardHeader, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { WhitelistLevel } from '@/types/contracts';
+import { formatAddress, formatTimestamp } from '@/utils/formatters';
+import {
+  EXPIRY_WINDOW_OPTIONS,
+  formatExpiryCountdown,
+  selectExpiredEntries,
+  selectExpiringEntries
+} from '@/utils/whitelistExpiry';
+import { ArrowPathIcon, ClockIcon } from '@heroicons/react/24/outline';
+
+interface WhitelistExpiryConsoleProps {
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const DAY = 24 * 60 * 60;
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const toDateTimeLocal = (timestamp: number) => {
+  const date = new Date(timestamp * 1000);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export const WhitelistExpiryConsole: React.FC<WhitelistExpiryConsoleProps> = ({ onSuccess, onError }) => {
+  const { entries, loading, error, refresh, extendEntries, cleanupExpired } = useWhitelistExpiry();
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const [windowSeconds, setWindowSeconds] = useState<number>(EXPIRY_WINDOW_OPTIONS[1].value);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [newExpiry, setNewExpiry] = useState(() => toDateTimeLocal(Math.floor(Date.now() / 1000) + 30 * DAY));
+  const [progress, setProgress] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // 列表刷新后清空选择
+  useEffect(() => {
+    setSelected(new Set());
+  }, [entries]);
+
+  const expiring = selectExpiringEntries(entries, now, windowSeconds);
+  const expired = selectExpiredEntries(entries, now);
+  const selectedEntries = expiring.filter(entry => selected.has(entry.address));
+  const newExpiryTime = Math.floor(new Date(newExpiry).getTime() / 1000);
+  const newExpiryValid = !Number.isNaN(newExpiryTime) && newExpiryTime > now;
+
+  const toggle = (address: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(address)) next.delete(address);
+      else next.add(address);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(selectedEntries.length === expiring.length ? new Set() : new Set(expiring.map(entry => entry.address)));
+  };
+
+  const handleExtend = async () => {
+    if (!window.confirm(`确定将 ${selectedEntries.length} 个地址的过期时间延长至 ${formatTimestamp(newExpiryTime)} 吗？`)) return;
+
+    setBusy(true);
+    try {
+      const result = await extendEntries(selectedEntries, newExpiryTime, (done, total) => setProgress(`已提交 ${done} / ${total} 批`));
+      onSuccess(`已延长 ${selectedEntries.length} 个地址的有效期（${result.txHashes.length} 笔交易）`);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+      setProgress(null);
+    }
+  };
+
+  const handleCleanup = async () => {
+    if (!window.confirm(`确定清理 ${expired.length} 个已过期的白名单条目吗？清理后级别将被重置为 NONE。`)) return;
+
+    setBusy(true);
+    try {
+      const result = await cleanupExpired(expired.map(entry => entry.address), (done, total) => setProgress(`已清理 ${done} / ${total} 批`));
+      onSuccess(`已清理 ${expired.length} 个过期条目（${result.txHashes.length} 笔交易）`);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+              <ClockIcon className="h-5 w-5 mr-2" />
+              即将过期
+            </h3>
+            <div className="flex items-center space-x-2">
+              <select
+                value={windowSeconds}
+                onChange={(e) => setWindowSeconds(Number(e.target.value))}
+                className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700"
+              >
+                {EXPIRY_WINDOW_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <Button variant="ghost" size="sm" onClick={refresh} disabled={loading}>
+                <ArrowPathIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+
+          {expiring.length === 0 ? (
+            <p className="text-sm text-gray-500">所选时间窗口内没有即将过期的白名单</p>
+          ) : (
+            <div className="max-h-72 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-3 py-2 text-left">
+                      <input type="checkbox" checked={selectedEntries.length === expiring.length} onChange={toggleAll} />
+                    </th>
+                    <th className="px-3 py-2 text-left">地址</th>
+                    <th className="px-3 py-2 text-left">级别</th>
+                    <th className="px-3 py-2 text-left">过期时间</th>
+                    <th className="px-3 py-2 text-left">剩余</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {expiring.map(entry => (
+                    <tr key={entry.address} className="border-t border-gray-100 dark:border-gray-700">
+                      <td className="px-3 py-2">
+                        <input type="checkbox" checked={selected.has(entry.address)} onChange={() => toggle(entry.address)} />
+                      </td>
+                      <td className="px-3 py-2 font-mono">{formatAddress(entry.address)}</td>
+                      <td className="px-3 py-2">{entry.level === WhitelistLevel.VIP ? 'VIP' : 'WHITELISTED'}</td>
+                      <td className="px-3 py-2">{formatTimestamp(entry.expirationTime)}</td>
+                      <td className="px-3 py-2">{formatExpiryCountdown(entry.expirationTime, now)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex items-end space-x-3">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">新的过期时间</label>
+              <input
+                type="datetime-local"
+                value={newExpiry}
+                onChange={(e) => setNewExpiry(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <Button
+              variant="primary"
+              onClick={handleExtend}
+              loading={busy}
+              disabled={busy || selectedEntries.length === 0 || !newExpiryValid}
+            >
+              延长所选 ({selectedEntries.length})
+            </Button>
+          </div>
+          {!newExpiryValid && <p className="text-xs text-red-600">新的过期时间必须晚于当前时间</p>}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">过期清理</h3>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            共 {entries.length} 个白名单记录，其中 {expired.length} 个已过期但尚未清理。过期地址已无法享受白名单权限，
+            清理后会把级别重置为 NONE 并更新统计数据。
+          </p>
+          <Button
+            variant="danger"
+            onClick={handleCleanup}
+            loading={busy}
+            disabled={busy || expired.length === 0}
+          >
+            清理过期条目 ({expired.length})
+          </Button>
+        </CardContent>
+      </Card>
+
+      {progress && <p className="text-sm text-gray-500">{progress}</p>}
+    </div>
+  );
+};
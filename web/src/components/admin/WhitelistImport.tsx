@@ -0,0 +1,270 @@
+import React, { useMemo, useState } from 'react';
+import { useWhitelistManagement } from '@/hooks/useWhitelistManagement';
+import { Button } from '@/components/ui/Button';
+import { WhitelistLevel } from '@/types/contracts';
+import { formatAddress, formatTimestamp } from '@/utils/formatters';
+import {
+  WHITELIST_IMPORT_COLUMNS,
+  WhitelistChunk,
+  WhitelistImportRow,
+  parseWhitelistImport
+} from '@/utils/whitelistImport';
+
+interface WhitelistImportProps {
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+  onImported?: () => void;
+}
+
+type ChunkStatus = 'pending' | 'submitting' | 'success' | 'failed';
+
+interface ChunkState extends WhitelistChunk {
+  status: ChunkStatus;
+  txHash?: string;
+  error?: string;
+}
+
+const CHUNK_STATUS_LABELS: Record<ChunkStatus, string> = {
+  pending: '待提交',
+  submitting: '提交中',
+  success: '已上链',
+  failed: '失败',
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export const WhitelistImport: React.FC<WhitelistImportProps> = ({ onSuccess, onError, onImported }) => {
+  const { prepareWhitelistImport, submitWhitelistChunk } = useWhitelistManagement();
+
+  const [text, setText] = useState('');
+  const [chunks, setChunks] = useState<ChunkState[] | null>(null);
+  const [skippedLines, setSkippedLines] = useState<Set<number>>(new Set());
+  const [blacklistedRows, setBlacklistedRows] = useState<WhitelistImportRow[]>([]);
+  const [includeBlacklisted, setIncludeBlacklisted] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const { rows, parseError } = useMemo((): { rows: WhitelistImportRow[]; parseError: string | null } => {
+    try {
+      return { rows: parseWhitelistImport(text), parseError: null };
+    } catch (error) {
+      return { rows: [], parseError: error instanceof Error ? error.message : String(error) };
+    }
+  }, [text]);
+
+  const validRows = rows.filter(row => row.errors.length === 0 && row.duplicateOf === undefined);
+  const failedChunks = chunks?.filter(chunk => chunk.status === 'failed') ?? [];
+  const pendingChunks = chunks?.filter(chunk => chunk.status === 'pending') ?? [];
+  const blacklistedLines = new Set(blacklistedRows.map(row => row.line));
+
+  const reset = (value: string) => {
+    setText(value);
+    setChunks(null);
+    setSkippedLines(new Set());
+    setBlacklistedRows([]);
+    setIncludeBlacklisted(false);
+  };
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    reset(await file.text());
+  };
+
+  const handlePrepare = async (withBlacklisted = false) => {
+    setBusy(true);
+    try {
+      const { skipped, blacklisted, chunks: planned } = await prepareWhitelistImport(validRows, withBlacklisted);
+      setSkippedLines(new Set(skipped.map(row => row.line)));
+      setBlacklistedRows(blacklisted);
+      setIncludeBlacklisted(withBlacklisted && blacklisted.length > 0);
+      setChunks(planned.map(chunk => ({ ...chunk, status: 'pending' })));
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // 导入会覆盖黑名单级别，必须单独确认后才把这些地址放进批次
+  const handleIncludeBlacklisted = () => {
+    if (!window.confirm(`以下 ${blacklistedRows.length} 个地址当前在黑名单中，导入后将解除黑名单：\n${blacklistedRows.map(row => row.address).join('\n')}\n\n确认一起导入吗？`)) return;
+    handlePrepare(true);
+  };
+
+  // 依次提交指定批次；失败的批次保留状态，可以稍后单独重试
+  const runChunks = async (targets: ChunkState[]) => {
+    if (!window.confirm(`确认提交 ${targets.length} 批白名单交易吗？每批需要在钱包中确认一次。`)) return;
+
+    setBusy(true);
+    let failed = 0;
+    for (const [index, chunk] of targets.entries()) {
+      setProgress(`正在提交第 ${index + 1} / ${targets.length} 批`);
+      setChunks(prev => prev && prev.map(item => item.id === chunk.id ? { ...item, status: 'submitting', error: undefined } : item));
+      try {
+        const result = await submitWhitelistChunk(chunk, includeBlacklisted ? blacklistedRows.map(row => row.address) : []);
+        setChunks(prev => prev && prev.map(item => item.id === chunk.id ? { ...item, status: 'success', txHash: result.txHash } : item));
+      } catch (error) {
+        failed++;
+        const message = error instanceof Error ? error.message : String(error);
+        setChunks(prev => prev && prev.map(item => item.id === chunk.id ? { ...item, status: 'failed', error: message } : item));
+      }
+    }
+    setProgress(null);
+    setBusy(false);
+    onImported?.();
+
+    if (failed > 0) {
+      onError(`${failed} 批导入失败，可点击"重试失败批次"继续`);
+    } else {
+      onSuccess(`白名单导入完成，共提交 ${targets.length} 批`);
+    }
+  };
+
+  const rowStatus = (row: WhitelistImportRow) => {
+    if (row.errors.length > 0) return { text: row.errors.join('；'), className: 'text-red-600' };
+    if (row.duplicateOf !== undefined) return { text: `与第 ${row.duplicateOf} 行重复，已忽略`, className: 'text-gray-500' };
+    if (skippedLines.has(row.line)) return { text: '已是目标级别，跳过', className: 'text-gray-500' };
+    const chunk = chunks?.find(item => item.rows.some(chunkRow => chunkRow.line === row.line));
+    if (blacklistedLines.has(row.line) && !chunk) return { text: '当前在黑名单中，未提交', className: 'text-orange-600' };
+    if (chunk) {
+      return {
+        text: `第 ${chunk.id + 1} 批 · ${CHUNK_STATUS_LABELS[chunk.status]}${blacklistedLines.has(row.line) ? ' · 将解除黑名单' : ''}`,
+        className: chunk.status === 'failed' ? 'text-red-600' : chunk.status === 'success' ? 'text-green-600' : 'text-gray-500',
+      };
+    }
+    return { text: '有效', className: 'text-green-600' };
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          CSV 或 JSON 数组，列：{WHITELIST_IMPORT_COLUMNS.join(',')}
+        </label>
+        <textarea
+          rows={6}
+          value={text}
+          onChange={(e) => reset(e.target.value)}
+          disabled={busy}
+          placeholder={'0x1234567890123456789012345678901234567890,VIP\n0x0987654321098765432109876543210987654321,WHITELISTED,2025-12-31T00:00\n0x1111111111111111111111111111111111111111'}
+          className={`${inputClassName} font-mono text-sm`}
+        />
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          disabled={busy}
+          className="mt-2 text-sm"
+        />
+        <p className="text-xs text-gray-500 mt-1">级别省略时为 WHITELISTED；过期时间支持 Unix 时间戳或日期字符串，省略表示永不过期</p>
+      </div>
+
+      {parseError && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-800 text-sm">{parseError}</p>
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="max-h-72 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-3 py-2 text-left">行</th>
+                <th className="px-3 py-2 text-left">地址</th>
+                <th className="px-3 py-2 text-left">级别</th>
+                <th className="px-3 py-2 text-left">过期时间</th>
+                <th className="px-3 py-2 text-left">状态</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                const status = rowStatus(row);
+                return (
+                  <tr key={row.line} className="border-t border-gray-100 dark:border-gray-700">
+                    <td className="px-3 py-2">{row.line}</td>
+                    <td className="px-3 py-2 font-mono">{formatAddress(row.address) || '-'}</td>
+                    <td className="px-3 py-2">{row.level === WhitelistLevel.VIP ? 'VIP' : 'WHITELISTED'}</td>
+                    <td className="px-3 py-2">{row.expirationTime > 0 ? formatTimestamp(row.expirationTime) : '永不过期'}</td>
+                    <td className={`px-3 py-2 ${status.className}`}>{status.text}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {chunks && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            共 {chunks.length} 批，跳过 {skippedLines.size} 个已是目标级别的地址
+          </p>
+          {blacklistedRows.length > 0 && (
+            <div className="p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-800">
+              {includeBlacklisted ? (
+                <p>已确认：{blacklistedRows.length} 个黑名单地址将随批次导入并解除黑名单，同时写入黑名单审计记录</p>
+              ) : (
+                <div className="flex items-center justify-between space-x-3">
+                  <p>{blacklistedRows.length} 个地址当前在黑名单中，导入会解除黑名单，默认不提交</p>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={handleIncludeBlacklisted}
+                    disabled={busy || chunks.some(chunk => chunk.status !== 'pending')}
+                  >
+                    确认解除并导入
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+          {chunks.map(chunk => (
+            <div key={chunk.id} className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-700 rounded text-sm">
+              <span>
+                第 {chunk.id + 1} 批 · {chunk.rows.length} 个地址 · {chunk.expirationTime > 0 ? `${formatTimestamp(chunk.expirationTime)} 过期` : '永不过期'}
+              </span>
+              <span className={chunk.status === 'failed' ? 'text-red-600' : chunk.status === 'success' ? 'text-green-600' : 'text-gray-500'}>
+                {chunk.status === 'success' && chunk.txHash ? `${CHUNK_STATUS_LABELS.success} ${formatAddress(chunk.txHash)}` : CHUNK_STATUS_LABELS[chunk.status]}
+                {chunk.error && `：${chunk.error}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {progress && <p className="text-sm text-gray-500">{progress}</p>}
+
+      {!chunks ? (
+        <Button
+          variant="primary"
+          className="w-full"
+          onClick={() => handlePrepare()}
+          loading={busy}
+          disabled={busy || validRows.length === 0}
+        >
+          检查链上状态并分批（{validRows.length} 个地址）
+        </Button>
+      ) : (
+        <div className="flex space-x-3">
+          <Button
+            variant="primary"
+            className="flex-1"
+            onClick={() => runChunks(pendingChunks)}
+            loading={busy}
+            disabled={busy || pendingChunks.length === 0}
+          >
+            提交 {pendingChunks.length} 批
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={() => runChunks(failedChunks)}
+            disabled={busy || failedChunks.length === 0}
+          >
+            重试失败批次
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
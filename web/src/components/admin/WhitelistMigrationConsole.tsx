@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { useWhitelistMigration } from '@/hooks/useWhitelistMigration';
+import { Card, CardHeader, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { WhitelistLevel } from '@/types/contracts';
+import { formatAddress } from '@/utils/formatters';
+import {
+  MIGRATION_STATUS_LABELS,
+  WhitelistMigrationRequest,
+  verifyMigrationRequest
+} from '@/utils/whitelistMigration';
+import { ArrowPathIcon, ArrowsRightLeftIcon } from '@heroicons/react/24/outline';
+
+interface WhitelistMigrationConsoleProps {
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const LEVEL_LABELS: Record<WhitelistLevel, string> = {
+  [WhitelistLevel.BLACKLISTED]: 'BLACKLISTED',
+  [WhitelistLevel.NONE]: 'NONE',
+  [WhitelistLevel.WHITELISTED]: 'WHITELISTED',
+  [WhitelistLevel.VIP]: 'VIP',
+};
+
+export const WhitelistMigrationConsole: React.FC<WhitelistMigrationConsoleProps> = ({ onSuccess, onError }) => {
+  const {
+    requests,
+    history,
+    target,
+    loading,
+    error,
+    refresh,
+    importRequest,
+    executeRequest,
+    rejectRequest
+  } = useWhitelistMigration();
+  const [importText, setImportText] = useState('');
+  const [executingId, setExecutingId] = useState<string | null>(null);
+
+  const pending = requests.filter(request => request.status === 'pending');
+  const reviewed = requests.filter(request => request.status !== 'pending');
+
+  const handleImport = () => {
+    try {
+      const request = importRequest(importText);
+      setImportText('');
+      onSuccess(`已导入 ${formatAddress(request.from)} 的迁移申请`);
+    } catch (error) {
+      const duplicate = error instanceof Error && error.message.includes('already been imported');
+      onError(duplicate ? '该申请已导入过，不能重复导入' : '申请内容无效，请粘贴投资者导出的完整 JSON');
+    }
+  };
+
+  const handleExecute = async (request: WhitelistMigrationRequest) => {
+    if (!window.confirm(`确定将 ${request.from} 的白名单状态转移到 ${request.to} 吗？如果新钱包已有白名单记录将被覆盖。`)) return;
+
+    setExecutingId(request.id);
+    try {
+      await executeRequest(request);
+      onSuccess(`已将白名单从 ${formatAddress(request.from)} 迁移到 ${formatAddress(request.to)}`);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setExecutingId(null);
+    }
+  };
+
+  const handleReject = (request: WhitelistMigrationRequest) => {
+    const note = window.prompt('请输入拒绝原因：');
+    if (note === null) return;
+    rejectRequest(request.id, note.trim());
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+              <ArrowsRightLeftIcon className="h-5 w-5 mr-2" />
+              待审核迁移申请 ({pending.length})
+            </h3>
+            <Button variant="ghost" size="sm" onClick={refresh} disabled={loading}>
+              <ArrowPathIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+
+          {pending.length === 0 ? (
+            <p className="text-sm text-gray-500">暂无待审核的申请</p>
+          ) : (
+            <div className="space-y-3">
+              {pending.map(request => {
+                const problems = target ? verifyMigrationRequest(request, target) : ['正在读取当前网络信息'];
+                return (
+                  <div key={request.id} className="p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+                    <div className="flex items-center justify-between">
+                      <div className="text-sm">
+                        <p className="font-mono text-gray-900 dark:text-white">
+                          {formatAddress(request.from)} → {formatAddress(request.to)}
+                        </p>
+                        <p className="text-xs text-gray-500">签名时间：{new Date(request.issuedAt).toLocaleString()}</p>
+                      </div>
+                      <div className="flex space-x-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleReject(request)} disabled={executingId !== null}>
+                          拒绝
+                        </Button>
+                        <Button
+                          variant="primary"
+                          size="sm"
+                          onClick={() => handleExecute(request)}
+                          loading={executingId === request.id}
+                          disabled={executingId !== null || problems.length > 0}
+                        >
+                          验证并迁移
+                        </Button>
+                      </div>
+                    </div>
+                    {problems.length === 0 ? (
+                      <p className="text-xs text-green-600 mt-2">签名有效，由旧钱包签署</p>
+                    ) : (
+                      <ul className="text-xs text-red-600 mt-2 list-disc list-inside">
+                        {problems.map(problem => <li key={problem}>{problem}</li>)}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">导入申请</label>
+            <textarea
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+              rows={4}
+              placeholder="粘贴投资者复制的申请 JSON"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg font-mono text-xs bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+            <Button variant="outline" size="sm" className="mt-2" onClick={handleImport} disabled={!importText.trim()}>
+              导入
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {reviewed.length > 0 && (
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">已处理申请</h3>
+          </CardHeader>
+          <CardContent>
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 pr-4">旧钱包</th>
+                  <th className="py-2 pr-4">新钱包</th>
+                  <th className="py-2 pr-4">状态</th>
+                  <th className="py-2 pr-4">处理时间</th>
+                  <th className="py-2">备注</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reviewed.map(request => (
+                  <tr key={request.id} className="border-t border-gray-100 dark:border-gray-700">
+                    <td className="py-2 pr-4 font-mono">{formatAddress(request.from)}</td>
+                    <td className="py-2 pr-4 font-mono">{formatAddress(request.to)}</td>
+                    <td className={`py-2 pr-4 ${request.status === 'executed' ? 'text-green-600' : 'text-red-600'}`}>
+                      {MIGRATION_STATUS_LABELS[request.status]}
+                    </td>
+                    <td className="py-2 pr-4">{request.reviewedAt ? new Date(request.reviewedAt).toLocaleString() : '-'}</td>
+                    <td className="py-2">{request.txHash ? <span className="font-mono">{formatAddress(request.txHash)}</span> : request.note || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">链上迁移记录</h3>
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <p className="text-sm text-gray-500">暂无 WhitelistTransferred 事件</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 pr-4">区块</th>
+                  <th className="py-2 pr-4">旧钱包</th>
+                  <th className="py-2 pr-4">新钱包</th>
+                  <th className="py-2 pr-4">级别</th>
+                  <th className="py-2 pr-4">操作人</th>
+                  <th className="py-2">交易</th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.map(record => (
+                  <tr key={`${record.txHash}-${record.from}`} className="border-t border-gray-100 dark:border-gray-700">
+                    <td className="py-2 pr-4">{record.blockNumber}</td>
+                    <td className="py-2 pr-4 font-mono">{formatAddress(record.from)}</td>
+                    <td className="py-2 pr-4 font-mono">{formatAddress(record.to)}</td>
+                    <td className="py-2 pr-4">{LEVEL_LABELS[record.level]}</td>
+                    <td className="py-2 pr-4 font-mono">{formatAddress(record.transferredBy)}</td>
+                    <td className="py-2 font-mono">{formatAddress(record.txHash)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+
+interface TierLadderData {
+  label: string; // 档位进度上限，如 "25%"
+  price: number; // ETH
+  isCurrent: boolean;
+  isPassed: boolean;
+}
+
+interface TierLadderChartProps {
+  data: TierLadderData[];
+  height?: number;
+  className?: string;
+}
+
+export const TierLadderChart: React.FC<TierLadderChartProps> = ({
+  data,
+  height = 200,
+  className = ''
+}) => {
+  const getBarColor = (entry: TierLadderData) => {
+    if (entry.isCurrent) return '#3B82F6';
+    if (entry.isPassed) return '#9CA3AF';
+    return '#BFDBFE';
+  };
+
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const entry = payload[0].payload as TierLadderData;
+      return (
+        <div className="bg-white dark:bg-gray-800 p-3 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700">
+          <p className="font-medium text-gray-900 dark:text-white">进度 ≤ {entry.label}</p>
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            {entry.price.toFixed(6)} ETH
+          </p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className={`w-full ${className}`}>
+      <ResponsiveContainer width="100%" height={height}>
+        <BarChart data={data} margin={{ top: 8, right: 8, left: 8, bottom: 0 }}>
+          <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+          <YAxis tick={{ fontSize: 12 }} width={70} tickFormatter={(value) => Number(value).toFixed(4)} />
+          <Tooltip content={<CustomTooltip />} />
+          <Bar dataKey="price" radius={[4, 4, 0, 0]}>
+            {data.map((entry, index) => (
+              <Cell key={`tier-${index}`} fill={getBarColor(entry)} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
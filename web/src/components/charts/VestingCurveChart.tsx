@@ -0,0 +1,82 @@
+import React from 'react';
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+
+interface VestingCurveData {
+  timestamp: number; // Unix timestamp
+  vested: number; // 累计解锁代币数量
+}
+
+interface VestingCurveChartProps {
+  data: VestingCurveData[];
+  stepped?: boolean; // 阶梯与里程碑释放按阶梯线绘制
+  currentTime?: number;
+  tokenSymbol?: string;
+  height?: number;
+  className?: string;
+}
+
+const formatTick = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+export const VestingCurveChart: React.FC<VestingCurveChartProps> = ({
+  data,
+  stepped = false,
+  currentTime,
+  tokenSymbol = '',
+  height = 160,
+  className = ''
+}) => {
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const entry = payload[0].payload as VestingCurveData;
+      return (
+        <div className="bg-white dark:bg-gray-800 p-3 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700">
+          <p className="font-medium text-gray-900 dark:text-white">
+            {new Date(entry.timestamp * 1000).toLocaleDateString()}
+          </p>
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            累计解锁 {entry.vested.toLocaleString(undefined, { maximumFractionDigits: 4 })} {tokenSymbol}
+          </p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className={`w-full ${className}`}>
+      <ResponsiveContainer width="100%" height={height}>
+        <AreaChart data={data} margin={{ top: 8, right: 8, left: 8, bottom: 0 }}>
+          <XAxis
+            dataKey="timestamp"
+            type="number"
+            scale="time"
+            domain={['dataMin', 'dataMax']}
+            tick={{ fontSize: 12 }}
+            tickFormatter={formatTick}
+          />
+          <YAxis tick={{ fontSize: 12 }} width={70} tickFormatter={(value) => Number(value).toLocaleString()} />
+          <Tooltip content={<CustomTooltip />} />
+          {currentTime !== undefined && (
+            <ReferenceLine x={currentTime} stroke="#F59E0B" strokeDasharray="4 4" label={{ value: '现在', fontSize: 12 }} />
+          )}
+          <Area
+            type={stepped ? 'stepAfter' : 'linear'}
+            dataKey="vested"
+            stroke="#3B82F6"
+            fill="#BFDBFE"
+            isAnimationActive={false}
+          />
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
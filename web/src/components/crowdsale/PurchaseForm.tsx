@@ -9,7 +9,8 @@ import {
   CurrencyDollarIcon, 
   ExclamationTriangleIcon,
   CheckCircleIcon,
-  ArrowPathIcon 
+  ArrowPathIcon,
+  NoSymbolIcon
 } from '@heroicons/react/24/outline';
 
 interface PurchaseFormProps {
@@ -38,6 +39,7 @@ export const PurchaseForm: React.FC<PurchaseFormProps> = ({
   const [tokenPrice, setTokenPrice] = useState('0');
   const [userWhitelistStatus, setUserWhitelistStatus] = useState<{
     isWhitelisted: boolean;
+    isBlacklisted: boolean;
     tier: 'VIP' | 'WHITELISTED' | 'NONE';
     discount: number;
   } | null>(null);
@@ -210,6 +212,23 @@ export const PurchaseForm: React.FC<PurchaseFormProps> = ({
     );
   }
 
+  // 黑名单地址会被合约拒绝，直接展示禁止状态而不是让交易回滚
+  if (userWhitelistStatus?.isBlacklisted) {
+    return (
+      <Card className={className}>
+        <CardContent className="p-6 text-center">
+          <NoSymbolIcon className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+            当前钱包已被禁止参与
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            该地址已被项目方列入黑名单，无法购买代币。如有疑问请联系项目方。
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <Card className={className}>
       <CardHeader>
@@ -0,0 +1,100 @@
+import React from 'react';
+import { Card, CardHeader, CardContent } from '@/components/ui/Card';
+import { TierLadderChart } from '@/components/charts/TierLadderChart';
+import { ProgressBar } from '@/components/charts/ProgressBar';
+import { useTieredPricing } from '@/hooks/useTieredPricing';
+import { formatEther } from '@/utils/formatters';
+import { ChartBarIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+
+interface TierTrackerProps {
+  crowdsaleAddress: string;
+  className?: string;
+}
+
+export const TierTracker: React.FC<TierTrackerProps> = ({
+  crowdsaleAddress,
+  className = ''
+}) => {
+  const { pricing, loading } = useTieredPricing(crowdsaleAddress);
+
+  // 非阶梯定价的众筹不展示
+  if (!pricing || pricing.tiers.length === 0) {
+    return null;
+  }
+
+  const chartData = pricing.tiers.map((tier, index) => ({
+    label: `${(Number(tier.progressThreshold) / 100).toFixed(0)}%`,
+    price: parseFloat(formatEther(tier.pricePerToken)),
+    isCurrent: index === pricing.currentTierIndex,
+    isPassed: index < pricing.currentTierIndex,
+  }));
+
+  const currentTier = pricing.tiers[pricing.currentTierIndex];
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <ChartBarIcon className="h-5 w-5 mr-2" />
+            阶梯价格
+          </h3>
+          {loading && (
+            <ArrowPathIcon className="h-4 w-4 text-gray-400 animate-spin" />
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="flex justify-between items-center">
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            当前档位 {pricing.currentTierIndex + 1} / {pricing.tiers.length}
+          </span>
+          <span className="font-bold text-blue-600">
+            {formatEther(pricing.currentPrice)} ETH
+          </span>
+        </div>
+
+        <ProgressBar
+          current={pricing.currentProgress / 100}
+          total={100}
+          label="众筹进度"
+        />
+
+        <TierLadderChart data={chartData} />
+
+        <div className="space-y-2">
+          {pricing.tiers.map((tier, index) => (
+            <div
+              key={index}
+              className={`flex justify-between items-center text-sm px-3 py-2 rounded-lg ${
+                index === pricing.currentTierIndex
+                  ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 font-medium'
+                  : index < pricing.currentTierIndex
+                    ? 'text-gray-400 line-through'
+                    : 'text-gray-600 dark:text-gray-400'
+              }`}
+            >
+              <span>档位 {index + 1} · 进度 ≤ {(Number(tier.progressThreshold) / 100).toFixed(2)}%</span>
+              <span>{formatEther(tier.pricePerToken)} ETH</span>
+            </div>
+          ))}
+        </div>
+
+        {pricing.remainingUntilNextTier !== null && pricing.nextPrice !== null && currentTier ? (
+          <div className="bg-yellow-50 dark:bg-yellow-900/20 rounded-lg p-3">
+            <p className="text-sm text-yellow-800 dark:text-yellow-300 text-center">
+              ⏫ 再募集 {formatEther(pricing.remainingUntilNextTier)} ETH 后价格将上涨至 {formatEther(pricing.nextPrice)} ETH
+            </p>
+          </div>
+        ) : (
+          <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3">
+            <p className="text-sm text-gray-600 dark:text-gray-400 text-center">
+              已处于最高档位
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,12 +1,16 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent } from '@/components/ui/Card';
 import { 
   CheckCircleIcon, 
+  ClockIcon,
   XCircleIcon, 
   StarIcon,
-  UserGroupIcon 
+  UserGroupIcon,
+  NoSymbolIcon
 } from '@heroicons/react/24/outline';
 import { useWhitelistStatus } from '../../hooks/useWhitelistStatus';
+import { formatTimestamp } from '@/utils/formatters';
+import { EXPIRY_WARNING_THRESHOLD, formatExpiryCountdown } from '@/utils/whitelistExpiry';
 
 interface WhitelistStatusProps {
   className?: string;
@@ -15,7 +19,19 @@ interface WhitelistStatusProps {
 export const WhitelistStatus: React.FC<WhitelistStatusProps> = ({
   className = ''
 }) => {
-  const { status, loading, error } = useWhitelistStatus();
+  const { status, loading, error, refetch } = useWhitelistStatus();
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  // 有过期时间时每分钟刷新倒计时，到期后重新读取链上状态
+  useEffect(() => {
+    if (!status.isWhitelisted || status.expirationTime === 0) return;
+    const timer = setInterval(() => {
+      const current = Math.floor(Date.now() / 1000);
+      setNow(current);
+      if (current >= status.expirationTime) refetch();
+    }, 60000);
+    return () => clearInterval(timer);
+  }, [status.isWhitelisted, status.expirationTime, refetch]);
   
   if (loading) {
     return (
@@ -57,7 +73,8 @@ export const WhitelistStatus: React.FC<WhitelistStatusProps> = ({
     );
   }
 
-  const { isWhitelisted, tier, discount, maxAllocation, currentAllocation } = status;
+  const { isWhitelisted, tier, discount, maxAllocation, currentAllocation, expirationTime, isExpired, isBlacklisted } = status;
+  const expiringSoon = expirationTime > 0 && expirationTime - now < EXPIRY_WARNING_THRESHOLD;
   const getTierInfo = () => {
     switch (tier) {
       case 'VIP':
@@ -90,6 +107,26 @@ export const WhitelistStatus: React.FC<WhitelistStatusProps> = ({
   const tierInfo = getTierInfo();
   const Icon = tierInfo.icon;
 
+  if (isBlacklisted) {
+    return (
+      <Card className={`bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 border ${className}`}>
+        <CardContent className="p-4">
+          <div className="flex items-center">
+            <NoSymbolIcon className="h-6 w-6 text-red-500 mr-3" />
+            <div>
+              <p className="font-medium text-red-700 dark:text-red-300">
+                已列入黑名单
+              </p>
+              <p className="text-sm text-red-600 dark:text-red-400">
+                当前钱包无法参与本次众筹
+              </p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
   if (!isWhitelisted) {
     return (
       <Card className={`${tierInfo.bgColor} ${tierInfo.borderColor} border ${className}`}>
@@ -103,6 +140,11 @@ export const WhitelistStatus: React.FC<WhitelistStatusProps> = ({
               <p className="text-sm text-gray-500 dark:text-gray-400">
                 按标准价格购买代币
               </p>
+              {isExpired && (
+                <p className="text-xs text-orange-600 mt-1">
+                  白名单资格已于 {formatTimestamp(expirationTime)} 过期，请联系项目方续期
+                </p>
+              )}
             </div>
           </div>
         </CardContent>
@@ -135,6 +177,16 @@ export const WhitelistStatus: React.FC<WhitelistStatusProps> = ({
           </div>
         </div>
 
+        {/* 有效期倒计时 */}
+        {expirationTime > 0 && (
+          <div className={`mt-3 flex items-center text-sm ${expiringSoon ? 'text-orange-600' : 'text-gray-600 dark:text-gray-400'}`}>
+            <ClockIcon className="h-4 w-4 mr-1" />
+            <span>
+              资格剩余 {formatExpiryCountdown(expirationTime, now)}（{formatTimestamp(expirationTime)} 到期）
+            </span>
+          </div>
+        )}
+
         {/* 配额信息 */}
         {maxAllocation && (
           <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-600">
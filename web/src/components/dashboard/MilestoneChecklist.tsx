@@ -0,0 +1,73 @@
+import React from 'react';
+import { VestingMilestone } from '@/types/contracts';
+import { formatDate } from '@/utils/formatters';
+import { CheckCircleIcon } from '@heroicons/react/24/outline';
+
+interface MilestoneChecklistProps {
+  milestones: VestingMilestone[];
+  totalAmount?: string; // token amount
+  tokenSymbol?: string;
+  className?: string;
+}
+
+export const MilestoneChecklist: React.FC<MilestoneChecklistProps> = ({
+  milestones,
+  totalAmount,
+  tokenSymbol = '',
+  className = ''
+}) => {
+  if (milestones.length === 0) {
+    return (
+      <p className={`text-sm text-gray-500 ${className}`}>尚未设置里程碑</p>
+    );
+  }
+
+  const achievedPercentage = milestones
+    .filter(milestone => milestone.achieved)
+    .reduce((sum, milestone) => sum + milestone.percentage, 0);
+
+  let cumulative = 0;
+
+  return (
+    <div className={className}>
+      <div className="flex justify-between text-sm mb-2">
+        <span className="text-gray-600">里程碑</span>
+        <span className="font-medium">已解锁 {(achievedPercentage / 100).toFixed(2)}%</span>
+      </div>
+      <ul className="space-y-2">
+        {milestones.map((milestone) => {
+          cumulative += milestone.percentage;
+          const unlockAmount = totalAmount
+            ? (parseFloat(totalAmount) * milestone.percentage / 10000).toLocaleString(undefined, { maximumFractionDigits: 4 })
+            : null;
+
+          return (
+            <li
+              key={milestone.index}
+              className={`flex items-start gap-2 p-2 rounded-lg border ${
+                milestone.achieved ? 'border-green-200 bg-green-50' : 'border-gray-200'
+              }`}
+            >
+              {milestone.achieved ? (
+                <CheckCircleIcon className="h-5 w-5 text-green-500 flex-shrink-0" />
+              ) : (
+                <span className="h-5 w-5 rounded-full border-2 border-gray-300 flex-shrink-0" />
+              )}
+              <div className="flex-1">
+                <p className={`text-sm font-medium ${milestone.achieved ? 'text-green-800' : 'text-gray-900'}`}>
+                  {milestone.description}
+                </p>
+                <p className="text-xs text-gray-500">
+                  解锁 {(milestone.percentage / 100).toFixed(2)}%
+                  {unlockAmount && ` (${unlockAmount} ${tokenSymbol})`}
+                  {' · '}累计 {(cumulative / 100).toFixed(2)}%
+                  {milestone.achieved && milestone.achievedTime > 0 && ` · 达成于 ${formatDate(milestone.achievedTime * 1000)}`}
+                </p>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React from 'react';
+import { Card, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { RefundVaultInfo } from '@/hooks/useRefundVault';
+import { VaultState } from '@/types/contracts';
+import { formatAddress, formatDate, formatEther } from '@/utils/formatters';
+import {
+  BanknotesIcon,
+  CheckCircleIcon,
+  ShieldCheckIcon
+} from '@heroicons/react/24/outline';
+
+interface RefundVaultCardProps {
+  vault: RefundVaultInfo;
+  crowdsaleName?: string;
+  onRefund: (vaultAddress: string) => void;
+  refunding: boolean;
+}
+
+export const RefundVaultCard: React.FC<RefundVaultCardProps> = ({
+  vault,
+  crowdsaleName,
+  onRefund,
+  refunding
+}) => {
+  const getStateColor = (state: VaultState) => {
+    switch (state) {
+      case VaultState.ACTIVE:
+        return 'bg-blue-100 text-blue-800';
+      case VaultState.REFUNDING:
+        return 'bg-orange-100 text-orange-800';
+      case VaultState.CLOSED:
+        return 'bg-gray-100 text-gray-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const getStateText = (state: VaultState) => {
+    switch (state) {
+      case VaultState.ACTIVE:
+        return '资金托管中';
+      case VaultState.REFUNDING:
+        return '退款进行中';
+      case VaultState.CLOSED:
+        return '已关闭';
+      default:
+        return '未知';
+    }
+  };
+
+  return (
+    <Card className={`p-4 border-l-4 ${
+      vault.canRefund ? 'border-l-orange-500' :
+      vault.refunded ? 'border-l-green-500' : 'border-l-blue-500'
+    }`}>
+      <CardContent className="p-0">
+        <div className="flex justify-between items-start mb-3">
+          <div className="flex-1">
+            <h4 className="font-semibold text-gray-900 mb-1">
+              {crowdsaleName || formatAddress(vault.crowdsaleAddress)}
+            </h4>
+            <div className="flex items-center gap-2">
+              <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStateColor(vault.state)}`}>
+                {getStateText(vault.state)}
+              </span>
+              <span className="text-xs text-gray-500 font-mono">
+                {formatAddress(vault.vaultAddress)}
+              </span>
+            </div>
+          </div>
+          {vault.canRefund && (
+            <Button
+              size="sm"
+              variant="danger"
+              onClick={() => onRefund(vault.vaultAddress)}
+              loading={refunding}
+              className="ml-2"
+            >
+              {refunding ? '退款中...' : '申请退款'}
+            </Button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="flex items-center gap-2">
+            <BanknotesIcon className="h-4 w-4 text-gray-400" />
+            <div>
+              <p className="text-xs text-gray-500">托管金额</p>
+              <p className="font-medium">{formatEther(vault.depositedAmount)} ETH</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <ShieldCheckIcon className="h-4 w-4 text-gray-400" />
+            <div>
+              <p className="text-xs text-gray-500">存入时间</p>
+              <p className="font-medium text-sm">
+                {vault.depositTime > 0 ? formatDate(vault.depositTime * 1000) : '-'}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {vault.refunded && (
+          <div className="mt-3 bg-green-50 border border-green-200 rounded-lg p-3">
+            <div className="flex items-center gap-2">
+              <CheckCircleIcon className="h-4 w-4 text-green-500" />
+              <p className="text-green-800 text-sm">
+                已退款 {formatEther(vault.refundAmount)} ETH
+              </p>
+            </div>
+          </div>
+        )}
+
+        {vault.canRefund && (
+          <div className="mt-3 bg-orange-50 border border-orange-200 rounded-lg p-3">
+            <p className="text-orange-800 text-sm">
+              众筹未达到软顶，您可以申请全额退款
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
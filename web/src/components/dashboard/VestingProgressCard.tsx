@@ -2,6 +2,8 @@ import React from 'react';
 import { Card, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { VestingSchedule } from '@/hooks/useTokenVesting';
+import { MilestoneChecklist } from '@/components/dashboard/MilestoneChecklist';
+import { VestingCurveChart } from '@/components/charts/VestingCurveChart';
 import { formatDate, formatEther } from '@/utils/formatters';
 import { 
   ClockIcon,
@@ -24,6 +26,11 @@ export const VestingProgressCard: React.FC<VestingProgressCardProps> = ({
   const canRelease = parseFloat(schedule.releasableAmount) > 0;
   const isCompleted = schedule.releaseProgress >= 100;
   const isRevoked = schedule.isRevoked;
+  const now = Math.floor(Date.now() / 1000);
+  const curveData = schedule.unlockCurve.map(point => ({
+    timestamp: point.timestamp,
+    vested: parseFloat(point.vested),
+  }));
   
   const getVestingTypeColor = (type: string) => {
     switch (type) {
@@ -50,6 +57,8 @@ export const VestingProgressCard: React.FC<VestingProgressCardProps> = ({
         return '阶梯释放';
       case 'MILESTONE':
         return '里程碑释放';
+      case 'CUSTOM':
+        return '自定义释放';
       default:
         return type;
     }
@@ -73,14 +82,14 @@ export const VestingProgressCard: React.FC<VestingProgressCardProps> = ({
                 {getVestingTypeText(schedule.vestingType)}
               </span>
               <span className="text-xs text-gray-500">
-                {formatDate(schedule.startTime)} - {formatDate(schedule.endTime)}
+                {formatDate(schedule.startTime * 1000)} - {formatDate(schedule.endTime * 1000)}
               </span>
             </div>
           </div>
           {canRelease && !isRevoked && (
             <Button 
               size="sm" 
-              onClick={() => onRelease(schedule.scheduleId)}
+              onClick={() => onRelease(schedule.id)}
               disabled={releasing}
               className="ml-2"
             >
@@ -97,7 +106,7 @@ export const VestingProgressCard: React.FC<VestingProgressCardProps> = ({
           <>
             <div className="mb-4">
               <div className="flex justify-between text-sm mb-2">
-                <span className="text-gray-600">释放进度</span>
+                <span className="text-gray-600">解锁进度</span>
                 <span className="font-medium">{schedule.releaseProgress.toFixed(1)}%</span>
               </div>
               <div className="w-full bg-gray-200 rounded-full h-3">
@@ -110,6 +119,16 @@ export const VestingProgressCard: React.FC<VestingProgressCardProps> = ({
               </div>
             </div>
             
+            {curveData.length > 1 && (
+              <VestingCurveChart
+                data={curveData}
+                stepped={schedule.vestingType === 'STEPPED' || schedule.vestingType === 'MILESTONE'}
+                currentTime={now}
+                tokenSymbol={schedule.tokenSymbol}
+                className="mb-4"
+              />
+            )}
+
             <div className="grid grid-cols-2 gap-4 mb-4">
               <div className="space-y-2">
                 <div className="flex items-center gap-2">
@@ -119,6 +138,13 @@ export const VestingProgressCard: React.FC<VestingProgressCardProps> = ({
                     <p className="font-medium">{formatEther(schedule.totalAmount)}</p>
                   </div>
                 </div>
+                <div className="flex items-center gap-2">
+                  <CheckCircleIcon className="h-4 w-4 text-blue-400" />
+                  <div>
+                    <p className="text-xs text-gray-500">已解锁</p>
+                    <p className="font-medium">{formatEther(schedule.vestedAmount)}</p>
+                  </div>
+                </div>
                 <div className="flex items-center gap-2">
                   <CheckCircleIcon className="h-4 w-4 text-green-400" />
                   <div>
@@ -147,24 +173,45 @@ export const VestingProgressCard: React.FC<VestingProgressCardProps> = ({
                 </div>
               </div>
             </div>
+
+            {schedule.vestingType === 'MILESTONE' && (
+              <MilestoneChecklist
+                milestones={schedule.milestones}
+                totalAmount={schedule.totalAmount}
+                tokenSymbol={schedule.tokenSymbol}
+                className="mb-4"
+              />
+            )}
             
-            {schedule.nextReleaseDate > 0 && schedule.nextReleaseDate > Date.now() / 1000 && (
+            {schedule.nextReleaseDate > now && (
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
                 <div className="flex items-center gap-2">
                   <ClockIcon className="h-4 w-4 text-blue-500" />
                   <p className="text-blue-800 text-sm">
-                    下次释放时间: {formatDate(schedule.nextReleaseDate)}
+                    下次解锁时间: {formatDate(schedule.nextReleaseDate * 1000)}
+                    {schedule.upcomingUnlocks[0] && ` (${formatEther(schedule.upcomingUnlocks[0].amount)} ${schedule.tokenSymbol})`}
                   </p>
                 </div>
               </div>
             )}
+
+            {schedule.upcomingUnlocks.length > 1 && (
+              <ul className="mt-2 space-y-1 text-xs text-gray-600">
+                {schedule.upcomingUnlocks.slice(1).map((unlock) => (
+                  <li key={unlock.timestamp} className="flex justify-between">
+                    <span>{formatDate(unlock.timestamp * 1000)}</span>
+                    <span>+{formatEther(unlock.amount)} {schedule.tokenSymbol}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
             
-            {schedule.cliffEnd > Date.now() / 1000 && (
+            {schedule.cliffTime > now && (
               <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
                 <div className="flex items-center gap-2">
                   <ExclamationTriangleIcon className="h-4 w-4 text-yellow-500" />
                   <p className="text-yellow-800 text-sm">
-                    悬崖期结束: {formatDate(schedule.cliffEnd)}
+                    悬崖期结束: {formatDate(schedule.cliffTime * 1000)}
                   </p>
                 </div>
               </div>
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { useWalletMigrationRequest } from '@/hooks/useWalletMigrationRequest';
+import { Card, CardHeader, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { formatAddress } from '@/utils/formatters';
+import {
+  MIGRATION_STATUS_LABELS,
+  WhitelistMigrationRequest,
+  serializeMigrationRequest
+} from '@/utils/whitelistMigration';
+import { ArrowsRightLeftIcon, ClipboardDocumentIcon } from '@heroicons/react/24/outline';
+
+const statusColors: Record<WhitelistMigrationRequest['status'], string> = {
+  pending: 'text-orange-600',
+  executed: 'text-green-600',
+  rejected: 'text-red-600',
+};
+
+export const WalletMigrationCard: React.FC = () => {
+  const { myRequests, submitting, submitRequest } = useWalletMigrationRequest();
+  const [newWallet, setNewWallet] = useState('');
+
+  const copyRequest = (request: WhitelistMigrationRequest) => {
+    navigator.clipboard.writeText(serializeMigrationRequest(request));
+    toast.success('申请内容已复制，请发送给项目方');
+  };
+
+  const handleSubmit = async () => {
+    try {
+      const request = await submitRequest(newWallet);
+      setNewWallet('');
+      copyRequest(request);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+          <ArrowsRightLeftIcon className="h-5 w-5 mr-2" />
+          迁移白名单到新钱包
+        </h3>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          用当前钱包签名一条消息，指定新的钱包地址。签名不会发送交易，项目方审核通过后会将白名单级别和有效期转移到新钱包。
+        </p>
+        <input
+          type="text"
+          value={newWallet}
+          onChange={(e) => setNewWallet(e.target.value)}
+          placeholder="新钱包地址 0x..."
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        />
+        <Button
+          variant="secondary"
+          className="w-full"
+          onClick={handleSubmit}
+          loading={submitting}
+          disabled={submitting || !newWallet}
+        >
+          签名并提交申请
+        </Button>
+
+        {myRequests.length > 0 && (
+          <div className="space-y-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+            {myRequests.map(request => (
+              <div key={request.id} className="flex items-center justify-between text-sm">
+                <div>
+                  <p className="font-mono text-gray-900 dark:text-white">→ {formatAddress(request.to)}</p>
+                  <p className="text-xs text-gray-500">{new Date(request.issuedAt).toLocaleString()}</p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span className={statusColors[request.status]}>{MIGRATION_STATUS_LABELS[request.status]}</span>
+                  {request.status === 'pending' && (
+                    <Button variant="ghost" size="sm" onClick={() => copyRequest(request)}>
+                      <ClipboardDocumentIcon className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
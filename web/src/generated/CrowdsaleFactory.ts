@@ -0,0 +1,204 @@
+// 此文件由 scripts/generate-contract-bindings.mjs 根据 Foundry 编译产物生成，请勿手动修改
+
+import { Contract } from 'ethers';
+import type { AddressLike, BaseContract, BigNumberish, BytesLike, ContractRunner } from 'ethers';
+import type { TypedContractMethod } from './common';
+import type * as Structs from './structs';
+
+// contracts/CrowdsaleFactory.sol
+export const CrowdsaleFactoryAbi = [
+  {"inputs":[{"internalType":"uint256","name":"_creationFee","type":"uint256"},{"internalType":"bool","name":"_publicCreationAllowed","type":"bool"}],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[],"name":"AccessControlBadConfirmation","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"},{"internalType":"bytes32","name":"neededRole","type":"bytes32"}],"name":"AccessControlUnauthorizedAccount","type":"error"},
+  {"inputs":[],"name":"EnforcedPause","type":"error"},
+  {"inputs":[],"name":"ExpectedPause","type":"error"},
+  {"inputs":[],"name":"ReentrancyGuardReentrantCall","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"oldFee","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"newFee","type":"uint256"}],"name":"CreationFeeUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"creator","type":"address"},{"indexed":true,"internalType":"address","name":"crowdsaleAddress","type":"address"},{"indexed":true,"internalType":"address","name":"tokenAddress","type":"address"},{"indexed":false,"internalType":"address","name":"vestingAddress","type":"address"},{"indexed":false,"internalType":"string","name":"tokenName","type":"string"},{"indexed":false,"internalType":"string","name":"tokenSymbol","type":"string"}],"name":"CrowdsaleCreated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"crowdsaleAddress","type":"address"},{"indexed":false,"internalType":"bool","name":"isActive","type":"bool"}],"name":"CrowdsaleStatusUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"admin","type":"address"},{"indexed":false,"internalType":"uint256","name":"creationFee","type":"uint256"},{"indexed":false,"internalType":"bool","name":"publicCreation","type":"bool"}],"name":"FactoryConfigUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"recipient","type":"address"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"}],"name":"FeesWithdrawn","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Paused","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"bytes32","name":"previousAdminRole","type":"bytes32"},{"indexed":true,"internalType":"bytes32","name":"newAdminRole","type":"bytes32"}],"name":"RoleAdminChanged","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleGranted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleRevoked","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Unpaused","type":"event"},
+  {"inputs":[],"name":"DEFAULT_ADMIN_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"FACTORY_ADMIN_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"FACTORY_OPERATOR_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"activeCrowdsales","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"allCrowdsales","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"components":[{"internalType":"string","name":"tokenName","type":"string"},{"internalType":"string","name":"tokenSymbol","type":"string"},{"internalType":"uint256","name":"totalSupply","type":"uint256"},{"internalType":"uint256","name":"softCap","type":"uint256"},{"internalType":"uint256","name":"hardCap","type":"uint256"},{"internalType":"uint256","name":"startTime","type":"uint256"},{"internalType":"uint256","name":"endTime","type":"uint256"},{"internalType":"address","name":"fundingWallet","type":"address"},{"internalType":"uint256","name":"tokenPrice","type":"uint256"},{"components":[{"internalType":"bool","name":"enabled","type":"bool"},{"internalType":"uint256","name":"cliffDuration","type":"uint256"},{"internalType":"uint256","name":"vestingDuration","type":"uint256"},{"internalType":"enum ITokenVesting.VestingType","name":"vestingType","type":"uint8"},{"internalType":"uint256","name":"immediateReleasePercentage","type":"uint256"}],"internalType":"struct ICrowdsaleFactory.VestingParams","name":"vestingParams","type":"tuple"}],"internalType":"struct ICrowdsaleFactory.CrowdsaleParams[]","name":"paramsArray","type":"tuple[]"}],"name":"batchCreateCrowdsale","outputs":[{"internalType":"address[]","name":"crowdsaleAddresses","type":"address[]"}],"stateMutability":"payable","type":"function"},
+  {"inputs":[{"components":[{"internalType":"string","name":"tokenName","type":"string"},{"internalType":"string","name":"tokenSymbol","type":"string"},{"internalType":"uint256","name":"totalSupply","type":"uint256"},{"internalType":"uint256","name":"softCap","type":"uint256"},{"internalType":"uint256","name":"hardCap","type":"uint256"},{"internalType":"uint256","name":"startTime","type":"uint256"},{"internalType":"uint256","name":"endTime","type":"uint256"},{"internalType":"address","name":"fundingWallet","type":"address"},{"internalType":"uint256","name":"tokenPrice","type":"uint256"},{"components":[{"internalType":"bool","name":"enabled","type":"bool"},{"internalType":"uint256","name":"cliffDuration","type":"uint256"},{"internalType":"uint256","name":"vestingDuration","type":"uint256"},{"internalType":"enum ITokenVesting.VestingType","name":"vestingType","type":"uint8"},{"internalType":"uint256","name":"immediateReleasePercentage","type":"uint256"}],"internalType":"struct ICrowdsaleFactory.VestingParams","name":"vestingParams","type":"tuple"}],"internalType":"struct ICrowdsaleFactory.CrowdsaleParams","name":"params","type":"tuple"}],"name":"createCrowdsale","outputs":[{"internalType":"address","name":"crowdsaleAddress","type":"address"},{"internalType":"address","name":"tokenAddress","type":"address"},{"internalType":"address","name":"vestingAddress","type":"address"}],"stateMutability":"payable","type":"function"},
+  {"inputs":[],"name":"creationFee","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"},{"internalType":"uint256","name":"","type":"uint256"}],"name":"creatorCrowdsales","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"crowdsaleInstances","outputs":[{"internalType":"address","name":"crowdsaleAddress","type":"address"},{"internalType":"address","name":"tokenAddress","type":"address"},{"internalType":"address","name":"vestingAddress","type":"address"},{"internalType":"address","name":"creator","type":"address"},{"internalType":"uint256","name":"createdAt","type":"uint256"},{"internalType":"bool","name":"isActive","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"crowdsaleTemplate","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"crowdsaleAddress","type":"address"},{"internalType":"string","name":"reason","type":"string"}],"name":"emergencyStopCrowdsale","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"crowdsaleAddress","type":"address"}],"name":"emergencyStopCrowdsale","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"getActiveCrowdsales","outputs":[{"components":[{"internalType":"address","name":"crowdsaleAddress","type":"address"},{"internalType":"address","name":"tokenAddress","type":"address"},{"internalType":"address","name":"vestingAddress","type":"address"},{"internalType":"address","name":"creator","type":"address"},{"internalType":"uint256","name":"createdAt","type":"uint256"},{"internalType":"bool","name":"isActive","type":"bool"}],"internalType":"struct ICrowdsaleFactory.CrowdsaleInstance[]","name":"instances","type":"tuple[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getCreationFee","outputs":[{"internalType":"uint256","name":"fee","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"creator","type":"address"}],"name":"getCreatorCrowdsales","outputs":[{"components":[{"internalType":"address","name":"crowdsaleAddress","type":"address"},{"internalType":"address","name":"tokenAddress","type":"address"},{"internalType":"address","name":"vestingAddress","type":"address"},{"internalType":"address","name":"creator","type":"address"},{"internalType":"uint256","name":"createdAt","type":"uint256"},{"internalType":"bool","name":"isActive","type":"bool"}],"internalType":"struct ICrowdsaleFactory.CrowdsaleInstance[]","name":"instances","type":"tuple[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"crowdsaleAddress","type":"address"}],"name":"getCrowdsaleInstance","outputs":[{"components":[{"internalType":"address","name":"crowdsaleAddress","type":"address"},{"internalType":"address","name":"tokenAddress","type":"address"},{"internalType":"address","name":"vestingAddress","type":"address"},{"internalType":"address","name":"creator","type":"address"},{"internalType":"uint256","name":"createdAt","type":"uint256"},{"internalType":"bool","name":"isActive","type":"bool"}],"internalType":"struct ICrowdsaleFactory.CrowdsaleInstance","name":"instance","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getFactoryStats","outputs":[{"internalType":"uint256","name":"totalCrowdsales","type":"uint256"},{"internalType":"uint256","name":"activeCrowdsalesCount","type":"uint256"},{"internalType":"uint256","name":"totalFeesCollectedAmount","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"}],"name":"getRoleAdmin","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getTemplateAddresses","outputs":[{"internalType":"address","name":"crowdsale","type":"address"},{"internalType":"address","name":"token","type":"address"},{"internalType":"address","name":"vesting","type":"address"},{"internalType":"address","name":"whitelist","type":"address"},{"internalType":"address","name":"vault","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getTotalCrowdsales","outputs":[{"internalType":"uint256","name":"count","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"grantRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"hasRole","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"isPublicCreationAllowed","outputs":[{"internalType":"bool","name":"allowed","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"pause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"paused","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"publicCreationAllowed","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"callerConfirmation","type":"address"}],"name":"renounceRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"revokeRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"fee","type":"uint256"}],"name":"setCreationFee","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bool","name":"allowed","type":"bool"}],"name":"setPublicCreationAllowed","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes4","name":"interfaceId","type":"bytes4"}],"name":"supportsInterface","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"tokenTemplate","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"totalFeesCollected","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"unpause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"crowdsaleAddress","type":"address"},{"internalType":"bool","name":"isActive","type":"bool"}],"name":"updateCrowdsaleStatus","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"components":[{"internalType":"string","name":"tokenName","type":"string"},{"internalType":"string","name":"tokenSymbol","type":"string"},{"internalType":"uint256","name":"totalSupply","type":"uint256"},{"internalType":"uint256","name":"softCap","type":"uint256"},{"internalType":"uint256","name":"hardCap","type":"uint256"},{"internalType":"uint256","name":"startTime","type":"uint256"},{"internalType":"uint256","name":"endTime","type":"uint256"},{"internalType":"address","name":"fundingWallet","type":"address"},{"internalType":"uint256","name":"tokenPrice","type":"uint256"},{"components":[{"internalType":"bool","name":"enabled","type":"bool"},{"internalType":"uint256","name":"cliffDuration","type":"uint256"},{"internalType":"uint256","name":"vestingDuration","type":"uint256"},{"internalType":"enum ITokenVesting.VestingType","name":"vestingType","type":"uint8"},{"internalType":"uint256","name":"immediateReleasePercentage","type":"uint256"}],"internalType":"struct ICrowdsaleFactory.VestingParams","name":"vestingParams","type":"tuple"}],"internalType":"struct ICrowdsaleFactory.CrowdsaleParams","name":"params","type":"tuple"}],"name":"validateCrowdsaleParams","outputs":[{"internalType":"bool","name":"isValid","type":"bool"},{"internalType":"string","name":"errorMessage","type":"string"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"vaultTemplate","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"vestingTemplate","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"whitelistTemplate","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address payable","name":"to","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"withdrawFees","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"stateMutability":"payable","type":"receive"},
+] as const;
+
+export type CrowdsaleFactoryDEFAULT_ADMIN_ROLEResult = string;
+export type CrowdsaleFactoryFACTORY_ADMIN_ROLEResult = string;
+export type CrowdsaleFactoryFACTORY_OPERATOR_ROLEResult = string;
+export type CrowdsaleFactoryActiveCrowdsalesResult = string;
+export type CrowdsaleFactoryAllCrowdsalesResult = string;
+export type CrowdsaleFactoryCreationFeeResult = bigint;
+export type CrowdsaleFactoryCreatorCrowdsalesResult = string;
+export type CrowdsaleFactoryCrowdsaleInstancesResult = [crowdsaleAddress: string, tokenAddress: string, vestingAddress: string, creator: string, createdAt: bigint, isActive: boolean] & { crowdsaleAddress: string; tokenAddress: string; vestingAddress: string; creator: string; createdAt: bigint; isActive: boolean };
+export type CrowdsaleFactoryCrowdsaleTemplateResult = string;
+export type CrowdsaleFactoryGetActiveCrowdsalesResult = Structs.CrowdsaleInstanceStructOutput[];
+export type CrowdsaleFactoryGetCreationFeeResult = bigint;
+export type CrowdsaleFactoryGetCreatorCrowdsalesResult = Structs.CrowdsaleInstanceStructOutput[];
+export type CrowdsaleFactoryGetCrowdsaleInstanceResult = Structs.CrowdsaleInstanceStructOutput;
+export type CrowdsaleFactoryGetFactoryStatsResult = [totalCrowdsales: bigint, activeCrowdsalesCount: bigint, totalFeesCollectedAmount: bigint] & { totalCrowdsales: bigint; activeCrowdsalesCount: bigint; totalFeesCollectedAmount: bigint };
+export type CrowdsaleFactoryGetRoleAdminResult = string;
+export type CrowdsaleFactoryGetTemplateAddressesResult = [crowdsale: string, token: string, vesting: string, whitelist: string, vault: string] & { crowdsale: string; token: string; vesting: string; whitelist: string; vault: string };
+export type CrowdsaleFactoryGetTotalCrowdsalesResult = bigint;
+export type CrowdsaleFactoryHasRoleResult = boolean;
+export type CrowdsaleFactoryIsPublicCreationAllowedResult = boolean;
+export type CrowdsaleFactoryPausedResult = boolean;
+export type CrowdsaleFactoryPublicCreationAllowedResult = boolean;
+export type CrowdsaleFactorySupportsInterfaceResult = boolean;
+export type CrowdsaleFactoryTokenTemplateResult = string;
+export type CrowdsaleFactoryTotalFeesCollectedResult = bigint;
+export type CrowdsaleFactoryValidateCrowdsaleParamsResult = [isValid: boolean, errorMessage: string] & { isValid: boolean; errorMessage: string };
+export type CrowdsaleFactoryVaultTemplateResult = string;
+export type CrowdsaleFactoryVestingTemplateResult = string;
+export type CrowdsaleFactoryWhitelistTemplateResult = string;
+
+export interface CrowdsaleFactoryCreationFeeUpdatedEvent {
+  oldFee: bigint;
+  newFee: bigint;
+}
+
+export interface CrowdsaleFactoryCrowdsaleCreatedEvent {
+  creator: string;
+  crowdsaleAddress: string;
+  tokenAddress: string;
+  vestingAddress: string;
+  tokenName: string;
+  tokenSymbol: string;
+}
+
+export interface CrowdsaleFactoryCrowdsaleStatusUpdatedEvent {
+  crowdsaleAddress: string;
+  isActive: boolean;
+}
+
+export interface CrowdsaleFactoryFactoryConfigUpdatedEvent {
+  admin: string;
+  creationFee: bigint;
+  publicCreation: boolean;
+}
+
+export interface CrowdsaleFactoryFeesWithdrawnEvent {
+  recipient: string;
+  amount: bigint;
+}
+
+export interface CrowdsaleFactoryPausedEvent {
+  account: string;
+}
+
+export interface CrowdsaleFactoryRoleAdminChangedEvent {
+  role: string;
+  previousAdminRole: string;
+  newAdminRole: string;
+}
+
+export interface CrowdsaleFactoryRoleGrantedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface CrowdsaleFactoryRoleRevokedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface CrowdsaleFactoryUnpausedEvent {
+  account: string;
+}
+
+export type CrowdsaleFactoryEventName = 'CreationFeeUpdated' | 'CrowdsaleCreated' | 'CrowdsaleStatusUpdated' | 'FactoryConfigUpdated' | 'FeesWithdrawn' | 'Paused' | 'RoleAdminChanged' | 'RoleGranted' | 'RoleRevoked' | 'Unpaused';
+
+export interface CrowdsaleFactoryContract extends BaseContract {
+  connect(runner: ContractRunner | null): CrowdsaleFactoryContract;
+  DEFAULT_ADMIN_ROLE: TypedContractMethod<[], CrowdsaleFactoryDEFAULT_ADMIN_ROLEResult, 'view'>;
+  FACTORY_ADMIN_ROLE: TypedContractMethod<[], CrowdsaleFactoryFACTORY_ADMIN_ROLEResult, 'view'>;
+  FACTORY_OPERATOR_ROLE: TypedContractMethod<[], CrowdsaleFactoryFACTORY_OPERATOR_ROLEResult, 'view'>;
+  activeCrowdsales: TypedContractMethod<[arg0: BigNumberish], CrowdsaleFactoryActiveCrowdsalesResult, 'view'>;
+  allCrowdsales: TypedContractMethod<[arg0: BigNumberish], CrowdsaleFactoryAllCrowdsalesResult, 'view'>;
+  batchCreateCrowdsale: TypedContractMethod<[paramsArray: Structs.CrowdsaleParamsStruct[]], string[], 'payable'>;
+  createCrowdsale: TypedContractMethod<[params: Structs.CrowdsaleParamsStruct], [crowdsaleAddress: string, tokenAddress: string, vestingAddress: string] & { crowdsaleAddress: string; tokenAddress: string; vestingAddress: string }, 'payable'>;
+  creationFee: TypedContractMethod<[], CrowdsaleFactoryCreationFeeResult, 'view'>;
+  creatorCrowdsales: TypedContractMethod<[arg0: AddressLike, arg1: BigNumberish], CrowdsaleFactoryCreatorCrowdsalesResult, 'view'>;
+  crowdsaleInstances: TypedContractMethod<[arg0: AddressLike], CrowdsaleFactoryCrowdsaleInstancesResult, 'view'>;
+  crowdsaleTemplate: TypedContractMethod<[], CrowdsaleFactoryCrowdsaleTemplateResult, 'view'>;
+  emergencyStopCrowdsale: TypedContractMethod<[crowdsaleAddress: AddressLike, reason: string], void, 'nonpayable'> & TypedContractMethod<[crowdsaleAddress: AddressLike], void, 'nonpayable'>;
+  'emergencyStopCrowdsale(address,string)': TypedContractMethod<[crowdsaleAddress: AddressLike, reason: string], void, 'nonpayable'>;
+  'emergencyStopCrowdsale(address)': TypedContractMethod<[crowdsaleAddress: AddressLike], void, 'nonpayable'>;
+  getActiveCrowdsales: TypedContractMethod<[], CrowdsaleFactoryGetActiveCrowdsalesResult, 'view'>;
+  getCreationFee: TypedContractMethod<[], CrowdsaleFactoryGetCreationFeeResult, 'view'>;
+  getCreatorCrowdsales: TypedContractMethod<[creator: AddressLike], CrowdsaleFactoryGetCreatorCrowdsalesResult, 'view'>;
+  getCrowdsaleInstance: TypedContractMethod<[crowdsaleAddress: AddressLike], CrowdsaleFactoryGetCrowdsaleInstanceResult, 'view'>;
+  getFactoryStats: TypedContractMethod<[], CrowdsaleFactoryGetFactoryStatsResult, 'view'>;
+  getRoleAdmin: TypedContractMethod<[role: BytesLike], CrowdsaleFactoryGetRoleAdminResult, 'view'>;
+  getTemplateAddresses: TypedContractMethod<[], CrowdsaleFactoryGetTemplateAddressesResult, 'view'>;
+  getTotalCrowdsales: TypedContractMethod<[], CrowdsaleFactoryGetTotalCrowdsalesResult, 'view'>;
+  grantRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  hasRole: TypedContractMethod<[role: BytesLike, account: AddressLike], CrowdsaleFactoryHasRoleResult, 'view'>;
+  isPublicCreationAllowed: TypedContractMethod<[], CrowdsaleFactoryIsPublicCreationAllowedResult, 'view'>;
+  pause: TypedContractMethod<[], void, 'nonpayable'>;
+  paused: TypedContractMethod<[], CrowdsaleFactoryPausedResult, 'view'>;
+  publicCreationAllowed: TypedContractMethod<[], CrowdsaleFactoryPublicCreationAllowedResult, 'view'>;
+  renounceRole: TypedContractMethod<[role: BytesLike, callerConfirmation: AddressLike], void, 'nonpayable'>;
+  revokeRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  setCreationFee: TypedContractMethod<[fee: BigNumberish], void, 'nonpayable'>;
+  setPublicCreationAllowed: TypedContractMethod<[allowed: boolean], void, 'nonpayable'>;
+  supportsInterface: TypedContractMethod<[interfaceId: BytesLike], CrowdsaleFactorySupportsInterfaceResult, 'view'>;
+  tokenTemplate: TypedContractMethod<[], CrowdsaleFactoryTokenTemplateResult, 'view'>;
+  totalFeesCollected: TypedContractMethod<[], CrowdsaleFactoryTotalFeesCollectedResult, 'view'>;
+  unpause: TypedContractMethod<[], void, 'nonpayable'>;
+  updateCrowdsaleStatus: TypedContractMethod<[crowdsaleAddress: AddressLike, isActive: boolean], void, 'nonpayable'>;
+  validateCrowdsaleParams: TypedContractMethod<[params: Structs.CrowdsaleParamsStruct], CrowdsaleFactoryValidateCrowdsaleParamsResult, 'view'>;
+  vaultTemplate: TypedContractMethod<[], CrowdsaleFactoryVaultTemplateResult, 'view'>;
+  vestingTemplate: TypedContractMethod<[], CrowdsaleFactoryVestingTemplateResult, 'view'>;
+  whitelistTemplate: TypedContractMethod<[], CrowdsaleFactoryWhitelistTemplateResult, 'view'>;
+  withdrawFees: TypedContractMethod<[to: AddressLike, amount: BigNumberish], void, 'nonpayable'>;
+}
+
+export const connectCrowdsaleFactory = (address: string, runner?: ContractRunner | null): CrowdsaleFactoryContract =>
+  new Contract(address, CrowdsaleFactoryAbi, runner) as unknown as CrowdsaleFactoryContract;
@@ -0,0 +1,179 @@
+// 此文件由 scripts/generate-contract-bindings.mjs 根据 Foundry 编译产物生成，请勿手动修改
+
+import { Contract } from 'ethers';
+import type { AddressLike, BaseContract, BigNumberish, BytesLike, ContractRunner } from 'ethers';
+import type { TypedContractMethod } from './common';
+import type * as Structs from './structs';
+
+// contracts/CrowdsaleFactoryLite.sol
+export const CrowdsaleFactoryLiteAbi = [
+  {"inputs":[{"internalType":"uint256","name":"_creationFee","type":"uint256"},{"internalType":"bool","name":"_publicCreationAllowed","type":"bool"}],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[],"name":"AccessControlBadConfirmation","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"},{"internalType":"bytes32","name":"neededRole","type":"bytes32"}],"name":"AccessControlUnauthorizedAccount","type":"error"},
+  {"inputs":[],"name":"ReentrancyGuardReentrantCall","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"oldFee","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"newFee","type":"uint256"}],"name":"CreationFeeUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"crowdsaleAddress","type":"address"},{"indexed":true,"internalType":"address","name":"tokenAddress","type":"address"},{"indexed":true,"internalType":"address","name":"creator","type":"address"},{"indexed":false,"internalType":"string","name":"tokenName","type":"string"},{"indexed":false,"internalType":"string","name":"tokenSymbol","type":"string"}],"name":"CrowdsaleCreated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"creator","type":"address"},{"indexed":true,"internalType":"address","name":"crowdsaleAddress","type":"address"},{"indexed":true,"internalType":"address","name":"tokenAddress","type":"address"},{"indexed":false,"internalType":"address","name":"vestingAddress","type":"address"},{"indexed":false,"internalType":"string","name":"tokenName","type":"string"},{"indexed":false,"internalType":"string","name":"tokenSymbol","type":"string"}],"name":"CrowdsaleCreated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"crowdsaleAddress","type":"address"},{"indexed":false,"internalType":"bool","name":"isActive","type":"bool"}],"name":"CrowdsaleStatusUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"admin","type":"address"},{"indexed":false,"internalType":"uint256","name":"creationFee","type":"uint256"},{"indexed":false,"internalType":"bool","name":"publicCreation","type":"bool"}],"name":"FactoryConfigUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"recipient","type":"address"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"}],"name":"FeesWithdrawn","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"bool","name":"allowed","type":"bool"}],"name":"PublicCreationToggled","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"bytes32","name":"previousAdminRole","type":"bytes32"},{"indexed":true,"internalType":"bytes32","name":"newAdminRole","type":"bytes32"}],"name":"RoleAdminChanged","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleGranted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleRevoked","type":"event"},
+  {"inputs":[],"name":"DEFAULT_ADMIN_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"FACTORY_ADMIN_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"FACTORY_OPERATOR_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"allCrowdsales","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"components":[{"internalType":"string","name":"tokenName","type":"string"},{"internalType":"string","name":"tokenSymbol","type":"string"},{"internalType":"uint256","name":"totalSupply","type":"uint256"},{"internalType":"uint256","name":"softCap","type":"uint256"},{"internalType":"uint256","name":"hardCap","type":"uint256"},{"internalType":"uint256","name":"startTime","type":"uint256"},{"internalType":"uint256","name":"endTime","type":"uint256"},{"internalType":"address","name":"fundingWallet","type":"address"},{"internalType":"uint256","name":"tokenPrice","type":"uint256"},{"components":[{"internalType":"bool","name":"enabled","type":"bool"},{"internalType":"uint256","name":"cliffDuration","type":"uint256"},{"internalType":"uint256","name":"vestingDuration","type":"uint256"},{"internalType":"enum ITokenVesting.VestingType","name":"vestingType","type":"uint8"},{"internalType":"uint256","name":"immediateReleasePercentage","type":"uint256"}],"internalType":"struct ICrowdsaleFactory.VestingParams","name":"vestingParams","type":"tuple"}],"internalType":"struct ICrowdsaleFactory.CrowdsaleParams[]","name":"paramsArray","type":"tuple[]"}],"name":"batchCreateCrowdsale","outputs":[{"internalType":"address[]","name":"crowdsaleAddresses","type":"address[]"}],"stateMutability":"payable","type":"function"},
+  {"inputs":[{"components":[{"internalType":"string","name":"tokenName","type":"string"},{"internalType":"string","name":"tokenSymbol","type":"string"},{"internalType":"uint256","name":"totalSupply","type":"uint256"},{"internalType":"uint256","name":"softCap","type":"uint256"},{"internalType":"uint256","name":"hardCap","type":"uint256"},{"internalType":"uint256","name":"startTime","type":"uint256"},{"internalType":"uint256","name":"endTime","type":"uint256"},{"internalType":"address","name":"fundingWallet","type":"address"},{"internalType":"uint256","name":"tokenPrice","type":"uint256"},{"components":[{"internalType":"bool","name":"enabled","type":"bool"},{"internalType":"uint256","name":"cliffDuration","type":"uint256"},{"internalType":"uint256","name":"vestingDuration","type":"uint256"},{"internalType":"enum ITokenVesting.VestingType","name":"vestingType","type":"uint8"},{"internalType":"uint256","name":"immediateReleasePercentage","type":"uint256"}],"internalType":"struct ICrowdsaleFactory.VestingParams","name":"vestingParams","type":"tuple"}],"internalType":"struct ICrowdsaleFactory.CrowdsaleParams","name":"params","type":"tuple"}],"name":"createCrowdsale","outputs":[{"internalType":"address","name":"crowdsaleAddress","type":"address"},{"internalType":"address","name":"tokenAddress","type":"address"},{"internalType":"address","name":"vestingAddress","type":"address"}],"stateMutability":"payable","type":"function"},
+  {"inputs":[],"name":"creationFee","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"},{"internalType":"uint256","name":"","type":"uint256"}],"name":"creatorCrowdsales","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"crowdsaleInstances","outputs":[{"internalType":"address","name":"crowdsaleAddress","type":"address"},{"internalType":"address","name":"tokenAddress","type":"address"},{"internalType":"address","name":"vestingAddress","type":"address"},{"internalType":"address","name":"creator","type":"address"},{"internalType":"uint256","name":"createdAt","type":"uint256"},{"internalType":"bool","name":"isActive","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"crowdsaleAddress","type":"address"}],"name":"deactivateCrowdsale","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"getActiveCrowdsales","outputs":[{"components":[{"internalType":"address","name":"crowdsaleAddress","type":"address"},{"internalType":"address","name":"tokenAddress","type":"address"},{"internalType":"address","name":"vestingAddress","type":"address"},{"internalType":"address","name":"creator","type":"address"},{"internalType":"uint256","name":"createdAt","type":"uint256"},{"internalType":"bool","name":"isActive","type":"bool"}],"internalType":"struct ICrowdsaleFactory.CrowdsaleInstance[]","name":"instances","type":"tuple[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getCreationFee","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"creator","type":"address"}],"name":"getCreatorCrowdsales","outputs":[{"components":[{"internalType":"address","name":"crowdsaleAddress","type":"address"},{"internalType":"address","name":"tokenAddress","type":"address"},{"internalType":"address","name":"vestingAddress","type":"address"},{"internalType":"address","name":"creator","type":"address"},{"internalType":"uint256","name":"createdAt","type":"uint256"},{"internalType":"bool","name":"isActive","type":"bool"}],"internalType":"struct ICrowdsaleFactory.CrowdsaleInstance[]","name":"instances","type":"tuple[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"crowdsaleAddress","type":"address"}],"name":"getCrowdsaleInstance","outputs":[{"components":[{"internalType":"address","name":"crowdsaleAddress","type":"address"},{"internalType":"address","name":"tokenAddress","type":"address"},{"internalType":"address","name":"vestingAddress","type":"address"},{"internalType":"address","name":"creator","type":"address"},{"internalType":"uint256","name":"createdAt","type":"uint256"},{"internalType":"bool","name":"isActive","type":"bool"}],"internalType":"struct ICrowdsaleFactory.CrowdsaleInstance","name":"","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getFactoryStats","outputs":[{"internalType":"uint256","name":"totalCrowdsales","type":"uint256"},{"internalType":"uint256","name":"activeCrowdsales","type":"uint256"},{"internalType":"uint256","name":"totalFeesCollected","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"}],"name":"getRoleAdmin","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getTotalCrowdsales","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"grantRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"hasRole","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"isPublicCreationAllowed","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"publicCreationAllowed","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"callerConfirmation","type":"address"}],"name":"renounceRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"revokeRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_creationFee","type":"uint256"}],"name":"setCreationFee","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bool","name":"allowed","type":"bool"}],"name":"setPublicCreationAllowed","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes4","name":"interfaceId","type":"bytes4"}],"name":"supportsInterface","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"togglePublicCreation","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"totalFeesCollected","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"crowdsaleAddress","type":"address"},{"internalType":"bool","name":"isActive","type":"bool"}],"name":"updateCrowdsaleStatus","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"components":[{"internalType":"string","name":"tokenName","type":"string"},{"internalType":"string","name":"tokenSymbol","type":"string"},{"internalType":"uint256","name":"totalSupply","type":"uint256"},{"internalType":"uint256","name":"softCap","type":"uint256"},{"internalType":"uint256","name":"hardCap","type":"uint256"},{"internalType":"uint256","name":"startTime","type":"uint256"},{"internalType":"uint256","name":"endTime","type":"uint256"},{"internalType":"address","name":"fundingWallet","type":"address"},{"internalType":"uint256","name":"tokenPrice","type":"uint256"},{"components":[{"internalType":"bool","name":"enabled","type":"bool"},{"internalType":"uint256","name":"cliffDuration","type":"uint256"},{"internalType":"uint256","name":"vestingDuration","type":"uint256"},{"internalType":"enum ITokenVesting.VestingType","name":"vestingType","type":"uint8"},{"internalType":"uint256","name":"immediateReleasePercentage","type":"uint256"}],"internalType":"struct ICrowdsaleFactory.VestingParams","name":"vestingParams","type":"tuple"}],"internalType":"struct ICrowdsaleFactory.CrowdsaleParams","name":"params","type":"tuple"}],"name":"validateCrowdsaleParams","outputs":[{"internalType":"bool","name":"isValid","type":"bool"},{"internalType":"string","name":"errorMessage","type":"string"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address payable","name":"recipient","type":"address"}],"name":"withdrawFees","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address payable","name":"to","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"withdrawFees","outputs":[],"stateMutability":"nonpayable","type":"function"},
+] as const;
+
+export type CrowdsaleFactoryLiteDEFAULT_ADMIN_ROLEResult = string;
+export type CrowdsaleFactoryLiteFACTORY_ADMIN_ROLEResult = string;
+export type CrowdsaleFactoryLiteFACTORY_OPERATOR_ROLEResult = string;
+export type CrowdsaleFactoryLiteAllCrowdsalesResult = string;
+export type CrowdsaleFactoryLiteCreationFeeResult = bigint;
+export type CrowdsaleFactoryLiteCreatorCrowdsalesResult = string;
+export type CrowdsaleFactoryLiteCrowdsaleInstancesResult = [crowdsaleAddress: string, tokenAddress: string, vestingAddress: string, creator: string, createdAt: bigint, isActive: boolean] & { crowdsaleAddress: string; tokenAddress: string; vestingAddress: string; creator: string; createdAt: bigint; isActive: boolean };
+export type CrowdsaleFactoryLiteGetActiveCrowdsalesResult = Structs.CrowdsaleInstanceStructOutput[];
+export type CrowdsaleFactoryLiteGetCreationFeeResult = bigint;
+export type CrowdsaleFactoryLiteGetCreatorCrowdsalesResult = Structs.CrowdsaleInstanceStructOutput[];
+export type CrowdsaleFactoryLiteGetCrowdsaleInstanceResult = Structs.CrowdsaleInstanceStructOutput;
+export type CrowdsaleFactoryLiteGetFactoryStatsResult = [totalCrowdsales: bigint, activeCrowdsales: bigint, totalFeesCollected: bigint] & { totalCrowdsales: bigint; activeCrowdsales: bigint; totalFeesCollected: bigint };
+export type CrowdsaleFactoryLiteGetRoleAdminResult = string;
+export type CrowdsaleFactoryLiteGetTotalCrowdsalesResult = bigint;
+export type CrowdsaleFactoryLiteHasRoleResult = boolean;
+export type CrowdsaleFactoryLiteIsPublicCreationAllowedResult = boolean;
+export type CrowdsaleFactoryLitePublicCreationAllowedResult = boolean;
+export type CrowdsaleFactoryLiteSupportsInterfaceResult = boolean;
+export type CrowdsaleFactoryLiteTotalFeesCollectedResult = bigint;
+export type CrowdsaleFactoryLiteValidateCrowdsaleParamsResult = [isValid: boolean, errorMessage: string] & { isValid: boolean; errorMessage: string };
+
+export interface CrowdsaleFactoryLiteCreationFeeUpdatedEvent {
+  oldFee: bigint;
+  newFee: bigint;
+}
+
+export interface CrowdsaleFactoryLiteCrowdsaleCreatedEvent_address_address_address_string_string {
+  crowdsaleAddress: string;
+  tokenAddress: string;
+  creator: string;
+  tokenName: string;
+  tokenSymbol: string;
+}
+
+export interface CrowdsaleFactoryLiteCrowdsaleCreatedEvent_address_address_address_address_string_string {
+  creator: string;
+  crowdsaleAddress: string;
+  tokenAddress: string;
+  vestingAddress: string;
+  tokenName: string;
+  tokenSymbol: string;
+}
+
+export interface CrowdsaleFactoryLiteCrowdsaleStatusUpdatedEvent {
+  crowdsaleAddress: string;
+  isActive: boolean;
+}
+
+export interface CrowdsaleFactoryLiteFactoryConfigUpdatedEvent {
+  admin: string;
+  creationFee: bigint;
+  publicCreation: boolean;
+}
+
+export interface CrowdsaleFactoryLiteFeesWithdrawnEvent {
+  recipient: string;
+  amount: bigint;
+}
+
+export interface CrowdsaleFactoryLitePublicCreationToggledEvent {
+  allowed: boolean;
+}
+
+export interface CrowdsaleFactoryLiteRoleAdminChangedEvent {
+  role: string;
+  previousAdminRole: string;
+  newAdminRole: string;
+}
+
+export interface CrowdsaleFactoryLiteRoleGrantedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface CrowdsaleFactoryLiteRoleRevokedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export type CrowdsaleFactoryLiteEventName = 'CreationFeeUpdated' | 'CrowdsaleCreated' | 'CrowdsaleStatusUpdated' | 'FactoryConfigUpdated' | 'FeesWithdrawn' | 'PublicCreationToggled' | 'RoleAdminChanged' | 'RoleGranted' | 'RoleRevoked';
+
+export interface CrowdsaleFactoryLiteContract extends BaseContract {
+  connect(runner: ContractRunner | null): CrowdsaleFactoryLiteContract;
+  DEFAULT_ADMIN_ROLE: TypedContractMethod<[], CrowdsaleFactoryLiteDEFAULT_ADMIN_ROLEResult, 'view'>;
+  FACTORY_ADMIN_ROLE: TypedContractMethod<[], CrowdsaleFactoryLiteFACTORY_ADMIN_ROLEResult, 'view'>;
+  FACTORY_OPERATOR_ROLE: TypedContractMethod<[], CrowdsaleFactoryLiteFACTORY_OPERATOR_ROLEResult, 'view'>;
+  allCrowdsales: TypedContractMethod<[arg0: BigNumberish], CrowdsaleFactoryLiteAllCrowdsalesResult, 'view'>;
+  batchCreateCrowdsale: TypedContractMethod<[paramsArray: Structs.CrowdsaleParamsStruct[]], string[], 'payable'>;
+  createCrowdsale: TypedContractMethod<[params: Structs.CrowdsaleParamsStruct], [crowdsaleAddress: string, tokenAddress: string, vestingAddress: string] & { crowdsaleAddress: string; tokenAddress: string; vestingAddress: string }, 'payable'>;
+  creationFee: TypedContractMethod<[], CrowdsaleFactoryLiteCreationFeeResult, 'view'>;
+  creatorCrowdsales: TypedContractMethod<[arg0: AddressLike, arg1: BigNumberish], CrowdsaleFactoryLiteCreatorCrowdsalesResult, 'view'>;
+  crowdsaleInstances: TypedContractMethod<[arg0: AddressLike], CrowdsaleFactoryLiteCrowdsaleInstancesResult, 'view'>;
+  deactivateCrowdsale: TypedContractMethod<[crowdsaleAddress: AddressLike], void, 'nonpayable'>;
+  getActiveCrowdsales: TypedContractMethod<[], CrowdsaleFactoryLiteGetActiveCrowdsalesResult, 'view'>;
+  getCreationFee: TypedContractMethod<[], CrowdsaleFactoryLiteGetCreationFeeResult, 'view'>;
+  getCreatorCrowdsales: TypedContractMethod<[creator: AddressLike], CrowdsaleFactoryLiteGetCreatorCrowdsalesResult, 'view'>;
+  getCrowdsaleInstance: TypedContractMethod<[crowdsaleAddress: AddressLike], CrowdsaleFactoryLiteGetCrowdsaleInstanceResult, 'view'>;
+  getFactoryStats: TypedContractMethod<[], CrowdsaleFactoryLiteGetFactoryStatsResult, 'view'>;
+  getRoleAdmin: TypedContractMethod<[role: BytesLike], CrowdsaleFactoryLiteGetRoleAdminResult, 'view'>;
+  getTotalCrowdsales: TypedContractMethod<[], CrowdsaleFactoryLiteGetTotalCrowdsalesResult, 'view'>;
+  grantRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  hasRole: TypedContractMethod<[role: BytesLike, account: AddressLike], CrowdsaleFactoryLiteHasRoleResult, 'view'>;
+  isPublicCreationAllowed: TypedContractMethod<[], CrowdsaleFactoryLiteIsPublicCreationAllowedResult, 'view'>;
+  publicCreationAllowed: TypedContractMethod<[], CrowdsaleFactoryLitePublicCreationAllowedResult, 'view'>;
+  renounceRole: TypedContractMethod<[role: BytesLike, callerConfirmation: AddressLike], void, 'nonpayable'>;
+  revokeRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  setCreationFee: TypedContractMethod<[_creationFee: BigNumberish], void, 'nonpayable'>;
+  setPublicCreationAllowed: TypedContractMethod<[allowed: boolean], void, 'nonpayable'>;
+  supportsInterface: TypedContractMethod<[interfaceId: BytesLike], CrowdsaleFactoryLiteSupportsInterfaceResult, 'view'>;
+  togglePublicCreation: TypedContractMethod<[], void, 'nonpayable'>;
+  totalFeesCollected: TypedContractMethod<[], CrowdsaleFactoryLiteTotalFeesCollectedResult, 'view'>;
+  updateCrowdsaleStatus: TypedContractMethod<[crowdsaleAddress: AddressLike, isActive: boolean], void, 'nonpayable'>;
+  validateCrowdsaleParams: TypedContractMethod<[params: Structs.CrowdsaleParamsStruct], CrowdsaleFactoryLiteValidateCrowdsaleParamsResult, 'view'>;
+  withdrawFees: TypedContractMethod<[recipient: AddressLike], void, 'nonpayable'> & TypedContractMethod<[to: AddressLike, amount: BigNumberish], void, 'nonpayable'>;
+  'withdrawFees(address)': TypedContractMethod<[recipient: AddressLike], void, 'nonpayable'>;
+  'withdrawFees(address,uint256)': TypedContractMethod<[to: AddressLike, amount: BigNumberish], void, 'nonpayable'>;
+}
+
+export const connectCrowdsaleFactoryLite = (address: string, runner?: ContractRunner | null): CrowdsaleFactoryLiteContract =>
+  new Contract(address, CrowdsaleFactoryLiteAbi, runner) as unknown as CrowdsaleFactoryLiteContract;
@@ -0,0 +1,188 @@
+// 此文件由 scripts/generate-contract-bindings.mjs 根据 Foundry 编译产物生成，请勿手动修改
+
+import { Contract } from 'ethers';
+import type { AddressLike, BaseContract, BigNumberish, BytesLike, ContractRunner } from 'ethers';
+import type { TypedContractMethod } from './common';
+
+// contracts/CrowdsaleToken.sol
+export const CrowdsaleTokenAbi = [
+  {"inputs":[{"internalType":"string","name":"name","type":"string"},{"internalType":"string","name":"symbol","type":"string"},{"internalType":"uint256","name":"maxSupply_","type":"uint256"},{"internalType":"address","name":"admin","type":"address"}],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[],"name":"AccessControlBadConfirmation","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"},{"internalType":"bytes32","name":"neededRole","type":"bytes32"}],"name":"AccessControlUnauthorizedAccount","type":"error"},
+  {"inputs":[{"internalType":"address","name":"spender","type":"address"},{"internalType":"uint256","name":"allowance","type":"uint256"},{"internalType":"uint256","name":"needed","type":"uint256"}],"name":"ERC20InsufficientAllowance","type":"error"},
+  {"inputs":[{"internalType":"address","name":"sender","type":"address"},{"internalType":"uint256","name":"balance","type":"uint256"},{"internalType":"uint256","name":"needed","type":"uint256"}],"name":"ERC20InsufficientBalance","type":"error"},
+  {"inputs":[{"internalType":"address","name":"approver","type":"address"}],"name":"ERC20InvalidApprover","type":"error"},
+  {"inputs":[{"internalType":"address","name":"receiver","type":"address"}],"name":"ERC20InvalidReceiver","type":"error"},
+  {"inputs":[{"internalType":"address","name":"sender","type":"address"}],"name":"ERC20InvalidSender","type":"error"},
+  {"inputs":[{"internalType":"address","name":"spender","type":"address"}],"name":"ERC20InvalidSpender","type":"error"},
+  {"inputs":[],"name":"EnforcedPause","type":"error"},
+  {"inputs":[],"name":"ExpectedPause","type":"error"},
+  {"inputs":[],"name":"ReentrancyGuardReentrantCall","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"owner","type":"address"},{"indexed":true,"internalType":"address","name":"spender","type":"address"},{"indexed":false,"internalType":"uint256","name":"value","type":"uint256"}],"name":"Approval","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"oldMaxSupply","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"newMaxSupply","type":"uint256"}],"name":"MaxSupplyUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Paused","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"bytes32","name":"previousAdminRole","type":"bytes32"},{"indexed":true,"internalType":"bytes32","name":"newAdminRole","type":"bytes32"}],"name":"RoleAdminChanged","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleGranted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleRevoked","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"from","type":"address"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"},{"indexed":true,"internalType":"address","name":"burner","type":"address"}],"name":"TokenBurned","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"to","type":"address"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"},{"indexed":true,"internalType":"address","name":"minter","type":"address"}],"name":"TokenMinted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"from","type":"address"},{"indexed":true,"internalType":"address","name":"to","type":"address"},{"indexed":false,"internalType":"uint256","name":"value","type":"uint256"}],"name":"Transfer","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Unpaused","type":"event"},
+  {"inputs":[],"name":"BURNER_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"DEFAULT_ADMIN_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"MINTER_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"PAUSER_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"owner","type":"address"},{"internalType":"address","name":"spender","type":"address"}],"name":"allowance","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"spender","type":"address"},{"internalType":"uint256","name":"value","type":"uint256"}],"name":"approve","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"balanceOf","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address[]","name":"recipients","type":"address[]"},{"internalType":"uint256[]","name":"amounts","type":"uint256[]"}],"name":"batchMint","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"value","type":"uint256"}],"name":"burn","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"from","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"burnFrom","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"burnedFrom","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"canMint","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"decimals","outputs":[{"internalType":"uint8","name":"","type":"uint8"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"}],"name":"getRoleAdmin","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getTokenStats","outputs":[{"internalType":"uint256","name":"currentSupply","type":"uint256"},{"internalType":"uint256","name":"maxSupply_","type":"uint256"},{"internalType":"uint256","name":"totalMinted_","type":"uint256"},{"internalType":"uint256","name":"totalBurned_","type":"uint256"},{"internalType":"uint256","name":"remainingMintable_","type":"uint256"},{"internalType":"bool","name":"isPaused","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"grantRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"hasRole","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"maxSupply","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"mint","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"mintedBy","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"name","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"pause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"paused","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"remainingMintable","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"callerConfirmation","type":"address"}],"name":"renounceRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"revokeRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes4","name":"interfaceId","type":"bytes4"}],"name":"supportsInterface","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"symbol","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"totalBurned","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"totalMinted","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"totalSupply","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"value","type":"uint256"}],"name":"transfer","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"from","type":"address"},{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"value","type":"uint256"}],"name":"transferFrom","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"unpause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"newMaxSupply","type":"uint256"}],"name":"updateMaxSupply","outputs":[],"stateMutability":"nonpayable","type":"function"},
+] as const;
+
+export type CrowdsaleTokenBURNER_ROLEResult = string;
+export type CrowdsaleTokenDEFAULT_ADMIN_ROLEResult = string;
+export type CrowdsaleTokenMINTER_ROLEResult = string;
+export type CrowdsaleTokenPAUSER_ROLEResult = string;
+export type CrowdsaleTokenAllowanceResult = bigint;
+export type CrowdsaleTokenBalanceOfResult = bigint;
+export type CrowdsaleTokenBurnedFromResult = bigint;
+export type CrowdsaleTokenCanMintResult = boolean;
+export type CrowdsaleTokenDecimalsResult = bigint;
+export type CrowdsaleTokenGetRoleAdminResult = string;
+export type CrowdsaleTokenGetTokenStatsResult = [currentSupply: bigint, maxSupply_: bigint, totalMinted_: bigint, totalBurned_: bigint, remainingMintable_: bigint, isPaused: boolean] & { currentSupply: bigint; maxSupply_: bigint; totalMinted_: bigint; totalBurned_: bigint; remainingMintable_: bigint; isPaused: boolean };
+export type CrowdsaleTokenHasRoleResult = boolean;
+export type CrowdsaleTokenMaxSupplyResult = bigint;
+export type CrowdsaleTokenMintedByResult = bigint;
+export type CrowdsaleTokenNameResult = string;
+export type CrowdsaleTokenPausedResult = boolean;
+export type CrowdsaleTokenRemainingMintableResult = bigint;
+export type CrowdsaleTokenSupportsInterfaceResult = boolean;
+export type CrowdsaleTokenSymbolResult = string;
+export type CrowdsaleTokenTotalBurnedResult = bigint;
+export type CrowdsaleTokenTotalMintedResult = bigint;
+export type CrowdsaleTokenTotalSupplyResult = bigint;
+
+export interface CrowdsaleTokenApprovalEvent {
+  owner: string;
+  spender: string;
+  value: bigint;
+}
+
+export interface CrowdsaleTokenMaxSupplyUpdatedEvent {
+  oldMaxSupply: bigint;
+  newMaxSupply: bigint;
+}
+
+export interface CrowdsaleTokenPausedEvent {
+  account: string;
+}
+
+export interface CrowdsaleTokenRoleAdminChangedEvent {
+  role: string;
+  previousAdminRole: string;
+  newAdminRole: string;
+}
+
+export interface CrowdsaleTokenRoleGrantedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface CrowdsaleTokenRoleRevokedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface CrowdsaleTokenTokenBurnedEvent {
+  from: string;
+  amount: bigint;
+  burner: string;
+}
+
+export interface CrowdsaleTokenTokenMintedEvent {
+  to: string;
+  amount: bigint;
+  minter: string;
+}
+
+export interface CrowdsaleTokenTransferEvent {
+  from: string;
+  to: string;
+  value: bigint;
+}
+
+export interface CrowdsaleTokenUnpausedEvent {
+  account: string;
+}
+
+export type CrowdsaleTokenEventName = 'Approval' | 'MaxSupplyUpdated' | 'Paused' | 'RoleAdminChanged' | 'RoleGranted' | 'RoleRevoked' | 'TokenBurned' | 'TokenMinted' | 'Transfer' | 'Unpaused';
+
+export interface CrowdsaleTokenContract extends BaseContract {
+  connect(runner: ContractRunner | null): CrowdsaleTokenContract;
+  BURNER_ROLE: TypedContractMethod<[], CrowdsaleTokenBURNER_ROLEResult, 'view'>;
+  DEFAULT_ADMIN_ROLE: TypedContractMethod<[], CrowdsaleTokenDEFAULT_ADMIN_ROLEResult, 'view'>;
+  MINTER_ROLE: TypedContractMethod<[], CrowdsaleTokenMINTER_ROLEResult, 'view'>;
+  PAUSER_ROLE: TypedContractMethod<[], CrowdsaleTokenPAUSER_ROLEResult, 'view'>;
+  allowance: TypedContractMethod<[owner: AddressLike, spender: AddressLike], CrowdsaleTokenAllowanceResult, 'view'>;
+  approve: TypedContractMethod<[spender: AddressLike, value: BigNumberish], boolean, 'nonpayable'>;
+  balanceOf: TypedContractMethod<[account: AddressLike], CrowdsaleTokenBalanceOfResult, 'view'>;
+  batchMint: TypedContractMethod<[recipients: AddressLike[], amounts: BigNumberish[]], void, 'nonpayable'>;
+  burn: TypedContractMethod<[value: BigNumberish], void, 'nonpayable'>;
+  burnFrom: TypedContractMethod<[from: AddressLike, amount: BigNumberish], void, 'nonpayable'>;
+  burnedFrom: TypedContractMethod<[arg0: AddressLike], CrowdsaleTokenBurnedFromResult, 'view'>;
+  canMint: TypedContractMethod<[amount: BigNumberish], CrowdsaleTokenCanMintResult, 'view'>;
+  decimals: TypedContractMethod<[], CrowdsaleTokenDecimalsResult, 'view'>;
+  getRoleAdmin: TypedContractMethod<[role: BytesLike], CrowdsaleTokenGetRoleAdminResult, 'view'>;
+  getTokenStats: TypedContractMethod<[], CrowdsaleTokenGetTokenStatsResult, 'view'>;
+  grantRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  hasRole: TypedContractMethod<[role: BytesLike, account: AddressLike], CrowdsaleTokenHasRoleResult, 'view'>;
+  maxSupply: TypedContractMethod<[], CrowdsaleTokenMaxSupplyResult, 'view'>;
+  mint: TypedContractMethod<[to: AddressLike, amount: BigNumberish], void, 'nonpayable'>;
+  mintedBy: TypedContractMethod<[arg0: AddressLike], CrowdsaleTokenMintedByResult, 'view'>;
+  name: TypedContractMethod<[], CrowdsaleTokenNameResult, 'view'>;
+  pause: TypedContractMethod<[], void, 'nonpayable'>;
+  paused: TypedContractMethod<[], CrowdsaleTokenPausedResult, 'view'>;
+  remainingMintable: TypedContractMethod<[], CrowdsaleTokenRemainingMintableResult, 'view'>;
+  renounceRole: TypedContractMethod<[role: BytesLike, callerConfirmation: AddressLike], void, 'nonpayable'>;
+  revokeRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  supportsInterface: TypedContractMethod<[interfaceId: BytesLike], CrowdsaleTokenSupportsInterfaceResult, 'view'>;
+  symbol: TypedContractMethod<[], CrowdsaleTokenSymbolResult, 'view'>;
+  totalBurned: TypedContractMethod<[], CrowdsaleTokenTotalBurnedResult, 'view'>;
+  totalMinted: TypedContractMethod<[], CrowdsaleTokenTotalMintedResult, 'view'>;
+  totalSupply: TypedContractMethod<[], CrowdsaleTokenTotalSupplyResult, 'view'>;
+  transfer: TypedContractMethod<[to: AddressLike, value: BigNumberish], boolean, 'nonpayable'>;
+  transferFrom: TypedContractMethod<[from: AddressLike, to: AddressLike, value: BigNumberish], boolean, 'nonpayable'>;
+  unpause: TypedContractMethod<[], void, 'nonpayable'>;
+  updateMaxSupply: TypedContractMethod<[newMaxSupply: BigNumberish], void, 'nonpayable'>;
+}
+
+export const connectCrowdsaleToken = (address: string, runner?: ContractRunner | null): CrowdsaleTokenContract =>
+  new Contract(address, CrowdsaleTokenAbi, runner) as unknown as CrowdsaleTokenContract;
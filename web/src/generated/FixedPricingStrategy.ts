@@ -0,0 +1,127 @@
+// 此文件由 scripts/generate-contract-bindings.mjs 根据 Foundry 编译产物生成，请勿手动修改
+
+import { Contract } from 'ethers';
+import type { AddressLike, BaseContract, BigNumberish, BytesLike, ContractRunner } from 'ethers';
+import type { TypedContractMethod } from './common';
+
+// contracts/pricing/FixedPricingStrategy.sol
+export const FixedPricingStrategyAbi = [
+  {"inputs":[{"internalType":"uint256","name":"_basePrice","type":"uint256"},{"internalType":"address","name":"_whitelistManager","type":"address"},{"internalType":"address","name":"_admin","type":"address"}],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[],"name":"AccessControlBadConfirmation","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"},{"internalType":"bytes32","name":"neededRole","type":"bytes32"}],"name":"AccessControlUnauthorizedAccount","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"oldPrice","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"newPrice","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"PriceUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"enum IPricingStrategy.PricingType","name":"pricingType","type":"uint8"},{"indexed":false,"internalType":"bytes","name":"parameters","type":"bytes"}],"name":"PricingParametersUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"bytes32","name":"previousAdminRole","type":"bytes32"},{"indexed":true,"internalType":"bytes32","name":"newAdminRole","type":"bytes32"}],"name":"RoleAdminChanged","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleGranted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleRevoked","type":"event"},
+  {"inputs":[],"name":"BASIS_POINTS","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"DEFAULT_ADMIN_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"MAX_DISCOUNT","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"PRICING_ADMIN_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"basePrice","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"weiAmount","type":"uint256"},{"internalType":"address","name":"buyer","type":"address"}],"name":"calculateTokenAmount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getCurrentPrice","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"buyer","type":"address"}],"name":"getDiscountForBuyer","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"buyer","type":"address"}],"name":"getPriceForBuyer","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"buyer","type":"address"}],"name":"getPricingInfo","outputs":[{"internalType":"uint256","name":"basePrice_","type":"uint256"},{"internalType":"uint256","name":"finalPrice","type":"uint256"},{"internalType":"uint256","name":"discount","type":"uint256"},{"internalType":"bool","name":"isWhitelisted","type":"bool"},{"internalType":"enum IWhitelistManager.WhitelistLevel","name":"level","type":"uint8"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getPricingType","outputs":[{"internalType":"enum IPricingStrategy.PricingType","name":"","type":"uint8"}],"stateMutability":"pure","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"}],"name":"getRoleAdmin","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"enum IWhitelistManager.WhitelistLevel","name":"level","type":"uint8"}],"name":"getWhitelistDiscount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"grantRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"hasRole","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"buyer","type":"address"}],"name":"isEligibleForSpecialPricing","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"buyer","type":"address"},{"internalType":"uint256","name":"weiAmount","type":"uint256"}],"name":"isValidPurchase","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"callerConfirmation","type":"address"}],"name":"renounceRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"revokeRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"newPrice","type":"uint256"}],"name":"setBasePrice","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"enum IWhitelistManager.WhitelistLevel","name":"level","type":"uint8"},{"internalType":"uint256","name":"discount","type":"uint256"}],"name":"setWhitelistDiscount","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"newWhitelistManager","type":"address"}],"name":"setWhitelistManager","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes4","name":"interfaceId","type":"bytes4"}],"name":"supportsInterface","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes","name":"parameters","type":"bytes"}],"name":"updatePricingParameters","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"enum IWhitelistManager.WhitelistLevel","name":"","type":"uint8"}],"name":"whitelistDiscounts","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"whitelistManager","outputs":[{"internalType":"contract IWhitelistManager","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+] as const;
+
+export type FixedPricingStrategyBASIS_POINTSResult = bigint;
+export type FixedPricingStrategyDEFAULT_ADMIN_ROLEResult = string;
+export type FixedPricingStrategyMAX_DISCOUNTResult = bigint;
+export type FixedPricingStrategyPRICING_ADMIN_ROLEResult = string;
+export type FixedPricingStrategyBasePriceResult = bigint;
+export type FixedPricingStrategyCalculateTokenAmountResult = bigint;
+export type FixedPricingStrategyGetCurrentPriceResult = bigint;
+export type FixedPricingStrategyGetDiscountForBuyerResult = bigint;
+export type FixedPricingStrategyGetPriceForBuyerResult = bigint;
+export type FixedPricingStrategyGetPricingInfoResult = [basePrice_: bigint, finalPrice: bigint, discount: bigint, isWhitelisted: boolean, level: bigint] & { basePrice_: bigint; finalPrice: bigint; discount: bigint; isWhitelisted: boolean; level: bigint };
+export type FixedPricingStrategyGetPricingTypeResult = bigint;
+export type FixedPricingStrategyGetRoleAdminResult = string;
+export type FixedPricingStrategyGetWhitelistDiscountResult = bigint;
+export type FixedPricingStrategyHasRoleResult = boolean;
+export type FixedPricingStrategyIsEligibleForSpecialPricingResult = boolean;
+export type FixedPricingStrategyIsValidPurchaseResult = boolean;
+export type FixedPricingStrategySupportsInterfaceResult = boolean;
+export type FixedPricingStrategyWhitelistDiscountsResult = bigint;
+export type FixedPricingStrategyWhitelistManagerResult = string;
+
+export interface FixedPricingStrategyPriceUpdatedEvent {
+  oldPrice: bigint;
+  newPrice: bigint;
+  timestamp: bigint;
+}
+
+export interface FixedPricingStrategyPricingParametersUpdatedEvent {
+  pricingType: bigint;
+  parameters: string;
+}
+
+export interface FixedPricingStrategyRoleAdminChangedEvent {
+  role: string;
+  previousAdminRole: string;
+  newAdminRole: string;
+}
+
+export interface FixedPricingStrategyRoleGrantedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface FixedPricingStrategyRoleRevokedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export type FixedPricingStrategyEventName = 'PriceUpdated' | 'PricingParametersUpdated' | 'RoleAdminChanged' | 'RoleGranted' | 'RoleRevoked';
+
+export interface FixedPricingStrategyContract extends BaseContract {
+  connect(runner: ContractRunner | null): FixedPricingStrategyContract;
+  BASIS_POINTS: TypedContractMethod<[], FixedPricingStrategyBASIS_POINTSResult, 'view'>;
+  DEFAULT_ADMIN_ROLE: TypedContractMethod<[], FixedPricingStrategyDEFAULT_ADMIN_ROLEResult, 'view'>;
+  MAX_DISCOUNT: TypedContractMethod<[], FixedPricingStrategyMAX_DISCOUNTResult, 'view'>;
+  PRICING_ADMIN_ROLE: TypedContractMethod<[], FixedPricingStrategyPRICING_ADMIN_ROLEResult, 'view'>;
+  basePrice: TypedContractMethod<[], FixedPricingStrategyBasePriceResult, 'view'>;
+  calculateTokenAmount: TypedContractMethod<[weiAmount: BigNumberish, buyer: AddressLike], FixedPricingStrategyCalculateTokenAmountResult, 'view'>;
+  getCurrentPrice: TypedContractMethod<[], FixedPricingStrategyGetCurrentPriceResult, 'view'>;
+  getDiscountForBuyer: TypedContractMethod<[buyer: AddressLike], FixedPricingStrategyGetDiscountForBuyerResult, 'view'>;
+  getPriceForBuyer: TypedContractMethod<[buyer: AddressLike], FixedPricingStrategyGetPriceForBuyerResult, 'view'>;
+  getPricingInfo: TypedContractMethod<[buyer: AddressLike], FixedPricingStrategyGetPricingInfoResult, 'view'>;
+  getPricingType: TypedContractMethod<[], FixedPricingStrategyGetPricingTypeResult, 'pure'>;
+  getRoleAdmin: TypedContractMethod<[role: BytesLike], FixedPricingStrategyGetRoleAdminResult, 'view'>;
+  getWhitelistDiscount: TypedContractMethod<[level: BigNumberish], FixedPricingStrategyGetWhitelistDiscountResult, 'view'>;
+  grantRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  hasRole: TypedContractMethod<[role: BytesLike, account: AddressLike], FixedPricingStrategyHasRoleResult, 'view'>;
+  isEligibleForSpecialPricing: TypedContractMethod<[buyer: AddressLike], FixedPricingStrategyIsEligibleForSpecialPricingResult, 'view'>;
+  isValidPurchase: TypedContractMethod<[buyer: AddressLike, weiAmount: BigNumberish], FixedPricingStrategyIsValidPurchaseResult, 'view'>;
+  renounceRole: TypedContractMethod<[role: BytesLike, callerConfirmation: AddressLike], void, 'nonpayable'>;
+  revokeRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  setBasePrice: TypedContractMethod<[newPrice: BigNumberish], void, 'nonpayable'>;
+  setWhitelistDiscount: TypedContractMethod<[level: BigNumberish, discount: BigNumberish], void, 'nonpayable'>;
+  setWhitelistManager: TypedContractMethod<[newWhitelistManager: AddressLike], void, 'nonpayable'>;
+  supportsInterface: TypedContractMethod<[interfaceId: BytesLike], FixedPricingStrategySupportsInterfaceResult, 'view'>;
+  updatePricingParameters: TypedContractMethod<[parameters: BytesLike], void, 'nonpayable'>;
+  whitelistDiscounts: TypedContractMethod<[arg0: BigNumberish], FixedPricingStrategyWhitelistDiscountsResult, 'view'>;
+  whitelistManager: TypedContractMethod<[], FixedPricingStrategyWhitelistManagerResult, 'view'>;
+}
+
+export const connectFixedPricingStrategy = (address: string, runner?: ContractRunner | null): FixedPricingStrategyContract =>
+  new Contract(address, FixedPricingStrategyAbi, runner) as unknown as FixedPricingStrategyContract;
@@ -0,0 +1,246 @@
+// 此文件由 scripts/generate-contract-bindings.mjs 根据 Foundry 编译产物生成，请勿手动修改
+
+import { Contract } from 'ethers';
+import type { AddressLike, BaseContract, BigNumberish, BytesLike, ContractRunner } from 'ethers';
+import type { TypedContractMethod } from './common';
+
+// contracts/RefundVault.sol
+export const RefundVaultAbi = [
+  {"inputs":[{"internalType":"address","name":"beneficiary","type":"address"},{"internalType":"address","name":"crowdsale","type":"address"},{"internalType":"uint256","name":"requiredSignatures","type":"uint256"},{"internalType":"address","name":"admin","type":"address"}],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[],"name":"AccessControlBadConfirmation","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"},{"internalType":"bytes32","name":"neededRole","type":"bytes32"}],"name":"AccessControlUnauthorizedAccount","type":"error"},
+  {"inputs":[],"name":"EnforcedPause","type":"error"},
+  {"inputs":[],"name":"ExpectedPause","type":"error"},
+  {"inputs":[],"name":"ReentrancyGuardReentrantCall","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"batchId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"userCount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"totalAmount","type":"uint256"}],"name":"BatchRefundProcessed","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"oldBeneficiary","type":"address"},{"indexed":true,"internalType":"address","name":"newBeneficiary","type":"address"}],"name":"BeneficiaryUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"depositor","type":"address"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"Deposited","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"admin","type":"address"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"},{"indexed":false,"internalType":"string","name":"reason","type":"string"}],"name":"EmergencyWithdraw","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Paused","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"depositor","type":"address"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"},{"indexed":false,"internalType":"string","name":"reason","type":"string"}],"name":"RefundFailed","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"depositor","type":"address"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"Refunded","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"RefundsEnabled","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"beneficiary","type":"address"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"Released","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"bytes32","name":"previousAdminRole","type":"bytes32"},{"indexed":true,"internalType":"bytes32","name":"newAdminRole","type":"bytes32"}],"name":"RoleAdminChanged","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleGranted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleRevoked","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"operation","type":"bytes32"},{"indexed":true,"internalType":"address","name":"signer","type":"address"},{"indexed":false,"internalType":"uint256","name":"currentCount","type":"uint256"}],"name":"SignatureAdded","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Unpaused","type":"event"},
+  {"stateMutability":"payable","type":"fallback"},
+  {"inputs":[],"name":"DEFAULT_ADMIN_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"EMERGENCY_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"MAX_BATCH_SIZE","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"MAX_REQUIRED_SIGNATURES","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"MIN_REQUIRED_SIGNATURES","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"VAULT_ADMIN_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"VAULT_OPERATOR_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"operation","type":"bytes32"}],"name":"addSignature","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"signer","type":"address"}],"name":"addSigner","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address[]","name":"depositors","type":"address[]"}],"name":"batchRefund","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"depositor","type":"address"}],"name":"canRefund","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"canRelease","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"currentBatchId","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"depositor","type":"address"}],"name":"deposit","outputs":[],"stateMutability":"payable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"deposits","outputs":[{"internalType":"uint256","name":"amount","type":"uint256"},{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"bool","name":"refunded","type":"bool"},{"internalType":"uint256","name":"refundAmount","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"string","name":"reason","type":"string"}],"name":"emergencyWithdraw","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"enableRefunds","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"getBeneficiary","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getCrowdsale","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"depositor","type":"address"}],"name":"getDeposit","outputs":[{"internalType":"uint256","name":"amount","type":"uint256"},{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"bool","name":"refunded","type":"bool"},{"internalType":"uint256","name":"refundAmount","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"batchId","type":"uint256"}],"name":"getRefundBatch","outputs":[{"internalType":"uint256","name":"totalAmount","type":"uint256"},{"internalType":"uint256","name":"userCount","type":"uint256"},{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"bool","name":"completed","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getRequiredSignatures","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"}],"name":"getRoleAdmin","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"operation","type":"bytes32"}],"name":"getSignatureCount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getTotalDeposited","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getTotalRefunded","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"grantRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"hasRole","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"","type":"bytes32"},{"internalType":"address","name":"","type":"address"}],"name":"hasSigned","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"signer","type":"address"}],"name":"isSigner","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"pause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"paused","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"depositor","type":"address"}],"name":"refund","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"refundBatches","outputs":[{"internalType":"uint256","name":"batchId","type":"uint256"},{"internalType":"uint256","name":"totalAmount","type":"uint256"},{"internalType":"uint256","name":"userCount","type":"uint256"},{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"bool","name":"completed","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"refundStartTime","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"release","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"signer","type":"address"}],"name":"removeSigner","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"callerConfirmation","type":"address"}],"name":"renounceRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"operation","type":"bytes32"}],"name":"resetSignatures","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"revokeRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"shouldEnableRefunds","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"name":"signatureCount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"signerCount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"signers","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"state","outputs":[{"internalType":"enum IRefundVault.VaultState","name":"","type":"uint8"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes4","name":"interfaceId","type":"bytes4"}],"name":"supportsInterface","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"unpause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"newBeneficiary","type":"address"}],"name":"updateBeneficiary","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"stateMutability":"payable","type":"receive"},
+] as const;
+
+export type RefundVaultDEFAULT_ADMIN_ROLEResult = string;
+export type RefundVaultEMERGENCY_ROLEResult = string;
+export type RefundVaultMAX_BATCH_SIZEResult = bigint;
+export type RefundVaultMAX_REQUIRED_SIGNATURESResult = bigint;
+export type RefundVaultMIN_REQUIRED_SIGNATURESResult = bigint;
+export type RefundVaultVAULT_ADMIN_ROLEResult = string;
+export type RefundVaultVAULT_OPERATOR_ROLEResult = string;
+export type RefundVaultCanRefundResult = boolean;
+export type RefundVaultCanReleaseResult = boolean;
+export type RefundVaultCurrentBatchIdResult = bigint;
+export type RefundVaultDepositsResult = [amount: bigint, timestamp: bigint, refunded: boolean, refundAmount: bigint] & { amount: bigint; timestamp: bigint; refunded: boolean; refundAmount: bigint };
+export type RefundVaultGetBeneficiaryResult = string;
+export type RefundVaultGetCrowdsaleResult = string;
+export type RefundVaultGetDepositResult = [amount: bigint, timestamp: bigint, refunded: boolean, refundAmount: bigint] & { amount: bigint; timestamp: bigint; refunded: boolean; refundAmount: bigint };
+export type RefundVaultGetRefundBatchResult = [totalAmount: bigint, userCount: bigint, timestamp: bigint, completed: boolean] & { totalAmount: bigint; userCount: bigint; timestamp: bigint; completed: boolean };
+export type RefundVaultGetRequiredSignaturesResult = bigint;
+export type RefundVaultGetRoleAdminResult = string;
+export type RefundVaultGetSignatureCountResult = bigint;
+export type RefundVaultGetTotalDepositedResult = bigint;
+export type RefundVaultGetTotalRefundedResult = bigint;
+export type RefundVaultHasRoleResult = boolean;
+export type RefundVaultHasSignedResult = boolean;
+export type RefundVaultIsSignerResult = boolean;
+export type RefundVaultPausedResult = boolean;
+export type RefundVaultRefundBatchesResult = [batchId: bigint, totalAmount: bigint, userCount: bigint, timestamp: bigint, completed: boolean] & { batchId: bigint; totalAmount: bigint; userCount: bigint; timestamp: bigint; completed: boolean };
+export type RefundVaultRefundStartTimeResult = bigint;
+export type RefundVaultShouldEnableRefundsResult = boolean;
+export type RefundVaultSignatureCountResult = bigint;
+export type RefundVaultSignerCountResult = bigint;
+export type RefundVaultSignersResult = boolean;
+export type RefundVaultStateResult = bigint;
+export type RefundVaultSupportsInterfaceResult = boolean;
+
+export interface RefundVaultBatchRefundProcessedEvent {
+  batchId: bigint;
+  userCount: bigint;
+  totalAmount: bigint;
+}
+
+export interface RefundVaultBeneficiaryUpdatedEvent {
+  oldBeneficiary: string;
+  newBeneficiary: string;
+}
+
+export interface RefundVaultDepositedEvent {
+  depositor: string;
+  amount: bigint;
+  timestamp: bigint;
+}
+
+export interface RefundVaultEmergencyWithdrawEvent {
+  admin: string;
+  amount: bigint;
+  reason: string;
+}
+
+export interface RefundVaultPausedEvent {
+  account: string;
+}
+
+export interface RefundVaultRefundFailedEvent {
+  depositor: string;
+  amount: bigint;
+  reason: string;
+}
+
+export interface RefundVaultRefundedEvent {
+  depositor: string;
+  amount: bigint;
+  timestamp: bigint;
+}
+
+export interface RefundVaultRefundsEnabledEvent {
+  timestamp: bigint;
+}
+
+export interface RefundVaultReleasedEvent {
+  beneficiary: string;
+  amount: bigint;
+  timestamp: bigint;
+}
+
+export interface RefundVaultRoleAdminChangedEvent {
+  role: string;
+  previousAdminRole: string;
+  newAdminRole: string;
+}
+
+export interface RefundVaultRoleGrantedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface RefundVaultRoleRevokedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface RefundVaultSignatureAddedEvent {
+  operation: string;
+  signer: string;
+  currentCount: bigint;
+}
+
+export interface RefundVaultUnpausedEvent {
+  account: string;
+}
+
+export type RefundVaultEventName = 'BatchRefundProcessed' | 'BeneficiaryUpdated' | 'Deposited' | 'EmergencyWithdraw' | 'Paused' | 'RefundFailed' | 'Refunded' | 'RefundsEnabled' | 'Released' | 'RoleAdminChanged' | 'RoleGranted' | 'RoleRevoked' | 'SignatureAdded' | 'Unpaused';
+
+export interface RefundVaultContract extends BaseContract {
+  connect(runner: ContractRunner | null): RefundVaultContract;
+  DEFAULT_ADMIN_ROLE: TypedContractMethod<[], RefundVaultDEFAULT_ADMIN_ROLEResult, 'view'>;
+  EMERGENCY_ROLE: TypedContractMethod<[], RefundVaultEMERGENCY_ROLEResult, 'view'>;
+  MAX_BATCH_SIZE: TypedContractMethod<[], RefundVaultMAX_BATCH_SIZEResult, 'view'>;
+  MAX_REQUIRED_SIGNATURES: TypedContractMethod<[], RefundVaultMAX_REQUIRED_SIGNATURESResult, 'view'>;
+  MIN_REQUIRED_SIGNATURES: TypedContractMethod<[], RefundVaultMIN_REQUIRED_SIGNATURESResult, 'view'>;
+  VAULT_ADMIN_ROLE: TypedContractMethod<[], RefundVaultVAULT_ADMIN_ROLEResult, 'view'>;
+  VAULT_OPERATOR_ROLE: TypedContractMethod<[], RefundVaultVAULT_OPERATOR_ROLEResult, 'view'>;
+  addSignature: TypedContractMethod<[operation: BytesLike], void, 'nonpayable'>;
+  addSigner: TypedContractMethod<[signer: AddressLike], void, 'nonpayable'>;
+  batchRefund: TypedContractMethod<[depositors: AddressLike[]], void, 'nonpayable'>;
+  canRefund: TypedContractMethod<[depositor: AddressLike], RefundVaultCanRefundResult, 'view'>;
+  canRelease: TypedContractMethod<[], RefundVaultCanReleaseResult, 'view'>;
+  currentBatchId: TypedContractMethod<[], RefundVaultCurrentBatchIdResult, 'view'>;
+  deposit: TypedContractMethod<[depositor: AddressLike], void, 'payable'>;
+  deposits: TypedContractMethod<[arg0: AddressLike], RefundVaultDepositsResult, 'view'>;
+  emergencyWithdraw: TypedContractMethod<[reason: string], void, 'nonpayable'>;
+  enableRefunds: TypedContractMethod<[], void, 'nonpayable'>;
+  getBeneficiary: TypedContractMethod<[], RefundVaultGetBeneficiaryResult, 'view'>;
+  getCrowdsale: TypedContractMethod<[], RefundVaultGetCrowdsaleResult, 'view'>;
+  getDeposit: TypedContractMethod<[depositor: AddressLike], RefundVaultGetDepositResult, 'view'>;
+  getRefundBatch: TypedContractMethod<[batchId: BigNumberish], RefundVaultGetRefundBatchResult, 'view'>;
+  getRequiredSignatures: TypedContractMethod<[], RefundVaultGetRequiredSignaturesResult, 'view'>;
+  getRoleAdmin: TypedContractMethod<[role: BytesLike], RefundVaultGetRoleAdminResult, 'view'>;
+  getSignatureCount: TypedContractMethod<[operation: BytesLike], RefundVaultGetSignatureCountResult, 'view'>;
+  getTotalDeposited: TypedContractMethod<[], RefundVaultGetTotalDepositedResult, 'view'>;
+  getTotalRefunded: TypedContractMethod<[], RefundVaultGetTotalRefundedResult, 'view'>;
+  grantRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  hasRole: TypedContractMethod<[role: BytesLike, account: AddressLike], RefundVaultHasRoleResult, 'view'>;
+  hasSigned: TypedContractMethod<[arg0: BytesLike, arg1: AddressLike], RefundVaultHasSignedResult, 'view'>;
+  isSigner: TypedContractMethod<[signer: AddressLike], RefundVaultIsSignerResult, 'view'>;
+  pause: TypedContractMethod<[], void, 'nonpayable'>;
+  paused: TypedContractMethod<[], RefundVaultPausedResult, 'view'>;
+  refund: TypedContractMethod<[depositor: AddressLike], void, 'nonpayable'>;
+  refundBatches: TypedContractMethod<[arg0: BigNumberish], RefundVaultRefundBatchesResult, 'view'>;
+  refundStartTime: TypedContractMethod<[], RefundVaultRefundStartTimeResult, 'view'>;
+  release: TypedContractMethod<[], void, 'nonpayable'>;
+  removeSigner: TypedContractMethod<[signer: AddressLike], void, 'nonpayable'>;
+  renounceRole: TypedContractMethod<[role: BytesLike, callerConfirmation: AddressLike], void, 'nonpayable'>;
+  resetSignatures: TypedContractMethod<[operation: BytesLike], void, 'nonpayable'>;
+  revokeRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  shouldEnableRefunds: TypedContractMethod<[], RefundVaultShouldEnableRefundsResult, 'view'>;
+  signatureCount: TypedContractMethod<[arg0: BytesLike], RefundVaultSignatureCountResult, 'view'>;
+  signerCount: TypedContractMethod<[], RefundVaultSignerCountResult, 'view'>;
+  signers: TypedContractMethod<[arg0: AddressLike], RefundVaultSignersResult, 'view'>;
+  state: TypedContractMethod<[], RefundVaultStateResult, 'view'>;
+  supportsInterface: TypedContractMethod<[interfaceId: BytesLike], RefundVaultSupportsInterfaceResult, 'view'>;
+  unpause: TypedContractMethod<[], void, 'nonpayable'>;
+  updateBeneficiary: TypedContractMethod<[newBeneficiary: AddressLike], void, 'nonpayable'>;
+}
+
+export const connectRefundVault = (address: string, runner?: ContractRunner | null): RefundVaultContract =>
+  new Contract(address, RefundVaultAbi, runner) as unknown as RefundVaultContract;
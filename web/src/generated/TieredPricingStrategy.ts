@@ -0,0 +1,165 @@
+// 此文件由 scripts/generate-contract-bindings.mjs 根据 Foundry 编译产物生成，请勿手动修改
+
+import { Contract } from 'ethers';
+import type { AddressLike, BaseContract, BigNumberish, BytesLike, ContractRunner } from 'ethers';
+import type { TypedContractMethod } from './common';
+import type * as Structs from './structs';
+
+// contracts/pricing/TieredPricingStrategy.sol
+export const TieredPricingStrategyAbi = [
+  {"inputs":[{"internalType":"address","name":"_crowdsale","type":"address"},{"internalType":"address","name":"_whitelistManager","type":"address"},{"internalType":"address","name":"_admin","type":"address"}],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[],"name":"AccessControlBadConfirmation","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"},{"internalType":"bytes32","name":"neededRole","type":"bytes32"}],"name":"AccessControlUnauthorizedAccount","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"oldPrice","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"newPrice","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"PriceUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"enum IPricingStrategy.PricingType","name":"pricingType","type":"uint8"},{"indexed":false,"internalType":"bytes","name":"parameters","type":"bytes"}],"name":"PricingParametersUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"bytes32","name":"previousAdminRole","type":"bytes32"},{"indexed":true,"internalType":"bytes32","name":"newAdminRole","type":"bytes32"}],"name":"RoleAdminChanged","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleGranted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleRevoked","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"tierIndex","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"price","type":"uint256"}],"name":"TierActivated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"tierIndex","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"threshold","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"price","type":"uint256"}],"name":"TierAdded","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"tierIndex","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"threshold","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"price","type":"uint256"}],"name":"TierUpdated","type":"event"},
+  {"inputs":[],"name":"BASIS_POINTS","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"DEFAULT_ADMIN_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"MAX_DISCOUNT","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"MAX_TIERS","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"PRICING_ADMIN_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"progressThreshold","type":"uint256"},{"internalType":"uint256","name":"pricePerToken","type":"uint256"}],"name":"addTier","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"weiAmount","type":"uint256"},{"internalType":"address","name":"buyer","type":"address"}],"name":"calculateTokenAmount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"crowdsale","outputs":[{"internalType":"contract ICrowdsale","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"currentTierIndex","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getAllTiers","outputs":[{"components":[{"internalType":"uint256","name":"progressThreshold","type":"uint256"},{"internalType":"uint256","name":"pricePerToken","type":"uint256"},{"internalType":"bool","name":"isActive","type":"bool"}],"internalType":"struct TieredPricingStrategy.PriceTier[]","name":"","type":"tuple[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getCurrentPrice","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getCurrentTierInfo","outputs":[{"internalType":"uint256","name":"tierIndex","type":"uint256"},{"internalType":"uint256","name":"progressThreshold","type":"uint256"},{"internalType":"uint256","name":"pricePerToken","type":"uint256"},{"internalType":"uint256","name":"currentProgress","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"buyer","type":"address"}],"name":"getDiscountForBuyer","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"buyer","type":"address"}],"name":"getPriceForBuyer","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"buyer","type":"address"}],"name":"getPricingInfo","outputs":[{"internalType":"uint256","name":"currentTierIndex_","type":"uint256"},{"internalType":"uint256","name":"basePrice","type":"uint256"},{"internalType":"uint256","name":"finalPrice","type":"uint256"},{"internalType":"uint256","name":"discount","type":"uint256"},{"internalType":"uint256","name":"progress","type":"uint256"},{"internalType":"bool","name":"isWhitelisted","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getPricingType","outputs":[{"internalType":"enum IPricingStrategy.PricingType","name":"","type":"uint8"}],"stateMutability":"pure","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"}],"name":"getRoleAdmin","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getTierCount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"grantRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"hasRole","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"buyer","type":"address"}],"name":"isEligibleForSpecialPricing","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"buyer","type":"address"},{"internalType":"uint256","name":"weiAmount","type":"uint256"}],"name":"isValidPurchase","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"priceTiers","outputs":[{"internalType":"uint256","name":"progressThreshold","type":"uint256"},{"internalType":"uint256","name":"pricePerToken","type":"uint256"},{"internalType":"bool","name":"isActive","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"callerConfirmation","type":"address"}],"name":"renounceRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"revokeRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"newPrice","type":"uint256"}],"name":"setBasePrice","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"enum IWhitelistManager.WhitelistLevel","name":"level","type":"uint8"},{"internalType":"uint256","name":"discount","type":"uint256"}],"name":"setWhitelistDiscount","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes4","name":"interfaceId","type":"bytes4"}],"name":"supportsInterface","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes","name":"parameters","type":"bytes"}],"name":"updatePricingParameters","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"tierIndex","type":"uint256"},{"internalType":"uint256","name":"progressThreshold","type":"uint256"},{"internalType":"uint256","name":"pricePerToken","type":"uint256"}],"name":"updateTier","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"enum IWhitelistManager.WhitelistLevel","name":"","type":"uint8"}],"name":"whitelistDiscounts","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"whitelistManager","outputs":[{"internalType":"contract IWhitelistManager","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+] as const;
+
+export type TieredPricingStrategyBASIS_POINTSResult = bigint;
+export type TieredPricingStrategyDEFAULT_ADMIN_ROLEResult = string;
+export type TieredPricingStrategyMAX_DISCOUNTResult = bigint;
+export type TieredPricingStrategyMAX_TIERSResult = bigint;
+export type TieredPricingStrategyPRICING_ADMIN_ROLEResult = string;
+export type TieredPricingStrategyCalculateTokenAmountResult = bigint;
+export type TieredPricingStrategyCrowdsaleResult = string;
+export type TieredPricingStrategyCurrentTierIndexResult = bigint;
+export type TieredPricingStrategyGetAllTiersResult = Structs.PriceTierStructOutput[];
+export type TieredPricingStrategyGetCurrentPriceResult = bigint;
+export type TieredPricingStrategyGetCurrentTierInfoResult = [tierIndex: bigint, progressThreshold: bigint, pricePerToken: bigint, currentProgress: bigint] & { tierIndex: bigint; progressThreshold: bigint; pricePerToken: bigint; currentProgress: bigint };
+export type TieredPricingStrategyGetDiscountForBuyerResult = bigint;
+export type TieredPricingStrategyGetPriceForBuyerResult = bigint;
+export type TieredPricingStrategyGetPricingInfoResult = [currentTierIndex_: bigint, basePrice: bigint, finalPrice: bigint, discount: bigint, progress: bigint, isWhitelisted: boolean] & { currentTierIndex_: bigint; basePrice: bigint; finalPrice: bigint; discount: bigint; progress: bigint; isWhitelisted: boolean };
+export type TieredPricingStrategyGetPricingTypeResult = bigint;
+export type TieredPricingStrategyGetRoleAdminResult = string;
+export type TieredPricingStrategyGetTierCountResult = bigint;
+export type TieredPricingStrategyHasRoleResult = boolean;
+export type TieredPricingStrategyIsEligibleForSpecialPricingResult = boolean;
+export type TieredPricingStrategyIsValidPurchaseResult = boolean;
+export type TieredPricingStrategyPriceTiersResult = [progressThreshold: bigint, pricePerToken: bigint, isActive: boolean] & { progressThreshold: bigint; pricePerToken: bigint; isActive: boolean };
+export type TieredPricingStrategySupportsInterfaceResult = boolean;
+export type TieredPricingStrategyWhitelistDiscountsResult = bigint;
+export type TieredPricingStrategyWhitelistManagerResult = string;
+
+export interface TieredPricingStrategyPriceUpdatedEvent {
+  oldPrice: bigint;
+  newPrice: bigint;
+  timestamp: bigint;
+}
+
+export interface TieredPricingStrategyPricingParametersUpdatedEvent {
+  pricingType: bigint;
+  parameters: string;
+}
+
+export interface TieredPricingStrategyRoleAdminChangedEvent {
+  role: string;
+  previousAdminRole: string;
+  newAdminRole: string;
+}
+
+export interface TieredPricingStrategyRoleGrantedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface TieredPricingStrategyRoleRevokedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface TieredPricingStrategyTierActivatedEvent {
+  tierIndex: bigint;
+  price: bigint;
+}
+
+export interface TieredPricingStrategyTierAddedEvent {
+  tierIndex: bigint;
+  threshold: bigint;
+  price: bigint;
+}
+
+export interface TieredPricingStrategyTierUpdatedEvent {
+  tierIndex: bigint;
+  threshold: bigint;
+  price: bigint;
+}
+
+export type TieredPricingStrategyEventName = 'PriceUpdated' | 'PricingParametersUpdated' | 'RoleAdminChanged' | 'RoleGranted' | 'RoleRevoked' | 'TierActivated' | 'TierAdded' | 'TierUpdated';
+
+export interface TieredPricingStrategyContract extends BaseContract {
+  connect(runner: ContractRunner | null): TieredPricingStrategyContract;
+  BASIS_POINTS: TypedContractMethod<[], TieredPricingStrategyBASIS_POINTSResult, 'view'>;
+  DEFAULT_ADMIN_ROLE: TypedContractMethod<[], TieredPricingStrategyDEFAULT_ADMIN_ROLEResult, 'view'>;
+  MAX_DISCOUNT: TypedContractMethod<[], TieredPricingStrategyMAX_DISCOUNTResult, 'view'>;
+  MAX_TIERS: TypedContractMethod<[], TieredPricingStrategyMAX_TIERSResult, 'view'>;
+  PRICING_ADMIN_ROLE: TypedContractMethod<[], TieredPricingStrategyPRICING_ADMIN_ROLEResult, 'view'>;
+  addTier: TypedContractMethod<[progressThreshold: BigNumberish, pricePerToken: BigNumberish], void, 'nonpayable'>;
+  calculateTokenAmount: TypedContractMethod<[weiAmount: BigNumberish, buyer: AddressLike], TieredPricingStrategyCalculateTokenAmountResult, 'view'>;
+  crowdsale: TypedContractMethod<[], TieredPricingStrategyCrowdsaleResult, 'view'>;
+  currentTierIndex: TypedContractMethod<[], TieredPricingStrategyCurrentTierIndexResult, 'view'>;
+  getAllTiers: TypedContractMethod<[], TieredPricingStrategyGetAllTiersResult, 'view'>;
+  getCurrentPrice: TypedContractMethod<[], TieredPricingStrategyGetCurrentPriceResult, 'view'>;
+  getCurrentTierInfo: TypedContractMethod<[], TieredPricingStrategyGetCurrentTierInfoResult, 'view'>;
+  getDiscountForBuyer: TypedContractMethod<[buyer: AddressLike], TieredPricingStrategyGetDiscountForBuyerResult, 'view'>;
+  getPriceForBuyer: TypedContractMethod<[buyer: AddressLike], TieredPricingStrategyGetPriceForBuyerResult, 'view'>;
+  getPricingInfo: TypedContractMethod<[buyer: AddressLike], TieredPricingStrategyGetPricingInfoResult, 'view'>;
+  getPricingType: TypedContractMethod<[], TieredPricingStrategyGetPricingTypeResult, 'pure'>;
+  getRoleAdmin: TypedContractMethod<[role: BytesLike], TieredPricingStrategyGetRoleAdminResult, 'view'>;
+  getTierCount: TypedContractMethod<[], TieredPricingStrategyGetTierCountResult, 'view'>;
+  grantRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  hasRole: TypedContractMethod<[role: BytesLike, account: AddressLike], TieredPricingStrategyHasRoleResult, 'view'>;
+  isEligibleForSpecialPricing: TypedContractMethod<[buyer: AddressLike], TieredPricingStrategyIsEligibleForSpecialPricingResult, 'view'>;
+  isValidPurchase: TypedContractMethod<[buyer: AddressLike, weiAmount: BigNumberish], TieredPricingStrategyIsValidPurchaseResult, 'view'>;
+  priceTiers: TypedContractMethod<[arg0: BigNumberish], TieredPricingStrategyPriceTiersResult, 'view'>;
+  renounceRole: TypedContractMethod<[role: BytesLike, callerConfirmation: AddressLike], void, 'nonpayable'>;
+  revokeRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  setBasePrice: TypedContractMethod<[newPrice: BigNumberish], void, 'nonpayable'>;
+  setWhitelistDiscount: TypedContractMethod<[level: BigNumberish, discount: BigNumberish], void, 'nonpayable'>;
+  supportsInterface: TypedContractMethod<[interfaceId: BytesLike], TieredPricingStrategySupportsInterfaceResult, 'view'>;
+  updatePricingParameters: TypedContractMethod<[parameters: BytesLike], void, 'nonpayable'>;
+  updateTier: TypedContractMethod<[tierIndex: BigNumberish, progressThreshold: BigNumberish, pricePerToken: BigNumberish], void, 'nonpayable'>;
+  whitelistDiscounts: TypedContractMethod<[arg0: BigNumberish], TieredPricingStrategyWhitelistDiscountsResult, 'view'>;
+  whitelistManager: TypedContractMethod<[], TieredPricingStrategyWhitelistManagerResult, 'view'>;
+}
+
+export const connectTieredPricingStrategy = (address: string, runner?: ContractRunner | null): TieredPricingStrategyContract =>
+  new Contract(address, TieredPricingStrategyAbi, runner) as unknown as TieredPricingStrategyContract;
@@ -0,0 +1,285 @@
+// 此文件由 scripts/generate-contract-bindings.mjs 根据 Foundry 编译产物生成，请勿手动修改
+
+import { Contract } from 'ethers';
+import type { AddressLike, BaseContract, BigNumberish, BytesLike, ContractRunner } from 'ethers';
+import type { TypedContractMethod } from './common';
+import type * as Structs from './structs';
+
+// contracts/TokenCrowdsale.sol
+export const TokenCrowdsaleAbi = [
+  {"inputs":[{"internalType":"address","name":"_token","type":"address"},{"internalType":"address","name":"_whitelistManager","type":"address"},{"internalType":"address payable","name":"_fundingWallet","type":"address"},{"internalType":"address","name":"_admin","type":"address"}],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[],"name":"AccessControlBadConfirmation","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"},{"internalType":"bytes32","name":"neededRole","type":"bytes32"}],"name":"AccessControlUnauthorizedAccount","type":"error"},
+  {"inputs":[],"name":"EnforcedPause","type":"error"},
+  {"inputs":[],"name":"ExpectedPause","type":"error"},
+  {"inputs":[],"name":"ReentrancyGuardReentrantCall","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"string","name":"capType","type":"string"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"CapReached","type":"event"},
+  {"anonymous":false,"inputs":[{"components":[{"internalType":"uint256","name":"presaleStartTime","type":"uint256"},{"internalType":"uint256","name":"presaleEndTime","type":"uint256"},{"internalType":"uint256","name":"publicSaleStartTime","type":"uint256"},{"internalType":"uint256","name":"publicSaleEndTime","type":"uint256"},{"internalType":"uint256","name":"softCap","type":"uint256"},{"internalType":"uint256","name":"hardCap","type":"uint256"},{"internalType":"uint256","name":"minPurchase","type":"uint256"},{"internalType":"uint256","name":"maxPurchase","type":"uint256"}],"indexed":false,"internalType":"struct ICrowdsale.CrowdsaleConfig","name":"config","type":"tuple"},{"indexed":true,"internalType":"address","name":"updatedBy","type":"address"}],"name":"ConfigUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"admin","type":"address"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"CrowdsaleInitialized","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"string","name":"action","type":"string"},{"indexed":true,"internalType":"address","name":"executor","type":"address"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"},{"indexed":false,"internalType":"string","name":"reason","type":"string"}],"name":"EmergencyAction","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"oldWallet","type":"address"},{"indexed":true,"internalType":"address","name":"newWallet","type":"address"},{"indexed":true,"internalType":"address","name":"updatedBy","type":"address"}],"name":"FundingWalletUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Paused","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"enum ICrowdsale.CrowdsalePhase","name":"previousPhase","type":"uint8"},{"indexed":true,"internalType":"enum ICrowdsale.CrowdsalePhase","name":"newPhase","type":"uint8"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"},{"indexed":true,"internalType":"address","name":"changedBy","type":"address"}],"name":"PhaseChanged","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"newStrategy","type":"address"},{"indexed":true,"internalType":"address","name":"updatedBy","type":"address"}],"name":"PricingStrategyUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"refundVault","type":"address"},{"indexed":true,"internalType":"address","name":"updatedBy","type":"address"}],"name":"RefundVaultUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"bytes32","name":"previousAdminRole","type":"bytes32"},{"indexed":true,"internalType":"bytes32","name":"newAdminRole","type":"bytes32"}],"name":"RoleAdminChanged","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleGranted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleRevoked","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"buyer","type":"address"},{"indexed":false,"internalType":"uint256","name":"weiAmount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"tokenAmount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"TokensPurchased","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Unpaused","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"bool","name":"enabled","type":"bool"},{"indexed":false,"internalType":"uint256","name":"cliffDuration","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"vestingDuration","type":"uint256"},{"indexed":true,"internalType":"address","name":"updatedBy","type":"address"}],"name":"VestingConfigUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"newVestingContract","type":"address"},{"indexed":true,"internalType":"address","name":"updatedBy","type":"address"}],"name":"VestingContractUpdated","type":"event"},
+  {"inputs":[],"name":"DEFAULT_ADMIN_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"PURCHASE_COOLDOWN","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address[]","name":"buyers","type":"address[]"},{"internalType":"uint256[]","name":"weiAmounts","type":"uint256[]"}],"name":"batchPurchase","outputs":[],"stateMutability":"payable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"weiAmount","type":"uint256"},{"internalType":"address","name":"buyer","type":"address"}],"name":"calculateTokenAmount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"buyer","type":"address"},{"internalType":"uint256","name":"weiAmount","type":"uint256"}],"name":"canPurchase","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"config","outputs":[{"internalType":"uint256","name":"presaleStartTime","type":"uint256"},{"internalType":"uint256","name":"presaleEndTime","type":"uint256"},{"internalType":"uint256","name":"publicSaleStartTime","type":"uint256"},{"internalType":"uint256","name":"publicSaleEndTime","type":"uint256"},{"internalType":"uint256","name":"softCap","type":"uint256"},{"internalType":"uint256","name":"hardCap","type":"uint256"},{"internalType":"uint256","name":"minPurchase","type":"uint256"},{"internalType":"uint256","name":"maxPurchase","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"currentPhase","outputs":[{"internalType":"enum ICrowdsale.CrowdsalePhase","name":"","type":"uint8"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"string","name":"reason","type":"string"}],"name":"emergencyPause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"emergencyPauseStartTime","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"string","name":"reason","type":"string"}],"name":"emergencyResume","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"finalizeCrowdsale","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"fundingWallet","outputs":[{"internalType":"address payable","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getCrowdsaleConfig","outputs":[{"components":[{"internalType":"uint256","name":"presaleStartTime","type":"uint256"},{"internalType":"uint256","name":"presaleEndTime","type":"uint256"},{"internalType":"uint256","name":"publicSaleStartTime","type":"uint256"},{"internalType":"uint256","name":"publicSaleEndTime","type":"uint256"},{"internalType":"uint256","name":"softCap","type":"uint256"},{"internalType":"uint256","name":"hardCap","type":"uint256"},{"internalType":"uint256","name":"minPurchase","type":"uint256"},{"internalType":"uint256","name":"maxPurchase","type":"uint256"}],"internalType":"struct ICrowdsale.CrowdsaleConfig","name":"","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getCrowdsaleStats","outputs":[{"components":[{"internalType":"uint256","name":"totalRaised","type":"uint256"},{"internalType":"uint256","name":"totalTokensSold","type":"uint256"},{"internalType":"uint256","name":"totalPurchases","type":"uint256"},{"internalType":"uint256","name":"totalParticipants","type":"uint256"},{"internalType":"uint256","name":"participantCount","type":"uint256"},{"internalType":"uint256","name":"presaleRaised","type":"uint256"},{"internalType":"uint256","name":"publicSaleRaised","type":"uint256"}],"internalType":"struct ICrowdsale.CrowdsaleStats","name":"","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getCurrentPhase","outputs":[{"internalType":"enum ICrowdsale.CrowdsalePhase","name":"","type":"uint8"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getCurrentTokenPrice","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getFundingProgress","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getRemainingFunding","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getRemainingTokens","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"}],"name":"getRoleAdmin","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"getTokenPriceForUser","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"getUserPurchaseHistory","outputs":[{"components":[{"internalType":"uint256","name":"weiAmount","type":"uint256"},{"internalType":"uint256","name":"tokenAmount","type":"uint256"},{"internalType":"uint256","name":"price","type":"uint256"},{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"enum IPricingStrategy.PricingType","name":"pricingType","type":"uint8"},{"internalType":"bool","name":"isWhitelistPurchase","type":"bool"}],"internalType":"struct TokenCrowdsale.PurchaseRecord[]","name":"","type":"tuple[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"getUserTotalPurchased","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"grantRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"hasParticipated","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"hasRole","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"_user","type":"address"}],"name":"hasUserParticipated","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"isHardCapReached","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"isInValidTimeWindow","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"isSoftCapReached","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"lastConfigUpdateTime","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"lastPurchaseTime","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"paused","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"pricingStrategy","outputs":[{"internalType":"contract IPricingStrategy","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"},{"internalType":"uint256","name":"","type":"uint256"}],"name":"purchaseHistory","outputs":[{"internalType":"uint256","name":"weiAmount","type":"uint256"},{"internalType":"uint256","name":"tokenAmount","type":"uint256"},{"internalType":"uint256","name":"price","type":"uint256"},{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"enum IPricingStrategy.PricingType","name":"pricingType","type":"uint8"},{"internalType":"bool","name":"isWhitelistPurchase","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"purchaseTokens","outputs":[],"stateMutability":"payable","type":"function"},
+  {"inputs":[],"name":"refundVault","outputs":[{"internalType":"contract IRefundVault","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"callerConfirmation","type":"address"}],"name":"renounceRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"revokeRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"_pricingStrategy","type":"address"}],"name":"setPricingStrategy","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"_refundVault","type":"address"}],"name":"setRefundVault","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bool","name":"_enabled","type":"bool"},{"internalType":"uint256","name":"_cliffDuration","type":"uint256"},{"internalType":"uint256","name":"_vestingDuration","type":"uint256"},{"internalType":"enum ITokenVesting.VestingType","name":"_vestingType","type":"uint8"},{"internalType":"uint256","name":"_immediateReleasePercentage","type":"uint256"}],"name":"setVestingConfig","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"_vestingContract","type":"address"}],"name":"setVestingContract","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"startPresale","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"startPublicSale","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"stats","outputs":[{"internalType":"uint256","name":"totalRaised","type":"uint256"},{"internalType":"uint256","name":"totalTokensSold","type":"uint256"},{"internalType":"uint256","name":"totalPurchases","type":"uint256"},{"internalType":"uint256","name":"totalParticipants","type":"uint256"},{"internalType":"uint256","name":"participantCount","type":"uint256"},{"internalType":"uint256","name":"presaleRaised","type":"uint256"},{"internalType":"uint256","name":"publicSaleRaised","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes4","name":"interfaceId","type":"bytes4"}],"name":"supportsInterface","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"token","outputs":[{"internalType":"contract CrowdsaleToken","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"totalPurchased","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"components":[{"internalType":"uint256","name":"presaleStartTime","type":"uint256"},{"internalType":"uint256","name":"presaleEndTime","type":"uint256"},{"internalType":"uint256","name":"publicSaleStartTime","type":"uint256"},{"internalType":"uint256","name":"publicSaleEndTime","type":"uint256"},{"internalType":"uint256","name":"softCap","type":"uint256"},{"internalType":"uint256","name":"hardCap","type":"uint256"},{"internalType":"uint256","name":"minPurchase","type":"uint256"},{"internalType":"uint256","name":"maxPurchase","type":"uint256"}],"internalType":"struct ICrowdsale.CrowdsaleConfig","name":"_config","type":"tuple"}],"name":"updateConfig","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_softCap","type":"uint256"},{"internalType":"uint256","name":"_hardCap","type":"uint256"}],"name":"updateFundingTargets","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address payable","name":"_newWallet","type":"address"}],"name":"updateFundingWallet","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_minPurchase","type":"uint256"},{"internalType":"uint256","name":"_maxPurchase","type":"uint256"}],"name":"updatePurchaseLimits","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_presaleStartTime","type":"uint256"},{"internalType":"uint256","name":"_presaleEndTime","type":"uint256"},{"internalType":"uint256","name":"_publicSaleStartTime","type":"uint256"},{"internalType":"uint256","name":"_publicSaleEndTime","type":"uint256"}],"name":"updateTimeConfig","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"vestingConfig","outputs":[{"internalType":"bool","name":"enabled","type":"bool"},{"internalType":"uint256","name":"cliffDuration","type":"uint256"},{"internalType":"uint256","name":"vestingDuration","type":"uint256"},{"internalType":"enum ITokenVesting.VestingType","name":"vestingType","type":"uint8"},{"internalType":"uint256","name":"immediateReleasePercentage","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"vestingContract","outputs":[{"internalType":"contract ITokenVesting","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"whitelistManager","outputs":[{"internalType":"contract IWhitelistManager","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+] as const;
+
+export type TokenCrowdsaleDEFAULT_ADMIN_ROLEResult = string;
+export type TokenCrowdsalePURCHASE_COOLDOWNResult = bigint;
+export type TokenCrowdsaleCalculateTokenAmountResult = bigint;
+export type TokenCrowdsaleCanPurchaseResult = boolean;
+export type TokenCrowdsaleConfigResult = [presaleStartTime: bigint, presaleEndTime: bigint, publicSaleStartTime: bigint, publicSaleEndTime: bigint, softCap: bigint, hardCap: bigint, minPurchase: bigint, maxPurchase: bigint] & { presaleStartTime: bigint; presaleEndTime: bigint; publicSaleStartTime: bigint; publicSaleEndTime: bigint; softCap: bigint; hardCap: bigint; minPurchase: bigint; maxPurchase: bigint };
+export type TokenCrowdsaleCurrentPhaseResult = bigint;
+export type TokenCrowdsaleEmergencyPauseStartTimeResult = bigint;
+export type TokenCrowdsaleFundingWalletResult = string;
+export type TokenCrowdsaleGetCrowdsaleConfigResult = Structs.CrowdsaleConfigStructOutput;
+export type TokenCrowdsaleGetCrowdsaleStatsResult = Structs.CrowdsaleStatsStructOutput;
+export type TokenCrowdsaleGetCurrentPhaseResult = bigint;
+export type TokenCrowdsaleGetCurrentTokenPriceResult = bigint;
+export type TokenCrowdsaleGetFundingProgressResult = bigint;
+export type TokenCrowdsaleGetRemainingFundingResult = bigint;
+export type TokenCrowdsaleGetRemainingTokensResult = bigint;
+export type TokenCrowdsaleGetRoleAdminResult = string;
+export type TokenCrowdsaleGetTokenPriceForUserResult = bigint;
+export type TokenCrowdsaleGetUserPurchaseHistoryResult = Structs.PurchaseRecordStructOutput[];
+export type TokenCrowdsaleGetUserTotalPurchasedResult = bigint;
+export type TokenCrowdsaleHasParticipatedResult = boolean;
+export type TokenCrowdsaleHasRoleResult = boolean;
+export type TokenCrowdsaleHasUserParticipatedResult = boolean;
+export type TokenCrowdsaleIsHardCapReachedResult = boolean;
+export type TokenCrowdsaleIsInValidTimeWindowResult = boolean;
+export type TokenCrowdsaleIsSoftCapReachedResult = boolean;
+export type TokenCrowdsaleLastConfigUpdateTimeResult = bigint;
+export type TokenCrowdsaleLastPurchaseTimeResult = bigint;
+export type TokenCrowdsalePausedResult = boolean;
+export type TokenCrowdsalePricingStrategyResult = string;
+export type TokenCrowdsalePurchaseHistoryResult = [weiAmount: bigint, tokenAmount: bigint, price: bigint, timestamp: bigint, pricingType: bigint, isWhitelistPurchase: boolean] & { weiAmount: bigint; tokenAmount: bigint; price: bigint; timestamp: bigint; pricingType: bigint; isWhitelistPurchase: boolean };
+export type TokenCrowdsaleRefundVaultResult = string;
+export type TokenCrowdsaleStatsResult = [totalRaised: bigint, totalTokensSold: bigint, totalPurchases: bigint, totalParticipants: bigint, participantCount: bigint, presaleRaised: bigint, publicSaleRaised: bigint] & { totalRaised: bigint; totalTokensSold: bigint; totalPurchases: bigint; totalParticipants: bigint; participantCount: bigint; presaleRaised: bigint; publicSaleRaised: bigint };
+export type TokenCrowdsaleSupportsInterfaceResult = boolean;
+export type TokenCrowdsaleTokenResult = string;
+export type TokenCrowdsaleTotalPurchasedResult = bigint;
+export type TokenCrowdsaleVestingConfigResult = [enabled: boolean, cliffDuration: bigint, vestingDuration: bigint, vestingType: bigint, immediateReleasePercentage: bigint] & { enabled: boolean; cliffDuration: bigint; vestingDuration: bigint; vestingType: bigint; immediateReleasePercentage: bigint };
+export type TokenCrowdsaleVestingContractResult = string;
+export type TokenCrowdsaleWhitelistManagerResult = string;
+
+export interface TokenCrowdsaleCapReachedEvent {
+  capType: string;
+  amount: bigint;
+  timestamp: bigint;
+}
+
+export interface TokenCrowdsaleConfigUpdatedEvent {
+  config: Structs.CrowdsaleConfigStructOutput;
+  updatedBy: string;
+}
+
+export interface TokenCrowdsaleCrowdsaleInitializedEvent {
+  admin: string;
+  timestamp: bigint;
+}
+
+export interface TokenCrowdsaleEmergencyActionEvent {
+  action: string;
+  executor: string;
+  timestamp: bigint;
+  reason: string;
+}
+
+export interface TokenCrowdsaleFundingWalletUpdatedEvent {
+  oldWallet: string;
+  newWallet: string;
+  updatedBy: string;
+}
+
+export interface TokenCrowdsalePausedEvent {
+  account: string;
+}
+
+export interface TokenCrowdsalePhaseChangedEvent {
+  previousPhase: bigint;
+  newPhase: bigint;
+  timestamp: bigint;
+  changedBy: string;
+}
+
+export interface TokenCrowdsalePricingStrategyUpdatedEvent {
+  newStrategy: string;
+  updatedBy: string;
+}
+
+export interface TokenCrowdsaleRefundVaultUpdatedEvent {
+  refundVault: string;
+  updatedBy: string;
+}
+
+export interface TokenCrowdsaleRoleAdminChangedEvent {
+  role: string;
+  previousAdminRole: string;
+  newAdminRole: string;
+}
+
+export interface TokenCrowdsaleRoleGrantedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface TokenCrowdsaleRoleRevokedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface TokenCrowdsaleTokensPurchasedEvent {
+  buyer: string;
+  weiAmount: bigint;
+  tokenAmount: bigint;
+  timestamp: bigint;
+}
+
+export interface TokenCrowdsaleUnpausedEvent {
+  account: string;
+}
+
+export interface TokenCrowdsaleVestingConfigUpdatedEvent {
+  enabled: boolean;
+  cliffDuration: bigint;
+  vestingDuration: bigint;
+  updatedBy: string;
+}
+
+export interface TokenCrowdsaleVestingContractUpdatedEvent {
+  newVestingContract: string;
+  updatedBy: string;
+}
+
+export type TokenCrowdsaleEventName = 'CapReached' | 'ConfigUpdated' | 'CrowdsaleInitialized' | 'EmergencyAction' | 'FundingWalletUpdated' | 'Paused' | 'PhaseChanged' | 'PricingStrategyUpdated' | 'RefundVaultUpdated' | 'RoleAdminChanged' | 'RoleGranted' | 'RoleRevoked' | 'TokensPurchased' | 'Unpaused' | 'VestingConfigUpdated' | 'VestingContractUpdated';
+
+export interface TokenCrowdsaleContract extends BaseContract {
+  connect(runner: ContractRunner | null): TokenCrowdsaleContract;
+  DEFAULT_ADMIN_ROLE: TypedContractMethod<[], TokenCrowdsaleDEFAULT_ADMIN_ROLEResult, 'view'>;
+  PURCHASE_COOLDOWN: TypedContractMethod<[], TokenCrowdsalePURCHASE_COOLDOWNResult, 'view'>;
+  batchPurchase: TypedContractMethod<[buyers: AddressLike[], weiAmounts: BigNumberish[]], void, 'payable'>;
+  calculateTokenAmount: TypedContractMethod<[weiAmount: BigNumberish, buyer: AddressLike], TokenCrowdsaleCalculateTokenAmountResult, 'view'>;
+  canPurchase: TypedContractMethod<[buyer: AddressLike, weiAmount: BigNumberish], TokenCrowdsaleCanPurchaseResult, 'view'>;
+  config: TypedContractMethod<[], TokenCrowdsaleConfigResult, 'view'>;
+  currentPhase: TypedContractMethod<[], TokenCrowdsaleCurrentPhaseResult, 'view'>;
+  emergencyPause: TypedContractMethod<[reason: string], void, 'nonpayable'>;
+  emergencyPauseStartTime: TypedContractMethod<[], TokenCrowdsaleEmergencyPauseStartTimeResult, 'view'>;
+  emergencyResume: TypedContractMethod<[reason: string], void, 'nonpayable'>;
+  finalizeCrowdsale: TypedContractMethod<[], void, 'nonpayable'>;
+  fundingWallet: TypedContractMethod<[], TokenCrowdsaleFundingWalletResult, 'view'>;
+  getCrowdsaleConfig: TypedContractMethod<[], TokenCrowdsaleGetCrowdsaleConfigResult, 'view'>;
+  getCrowdsaleStats: TypedContractMethod<[], TokenCrowdsaleGetCrowdsaleStatsResult, 'view'>;
+  getCurrentPhase: TypedContractMethod<[], TokenCrowdsaleGetCurrentPhaseResult, 'view'>;
+  getCurrentTokenPrice: TypedContractMethod<[], TokenCrowdsaleGetCurrentTokenPriceResult, 'view'>;
+  getFundingProgress: TypedContractMethod<[], TokenCrowdsaleGetFundingProgressResult, 'view'>;
+  getRemainingFunding: TypedContractMethod<[], TokenCrowdsaleGetRemainingFundingResult, 'view'>;
+  getRemainingTokens: TypedContractMethod<[], TokenCrowdsaleGetRemainingTokensResult, 'view'>;
+  getRoleAdmin: TypedContractMethod<[role: BytesLike], TokenCrowdsaleGetRoleAdminResult, 'view'>;
+  getTokenPriceForUser: TypedContractMethod<[user: AddressLike], TokenCrowdsaleGetTokenPriceForUserResult, 'view'>;
+  getUserPurchaseHistory: TypedContractMethod<[user: AddressLike], TokenCrowdsaleGetUserPurchaseHistoryResult, 'view'>;
+  getUserTotalPurchased: TypedContractMethod<[user: AddressLike], TokenCrowdsaleGetUserTotalPurchasedResult, 'view'>;
+  grantRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  hasParticipated: TypedContractMethod<[arg0: AddressLike], TokenCrowdsaleHasParticipatedResult, 'view'>;
+  hasRole: TypedContractMethod<[role: BytesLike, account: AddressLike], TokenCrowdsaleHasRoleResult, 'view'>;
+  hasUserParticipated: TypedContractMethod<[_user: AddressLike], TokenCrowdsaleHasUserParticipatedResult, 'view'>;
+  isHardCapReached: TypedContractMethod<[], TokenCrowdsaleIsHardCapReachedResult, 'view'>;
+  isInValidTimeWindow: TypedContractMethod<[], TokenCrowdsaleIsInValidTimeWindowResult, 'view'>;
+  isSoftCapReached: TypedContractMethod<[], TokenCrowdsaleIsSoftCapReachedResult, 'view'>;
+  lastConfigUpdateTime: TypedContractMethod<[], TokenCrowdsaleLastConfigUpdateTimeResult, 'view'>;
+  lastPurchaseTime: TypedContractMethod<[arg0: AddressLike], TokenCrowdsaleLastPurchaseTimeResult, 'view'>;
+  paused: TypedContractMethod<[], TokenCrowdsalePausedResult, 'view'>;
+  pricingStrategy: TypedContractMethod<[], TokenCrowdsalePricingStrategyResult, 'view'>;
+  purchaseHistory: TypedContractMethod<[arg0: AddressLike, arg1: BigNumberish], TokenCrowdsalePurchaseHistoryResult, 'view'>;
+  purchaseTokens: TypedContractMethod<[], void, 'payable'>;
+  refundVault: TypedContractMethod<[], TokenCrowdsaleRefundVaultResult, 'view'>;
+  renounceRole: TypedContractMethod<[role: BytesLike, callerConfirmation: AddressLike], void, 'nonpayable'>;
+  revokeRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  setPricingStrategy: TypedContractMethod<[_pricingStrategy: AddressLike], void, 'nonpayable'>;
+  setRefundVault: TypedContractMethod<[_refundVault: AddressLike], void, 'nonpayable'>;
+  setVestingConfig: TypedContractMethod<[_enabled: boolean, _cliffDuration: BigNumberish, _vestingDuration: BigNumberish, _vestingType: BigNumberish, _immediateReleasePercentage: BigNumberish], void, 'nonpayable'>;
+  setVestingContract: TypedContractMethod<[_vestingContract: AddressLike], void, 'nonpayable'>;
+  startPresale: TypedContractMethod<[], void, 'nonpayable'>;
+  startPublicSale: TypedContractMethod<[], void, 'nonpayable'>;
+  stats: TypedContractMethod<[], TokenCrowdsaleStatsResult, 'view'>;
+  supportsInterface: TypedContractMethod<[interfaceId: BytesLike], TokenCrowdsaleSupportsInterfaceResult, 'view'>;
+  token: TypedContractMethod<[], TokenCrowdsaleTokenResult, 'view'>;
+  totalPurchased: TypedContractMethod<[arg0: AddressLike], TokenCrowdsaleTotalPurchasedResult, 'view'>;
+  updateConfig: TypedContractMethod<[_config: Structs.CrowdsaleConfigStruct], void, 'nonpayable'>;
+  updateFundingTargets: TypedContractMethod<[_softCap: BigNumberish, _hardCap: BigNumberish], void, 'nonpayable'>;
+  updateFundingWallet: TypedContractMethod<[_newWallet: AddressLike], void, 'nonpayable'>;
+  updatePurchaseLimits: TypedContractMethod<[_minPurchase: BigNumberish, _maxPurchase: BigNumberish], void, 'nonpayable'>;
+  updateTimeConfig: TypedContractMethod<[_presaleStartTime: BigNumberish, _presaleEndTime: BigNumberish, _publicSaleStartTime: BigNumberish, _publicSaleEndTime: BigNumberish], void, 'nonpayable'>;
+  vestingConfig: TypedContractMethod<[], TokenCrowdsaleVestingConfigResult, 'view'>;
+  vestingContract: TypedContractMethod<[], TokenCrowdsaleVestingContractResult, 'view'>;
+  whitelistManager: TypedContractMethod<[], TokenCrowdsaleWhitelistManagerResult, 'view'>;
+}
+
+export const connectTokenCrowdsale = (address: string, runner?: ContractRunner | null): TokenCrowdsaleContract =>
+  new Contract(address, TokenCrowdsaleAbi, runner) as unknown as TokenCrowdsaleContract;
@@ -0,0 +1,221 @@
+// 此文件由 scripts/generate-contract-bindings.mjs 根据 Foundry 编译产物生成，请勿手动修改
+
+import { Contract } from 'ethers';
+import type { AddressLike, BaseContract, BigNumberish, BytesLike, ContractRunner } from 'ethers';
+import type { TypedContractMethod } from './common';
+
+// contracts/TokenVesting.sol
+export const TokenVestingAbi = [
+  {"inputs":[{"internalType":"address","name":"_token","type":"address"},{"internalType":"address","name":"_admin","type":"address"}],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[],"name":"AccessControlBadConfirmation","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"},{"internalType":"bytes32","name":"neededRole","type":"bytes32"}],"name":"AccessControlUnauthorizedAccount","type":"error"},
+  {"inputs":[{"internalType":"address","name":"target","type":"address"}],"name":"AddressEmptyCode","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"AddressInsufficientBalance","type":"error"},
+  {"inputs":[],"name":"EnforcedPause","type":"error"},
+  {"inputs":[],"name":"ExpectedPause","type":"error"},
+  {"inputs":[],"name":"FailedInnerCall","type":"error"},
+  {"inputs":[],"name":"ReentrancyGuardReentrantCall","type":"error"},
+  {"inputs":[{"internalType":"address","name":"token","type":"address"}],"name":"SafeERC20FailedOperation","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"operator","type":"address"},{"indexed":false,"internalType":"uint256","name":"scheduleCount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"totalAmount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"BatchReleaseProcessed","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"scheduleId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"milestoneIndex","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"releasedAmount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"MilestoneAchieved","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Paused","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"bytes32","name":"previousAdminRole","type":"bytes32"},{"indexed":true,"internalType":"bytes32","name":"newAdminRole","type":"bytes32"}],"name":"RoleAdminChanged","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleGranted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleRevoked","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"beneficiary","type":"address"},{"indexed":true,"internalType":"uint256","name":"scheduleId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"TokensReleased","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Unpaused","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"beneficiary","type":"address"},{"indexed":true,"internalType":"uint256","name":"scheduleId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"unvestedAmount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"VestingRevoked","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"beneficiary","type":"address"},{"indexed":true,"internalType":"uint256","name":"scheduleId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"totalAmount","type":"uint256"},{"indexed":false,"internalType":"enum ITokenVesting.VestingType","name":"vestingType","type":"uint8"},{"indexed":false,"internalType":"uint256","name":"startTime","type":"uint256"}],"name":"VestingScheduleCreated","type":"event"},
+  {"inputs":[],"name":"BASIS_POINTS","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"DEFAULT_ADMIN_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"MAX_BATCH_SIZE","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"MAX_SCHEDULES_PER_BENEFICIARY","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"MILESTONE_MANAGER_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"VESTING_ADMIN_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"VESTING_OPERATOR_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"scheduleId","type":"uint256"},{"internalType":"uint256","name":"milestoneIndex","type":"uint256"}],"name":"achieveMilestone","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"scheduleId","type":"uint256"},{"internalType":"string","name":"description","type":"string"},{"internalType":"uint256","name":"percentage","type":"uint256"}],"name":"addMilestone","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256[]","name":"scheduleIds","type":"uint256[]"}],"name":"batchRelease","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"beneficiaryReleasedAmount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"},{"internalType":"uint256","name":"","type":"uint256"}],"name":"beneficiarySchedules","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"beneficiaryTotalAmount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"beneficiary","type":"address"},{"internalType":"uint256","name":"totalAmount","type":"uint256"},{"internalType":"uint256","name":"startTime","type":"uint256"},{"internalType":"uint256","name":"cliffDuration","type":"uint256"},{"internalType":"uint256","name":"vestingDuration","type":"uint256"},{"internalType":"enum ITokenVesting.VestingType","name":"vestingType","type":"uint8"},{"internalType":"bool","name":"revocable","type":"bool"}],"name":"createVestingSchedule","outputs":[{"internalType":"uint256","name":"scheduleId","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"emergencyWithdraw","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"beneficiary","type":"address"}],"name":"getBeneficiaryReleasedAmount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"beneficiary","type":"address"}],"name":"getBeneficiarySchedules","outputs":[{"internalType":"uint256[]","name":"","type":"uint256[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"beneficiary","type":"address"}],"name":"getBeneficiaryTotalAmount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"scheduleId","type":"uint256"},{"internalType":"uint256","name":"milestoneIndex","type":"uint256"}],"name":"getMilestone","outputs":[{"internalType":"string","name":"description","type":"string"},{"internalType":"uint256","name":"percentage","type":"uint256"},{"internalType":"bool","name":"achieved","type":"bool"},{"internalType":"uint256","name":"achievedTime","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"scheduleId","type":"uint256"}],"name":"getMilestoneCount","outputs":[{"internalType":"uint256","name":"count","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"scheduleId","type":"uint256"}],"name":"getReleasableAmount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"}],"name":"getRoleAdmin","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getTotalReleasedAmount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getTotalVestingAmount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"scheduleId","type":"uint256"}],"name":"getVestedAmount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"scheduleId","type":"uint256"}],"name":"getVestingSchedule","outputs":[{"internalType":"address","name":"beneficiary","type":"address"},{"internalType":"uint256","name":"totalAmount","type":"uint256"},{"internalType":"uint256","name":"startTime","type":"uint256"},{"internalType":"uint256","name":"cliffDuration","type":"uint256"},{"internalType":"uint256","name":"vestingDuration","type":"uint256"},{"internalType":"uint256","name":"releasedAmount","type":"uint256"},{"internalType":"enum ITokenVesting.VestingType","name":"vestingType","type":"uint8"},{"internalType":"bool","name":"revocable","type":"bool"},{"internalType":"bool","name":"revoked","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"scheduleId","type":"uint256"},{"internalType":"uint256","name":"stepIndex","type":"uint256"}],"name":"getVestingStep","outputs":[{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"uint256","name":"percentage","type":"uint256"},{"internalType":"bool","name":"released","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"grantRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"hasRole","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"},{"internalType":"uint256","name":"","type":"uint256"}],"name":"milestones","outputs":[{"internalType":"string","name":"description","type":"string"},{"internalType":"uint256","name":"percentage","type":"uint256"},{"internalType":"bool","name":"achieved","type":"bool"},{"internalType":"uint256","name":"achievedTime","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"nextScheduleId","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"pause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"paused","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"scheduleId","type":"uint256"}],"name":"release","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"callerConfirmation","type":"address"}],"name":"renounceRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"revokeRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"scheduleId","type":"uint256"}],"name":"revokeVesting","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes4","name":"interfaceId","type":"bytes4"}],"name":"supportsInterface","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"token","outputs":[{"internalType":"contract IERC20","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"totalReleasedAmount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"totalVestingAmount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"unpause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"vestingSchedules","outputs":[{"internalType":"address","name":"beneficiary","type":"address"},{"internalType":"uint256","name":"totalAmount","type":"uint256"},{"internalType":"uint256","name":"startTime","type":"uint256"},{"internalType":"uint256","name":"cliffDuration","type":"uint256"},{"internalType":"uint256","name":"vestingDuration","type":"uint256"},{"internalType":"uint256","name":"releasedAmount","type":"uint256"},{"internalType":"enum ITokenVesting.VestingType","name":"vestingType","type":"uint8"},{"internalType":"bool","name":"revocable","type":"bool"},{"internalType":"bool","name":"revoked","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"},{"internalType":"uint256","name":"","type":"uint256"}],"name":"vestingSteps","outputs":[{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"uint256","name":"percentage","type":"uint256"},{"internalType":"bool","name":"released","type":"bool"}],"stateMutability":"view","type":"function"},
+] as const;
+
+export type TokenVestingBASIS_POINTSResult = bigint;
+export type TokenVestingDEFAULT_ADMIN_ROLEResult = string;
+export type TokenVestingMAX_BATCH_SIZEResult = bigint;
+export type TokenVestingMAX_SCHEDULES_PER_BENEFICIARYResult = bigint;
+export type TokenVestingMILESTONE_MANAGER_ROLEResult = string;
+export type TokenVestingVESTING_ADMIN_ROLEResult = string;
+export type TokenVestingVESTING_OPERATOR_ROLEResult = string;
+export type TokenVestingBeneficiaryReleasedAmountResult = bigint;
+export type TokenVestingBeneficiarySchedulesResult = bigint;
+export type TokenVestingBeneficiaryTotalAmountResult = bigint;
+export type TokenVestingGetBeneficiaryReleasedAmountResult = bigint;
+export type TokenVestingGetBeneficiarySchedulesResult = bigint[];
+export type TokenVestingGetBeneficiaryTotalAmountResult = bigint;
+export type TokenVestingGetMilestoneResult = [description: string, percentage: bigint, achieved: boolean, achievedTime: bigint] & { description: string; percentage: bigint; achieved: boolean; achievedTime: bigint };
+export type TokenVestingGetMilestoneCountResult = bigint;
+export type TokenVestingGetReleasableAmountResult = bigint;
+export type TokenVestingGetRoleAdminResult = string;
+export type TokenVestingGetTotalReleasedAmountResult = bigint;
+export type TokenVestingGetTotalVestingAmountResult = bigint;
+export type TokenVestingGetVestedAmountResult = bigint;
+export type TokenVestingGetVestingScheduleResult = [beneficiary: string, totalAmount: bigint, startTime: bigint, cliffDuration: bigint, vestingDuration: bigint, releasedAmount: bigint, vestingType: bigint, revocable: boolean, revoked: boolean] & { beneficiary: string; totalAmount: bigint; startTime: bigint; cliffDuration: bigint; vestingDuration: bigint; releasedAmount: bigint; vestingType: bigint; revocable: boolean; revoked: boolean };
+export type TokenVestingGetVestingStepResult = [timestamp: bigint, percentage: bigint, released: boolean] & { timestamp: bigint; percentage: bigint; released: boolean };
+export type TokenVestingHasRoleResult = boolean;
+export type TokenVestingMilestonesResult = [description: string, percentage: bigint, achieved: boolean, achievedTime: bigint] & { description: string; percentage: bigint; achieved: boolean; achievedTime: bigint };
+export type TokenVestingNextScheduleIdResult = bigint;
+export type TokenVestingPausedResult = boolean;
+export type TokenVestingSupportsInterfaceResult = boolean;
+export type TokenVestingTokenResult = string;
+export type TokenVestingTotalReleasedAmountResult = bigint;
+export type TokenVestingTotalVestingAmountResult = bigint;
+export type TokenVestingVestingSchedulesResult = [beneficiary: string, totalAmount: bigint, startTime: bigint, cliffDuration: bigint, vestingDuration: bigint, releasedAmount: bigint, vestingType: bigint, revocable: boolean, revoked: boolean] & { beneficiary: string; totalAmount: bigint; startTime: bigint; cliffDuration: bigint; vestingDuration: bigint; releasedAmount: bigint; vestingType: bigint; revocable: boolean; revoked: boolean };
+export type TokenVestingVestingStepsResult = [timestamp: bigint, percentage: bigint, released: boolean] & { timestamp: bigint; percentage: bigint; released: boolean };
+
+export interface TokenVestingBatchReleaseProcessedEvent {
+  operator: string;
+  scheduleCount: bigint;
+  totalAmount: bigint;
+  timestamp: bigint;
+}
+
+export interface TokenVestingMilestoneAchievedEvent {
+  scheduleId: bigint;
+  milestoneIndex: bigint;
+  releasedAmount: bigint;
+  timestamp: bigint;
+}
+
+export interface TokenVestingPausedEvent {
+  account: string;
+}
+
+export interface TokenVestingRoleAdminChangedEvent {
+  role: string;
+  previousAdminRole: string;
+  newAdminRole: string;
+}
+
+export interface TokenVestingRoleGrantedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface TokenVestingRoleRevokedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface TokenVestingTokensReleasedEvent {
+  beneficiary: string;
+  scheduleId: bigint;
+  amount: bigint;
+  timestamp: bigint;
+}
+
+export interface TokenVestingUnpausedEvent {
+  account: string;
+}
+
+export interface TokenVestingVestingRevokedEvent {
+  beneficiary: string;
+  scheduleId: bigint;
+  unvestedAmount: bigint;
+  timestamp: bigint;
+}
+
+export interface TokenVestingVestingScheduleCreatedEvent {
+  beneficiary: string;
+  scheduleId: bigint;
+  totalAmount: bigint;
+  vestingType: bigint;
+  startTime: bigint;
+}
+
+export type TokenVestingEventName = 'BatchReleaseProcessed' | 'MilestoneAchieved' | 'Paused' | 'RoleAdminChanged' | 'RoleGranted' | 'RoleRevoked' | 'TokensReleased' | 'Unpaused' | 'VestingRevoked' | 'VestingScheduleCreated';
+
+export interface TokenVestingContract extends BaseContract {
+  connect(runner: ContractRunner | null): TokenVestingContract;
+  BASIS_POINTS: TypedContractMethod<[], TokenVestingBASIS_POINTSResult, 'view'>;
+  DEFAULT_ADMIN_ROLE: TypedContractMethod<[], TokenVestingDEFAULT_ADMIN_ROLEResult, 'view'>;
+  MAX_BATCH_SIZE: TypedContractMethod<[], TokenVestingMAX_BATCH_SIZEResult, 'view'>;
+  MAX_SCHEDULES_PER_BENEFICIARY: TypedContractMethod<[], TokenVestingMAX_SCHEDULES_PER_BENEFICIARYResult, 'view'>;
+  MILESTONE_MANAGER_ROLE: TypedContractMethod<[], TokenVestingMILESTONE_MANAGER_ROLEResult, 'view'>;
+  VESTING_ADMIN_ROLE: TypedContractMethod<[], TokenVestingVESTING_ADMIN_ROLEResult, 'view'>;
+  VESTING_OPERATOR_ROLE: TypedContractMethod<[], TokenVestingVESTING_OPERATOR_ROLEResult, 'view'>;
+  achieveMilestone: TypedContractMethod<[scheduleId: BigNumberish, milestoneIndex: BigNumberish], void, 'nonpayable'>;
+  addMilestone: TypedContractMethod<[scheduleId: BigNumberish, description: string, percentage: BigNumberish], void, 'nonpayable'>;
+  batchRelease: TypedContractMethod<[scheduleIds: BigNumberish[]], void, 'nonpayable'>;
+  beneficiaryReleasedAmount: TypedContractMethod<[arg0: AddressLike], TokenVestingBeneficiaryReleasedAmountResult, 'view'>;
+  beneficiarySchedules: TypedContractMethod<[arg0: AddressLike, arg1: BigNumberish], TokenVestingBeneficiarySchedulesResult, 'view'>;
+  beneficiaryTotalAmount: TypedContractMethod<[arg0: AddressLike], TokenVestingBeneficiaryTotalAmountResult, 'view'>;
+  createVestingSchedule: TypedContractMethod<[beneficiary: AddressLike, totalAmount: BigNumberish, startTime: BigNumberish, cliffDuration: BigNumberish, vestingDuration: BigNumberish, vestingType: BigNumberish, revocable: boolean], bigint, 'nonpayable'>;
+  emergencyWithdraw: TypedContractMethod<[to: AddressLike, amount: BigNumberish], void, 'nonpayable'>;
+  getBeneficiaryReleasedAmount: TypedContractMethod<[beneficiary: AddressLike], TokenVestingGetBeneficiaryReleasedAmountResult, 'view'>;
+  getBeneficiarySchedules: TypedContractMethod<[beneficiary: AddressLike], TokenVestingGetBeneficiarySchedulesResult, 'view'>;
+  getBeneficiaryTotalAmount: TypedContractMethod<[beneficiary: AddressLike], TokenVestingGetBeneficiaryTotalAmountResult, 'view'>;
+  getMilestone: TypedContractMethod<[scheduleId: BigNumberish, milestoneIndex: BigNumberish], TokenVestingGetMilestoneResult, 'view'>;
+  getMilestoneCount: TypedContractMethod<[scheduleId: BigNumberish], TokenVestingGetMilestoneCountResult, 'view'>;
+  getReleasableAmount: TypedContractMethod<[scheduleId: BigNumberish], TokenVestingGetReleasableAmountResult, 'view'>;
+  getRoleAdmin: TypedContractMethod<[role: BytesLike], TokenVestingGetRoleAdminResult, 'view'>;
+  getTotalReleasedAmount: TypedContractMethod<[], TokenVestingGetTotalReleasedAmountResult, 'view'>;
+  getTotalVestingAmount: TypedContractMethod<[], TokenVestingGetTotalVestingAmountResult, 'view'>;
+  getVestedAmount: TypedContractMethod<[scheduleId: BigNumberish], TokenVestingGetVestedAmountResult, 'view'>;
+  getVestingSchedule: TypedContractMethod<[scheduleId: BigNumberish], TokenVestingGetVestingScheduleResult, 'view'>;
+  getVestingStep: TypedContractMethod<[scheduleId: BigNumberish, stepIndex: BigNumberish], TokenVestingGetVestingStepResult, 'view'>;
+  grantRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  hasRole: TypedContractMethod<[role: BytesLike, account: AddressLike], TokenVestingHasRoleResult, 'view'>;
+  milestones: TypedContractMethod<[arg0: BigNumberish, arg1: BigNumberish], TokenVestingMilestonesResult, 'view'>;
+  nextScheduleId: TypedContractMethod<[], TokenVestingNextScheduleIdResult, 'view'>;
+  pause: TypedContractMethod<[], void, 'nonpayable'>;
+  paused: TypedContractMethod<[], TokenVestingPausedResult, 'view'>;
+  release: TypedContractMethod<[scheduleId: BigNumberish], void, 'nonpayable'>;
+  renounceRole: TypedContractMethod<[role: BytesLike, callerConfirmation: AddressLike], void, 'nonpayable'>;
+  revokeRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  revokeVesting: TypedContractMethod<[scheduleId: BigNumberish], void, 'nonpayable'>;
+  supportsInterface: TypedContractMethod<[interfaceId: BytesLike], TokenVestingSupportsInterfaceResult, 'view'>;
+  token: TypedContractMethod<[], TokenVestingTokenResult, 'view'>;
+  totalReleasedAmount: TypedContractMethod<[], TokenVestingTotalReleasedAmountResult, 'view'>;
+  totalVestingAmount: TypedContractMethod<[], TokenVestingTotalVestingAmountResult, 'view'>;
+  unpause: TypedContractMethod<[], void, 'nonpayable'>;
+  vestingSchedules: TypedContractMethod<[arg0: BigNumberish], TokenVestingVestingSchedulesResult, 'view'>;
+  vestingSteps: TypedContractMethod<[arg0: BigNumberish, arg1: BigNumberish], TokenVestingVestingStepsResult, 'view'>;
+}
+
+export const connectTokenVesting = (address: string, runner?: ContractRunner | null): TokenVestingContract =>
+  new Contract(address, TokenVestingAbi, runner) as unknown as TokenVestingContract;
@@ -0,0 +1,186 @@
+// 此文件由 scripts/generate-contract-bindings.mjs 根据 Foundry 编译产物生成，请勿手动修改
+
+import { Contract } from 'ethers';
+import type { AddressLike, BaseContract, BigNumberish, BytesLike, ContractRunner } from 'ethers';
+import type { TypedContractMethod } from './common';
+import type * as Structs from './structs';
+
+// contracts/WhitelistManager.sol
+export const WhitelistManagerAbi = [
+  {"inputs":[{"internalType":"address","name":"admin","type":"address"}],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[],"name":"AccessControlBadConfirmation","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"},{"internalType":"bytes32","name":"neededRole","type":"bytes32"}],"name":"AccessControlUnauthorizedAccount","type":"error"},
+  {"inputs":[],"name":"EnforcedPause","type":"error"},
+  {"inputs":[],"name":"ExpectedPause","type":"error"},
+  {"inputs":[],"name":"ReentrancyGuardReentrantCall","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address[]","name":"users","type":"address[]"},{"indexed":false,"internalType":"enum IWhitelistManager.WhitelistLevel[]","name":"levels","type":"uint8[]"},{"indexed":false,"internalType":"uint256","name":"expirationTime","type":"uint256"},{"indexed":true,"internalType":"address","name":"addedBy","type":"address"}],"name":"BatchWhitelistAdded","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Paused","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"bytes32","name":"previousAdminRole","type":"bytes32"},{"indexed":true,"internalType":"bytes32","name":"newAdminRole","type":"bytes32"}],"name":"RoleAdminChanged","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleGranted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleRevoked","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Unpaused","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":true,"internalType":"enum IWhitelistManager.WhitelistLevel","name":"level","type":"uint8"},{"indexed":false,"internalType":"uint256","name":"expirationTime","type":"uint256"},{"indexed":true,"internalType":"address","name":"addedBy","type":"address"}],"name":"WhitelistAdded","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"enum IWhitelistManager.WhitelistLevel","name":"previousLevel","type":"uint8"}],"name":"WhitelistExpired","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"enum IWhitelistManager.WhitelistLevel","name":"previousLevel","type":"uint8"},{"indexed":true,"internalType":"address","name":"removedBy","type":"address"}],"name":"WhitelistRemoved","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"from","type":"address"},{"indexed":true,"internalType":"address","name":"to","type":"address"},{"indexed":false,"internalType":"enum IWhitelistManager.WhitelistLevel","name":"level","type":"uint8"},{"indexed":true,"internalType":"address","name":"transferredBy","type":"address"}],"name":"WhitelistTransferred","type":"event"},
+  {"inputs":[],"name":"DEFAULT_ADMIN_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"MAX_BATCH_SIZE","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"WHITELIST_ADMIN_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"WHITELIST_OPERATOR_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"},{"internalType":"enum IWhitelistManager.WhitelistLevel","name":"level","type":"uint8"}],"name":"addToWhitelist","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"},{"internalType":"enum IWhitelistManager.WhitelistLevel","name":"level","type":"uint8"},{"internalType":"uint256","name":"expirationTime","type":"uint256"}],"name":"addToWhitelistWithExpiration","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address[]","name":"users","type":"address[]"},{"internalType":"enum IWhitelistManager.WhitelistLevel[]","name":"levels","type":"uint8[]"}],"name":"batchAddToWhitelist","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address[]","name":"users","type":"address[]"},{"internalType":"enum IWhitelistManager.WhitelistLevel[]","name":"levels","type":"uint8[]"},{"internalType":"uint256","name":"expirationTime","type":"uint256"}],"name":"batchAddToWhitelistWithExpiration","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address[]","name":"users","type":"address[]"}],"name":"batchRemoveFromWhitelist","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"blacklistedCount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address[]","name":"users","type":"address[]"}],"name":"cleanupExpiredWhitelists","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"offset","type":"uint256"},{"internalType":"uint256","name":"limit","type":"uint256"}],"name":"getAllWhitelistUsers","outputs":[{"internalType":"address[]","name":"users","type":"address[]"},{"internalType":"uint256","name":"total","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address[]","name":"userAddresses","type":"address[]"}],"name":"getBatchWhitelistInfo","outputs":[{"components":[{"internalType":"enum IWhitelistManager.WhitelistLevel","name":"level","type":"uint8"},{"internalType":"uint256","name":"expirationTime","type":"uint256"},{"internalType":"uint256","name":"addedTime","type":"uint256"},{"internalType":"address","name":"addedBy","type":"address"}],"internalType":"struct IWhitelistManager.WhitelistInfo[]","name":"infos","type":"tuple[]"},{"internalType":"enum IWhitelistManager.WhitelistLevel[]","name":"levels","type":"uint8[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"}],"name":"getRoleAdmin","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"enum IWhitelistManager.WhitelistLevel","name":"level","type":"uint8"},{"internalType":"uint256","name":"offset","type":"uint256"},{"internalType":"uint256","name":"limit","type":"uint256"}],"name":"getUsersByLevel","outputs":[{"internalType":"address[]","name":"users","type":"address[]"},{"components":[{"internalType":"enum IWhitelistManager.WhitelistLevel","name":"level","type":"uint8"},{"internalType":"uint256","name":"expirationTime","type":"uint256"},{"internalType":"uint256","name":"addedTime","type":"uint256"},{"internalType":"address","name":"addedBy","type":"address"}],"internalType":"struct IWhitelistManager.WhitelistInfo[]","name":"infos","type":"tuple[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"getWhitelistInfo","outputs":[{"components":[{"internalType":"enum IWhitelistManager.WhitelistLevel","name":"level","type":"uint8"},{"internalType":"uint256","name":"expirationTime","type":"uint256"},{"internalType":"uint256","name":"addedTime","type":"uint256"},{"internalType":"address","name":"addedBy","type":"address"}],"internalType":"struct IWhitelistManager.WhitelistInfo","name":"info","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getWhitelistStats","outputs":[{"internalType":"uint256","name":"_vipCount","type":"uint256"},{"internalType":"uint256","name":"_whitelistedCount","type":"uint256"},{"internalType":"uint256","name":"_blacklistedCount","type":"uint256"},{"internalType":"uint256","name":"_totalCount","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"getWhitelistStatus","outputs":[{"internalType":"enum IWhitelistManager.WhitelistLevel","name":"level","type":"uint8"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"grantRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"hasRole","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"isBlacklisted","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"isExpired","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"isVIP","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"isWhitelisted","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"pause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"paused","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"removeFromWhitelist","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"callerConfirmation","type":"address"}],"name":"renounceRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"revokeRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes4","name":"interfaceId","type":"bytes4"}],"name":"supportsInterface","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"totalUsers","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"from","type":"address"},{"internalType":"address","name":"to","type":"address"}],"name":"transferWhitelistStatus","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"unpause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"vipCount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"whitelistedCount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+] as const;
+
+export type WhitelistManagerDEFAULT_ADMIN_ROLEResult = string;
+export type WhitelistManagerMAX_BATCH_SIZEResult = bigint;
+export type WhitelistManagerWHITELIST_ADMIN_ROLEResult = string;
+export type WhitelistManagerWHITELIST_OPERATOR_ROLEResult = string;
+export type WhitelistManagerBlacklistedCountResult = bigint;
+export type WhitelistManagerGetAllWhitelistUsersResult = [users: string[], total: bigint] & { users: string[]; total: bigint };
+export type WhitelistManagerGetBatchWhitelistInfoResult = [infos: Structs.WhitelistInfoStructOutput[], levels: bigint[]] & { infos: Structs.WhitelistInfoStructOutput[]; levels: bigint[] };
+export type WhitelistManagerGetRoleAdminResult = string;
+export type WhitelistManagerGetUsersByLevelResult = [users: string[], infos: Structs.WhitelistInfoStructOutput[]] & { users: string[]; infos: Structs.WhitelistInfoStructOutput[] };
+export type WhitelistManagerGetWhitelistInfoResult = Structs.WhitelistInfoStructOutput;
+export type WhitelistManagerGetWhitelistStatsResult = [_vipCount: bigint, _whitelistedCount: bigint, _blacklistedCount: bigint, _totalCount: bigint] & { _vipCount: bigint; _whitelistedCount: bigint; _blacklistedCount: bigint; _totalCount: bigint };
+export type WhitelistManagerGetWhitelistStatusResult = bigint;
+export type WhitelistManagerHasRoleResult = boolean;
+export type WhitelistManagerIsBlacklistedResult = boolean;
+export type WhitelistManagerIsExpiredResult = boolean;
+export type WhitelistManagerIsVIPResult = boolean;
+export type WhitelistManagerIsWhitelistedResult = boolean;
+export type WhitelistManagerPausedResult = boolean;
+export type WhitelistManagerSupportsInterfaceResult = boolean;
+export type WhitelistManagerTotalUsersResult = bigint;
+export type WhitelistManagerVipCountResult = bigint;
+export type WhitelistManagerWhitelistedCountResult = bigint;
+
+export interface WhitelistManagerBatchWhitelistAddedEvent {
+  users: string[];
+  levels: bigint[];
+  expirationTime: bigint;
+  addedBy: string;
+}
+
+export interface WhitelistManagerPausedEvent {
+  account: string;
+}
+
+export interface WhitelistManagerRoleAdminChangedEvent {
+  role: string;
+  previousAdminRole: string;
+  newAdminRole: string;
+}
+
+export interface WhitelistManagerRoleGrantedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface WhitelistManagerRoleRevokedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface WhitelistManagerUnpausedEvent {
+  account: string;
+}
+
+export interface WhitelistManagerWhitelistAddedEvent {
+  user: string;
+  level: bigint;
+  expirationTime: bigint;
+  addedBy: string;
+}
+
+export interface WhitelistManagerWhitelistExpiredEvent {
+  user: string;
+  previousLevel: bigint;
+}
+
+export interface WhitelistManagerWhitelistRemovedEvent {
+  user: string;
+  previousLevel: bigint;
+  removedBy: string;
+}
+
+export interface WhitelistManagerWhitelistTransferredEvent {
+  from: string;
+  to: string;
+  level: bigint;
+  transferredBy: string;
+}
+
+export type WhitelistManagerEventName = 'BatchWhitelistAdded' | 'Paused' | 'RoleAdminChanged' | 'RoleGranted' | 'RoleRevoked' | 'Unpaused' | 'WhitelistAdded' | 'WhitelistExpired' | 'WhitelistRemoved' | 'WhitelistTransferred';
+
+export interface WhitelistManagerContract extends BaseContract {
+  connect(runner: ContractRunner | null): WhitelistManagerContract;
+  DEFAULT_ADMIN_ROLE: TypedContractMethod<[], WhitelistManagerDEFAULT_ADMIN_ROLEResult, 'view'>;
+  MAX_BATCH_SIZE: TypedContractMethod<[], WhitelistManagerMAX_BATCH_SIZEResult, 'view'>;
+  WHITELIST_ADMIN_ROLE: TypedContractMethod<[], WhitelistManagerWHITELIST_ADMIN_ROLEResult, 'view'>;
+  WHITELIST_OPERATOR_ROLE: TypedContractMethod<[], WhitelistManagerWHITELIST_OPERATOR_ROLEResult, 'view'>;
+  addToWhitelist: TypedContractMethod<[user: AddressLike, level: BigNumberish], void, 'nonpayable'>;
+  addToWhitelistWithExpiration: TypedContractMethod<[user: AddressLike, level: BigNumberish, expirationTime: BigNumberish], void, 'nonpayable'>;
+  batchAddToWhitelist: TypedContractMethod<[users: AddressLike[], levels: BigNumberish[]], void, 'nonpayable'>;
+  batchAddToWhitelistWithExpiration: TypedContractMethod<[users: AddressLike[], levels: BigNumberish[], expirationTime: BigNumberish], void, 'nonpayable'>;
+  batchRemoveFromWhitelist: TypedContractMethod<[users: AddressLike[]], void, 'nonpayable'>;
+  blacklistedCount: TypedContractMethod<[], WhitelistManagerBlacklistedCountResult, 'view'>;
+  cleanupExpiredWhitelists: TypedContractMethod<[users: AddressLike[]], void, 'nonpayable'>;
+  getAllWhitelistUsers: TypedContractMethod<[offset: BigNumberish, limit: BigNumberish], WhitelistManagerGetAllWhitelistUsersResult, 'view'>;
+  getBatchWhitelistInfo: TypedContractMethod<[userAddresses: AddressLike[]], WhitelistManagerGetBatchWhitelistInfoResult, 'view'>;
+  getRoleAdmin: TypedContractMethod<[role: BytesLike], WhitelistManagerGetRoleAdminResult, 'view'>;
+  getUsersByLevel: TypedContractMethod<[level: BigNumberish, offset: BigNumberish, limit: BigNumberish], WhitelistManagerGetUsersByLevelResult, 'view'>;
+  getWhitelistInfo: TypedContractMethod<[user: AddressLike], WhitelistManagerGetWhitelistInfoResult, 'view'>;
+  getWhitelistStats: TypedContractMethod<[], WhitelistManagerGetWhitelistStatsResult, 'view'>;
+  getWhitelistStatus: TypedContractMethod<[user: AddressLike], WhitelistManagerGetWhitelistStatusResult, 'view'>;
+  grantRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  hasRole: TypedContractMethod<[role: BytesLike, account: AddressLike], WhitelistManagerHasRoleResult, 'view'>;
+  isBlacklisted: TypedContractMethod<[user: AddressLike], WhitelistManagerIsBlacklistedResult, 'view'>;
+  isExpired: TypedContractMethod<[user: AddressLike], WhitelistManagerIsExpiredResult, 'view'>;
+  isVIP: TypedContractMethod<[user: AddressLike], WhitelistManagerIsVIPResult, 'view'>;
+  isWhitelisted: TypedContractMethod<[user: AddressLike], WhitelistManagerIsWhitelistedResult, 'view'>;
+  pause: TypedContractMethod<[], void, 'nonpayable'>;
+  paused: TypedContractMethod<[], WhitelistManagerPausedResult, 'view'>;
+  removeFromWhitelist: TypedContractMethod<[user: AddressLike], void, 'nonpayable'>;
+  renounceRole: TypedContractMethod<[role: BytesLike, callerConfirmation: AddressLike], void, 'nonpayable'>;
+  revokeRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  supportsInterface: TypedContractMethod<[interfaceId: BytesLike], WhitelistManagerSupportsInterfaceResult, 'view'>;
+  totalUsers: TypedContractMethod<[], WhitelistManagerTotalUsersResult, 'view'>;
+  transferWhitelistStatus: TypedContractMethod<[from: AddressLike, to: AddressLike], void, 'nonpayable'>;
+  unpause: TypedContractMethod<[], void, 'nonpayable'>;
+  vipCount: TypedContractMethod<[], WhitelistManagerVipCountResult, 'view'>;
+  whitelistedCount: TypedContractMethod<[], WhitelistManagerWhitelistedCountResult, 'view'>;
+}
+
+export const connectWhitelistManager = (address: string, runner?: ContractRunner | null): WhitelistManagerContract =>
+  new Contract(address, WhitelistManagerAbi, runner) as unknown as WhitelistManagerContract;
@@ -0,0 +1,16 @@
+// 此文件由 scripts/generate-contract-bindings.mjs 根据 Foundry 编译产物生成，请勿手动修改
+
+import type { ContractTransaction, ContractTransactionResponse, Overrides } from 'ethers';
+
+export type StateMutability = 'pure' | 'view' | 'nonpayable' | 'payable';
+
+type MethodResult<R, S extends StateMutability> = S extends 'pure' | 'view' ? R : ContractTransactionResponse;
+
+type MethodArgs<A extends unknown[]> = A | [...A, Overrides];
+
+export interface TypedContractMethod<A extends unknown[], R, S extends StateMutability> {
+  (...args: MethodArgs<A>): Promise<MethodResult<R, S>>;
+  staticCall(...args: MethodArgs<A>): Promise<R>;
+  estimateGas(...args: MethodArgs<A>): Promise<bigint>;
+  populateTransaction(...args: MethodArgs<A>): Promise<ContractTransaction>;
+}
@@ -0,0 +1,13 @@
+// 此文件由 scripts/generate-contract-bindings.mjs 根据 Foundry 编译产物生成，请勿手动修改
+
+export * from './common';
+export * from './structs';
+export * from './CrowdsaleFactory';
+export * from './CrowdsaleFactoryLite';
+export * from './CrowdsaleToken';
+export * from './RefundVault';
+export * from './TokenCrowdsale';
+export * from './TokenVesting';
+export * from './WhitelistManager';
+export * from './FixedPricingStrategy';
+export * from './TieredPricingStrategy';
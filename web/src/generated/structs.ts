@@ -0,0 +1,27 @@
+// 此文件由 scripts/generate-contract-bindings.mjs 根据 Foundry 编译产物生成，请勿手动修改
+
+import type { AddressLike, BigNumberish } from 'ethers';
+
+export type CrowdsaleConfigStruct = { presaleStartTime: BigNumberish; presaleEndTime: BigNumberish; publicSaleStartTime: BigNumberish; publicSaleEndTime: BigNumberish; softCap: BigNumberish; hardCap: BigNumberish; minPurchase: BigNumberish; maxPurchase: BigNumberish };
+export type CrowdsaleConfigStructOutput = [presaleStartTime: bigint, presaleEndTime: bigint, publicSaleStartTime: bigint, publicSaleEndTime: bigint, softCap: bigint, hardCap: bigint, minPurchase: bigint, maxPurchase: bigint] & { presaleStartTime: bigint; presaleEndTime: bigint; publicSaleStartTime: bigint; publicSaleEndTime: bigint; softCap: bigint; hardCap: bigint; minPurchase: bigint; maxPurchase: bigint };
+
+export type CrowdsaleInstanceStruct = { crowdsaleAddress: AddressLike; tokenAddress: AddressLike; vestingAddress: AddressLike; creator: AddressLike; createdAt: BigNumberish; isActive: boolean };
+export type CrowdsaleInstanceStructOutput = [crowdsaleAddress: string, tokenAddress: string, vestingAddress: string, creator: string, createdAt: bigint, isActive: boolean] & { crowdsaleAddress: string; tokenAddress: string; vestingAddress: string; creator: string; createdAt: bigint; isActive: boolean };
+
+export type CrowdsaleParamsStruct = { tokenName: string; tokenSymbol: string; totalSupply: BigNumberish; softCap: BigNumberish; hardCap: BigNumberish; startTime: BigNumberish; endTime: BigNumberish; fundingWallet: AddressLike; tokenPrice: BigNumberish; vestingParams: VestingParamsStruct };
+export type CrowdsaleParamsStructOutput = [tokenName: string, tokenSymbol: string, totalSupply: bigint, softCap: bigint, hardCap: bigint, startTime: bigint, endTime: bigint, fundingWallet: string, tokenPrice: bigint, vestingParams: VestingParamsStructOutput] & { tokenName: string; tokenSymbol: string; totalSupply: bigint; softCap: bigint; hardCap: bigint; startTime: bigint; endTime: bigint; fundingWallet: string; tokenPrice: bigint; vestingParams: VestingParamsStructOutput };
+
+export type CrowdsaleStatsStruct = { totalRaised: BigNumberish; totalTokensSold: BigNumberish; totalPurchases: BigNumberish; totalParticipants: BigNumberish; participantCount: BigNumberish; presaleRaised: BigNumberish; publicSaleRaised: BigNumberish };
+export type CrowdsaleStatsStructOutput = [totalRaised: bigint, totalTokensSold: bigint, totalPurchases: bigint, totalParticipants: bigint, participantCount: bigint, presaleRaised: bigint, publicSaleRaised: bigint] & { totalRaised: bigint; totalTokensSold: bigint; totalPurchases: bigint; totalParticipants: bigint; participantCount: bigint; presaleRaised: bigint; publicSaleRaised: bigint };
+
+export type PriceTierStruct = { progressThreshold: BigNumberish; pricePerToken: BigNumberish; isActive: boolean };
+export type PriceTierStructOutput = [progressThreshold: bigint, pricePerToken: bigint, isActive: boolean] & { progressThreshold: bigint; pricePerToken: bigint; isActive: boolean };
+
+export type PurchaseRecordStruct = { weiAmount: BigNumberish; tokenAmount: BigNumberish; price: BigNumberish; timestamp: BigNumberish; pricingType: BigNumberish; isWhitelistPurchase: boolean };
+export type PurchaseRecordStructOutput = [weiAmount: bigint, tokenAmount: bigint, price: bigint, timestamp: bigint, pricingType: bigint, isWhitelistPurchase: boolean] & { weiAmount: bigint; tokenAmount: bigint; price: bigint; timestamp: bigint; pricingType: bigint; isWhitelistPurchase: boolean };
+
+export type WhitelistInfoStruct = { level: BigNumberish; expirationTime: BigNumberish; addedTime: BigNumberish; addedBy: AddressLike };
+export type WhitelistInfoStructOutput = [level: bigint, expirationTime: bigint, addedTime: bigint, addedBy: string] & { level: bigint; expirationTime: bigint; addedTime: bigint; addedBy: string };
+
+export type VestingParamsStruct = { enabled: boolean; cliffDuration: BigNumberish; vestingDuration: BigNumberish; vestingType: BigNumberish; immediateReleasePercentage: BigNumberish };
+export type VestingParamsStructOutput = [enabled: boolean, cliffDuration: bigint, vestingDuration: bigint, vestingType: bigint, immediateReleasePercentage: bigint] & { enabled: boolean; cliffDuration: bigint; vestingDuration: bigint; vestingType: bigint; immediateReleasePercentage: bigint };
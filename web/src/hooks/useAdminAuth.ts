@@ -1,7 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { ethers } from 'ethers';
 import { useWallet } from './useWallet';
-import { getContractAddress, getContractABI } from '@/utils/contracts';
+import { getContractAddress } from '@/utils/contracts';
+import { connectTokenCrowdsale } from '@/generated';
 import { handleContractError } from '@/utils/errorHandler';
 
 interface AdminPermissions {
@@ -27,8 +28,7 @@ export const useAdminAuth = () => {
     if (!contractAddress) {
       throw new Error('TokenCrowdsale contract address not configured. Please set VITE_TOKENCROWDSALE_ADDRESS in .env.local');
     }
-    
-    const abi = getContractABI('TokenCrowdsale');
+
     
     // Try to get signer first, fallback to provider
     let runner;
@@ -40,7 +40,7 @@ export const useAdminAuth = () => {
     
     if (!runner) throw new Error('No wallet connection found');
     
-    return new ethers.Contract(contractAddress, abi, runner);
+    return connectTokenCrowdsale(contractAddress, runner);
   }, [getSigner, getProvider]);
 
   const checkPermissions = useCallback(async () => {
@@ -0,0 +1,154 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { useWallet } from './useWallet';
+import { getContractAddress } from '@/utils/contracts';
+import { connectWhitelistManager } from '@/generated';
+import { handleContractError } from '@/utils/errorHandler';
+import { WhitelistLevel } from '@/types/contracts';
+import { WHITELIST_MAX_BATCH_SIZE } from '@/utils/whitelistImport';
+import {
+  BlacklistAction,
+  BlacklistAuditEntry,
+  appendBlacklistAudit,
+  loadBlacklistAudit
+} from '@/utils/blacklistAudit';
+
+export interface BlacklistedUser {
+  address: string;
+  addedTime: number;
+  addedBy: string;
+}
+
+export const useBlacklistManagement = () => {
+  const { getSigner, getProvider } = useWallet();
+  const [users, setUsers] = useState<BlacklistedUser[]>([]);
+  const [blacklistedCount, setBlacklistedCount] = useState(0);
+  const [auditLog, setAuditLog] = useState<BlacklistAuditEntry[]>(() => loadBlacklistAudit());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getWhitelistContract = useCallback(async () => {
+    const contractAddress = getContractAddress('WHITELISTMANAGER');
+    if (!contractAddress) {
+      throw new Error('WhitelistManager contract address not configured. Please set VITE_WHITELISTMANAGER_ADDRESS in .env.local');
+    }
+
+    // Try to get signer first, fallback to provider
+    let runner;
+    try {
+      runner = await getSigner();
+    } catch {
+      runner = await getProvider();
+    }
+
+    if (!runner) throw new Error('No wallet connection found');
+    return connectWhitelistManager(contractAddress, runner);
+  }, [getSigner, getProvider]);
+
+  // 分页读取 BLACKLISTED 级别的全部地址
+  const fetchBlacklist = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const contract = await getWhitelistContract();
+      const stats = await contract.getWhitelistStats();
+      const result: BlacklistedUser[] = [];
+
+      let offset = 0;
+      let page: string[];
+      do {
+        const [addresses, infos] = await contract.getUsersByLevel(WhitelistLevel.BLACKLISTED, offset, WHITELIST_MAX_BATCH_SIZE);
+        addresses.forEach((address, index) => {
+          result.push({
+            address,
+            addedTime: Number(infos[index].addedTime),
+            addedBy: infos[index].addedBy,
+          });
+        });
+        page = addresses;
+        offset += page.length;
+      } while (page.length === WHITELIST_MAX_BATCH_SIZE);
+
+      setUsers(result.sort((a, b) => b.addedTime - a.addedTime));
+      setBlacklistedCount(Number(stats[2]));
+    } catch (error) {
+      console.error('Failed to fetch blacklist:', error);
+      setError(handleContractError(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [getWhitelistContract]);
+
+  const recordAudit = useCallback(async (address: string, action: BlacklistAction, reason: string, txHash: string) => {
+    const signer = await getSigner();
+    const operator = signer ? await signer.getAddress() : '';
+    setAuditLog(appendBlacklistAudit({ address, action, reason, operator, txHash }));
+  }, [getSigner]);
+
+  // 加入黑名单：以 BLACKLISTED 级别写入，原有白名单级别会被覆盖
+  const addToBlacklist = useCallback(async (address: string, reason: string) => {
+    try {
+      if (!ethers.isAddress(address)) {
+        throw new Error('Invalid Ethereum address format');
+      }
+      if (!reason.trim()) {
+        throw new Error('A reason is required for blacklist changes');
+      }
+
+      const contract = await getWhitelistContract();
+      const tx = await contract.addToWhitelist(address, WhitelistLevel.BLACKLISTED);
+      await tx.wait();
+
+      await recordAudit(ethers.getAddress(address), 'add', reason.trim(), tx.hash);
+      await fetchBlacklist();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [getWhitelistContract, recordAudit, fetchBlacklist]);
+
+  // 移出黑名单：合约会删除该地址的记录，级别回到 NONE。
+  // removeFromWhitelist 不区分级别，先确认地址确实在黑名单中，避免误删白名单用户
+  const removeFromBlacklist = useCallback(async (address: string, reason: string) => {
+    try {
+      if (!ethers.isAddress(address)) {
+        throw new Error('Invalid Ethereum address format');
+      }
+      if (!reason.trim()) {
+        throw new Error('A reason is required for blacklist changes');
+      }
+
+      const contract = await getWhitelistContract();
+      if (!(await contract.isBlacklisted(address))) {
+        throw new Error('Address is not blacklisted');
+      }
+
+      const tx = await contract.removeFromWhitelist(address);
+      await tx.wait();
+
+      await recordAudit(ethers.getAddress(address), 'remove', reason.trim(), tx.hash);
+      await fetchBlacklist();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [getWhitelistContract, recordAudit, fetchBlacklist]);
+
+  useEffect(() => {
+    fetchBlacklist();
+  }, [fetchBlacklist]);
+
+  return {
+    users,
+    blacklistedCount,
+    auditLog,
+    loading,
+    error,
+    refresh: fetchBlacklist,
+    addToBlacklist,
+    removeFromBlacklist,
+  };
+};
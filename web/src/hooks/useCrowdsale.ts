@@ -5,7 +5,8 @@ import { useWallet } from './useWallet';
 import { useCrowdsaleStore } from '@/stores/crowdsaleStore';
 import { useWalletStore } from '@/stores/walletStore';
 import { CrowdsaleConfig, CrowdsaleStats, CrowdsalePhase } from '@/types/contracts';
-import { getContractAddress, getContractABI } from '@/utils/contracts';
+import { getContractAddress } from '@/utils/contracts';
+import { connectTokenCrowdsale, connectWhitelistManager } from '@/generated';
 import { handleContractError } from '@/utils/errorHandler';
 import { TransactionType, TransactionStatus } from '@/types/wallet';
 
@@ -55,8 +56,7 @@ export const useCrowdsale = (crowdsaleAddress?: string) => {
       return null;
     }
 
-    const abi = getContractABI('TokenCrowdsale');
-    return new ethers.Contract(contractAddress, abi, provider);
+    return connectTokenCrowdsale(contractAddress, provider);
   }, [getProvider, currentCrowdsale]);
 
   // Fetch crowdsale data
@@ -109,11 +109,11 @@ export const useCrowdsale = (crowdsaleAddress?: string) => {
       if (useLocalState) {
         setLocalConfig(parsedConfig);
         setLocalStats(parsedStats);
-        setLocalPhase(currentPhase as CrowdsalePhase);
+        setLocalPhase(Number(currentPhase) as CrowdsalePhase);
       } else {
         setConfig(parsedConfig);
         setStats(parsedStats);
-        setPhase(currentPhase as CrowdsalePhase);
+        setPhase(Number(currentPhase) as CrowdsalePhase);
       }
     } catch (error) {
       console.error('Failed to fetch crowdsale data:', error);
@@ -247,7 +247,7 @@ export const useCrowdsale = (crowdsaleAddress?: string) => {
         // Update transaction status
         updateTransaction(tx.hash, {
           status: TransactionStatus.SUCCESS,
-          gasUsed: receipt.gasUsed?.toString()
+          gasUsed: receipt.gasUsed
         });
         
         toast.success('购买成功！代币已发送到您的钱包');
@@ -313,34 +313,36 @@ export const useCrowdsale = (crowdsaleAddress?: string) => {
   // Check if user is whitelisted
   const checkWhitelistStatus = useCallback(async (userAddress?: string) => {
     const contract = await getCrowdsaleContract();
-    if (!contract) return { isWhitelisted: false, tier: 'NONE' as const, discount: 0 };
+    if (!contract) return { isWhitelisted: false, isBlacklisted: false, tier: 'NONE' as const, discount: 0 };
 
     try {
       const whitelistManagerAddress = await contract.whitelistManager();
       const provider = await getProvider();
-      if (!provider) return { isWhitelisted: false, tier: 'NONE' as const, discount: 0 };
+      if (!provider) return { isWhitelisted: false, isBlacklisted: false, tier: 'NONE' as const, discount: 0 };
 
-      const whitelistABI = getContractABI('WhitelistManager');
-      const whitelistContract = new ethers.Contract(whitelistManagerAddress, whitelistABI, provider);
+      const whitelistContract = connectWhitelistManager(whitelistManagerAddress, provider);
 
       const targetAddress = userAddress || address;
-      if (!targetAddress) return { isWhitelisted: false, tier: 'NONE' as const, discount: 0 };
+      if (!targetAddress) return { isWhitelisted: false, isBlacklisted: false, tier: 'NONE' as const, discount: 0 };
 
-      const [isWhitelisted, isVIP] = await Promise.all([
+      const [isWhitelisted, isVIP, isBlacklisted] = await Promise.all([
         whitelistContract.isWhitelisted(targetAddress),
-        whitelistContract.isVIP(targetAddress)
+        whitelistContract.isVIP(targetAddress),
+        whitelistContract.isBlacklisted(targetAddress)
       ]);
 
-      if (isVIP) {
-        return { isWhitelisted: true, tier: 'VIP' as const, discount: 20 };
+      if (isBlacklisted) {
+        return { isWhitelisted: false, isBlacklisted: true, tier: 'NONE' as const, discount: 0 };
+      } else if (isVIP) {
+        return { isWhitelisted: true, isBlacklisted: false, tier: 'VIP' as const, discount: 20 };
       } else if (isWhitelisted) {
-        return { isWhitelisted: true, tier: 'WHITELISTED' as const, discount: 10 };
+        return { isWhitelisted: true, isBlacklisted: false, tier: 'WHITELISTED' as const, discount: 10 };
       } else {
-        return { isWhitelisted: false, tier: 'NONE' as const, discount: 0 };
+        return { isWhitelisted: false, isBlacklisted: false, tier: 'NONE' as const, discount: 0 };
       }
     } catch (error) {
       console.error('Failed to check whitelist status:', error);
-      return { isWhitelisted: false, tier: 'NONE' as const, discount: 0 };
+      return { isWhitelisted: false, isBlacklisted: false, tier: 'NONE' as const, discount: 0 };
     }
   }, [getCrowdsaleContract, getProvider, address]);
 
@@ -0,0 +1,225 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { useWallet } from './useWallet';
+import { TokenCrowdsaleContract, connectTokenCrowdsale } from '@/generated';
+import { handleContractError } from '@/utils/errorHandler';
+import { EventSyncer } from '@/utils/eventSync';
+import { decodeLogToTransaction, getEventInterface } from '@/utils/eventDecoder';
+import { ConfigUpdateTransaction, TransactionType } from '@/types/transactionTypes';
+import { CrowdsalePhase, VestingType } from '@/types/contracts';
+import { ConfigUpdateState, CrowdsaleSettings, planConfigUpdate } from '@/utils/crowdsaleConfig';
+
+export interface CrowdsaleConfigAdminInfo {
+  settings: CrowdsaleSettings;
+  state: Omit<ConfigUpdateState, 'now'>;
+  isCrowdsaleAdmin: boolean;
+}
+
+const CONFIG_EVENTS = ['ConfigUpdated', 'FundingWalletUpdated', 'VestingConfigUpdated'] as const;
+
+// 配置修改的前置条件：阶段、暂停状态和修改冷却时间
+const readConfigState = async (contract: TokenCrowdsaleContract): Promise<Omit<ConfigUpdateState, 'now'>> => {
+  const [phase, paused, lastConfigUpdateTime] = await Promise.all([
+    contract.currentPhase(),
+    contract.paused(),
+    contract.lastConfigUpdateTime(),
+  ]);
+
+  return {
+    phase: Number(phase) as CrowdsalePhase,
+    paused,
+    lastConfigUpdateTime: Number(lastConfigUpdateTime),
+  };
+};
+
+export const useCrowdsaleConfigAdmin = (crowdsaleAddress?: string) => {
+  const { address, getSigner, getProvider } = useWallet();
+  const [info, setInfo] = useState<CrowdsaleConfigAdminInfo | null>(null);
+  const [history, setHistory] = useState<ConfigUpdateTransaction[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getCrowdsaleContract = useCallback(async () => {
+    if (!crowdsaleAddress) {
+      throw new Error('Crowdsale address not configured');
+    }
+
+    // Try to get signer first, fallback to provider
+    let runner;
+    try {
+      runner = await getSigner();
+    } catch {
+      runner = await getProvider();
+    }
+
+    if (!runner) throw new Error('No wallet connection found');
+    return connectTokenCrowdsale(crowdsaleAddress, runner);
+  }, [crowdsaleAddress, getSigner, getProvider]);
+
+  // 从 ConfigUpdated / FundingWalletUpdated / VestingConfigUpdated 事件读取配置变更记录
+  const fetchHistory = useCallback(async (provider: ethers.Provider, contractAddress: string) => {
+    const iface = getEventInterface('TokenCrowdsale');
+    const topics = new Set<string>(CONFIG_EVENTS.map(name => iface.getEvent(name)!.topicHash));
+
+    const syncer = new EventSyncer(provider);
+    await syncer.syncContract(contractAddress);
+    const logs = (await syncer.getLogs(contractAddress)).filter(log => topics.has(log.topics[0]));
+
+    const transactions = await Promise.all(logs.map(async (log) =>
+      decodeLogToTransaction('TokenCrowdsale', log, {
+        timestamp: await syncer.getBlockTimestamp(log.blockNumber),
+        sender: '',
+      })
+    ));
+
+    return transactions
+      .filter((tx): tx is ConfigUpdateTransaction => tx?.type === TransactionType.CONFIG_UPDATE)
+      .sort((a, b) => b.blockNumber - a.blockNumber || b.id.localeCompare(a.id));
+  }, []);
+
+  const fetchConfig = useCallback(async () => {
+    if (!crowdsaleAddress) {
+      setInfo(null);
+      setHistory([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const contract = await getCrowdsaleContract();
+      const [config, fundingWallet, vestingConfig, state] = await Promise.all([
+        contract.getCrowdsaleConfig(),
+        contract.fundingWallet(),
+        contract.vestingConfig(),
+        readConfigState(contract),
+      ]);
+
+      const adminRole = ethers.keccak256(ethers.toUtf8Bytes('CROWDSALE_ADMIN_ROLE'));
+      const isCrowdsaleAdmin = address
+        ? await contract.hasRole(adminRole, address).catch(() => false)
+        : false;
+
+      setInfo({
+        settings: {
+          presaleStartTime: config.presaleStartTime,
+          presaleEndTime: config.presaleEndTime,
+          publicSaleStartTime: config.publicSaleStartTime,
+          publicSaleEndTime: config.publicSaleEndTime,
+          softCap: config.softCap,
+          hardCap: config.hardCap,
+          minPurchase: config.minPurchase,
+          maxPurchase: config.maxPurchase,
+          fundingWallet,
+          vestingEnabled: vestingConfig.enabled,
+          cliffDuration: vestingConfig.cliffDuration,
+          vestingDuration: vestingConfig.vestingDuration,
+          vestingType: Number(vestingConfig.vestingType) as VestingType,
+          immediateReleasePercentage: vestingConfig.immediateReleasePercentage,
+        },
+        state,
+        isCrowdsaleAdmin,
+      });
+
+      const provider = await getProvider();
+      if (provider) {
+        setHistory(await fetchHistory(provider, crowdsaleAddress));
+      }
+    } catch (error) {
+      console.error('Failed to fetch crowdsale config:', error);
+      setError(handleContractError(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [crowdsaleAddress, address, getCrowdsaleContract, getProvider, fetchHistory]);
+
+  // 按计划逐笔发送配置交易，提交前使用最新链上状态重新校验
+  const applySettings = useCallback(async (proposed: CrowdsaleSettings) => {
+    try {
+      if (!info) {
+        throw new Error('Crowdsale config not loaded');
+      }
+
+      const contract = await getCrowdsaleContract();
+      const plan = planConfigUpdate(info.settings, proposed, {
+        ...(await readConfigState(contract)),
+        now: Math.floor(Date.now() / 1000),
+      });
+      if (plan.calls.length === 0) {
+        throw new Error('No config changes to submit');
+      }
+      if (plan.errors.length > 0) {
+        throw new Error(plan.errors[0]);
+      }
+
+      let lastTxHash = '';
+      for (const call of plan.calls) {
+        let tx;
+        switch (call.method) {
+          case 'updateConfig':
+            tx = await contract.updateConfig({
+              presaleStartTime: proposed.presaleStartTime,
+              presaleEndTime: proposed.presaleEndTime,
+              publicSaleStartTime: proposed.publicSaleStartTime,
+              publicSaleEndTime: proposed.publicSaleEndTime,
+              softCap: proposed.softCap,
+              hardCap: proposed.hardCap,
+              minPurchase: proposed.minPurchase,
+              maxPurchase: proposed.maxPurchase,
+            });
+            break;
+          case 'updateTimeConfig':
+            tx = await contract.updateTimeConfig(
+              proposed.presaleStartTime,
+              proposed.presaleEndTime,
+              proposed.publicSaleStartTime,
+              proposed.publicSaleEndTime
+            );
+            break;
+          case 'updateFundingTargets':
+            tx = await contract.updateFundingTargets(proposed.softCap, proposed.hardCap);
+            break;
+          case 'updatePurchaseLimits':
+            tx = await contract.updatePurchaseLimits(proposed.minPurchase, proposed.maxPurchase);
+            break;
+          case 'updateFundingWallet':
+            tx = await contract.updateFundingWallet(proposed.fundingWallet);
+            break;
+          case 'setVestingConfig':
+            tx = await contract.setVestingConfig(
+              proposed.vestingEnabled,
+              proposed.cliffDuration,
+              proposed.vestingDuration,
+              proposed.vestingType,
+              proposed.immediateReleasePercentage
+            );
+            break;
+        }
+        await tx.wait();
+        lastTxHash = tx.hash;
+      }
+
+      await fetchConfig();
+
+      return { success: true, txHash: lastTxHash, count: plan.calls.length };
+    } catch (error) {
+      // 部分交易可能已上链，刷新以反映最新状态
+      await fetchConfig();
+      throw new Error(handleContractError(error));
+    }
+  }, [info, getCrowdsaleContract, fetchConfig]);
+
+  useEffect(() => {
+    fetchConfig();
+  }, [fetchConfig]);
+
+  return {
+    info,
+    history,
+    loading,
+    error,
+    refresh: fetchConfig,
+    applySettings,
+  };
+};
@@ -1,7 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
-import { Contract } from 'ethers';
 import { useWallet } from './useWallet';
-import { CONTRACT_ABIS } from '@/utils/contracts';
+import { connectTokenCrowdsale } from '@/generated';
 import { CrowdsaleConfig, CrowdsaleStats, CrowdsalePhase } from '@/types/contracts';
 
 // Lightweight hook for fetching individual crowdsale data without affecting global store
@@ -21,7 +20,7 @@ export const useCrowdsaleData = (crowdsaleAddress: string) => {
     setIsLoading(true);
 
     try {
-      const contract = new Contract(crowdsaleAddress, CONTRACT_ABIS.TokenCrowdsale, provider);
+      const contract = connectTokenCrowdsale(crowdsaleAddress, provider);
       
       // Check if contract exists by checking if it has code
       const code = await provider.getCode(crowdsaleAddress);
@@ -64,7 +63,7 @@ export const useCrowdsaleData = (crowdsaleAddress: string) => {
 
       setConfig(parsedConfig);
       setStats(parsedStats);
-      setPhase(currentPhase as CrowdsalePhase);
+      setPhase(Number(currentPhase) as CrowdsalePhase);
     } catch (error) {
       console.error('Failed to fetch crowdsale data:', error);
       // Set to null on error instead of using demo data
@@ -1,7 +1,11 @@
 import { useState, useEffect, useCallback } from 'react';
-import { ethers } from 'ethers';
 import { useWallet } from './useWallet';
-import { CONTRACTS } from '../utils/contracts';
+import { CrowdsaleFactoryContract, connectCrowdsaleFactory } from '../generated';
+import { getContractAddress } from '../utils/contracts';
+import { handleContractError } from '../utils/errorHandler';
+import { BATCH_GAS_LIMIT_RATIO, planBatchChunks } from '../utils/crowdsaleBatch';
+import { CrowdsaleCreatedEvent, FactoryCapabilities, FactoryVariant, parseCrowdsaleCreatedLog } from '../utils/factoryVariant';
+import { useFactoryVariant } from './useFactoryVariant';
 
 // Types based on the interface definitions
 export interface CrowdsaleInstance {
@@ -38,11 +42,31 @@ export interface CrowdsaleParams {
   };
 }
 
+export interface CreatedCrowdsale {
+  crowdsaleAddress: string;
+  tokenAddress: string;
+  vestingAddress: string;
+  txHash: string;
+}
+
+export interface BatchCreateResult {
+  index: number; // position in the submitted params list
+  success: boolean;
+  crowdsaleAddress?: string;
+  tokenAddress?: string;
+  vestingAddress?: string;
+  txHash?: string;
+  error?: string;
+}
+
 export interface UseCrowdsaleFactoryReturn {
   // State
   activeCrowdsales: CrowdsaleInstance[];
   factoryStats: FactoryStats | null;
   creatorCrowdsales: CrowdsaleInstance[];
+  creationFee: bigint | null;
+  variant: FactoryVariant | null;
+  capabilities: FactoryCapabilities;
   isLoading: boolean;
   error: string | null;
   
@@ -50,34 +74,63 @@ export interface UseCrowdsaleFactoryReturn {
   fetchActiveCrowdsales: () => Promise<void>;
   fetchFactoryStats: () => Promise<void>;
   fetchCreatorCrowdsales: (creator: string) => Promise<void>;
-  createCrowdsale: (params: CrowdsaleParams) => Promise<{ crowdsaleAddress: string; tokenAddress: string; vestingAddress: string } | null>;
+  fetchCreationFee: () => Promise<bigint | null>;
+  createCrowdsale: (params: CrowdsaleParams) => Promise<CreatedCrowdsale>;
+  batchCreateCrowdsales: (
+    paramsList: CrowdsaleParams[],
+    onChunk?: (results: BatchCreateResult[], chunkIndex: number, chunkCount: number) => void
+  ) => Promise<BatchCreateResult[]>;
   validateCrowdsaleParams: (params: CrowdsaleParams) => Promise<{ isValid: boolean; errorMessage: string } | null>;
+  getLatestBlockTimestamp: () => Promise<number | null>;
   refreshAll: () => Promise<void>;
 }
 
+// Lite 工厂的 CrowdsaleCreated 不含释放合约地址，从实例记录中补齐
+const resolveCreatedEvents = async (
+  contract: CrowdsaleFactoryContract,
+  logs: readonly { topics: readonly string[]; data: string }[]
+): Promise<CrowdsaleCreatedEvent[]> => {
+  const events = logs
+    .map(log => parseCrowdsaleCreatedLog(log))
+    .filter((event): event is CrowdsaleCreatedEvent => event !== null);
+
+  return Promise.all(events.map(async (event) => {
+    if (event.vestingAddress !== null) return event;
+    const instance = await contract.getCrowdsaleInstance(event.crowdsaleAddress);
+    return { ...event, vestingAddress: instance.vestingAddress };
+  }));
+};
+
 export function useCrowdsaleFactory(): UseCrowdsaleFactoryReturn {
-  const { provider, signer, account } = useWallet();
+  const { address, getSigner, getProvider } = useWallet();
+  const { variant, capabilities } = useFactoryVariant();
   
   // State
   const [activeCrowdsales, setActiveCrowdsales] = useState<CrowdsaleInstance[]>([]);
   const [factoryStats, setFactoryStats] = useState<FactoryStats | null>(null);
   const [creatorCrowdsales, setCreatorCrowdsales] = useState<CrowdsaleInstance[]>([]);
+  const [creationFee, setCreationFee] = useState<bigint | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Get factory contract instance
-  const getFactoryContract = useCallback(() => {
-    const factoryAddress = import.meta.env.VITE_CROWDSALE_FACTORY_ADDRESS;
-    if (!factoryAddress || !provider) {
-      throw new Error('CrowdsaleFactory address not configured or provider not available');
+  const getFactoryContract = useCallback(async () => {
+    const factoryAddress = getContractAddress('CROWDSALEFACTORY');
+    if (!factoryAddress) {
+      throw new Error('CrowdsaleFactory address not configured');
     }
-    
-    return new ethers.Contract(
-      factoryAddress,
-      CONTRACTS.CrowdsaleFactory,
-      signer || provider
-    );
-  }, [provider, signer]);
+
+    // Try to get signer first, fallback to provider
+    let runner;
+    try {
+      runner = await getSigner();
+    } catch {
+      runner = await getProvider();
+    }
+
+    if (!runner) throw new Error('No wallet connection found');
+    return connectCrowdsaleFactory(factoryAddress, runner);
+  }, [getSigner, getProvider]);
 
   // Helper function to safely convert BigInt to string for logging
   const safeStringify = (obj: any): string => {
@@ -90,7 +143,7 @@ export function useCrowdsaleFactory(): UseCrowdsaleFactoryReturn {
   const fetchActiveCrowdsales = useCallback(async () => {
     try {
       setError(null);
-      const contract = getFactoryContract();
+      const contract = await getFactoryContract();
       
       console.log('Fetching active crowdsales...');
       const result = await contract.getActiveCrowdsales();
@@ -116,15 +169,15 @@ export function useCrowdsaleFactory(): UseCrowdsaleFactoryReturn {
   const fetchFactoryStats = useCallback(async () => {
     try {
       setError(null);
-      const contract = getFactoryContract();
+      const contract = await getFactoryContract();
       
       console.log('Fetching factory stats...');
       const result = await contract.getFactoryStats();
       
       const stats: FactoryStats = {
-        totalCrowdsales: BigInt(result.totalCrowdsales?.toString() || result[0]?.toString() || '0'),
-        activeCrowdsales: BigInt(result.activeCrowdsales?.toString() || result[1]?.toString() || '0'),
-        totalFeesCollected: BigInt(result.totalFeesCollected?.toString() || result[2]?.toString() || '0')
+        totalCrowdsales: result.totalCrowdsales,
+        activeCrowdsales: result.activeCrowdsalesCount,
+        totalFeesCollected: result.totalFeesCollectedAmount
       };
       
       console.log('Factory stats fetched:', safeStringify(stats));
@@ -139,7 +192,7 @@ export function useCrowdsaleFactory(): UseCrowdsaleFactoryReturn {
   const fetchCreatorCrowdsales = useCallback(async (creator: string) => {
     try {
       setError(null);
-      const contract = getFactoryContract();
+      const contract = await getFactoryContract();
       
       console.log('Fetching creator crowdsales for:', creator);
       const result = await contract.getCreatorCrowdsales(creator);
@@ -161,120 +214,172 @@ export function useCrowdsaleFactory(): UseCrowdsaleFactoryReturn {
     }
   }, [getFactoryContract]);
 
-  // Create new crowdsale
-  const createCrowdsale = useCallback(async (params: CrowdsaleParams) => {
-    if (!signer) {
-      setError('请先连接钱包');
+  // Fetch the fee required by createCrowdsale
+  const fetchCreationFee = useCallback(async () => {
+    try {
+      const contract = await getFactoryContract();
+      const fee = await contract.getCreationFee();
+      setCreationFee(fee);
+      return fee;
+    } catch (err) {
+      console.error('Error fetching creation fee:', err);
+      setError(handleContractError(err));
       return null;
     }
+  }, [getFactoryContract]);
 
+  // Create new crowdsale
+  const createCrowdsale = useCallback(async (params: CrowdsaleParams): Promise<CreatedCrowdsale> => {
     try {
       setError(null);
       setIsLoading(true);
-      
-      const contract = getFactoryContract();
-      
-      // Get creation fee
-      const creationFee = await contract.getCreationFee();
-      
+
+      const signer = await getSigner();
+      if (!signer) {
+        throw new Error('Wallet not connected');
+      }
+
+      const factoryAddress = getContractAddress('CROWDSALEFACTORY');
+      if (!factoryAddress) {
+        throw new Error('CrowdsaleFactory address not configured');
+      }
+      const contract = connectCrowdsaleFactory(factoryAddress, signer);
+
+      // 以链上费用为准，避免页面展示的费用已过期
+      const fee = await contract.getCreationFee();
+      setCreationFee(fee);
+
       console.log('Creating crowdsale with params:', safeStringify(params));
-      console.log('Creation fee:', creationFee.toString());
-      
-      // Prepare the struct for the contract call
-      const crowdsaleParams = {
-        tokenName: params.tokenName,
-        tokenSymbol: params.tokenSymbol,
-        totalSupply: params.totalSupply,
-        softCap: params.softCap,
-        hardCap: params.hardCap,
-        startTime: params.startTime,
-        endTime: params.endTime,
-        fundingWallet: params.fundingWallet,
-        tokenPrice: params.tokenPrice,
-        vestingParams: {
-          enabled: params.vestingParams.enabled,
-          cliffDuration: params.vestingParams.cliffDuration,
-          vestingDuration: params.vestingParams.vestingDuration,
-          vestingType: params.vestingParams.vestingType,
-          immediateReleasePercentage: params.vestingParams.immediateReleasePercentage
-        }
-      };
-      
-      const tx = await contract.createCrowdsale(crowdsaleParams, {
-        value: creationFee,
-        gasLimit: 3000000 // Set a reasonable gas limit
-      });
-      
-      console.log('Transaction sent:', tx.hash);
+
+      // 一次部署代币、释放、白名单、众筹和资金库合约，gas 由节点估算
+      const tx = await contract.createCrowdsale(params, { value: fee });
       const receipt = await tx.wait();
-      console.log('Transaction confirmed:', receipt);
-      
-      // Parse the return values from the transaction receipt
-      const event = receipt.logs.find((log: any) => {
-        try {
-          const parsed = contract.interface.parseLog(log);
-          return parsed?.name === 'CrowdsaleCreated';
-        } catch {
-          return false;
-        }
-      });
-      
-      if (event) {
-        const parsed = contract.interface.parseLog(event);
-        return {
-          crowdsaleAddress: parsed.args.crowdsaleAddress,
-          tokenAddress: parsed.args.tokenAddress,
-          vestingAddress: parsed.args.vestingAddress
-        };
+      if (!receipt) {
+        throw new Error('Transaction receipt not available');
       }
-      
-      // Fallback: try to get addresses from transaction result
+
+      const [created] = await resolveCreatedEvents(contract, receipt.logs);
+      if (!created) {
+        throw new Error('CrowdsaleCreated event not found in receipt');
+      }
+
       return {
-        crowdsaleAddress: receipt.logs[0]?.address || '',
-        tokenAddress: receipt.logs[1]?.address || '',
-        vestingAddress: receipt.logs[2]?.address || ''
+        crowdsaleAddress: created.crowdsaleAddress,
+        tokenAddress: created.tokenAddress,
+        vestingAddress: created.vestingAddress ?? '',
+        txHash: tx.hash,
       };
-      
     } catch (err) {
       console.error('Error creating crowdsale:', err);
-      setError(err instanceof Error ? err.message : '创建众筹失败');
-      return null;
+      const message = handleContractError(err);
+      setError(message);
+      throw new Error(message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getSigner]);
+
+  // Create crowdsales through batchCreateCrowdsale, split into chunks that fit in a block
+  const batchCreateCrowdsales = useCallback(async (
+    paramsList: CrowdsaleParams[],
+    onChunk?: (results: BatchCreateResult[], chunkIndex: number, chunkCount: number) => void
+  ): Promise<BatchCreateResult[]> => {
+    const results: BatchCreateResult[] = [];
+
+    try {
+      setError(null);
+      setIsLoading(true);
+
+      const signer = await getSigner();
+      if (!signer?.provider) {
+        throw new Error('Wallet not connected');
+      }
+
+      const factoryAddress = getContractAddress('CROWDSALEFACTORY');
+      if (!factoryAddress) {
+        throw new Error('CrowdsaleFactory address not configured');
+      }
+      const contract = connectCrowdsaleFactory(factoryAddress, signer);
+
+      const [fee, block] = await Promise.all([
+        contract.getCreationFee(),
+        signer.provider.getBlock('latest'),
+      ]);
+      setCreationFee(fee);
+      if (!block) {
+        throw new Error('Latest block not available');
+      }
+
+      // 单个创建的估算包含各自的基础交易开销，累加后略高于批量实际消耗
+      const estimates = await Promise.all(
+        paramsList.map(params => contract.createCrowdsale.estimateGas(params, { value: fee }))
+      );
+      const gasBudget = block.gasLimit * BATCH_GAS_LIMIT_RATIO / 100n;
+      const chunks = planBatchChunks(estimates, gasBudget);
+
+      for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
+        const indexes = chunks[chunkIndex];
+        let chunkResults: BatchCreateResult[];
+
+        try {
+          const chunkGas = indexes.reduce((sum, index) => sum + estimates[index], 0n);
+          const tx = await contract.batchCreateCrowdsale(
+            indexes.map(index => paramsList[index]),
+            {
+              value: fee * BigInt(indexes.length),
+              gasLimit: chunkGas < block.gasLimit ? chunkGas : block.gasLimit,
+            }
+          );
+          const receipt = await tx.wait();
+          if (!receipt) {
+            throw new Error('Transaction receipt not available');
+          }
+
+          // 事件顺序与参数顺序一致
+          const created = await resolveCreatedEvents(contract, receipt.logs);
+
+          chunkResults = indexes.map((index, position) => {
+            const event = created[position];
+            return event
+              ? {
+                index,
+                success: true,
+                crowdsaleAddress: event.crowdsaleAddress,
+                tokenAddress: event.tokenAddress,
+                vestingAddress: event.vestingAddress ?? '',
+                txHash: tx.hash,
+              }
+              : { index, success: false, txHash: tx.hash, error: 'CrowdsaleCreated event not found in receipt' };
+          });
+        } catch (err) {
+          const message = handleContractError(err);
+          chunkResults = indexes.map(index => ({ index, success: false, error: message }));
+        }
+
+        results.push(...chunkResults);
+        onChunk?.(chunkResults, chunkIndex, chunks.length);
+      }
+
+      return results;
+    } catch (err) {
+      console.error('Error batch creating crowdsales:', err);
+      const message = handleContractError(err);
+      setError(message);
+      throw new Error(message);
     } finally {
       setIsLoading(false);
     }
-  }, [signer, getFactoryContract]);
+  }, [getSigner]);
 
   // Validate crowdsale parameters
   const validateCrowdsaleParams = useCallback(async (params: CrowdsaleParams) => {
     try {
       setError(null);
-      const contract = getFactoryContract();
-      
-      const crowdsaleParams = {
-        tokenName: params.tokenName,
-        tokenSymbol: params.tokenSymbol,
-        totalSupply: params.totalSupply,
-        softCap: params.softCap,
-        hardCap: params.hardCap,
-        startTime: params.startTime,
-        endTime: params.endTime,
-        fundingWallet: params.fundingWallet,
-        tokenPrice: params.tokenPrice,
-        vestingParams: {
-          enabled: params.vestingParams.enabled,
-          cliffDuration: params.vestingParams.cliffDuration,
-          vestingDuration: params.vestingParams.vestingDuration,
-          vestingType: params.vestingParams.vestingType,
-          immediateReleasePercentage: params.vestingParams.immediateReleasePercentage
-        }
-      };
-      
-      const result = await contract.validateCrowdsaleParams(crowdsaleParams);
+      const contract = await getFactoryContract();
       
-      return {
-        isValid: result.isValid || result[0],
-        errorMessage: result.errorMessage || result[1] || ''
-      };
+      const [isValid, errorMessage] = await contract.validateCrowdsaleParams(params);
+
+      return { isValid, errorMessage };
     } catch (err) {
       console.error('Error validating crowdsale params:', err);
       setError(err instanceof Error ? err.message : '参数验证失败');
@@ -282,31 +387,41 @@ export function useCrowdsaleFactory(): UseCrowdsaleFactoryReturn {
     }
   }, [getFactoryContract]);
 
+  // Latest block timestamp: the contract checks startTime against block.timestamp,
+  // which can differ from the local clock on forked or local chains
+  const getLatestBlockTimestamp = useCallback(async (): Promise<number | null> => {
+    const provider = await getProvider();
+    const block = provider ? await provider.getBlock('latest') : null;
+    return block ? block.timestamp : null;
+  }, [getProvider]);
+
   // Refresh all data
   const refreshAll = useCallback(async () => {
     setIsLoading(true);
     try {
       await Promise.all([
         fetchActiveCrowdsales(),
-        fetchFactoryStats()
+        fetchFactoryStats(),
+        fetchCreationFee()
       ]);
     } finally {
       setIsLoading(false);
     }
-  }, [fetchActiveCrowdsales, fetchFactoryStats]);
+  }, [fetchActiveCrowdsales, fetchFactoryStats, fetchCreationFee]);
 
-  // Auto-fetch data on mount and when provider changes
+  // Auto-fetch data on mount and when the wallet account changes
   useEffect(() => {
-    if (provider) {
-      refreshAll();
-    }
-  }, [provider, refreshAll]);
+    refreshAll();
+  }, [address, refreshAll]);
 
   return {
     // State
     activeCrowdsales,
     factoryStats,
     creatorCrowdsales,
+    creationFee,
+    variant,
+    capabilities,
     isLoading,
     error,
     
@@ -314,8 +429,11 @@ export function useCrowdsaleFactory(): UseCrowdsaleFactoryReturn {
     fetchActiveCrowdsales,
     fetchFactoryStats,
     fetchCreatorCrowdsales,
+    fetchCreationFee,
     createCrowdsale,
+    batchCreateCrowdsales,
     validateCrowdsaleParams,
+    getLatestBlockTimestamp,
     refreshAll
   };
 }
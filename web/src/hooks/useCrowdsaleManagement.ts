@@ -1,7 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { ethers, formatEther } from 'ethers';
 import { useWallet } from './useWallet';
-import { getContractAddress, getContractABI } from '@/utils/contracts';
+import { getContractAddress } from '@/utils/contracts';
+import { connectCrowdsaleFactory, connectTokenCrowdsale } from '@/generated';
 import { handleContractError } from '@/utils/errorHandler';
 
 interface CrowdsaleData {
@@ -28,8 +29,7 @@ export const useCrowdsaleManagement = () => {
     if (!contractAddress) {
       throw new Error('TokenCrowdsale contract address not configured. Please set VITE_TOKENCROWDSALE_ADDRESS in .env.local');
     }
-    
-    const abi = getContractABI('TokenCrowdsale');
+
     
     // Try to get signer first, fallback to provider
     let runner;
@@ -41,7 +41,7 @@ export const useCrowdsaleManagement = () => {
     
     if (!runner) throw new Error('No wallet connection found');
     
-    return new ethers.Contract(contractAddress, abi, runner);
+    return connectTokenCrowdsale(contractAddress, runner);
   }, [getSigner, getProvider]);
 
   const getFactoryContract = useCallback(async () => {
@@ -49,8 +49,7 @@ export const useCrowdsaleManagement = () => {
     if (!contractAddress) {
       throw new Error('CrowdsaleFactory contract address not configured. Please set VITE_CROWDSALEFACTORY_ADDRESS in .env.local');
     }
-    
-    const abi = getContractABI('CrowdsaleFactory');
+
     
     // Try to get signer first, fallback to provider
     let runner;
@@ -62,7 +61,7 @@ export const useCrowdsaleManagement = () => {
     
     if (!runner) throw new Error('No wallet connection found');
     
-    return new ethers.Contract(contractAddress, abi, runner);
+    return connectCrowdsaleFactory(contractAddress, runner);
   }, [getSigner, getProvider]);
 
   // 获取众筹列表
@@ -0,0 +1,258 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { useWallet } from './useWallet';
+import { useFactoryVariant } from './useFactoryVariant';
+import { getContractAddress } from '@/utils/contracts';
+import { EventSyncer } from '@/utils/eventSync';
+import { connectCrowdsaleFactory } from '@/generated';
+import { handleContractError } from '@/utils/errorHandler';
+import { FactoryFeeEvent, parseFactoryFeeHistory } from '@/utils/factoryAdmin';
+import { supportsEmergencyStopReason } from '@/utils/factoryVariant';
+
+export interface FactoryTemplateAddresses {
+  crowdsale: string;
+  token: string;
+  vesting: string;
+  whitelist: string;
+  vault: string;
+}
+
+export interface FactoryAdminInfo {
+  factoryAddress: string;
+  creationFee: bigint;
+  publicCreationAllowed: boolean;
+  totalCrowdsales: number;
+  activeCrowdsales: number;
+  totalFeesCollected: bigint;
+  balance: bigint; // 可提取的费用余额
+  paused: boolean | null; // 精简版工厂不支持暂停
+  templates: FactoryTemplateAddresses | null;
+  emergencyStopReason: boolean; // 支持把停止原因写入链上，早期部署的工厂只有单参数版本
+}
+
+export interface FactoryCrowdsaleEntry {
+  crowdsaleAddress: string;
+  tokenAddress: string;
+  creator: string;
+  createdAt: number;
+}
+
+export const useFactoryAdmin = () => {
+  const { getSigner, getProvider } = useWallet();
+  const { variant, capabilities } = useFactoryVariant();
+  const [info, setInfo] = useState<FactoryAdminInfo | null>(null);
+  const [feeHistory, setFeeHistory] = useState<FactoryFeeEvent[]>([]);
+  const [activeCrowdsales, setActiveCrowdsales] = useState<FactoryCrowdsaleEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getFactoryContract = useCallback(async () => {
+    const factoryAddress = getContractAddress('CROWDSALEFACTORY');
+    if (!factoryAddress) {
+      throw new Error('CrowdsaleFactory contract address not configured');
+    }
+
+    // Try to get signer first, fallback to provider
+    let runner;
+    try {
+      runner = await getSigner();
+    } catch {
+      runner = await getProvider();
+    }
+
+    if (!runner) throw new Error('No wallet connection found');
+    return connectCrowdsaleFactory(factoryAddress, runner);
+  }, [getSigner, getProvider]);
+
+  const fetchFactoryInfo = useCallback(async () => {
+    const factoryAddress = getContractAddress('CROWDSALEFACTORY');
+    if (!factoryAddress) {
+      setInfo(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const contract = await getFactoryContract();
+      const provider = await getProvider();
+      if (!provider) throw new Error('No wallet connection found');
+
+      const [creationFee, publicCreationAllowed, stats, balance, paused, templates, instances, code] = await Promise.all([
+        contract.getCreationFee(),
+        contract.isPublicCreationAllowed(),
+        contract.getFactoryStats(),
+        provider.getBalance(factoryAddress),
+        capabilities.pausable ? contract.paused() : Promise.resolve(null),
+        capabilities.templates ? contract.getTemplateAddresses() : Promise.resolve(null),
+        contract.getActiveCrowdsales().catch(() => []),
+        provider.getCode(factoryAddress),
+      ]);
+
+      setInfo({
+        factoryAddress,
+        creationFee,
+        publicCreationAllowed,
+        totalCrowdsales: Number(stats.totalCrowdsales),
+        activeCrowdsales: Number(stats.activeCrowdsalesCount),
+        totalFeesCollected: stats.totalFeesCollectedAmount,
+        balance,
+        paused,
+        templates: templates && {
+          crowdsale: templates.crowdsale,
+          token: templates.token,
+          vesting: templates.vesting,
+          whitelist: templates.whitelist,
+          vault: templates.vault,
+        },
+        emergencyStopReason: supportsEmergencyStopReason(code),
+      });
+
+      setActiveCrowdsales(instances.map(instance => ({
+        crowdsaleAddress: instance.crowdsaleAddress,
+        tokenAddress: instance.tokenAddress,
+        creator: instance.creator,
+        createdAt: Number(instance.createdAt),
+      })));
+
+      // 费用变更和提取记录来自本地事件索引，旧版工厂部署未发出这些事件时为空
+      const syncer = new EventSyncer(provider);
+      await syncer.syncContract(factoryAddress);
+      const logs = await syncer.getLogs(factoryAddress);
+      setFeeHistory(parseFactoryFeeHistory(logs.map(log => ({ ...log, index: log.logIndex }))));
+    } catch (error) {
+      console.error('Failed to fetch factory info:', error);
+      setError(handleContractError(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [capabilities, getFactoryContract, getProvider]);
+
+  const setCreationFee = useCallback(async (fee: bigint) => {
+    try {
+      if (fee < 0n) {
+        throw new Error('Invalid creation fee');
+      }
+
+      const contract = await getFactoryContract();
+      const tx = await contract.setCreationFee(fee);
+      await tx.wait();
+
+      await fetchFactoryInfo();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [getFactoryContract, fetchFactoryInfo]);
+
+  const setPublicCreationAllowed = useCallback(async (allowed: boolean) => {
+    try {
+      const contract = await getFactoryContract();
+      const tx = await contract.setPublicCreationAllowed(allowed);
+      await tx.wait();
+
+      await fetchFactoryInfo();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [getFactoryContract, fetchFactoryInfo]);
+
+  const withdrawFees = useCallback(async (to: string, amount: bigint) => {
+    try {
+      if (!ethers.isAddress(to) || to === ethers.ZeroAddress) {
+        throw new Error('Invalid address');
+      }
+      if (amount <= 0n) {
+        throw new Error('Invalid withdrawal amount');
+      }
+      if (info && amount > info.balance) {
+        throw new Error('Insufficient factory balance');
+      }
+
+      const contract = await getFactoryContract();
+      const tx = await contract.withdrawFees(to, amount);
+      await tx.wait();
+
+      await fetchFactoryInfo();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [info, getFactoryContract, fetchFactoryInfo]);
+
+  const setFactoryPaused = useCallback(async (paused: boolean) => {
+    try {
+      if (!capabilities.pausable) {
+        throw new Error('Factory does not support pausing');
+      }
+
+      const contract = await getFactoryContract();
+      const tx = paused ? await contract.pause() : await contract.unpause();
+      await tx.wait();
+
+      await fetchFactoryInfo();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [capabilities, getFactoryContract, fetchFactoryInfo]);
+
+  // 通过工厂保留的 EMERGENCY_ROLE 暂停单个众筹，并在工厂中标记为非活跃。
+  // 工厂没有带原因的重载时调用单参数版本，原因不会上链
+  const emergencyStopCrowdsale = useCallback(async (crowdsaleAddress: string, reason: string) => {
+    try {
+      if (!capabilities.emergencyStop) {
+        throw new Error('Factory does not support emergency stop');
+      }
+      if (!ethers.isAddress(crowdsaleAddress)) {
+        throw new Error('Invalid address');
+      }
+
+      const contract = await getFactoryContract();
+      const provider = await getProvider();
+      if (!provider) throw new Error('No wallet connection found');
+
+      const withReason = supportsEmergencyStopReason(await provider.getCode(await contract.getAddress()));
+      if (withReason && !reason.trim()) {
+        throw new Error('Emergency stop reason is required');
+      }
+
+      const tx = withReason
+        ? await contract['emergencyStopCrowdsale(address,string)'](crowdsaleAddress, reason.trim())
+        : await contract['emergencyStopCrowdsale(address)'](crowdsaleAddress);
+      await tx.wait();
+
+      await fetchFactoryInfo();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [capabilities, getFactoryContract, getProvider, fetchFactoryInfo]);
+
+  useEffect(() => {
+    fetchFactoryInfo();
+  }, [fetchFactoryInfo]);
+
+  return {
+    info,
+    feeHistory,
+    activeCrowdsales,
+    variant,
+    capabilities,
+    loading,
+    error,
+    refresh: fetchFactoryInfo,
+    setCreationFee,
+    setPublicCreationAllowed,
+    withdrawFees,
+    setFactoryPaused,
+    emergencyStopCrowdsale,
+  };
+};
@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { useWallet } from './useWallet';
+import { getContractAddress } from '@/utils/contracts';
+import { connectCrowdsaleFactory } from '@/generated';
+import { handleContractError } from '@/utils/errorHandler';
+import { FACTORY_ROLES } from '@/utils/factoryAdmin';
+
+interface FactoryAdminPermissions {
+  isFactoryAdmin: boolean;
+  isFactoryOperator: boolean;
+  isDefaultAdmin: boolean;
+  loading: boolean;
+  error: string | null;
+}
+
+export const useFactoryAdminAuth = () => {
+  const { address, isConnected, getSigner, getProvider } = useWallet();
+  const [permissions, setPermissions] = useState<FactoryAdminPermissions>({
+    isFactoryAdmin: false,
+    isFactoryOperator: false,
+    isDefaultAdmin: false,
+    loading: false,
+    error: null
+  });
+
+  const getFactoryContract = useCallback(async () => {
+    const contractAddress = getContractAddress('CROWDSALEFACTORY');
+    if (!contractAddress) {
+      throw new Error('CrowdsaleFactory contract address not configured. Please set VITE_CROWDSALEFACTORY_ADDRESS in .env.local');
+    }
+
+    // Try to get signer first, fallback to provider
+    let runner;
+    try {
+      runner = await getSigner();
+    } catch {
+      runner = await getProvider();
+    }
+
+    if (!runner) throw new Error('No wallet connection found');
+
+    return connectCrowdsaleFactory(contractAddress, runner);
+  }, [getSigner, getProvider]);
+
+  const checkPermissions = useCallback(async () => {
+    if (!isConnected || !address) {
+      setPermissions(prev => ({
+        ...prev,
+        isFactoryAdmin: false,
+        isFactoryOperator: false,
+        isDefaultAdmin: false,
+        error: null
+      }));
+      return;
+    }
+
+    setPermissions(prev => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const contract = await getFactoryContract();
+
+      if (!ethers.isAddress(address)) {
+        throw new Error('Invalid wallet address');
+      }
+
+      const [isFactoryAdmin, isFactoryOperator, isDefaultAdmin] = await Promise.all([
+        contract.hasRole(FACTORY_ROLES.FACTORY_ADMIN, address).catch(() => false),
+        contract.hasRole(FACTORY_ROLES.FACTORY_OPERATOR, address).catch(() => false),
+        contract.hasRole(FACTORY_ROLES.DEFAULT_ADMIN, address).catch(() => false)
+      ]);
+
+      setPermissions({
+        isFactoryAdmin,
+        isFactoryOperator,
+        isDefaultAdmin,
+        loading: false,
+        error: null
+      });
+    } catch (error) {
+      console.error('Factory permission check failed:', error);
+      setPermissions(prev => ({
+        ...prev,
+        loading: false,
+        error: handleContractError(error)
+      }));
+    }
+  }, [isConnected, address, getFactoryContract]);
+
+  useEffect(() => {
+    checkPermissions();
+  }, [checkPermissions]);
+
+  return {
+    ...permissions,
+    refreshPermissions: checkPermissions
+  };
+};
@@ -0,0 +1,68 @@
+import { useState, useEffect } from 'react';
+import { useWallet } from './useWallet';
+import { getContractAddress } from '@/utils/contracts';
+import {
+  FACTORY_CAPABILITIES,
+  FactoryCapabilities,
+  FactoryVariant,
+  detectFactoryVariant
+} from '@/utils/factoryVariant';
+
+// 工厂部署后版本不会变化，按地址缓存识别结果
+const variantCache = new Map<string, Promise<FactoryVariant>>();
+
+export const resolveFactoryVariant = (
+  provider: Parameters<typeof detectFactoryVariant>[0],
+  factoryAddress: string
+): Promise<FactoryVariant> => {
+  const key = factoryAddress.toLowerCase();
+  let variant = variantCache.get(key);
+  if (!variant) {
+    variant = detectFactoryVariant(provider, factoryAddress);
+    // 识别失败时允许下次重试
+    variant.catch(() => variantCache.delete(key));
+    variantCache.set(key, variant);
+  }
+  return variant;
+};
+
+export const useFactoryVariant = () => {
+  const { getProvider } = useWallet();
+  const [variant, setVariant] = useState<FactoryVariant | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const detect = async () => {
+      const factoryAddress = getContractAddress('CROWDSALEFACTORY');
+      if (!factoryAddress) return;
+
+      setLoading(true);
+      try {
+        const provider = await getProvider();
+        if (!provider) return;
+        const detected = await resolveFactoryVariant(provider, factoryAddress);
+        if (!cancelled) setVariant(detected);
+      } catch (error) {
+        console.error('Failed to detect factory variant:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    detect();
+    return () => {
+      cancelled = true;
+    };
+  }, [getProvider]);
+
+  // 识别完成前按完整版展示，避免功能闪烁消失
+  const capabilities: FactoryCapabilities = FACTORY_CAPABILITIES[variant ?? 'full'];
+
+  return {
+    variant,
+    capabilities,
+    loading,
+  };
+};
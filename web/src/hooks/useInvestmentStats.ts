@@ -30,7 +30,7 @@ export interface VestingSchedule {
   startTime: number;
   endTime: number;
   cliffTime: number;
-  vestingType: 'LINEAR' | 'CLIFF' | 'STEPPED' | 'MILESTONE';
+  vestingType: 'LINEAR' | 'CLIFF' | 'STEPPED' | 'MILESTONE' | 'CUSTOM';
   isRevocable: boolean;
   isRevoked: boolean;
   releaseProgress: number;
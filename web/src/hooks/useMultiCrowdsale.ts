@@ -1,7 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { ethers } from 'ethers';
 import { useWallet } from '@/hooks/useWallet';
-import { getContractAddress, getContractABI } from '@/utils/contracts';
+import { getContractAddress } from '@/utils/contracts';
+import { connectCrowdsaleToken, connectTokenCrowdsale } from '@/generated';
 import { handleContractError } from '@/utils/errorHandler';
 import { getTokenPrice } from '@/utils/priceApi';
 
@@ -43,17 +44,15 @@ export const useMultiCrowdsale = () => {
   const getCrowdsaleContract = useCallback(async (address: string) => {
     const provider = await getProvider();
     if (!provider) throw new Error('No provider available');
-    
-    const abi = getContractABI('TokenCrowdsale');
-    return new ethers.Contract(address, abi, provider);
+
+    return connectTokenCrowdsale(address, provider);
   }, [getProvider]);
 
   const getTokenContract = useCallback(async (address: string) => {
     const provider = await getProvider();
     if (!provider) throw new Error('No provider available');
-    
-    const abi = getContractABI('CrowdsaleToken');
-    return new ethers.Contract(address, abi, provider);
+
+    return connectCrowdsaleToken(address, provider);
   }, [getProvider]);
 
   const fetchProjectDetails = useCallback(async (crowdsaleAddress: string): Promise<CrowdsaleProject | null> => {
@@ -85,7 +84,7 @@ export const useMultiCrowdsale = () => {
 
       // 转换阶段枚举
       const phaseNames = ['PENDING', 'PRESALE', 'PUBLIC_SALE', 'FINALIZED'];
-      const phaseName = phaseNames[currentPhase] || 'PENDING';
+      const phaseName = phaseNames[Number(currentPhase)] || 'PENDING';
 
       return {
         address: crowdsaleAddress,
@@ -94,13 +93,13 @@ export const useMultiCrowdsale = () => {
         tokenAddress,
         softCap: ethers.formatEther(config.softCap),
         hardCap: ethers.formatEther(config.hardCap),
-        startTime: Number(config.startTime),
-        endTime: Number(config.endTime),
+        startTime: Number(config.presaleStartTime),
+        endTime: Number(config.publicSaleEndTime),
         currentPhase: phaseName as any,
         totalRaised: ethers.formatEther(stats.totalRaised),
         tokenPrice: tokenPrice.priceUSD,
         progress,
-        isActive: currentPhase < 3 && Date.now() / 1000 < Number(config.endTime)
+        isActive: currentPhase < 3n && Date.now() / 1000 < Number(config.publicSaleEndTime)
       };
     } catch (error) {
       console.error(`Failed to fetch project details for ${crowdsaleAddress}:`, error);
@@ -0,0 +1,165 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ethers } from 'ethers';
+import { useWallet } from './useWallet';
+import { connectTokenCrowdsale } from '@/generated';
+import { handleContractError } from '@/utils/errorHandler';
+import { EventSyncer } from '@/utils/eventSync';
+import { decodeLogToTransaction, getEventInterface } from '@/utils/eventDecoder';
+import { PhaseChangeTransaction, TransactionType } from '@/types/transactionTypes';
+import { CrowdsaleConfig, CrowdsalePhase } from '@/types/contracts';
+import { PhaseTransitionMethod } from '@/utils/crowdsalePhases';
+
+export interface PhaseControlInfo {
+  config: CrowdsaleConfig;
+  phase: CrowdsalePhase;
+  paused: boolean;
+  hardCapReached: boolean;
+  isCrowdsaleAdmin: boolean;
+}
+
+export const usePhaseControl = (crowdsaleAddress?: string) => {
+  const { address, getSigner, getProvider } = useWallet();
+  const [info, setInfo] = useState<PhaseControlInfo | null>(null);
+  const [history, setHistory] = useState<PhaseChangeTransaction[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const historyPhaseRef = useRef<CrowdsalePhase | null>(null);
+
+  const getCrowdsaleContract = useCallback(async () => {
+    if (!crowdsaleAddress) {
+      throw new Error('Crowdsale address not configured');
+    }
+
+    // Try to get signer first, fallback to provider
+    let runner;
+    try {
+      runner = await getSigner();
+    } catch {
+      runner = await getProvider();
+    }
+
+    if (!runner) throw new Error('No wallet connection found');
+    return connectTokenCrowdsale(crowdsaleAddress, runner);
+  }, [crowdsaleAddress, getSigner, getProvider]);
+
+  // 从本地事件索引中的 PhaseChanged 事件读取阶段切换记录
+  const fetchHistory = useCallback(async (provider: ethers.Provider, contractAddress: string) => {
+    const topic = getEventInterface('TokenCrowdsale').getEvent('PhaseChanged')!.topicHash;
+
+    const syncer = new EventSyncer(provider);
+    await syncer.syncContract(contractAddress);
+    const logs = (await syncer.getLogs(contractAddress)).filter(log => log.topics[0] === topic);
+
+    const transactions = await Promise.all(logs.map(async (log) =>
+      decodeLogToTransaction('TokenCrowdsale', log, {
+        timestamp: await syncer.getBlockTimestamp(log.blockNumber),
+        sender: '',
+      })
+    ));
+
+    return transactions
+      .filter((tx): tx is PhaseChangeTransaction => tx?.type === TransactionType.PHASE_CHANGE)
+      .sort((a, b) => b.blockNumber - a.blockNumber || b.id.localeCompare(a.id));
+  }, []);
+
+  // 定时刷新只读取合约状态，阶段变化后才重新同步切换记录
+  const loadPhase = useCallback(async (forceHistory: boolean) => {
+    if (!crowdsaleAddress) {
+      setInfo(null);
+      setHistory([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const contract = await getCrowdsaleContract();
+      const [config, phase, paused, hardCapReached] = await Promise.all([
+        contract.getCrowdsaleConfig(),
+        contract.getCurrentPhase(),
+        contract.paused(),
+        contract.isHardCapReached(),
+      ]);
+
+      const adminRole = ethers.keccak256(ethers.toUtf8Bytes('CROWDSALE_ADMIN_ROLE'));
+      const isCrowdsaleAdmin = address
+        ? await contract.hasRole(adminRole, address).catch(() => false)
+        : false;
+
+      const currentPhase = Number(phase) as CrowdsalePhase;
+      setInfo({
+        config: {
+          presaleStartTime: config.presaleStartTime,
+          presaleEndTime: config.presaleEndTime,
+          publicSaleStartTime: config.publicSaleStartTime,
+          publicSaleEndTime: config.publicSaleEndTime,
+          softCap: config.softCap,
+          hardCap: config.hardCap,
+          minPurchase: config.minPurchase,
+          maxPurchase: config.maxPurchase,
+        },
+        phase: currentPhase,
+        paused,
+        hardCapReached,
+        isCrowdsaleAdmin,
+      });
+
+      const provider = await getProvider();
+      if (provider && (forceHistory || historyPhaseRef.current !== currentPhase)) {
+        setHistory(await fetchHistory(provider, crowdsaleAddress));
+        historyPhaseRef.current = currentPhase;
+      }
+    } catch (error) {
+      console.error('Failed to fetch crowdsale phase:', error);
+      setError(handleContractError(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [crowdsaleAddress, address, getCrowdsaleContract, getProvider, fetchHistory]);
+
+  const fetchPhase = useCallback(() => loadPhase(true), [loadPhase]);
+
+  // 发送阶段切换交易
+  const executeTransition = useCallback(async (method: PhaseTransitionMethod) => {
+    try {
+      const contract = await getCrowdsaleContract();
+      let tx;
+      switch (method) {
+        case 'startPresale':
+          tx = await contract.startPresale();
+          break;
+        case 'startPublicSale':
+          tx = await contract.startPublicSale();
+          break;
+        case 'finalizeCrowdsale':
+          tx = await contract.finalizeCrowdsale();
+          break;
+      }
+      await tx.wait();
+
+      await fetchPhase();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [getCrowdsaleContract, fetchPhase]);
+
+  useEffect(() => {
+    fetchPhase();
+
+    // 定时刷新，及时反映链上阶段变化
+    const interval = setInterval(() => loadPhase(false), 30000);
+    return () => clearInterval(interval);
+  }, [fetchPhase, loadPhase]);
+
+  return {
+    info,
+    history,
+    loading,
+    error,
+    refresh: fetchPhase,
+    executeTransition,
+  };
+};
@@ -0,0 +1,250 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ethers, parseEther } from 'ethers';
+import { useWallet } from './useWallet';
+import { connectFixedPricingStrategy, connectTieredPricingStrategy, connectTokenCrowdsale } from '@/generated';
+import { handleContractError } from '@/utils/errorHandler';
+import { PricingType, PriceTier, WhitelistLevel } from '@/types/contracts';
+import { MAX_DISCOUNT, TierInput, planTierChanges, validateTiers } from '@/utils/pricingUtils';
+
+export interface PricingAdminInfo {
+  strategyAddress: string;
+  pricingType: PricingType;
+  currentPrice: bigint;
+  basePrice: bigint;
+  tiers: PriceTier[];
+  discounts: Record<WhitelistLevel.WHITELISTED | WhitelistLevel.VIP, bigint>; // basis points
+  isPricingAdmin: boolean;
+  isCrowdsaleAdmin: boolean;
+}
+
+export const usePricingAdmin = (crowdsaleAddress?: string) => {
+  const { address, getSigner, getProvider } = useWallet();
+  const [info, setInfo] = useState<PricingAdminInfo | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getRunner = useCallback(async () => {
+    // Try to get signer first, fallback to provider
+    let runner;
+    try {
+      runner = await getSigner();
+    } catch {
+      runner = await getProvider();
+    }
+
+    if (!runner) throw new Error('No wallet connection found');
+    return runner;
+  }, [getSigner, getProvider]);
+
+  const getCrowdsaleContract = useCallback(async () => {
+    if (!crowdsaleAddress) {
+      throw new Error('Crowdsale address not configured');
+    }
+    return connectTokenCrowdsale(crowdsaleAddress, await getRunner());
+  }, [crowdsaleAddress, getRunner]);
+
+  const getStrategyContract = useCallback(async () => {
+    if (!info) {
+      throw new Error('Pricing strategy not loaded');
+    }
+    return connectTieredPricingStrategy(info.strategyAddress, await getRunner());
+  }, [info, getRunner]);
+
+  const fetchPricingInfo = useCallback(async () => {
+    if (!crowdsaleAddress) {
+      setInfo(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const crowdsale = await getCrowdsaleContract();
+      const strategyAddress = await crowdsale.pricingStrategy();
+      if (!strategyAddress || strategyAddress === ethers.ZeroAddress) {
+        throw new Error('Pricing strategy not set');
+      }
+
+      const strategy = connectTieredPricingStrategy(strategyAddress, crowdsale.runner);
+      const pricingType = Number(await strategy.getPricingType()) as PricingType;
+
+      const [currentPrice, whitelistedDiscount, vipDiscount] = await Promise.all([
+        strategy.getCurrentPrice(),
+        strategy.whitelistDiscounts(WhitelistLevel.WHITELISTED),
+        strategy.whitelistDiscounts(WhitelistLevel.VIP),
+      ]);
+
+      let tiers: PriceTier[] = [];
+      let basePrice: bigint;
+      if (pricingType === PricingType.TIERED) {
+        const rawTiers = await strategy.getAllTiers();
+        tiers = rawTiers.map(tier => ({
+          progressThreshold: BigInt(tier.progressThreshold.toString()),
+          pricePerToken: BigInt(tier.pricePerToken.toString()),
+          isActive: tier.isActive,
+        }));
+        // 阶梯定价的基础价格为第一档价格
+        basePrice = tiers.length > 0 ? tiers[0].pricePerToken : 0n;
+      } else {
+        // basePrice 仅固定价格策略提供
+        basePrice = await connectFixedPricingStrategy(strategyAddress, crowdsale.runner).basePrice();
+      }
+
+      const pricingAdminRole = ethers.keccak256(ethers.toUtf8Bytes('PRICING_ADMIN_ROLE'));
+      const crowdsaleAdminRole = ethers.keccak256(ethers.toUtf8Bytes('CROWDSALE_ADMIN_ROLE'));
+      const [isPricingAdmin, isCrowdsaleAdmin] = address
+        ? await Promise.all([
+            strategy.hasRole(pricingAdminRole, address).catch(() => false),
+            crowdsale.hasRole(crowdsaleAdminRole, address).catch(() => false),
+          ])
+        : [false, false];
+
+      setInfo({
+        strategyAddress,
+        pricingType,
+        currentPrice: BigInt(currentPrice.toString()),
+        basePrice,
+        tiers,
+        discounts: {
+          [WhitelistLevel.WHITELISTED]: BigInt(whitelistedDiscount.toString()),
+          [WhitelistLevel.VIP]: BigInt(vipDiscount.toString()),
+        },
+        isPricingAdmin,
+        isCrowdsaleAdmin,
+      });
+    } catch (error) {
+      console.error('Failed to fetch pricing strategy:', error);
+      setError(handleContractError(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [crowdsaleAddress, address, getCrowdsaleContract]);
+
+  // 将草稿档位逐笔提交为 updateTier / addTier 交易
+  const saveTiers = useCallback(async (draft: TierInput[]) => {
+    try {
+      if (!info || info.pricingType !== PricingType.TIERED) {
+        throw new Error('Current pricing strategy does not support tiers');
+      }
+
+      const errors = validateTiers(draft);
+      if (errors.length > 0) {
+        throw new Error(errors[0]);
+      }
+
+      const changes = planTierChanges(info.tiers, draft);
+      if (changes.length === 0) {
+        throw new Error('No tier changes to submit');
+      }
+
+      const contract = await getStrategyContract();
+      let lastTxHash = '';
+      for (const change of changes) {
+        const tx = change.type === 'add'
+          ? await contract.addTier(change.progressThreshold, change.pricePerToken)
+          : await contract.updateTier(change.index, change.progressThreshold, change.pricePerToken);
+        await tx.wait();
+        lastTxHash = tx.hash;
+      }
+
+      await fetchPricingInfo();
+
+      return { success: true, txHash: lastTxHash, count: changes.length };
+    } catch (error) {
+      // 部分交易可能已上链，刷新以反映最新状态
+      await fetchPricingInfo();
+      throw new Error(handleContractError(error));
+    }
+  }, [info, getStrategyContract, fetchPricingInfo]);
+
+  const setBasePrice = useCallback(async (price: string) => {
+    try {
+      const newPrice = parseEther(price);
+      if (newPrice <= 0n) {
+        throw new Error('Invalid price');
+      }
+
+      const contract = await getStrategyContract();
+      const tx = await contract.setBasePrice(newPrice);
+      await tx.wait();
+
+      await fetchPricingInfo();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [getStrategyContract, fetchPricingInfo]);
+
+  const setWhitelistDiscount = useCallback(async (level: WhitelistLevel, discount: bigint) => {
+    try {
+      if (discount < 0n || discount > MAX_DISCOUNT) {
+        throw new Error('Discount too high');
+      }
+
+      const contract = await getStrategyContract();
+      const tx = await contract.setWhitelistDiscount(level, discount);
+      await tx.wait();
+
+      await fetchPricingInfo();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [getStrategyContract, fetchPricingInfo]);
+
+  // 更换众筹使用的定价策略合约
+  const setPricingStrategy = useCallback(async (strategyAddress: string) => {
+    try {
+      if (!ethers.isAddress(strategyAddress)) {
+        throw new Error('Invalid address');
+      }
+
+      const crowdsale = await getCrowdsaleContract();
+
+      // 确认目标地址实现了定价策略接口
+      const candidate = connectTieredPricingStrategy(strategyAddress, crowdsale.runner);
+      await candidate.getPricingType();
+
+      const tx = await crowdsale.setPricingStrategy(strategyAddress);
+      await tx.wait();
+
+      await fetchPricingInfo();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [getCrowdsaleContract, fetchPricingInfo]);
+
+  // 使用当前链上策略计算给定金额可获得的代币数量
+  const previewTokenAmount = useCallback(async (ethAmount: string, buyer?: string): Promise<bigint> => {
+    const target = buyer || address;
+    if (!target) {
+      throw new Error('No wallet connected');
+    }
+
+    const weiAmount = parseEther(ethAmount);
+    const contract = await getStrategyContract();
+    const result = await contract.calculateTokenAmount(weiAmount, target);
+    return BigInt(result.toString());
+  }, [address, getStrategyContract]);
+
+  useEffect(() => {
+    fetchPricingInfo();
+  }, [fetchPricingInfo]);
+
+  return {
+    info,
+    loading,
+    error,
+    refresh: fetchPricingInfo,
+    saveTiers,
+    setBasePrice,
+    setWhitelistDiscount,
+    setPricingStrategy,
+    previewTokenAmount,
+  };
+};
@@ -0,0 +1,189 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ethers, formatEther } from 'ethers';
+import { useWallet } from '@/hooks/useWallet';
+import { getContractAddress } from '@/utils/contracts';
+import { connectRefundVault, connectTokenCrowdsale } from '@/generated';
+import { handleContractError } from '@/utils/errorHandler';
+import { TransactionType, TransactionStatus } from '@/types/wallet';
+import { VaultState } from '@/types/contracts';
+import { useWalletStore } from '@/stores/walletStore';
+import toast from 'react-hot-toast';
+
+export interface RefundVaultInfo {
+  vaultAddress: string;
+  crowdsaleAddress: string;
+  state: VaultState;
+  depositedAmount: string; // ETH amount
+  depositTime: number; // Unix timestamp
+  refunded: boolean;
+  refundAmount: string; // ETH amount
+  canRefund: boolean;
+}
+
+// 通过众筹合约查找对应的资金托管合约
+export const resolveRefundVaultAddress = async (
+  runner: ethers.ContractRunner,
+  crowdsaleAddress: string
+): Promise<string | null> => {
+  try {
+    const crowdsale = connectTokenCrowdsale(crowdsaleAddress, runner);
+    const vaultAddress = await crowdsale.refundVault();
+    if (vaultAddress && vaultAddress !== ethers.ZeroAddress) {
+      return vaultAddress;
+    }
+  } catch (resolveError) {
+    console.warn(`Failed to resolve refund vault for ${crowdsaleAddress}:`, resolveError);
+  }
+
+  // 回退到环境变量配置的默认托管合约（仅适用于默认众筹）
+  const defaultCrowdsale = getContractAddress('TOKENCROWDSALE');
+  if (defaultCrowdsale && defaultCrowdsale.toLowerCase() === crowdsaleAddress.toLowerCase()) {
+    return getContractAddress('REFUNDVAULT');
+  }
+  return null;
+};
+
+export const useRefundVault = (userAddress?: string, crowdsaleAddresses: string[] = []) => {
+  const { getProvider, getSigner } = useWallet();
+  const { addTransaction, updateTransaction } = useWalletStore();
+  const [vaults, setVaults] = useState<RefundVaultInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [refundingVault, setRefundingVault] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // 用字符串作为依赖，避免数组引用变化导致重复请求
+  const crowdsaleKey = crowdsaleAddresses.join(',');
+
+  const getVaultContract = useCallback(async (vaultAddress: string) => {
+    const provider = await getProvider();
+    if (!provider) return null;
+    return connectRefundVault(vaultAddress, provider);
+  }, [getProvider]);
+
+  const fetchVaults = useCallback(async () => {
+    const crowdsales = crowdsaleKey ? crowdsaleKey.split(',') : [];
+    if (!userAddress || crowdsales.length === 0) {
+      setVaults([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const provider = await getProvider();
+      if (!provider) {
+        setVaults([]);
+        return;
+      }
+
+      const vaultInfos: RefundVaultInfo[] = [];
+
+      for (const crowdsaleAddress of crowdsales) {
+        try {
+          const vaultAddress = await resolveRefundVaultAddress(provider, crowdsaleAddress);
+          if (!vaultAddress) continue;
+
+          const vault = await getVaultContract(vaultAddress);
+          if (!vault) continue;
+
+          const [state, deposit, canRefund] = await Promise.all([
+            vault.state(),
+            vault.getDeposit(userAddress),
+            vault.canRefund(userAddress)
+          ]);
+
+          vaultInfos.push({
+            vaultAddress,
+            crowdsaleAddress,
+            state: Number(state) as VaultState,
+            depositedAmount: formatEther(deposit.amount),
+            depositTime: Number(deposit.timestamp),
+            refunded: deposit.refunded,
+            refundAmount: formatEther(deposit.refundAmount),
+            canRefund
+          });
+        } catch (vaultError) {
+          console.warn(`Failed to fetch refund vault for crowdsale ${crowdsaleAddress}:`, vaultError);
+        }
+      }
+
+      setVaults(vaultInfos);
+    } catch (error) {
+      console.error('Failed to fetch refund vaults:', error);
+      setError(handleContractError(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [userAddress, crowdsaleKey, getProvider, getVaultContract]);
+
+  const claimRefund = useCallback(async (vaultAddress: string) => {
+    if (!userAddress) {
+      toast.error('请先连接钱包');
+      return;
+    }
+
+    try {
+      setRefundingVault(vaultAddress);
+      const signer = await getSigner();
+      if (!signer) {
+        toast.error('获取签名者失败');
+        return;
+      }
+
+      const vault = connectRefundVault(vaultAddress, signer);
+
+      const canRefund = await vault.canRefund(userAddress);
+      if (!canRefund) {
+        toast.error('当前不满足退款条件');
+        return;
+      }
+
+      const deposit = await vault.getDeposit(userAddress);
+      const tx = await vault.refund(userAddress);
+
+      addTransaction({
+        hash: tx.hash,
+        type: TransactionType.REFUND,
+        status: TransactionStatus.PENDING,
+        data: { vaultAddress, amount: formatEther(deposit.amount) },
+      });
+
+      toast.success('退款交易已提交，等待确认...');
+      const receipt = await tx.wait();
+
+      if (receipt?.status === 1) {
+        updateTransaction(tx.hash, {
+          status: TransactionStatus.CONFIRMED,
+          gasUsed: receipt.gasUsed,
+        });
+        toast.success('退款成功！ETH已退回您的钱包');
+      } else {
+        updateTransaction(tx.hash, { status: TransactionStatus.FAILED });
+        toast.error('退款交易失败');
+      }
+
+      await fetchVaults();
+    } catch (error) {
+      console.error('Refund failed:', error);
+      toast.error('退款失败：' + handleContractError(error));
+    } finally {
+      setRefundingVault(null);
+    }
+  }, [userAddress, getSigner, addTransaction, updateTransaction, fetchVaults]);
+
+  useEffect(() => {
+    fetchVaults();
+  }, [fetchVaults]);
+
+  return {
+    vaults,
+    loading,
+    error,
+    refundingVault,
+    claimRefund,
+    refresh: fetchVaults,
+  };
+};
+
+export default useRefundVault;
@@ -0,0 +1,223 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { useWallet } from './useWallet';
+import { getContractAddress } from '@/utils/contracts';
+import {
+  connectCrowdsaleFactory,
+  connectCrowdsaleToken,
+  connectRefundVault,
+  connectTieredPricingStrategy,
+  connectTokenCrowdsale,
+  connectTokenVesting,
+  connectWhitelistManager
+} from '@/generated';
+import { handleContractError } from '@/utils/errorHandler';
+import { EventSyncer } from '@/utils/eventSync';
+import {
+  RoleAssignment,
+  RoleContractKind,
+  RoleEvent,
+  getRoleName,
+  reconstructRoleMembers
+} from '@/utils/accessRoles';
+
+// 所有合约的 AccessControl 接口相同，定价策略统一按 TieredPricingStrategy 的 ABI 连接
+const ROLE_CONNECTORS = {
+  crowdsale: connectTokenCrowdsale,
+  token: connectCrowdsaleToken,
+  vesting: connectTokenVesting,
+  vault: connectRefundVault,
+  whitelist: connectWhitelistManager,
+  pricing: connectTieredPricingStrategy,
+  factory: connectCrowdsaleFactory,
+};
+
+export interface RoleContractTarget {
+  kind: RoleContractKind;
+  address: string;
+}
+
+export interface RoleContractState extends RoleContractTarget {
+  assignments: RoleAssignment[];
+  error?: string;
+}
+
+export const useRoleExplorer = () => {
+  const { getSigner, getProvider } = useWallet();
+  const [contracts, setContracts] = useState<RoleContractState[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getRoleContract = useCallback(async (kind: RoleContractKind, address: string) => {
+    // Try to get signer first, fallback to provider
+    let runner;
+    try {
+      runner = await getSigner();
+    } catch {
+      runner = await getProvider();
+    }
+
+    if (!runner) throw new Error('No wallet connection found');
+    return ROLE_CONNECTORS[kind](address, runner);
+  }, [getSigner, getProvider]);
+
+  // 已配置的合约地址，代币和定价策略从众筹合约读取，未配置的释放、托管、白名单合约也由众筹合约补齐
+  const resolveTargets = useCallback(async (provider: ethers.Provider): Promise<RoleContractTarget[]> => {
+    const addresses: Partial<Record<RoleContractKind, string | null>> = {
+      crowdsale: getContractAddress('TOKENCROWDSALE'),
+      vesting: getContractAddress('TOKENVESTING'),
+      vault: getContractAddress('REFUNDVAULT'),
+      whitelist: getContractAddress('WHITELISTMANAGER'),
+      factory: getContractAddress('CROWDSALEFACTORY'),
+    };
+
+    if (addresses.crowdsale) {
+      const crowdsale = connectTokenCrowdsale(addresses.crowdsale, provider);
+      const [token, pricing, vesting, vault, whitelist] = await Promise.all([
+        crowdsale.token(),
+        crowdsale.pricingStrategy(),
+        crowdsale.vestingContract(),
+        crowdsale.refundVault(),
+        crowdsale.whitelistManager(),
+      ]);
+      addresses.token = token;
+      addresses.pricing = pricing;
+      addresses.vesting = addresses.vesting || vesting;
+      addresses.vault = addresses.vault || vault;
+      addresses.whitelist = addresses.whitelist || whitelist;
+    }
+
+    return (Object.keys(ROLE_CONNECTORS) as RoleContractKind[])
+      .filter(kind => addresses[kind] && addresses[kind] !== ethers.ZeroAddress)
+      .map(kind => ({ kind, address: addresses[kind]! }));
+  }, []);
+
+  // 从本地事件索引中的 RoleGranted / RoleRevoked 事件重建角色持有者，再读取每个角色的管理角色
+  const fetchAssignments = useCallback(async (provider: ethers.Provider, syncer: EventSyncer, target: RoleContractTarget) => {
+    const contract = ROLE_CONNECTORS[target.kind](target.address, provider);
+    const roleTopics = new Set([
+      contract.interface.getEvent('RoleGranted')!.topicHash,
+      contract.interface.getEvent('RoleRevoked')!.topicHash,
+    ]);
+
+    await syncer.syncContract(target.address);
+    const logs = (await syncer.getLogs(target.address)).filter(log => roleTopics.has(log.topics[0]));
+
+    const events: RoleEvent[] = logs.flatMap(log => {
+      const parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed) return [];
+      return [{
+        role: parsed.args.role,
+        account: parsed.args.account,
+        granted: parsed.name === 'RoleGranted',
+        blockNumber: log.blockNumber,
+        logIndex: log.logIndex,
+      }];
+    });
+
+    const members = reconstructRoleMembers(events);
+    const assignments = await Promise.all([...members].map(async ([role, holders]): Promise<RoleAssignment> => ({
+      role,
+      name: getRoleName(role),
+      adminRole: (await contract.getRoleAdmin(role)).toLowerCase(),
+      members: holders,
+    })));
+
+    return assignments.sort((a, b) => a.name.localeCompare(b.name));
+  }, []);
+
+  const fetchRoles = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const provider = await getProvider();
+      if (!provider) throw new Error('No wallet connection found');
+
+      const targets = await resolveTargets(provider);
+      const syncer = new EventSyncer(provider);
+
+      // 逐个合约同步，避免对节点并发发起大量查询
+      const states: RoleContractState[] = [];
+      for (const target of targets) {
+        try {
+          states.push({ ...target, assignments: await fetchAssignments(provider, syncer, target) });
+        } catch (error) {
+          console.error(`Failed to load roles for ${target.kind}:`, error);
+          states.push({ ...target, assignments: [], error: handleContractError(error) });
+        }
+      }
+
+      setContracts(states);
+    } catch (error) {
+      console.error('Failed to fetch role assignments:', error);
+      setError(handleContractError(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [getProvider, resolveTargets, fetchAssignments]);
+
+  const grantRole = useCallback(async (target: RoleContractTarget, role: string, account: string) => {
+    try {
+      if (!ethers.isAddress(account)) {
+        throw new Error('Invalid Ethereum address format');
+      }
+
+      const contract = await getRoleContract(target.kind, target.address);
+      const tx = await contract.grantRole(role, account);
+      await tx.wait();
+
+      await fetchRoles();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [getRoleContract, fetchRoles]);
+
+  const revokeRole = useCallback(async (target: RoleContractTarget, role: string, account: string) => {
+    try {
+      const contract = await getRoleContract(target.kind, target.address);
+      const tx = await contract.revokeRole(role, account);
+      await tx.wait();
+
+      await fetchRoles();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [getRoleContract, fetchRoles]);
+
+  // 放弃自己持有的角色，合约要求传入调用者地址作为确认
+  const renounceRole = useCallback(async (target: RoleContractTarget, role: string) => {
+    try {
+      const signer = await getSigner();
+      if (!signer) throw new Error('No wallet connected');
+
+      const contract = await getRoleContract(target.kind, target.address);
+      const tx = await contract.renounceRole(role, await signer.getAddress());
+      await tx.wait();
+
+      await fetchRoles();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [getSigner, getRoleContract, fetchRoles]);
+
+  useEffect(() => {
+    fetchRoles();
+  }, [fetchRoles]);
+
+  return {
+    contracts,
+    loading,
+    error,
+    refresh: fetchRoles,
+    grantRole,
+    revokeRole,
+    renounceRole,
+  };
+};
@@ -0,0 +1,155 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { useWallet } from '@/hooks/useWallet';
+import {
+  TieredPricingStrategyContract,
+  TokenCrowdsaleContract,
+  connectTieredPricingStrategy,
+  connectTokenCrowdsale
+} from '@/generated';
+import { handleContractError } from '@/utils/errorHandler';
+import { PricingType, PriceTier } from '@/types/contracts';
+import { getRemainingUntilNextTier } from '@/utils/pricingUtils';
+
+export interface TieredPricingInfo {
+  strategyAddress: string;
+  tiers: PriceTier[];
+  currentTierIndex: number;
+  currentProgress: number; // basis points
+  totalRaised: bigint;
+  hardCap: bigint;
+  currentPrice: bigint;
+  nextPrice: bigint | null;
+  remainingUntilNextTier: bigint | null; // wei
+}
+
+export const useTieredPricing = (crowdsaleAddress?: string) => {
+  const { getProvider } = useWallet();
+  const [pricing, setPricing] = useState<TieredPricingInfo | null>(null);
+  const [strategyAddress, setStrategyAddress] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPricing = useCallback(async () => {
+    if (!crowdsaleAddress) {
+      setPricing(null);
+      setStrategyAddress(null);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const provider = await getProvider();
+      if (!provider) {
+        setPricing(null);
+        return;
+      }
+
+      const crowdsale = connectTokenCrowdsale(crowdsaleAddress, provider);
+      const address = await crowdsale.pricingStrategy();
+      if (!address || address === ethers.ZeroAddress) {
+        setPricing(null);
+        setStrategyAddress(null);
+        return;
+      }
+
+      const strategy = connectTieredPricingStrategy(address, provider);
+      const pricingType = Number(await strategy.getPricingType());
+
+      // 仅阶梯定价策略有档位信息
+      if (pricingType !== PricingType.TIERED) {
+        setPricing(null);
+        setStrategyAddress(null);
+        return;
+      }
+
+      const [rawTiers, tierInfo, stats, config] = await Promise.all([
+        strategy.getAllTiers(),
+        strategy.getCurrentTierInfo(),
+        crowdsale.getCrowdsaleStats(),
+        crowdsale.getCrowdsaleConfig(),
+      ]);
+
+      const tiers: PriceTier[] = rawTiers.map(tier => ({
+        progressThreshold: tier.progressThreshold,
+        pricePerToken: tier.pricePerToken,
+        isActive: tier.isActive,
+      }));
+
+      const totalRaised = BigInt(stats.totalRaised.toString());
+      const hardCap = BigInt(config.hardCap.toString());
+      const currentTierIndex = Number(tierInfo.tierIndex);
+      const currentTier = tiers[currentTierIndex];
+      const nextTier = tiers[currentTierIndex + 1];
+
+      setStrategyAddress(address);
+      setPricing({
+        strategyAddress: address,
+        tiers,
+        currentTierIndex,
+        currentProgress: Number(tierInfo.currentProgress),
+        totalRaised,
+        hardCap,
+        currentPrice: BigInt(tierInfo.pricePerToken.toString()),
+        nextPrice: nextTier ? nextTier.pricePerToken : null,
+        remainingUntilNextTier: currentTier && nextTier
+          ? getRemainingUntilNextTier(currentTier, totalRaised, hardCap)
+          : null,
+      });
+    } catch (error) {
+      console.error('Failed to fetch tiered pricing:', error);
+      setError(handleContractError(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [crowdsaleAddress, getProvider]);
+
+  useEffect(() => {
+    fetchPricing();
+  }, [fetchPricing]);
+
+  // 档位由募资进度决定，每次购买后重新读取进度；档位配置变更时同样刷新
+  useEffect(() => {
+    if (!crowdsaleAddress || !strategyAddress) return;
+
+    let crowdsale: TokenCrowdsaleContract | null = null;
+    let strategy: TieredPricingStrategyContract | null = null;
+    let cancelled = false;
+
+    const handleChange = () => {
+      fetchPricing();
+    };
+
+    (async () => {
+      const provider = await getProvider();
+      if (!provider || cancelled) return;
+
+      crowdsale = connectTokenCrowdsale(crowdsaleAddress, provider);
+      strategy = connectTieredPricingStrategy(strategyAddress, provider);
+      await Promise.all([
+        crowdsale.on('TokensPurchased', handleChange),
+        strategy.on('TierAdded', handleChange),
+        strategy.on('TierUpdated', handleChange),
+      ]);
+    })().catch((listenError) => {
+      console.warn('Failed to subscribe to pricing events:', listenError);
+    });
+
+    return () => {
+      cancelled = true;
+      crowdsale?.removeAllListeners();
+      strategy?.removeAllListeners();
+    };
+  }, [crowdsaleAddress, strategyAddress, getProvider, fetchPricing]);
+
+  return {
+    pricing,
+    loading,
+    error,
+    refresh: fetchPricing,
+  };
+};
+
+export default useTieredPricing;
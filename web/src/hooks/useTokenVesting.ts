@@ -1,9 +1,19 @@
 import { useState, useEffect, useCallback } from 'react';
-import { ethers, formatEther } from 'ethers';
+import { BigNumberish, formatEther } from 'ethers';
 import { useWallet } from '@/hooks/useWallet';
-import { getContractAddress, getContractABI } from '@/utils/contracts';
+import { getContractAddress } from '@/utils/contracts';
+import { TokenVestingContract, connectCrowdsaleToken, connectTokenVesting } from '@/generated';
 import { handleContractError } from '@/utils/errorHandler';
 import { TransactionType, TransactionStatus } from '@/types/wallet';
+import { VestingMilestone, VestingStep, VestingType } from '@/types/contracts';
+import { fetchScheduleMilestones } from '@/hooks/useVestingMilestones';
+import {
+  buildVestingCurve,
+  calculateVestingProgress,
+  getNextReleaseTime,
+  getUpcomingUnlocks,
+  VestingCurveInput,
+} from '@/utils/vestingMath';
 import { useWalletStore } from '@/stores/walletStore';
 import toast from 'react-hot-toast';
 
@@ -20,16 +30,48 @@ export interface VestingSchedule {
   startTime: number;
   endTime: number;
   cliffTime: number;
-  vestingType: 'LINEAR' | 'CLIFF' | 'STEPPED' | 'MILESTONE';
+  vestingType: 'LINEAR' | 'CLIFF' | 'STEPPED' | 'MILESTONE' | 'CUSTOM';
   isRevocable: boolean;
   isRevoked: boolean;
+  vestedAmount: string;
   releaseProgress: number;
   nextReleaseDate: number;
   status: 'active' | 'completed' | 'revoked';
+  milestones: VestingMilestone[];
+  steps: VestingStep[];
+  unlockCurve: { timestamp: number; vested: string }[]; // 累计解锁曲线
+  upcomingUnlocks: { timestamp: number; amount: string }[];
 }
 
+// 阶梯式释放的步骤由合约在创建时写入，逐个读取直到越界
+const MAX_VESTING_STEPS = 50;
+
+export const fetchScheduleSteps = async (
+  contract: TokenVestingContract,
+  scheduleId: BigNumberish
+): Promise<VestingStep[]> => {
+  const steps: VestingStep[] = [];
+
+  for (let index = 0; index < MAX_VESTING_STEPS; index++) {
+    try {
+      const step = await contract.getVestingStep(scheduleId, index);
+      steps.push({
+        index,
+        timestamp: Number(step.timestamp),
+        percentage: Number(step.percentage),
+        released: step.released,
+      });
+    } catch {
+      // "step not found" 表示已读取全部步骤
+      break;
+    }
+  }
+
+  return steps;
+};
+
 export const useTokenVesting = (userAddress?: string) => {
-  const { getProvider } = useWallet();
+  const { getProvider, getSigner } = useWallet();
   const { addTransaction } = useWalletStore();
   const [vestingSchedules, setVestingSchedules] = useState<VestingSchedule[]>([]);
   const [loading, setLoading] = useState(false);
@@ -42,53 +84,15 @@ export const useTokenVesting = (userAddress?: string) => {
       console.warn('TokenVesting contract address not configured. Vesting features will be disabled.');
       return null;
     }
-    const abi = getContractABI('TokenVesting');
     const provider = await getProvider();
-    return new ethers.Contract(contractAddress, abi, provider);
+    return connectTokenVesting(contractAddress, provider);
   }, [getProvider]);
 
   const getTokenContract = useCallback(async (tokenAddress: string) => {
-    const abi = getContractABI('CrowdsaleToken');
     const provider = await getProvider();
-    return new ethers.Contract(tokenAddress, abi, provider);
+    return connectCrowdsaleToken(tokenAddress, provider);
   }, [getProvider]);
 
-  const calculateProgress = useCallback((schedule: any): number => {
-    const now = Math.floor(Date.now() / 1000);
-    const { startTime, endTime, cliffEnd } = schedule;
-    
-    if (now < cliffEnd) return 0;
-    if (now >= endTime) return 100;
-    
-    const totalDuration = endTime - startTime;
-    const elapsed = now - startTime;
-    return Math.min((elapsed / totalDuration) * 100, 100);
-  }, []);
-
-  const calculateNextReleaseDate = useCallback((schedule: any): number => {
-    const now = Math.floor(Date.now() / 1000);
-    const { vestingType, startTime, endTime, cliffEnd } = schedule;
-    
-    if (now < cliffEnd) return cliffEnd;
-    if (now >= endTime) return 0; // No more releases
-    
-    switch (vestingType) {
-      case 'LINEAR':
-        return 0; // Continuous release
-      case 'CLIFF':
-        return now < cliffEnd ? cliffEnd : 0;
-      case 'STEPPED':
-        // Assume monthly releases for stepped vesting
-        const monthlyInterval = 30 * 24 * 60 * 60; // 30 days in seconds
-        const nextMonth = Math.ceil((now - startTime) / monthlyInterval) * monthlyInterval + startTime;
-        return Math.min(nextMonth, endTime);
-      case 'MILESTONE':
-        return 0; // Milestone-based, no predictable next date
-      default:
-        return 0;
-    }
-  }, []);
-
   const fetchVestingSchedules = useCallback(async () => {
     if (!userAddress) {
       setVestingSchedules([]);
@@ -117,39 +121,74 @@ export const useTokenVesting = (userAddress?: string) => {
       }
 
       const schedules: VestingSchedule[] = [];
+
+      // 所有释放计划共用合约配置的代币
+      const tokenAddress = await vestingContract.token();
+      const tokenContract = await getTokenContract(tokenAddress);
+      const [tokenSymbol, tokenName] = await Promise.all([
+        tokenContract.symbol(),
+        tokenContract.name(),
+      ]);
       
       for (const scheduleId of scheduleIds) {
         try {
-          const schedule = await vestingContract.getVestingSchedule(scheduleId);
-          const releasableAmount = await vestingContract.getReleasableAmount(scheduleId);
-          
-          // Get token info
-          const tokenContract = await getTokenContract(schedule.tokenAddress);
-          const tokenSymbol = await tokenContract.symbol();
-          const tokenName = await tokenContract.name();
-          
-          const progress = calculateProgress(schedule);
-          const nextRelease = calculateNextReleaseDate(schedule);
-          
+          const [schedule, releasableAmount, vestedAmount] = await Promise.all([
+            vestingContract.getVestingSchedule(scheduleId),
+            vestingContract.getReleasableAmount(scheduleId),
+            vestingContract.getVestedAmount(scheduleId),
+          ]);
+          const vestingTypeIndex = Number(schedule.vestingType) as VestingType;
+          const vestingType = ['LINEAR', 'CLIFF', 'STEPPED', 'MILESTONE', 'CUSTOM'][vestingTypeIndex] as VestingSchedule['vestingType'];
+          const [milestones, steps] = await Promise.all([
+            vestingType === 'MILESTONE' ? fetchScheduleMilestones(vestingContract, scheduleId) : Promise.resolve([]),
+            vestingType === 'STEPPED' ? fetchScheduleSteps(vestingContract, scheduleId) : Promise.resolve([]),
+          ]);
+
+          const curveInput: VestingCurveInput = {
+            totalAmount: schedule.totalAmount,
+            releasedAmount: schedule.releasedAmount,
+            startTime: Number(schedule.startTime),
+            cliffDuration: Number(schedule.cliffDuration),
+            vestingDuration: Number(schedule.vestingDuration),
+            vestingType: vestingTypeIndex,
+            revoked: schedule.revoked,
+            steps,
+            milestones,
+          };
+          const now = Math.floor(Date.now() / 1000);
+          // 当前进度以合约 getVestedAmount 为准，曲线与未来解锁点按合约规则推算
+          const progress = calculateVestingProgress(vestedAmount, schedule.totalAmount);
+
           const vestingSchedule: VestingSchedule = {
             id: scheduleId.toString(),
             beneficiary: schedule.beneficiary,
-            tokenAddress: schedule.tokenAddress,
+            tokenAddress,
             tokenSymbol,
             tokenName,
             totalAmount: formatEther(schedule.totalAmount),
             releasedAmount: formatEther(schedule.releasedAmount),
             remainingAmount: formatEther(schedule.totalAmount - schedule.releasedAmount),
             releasableAmount: formatEther(releasableAmount),
-            startTime: Number(schedule.startTime),
-            endTime: Number(schedule.endTime),
-            cliffTime: Number(schedule.cliffEnd),
-            vestingType: ['LINEAR', 'CLIFF', 'STEPPED', 'MILESTONE'][Number(schedule.vestingType)] as VestingSchedule['vestingType'],
-            isRevocable: schedule.isRevocable,
-            isRevoked: schedule.isRevoked,
+            startTime: curveInput.startTime,
+            endTime: curveInput.startTime + curveInput.vestingDuration,
+            cliffTime: curveInput.startTime + curveInput.cliffDuration,
+            vestingType,
+            isRevocable: schedule.revocable,
+            isRevoked: schedule.revoked,
+            vestedAmount: formatEther(vestedAmount),
             releaseProgress: progress,
-            nextReleaseDate: nextRelease,
-            status: schedule.isRevoked ? 'revoked' : (progress >= 100 ? 'completed' : 'active')
+            nextReleaseDate: getNextReleaseTime(curveInput, now),
+            status: schedule.revoked ? 'revoked' : (progress >= 100 ? 'completed' : 'active'),
+            milestones,
+            steps,
+            unlockCurve: buildVestingCurve(curveInput, now).map(point => ({
+              timestamp: point.timestamp,
+              vested: formatEther(point.vested),
+            })),
+            upcomingUnlocks: getUpcomingUnlocks(curveInput, now).map(unlock => ({
+              timestamp: unlock.timestamp,
+              amount: formatEther(unlock.amount),
+            })),
           };
           
           schedules.push(vestingSchedule);
@@ -166,7 +205,7 @@ export const useTokenVesting = (userAddress?: string) => {
     } finally {
       setLoading(false);
     }
-  }, [userAddress, getVestingContract, getTokenContract, calculateProgress, calculateNextReleaseDate]);
+  }, [userAddress, getVestingContract, getTokenContract]);
 
   const releaseTokens = useCallback(async (scheduleId: string) => {
     try {
@@ -177,11 +216,10 @@ export const useTokenVesting = (userAddress?: string) => {
         return;
       }
 
-      const { getSigner } = useWallet();
       const signer = await getSigner();
       const contractWithSigner = vestingContract.connect(signer);
       
-      const tx = await contractWithSigner.releaseTokens(scheduleId);
+      const tx = await contractWithSigner.release(scheduleId);
       
       addTransaction({
         hash: tx.hash,
@@ -201,7 +239,7 @@ export const useTokenVesting = (userAddress?: string) => {
     } finally {
       setReleasing(false);
     }
-  }, [getVestingContract, addTransaction, fetchVestingSchedules]);
+  }, [getVestingContract, getSigner, addTransaction, fetchVestingSchedules]);
 
   const batchReleaseTokens = useCallback(async (scheduleIds: string[]) => {
     try {
@@ -212,7 +250,6 @@ export const useTokenVesting = (userAddress?: string) => {
         return;
       }
 
-      const { getSigner } = useWallet();
       const signer = await getSigner();
       const contractWithSigner = vestingContract.connect(signer);
       
@@ -236,7 +273,7 @@ export const useTokenVesting = (userAddress?: string) => {
     } finally {
       setReleasing(false);
     }
-  }, [getVestingContract, addTransaction, fetchVestingSchedules]);
+  }, [getVestingContract, getSigner, addTransaction, fetchVestingSchedules]);
 
   // Auto-fetch on mount and when userAddress changes
   useEffect(() => {
@@ -0,0 +1,42 @@
+import { useState, useCallback, useMemo } from 'react';
+import { Transaction } from '../types/transactionTypes';
+import { PriceSource, getConfiguredPriceSource } from '../utils/priceSource';
+import { ExportFormat, downloadExportFile, exportTransactions } from '../utils/transactionExport';
+
+export interface UseTransactionExportReturn {
+  isExporting: boolean;
+  fiatCurrency: string | null;
+  exportAs: (format: ExportFormat, transactions: Transaction[]) => Promise<void>;
+}
+
+/**
+ * 交易历史导出，价格来源默认读取环境变量配置
+ */
+export const useTransactionExport = (priceSource?: PriceSource | null): UseTransactionExportReturn => {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const source = useMemo(
+    () => (priceSource === undefined ? getConfiguredPriceSource() : priceSource),
+    [priceSource]
+  );
+
+  const exportAs = useCallback(async (format: ExportFormat, transactions: Transaction[]) => {
+    if (transactions.length === 0) {
+      throw new Error('No transactions to export');
+    }
+
+    setIsExporting(true);
+    try {
+      const file = await exportTransactions(format, transactions, source);
+      downloadExportFile(file);
+    } finally {
+      setIsExporting(false);
+    }
+  }, [source]);
+
+  return {
+    isExporting,
+    fiatCurrency: source?.currency ?? null,
+    exportAs,
+  };
+};
@@ -5,7 +5,8 @@ import {
   TransactionFilter, 
   PaginationInfo 
 } from '../types/transactionTypes';
-import { TransactionEventListener } from '../utils/eventListeners-simple';
+import { TransactionEventListener } from '../utils/eventListeners';
+import { CrowdsaleSource } from '../utils/crowdsaleDiscovery';
 import { 
   filterTransactions, 
   sortTransactionsByTimestamp,
@@ -15,6 +16,7 @@ import {
 
 export interface UseTransactionHistoryReturn {
   transactions: Transaction[];
+  crowdsales: CrowdsaleSource[];
   filteredTransactions: Transaction[];
   paginatedTransactions: Transaction[];
   isLoading: boolean;
@@ -40,6 +42,7 @@ export const useTransactionHistory = (): UseTransactionHistoryReturn => {
   
   // State
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [crowdsales, setCrowdsales] = useState<CrowdsaleSource[]>([]);
   const [filteredTransactions, setFilteredTransactions] = useState<Transaction[]>([]);
   const [paginatedTransactions, setPaginatedTransactions] = useState<Transaction[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -71,6 +74,7 @@ export const useTransactionHistory = (): UseTransactionHistoryReturn => {
     try {
       const historicalTransactions = await eventListener.getHistoricalTransactions();
       setTransactions(historicalTransactions);
+      setCrowdsales(eventListener.getCrowdsales());
     } catch (err) {
       console.error('Error fetching transactions:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch transactions');
@@ -82,13 +86,15 @@ export const useTransactionHistory = (): UseTransactionHistoryReturn => {
   // 初始化事件监听器
   useEffect(() => {
     if (isConnected && address) {
-      const eventListener = new TransactionEventListener();
+      const eventListener = new TransactionEventListener({ creator: address });
       setEventListener(eventListener);
       
       // Start real-time listening
       eventListener.startListening((newTransactions: Transaction[]) => {
         setTransactions(prev => {
-          const updated = [...newTransactions, ...prev];
+          // 重组区块会被重新同步，按ID去重
+          const incomingIds = new Set(newTransactions.map(tx => tx.id));
+          const updated = [...newTransactions, ...prev.filter(tx => !incomingIds.has(tx.id))];
           return sortTransactionsByTimestamp(updated);
         });
       });
@@ -103,6 +109,7 @@ export const useTransactionHistory = (): UseTransactionHistoryReturn => {
       };
     } else {
       setTransactions([]);
+      setCrowdsales([]);
       setIsLoading(false);
       setError(null);
     }
@@ -173,6 +180,7 @@ export const useTransactionHistory = (): UseTransactionHistoryReturn => {
 
   return {
     transactions,
+    crowdsales,
     filteredTransactions,
     paginatedTransactions,
     isLoading,
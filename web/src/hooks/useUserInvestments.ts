@@ -1,8 +1,10 @@
 import { useState, useEffect, useCallback } from 'react';
-import { ethers, formatEther } from 'ethers';
+import { formatEther } from 'ethers';
 import { useWallet } from '@/hooks/useWallet';
-import { getContractAddress, getContractABI } from '@/utils/contracts';
+import { getContractAddress } from '@/utils/contracts';
+import { connectCrowdsaleFactory, connectCrowdsaleToken, connectTokenCrowdsale } from '@/generated';
 import { handleContractError } from '@/utils/errorHandler';
+import { CrowdsalePhase } from '@/types/contracts';
 
 export interface UserInvestment {
   crowdsaleAddress: string;
@@ -31,21 +33,18 @@ export const useUserInvestments = (userAddress?: string) => {
     if (!contractAddress) {
       throw new Error('CrowdsaleFactory contract address not configured');
     }
-    const abi = getContractABI('CrowdsaleFactory');
     const provider = await getProvider();
-    return new ethers.Contract(contractAddress, abi, provider);
+    return connectCrowdsaleFactory(contractAddress, provider);
   }, [getProvider]);
 
   const getCrowdsaleContract = useCallback(async (address: string) => {
-    const abi = getContractABI('TokenCrowdsale');
     const provider = await getProvider();
-    return new ethers.Contract(address, abi, provider);
+    return connectTokenCrowdsale(address, provider);
   }, [getProvider]);
 
   const getTokenContract = useCallback(async (address: string) => {
-    const abi = getContractABI('CrowdsaleToken');
     const provider = await getProvider();
-    return new ethers.Contract(address, abi, provider);
+    return connectCrowdsaleToken(address, provider);
   }, [getProvider]);
 
   const fetchTokenPrice = useCallback(async (tokenAddress: string): Promise<number> => {
@@ -97,34 +96,29 @@ export const useUserInvestments = (userAddress?: string) => {
           
           if (purchaseHistory.length > 0) {
             // Get crowdsale basic info
-            const config = await crowdsaleContract.config();
-            const tokenContract = await getTokenContract(config.tokenAddress);
+            const tokenAddress = await crowdsaleContract.token();
+            const tokenContract = await getTokenContract(tokenAddress);
             const tokenSymbol = await tokenContract.symbol();
             const tokenName = await tokenContract.name();
             
             // Get current crowdsale phase to determine status
-            const currentPhase = await crowdsaleContract.currentPhase();
-            const status = currentPhase === 3 ? 'completed' : 'active'; // 3 = FINALIZED
+            const currentPhase = Number(await crowdsaleContract.currentPhase());
             
             // Calculate total investment for this crowdsale
             let totalInvested = 0n;
             let totalTokens = 0n;
             let latestInvestmentDate = 0;
-            let firstTransactionHash = '';
 
             for (const purchase of purchaseHistory) {
-              totalInvested += purchase.ethAmount;
+              totalInvested += purchase.weiAmount;
               totalTokens += purchase.tokenAmount;
-              if (purchase.timestamp > latestInvestmentDate) {
-                latestInvestmentDate = purchase.timestamp;
-              }
-              if (!firstTransactionHash) {
-                firstTransactionHash = purchase.transactionHash || '';
+              if (Number(purchase.timestamp) > latestInvestmentDate) {
+                latestInvestmentDate = Number(purchase.timestamp);
               }
             }
 
             // Get current token price and calculate values
-            const tokenPrice = await fetchTokenPrice(config.tokenAddress);
+            const tokenPrice = await fetchTokenPrice(tokenAddress);
             const tokenAmountFormatted = parseFloat(formatEther(totalTokens));
             const ethAmountFormatted = parseFloat(formatEther(totalInvested));
             const currentValue = tokenAmountFormatted * tokenPrice;
@@ -135,16 +129,16 @@ export const useUserInvestments = (userAddress?: string) => {
               crowdsaleAddress,
               crowdsaleName: tokenName,
               tokenSymbol,
-              tokenAddress: config.tokenAddress,
+              tokenAddress,
               ethAmount: ethAmountFormatted.toFixed(4),
               investedAmount: ethAmountFormatted.toFixed(4), // Same as ethAmount for compatibility
               tokenAmount: tokenAmountFormatted.toFixed(4),
               investmentDate: latestInvestmentDate,
-              status: currentPhase === 3 ? 'completed' : 'active',
+              status: currentPhase === CrowdsalePhase.FINALIZED ? 'completed' : 'active',
               currentValue: currentValue.toFixed(2),
               profitLoss: profitLoss.toFixed(2),
               profitLossPercentage,
-              transactionHash: firstTransactionHash
+              transactionHash: '' // 购买记录不包含交易哈希
             });
           }
         } catch (crowdsaleError) {
@@ -0,0 +1,377 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ethers, formatEther } from 'ethers';
+import { useWallet } from './useWallet';
+import { connectRefundVault } from '@/generated';
+import { handleContractError } from '@/utils/errorHandler';
+import { EventSyncer } from '@/utils/eventSync';
+import { decodeEvent, getEventInterface } from '@/utils/eventDecoder';
+import { VaultState } from '@/types/contracts';
+import { useMultiSigStore, MultiSigOperationType, MultiSigProposal } from '@/stores/multiSigStore';
+
+export interface VaultMultiSigInfo {
+  beneficiary: string;
+  balance: string;
+  state: VaultState;
+  requiredSignatures: number;
+  signerCount: number;
+  canRelease: boolean;
+  isSigner: boolean;
+  isAdmin: boolean;
+  isOperator: boolean;
+  hasEmergencyRole: boolean;
+}
+
+export interface MultiSigOperation {
+  hash: string;
+  proposal?: MultiSigProposal;
+  signatureCount: number;
+  signedBy: string[];
+  hasCurrentSigned: boolean;
+  isReady: boolean;
+}
+
+export interface VaultSigner {
+  address: string;
+  isSigner: boolean;
+}
+
+// 与合约中 keccak256(abi.encodePacked(...)) 保持一致
+export const getMultiSigOperationHash = (type: MultiSigOperationType, param: string): string => {
+  if (type === 'UPDATE_BENEFICIARY') {
+    return ethers.solidityPackedKeccak256(['string', 'address'], [type, param]);
+  }
+  return ethers.solidityPackedKeccak256(['string', 'string'], [type, param]);
+};
+
+export const useVaultMultiSig = (vaultAddress?: string | null) => {
+  const { address, getSigner, getProvider } = useWallet();
+  const { proposals, trackedSigners, addProposal, removeProposal, trackSigner, untrackSigner } = useMultiSigStore();
+  const [info, setInfo] = useState<VaultMultiSigInfo | null>(null);
+  const [operations, setOperations] = useState<MultiSigOperation[]>([]);
+  const [signers, setSigners] = useState<VaultSigner[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const vaultProposals = useMemo(() => (
+    vaultAddress
+      ? proposals.filter(p => p.vaultAddress.toLowerCase() === vaultAddress.toLowerCase())
+      : []
+  ), [proposals, vaultAddress]);
+
+  const vaultTrackedSigners = useMemo(() => (
+    vaultAddress ? trackedSigners[vaultAddress.toLowerCase()] || [] : []
+  ), [trackedSigners, vaultAddress]);
+
+  const getVaultContract = useCallback(async () => {
+    if (!vaultAddress) {
+      throw new Error('RefundVault contract address not configured. Please set VITE_REFUNDVAULT_ADDRESS in .env.local');
+    }
+
+    // Try to get signer first, fallback to provider
+    let runner;
+    try {
+      runner = await getSigner();
+    } catch {
+      runner = await getProvider();
+    }
+
+    if (!runner) throw new Error('No wallet connection found');
+
+    return connectRefundVault(vaultAddress, runner);
+  }, [vaultAddress, getSigner, getProvider]);
+
+  const fetchMultiSigData = useCallback(async () => {
+    if (!vaultAddress) {
+      setInfo(null);
+      setOperations([]);
+      setSigners([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const contract = await getVaultContract();
+      const provider = await getProvider();
+      if (!provider) throw new Error('No wallet connection found');
+
+      const adminRole = ethers.ZeroHash;
+      const operatorRole = ethers.keccak256(ethers.toUtf8Bytes('VAULT_OPERATOR_ROLE'));
+      const emergencyRole = ethers.keccak256(ethers.toUtf8Bytes('EMERGENCY_ROLE'));
+
+      const [beneficiary, balance, state, requiredSignatures, signerCount, canRelease] = await Promise.all([
+        contract.getBeneficiary(),
+        provider.getBalance(vaultAddress),
+        contract.state(),
+        contract.getRequiredSignatures(),
+        contract.signerCount(),
+        contract.canRelease().catch(() => false),
+      ]);
+
+      const [isSigner, isAdmin, isOperator, hasEmergencyRole] = address
+        ? await Promise.all([
+            contract.isSigner(address).catch(() => false),
+            contract.hasRole(adminRole, address).catch(() => false),
+            contract.hasRole(operatorRole, address).catch(() => false),
+            contract.hasRole(emergencyRole, address).catch(() => false),
+          ])
+        : [false, false, false, false];
+
+      setInfo({
+        beneficiary,
+        balance: formatEther(balance),
+        state: Number(state) as VaultState,
+        requiredSignatures: Number(requiredSignatures),
+        signerCount: Number(signerCount),
+        canRelease,
+        isSigner,
+        isAdmin,
+        isOperator: isOperator || isAdmin,
+        hasEmergencyRole,
+      });
+
+      // 从本地事件索引中的 SignatureAdded 事件收集操作哈希和签过名的地址
+      const topic = getEventInterface('RefundVault').getEvent('SignatureAdded')!.topicHash;
+      const syncer = new EventSyncer(provider);
+      await syncer.syncContract(vaultAddress);
+      const signatureEvents = (await syncer.getLogs(vaultAddress))
+        .filter(log => log.topics[0] === topic)
+        .flatMap(log => {
+          const decoded = decodeEvent('RefundVault', log);
+          return decoded ? [{ operation: decoded.args.operation as string, signer: decoded.args.signer as string }] : [];
+        });
+
+      // 合约没有签名者枚举接口，从事件和本地记录中收集候选地址
+      const candidates = new Map<string, string>();
+      for (const candidate of [
+        ...(address ? [address] : []),
+        ...vaultTrackedSigners,
+        ...signatureEvents.map(event => event.signer),
+      ]) {
+        candidates.set(candidate.toLowerCase(), candidate);
+      }
+
+      const operationHashes = new Set<string>([
+        ...vaultProposals.map(p => p.hash),
+        ...signatureEvents.map(event => event.operation),
+      ]);
+
+      const required = Number(requiredSignatures);
+      const result: MultiSigOperation[] = [];
+
+      for (const hash of operationHashes) {
+        const signatureCount = Number(await contract.getSignatureCount(hash));
+        const proposal = vaultProposals.find(p => p.hash === hash);
+
+        // 已执行或已重置且没有本地提案的操作不再展示
+        if (signatureCount === 0 && !proposal) continue;
+
+        // 签名状态以合约的 hasSigned 为准：重置只清零计数，不清除 hasSigned，签过的地址不能再次签名
+        const signed = await Promise.all(
+          [...candidates.values()].map(async (candidate) => ({
+            address: candidate,
+            signed: await contract.hasSigned(hash, candidate).catch(() => false),
+          }))
+        );
+
+        result.push({
+          hash,
+          proposal,
+          signatureCount,
+          signedBy: signatureCount > 0 ? signed.filter(s => s.signed).map(s => s.address) : [],
+          hasCurrentSigned: !!address && signed.some(s => s.signed && s.address.toLowerCase() === address.toLowerCase()),
+          isReady: signatureCount >= required,
+        });
+      }
+
+      setOperations(result);
+
+      const signerStatuses = await Promise.all(
+        [...candidates.values()].map(async (candidate) => ({
+          address: candidate,
+          isSigner: await contract.isSigner(candidate).catch(() => false),
+        }))
+      );
+      setSigners(signerStatuses.filter(s => s.isSigner));
+    } catch (error) {
+      console.error('Failed to fetch multi-signature data:', error);
+      setError(handleContractError(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [vaultAddress, address, getVaultContract, getProvider, vaultProposals, vaultTrackedSigners]);
+
+  // 发起新的多签操作并自动添加第一个签名
+  const proposeOperation = useCallback(async (type: MultiSigOperationType, param: string) => {
+    try {
+      if (!vaultAddress || !address) {
+        throw new Error('No wallet connected');
+      }
+      if (type === 'UPDATE_BENEFICIARY' && !ethers.isAddress(param)) {
+        throw new Error('Invalid address');
+      }
+      if (type === 'EMERGENCY_WITHDRAW' && !param.trim()) {
+        throw new Error('Emergency withdraw reason is required');
+      }
+
+      const normalizedParam = type === 'UPDATE_BENEFICIARY' ? ethers.getAddress(param) : param;
+      const hash = getMultiSigOperationHash(type, normalizedParam);
+
+      const contract = await getVaultContract();
+      const tx = await contract.addSignature(hash);
+      await tx.wait();
+
+      // 交易确认后再保存提案，失败或被拒绝的签名不会留下本地记录
+      addProposal({
+        hash,
+        vaultAddress,
+        type,
+        param: normalizedParam,
+        proposedBy: address,
+        proposedAt: Date.now(),
+      });
+
+      await fetchMultiSigData();
+
+      return { success: true, txHash: tx.hash, hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [vaultAddress, address, addProposal, getVaultContract, fetchMultiSigData]);
+
+  // 为已有操作添加签名
+  const signOperation = useCallback(async (hash: string) => {
+    try {
+      const contract = await getVaultContract();
+      const tx = await contract.addSignature(hash);
+      await tx.wait();
+
+      await fetchMultiSigData();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [getVaultContract, fetchMultiSigData]);
+
+  // 重置操作签名
+  const resetOperation = useCallback(async (hash: string) => {
+    try {
+      const contract = await getVaultContract();
+      const tx = await contract.resetSignatures(hash);
+      await tx.wait();
+
+      await fetchMultiSigData();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [getVaultContract, fetchMultiSigData]);
+
+  // 签名数量满足要求后执行操作
+  const executeOperation = useCallback(async (operation: MultiSigOperation) => {
+    try {
+      if (!vaultAddress || !operation.proposal) {
+        throw new Error('Operation parameters not found locally, cannot execute');
+      }
+
+      const contract = await getVaultContract();
+      const tx = operation.proposal.type === 'UPDATE_BENEFICIARY'
+        ? await contract.updateBeneficiary(operation.proposal.param)
+        : await contract.emergencyWithdraw(operation.proposal.param);
+      await tx.wait();
+
+      removeProposal(vaultAddress, operation.hash);
+      await fetchMultiSigData();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [vaultAddress, getVaultContract, removeProposal, fetchMultiSigData]);
+
+  const dismissProposal = useCallback((hash: string) => {
+    if (!vaultAddress) return;
+    removeProposal(vaultAddress, hash);
+    setOperations(prev => prev.filter(op => op.hash !== hash || op.signatureCount > 0));
+  }, [vaultAddress, removeProposal]);
+
+  // 众筹成功后释放资金（仅需操作员权限）
+  const releaseFunds = useCallback(async () => {
+    try {
+      const contract = await getVaultContract();
+      const tx = await contract.release();
+      await tx.wait();
+
+      await fetchMultiSigData();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [getVaultContract, fetchMultiSigData]);
+
+  const addSigner = useCallback(async (signer: string) => {
+    try {
+      if (!vaultAddress || !ethers.isAddress(signer)) {
+        throw new Error('Invalid address');
+      }
+
+      const contract = await getVaultContract();
+      const tx = await contract.addSigner(signer);
+      await tx.wait();
+
+      trackSigner(vaultAddress, ethers.getAddress(signer));
+      await fetchMultiSigData();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [vaultAddress, getVaultContract, trackSigner, fetchMultiSigData]);
+
+  const removeSigner = useCallback(async (signer: string) => {
+    try {
+      if (!vaultAddress) {
+        throw new Error('Invalid address');
+      }
+      if (info && info.signerCount <= info.requiredSignatures) {
+        throw new Error('Cannot remove signer: remaining signers would be fewer than required signatures');
+      }
+
+      const contract = await getVaultContract();
+      const tx = await contract.removeSigner(signer);
+      await tx.wait();
+
+      untrackSigner(vaultAddress, signer);
+      await fetchMultiSigData();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [vaultAddress, info, getVaultContract, untrackSigner, fetchMultiSigData]);
+
+  useEffect(() => {
+    fetchMultiSigData();
+  }, [fetchMultiSigData]);
+
+  return {
+    info,
+    operations,
+    signers,
+    loading,
+    error,
+    refresh: fetchMultiSigData,
+    proposeOperation,
+    signOperation,
+    resetOperation,
+    executeOperation,
+    dismissProposal,
+    releaseFunds,
+    addSigner,
+    removeSigner,
+  };
+};
@@ -0,0 +1,298 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ethers, parseEther } from 'ethers';
+import { useWallet } from './useWallet';
+import { getContractAddress } from '@/utils/contracts';
+import { TokenVestingContract, connectCrowdsaleToken, connectTokenVesting } from '@/generated';
+import { handleContractError } from '@/utils/errorHandler';
+import { VestingType } from '@/types/contracts';
+import { VestingScheduleInput, sumVestingAmounts, validateVestingSchedule } from '@/utils/vestingScheduleUtils';
+
+export interface VestingAdminInfo {
+  vestingAddress: string;
+  tokenAddress: string;
+  tokenSymbol: string;
+  contractBalance: bigint; // 释放合约持有的代币
+  totalVestingAmount: bigint; // 已分配给释放计划的代币
+  availableBalance: bigint; // 可用于新计划的代币
+  walletBalance: bigint;
+  walletAllowance: bigint; // 管理员对释放合约的授权额度
+  isVestingAdmin: boolean;
+}
+
+export interface VestingFundingCheck {
+  required: bigint;
+  available: bigint;
+  shortfall: bigint; // 需要转入释放合约的数量
+  walletSufficient: boolean;
+}
+
+export interface VestingCreateResult {
+  input: VestingScheduleInput;
+  success: boolean;
+  txHash?: string;
+  scheduleId?: string;
+  error?: string;
+}
+
+export interface VestingRevokePreview {
+  scheduleId: string;
+  beneficiary: string;
+  vestingType: VestingType;
+  totalAmount: bigint;
+  vestedAmount: bigint;
+  releasedAmount: bigint;
+  unclaimedAmount: bigint; // 已解锁未领取，撤销后无法再领取
+  returnedAmount: bigint; // 撤销后回到可分配余额
+  revocable: boolean;
+  revoked: boolean;
+}
+
+export const useVestingAdmin = () => {
+  const { address, getSigner, getProvider } = useWallet();
+  const [info, setInfo] = useState<VestingAdminInfo | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getVestingContract = useCallback(async () => {
+    const contractAddress = getContractAddress('TOKENVESTING');
+    if (!contractAddress) {
+      throw new Error('TokenVesting contract address not configured. Please set VITE_TOKENVESTING_ADDRESS in .env.local');
+    }
+
+    // Try to get signer first, fallback to provider
+    let runner;
+    try {
+      runner = await getSigner();
+    } catch {
+      runner = await getProvider();
+    }
+
+    if (!runner) throw new Error('No wallet connection found');
+
+    return connectTokenVesting(contractAddress, runner);
+  }, [getSigner, getProvider]);
+
+  const fetchInfo = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const vesting = await getVestingContract();
+      const tokenAddress = await vesting.token();
+      const token = connectCrowdsaleToken(tokenAddress, vesting.runner);
+      const vestingAddress = vesting.target as string;
+      const adminRole = ethers.keccak256(ethers.toUtf8Bytes('VESTING_ADMIN_ROLE'));
+
+      const [tokenSymbol, contractBalance, totalVestingAmount, walletBalance, walletAllowance, isVestingAdmin]: [
+        string, bigint, bigint, bigint, bigint, boolean
+      ] = await Promise.all([
+        token.symbol(),
+        token.balanceOf(vestingAddress),
+        vesting.getTotalVestingAmount(),
+        address ? token.balanceOf(address) : Promise.resolve(0n),
+        address ? token.allowance(address, vestingAddress) : Promise.resolve(0n),
+        address ? vesting.hasRole(adminRole, address).catch(() => false) : Promise.resolve(false),
+      ]);
+
+      setInfo({
+        vestingAddress,
+        tokenAddress,
+        tokenSymbol,
+        contractBalance,
+        totalVestingAmount,
+        availableBalance: contractBalance > totalVestingAmount ? contractBalance - totalVestingAmount : 0n,
+        walletBalance,
+        walletAllowance,
+        isVestingAdmin,
+      });
+    } catch (error) {
+      console.error('Failed to fetch vesting admin info:', error);
+      setInfo(null);
+      setError(handleContractError(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [address, getVestingContract]);
+
+  // 合约只校验自身余额是否覆盖 totalVestingAmount + totalAmount，不会通过 transferFrom 拉取代币，
+  // 不足部分需由管理员直接转入
+  const checkFunding = useCallback((inputs: VestingScheduleInput[]): VestingFundingCheck | null => {
+    if (!info) return null;
+
+    const required = sumVestingAmounts(inputs);
+    const shortfall = required > info.availableBalance ? required - info.availableBalance : 0n;
+
+    return {
+      required,
+      available: info.availableBalance,
+      shortfall,
+      walletSufficient: info.walletBalance >= shortfall,
+    };
+  }, [info]);
+
+  const fundVesting = useCallback(async (amount: bigint) => {
+    try {
+      if (!info) {
+        throw new Error('Vesting contract not loaded');
+      }
+      if (amount <= 0n) {
+        throw new Error('Invalid amount');
+      }
+      if (info.walletBalance < amount) {
+        throw new Error('Insufficient token balance');
+      }
+
+      const vesting = await getVestingContract();
+      const token = connectCrowdsaleToken(info.tokenAddress, vesting.runner);
+      const tx = await token.transfer(info.vestingAddress, amount);
+      await tx.wait();
+
+      await fetchInfo();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [info, getVestingContract, fetchInfo]);
+
+  const submitSchedule = useCallback(async (vesting: TokenVestingContract, input: VestingScheduleInput) => {
+    const tx = await vesting.createVestingSchedule(
+      input.beneficiary,
+      parseEther(input.amount),
+      input.startTime,
+      input.cliffDuration,
+      input.vestingDuration,
+      input.vestingType,
+      input.revocable
+    );
+    const receipt = await tx.wait();
+
+    // 从 VestingScheduleCreated 事件中解析新计划ID
+    let scheduleId: string | undefined;
+    for (const log of receipt?.logs || []) {
+      try {
+        const parsed = vesting.interface.parseLog(log);
+        if (parsed?.name === 'VestingScheduleCreated') {
+          scheduleId = parsed.args.scheduleId.toString();
+          break;
+        }
+      } catch {
+        // 忽略其他合约的日志
+      }
+    }
+
+    return { txHash: tx.hash as string, scheduleId };
+  }, []);
+
+  const createSchedule = useCallback(async (input: VestingScheduleInput) => {
+    try {
+      const errors = validateVestingSchedule(input);
+      if (errors.length > 0) {
+        throw new Error(errors[0]);
+      }
+
+      const vesting = await getVestingContract();
+      const result = await submitSchedule(vesting, input);
+
+      await fetchInfo();
+
+      return { success: true, ...result };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [getVestingContract, submitSchedule, fetchInfo]);
+
+  // 合约没有批量创建接口，逐条发送交易，单条失败不影响后续
+  const createSchedules = useCallback(async (
+    inputs: VestingScheduleInput[],
+    onProgress?: (result: VestingCreateResult, index: number) => void
+  ): Promise<VestingCreateResult[]> => {
+    const results: VestingCreateResult[] = [];
+    const vesting = await getVestingContract();
+
+    for (let index = 0; index < inputs.length; index++) {
+      const input = inputs[index];
+      let result: VestingCreateResult;
+
+      try {
+        const errors = validateVestingSchedule(input);
+        if (errors.length > 0) {
+          throw new Error(errors[0]);
+        }
+        result = { input, success: true, ...(await submitSchedule(vesting, input)) };
+      } catch (error) {
+        result = { input, success: false, error: handleContractError(error) };
+      }
+
+      results.push(result);
+      onProgress?.(result, index);
+    }
+
+    await fetchInfo();
+
+    return results;
+  }, [getVestingContract, submitSchedule, fetchInfo]);
+
+  const previewRevoke = useCallback(async (scheduleId: string): Promise<VestingRevokePreview> => {
+    try {
+      const vesting = await getVestingContract();
+      const [schedule, vestedAmount] = await Promise.all([
+        vesting.getVestingSchedule(scheduleId),
+        vesting.getVestedAmount(scheduleId),
+      ]);
+
+      if (schedule.beneficiary === ethers.ZeroAddress) {
+        throw new Error('Vesting schedule not found');
+      }
+
+      const { totalAmount, releasedAmount } = schedule;
+
+      return {
+        scheduleId,
+        beneficiary: schedule.beneficiary,
+        vestingType: Number(schedule.vestingType) as VestingType,
+        totalAmount,
+        vestedAmount,
+        releasedAmount,
+        // 撤销后 release 会被拒绝，合约只从 totalVestingAmount 中扣除未解锁部分
+        unclaimedAmount: vestedAmount - releasedAmount,
+        returnedAmount: schedule.revoked ? 0n : totalAmount - vestedAmount,
+        revocable: schedule.revocable,
+        revoked: schedule.revoked,
+      };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [getVestingContract]);
+
+  const revokeSchedule = useCallback(async (scheduleId: string) => {
+    try {
+      const vesting = await getVestingContract();
+      const tx = await vesting.revokeVesting(scheduleId);
+      await tx.wait();
+
+      await fetchInfo();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [getVestingContract, fetchInfo]);
+
+  useEffect(() => {
+    fetchInfo();
+  }, [fetchInfo]);
+
+  return {
+    info,
+    loading,
+    error,
+    refresh: fetchInfo,
+    checkFunding,
+    fundVesting,
+    createSchedule,
+    createSchedules,
+    previewRevoke,
+    revokeSchedule,
+  };
+};
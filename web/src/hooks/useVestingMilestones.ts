@@ -0,0 +1,214 @@
+import { useState, useEffect, useCallback } from 'react';
+import { BigNumberish, ethers, formatEther } from 'ethers';
+import { useWallet } from './useWallet';
+import { getContractAddress } from '@/utils/contracts';
+import { TokenVestingContract, TokenVestingGetMilestoneResult, connectTokenVesting } from '@/generated';
+import { handleContractError } from '@/utils/errorHandler';
+import { VestingMilestone, VestingType } from '@/types/contracts';
+
+export interface MilestoneScheduleInfo {
+  scheduleId: string;
+  beneficiary: string;
+  totalAmount: string; // token amount
+  vestingType: VestingType;
+  revoked: boolean;
+}
+
+const toMilestone = (index: number, milestone: TokenVestingGetMilestoneResult): VestingMilestone => ({
+  index,
+  description: milestone.description,
+  percentage: Number(milestone.percentage),
+  achieved: milestone.achieved,
+  achievedTime: Number(milestone.achievedTime),
+});
+
+const isMilestoneNotFound = (error: unknown): boolean =>
+  ethers.isError(error, 'CALL_EXCEPTION') && !!error.reason?.includes('milestone not found');
+
+// 调用合约中不存在的函数会以空数据回滚，没有 revert reason
+const isMissingFunction = (error: unknown): boolean =>
+  ethers.isError(error, 'CALL_EXCEPTION') && !error.reason && (!error.data || error.data === '0x');
+
+// 早期部署的 TokenVesting 没有 getMilestoneCount，逐个读取直到 "milestone not found" 回滚
+const scanScheduleMilestones = async (
+  contract: TokenVestingContract,
+  scheduleId: BigNumberish
+): Promise<VestingMilestone[]> => {
+  const milestones: VestingMilestone[] = [];
+
+  for (let index = 0; ; index++) {
+    try {
+      milestones.push(toMilestone(index, await contract.getMilestone(scheduleId, index)));
+    } catch (error) {
+      if (isMilestoneNotFound(error)) return milestones;
+      throw error;
+    }
+  }
+};
+
+export const fetchScheduleMilestones = async (
+  contract: TokenVestingContract,
+  scheduleId: BigNumberish
+): Promise<VestingMilestone[]> => {
+  let count: number;
+  try {
+    count = Number(await contract.getMilestoneCount(scheduleId));
+  } catch (error) {
+    if (isMissingFunction(error)) return scanScheduleMilestones(contract, scheduleId);
+    throw error;
+  }
+
+  return Promise.all(
+    Array.from({ length: count }, async (_, index) => toMilestone(index, await contract.getMilestone(scheduleId, index)))
+  );
+};
+
+export const useVestingMilestones = (scheduleId?: string) => {
+  const { address, getSigner, getProvider } = useWallet();
+  const [schedule, setSchedule] = useState<MilestoneScheduleInfo | null>(null);
+  const [milestones, setMilestones] = useState<VestingMilestone[]>([]);
+  const [isMilestoneManager, setIsMilestoneManager] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getVestingContract = useCallback(async () => {
+    const contractAddress = getContractAddress('TOKENVESTING');
+    if (!contractAddress) {
+      throw new Error('TokenVesting contract address not configured. Please set VITE_TOKENVESTING_ADDRESS in .env.local');
+    }
+
+    // Try to get signer first, fallback to provider
+    let runner;
+    try {
+      runner = await getSigner();
+    } catch {
+      runner = await getProvider();
+    }
+
+    if (!runner) throw new Error('No wallet connection found');
+
+    return connectTokenVesting(contractAddress, runner);
+  }, [getSigner, getProvider]);
+
+  const fetchMilestones = useCallback(async () => {
+    if (!scheduleId) {
+      setSchedule(null);
+      setMilestones([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const contract = await getVestingContract();
+      const rawSchedule = await contract.getVestingSchedule(scheduleId);
+
+      if (rawSchedule.beneficiary === ethers.ZeroAddress) {
+        throw new Error('Vesting schedule not found');
+      }
+
+      const managerRole = ethers.keccak256(ethers.toUtf8Bytes('MILESTONE_MANAGER_ROLE'));
+      const [milestoneList, isManager] = await Promise.all([
+        fetchScheduleMilestones(contract, scheduleId),
+        address ? contract.hasRole(managerRole, address).catch(() => false) : Promise.resolve(false),
+      ]);
+
+      setSchedule({
+        scheduleId,
+        beneficiary: rawSchedule.beneficiary,
+        totalAmount: formatEther(rawSchedule.totalAmount),
+        vestingType: Number(rawSchedule.vestingType) as VestingType,
+        revoked: rawSchedule.revoked,
+      });
+      setMilestones(milestoneList);
+      setIsMilestoneManager(isManager);
+    } catch (error) {
+      console.error('Failed to fetch vesting milestones:', error);
+      setSchedule(null);
+      setMilestones([]);
+      setError(handleContractError(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [scheduleId, address, getVestingContract]);
+
+  const addMilestone = useCallback(async (description: string, percentage: number) => {
+    try {
+      if (!scheduleId) {
+        throw new Error('Vesting schedule not selected');
+      }
+      if (!description.trim()) {
+        throw new Error('Milestone description is required');
+      }
+      if (!Number.isInteger(percentage) || percentage <= 0 || percentage > 10000) {
+        throw new Error('Invalid percentage');
+      }
+
+      // 合约不校验比例总和，超过100%会导致可释放数量超过总量
+      const allocated = milestones.reduce((sum, milestone) => sum + milestone.percentage, 0);
+      if (allocated + percentage > 10000) {
+        throw new Error('Total milestone percentage cannot exceed 100%');
+      }
+
+      const contract = await getVestingContract();
+      const tx = await contract.addMilestone(scheduleId, description.trim(), percentage);
+      await tx.wait();
+
+      await fetchMilestones();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [scheduleId, milestones, getVestingContract, fetchMilestones]);
+
+  const achieveMilestone = useCallback(async (milestoneIndex: number) => {
+    try {
+      if (!scheduleId) {
+        throw new Error('Vesting schedule not selected');
+      }
+
+      const contract = await getVestingContract();
+      const tx = await contract.achieveMilestone(scheduleId, milestoneIndex);
+      await tx.wait();
+
+      await fetchMilestones();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [scheduleId, getVestingContract, fetchMilestones]);
+
+  // 查询受益人的所有释放计划ID，便于管理员选择
+  const findBeneficiarySchedules = useCallback(async (beneficiary: string): Promise<string[]> => {
+    try {
+      if (!ethers.isAddress(beneficiary)) {
+        throw new Error('Invalid address');
+      }
+
+      const contract = await getVestingContract();
+      const ids: bigint[] = await contract.getBeneficiarySchedules(beneficiary);
+      return ids.map(id => id.toString());
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [getVestingContract]);
+
+  useEffect(() => {
+    fetchMilestones();
+  }, [fetchMilestones]);
+
+  return {
+    schedule,
+    milestones,
+    isMilestoneManager,
+    loading,
+    error,
+    refresh: fetchMilestones,
+    addMilestone,
+    achieveMilestone,
+    findBeneficiarySchedules,
+  };
+};
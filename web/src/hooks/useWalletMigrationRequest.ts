@@ -0,0 +1,90 @@
+import { useState, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { useWallet } from './useWallet';
+import { getContractAddress } from '@/utils/contracts';
+import { connectWhitelistManager } from '@/generated';
+import { handleContractError } from '@/utils/errorHandler';
+import { WhitelistLevel } from '@/types/contracts';
+import {
+  WhitelistMigrationRequest,
+  buildMigrationMessage,
+  getMigrationRequestId,
+  loadMigrationRequests,
+  saveMigrationRequest
+} from '@/utils/whitelistMigration';
+
+export const useWalletMigrationRequest = () => {
+  const { address, getSigner } = useWallet();
+  const [requests, setRequests] = useState<WhitelistMigrationRequest[]>(() => loadMigrationRequests());
+  const [submitting, setSubmitting] = useState(false);
+
+  // 当前钱包作为旧钱包提交过的申请
+  const myRequests = address
+    ? requests.filter(request => request.from.toLowerCase() === address.toLowerCase())
+    : [];
+
+  // 用旧钱包签名 EIP-191 消息，申请保存到本地审核队列
+  const submitRequest = useCallback(async (to: string) => {
+    setSubmitting(true);
+
+    try {
+      const contractAddress = getContractAddress('WHITELISTMANAGER');
+      if (!contractAddress) {
+        throw new Error('WhitelistManager contract address not configured. Please set VITE_WHITELISTMANAGER_ADDRESS in .env.local');
+      }
+      if (!ethers.isAddress(to)) {
+        throw new Error('Invalid Ethereum address format');
+      }
+
+      const signer = await getSigner();
+      if (!signer) throw new Error('No wallet connected');
+
+      const from = await signer.getAddress();
+      if (from.toLowerCase() === to.toLowerCase()) {
+        throw new Error('New wallet must differ from the current wallet');
+      }
+
+      const contract = connectWhitelistManager(contractAddress, signer);
+      const [level, toBlacklisted] = await Promise.all([
+        contract.getWhitelistStatus(from),
+        contract.isBlacklisted(to),
+      ]);
+      if (Number(level) !== WhitelistLevel.WHITELISTED && Number(level) !== WhitelistLevel.VIP) {
+        throw new Error('Current wallet has no active whitelist status to migrate');
+      }
+      if (toBlacklisted) {
+        throw new Error('New wallet is blacklisted');
+      }
+
+      const network = await signer.provider.getNetwork();
+      const params = {
+        contractAddress: ethers.getAddress(contractAddress),
+        chainId: Number(network.chainId),
+        from,
+        to: ethers.getAddress(to),
+        issuedAt: Date.now(),
+      };
+      const signature = await signer.signMessage(buildMigrationMessage(params));
+
+      const request: WhitelistMigrationRequest = {
+        ...params,
+        id: getMigrationRequestId(from, params.issuedAt),
+        signature,
+        status: 'pending',
+      };
+      setRequests(saveMigrationRequest(request));
+
+      return request;
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    } finally {
+      setSubmitting(false);
+    }
+  }, [getSigner]);
+
+  return {
+    myRequests,
+    submitting,
+    submitRequest,
+  };
+};
@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useWallet } from './useWallet';
+import { getContractAddress } from '@/utils/contracts';
+import { connectWhitelistManager } from '@/generated';
+import { handleContractError } from '@/utils/errorHandler';
+import { WhitelistLevel } from '@/types/contracts';
+import { WHITELIST_MAX_BATCH_SIZE } from '@/utils/whitelistImport';
+import { WhitelistExpiryEntry } from '@/utils/whitelistExpiry';
+
+const chunkAddresses = <T>(items: T[]): T[][] => {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += WHITELIST_MAX_BATCH_SIZE) {
+    chunks.push(items.slice(start, start + WHITELIST_MAX_BATCH_SIZE));
+  }
+  return chunks;
+};
+
+export const useWhitelistExpiry = () => {
+  const { getSigner, getProvider } = useWallet();
+  const [entries, setEntries] = useState<WhitelistExpiryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getWhitelistContract = useCallback(async () => {
+    const contractAddress = getContractAddress('WHITELISTMANAGER');
+    if (!contractAddress) {
+      throw new Error('WhitelistManager contract address not configured. Please set VITE_WHITELISTMANAGER_ADDRESS in .env.local');
+    }
+
+    // Try to get signer first, fallback to provider
+    let runner;
+    try {
+      runner = await getSigner();
+    } catch {
+      runner = await getProvider();
+    }
+
+    if (!runner) throw new Error('No wallet connection found');
+    return connectWhitelistManager(contractAddress, runner);
+  }, [getSigner, getProvider]);
+
+  // 通过 getAllWhitelistUsers 分页遍历全部用户，再批量读取原始白名单信息
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const contract = await getWhitelistContract();
+      const result: WhitelistExpiryEntry[] = [];
+
+      let offset = 0;
+      let total = 1;
+      while (offset < total) {
+        const [users, userTotal] = await contract.getAllWhitelistUsers(offset, WHITELIST_MAX_BATCH_SIZE);
+        total = Number(userTotal);
+        if (users.length === 0) break;
+
+        const [infos] = await contract.getBatchWhitelistInfo([...users]);
+        users.forEach((address, index) => {
+          result.push({
+            address,
+            level: Number(infos[index].level) as WhitelistLevel,
+            expirationTime: Number(infos[index].expirationTime),
+            addedTime: Number(infos[index].addedTime),
+          });
+        });
+        offset += users.length;
+      }
+
+      setEntries(result);
+    } catch (error) {
+      console.error('Failed to fetch whitelist expirations:', error);
+      setError(handleContractError(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [getWhitelistContract]);
+
+  // 以原级别重新添加并设置新的过期时间，合约对相同级别只更新过期时间
+  const extendEntries = useCallback(async (
+    targets: WhitelistExpiryEntry[],
+    expirationTime: number,
+    onProgress?: (done: number, total: number) => void
+  ) => {
+    try {
+      if (expirationTime <= Math.floor(Date.now() / 1000)) {
+        throw new Error('New expiration time must be in the future');
+      }
+
+      const contract = await getWhitelistContract();
+      const chunks = chunkAddresses(targets);
+      const txHashes: string[] = [];
+      for (const [index, chunk] of chunks.entries()) {
+        const tx = await contract.batchAddToWhitelistWithExpiration(
+          chunk.map(entry => entry.address),
+          chunk.map(entry => entry.level),
+          expirationTime
+        );
+        await tx.wait();
+        txHashes.push(tx.hash);
+        onProgress?.(index + 1, chunks.length);
+      }
+
+      await fetchEntries();
+
+      return { success: true, txHashes };
+    } catch (error) {
+      await fetchEntries();
+      throw new Error(handleContractError(error));
+    }
+  }, [getWhitelistContract, fetchEntries]);
+
+  // 分批调用 cleanupExpiredWhitelists，将过期条目级别置为 NONE
+  const cleanupExpired = useCallback(async (
+    addresses: string[],
+    onProgress?: (done: number, total: number) => void
+  ) => {
+    try {
+      const contract = await getWhitelistContract();
+      const chunks = chunkAddresses(addresses);
+      const txHashes: string[] = [];
+      for (const [index, chunk] of chunks.entries()) {
+        const tx = await contract.cleanupExpiredWhitelists(chunk);
+        await tx.wait();
+        txHashes.push(tx.hash);
+        onProgress?.(index + 1, chunks.length);
+      }
+
+      await fetchEntries();
+
+      return { success: true, txHashes };
+    } catch (error) {
+      await fetchEntries();
+      throw new Error(handleContractError(error));
+    }
+  }, [getWhitelistContract, fetchEntries]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  return {
+    entries,
+    loading,
+    error,
+    refresh: fetchEntries,
+    extendEntries,
+    cleanupExpired,
+  };
+};
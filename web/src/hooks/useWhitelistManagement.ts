@@ -1,8 +1,21 @@
 import { useState, useEffect, useCallback } from 'react';
 import { ethers } from 'ethers';
 import { useWallet } from './useWallet';
-import { getContractAddress, getContractABI } from '@/utils/contracts';
+import { getContractAddress } from '@/utils/contracts';
+import { connectWhitelistManager } from '@/generated';
 import { handleContractError } from '@/utils/errorHandler';
+import { BATCH_GAS_LIMIT_RATIO } from '@/utils/crowdsaleBatch';
+import { WhitelistLevel } from '@/types/contracts';
+import {
+  WHITELIST_MAX_BATCH_SIZE,
+  WhitelistChunk,
+  WhitelistImportRow,
+  isAlreadyAtTarget,
+  isCurrentlyBlacklisted,
+  planWhitelistChunks,
+  splitChunksByGas
+} from '@/utils/whitelistImport';
+import { appendBlacklistAudit } from '@/utils/blacklistAudit';
 
 interface WhitelistUser {
   address: string;
@@ -26,8 +39,7 @@ export const useWhitelistManagement = () => {
     if (!contractAddress) {
       throw new Error('WhitelistManager contract address not configured. Please set VITE_WHITELISTMANAGER_ADDRESS in .env.local');
     }
-    
-    const abi = getContractABI('WhitelistManager');
+
     
     // Try to get signer first, fallback to provider
     let runner;
@@ -40,7 +52,7 @@ export const useWhitelistManagement = () => {
     if (!runner) throw new Error('No wallet connection found');
     
     console.log('Creating WhitelistManager contract with:', { contractAddress, runner: !!runner });
-    return new ethers.Contract(contractAddress, abi, runner);
+    return connectWhitelistManager(contractAddress, runner);
   }, [getSigner, getProvider]);
 
   // 获取白名单用户列表
@@ -86,17 +98,17 @@ export const useWhitelistManagement = () => {
           const level = await contract.getWhitelistStatus(address);
           const levelNum = Number(level);
           
-          // 只显示有效的白名单用户（非NONE级别）
-          if (levelNum !== 1) { // 1 = NONE
+          // 只显示有效的白名单用户（WHITELISTED / VIP），黑名单在单独的标签页中管理
+          if (levelNum === 2 || levelNum === 3) {
             // 获取用户详细信息
             const info = await contract.getWhitelistInfo(address);
             
-            const tier = levelNum === 3 ? 'VIP' : levelNum === 2 ? 'WHITELISTED' : 'BLACKLISTED';
-            const allocation = tier === 'VIP' ? '5000.00' : tier === 'WHITELISTED' ? '1000.00' : '0.00';
+            const tier = levelNum === 3 ? 'VIP' : 'WHITELISTED';
+            const allocation = tier === 'VIP' ? '5000.00' : '1000.00';
             
             users.push({
               address,
-              tier: tier as 'VIP' | 'WHITELISTED',
+              tier,
               level: levelNum,
               allocation,
               used: '0.00', // TODO: 从众筹合约获取已使用额度
@@ -236,17 +248,97 @@ export const useWhitelistManagement = () => {
     }
   }, [getWhitelistContract, fetchWhitelistUsers]);
 
+  // 批量读取链上白名单状态，级别为考虑过期后的有效级别
+  const getBatchWhitelistInfo = useCallback(async (addresses: string[]) => {
+    const contract = await getWhitelistContract();
+    const result: Record<string, { level: WhitelistLevel; expirationTime: number }> = {};
+
+    for (let start = 0; start < addresses.length; start += WHITELIST_MAX_BATCH_SIZE) {
+      const page = addresses.slice(start, start + WHITELIST_MAX_BATCH_SIZE);
+      const [infos, levels] = await contract.getBatchWhitelistInfo(page);
+      page.forEach((address, index) => {
+        result[address.toLowerCase()] = {
+          level: Number(levels[index]) as WhitelistLevel,
+          expirationTime: Number(infos[index].expirationTime),
+        };
+      });
+    }
+
+    return result;
+  }, [getWhitelistContract]);
+
+  // 准备批量导入：跳过已是目标级别的地址，按过期时间和 gas 预算拆分批次。
+  // 当前在黑名单中的地址单独列出，只有 includeBlacklisted 时才会进入批次
+  const prepareWhitelistImport = useCallback(async (rows: WhitelistImportRow[], includeBlacklisted = false) => {
+    try {
+      const current = await getBatchWhitelistInfo(rows.map(row => row.address));
+      const skipped = rows.filter(row => isAlreadyAtTarget(row, current[row.address.toLowerCase()]));
+      const blacklisted = rows.filter(row => isCurrentlyBlacklisted(current[row.address.toLowerCase()]));
+      const pending = rows.filter(row => !skipped.includes(row) && (includeBlacklisted || !blacklisted.includes(row)));
+
+      const contract = await getWhitelistContract();
+      const provider = await getProvider();
+      const block = provider ? await provider.getBlock('latest') : null;
+      const sizedChunks = planWhitelistChunks(pending);
+      const chunks = block
+        ? await splitChunksByGas(
+          sizedChunks,
+          chunk => contract.batchAddToWhitelistWithExpiration
+            .estimateGas(chunk.rows.map(row => row.address), chunk.rows.map(row => row.level), chunk.expirationTime)
+            .catch(() => null),
+          block.gasLimit * BATCH_GAS_LIMIT_RATIO / 100n
+        )
+        : sizedChunks;
+
+      return { skipped, blacklisted, chunks };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [getBatchWhitelistInfo, getWhitelistContract, getProvider]);
+
+  // 提交一个导入批次，不刷新列表，由调用方在全部批次结束后刷新。
+  // blacklistedAddresses 中的地址会被覆盖级别，为它们补一条移出黑名单的审计记录
+  const submitWhitelistChunk = useCallback(async (chunk: WhitelistChunk, blacklistedAddresses: string[] = []) => {
+    try {
+      const contract = await getWhitelistContract();
+      const addresses = chunk.rows.map(row => row.address);
+      const levels = chunk.rows.map(row => row.level);
+      const tx = chunk.expirationTime > 0
+        ? await contract.batchAddToWhitelistWithExpiration(addresses, levels, chunk.expirationTime)
+        : await contract.batchAddToWhitelist(addresses, levels);
+      await tx.wait();
+
+      const lifted = new Set(blacklistedAddresses.map(address => address.toLowerCase()));
+      const liftedRows = chunk.rows.filter(row => lifted.has(row.address.toLowerCase()));
+      if (liftedRows.length > 0) {
+        const signer = await getSigner();
+        const operator = signer ? await signer.getAddress() : '';
+        liftedRows.forEach(row => appendBlacklistAudit({
+          address: row.address,
+          action: 'remove',
+          reason: '批量导入白名单时确认解除黑名单',
+          operator,
+          txHash: tx.hash,
+        }));
+      }
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [getWhitelistContract, getSigner]);
+
   // 检查用户白名单状态
   const checkUserStatus = useCallback(async (address: string) => {
     try {
       const contract = await getWhitelistContract();
       const isWhitelisted = await contract.isWhitelisted(address);
       if (isWhitelisted) {
-        const level = await contract.getWhitelistLevel(address);
+        const level = await contract.getWhitelistStatus(address);
         return {
           isWhitelisted: true,
           level: Number(level),
-          tier: Number(level) === 2 ? 'VIP' : 'WHITELISTED'
+          tier: Number(level) === 3 ? 'VIP' : 'WHITELISTED'
         };
       }
       
@@ -269,6 +361,9 @@ export const useWhitelistManagement = () => {
     addWhitelistUser,
     removeWhitelistUser: removeUser,
     batchAddUsers,
+    getBatchWhitelistInfo,
+    prepareWhitelistImport,
+    submitWhitelistChunk,
     checkWhitelistStatus: checkUserStatus
   };
 };
@@ -0,0 +1,170 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useWallet } from './useWallet';
+import { getContractAddress } from '@/utils/contracts';
+import { connectWhitelistManager } from '@/generated';
+import { handleContractError } from '@/utils/errorHandler';
+import { EventSyncer } from '@/utils/eventSync';
+import { decodeEvent, getEventInterface } from '@/utils/eventDecoder';
+import { WhitelistLevel } from '@/types/contracts';
+import {
+  WhitelistMigrationRequest,
+  loadMigrationRequests,
+  parseMigrationRequest,
+  saveMigrationRequest,
+  updateMigrationRequest,
+  verifyMigrationRequest
+} from '@/utils/whitelistMigration';
+
+export interface WhitelistTransferRecord {
+  from: string;
+  to: string;
+  level: WhitelistLevel;
+  transferredBy: string;
+  txHash: string;
+  blockNumber: number;
+}
+
+export interface MigrationTarget {
+  contractAddress: string;
+  chainId: number;
+}
+
+export const useWhitelistMigration = () => {
+  const { getSigner, getProvider } = useWallet();
+  const [requests, setRequests] = useState<WhitelistMigrationRequest[]>(() => loadMigrationRequests());
+  const [history, setHistory] = useState<WhitelistTransferRecord[]>([]);
+  const [target, setTarget] = useState<MigrationTarget | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getWhitelistContract = useCallback(async () => {
+    const contractAddress = getContractAddress('WHITELISTMANAGER');
+    if (!contractAddress) {
+      throw new Error('WhitelistManager contract address not configured. Please set VITE_WHITELISTMANAGER_ADDRESS in .env.local');
+    }
+
+    // Try to get signer first, fallback to provider
+    let runner;
+    try {
+      runner = await getSigner();
+    } catch {
+      runner = await getProvider();
+    }
+
+    if (!runner) throw new Error('No wallet connection found');
+    return connectWhitelistManager(contractAddress, runner);
+  }, [getSigner, getProvider]);
+
+  // 从本地事件索引读取 WhitelistTransferred 事件作为链上迁移记录
+  const fetchHistory = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const contractAddress = getContractAddress('WHITELISTMANAGER');
+      const provider = await getProvider();
+      if (!contractAddress || !provider) throw new Error('No wallet connection found');
+
+      const network = await provider.getNetwork();
+      setTarget({ contractAddress, chainId: Number(network.chainId) });
+
+      const topic = getEventInterface('WhitelistManager').getEvent('WhitelistTransferred')!.topicHash;
+      const syncer = new EventSyncer(provider);
+      await syncer.syncContract(contractAddress);
+      const logs = (await syncer.getLogs(contractAddress)).filter(log => log.topics[0] === topic);
+
+      const records = logs.flatMap((log): WhitelistTransferRecord[] => {
+        const decoded = decodeEvent('WhitelistManager', log);
+        if (!decoded) return [];
+        return [{
+          from: decoded.args.from,
+          to: decoded.args.to,
+          level: Number(decoded.args.level) as WhitelistLevel,
+          transferredBy: decoded.args.transferredBy,
+          txHash: log.transactionHash,
+          blockNumber: log.blockNumber,
+        }];
+      });
+
+      setHistory(records.sort((a, b) => b.blockNumber - a.blockNumber));
+    } catch (error) {
+      console.error('Failed to fetch whitelist transfers:', error);
+      setError(handleContractError(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [getProvider]);
+
+  const refresh = useCallback(async () => {
+    setRequests(loadMigrationRequests());
+    await fetchHistory();
+  }, [fetchHistory]);
+
+  // 导入投资者发送的申请 JSON
+  const importRequest = useCallback((text: string) => {
+    const request = parseMigrationRequest(text);
+    if (!request) {
+      throw new Error('Invalid migration request');
+    }
+    if (loadMigrationRequests().some(item => item.id === request.id)) {
+      throw new Error('Migration request has already been imported');
+    }
+    setRequests(saveMigrationRequest(request));
+    return request;
+  }, []);
+
+  // 校验签名与链上状态后调用 transferWhitelistStatus
+  const executeRequest = useCallback(async (request: WhitelistMigrationRequest) => {
+    try {
+      if (request.status !== 'pending') {
+        throw new Error('Migration request has already been reviewed');
+      }
+      if (!target || verifyMigrationRequest(request, target).length > 0) {
+        throw new Error('Migration request signature is invalid or expired');
+      }
+
+      const contract = await getWhitelistContract();
+      const [fromLevel, toBlacklisted] = await Promise.all([
+        contract.getWhitelistStatus(request.from),
+        contract.isBlacklisted(request.to),
+      ]);
+      const level = Number(fromLevel);
+      if (level !== WhitelistLevel.WHITELISTED && level !== WhitelistLevel.VIP) {
+        throw new Error('Old wallet no longer has an active whitelist status');
+      }
+      if (toBlacklisted) {
+        throw new Error('New wallet is blacklisted');
+      }
+
+      const tx = await contract.transferWhitelistStatus(request.from, request.to);
+      await tx.wait();
+
+      setRequests(updateMigrationRequest(request.id, { status: 'executed', txHash: tx.hash, reviewedAt: Date.now() }));
+      await fetchHistory();
+
+      return { success: true, txHash: tx.hash };
+    } catch (error) {
+      throw new Error(handleContractError(error));
+    }
+  }, [target, getWhitelistContract, fetchHistory]);
+
+  const rejectRequest = useCallback((id: string, note: string) => {
+    setRequests(updateMigrationRequest(id, { status: 'rejected', note, reviewedAt: Date.now() }));
+  }, []);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  return {
+    requests,
+    history,
+    target,
+    loading,
+    error,
+    refresh,
+    importRequest,
+    executeRequest,
+    rejectRequest,
+  };
+};
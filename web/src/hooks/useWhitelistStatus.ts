@@ -1,7 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import { ethers } from 'ethers';
 import { useWallet } from './useWallet';
-import { CONTRACT_ABIS, getContractAddress } from '../utils/contracts';
+import { getContractAddress } from '../utils/contracts';
+import { connectWhitelistManager } from '@/generated';
+import { WhitelistLevel } from '@/types/contracts';
 
 export interface WhitelistStatusData {
   isWhitelisted: boolean;
@@ -11,6 +13,8 @@ export interface WhitelistStatusData {
   maxAllocation: string;
   currentAllocation: string;
   expirationTime: number;
+  isExpired: boolean; // 白名单已过期，有效级别降为 NONE
+  isBlacklisted: boolean;
   addedTime: number;
   addedBy: string;
 }
@@ -25,6 +29,8 @@ export const useWhitelistStatus = () => {
     maxAllocation: '0',
     currentAllocation: '0',
     expirationTime: 0,
+    isExpired: false,
+    isBlacklisted: false,
     addedTime: 0,
     addedBy: ethers.ZeroAddress
   });
@@ -32,34 +38,22 @@ export const useWhitelistStatus = () => {
   const [error, setError] = useState<string | null>(null);
 
   const getWhitelistContract = useCallback(async () => {
-    // Mock whitelist contract for testing
-    return {
-      getWhitelistStatus: async (address: string) => {
-        // Mock: return VIP status for testing
-        return 3; // VIP level
-      },
-      getUserInfo: async (address: string) => {
-        // Mock user info
-        return {
-          maxAllocation: ethers.parseEther('5'), // 5 ETH max
-          currentAllocation: ethers.parseEther('1'), // 1 ETH used
-          expirationTime: Math.floor(Date.now() / 1000) + 86400, // expires in 24h
-          addedTime: Math.floor(Date.now() / 1000) - 3600, // added 1h ago
-          addedBy: '0x1234567890123456789012345678901234567890'
-        };
-      },
-      getWhitelistInfo: async (address: string) => {
-        // Mock whitelist info - same as getUserInfo for compatibility
-        return {
-          maxAllocation: ethers.parseEther('5'),
-          currentAllocation: ethers.parseEther('1'),
-          expirationTime: Math.floor(Date.now() / 1000) + 86400,
-          addedTime: Math.floor(Date.now() / 1000) - 3600,
-          addedBy: '0x1234567890123456789012345678901234567890'
-        };
-      }
-    };
-  }, []);
+    const contractAddress = getContractAddress('WHITELISTMANAGER');
+    if (!contractAddress) {
+      throw new Error('WhitelistManager contract address not configured. Please set VITE_WHITELISTMANAGER_ADDRESS in .env.local');
+    }
+
+    // Try to get signer first, fallback to provider
+    let runner;
+    try {
+      runner = await getSigner();
+    } catch {
+      runner = await getProvider();
+    }
+
+    if (!runner) throw new Error('No wallet connection found');
+    return connectWhitelistManager(contractAddress, runner);
+  }, [getSigner, getProvider]);
 
   const fetchWhitelistStatus = useCallback(async () => {
     if (!address) {
@@ -71,6 +65,8 @@ export const useWhitelistStatus = () => {
         maxAllocation: '0',
         currentAllocation: '0',
         expirationTime: 0,
+        isExpired: false,
+        isBlacklisted: false,
         addedTime: 0,
         addedBy: ethers.ZeroAddress
       });
@@ -87,8 +83,13 @@ export const useWhitelistStatus = () => {
       const level = await contract.getWhitelistStatus(address);
       const levelNum = Number(level);
       
-      // 如果用户不在白名单中
+      // 如果用户不在白名单中（过期的白名单有效级别同样为 NONE）
       if (levelNum === 1) { // NONE
+        const info = await contract.getWhitelistInfo(address);
+        const expirationTime = Number(info.expirationTime);
+        const isExpired = Number(info.addedTime) !== 0 && expirationTime !== 0
+          && expirationTime <= Math.floor(Date.now() / 1000);
+
         setStatus({
           isWhitelisted: false,
           tier: 'NONE',
@@ -96,9 +97,11 @@ export const useWhitelistStatus = () => {
           discount: 0,
           maxAllocation: '0',
           currentAllocation: '0',
-          expirationTime: 0,
-          addedTime: 0,
-          addedBy: ethers.ZeroAddress
+          expirationTime: isExpired ? expirationTime : 0,
+          isExpired,
+          isBlacklisted: false,
+          addedTime: Number(info.addedTime),
+          addedBy: info.addedBy
         });
         return;
       }
@@ -125,13 +128,15 @@ export const useWhitelistStatus = () => {
       const currentAllocation = '0';
 
       setStatus({
-        isWhitelisted: levelNum !== 1,
+        isWhitelisted: levelNum === 2 || levelNum === 3,
         tier: tier as 'VIP' | 'WHITELISTED' | 'NONE',
         level: levelNum,
         discount,
         maxAllocation,
         currentAllocation,
         expirationTime: Number(info.expirationTime),
+        isExpired: false,
+        isBlacklisted: levelNum === WhitelistLevel.BLACKLISTED,
         addedTime: Number(info.addedTime),
         addedBy: info.addedBy
       });
@@ -149,6 +154,8 @@ export const useWhitelistStatus = () => {
         maxAllocation: '0',
         currentAllocation: '0',
         expirationTime: 0,
+        isExpired: false,
+        isBlacklisted: false,
         addedTime: 0,
         addedBy: ethers.ZeroAddress
       });
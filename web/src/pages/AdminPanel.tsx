@@ -1,20 +1,32 @@
 import React, { useState } from 'react';
-import { ethers } from 'ethers';
 import { useWallet } from '@/hooks/useWallet';
 import { useAdminAuth } from '@/hooks/useAdminAuth';
+import { useFactoryVariant } from '@/hooks/useFactoryVariant';
 import { useCrowdsaleManagement } from '@/hooks/useCrowdsaleManagement';
 import { useWhitelistManagement } from '@/hooks/useWhitelistManagement';
 import { Card, CardHeader, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { handleContractError } from '@/utils/errorHandler';
-import { getContractABI } from '@/utils/contracts';
+import { BlacklistConsole } from '@/components/admin/BlacklistConsole';
+import { CrowdsaleBatchImport } from '@/components/admin/CrowdsaleBatchImport';
+import { CrowdsaleConfigConsole } from '@/components/admin/CrowdsaleConfigConsole';
+import { CrowdsaleWizard } from '@/components/admin/CrowdsaleWizard';
+import { MultiSigConsole } from '@/components/admin/MultiSigConsole';
+import { PhaseControlPanel } from '@/components/admin/PhaseControlPanel';
+import { PricingConsole } from '@/components/admin/PricingConsole';
+import { RoleExplorerConsole } from '@/components/admin/RoleExplorerConsole';
+import { VestingMilestoneConsole } from '@/components/admin/VestingMilestoneConsole';
+import { VestingScheduleConsole } from '@/components/admin/VestingScheduleConsole';
+import { WhitelistExpiryConsole } from '@/components/admin/WhitelistExpiryConsole';
+import { WhitelistImport } from '@/components/admin/WhitelistImport';
+import { WhitelistMigrationConsole } from '@/components/admin/WhitelistMigrationConsole';
 import { 
   CogIcon,
   UserGroupIcon,
   ChartBarIcon,
   ExclamationTriangleIcon,
   PlusIcon,
-  PencilIcon,
+  FlagIcon,
   TrashIcon,
   PlayIcon,
   PauseIcon
@@ -22,8 +34,23 @@ import {
 
 // 接口定义移到Hook文件中
 
+const ADMIN_TABS = [
+  { id: 'overview', label: '概览' },
+  { id: 'phases', label: '阶段控制' },
+  { id: 'multisig', label: '资金多签' },
+  { id: 'config', label: '参数配置' },
+  { id: 'pricing', label: '定价策略' },
+  { id: 'vesting', label: '代币释放' },
+  { id: 'whitelist', label: '白名单有效期' },
+  { id: 'blacklist', label: '黑名单' },
+  { id: 'migration', label: '钱包迁移' },
+  { id: 'roles', label: '角色权限' },
+] as const;
+
+type AdminTab = typeof ADMIN_TABS[number]['id'];
+
 export const AdminPanel: React.FC = () => {
-  const { isConnected, getSigner } = useWallet();
+  const { isConnected } = useWallet();
   const { isAdmin, isOperator, loading: authLoading, error: authError } = useAdminAuth();
   const { 
     crowdsales, 
@@ -33,6 +60,7 @@ export const AdminPanel: React.FC = () => {
   } = useCrowdsaleManagement();
   const {
     users: whitelistUsers,
+    refreshUsers: refreshWhitelistUsers,
     addWhitelistUser,
     removeWhitelistUser
   } = useWhitelistManagement();
@@ -43,8 +71,13 @@ export const AdminPanel: React.FC = () => {
   const [operationError, setOperationError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [showBatchImport, setShowBatchImport] = useState(false);
-  const [batchImportText, setBatchImportText] = useState('');
   const [showCreateCrowdsale, setShowCreateCrowdsale] = useState(false);
+  const [createMode, setCreateMode] = useState<'single' | 'batch'>('single');
+  const [activeTab, setActiveTab] = useState<AdminTab>('overview');
+  const { capabilities } = useFactoryVariant();
+
+  // 精简版工厂不部署退款金库，隐藏金库多签
+  const visibleTabs = ADMIN_TABS.filter(tab => tab.id !== 'multisig' || capabilities.refunds);
 
   // 清除消息的函数
   const clearMessages = () => {
@@ -86,30 +119,6 @@ export const AdminPanel: React.FC = () => {
     }
   };
 
-  // 处理启动预售
-  const handleStartPresale = async (address: string) => {
-    setOperationLoading(true);
-    clearMessages();
-    
-    try {
-      // 直接使用合约调用启动预售
-      const signer = await getSigner();
-      const abi = getContractABI('TokenCrowdsale');
-      const contract = new ethers.Contract(address, abi, signer);
-      
-      const tx = await contract.startPresale();
-      await tx.wait();
-      
-      showSuccess(`预售已启动 (交易: ${tx.hash})`);
-      // 刷新数据
-      window.location.reload();
-    } catch (error) {
-      setOperationError(handleContractError(error));
-    } finally {
-      setOperationLoading(false);
-    }
-  };
-
   // 处理结束众筹
   const handleFinalizeCrowdsale = async (address: string) => {
     setOperationLoading(true);
@@ -162,73 +171,6 @@ export const AdminPanel: React.FC = () => {
     }
   };
 
-  const handleBatchImport = async () => {
-    if (!batchImportText.trim()) {
-      showError('请输入批量导入数据');
-      return;
-    }
-
-    setOperationLoading(true);
-    clearMessages();
-
-    try {
-      // 解析批量导入文本
-      const lines = batchImportText.trim().split('\n');
-      const users: Array<{ address: string; tier: 'VIP' | 'WHITELISTED' }> = [];
-      
-      for (const line of lines) {
-        const trimmedLine = line.trim();
-        if (!trimmedLine) continue;
-        
-        const parts = trimmedLine.split(',').map(p => p.trim());
-        if (parts.length < 1) continue;
-        
-        const address = parts[0];
-        const tier = parts[1]?.toUpperCase() === 'VIP' ? 'VIP' : 'WHITELISTED';
-        
-        // 验证地址格式
-        if (!address.startsWith('0x') || address.length !== 42) {
-          showError(`无效的地址格式: ${address}`);
-          return;
-        }
-        
-        users.push({ address, tier });
-      }
-
-      if (users.length === 0) {
-        showError('没有找到有效的用户数据');
-        return;
-      }
-
-      // 逐个添加用户
-      let successCount = 0;
-      let errorCount = 0;
-      
-      for (const user of users) {
-        try {
-          await addWhitelistUser(user);
-          successCount++;
-        } catch (error) {
-          console.error(`Failed to add user ${user.address}:`, error);
-          errorCount++;
-        }
-      }
-
-      if (successCount > 0) {
-        showSuccess(`批量导入完成: ${successCount} 个用户成功添加${errorCount > 0 ? `, ${errorCount} 个失败` : ''}`);
-      } else {
-        showError('批量导入失败，没有用户被添加');
-      }
-      
-      setBatchImportText('');
-      setShowBatchImport(false);
-    } catch (error) {
-      showError(handleContractError(error));
-    } finally {
-      setOperationLoading(false);
-    }
-  };
-
   if (!isConnected) {
     return (
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -323,7 +265,7 @@ export const AdminPanel: React.FC = () => {
       {/* 批量导入模态框 */}
       {showBatchImport && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-2xl mx-4">
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-3xl mx-4 max-h-[90vh] overflow-y-auto">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
                 批量导入白名单用户
@@ -338,346 +280,408 @@ export const AdminPanel: React.FC = () => {
               </Button>
             </div>
             
-            <div className="mb-4">
-              <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
-                请输入用户地址，每行一个。格式：地址,层级（可选，默认为WHITELISTED）
-              </p>
-              <p className="text-xs text-gray-500 dark:text-gray-500 mb-3">
-                示例：<br/>
-                0x1234567890123456789012345678901234567890,VIP<br/>
-                0x0987654321098765432109876543210987654321,WHITELISTED<br/>
-                0x1111111111111111111111111111111111111111
-              </p>
-              <textarea
-                value={batchImportText}
-                onChange={(e) => setBatchImportText(e.target.value)}
-                placeholder="0x1234567890123456789012345678901234567890,VIP
-0x0987654321098765432109876543210987654321,WHITELISTED
-0x1111111111111111111111111111111111111111"
-                className="w-full h-32 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white resize-none"
-              />
-            </div>
-            
-            <div className="flex space-x-3">
-              <Button
-                variant="primary"
-                onClick={handleBatchImport}
-                disabled={operationLoading || !batchImportText.trim()}
-                className="flex-1"
-              >
-                {operationLoading ? '导入中...' : '开始导入'}
-              </Button>
-              <Button
-                variant="secondary"
-                onClick={() => setShowBatchImport(false)}
-                disabled={operationLoading}
-              >
-                取消
-              </Button>
-            </div>
+            <WhitelistImport
+              onSuccess={showSuccess}
+              onError={showError}
+              onImported={refreshWhitelistUsers}
+            />
           </div>
         </div>
       )}
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-        {/* 众筹管理 */}
+      {/* 功能标签页 */}
+      <div className="mb-6 border-b border-gray-200 dark:border-gray-700">
+        <nav className="flex space-x-6 overflow-x-auto">
+          {visibleTabs.map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`py-3 px-1 border-b-2 text-sm font-medium whitespace-nowrap ${
+                activeTab === tab.id
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {activeTab === 'multisig' && capabilities.refunds && (
+        <MultiSigConsole
+          crowdsaleAddress={crowdsales[0]?.address}
+          onSuccess={showSuccess}
+          onError={showError}
+        />
+      )}
+
+      {activeTab === 'phases' && (
+        <PhaseControlPanel
+          crowdsaleAddress={crowdsales[0]?.address}
+          onSuccess={showSuccess}
+          onError={showError}
+        />
+      )}
+
+      {activeTab === 'config' && (
+        <CrowdsaleConfigConsole
+          crowdsaleAddress={crowdsales[0]?.address}
+          onSuccess={showSuccess}
+          onError={showError}
+        />
+      )}
+
+      {activeTab === 'pricing' && (
+        <PricingConsole
+          crowdsaleAddress={crowdsales[0]?.address}
+          onSuccess={showSuccess}
+          onError={showError}
+        />
+      )}
+
+      {activeTab === 'vesting' && (
         <div className="space-y-6">
-          <Card>
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
-                  <ChartBarIcon className="h-5 w-5 mr-2" />
-                  众筹项目管理
-                </h3>
-                <Button 
-                  variant="primary" 
-                  size="sm"
-                  onClick={() => setShowCreateCrowdsale(true)}
-                >
-                  <PlusIcon className="h-4 w-4 mr-2" />
-                  创建众筹
-                </Button>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {crowdsales.map((crowdsale, index) => (
-                  <div
-                    key={index}
-                    className="border border-gray-200 dark:border-gray-700 rounded-lg p-4"
+          <VestingScheduleConsole
+            onSuccess={showSuccess}
+            onError={showError}
+          />
+          <VestingMilestoneConsole
+            onSuccess={showSuccess}
+            onError={showError}
+          />
+        </div>
+      )}
+
+      {activeTab === 'whitelist' && (
+        <WhitelistExpiryConsole
+          onSuccess={showSuccess}
+          onError={showError}
+        />
+      )}
+
+      {activeTab === 'blacklist' && (
+        <BlacklistConsole
+          onSuccess={showSuccess}
+          onError={showError}
+        />
+      )}
+
+      {activeTab === 'migration' && (
+        <WhitelistMigrationConsole
+          onSuccess={showSuccess}
+          onError={showError}
+        />
+      )}
+
+      {activeTab === 'roles' && (
+        <RoleExplorerConsole
+          onSuccess={showSuccess}
+          onError={showError}
+        />
+      )}
+
+      {activeTab === 'overview' && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* 众筹管理 */}
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+                    <ChartBarIcon className="h-5 w-5 mr-2" />
+                    众筹项目管理
+                  </h3>
+                  <Button 
+                    variant="primary" 
+                    size="sm"
+                    onClick={() => setShowCreateCrowdsale(true)}
                   >
-                    <div className="flex items-center justify-between mb-3">
-                      <div>
-                        <h4 className="font-medium text-gray-900 dark:text-white">
-                          {crowdsale.name}
-                        </h4>
-                        <p className="text-sm text-gray-500 dark:text-gray-400 font-mono">
-                          {crowdsale.address.slice(0, 10)}...{crowdsale.address.slice(-8)}
-                        </p>
+                    <PlusIcon className="h-4 w-4 mr-2" />
+                    创建众筹
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {crowdsales.map((crowdsale, index) => (
+                    <div
+                      key={index}
+                      className="border border-gray-200 dark:border-gray-700 rounded-lg p-4"
+                    >
+                      <div className="flex items-center justify-between mb-3">
+                        <div>
+                          <h4 className="font-medium text-gray-900 dark:text-white">
+                            {crowdsale.name}
+                          </h4>
+                          <p className="text-sm text-gray-500 dark:text-gray-400 font-mono">
+                            {crowdsale.address.slice(0, 10)}...{crowdsale.address.slice(-8)}
+                          </p>
+                        </div>
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                          crowdsale.status === 'active' 
+                            ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                            : crowdsale.status === 'paused'
+                            ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
+                            : 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200'
+                        }`}>
+                          {crowdsale.status === 'active' ? '进行中' : 
+                           crowdsale.status === 'paused' ? '已暂停' : '已结束'}
+                        </span>
                       </div>
-                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                        crowdsale.status === 'active' 
-                          ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
-                          : crowdsale.status === 'paused'
-                          ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
-                          : 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200'
-                      }`}>
-                        {crowdsale.status === 'active' ? '进行中' : 
-                         crowdsale.status === 'paused' ? '已暂停' : '已结束'}
-                      </span>
-                    </div>
 
-                    <div className="grid grid-cols-3 gap-4 mb-4">
-                      <div>
-                        <p className="text-xs text-gray-500 dark:text-gray-400">已筹集</p>
-                        <p className="font-semibold text-gray-900 dark:text-white">
-                          {crowdsale.raised} ETH
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-xs text-gray-500 dark:text-gray-400">目标</p>
-                        <p className="font-semibold text-gray-900 dark:text-white">
-                          {crowdsale.target} ETH
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-xs text-gray-500 dark:text-gray-400">参与者</p>
-                        <p className="font-semibold text-gray-900 dark:text-white">
-                          {crowdsale.participants}
-                        </p>
+                      <div className="grid grid-cols-3 gap-4 mb-4">
+                        <div>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">已筹集</p>
+                          <p className="font-semibold text-gray-900 dark:text-white">
+                            {crowdsale.raised} ETH
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">目标</p>
+                          <p className="font-semibold text-gray-900 dark:text-white">
+                            {crowdsale.target} ETH
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">参与者</p>
+                          <p className="font-semibold text-gray-900 dark:text-white">
+                            {crowdsale.participants}
+                          </p>
+                        </div>
                       </div>
-                    </div>
 
-                    <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2 mb-4">
-                      <div
-                        className="bg-blue-600 h-2 rounded-full"
-                        style={{
-                          width: `${Math.min((parseFloat(crowdsale.raised) / parseFloat(crowdsale.target)) * 100, 100)}%`
-                        }}
-                      />
-                    </div>
+                      <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2 mb-4">
+                        <div
+                          className="bg-blue-600 h-2 rounded-full"
+                          style={{
+                            width: `${Math.min((parseFloat(crowdsale.raised) / parseFloat(crowdsale.target)) * 100, 100)}%`
+                          }}
+                        />
+                      </div>
 
-                    <div className="flex space-x-2">
-                      {crowdsale.status !== 'finalized' && (
-                        <Button
-                          variant="ghost"
+                      <div className="flex space-x-2">
+                        {crowdsale.status !== 'finalized' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handlePauseCrowdsale(crowdsale.address)}
+                            disabled={operationLoading}
+                          >
+                            {crowdsale.status === 'active' ? (
+                              <>
+                                <PauseIcon className="h-4 w-4 mr-1" />
+                                暂停
+                              </>
+                            ) : (
+                              <>
+                                <PlayIcon className="h-4 w-4 mr-1" />
+                                恢复
+                              </>
+                            )}
+                          </Button>
+                        )}
+                      
+                        <Button 
+                          variant="ghost" 
                           size="sm"
-                          onClick={() => handlePauseCrowdsale(crowdsale.address)}
+                          onClick={() => setActiveTab('phases')}
                           disabled={operationLoading}
                         >
-                          {crowdsale.status === 'active' ? (
-                            <>
-                              <PauseIcon className="h-4 w-4 mr-1" />
-                              暂停
-                            </>
-                          ) : (
-                            <>
-                              <PlayIcon className="h-4 w-4 mr-1" />
-                              恢复
-                            </>
-                          )}
+                          <FlagIcon className="h-4 w-4 mr-1" />
+                          阶段控制
                         </Button>
-                      )}
-                      
-                      <Button 
-                        variant="ghost" 
-                        size="sm"
-                        onClick={() => handleStartPresale(crowdsale.address)}
-                        disabled={operationLoading || crowdsale.phase > 0}
-                      >
-                        <PencilIcon className="h-4 w-4 mr-1" />
-                        {crowdsale.phase === 0 ? '启动预售' : '编辑'}
-                      </Button>
                       
-                      <Button 
-                        variant="ghost" 
-                        size="sm" 
-                        className="text-red-600 hover:text-red-700"
-                        onClick={() => handleFinalizeCrowdsale(crowdsale.address)}
-                        disabled={operationLoading || crowdsale.status === 'finalized'}
-                      >
-                        {crowdsale.status === 'finalized' ? '已结束' : '结束众筹'}
-                      </Button>
+                        <Button 
+                          variant="ghost" 
+                          size="sm" 
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => handleFinalizeCrowdsale(crowdsale.address)}
+                          disabled={operationLoading || crowdsale.status === 'finalized'}
+                        >
+                          {crowdsale.status === 'finalized' ? '已结束' : '结束众筹'}
+                        </Button>
+                      </div>
                     </div>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* 系统统计 */}
-          <Card>
-            <CardHeader>
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-                系统统计
-              </h3>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-2 gap-4">
-                <div className="text-center p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
-                  <p className="text-2xl font-bold text-blue-600">
-                    {crowdsales.length}
-                  </p>
-                  <p className="text-sm text-gray-600 dark:text-gray-400">
-                    总众筹项目
-                  </p>
-                </div>
-                <div className="text-center p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
-                  <p className="text-2xl font-bold text-green-600">
-                    {crowdsales.reduce((sum, cs) => sum + cs.participants, 0)}
-                  </p>
-                  <p className="text-sm text-gray-600 dark:text-gray-400">
-                    总参与者
-                  </p>
+                  ))}
                 </div>
-                <div className="text-center p-4 bg-purple-50 dark:bg-purple-900/20 rounded-lg">
-                  <p className="text-2xl font-bold text-purple-600">
-                    {crowdsales.reduce((sum, cs) => sum + parseFloat(cs.raised), 0).toFixed(1)}
-                  </p>
-                  <p className="text-sm text-gray-600 dark:text-gray-400">
-                    总筹集 (ETH)
-                  </p>
-                </div>
-                <div className="text-center p-4 bg-orange-50 dark:bg-orange-900/20 rounded-lg">
-                  <p className="text-2xl font-bold text-orange-600">
-                    {whitelistUsers.length}
-                  </p>
-                  <p className="text-sm text-gray-600 dark:text-gray-400">
-                    白名单用户
-                  </p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
-
-        {/* 白名单管理 */}
-        <div className="space-y-6">
-          <Card>
-            <CardHeader>
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
-                <UserGroupIcon className="h-5 w-5 mr-2" />
-                白名单管理
-              </h3>
-            </CardHeader>
-            <CardContent>
-              {/* 添加用户表单 */}
-              <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 mb-6">
-                <h4 className="font-medium text-gray-900 dark:text-white mb-3">
-                  添加白名单用户
-                </h4>
-                <div className="space-y-3">
-                  <input
-                    type="text"
-                    placeholder="用户地址 (0x...)"
-                    value={newUserAddress}
-                    onChange={(e) => setNewUserAddress(e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                  />
-                  <div className="flex space-x-3">
-                    <select
-                      value={newUserTier}
-                      onChange={(e) => setNewUserTier(e.target.value as 'VIP' | 'WHITELISTED')}
-                      className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                    >
-                      <option value="WHITELISTED">白名单用户</option>
-                      <option value="VIP">VIP用户</option>
-                    </select>
+              </CardContent>
+            </Card>
+
+            {/* 系统统计 */}
+            <Card>
+              <CardHeader>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  系统统计
+                </h3>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="text-center p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
+                    <p className="text-2xl font-bold text-blue-600">
+                      {crowdsales.length}
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      总众筹项目
+                    </p>
+                  </div>
+                  <div className="text-center p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
+                    <p className="text-2xl font-bold text-green-600">
+                      {crowdsales.reduce((sum, cs) => sum + cs.participants, 0)}
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      总参与者
+                    </p>
+                  </div>
+                  <div className="text-center p-4 bg-purple-50 dark:bg-purple-900/20 rounded-lg">
+                    <p className="text-2xl font-bold text-purple-600">
+                      {crowdsales.reduce((sum, cs) => sum + parseFloat(cs.raised), 0).toFixed(1)}
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      总筹集 (ETH)
+                    </p>
+                  </div>
+                  <div className="text-center p-4 bg-orange-50 dark:bg-orange-900/20 rounded-lg">
+                    <p className="text-2xl font-bold text-orange-600">
+                      {whitelistUsers.length}
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      白名单用户
+                    </p>
                   </div>
-                  <Button
-                    variant="primary"
-                    size="sm"
-                    onClick={handleAddWhitelistUser}
-                    className="w-full"
-                    disabled={operationLoading}
-                  >
-                    <PlusIcon className="h-4 w-4 mr-2" />
-                    添加用户
-                  </Button>
                 </div>
-              </div>
-
-              {/* 用户列表 */}
-              <div className="space-y-3">
-                {whitelistUsers.map((user, index) => (
-                  <div
-                    key={index}
-                    className="flex items-center justify-between p-3 border border-gray-200 dark:border-gray-700 rounded-lg"
-                  >
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-2">
-                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                          user.tier === 'VIP' 
-                            ? 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200'
-                            : 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
-                        }`}>
-                          {user.tier === 'VIP' ? 'VIP' : '白名单'}
-                        </span>
-                        <p className="font-mono text-sm text-gray-900 dark:text-white">
-                          {user.address.slice(0, 8)}...{user.address.slice(-6)}
-                        </p>
-                      </div>
-                      <div className="flex items-center space-x-4 mt-1">
-                        <span className="text-xs text-gray-500 dark:text-gray-400">
-                          配额: {user.allocation} ETH
-                        </span>
-                        <span className="text-xs text-gray-500 dark:text-gray-400">
-                          已用: {user.used} ETH
-                        </span>
-                        <span className="text-xs text-gray-500 dark:text-gray-400">
-                          添加: {new Date(user.addedDate).toLocaleDateString()}
-                        </span>
-                      </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* 白名单管理 */}
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+                  <UserGroupIcon className="h-5 w-5 mr-2" />
+                  白名单管理
+                </h3>
+              </CardHeader>
+              <CardContent>
+                {/* 添加用户表单 */}
+                <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 mb-6">
+                  <h4 className="font-medium text-gray-900 dark:text-white mb-3">
+                    添加白名单用户
+                  </h4>
+                  <div className="space-y-3">
+                    <input
+                      type="text"
+                      placeholder="用户地址 (0x...)"
+                      value={newUserAddress}
+                      onChange={(e) => setNewUserAddress(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    />
+                    <div className="flex space-x-3">
+                      <select
+                        value={newUserTier}
+                        onChange={(e) => setNewUserTier(e.target.value as 'VIP' | 'WHITELISTED')}
+                        className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      >
+                        <option value="WHITELISTED">白名单用户</option>
+                        <option value="VIP">VIP用户</option>
+                      </select>
                     </div>
                     <Button
-                      variant="ghost"
+                      variant="primary"
                       size="sm"
-                      onClick={() => handleRemoveWhitelistUser(user.address)}
-                      className="text-red-600 hover:text-red-700"
+                      onClick={handleAddWhitelistUser}
+                      className="w-full"
                       disabled={operationLoading}
                     >
-                      <TrashIcon className="h-4 w-4" />
+                      <PlusIcon className="h-4 w-4 mr-2" />
+                      添加用户
                     </Button>
                   </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* 快速操作 */}
-          <Card>
-            <CardHeader>
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-                快速操作
-              </h3>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              <Button variant="secondary" className="w-full">
-                导出白名单用户
-              </Button>
-              <Button 
-                variant="secondary" 
-                className="w-full"
-                onClick={() => setShowBatchImport(true)}
-                disabled={operationLoading}
-              >
-                批量导入白名单
-              </Button>
-              <Button variant="secondary" className="w-full">
-                生成众筹报告
-              </Button>
-              <Button variant="ghost" className="w-full text-red-600 hover:text-red-700">
-                紧急暂停所有众筹
-              </Button>
-            </CardContent>
-          </Card>
+                </div>
+
+                {/* 用户列表 */}
+                <div className="space-y-3">
+                  {whitelistUsers.map((user, index) => (
+                    <div
+                      key={index}
+                      className="flex items-center justify-between p-3 border border-gray-200 dark:border-gray-700 rounded-lg"
+                    >
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-2">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                            user.tier === 'VIP' 
+                              ? 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200'
+                              : 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
+                          }`}>
+                            {user.tier === 'VIP' ? 'VIP' : '白名单'}
+                          </span>
+                          <p className="font-mono text-sm text-gray-900 dark:text-white">
+                            {user.address.slice(0, 8)}...{user.address.slice(-6)}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-4 mt-1">
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            配额: {user.allocation} ETH
+                          </span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            已用: {user.used} ETH
+                          </span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            添加: {new Date(user.addedDate).toLocaleDateString()}
+                          </span>
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemoveWhitelistUser(user.address)}
+                        className="text-red-600 hover:text-red-700"
+                        disabled={operationLoading}
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* 快速操作 */}
+            <Card>
+              <CardHeader>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  快速操作
+                </h3>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Button variant="secondary" className="w-full">
+                  导出白名单用户
+                </Button>
+                <Button 
+                  variant="secondary" 
+                  className="w-full"
+                  onClick={() => setShowBatchImport(true)}
+                  disabled={operationLoading}
+                >
+                  批量导入白名单
+                </Button>
+                <Button variant="secondary" className="w-full">
+                  生成众筹报告
+                </Button>
+                <Button variant="ghost" className="w-full text-red-600 hover:text-red-700">
+                  紧急暂停所有众筹
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
         </div>
-      </div>
+      )}
 
-      {/* 创建众筹模态框 */}
+      {/* 创建众筹向导 */}
       {showCreateCrowdsale && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-md mx-4">
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
                 创建新众筹
@@ -689,74 +693,28 @@ export const AdminPanel: React.FC = () => {
                 ✕
               </button>
             </div>
-            
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  众筹名称
-                </label>
-                <input
-                  type="text"
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
-                  placeholder="输入众筹项目名称"
-                />
-              </div>
-              
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  软顶目标 (ETH)
-                </label>
-                <input
-                  type="number"
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
-                  placeholder="100"
-                />
-              </div>
-              
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  硬顶目标 (ETH)
-                </label>
-                <input
-                  type="number"
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
-                  placeholder="1000"
-                />
-              </div>
-              
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  代币价格 (ETH)
-                </label>
-                <input
-                  type="number"
-                  step="0.001"
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
-                  placeholder="0.001"
-                />
-              </div>
-            </div>
-            
-            <div className="flex space-x-3 mt-6">
-              <Button
-                variant="secondary"
-                className="flex-1"
-                onClick={() => setShowCreateCrowdsale(false)}
-              >
-                取消
+
+            <div className="flex space-x-2 mb-4">
+              <Button variant={createMode === 'single' ? 'primary' : 'outline'} size="sm" onClick={() => setCreateMode('single')}>
+                单个创建
               </Button>
-              <Button
-                variant="primary"
-                className="flex-1"
-                onClick={() => {
-                  // TODO: 实现创建众筹逻辑
-                  showSuccess('众筹创建功能正在开发中');
-                  setShowCreateCrowdsale(false);
-                }}
-              >
-                创建
+              <Button variant={createMode === 'batch' ? 'primary' : 'outline'} size="sm" onClick={() => setCreateMode('batch')}>
+                批量导入
               </Button>
             </div>
+
+            {createMode === 'single' ? (
+              <CrowdsaleWizard
+                onSuccess={showSuccess}
+                onError={showError}
+                onClose={() => setShowCreateCrowdsale(false)}
+              />
+            ) : (
+              <CrowdsaleBatchImport
+                onSuccess={showSuccess}
+                onError={showError}
+              />
+            )}
           </div>
         </div>
       )}
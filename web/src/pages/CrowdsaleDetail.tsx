@@ -7,6 +7,7 @@ import { CountdownTimer } from '@/components/crowdsale/CountdownTimer';
 import { PurchaseForm } from '@/components/crowdsale/PurchaseForm';
 import { WhitelistStatus } from '@/components/crowdsale/WhitelistStatus';
 import { PriceDisplay } from '@/components/crowdsale/PriceDisplay';
+import { TierTracker } from '@/components/crowdsale/TierTracker';
 import { Card, CardHeader, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { 
@@ -18,33 +19,29 @@ import {
 
 export const CrowdsaleDetail: React.FC = () => {
   const { address } = useParams<{ address: string }>();
-  const { isConnected } = useWallet();
+  const { isConnected, address: userAddress } = useWallet();
   const { 
     crowdsaleData, 
     stats, 
     config, 
     isLoading, 
     error,
-    refreshData 
+    refreshData,
+    checkWhitelistStatus
   } = useCrowdsale(address || '');
 
   const [whitelistStatus, setWhitelistStatus] = useState({
     isWhitelisted: false,
+    isBlacklisted: false,
     tier: 'NONE' as 'VIP' | 'WHITELISTED' | 'NONE',
     discount: 0
   });
 
   useEffect(() => {
-    if (address) {
-      // 模拟白名单状态检查
-      // 实际应用中应该调用合约方法
-      setWhitelistStatus({
-        isWhitelisted: Math.random() > 0.7,
-        tier: Math.random() > 0.8 ? 'VIP' : 'WHITELISTED',
-        discount: Math.random() > 0.8 ? 20 : 10
-      });
+    if (address && isConnected && userAddress) {
+      checkWhitelistStatus(userAddress).then(setWhitelistStatus);
     }
-  }, [address]);
+  }, [address, isConnected, userAddress, checkWhitelistStatus]);
 
   if (isLoading) {
     return (
@@ -182,6 +179,11 @@ export const CrowdsaleDetail: React.FC = () => {
             />
           )}
 
+          {/* 阶梯价格 */}
+          {address && (
+            <TierTracker crowdsaleAddress={address} />
+          )}
+
           {/* 白名单状态 */}
           {isConnected && (
             <WhitelistStatus />
@@ -5,10 +5,14 @@ import { useUserInvestments } from '@/hooks/useUserInvestments';
 import { useTokenVesting } from '@/hooks/useTokenVesting';
 import { useInvestmentStats } from '@/hooks/useInvestmentStats';
 import { useMultiCrowdsale } from '@/hooks/useMultiCrowdsale';
+import { useRefundVault } from '@/hooks/useRefundVault';
+import { useFactoryVariant } from '@/hooks/useFactoryVariant';
 import { BalanceCard } from '@/components/wallet/BalanceCard';
 import { InvestmentCard } from '@/components/dashboard/InvestmentCard';
 import { VestingProgressCard } from '@/components/dashboard/VestingProgressCard';
 import { InvestmentDetailModal } from '@/components/dashboard/InvestmentDetailModal';
+import { RefundVaultCard } from '@/components/dashboard/RefundVaultCard';
+import { WalletMigrationCard } from '@/components/dashboard/WalletMigrationCard';
 import { Card, CardHeader, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { formatTokenAmount } from '@/utils/formatters';
@@ -18,7 +22,8 @@ import {
   TrophyIcon,
   ClockIcon,
   ExclamationTriangleIcon,
-  ArrowPathIcon
+  ArrowPathIcon,
+  BanknotesIcon
 } from '@heroicons/react/24/outline';
 import { UserInvestment } from '@/hooks/useUserInvestments';
 import toast from 'react-hot-toast';
@@ -28,9 +33,14 @@ export const Dashboard: React.FC = () => {
   const navigate = useNavigate();
   const { address, isConnected, balance } = useWallet();
   const { investments, loading: investmentsLoading, error: investmentsError, refreshInvestments } = useUserInvestments(address || undefined);
-  const { vestingSchedules, loading: vestingLoading, error: vestingError, releaseTokens, batchReleaseTokens, releasing, refresh: refreshVestingSchedules } = useTokenVesting();
+  const { vestingSchedules, loading: vestingLoading, error: vestingError, releaseTokens, batchReleaseTokens, releasing, refresh: refreshVestingSchedules } = useTokenVesting(address || undefined);
   const { projects, loading: multiLoading } = useMultiCrowdsale();
   const { stats } = useInvestmentStats(investments, vestingSchedules);
+  const { vaults, loading: vaultsLoading, error: vaultsError, refundingVault, claimRefund, refresh: refreshVaults } = useRefundVault(
+    address || undefined,
+    investments.map(investment => investment.crowdsaleAddress)
+  );
+  const { capabilities } = useFactoryVariant();
   const [selectedInvestment, setSelectedInvestment] = useState<UserInvestment | null>(null);
   const [selectedVestingIds, setSelectedVestingIds] = useState<string[]>([]);
 
@@ -58,9 +68,15 @@ export const Dashboard: React.FC = () => {
   const handleRefreshData = async () => {
     await refreshInvestments();
     await refreshVestingSchedules();
+    await refreshVaults();
     toast.success('数据已刷新');
   };
 
+  const handleClaimRefund = async (vaultAddress: string) => {
+    await claimRefund(vaultAddress);
+    refreshInvestments();
+  };
+
   const handleBrowseCrowdsales = () => {
     navigate('/');
   };
@@ -336,6 +352,61 @@ export const Dashboard: React.FC = () => {
               )}
             </CardContent>
           </Card>
+
+          {/* 资金托管与退款 */}
+          {capabilities.refunds && (vaults.length > 0 || vaultsLoading || vaultsError) && (
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-center">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    资金托管与退款
+                  </h3>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={refreshVaults}
+                    disabled={vaultsLoading}
+                  >
+                    <ArrowPathIcon className={`h-4 w-4 ${vaultsLoading ? 'animate-spin' : ''}`} />
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {vaultsLoading ? (
+                  <div className="flex items-center justify-center py-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                    <span className="ml-2 text-gray-500">加载托管数据...</span>
+                  </div>
+                ) : vaultsError ? (
+                  <div className="text-center py-8">
+                    <ExclamationTriangleIcon className="h-12 w-12 text-red-500 mx-auto mb-4" />
+                    <h3 className="text-lg font-semibold text-gray-900 mb-2">加载失败</h3>
+                    <p className="text-gray-500 mb-4">{vaultsError}</p>
+                    <Button onClick={refreshVaults}>重试</Button>
+                  </div>
+                ) : vaults.length === 0 ? (
+                  <div className="text-center py-8">
+                    <BanknotesIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                    <p className="text-gray-500">暂无托管资金</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {vaults.map((vault) => (
+                      <RefundVaultCard
+                        key={vault.vaultAddress}
+                        vault={vault}
+                        crowdsaleName={investments.find(
+                          investment => investment.crowdsaleAddress === vault.crowdsaleAddress
+                        )?.crowdsaleName}
+                        onRefund={handleClaimRefund}
+                        refunding={refundingVault === vault.vaultAddress}
+                      />
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         {/* 右侧钱包信息 */}
@@ -345,6 +416,9 @@ export const Dashboard: React.FC = () => {
             tokenBalances={[]}
           />
 
+          {/* 白名单钱包迁移 */}
+          <WalletMigrationCard />
+
           {/* 快速操作 */}
           <Card>
             <CardHeader>
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useWallet } from '@/hooks/useWallet';
+import { useFactoryAdminAuth } from '@/hooks/useFactoryAdminAuth';
+import { Card, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { FactoryConsole } from '@/components/admin/FactoryConsole';
+import { BuildingOfficeIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+export const FactoryAdmin: React.FC = () => {
+  const { isConnected, connect } = useWallet();
+  const {
+    isFactoryAdmin,
+    isFactoryOperator,
+    isDefaultAdmin,
+    loading: authLoading,
+    error: authError
+  } = useFactoryAdminAuth();
+
+  const [operationError, setOperationError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const showSuccess = (message: string) => {
+    setOperationError(null);
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 5000);
+  };
+
+  const showError = (message: string) => {
+    setSuccessMessage(null);
+    setOperationError(message);
+    setTimeout(() => setOperationError(null), 8000);
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card className="max-w-md mx-auto">
+          <CardContent className="p-8 text-center">
+            <BuildingOfficeIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+              连接钱包访问工厂管理
+            </h2>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
+              需要工厂管理员或运营者权限才能访问此页面
+            </p>
+            <Button variant="primary" size="lg" onClick={connect}>
+              连接钱包
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (authLoading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card className="max-w-md mx-auto">
+          <CardContent className="p-8 text-center">
+            <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+              验证权限中...
+            </h2>
+            <p className="text-gray-600 dark:text-gray-400">
+              正在检查工厂角色
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!isFactoryAdmin && !isFactoryOperator && !isDefaultAdmin) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card className="max-w-md mx-auto">
+          <CardContent className="p-8 text-center">
+            <ExclamationTriangleIcon className="h-16 w-16 text-red-400 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+              访问被拒绝
+            </h2>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
+              您没有工厂管理权限访问此页面
+            </p>
+            {authError && (
+              <p className="text-red-600 text-sm mb-4">
+                错误: {authError}
+              </p>
+            )}
+            <Button variant="secondary" onClick={() => window.history.back()}>
+              返回
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* 页面标题 */}
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white flex items-center">
+            <BuildingOfficeIcon className="h-8 w-8 mr-3" />
+            工厂管理
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            管理创建费用、公开创建和众筹紧急停止
+          </p>
+        </div>
+        <Link to="/admin" className="text-sm text-blue-600 hover:underline">
+          返回管理员控制面板
+        </Link>
+      </div>
+
+      {/* 状态消息 */}
+      {successMessage && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-800">{successMessage}</p>
+        </div>
+      )}
+
+      {operationError && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-800">{operationError}</p>
+        </div>
+      )}
+
+      <FactoryConsole
+        canAdminister={isFactoryAdmin}
+        onSuccess={showSuccess}
+        onError={showError}
+      />
+    </div>
+  );
+};
@@ -1,9 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { ethers } from 'ethers';
 import { useWallet } from '../hooks/useWallet';
 import { useCrowdsaleFactory } from '../hooks/useCrowdsaleFactory';
-import { CONTRACTS } from '../utils/contracts';
+import { connectCrowdsaleToken, connectTokenCrowdsale } from '../generated';
 import { formatEther, formatUnits } from 'ethers';
 import Layout from '../components/common/Layout';
 import LoadingSpinner from '../components/ui/LoadingSpinner';
@@ -30,25 +29,18 @@ const Home: React.FC = () => {
       const details = await Promise.all(
         activeCrowdsales.map(async (crowdsale) => {
           try {
-            const contract = new ethers.Contract(
-              crowdsale.crowdsaleAddress,
-              CONTRACTS.TokenCrowdsale,
-              provider
-            );
+            const contract = connectTokenCrowdsale(crowdsale.crowdsaleAddress, provider);
             
             // Fetch crowdsale config and stats
-            const [config, stats, phase] = await Promise.all([
+            const [config, stats, phase, tokenPrice] = await Promise.all([
               contract.getCrowdsaleConfig(),
               contract.getCrowdsaleStats(), 
-              contract.getCurrentPhase()
+              contract.getCurrentPhase(),
+              contract.getCurrentTokenPrice()
             ]);
             
             // Get token contract for name and symbol
-            const tokenContract = new ethers.Contract(
-              crowdsale.tokenAddress,
-              CONTRACTS.CrowdsaleToken,
-              provider
-            );
+            const tokenContract = connectCrowdsaleToken(crowdsale.tokenAddress, provider);
             
             const [name, symbol] = await Promise.all([
               tokenContract.name(),
@@ -57,7 +49,7 @@ const Home: React.FC = () => {
             
             // Calculate time left
             const now = Math.floor(Date.now() / 1000);
-            const endTime = Number(config.endTime);
+            const endTime = Number(config.publicSaleEndTime);
             const timeLeft = endTime > now ? endTime - now : 0;
             
             // Format phase
@@ -73,7 +65,7 @@ const Home: React.FC = () => {
               target: formatEther(config.hardCap || '0'),
               participants: Number(stats.totalParticipants || 0),
               timeLeft: timeLeft > 0 ? `${Math.ceil(timeLeft / 86400)}天` : '已结束',
-              price: formatEther(config.tokenPrice || '0'),
+              price: formatEther(tokenPrice),
               phase: phaseString,
               address: crowdsale.crowdsaleAddress,
               isActive: crowdsale.isActive
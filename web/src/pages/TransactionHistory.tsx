@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useAccount } from 'wagmi';
 import { Card, CardHeader, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
@@ -11,9 +11,12 @@ import {
   XCircleIcon,
   ArrowDownIcon,
   ArrowUpIcon,
-  ArrowPathIcon
+  ArrowPathIcon,
+  ArrowDownTrayIcon
 } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
 import { useTransactionHistory } from '../hooks/useTransactionHistory';
+import { useTransactionExport } from '../hooks/useTransactionExport';
 import { 
   TransactionType,
   TransactionStatus
@@ -28,12 +31,17 @@ import {
   formatTransactionHash,
   formatTransactionAmount,
   getTransactionExplorerUrl,
-  calculateGasFee
+  calculateGasFee,
+  getConfigUpdateTypeLabel
 } from '../utils/transactionUtils';
+import { getCrowdsaleLabel } from '../utils/crowdsaleDiscovery';
+import { ExportFormat } from '../utils/transactionExport';
 
 export const TransactionHistory: React.FC = () => {
   const { isConnected } = useAccount();
   const {
+    crowdsales,
+    filteredTransactions,
     paginatedTransactions,
     isLoading,
     error,
@@ -46,9 +54,11 @@ export const TransactionHistory: React.FC = () => {
     clearFilter,
     clearSearch
   } = useTransactionHistory();
+  const { isExporting, fiatCurrency, exportAs } = useTransactionExport();
   
   const [filterType, setFilterType] = useState<string>('all');
   const [filterStatus, setFilterStatus] = useState<string>('all');
+  const [filterCrowdsale, setFilterCrowdsale] = useState<string>('all');
   const [showFilters, setShowFilters] = useState(false);
 
   // 处理过滤器变化
@@ -58,6 +68,7 @@ export const TransactionHistory: React.FC = () => {
                    filterType === 'refund' ? [TransactionType.REFUND] :
                    filterType === 'release' ? [TransactionType.TOKEN_RELEASE] :
                    filterType === 'whitelist' ? [TransactionType.WHITELIST_ADD, TransactionType.WHITELIST_REMOVE] :
+                   filterType === 'config' ? [TransactionType.CONFIG_UPDATE] :
                    [];
       setFilter({ types });
     } else {
@@ -77,6 +88,26 @@ export const TransactionHistory: React.FC = () => {
     }
   }, [filterStatus, setFilter]);
 
+  useEffect(() => {
+    setFilter({ crowdsales: filterCrowdsale === 'all' ? [] : [filterCrowdsale] });
+  }, [filterCrowdsale, setFilter]);
+
+  const crowdsaleLabels = useMemo(
+    () => new Map(crowdsales.map(crowdsale => [crowdsale.crowdsaleAddress.toLowerCase(), getCrowdsaleLabel(crowdsale)])),
+    [crowdsales]
+  );
+
+  // 导出当前过滤和搜索后的全部记录（不限当前页）
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      await exportAs(format, filteredTransactions);
+      toast.success(`已导出 ${filteredTransactions.length} 条记录`);
+    } catch (err) {
+      toast.error(filteredTransactions.length === 0 ? '没有可导出的交易记录' : '导出失败，请重试');
+      console.error('Failed to export transactions:', err);
+    }
+  };
+
   const getTransactionIcon = (type: TransactionType, status: TransactionStatus) => {
     if (status === TransactionStatus.PENDING) {
       return <ClockIcon className="h-5 w-5 text-yellow-500" />;
@@ -154,10 +185,28 @@ export const TransactionHistory: React.FC = () => {
             </Button>
           </div>
 
+          {/* 导出 */}
+          <div className="mt-4 flex flex-wrap items-center gap-2">
+            <ArrowDownTrayIcon className="h-4 w-4 text-gray-500" />
+            <span className="text-sm text-gray-600">导出:</span>
+            <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={isExporting}>
+              CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport('json')} disabled={isExporting}>
+              JSON
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport('cost-basis')} disabled={isExporting}>
+              成本报告
+            </Button>
+            <span className="text-xs text-gray-500">
+              {fiatCurrency ? `法币价值按区块时间的 ETH/${fiatCurrency} 价格计算` : '未配置价格来源，仅导出 ETH 数值'}
+            </span>
+          </div>
+
           {/* 过滤选项 */}
           {showFilters && (
             <div className="mt-4 pt-4 border-t border-gray-200">
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     交易类型
@@ -172,6 +221,7 @@ export const TransactionHistory: React.FC = () => {
                     <option value="refund">退款</option>
                     <option value="release">代币释放</option>
                     <option value="whitelist">白名单管理</option>
+                    <option value="config">配置更新</option>
                   </select>
                 </div>
 
@@ -190,6 +240,24 @@ export const TransactionHistory: React.FC = () => {
                     <option value="failed">失败</option>
                   </select>
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    众筹项目
+                  </label>
+                  <select
+                    className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    value={filterCrowdsale}
+                    onChange={(e) => setFilterCrowdsale(e.target.value)}
+                  >
+                    <option value="all">全部众筹</option>
+                    {crowdsales.map(crowdsale => (
+                      <option key={crowdsale.crowdsaleAddress} value={crowdsale.crowdsaleAddress}>
+                        {getCrowdsaleLabel(crowdsale)}{crowdsale.isActive ? '' : '（已停用）'}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
 
               <div className="mt-4 flex gap-2">
@@ -270,6 +338,9 @@ export const TransactionHistory: React.FC = () => {
                         </div>
                         
                         <div className="text-sm text-gray-600 space-y-1">
+                          {tx.crowdsaleAddress && (
+                            <div>众筹: {crowdsaleLabels.get(tx.crowdsaleAddress.toLowerCase()) || formatAddress(tx.crowdsaleAddress)}</div>
+                          )}
                           <div>交易哈希: {formatTransactionHash(tx.hash)}</div>
                           <div>时间: {formatTimestamp(tx.timestamp)}</div>
                           <div>从: {formatAddress(tx.from)}</div>
@@ -288,7 +359,7 @@ export const TransactionHistory: React.FC = () => {
                             {formatTransactionAmount((tx as any).weiAmount)} ETH
                           </div>
                           <div className="text-sm text-gray-600">
-                            {formatTransactionAmount((tx as any).tokenAmount)} 代币
+                            {formatTransactionAmount((tx as any).tokenAmount)} {tx.tokenSymbol || '代币'}
                           </div>
                         </div>
                       )}
@@ -299,7 +370,12 @@ export const TransactionHistory: React.FC = () => {
                       )}
                       {tx.type === TransactionType.TOKEN_RELEASE && (
                         <div className="text-lg font-semibold text-green-600">
-                          {formatTransactionAmount((tx as any).amount)} 代币
+                          {formatTransactionAmount((tx as any).amount)} {tx.tokenSymbol || '代币'}
+                        </div>
+                      )}
+                      {tx.type === TransactionType.CONFIG_UPDATE && (
+                        <div className="text-sm font-medium text-gray-700">
+                          {getConfigUpdateTypeLabel(tx.configType)}
                         </div>
                       )}
                       
@@ -6,6 +6,7 @@ import { CrowdsaleDetail } from '../pages/CrowdsaleDetail';
 import { Dashboard } from '../pages/Dashboard';
 import { TransactionHistory } from '../pages/TransactionHistory';
 import { AdminPanel } from '../pages/AdminPanel';
+import { FactoryAdmin } from '../pages/FactoryAdmin';
 
 export const AppRouter: React.FC = () => {
   return (
@@ -16,6 +17,7 @@ export const AppRouter: React.FC = () => {
         <Route path="/dashboard" element={<Dashboard />} />
         <Route path="/transactions" element={<TransactionHistory />} />
         <Route path="/admin" element={<AdminPanel />} />
+        <Route path="/admin/factory" element={<FactoryAdmin />} />
       </Routes>
     </Layout>
   );
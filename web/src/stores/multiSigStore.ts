@@ -0,0 +1,61 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+export type MultiSigOperationType = 'EMERGENCY_WITHDRAW' | 'UPDATE_BENEFICIARY';
+
+export interface MultiSigProposal {
+  hash: string;
+  vaultAddress: string;
+  type: MultiSigOperationType;
+  param: string; // 紧急提取原因或新受益人地址
+  proposedBy: string;
+  proposedAt: number;
+}
+
+interface MultiSigStore {
+  // 本地记录的操作提案（链上只保存哈希，需要本地保存原始参数）
+  proposals: MultiSigProposal[];
+  // 本地记录的签名者地址，合约没有提供签名者枚举接口
+  trackedSigners: Record<string, string[]>;
+
+  addProposal: (proposal: MultiSigProposal) => void;
+  removeProposal: (vaultAddress: string, hash: string) => void;
+  trackSigner: (vaultAddress: string, signer: string) => void;
+  untrackSigner: (vaultAddress: string, signer: string) => void;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export const useMultiSigStore = create<MultiSigStore>()(
+  persist(
+    (set) => ({
+      proposals: [],
+      trackedSigners: {},
+
+      addProposal: (proposal) => set((state) => ({
+        proposals: [
+          ...state.proposals.filter(p => !(p.hash === proposal.hash && sameAddress(p.vaultAddress, proposal.vaultAddress))),
+          proposal,
+        ],
+      })),
+
+      removeProposal: (vaultAddress, hash) => set((state) => ({
+        proposals: state.proposals.filter(p => !(p.hash === hash && sameAddress(p.vaultAddress, vaultAddress))),
+      })),
+
+      trackSigner: (vaultAddress, signer) => set((state) => {
+        const key = vaultAddress.toLowerCase();
+        const current = state.trackedSigners[key] || [];
+        if (current.some(s => sameAddress(s, signer))) return state;
+        return { trackedSigners: { ...state.trackedSigners, [key]: [...current, signer] } };
+      }),
+
+      untrackSigner: (vaultAddress, signer) => set((state) => {
+        const key = vaultAddress.toLowerCase();
+        const current = state.trackedSigners[key] || [];
+        return { trackedSigners: { ...state.trackedSigners, [key]: current.filter(s => !sameAddress(s, signer)) } };
+      }),
+    }),
+    { name: 'refund-vault-multisig' }
+  )
+);
@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { join, relative, resolve } from 'path';
+import { ethers } from 'ethers';
+import { CONTRACT_ABIS } from '@/utils/contracts';
+
+// 检查已提交的生成绑定与 Foundry 编译产物（out/<Contract>.sol/<Contract>.json）中的函数和事件是否一致
+const ROOT_DIR = resolve(__dirname, '../../../..');
+const OUT_DIR = resolve(ROOT_DIR, process.env.FOUNDRY_OUT || 'out');
+const SRC_DIR = resolve(__dirname, '../..');
+const SCANNED_DIRS = ['hooks', 'utils', 'pages', 'components'];
+
+type AbiKey = keyof typeof CONTRACT_ABIS;
+
+// CONTRACT_ABIS 的键对应的 Solidity 合约
+const CONTRACT_NAMES: Record<AbiKey, string> = {
+  TokenCrowdsale: 'TokenCrowdsale',
+  RefundVault: 'RefundVault',
+  PricingStrategy: 'TieredPricingStrategy',
+  FixedPricingStrategy: 'FixedPricingStrategy',
+  CrowdsaleFactory: 'CrowdsaleFactory',
+  CrowdsaleFactoryLite: 'CrowdsaleFactoryLite',
+  TokenVesting: 'TokenVesting',
+  CrowdsaleToken: 'CrowdsaleToken',
+  WhitelistManager: 'WhitelistManager',
+};
+
+// 生成的 connectXxx 绑定对应的 CONTRACT_ABIS 键
+const CONNECTORS: Record<string, AbiKey> = {
+  connectTokenCrowdsale: 'TokenCrowdsale',
+  connectRefundVault: 'RefundVault',
+  connectTieredPricingStrategy: 'PricingStrategy',
+  connectFixedPricingStrategy: 'FixedPricingStrategy',
+  connectCrowdsaleFactory: 'CrowdsaleFactory',
+  connectCrowdsaleFactoryLite: 'CrowdsaleFactoryLite',
+  connectTokenVesting: 'TokenVesting',
+  connectCrowdsaleToken: 'CrowdsaleToken',
+  connectWhitelistManager: 'WhitelistManager',
+};
+
+// ethers BaseContract 自带的成员，不属于合约 ABI
+const BASE_CONTRACT_MEMBERS = new Set([
+  'connect', 'attach', 'getAddress', 'getDeployedCode', 'waitForDeployment', 'deploymentTransaction',
+  'getFunction', 'getEvent', 'queryFilter', 'on', 'once', 'off', 'emit', 'listenerCount', 'listeners',
+  'removeAllListeners', 'addListener', 'removeListener',
+]);
+
+// 完整签名包含参数名、indexed、返回值和状态可变性
+const fragmentSignatures = (abi: ethers.InterfaceAbi) => {
+  const iface = new ethers.Interface(abi);
+  const functions = new Set<string>();
+  const events = new Set<string>();
+  iface.forEachFunction(fn => functions.add(fn.format('full')));
+  iface.forEachEvent(event => events.add(event.format('full')));
+  return { functions, events };
+};
+
+const artifactPath = (contractName: string) => join(OUT_DIR, `${contractName}.sol`, `${contractName}.json`);
+
+// 缺少编译产物时直接失败，不跳过检查
+const loadArtifactAbi = (contractName: string): ethers.InterfaceAbi => {
+  const path = artifactPath(contractName);
+  if (!existsSync(path)) {
+    throw new Error(`Missing Foundry artifact ${relative(ROOT_DIR, path)}; run \`forge build\` in the repository root first`);
+  }
+  return JSON.parse(readFileSync(path, 'utf8')).abi;
+};
+
+const difference = (left: Set<string>, right: Set<string>) => [...left].filter(signature => !right.has(signature));
+
+const listSourceFiles = (dir: string): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return listSourceFiles(path);
+    return /\.tsx?$/.test(entry.name) && !/\.test\.tsx?$/.test(entry.name) ? [path] : [];
+  });
+
+// 识别表达式创建的合约实例，返回对应的 CONTRACT_ABIS 键
+const contractKeyOf = (expression: string, factories: Map<string, Set<AbiKey>>): Set<AbiKey> => {
+  const keys = new Set<AbiKey>();
+  for (const [connector, key] of Object.entries(CONNECTORS)) {
+    if (new RegExp(`\\b${connector}\\(`).test(expression)) keys.add(key);
+  }
+  // new ethers.Interface(CONTRACT_ABIS.X) 只用于解码日志，不算合约实例
+  if (/\bContract\(/.test(expression)) {
+    for (const match of expression.matchAll(/(?:getContractABI\(\s*'(\w+)'|CONTRACT_ABIS\.(\w+)|CONTRACTS\.(\w+))/g)) {
+      const key = (match[1] || match[2] || match[3]) as AbiKey;
+      if (key in CONTRACT_ABIS) keys.add(key);
+    }
+  }
+  for (const [factory, factoryKeys] of factories) {
+    if (new RegExp(`\\b${factory}\\(`).test(expression)) factoryKeys.forEach(key => keys.add(key));
+  }
+  return keys;
+};
+
+interface ContractUsage {
+  file: string;
+  variable: string;
+  member: string;
+  kind: 'function' | 'event';
+  contracts: AbiKey[];
+}
+
+/**
+ * 按文件粗略追踪合约变量：connectXxx/new ethers.Contract 赋值、返回合约的 getter 以及 .connect(signer)，
+ * 同名变量在同一文件里可能指向多个合约，只要其中之一包含该方法即视为匹配
+ */
+const collectContractUsages = (file: string, source: string): ContractUsage[] => {
+  const factories = new Map<string, Set<AbiKey>>();
+  const variables = new Map<string, Set<AbiKey>>();
+
+  // getXxxContract = useCallback(async () => { ... return connectXxx(...) })
+  for (const match of source.matchAll(/const (\w+) = (?:useCallback\()?async[^=]*=>\s*\{([\s\S]*?)\n\s*\}(?:, \[|;)/g)) {
+    const returned = [...match[2].matchAll(/return ([^;]+);/g)].map(item => item[1]).join('\n');
+    const keys = contractKeyOf(returned, factories);
+    if (keys.size > 0) factories.set(match[1], keys);
+  }
+
+  const assign = (variable: string, keys: Iterable<AbiKey>) => {
+    const existing = variables.get(variable) ?? new Set<AbiKey>();
+    for (const key of keys) existing.add(key);
+    if (existing.size > 0) variables.set(variable, existing);
+  };
+
+  // 先行断言不消耗字符，函数体内部的声明也能被匹配到；函数本身不算合约变量
+  for (const match of source.matchAll(/(?:const|let)\s+(\w+)(?::[^=\n]+)?\s*=(?=([^;]+);)/g)) {
+    if (!match[2].includes('=>')) assign(match[1], contractKeyOf(match[2], factories));
+  }
+  for (const match of source.matchAll(/\b(\w+)\s*=\s*(connect\w+\([^;]+|new (?:ethers\.)?Contract\([^;]+);/g)) {
+    assign(match[1], contractKeyOf(match[2], factories));
+  }
+  // contractWithSigner = contract.connect(signer)
+  for (const match of source.matchAll(/(?:const|let)\s+(\w+)\s*=\s*(\w+)\.connect\(/g)) {
+    assign(match[1], variables.get(match[2]) ?? []);
+  }
+
+  const usages: ContractUsage[] = [];
+  for (const [variable, keys] of variables) {
+    const contracts = [...keys];
+    const callPattern = new RegExp(`\\b${variable}\\.(\\w+)\\s*(?:\\(|\\.(?:staticCall|estimateGas|populateTransaction|send)\\b)`, 'g');
+    for (const match of source.matchAll(callPattern)) {
+      if (match[1] === 'filters' || BASE_CONTRACT_MEMBERS.has(match[1])) continue;
+      usages.push({ file, variable, member: match[1], kind: 'function', contracts });
+    }
+    for (const match of source.matchAll(new RegExp(`\\b${variable}\\.filters\\.(\\w+)`, 'g'))) {
+      usages.push({ file, variable, member: match[1], kind: 'event', contracts });
+    }
+    // contract.on('EventName', ...)
+    for (const match of source.matchAll(new RegExp(`\\b${variable}\\.(?:on|once|off)\\(\\s*'(\\w+)'`, 'g'))) {
+      usages.push({ file, variable, member: match[1], kind: 'event', contracts });
+    }
+  }
+  return usages;
+};
+
+const abiMemberNames = (key: AbiKey, kind: ContractUsage['kind']) => {
+  const names = new Set<string>();
+  for (const fragment of CONTRACT_ABIS[key]) {
+    if (fragment.type === kind && 'name' in fragment) names.add(fragment.name);
+  }
+  return names;
+};
+
+describe('generated bindings vs Foundry artifacts', () => {
+  it('finds an artifact for every bound contract', () => {
+    const missing = Object.values(CONTRACT_NAMES)
+      .map(artifactPath)
+      .filter(path => !existsSync(path))
+      .map(path => relative(ROOT_DIR, path));
+
+    expect(missing).toEqual([]);
+  });
+
+  it.each(Object.entries(CONTRACT_NAMES) as Array<[AbiKey, string]>)(
+    '%s matches the artifact of %s',
+    (key, contractName) => {
+      const compiled = fragmentSignatures(loadArtifactAbi(contractName));
+      const generated = fragmentSignatures(CONTRACT_ABIS[key] as unknown as ethers.InterfaceAbi);
+
+      expect(compiled.functions.size).toBeGreaterThan(0);
+      // 两个方向都比较：编译产物中新增的成员和绑定中已删除的成员都算漂移
+      expect(difference(compiled.functions, generated.functions)).toEqual([]);
+      expect(difference(generated.functions, compiled.functions)).toEqual([]);
+      expect(difference(compiled.events, generated.events)).toEqual([]);
+      expect(difference(generated.events, compiled.events)).toEqual([]);
+    }
+  );
+});
+
+describe('contract usage in the frontend', () => {
+  const usages = SCANNED_DIRS
+    .map(dir => join(SRC_DIR, dir))
+    .filter(existsSync)
+    .flatMap(listSourceFiles)
+    .flatMap(path => collectContractUsages(relative(SRC_DIR, path), readFileSync(path, 'utf8')));
+
+  it('finds contract calls in the hooks', () => {
+    const hookUsages = usages.filter(usage => usage.file.startsWith('hooks'));
+    expect(hookUsages.length).toBeGreaterThan(0);
+    expect(hookUsages).toContainEqual(expect.objectContaining({
+      file: join('hooks', 'useVestingMilestones.ts'),
+      member: 'getBeneficiarySchedules',
+      contracts: ['TokenVesting'],
+    }));
+  });
+
+  it('only calls functions and events that exist in the ABI', () => {
+    const missing = usages
+      .filter(usage => !usage.contracts.some(key => abiMemberNames(key, usage.kind).has(usage.member)))
+      .map(usage => `${usage.file}: ${usage.variable}.${usage.member} (${usage.contracts.join(' | ')})`);
+
+    expect(missing).toEqual([]);
+  });
+
+  it('reports methods missing from the ABI', () => {
+    const source = `
+      const getVestingContract = useCallback(async () => {
+        const runner = await getProvider();
+        return new ethers.Contract(address, getContractABI('TokenVesting'), runner);
+      }, [getProvider]);
+
+      const release = async () => {
+        const contract = await getVestingContract();
+        return contract.releaseTokens(scheduleId);
+      };
+    `;
+
+    const [usage] = collectContractUsages('fixture.ts', source);
+    expect(usage).toMatchObject({ variable: 'contract', member: 'releaseTokens', contracts: ['TokenVesting'] });
+    expect(abiMemberNames('TokenVesting', 'function').has(usage.member)).toBe(false);
+  });
+});
@@ -0,0 +1,342 @@
+import { ChildProcess, spawn, spawnSync } from 'child_process';
+import { existsSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { vi } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  CrowdsaleParamsStruct,
+  connectCrowdsaleFactory,
+  connectCrowdsaleToken,
+  connectTokenCrowdsale,
+  connectWhitelistManager,
+} from '@/generated';
+import { CrowdsalePhase, WhitelistLevel } from '@/types/contracts';
+import { useWalletStore } from '@/stores/walletStore';
+
+/**
+ * 前端集成测试用的本地链：启动 anvil 并运行 Foundry 部署脚本，
+ * 通过 EIP-1193 桥接 window.ethereum，让真实的 hook 直接与合约交互
+ */
+
+const ROOT_DIR = resolve(__dirname, '../../../..');
+const CHAIN_ID = 31337;
+const DEFAULT_PORT = 8555; // 避开 make anvil 使用的 8545
+
+// anvil 默认助记词派生的前四个账户
+const ANVIL_KEYS = {
+  deployer: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+  buyer: '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+  investor: '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a',
+  outsider: '0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6',
+} as const;
+
+export type ChainAccount = keyof typeof ANVIL_KEYS;
+
+// 与 .env.example 中的 VITE_<NAME>_ADDRESS 对应
+export interface DeployedAddresses {
+  CROWDSALEFACTORY: string;
+  TOKENCROWDSALE: string;
+  CROWDSALETOKEN: string;
+  WHITELISTMANAGER: string;
+  TOKENVESTING?: string;
+  REFUNDVAULT?: string;
+}
+
+export interface FactoryCrowdsale {
+  crowdsaleAddress: string;
+  tokenAddress: string;
+  vestingAddress: string;
+  whitelistAddress: string;
+  vaultAddress: string;
+}
+
+const DEPLOY_SCRIPTS = [
+  { file: 'DeployFactory.s.sol', contract: 'DeployFactory' },
+  { file: 'DeployCrowdsale.s.sol', contract: 'DeployCrowdsale' },
+];
+
+const hasBinary = (command: string) => spawnSync(command, ['--version'], { stdio: 'ignore' }).status === 0;
+
+// anvil 与 forge 都在 PATH 中时才运行链上集成测试
+export const isLocalChainAvailable = (): boolean => hasBinary('anvil') && hasBinary('forge');
+
+const waitForRpc = async (provider: ethers.JsonRpcProvider, timeoutMs: number) => {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    try {
+      await provider.send('eth_chainId', []);
+      return;
+    } catch {
+      await new Promise(done => setTimeout(done, 200));
+    }
+  }
+  throw new Error(`anvil did not respond within ${timeoutMs}ms`);
+};
+
+// 读取 forge script --broadcast 写出的部署记录
+const readBroadcast = (scriptFile: string): Record<string, string> => {
+  const path = join(ROOT_DIR, 'broadcast', scriptFile, String(CHAIN_ID), 'run-latest.json');
+  if (!existsSync(path)) {
+    throw new Error(`Broadcast file not found: ${path}`);
+  }
+  const { transactions } = JSON.parse(readFileSync(path, 'utf8')) as {
+    transactions: Array<{ transactionType: string; contractName: string | null; contractAddress: string | null }>;
+  };
+  const deployed: Record<string, string> = {};
+  for (const tx of transactions) {
+    if (tx.transactionType === 'CREATE' && tx.contractName && tx.contractAddress) {
+      deployed[tx.contractName] = ethers.getAddress(tx.contractAddress);
+    }
+  }
+  return deployed;
+};
+
+export class LocalChain {
+  readonly accounts: Record<ChainAccount, string>;
+  private walletAccount: ChainAccount | null = null;
+
+  private constructor(
+    readonly rpcUrl: string,
+    readonly provider: ethers.JsonRpcProvider,
+    readonly addresses: DeployedAddresses,
+    private anvil: ChildProcess
+  ) {
+    this.accounts = Object.fromEntries(
+      Object.entries(ANVIL_KEYS).map(([name, key]) => [name, new ethers.Wallet(key).address])
+    ) as Record<ChainAccount, string>;
+  }
+
+  /**
+   * 启动 anvil 并依次运行 DeployFactory / DeployCrowdsale 脚本
+   */
+  static async start(port = Number(process.env.LOCAL_CHAIN_PORT) || DEFAULT_PORT): Promise<LocalChain> {
+    const rpcUrl = `http://127.0.0.1:${port}`;
+    const anvil = spawn('anvil', ['--port', String(port), '--chain-id', String(CHAIN_ID), '--silent'], {
+      cwd: ROOT_DIR,
+      stdio: 'ignore',
+    });
+    const provider = new ethers.JsonRpcProvider(rpcUrl, CHAIN_ID, { staticNetwork: true, pollingInterval: 200 });
+
+    try {
+      await waitForRpc(provider, 15_000);
+
+      for (const script of DEPLOY_SCRIPTS) {
+        const result = spawnSync(
+          'forge',
+          ['script', `script/${script.file}:${script.contract}`, '--rpc-url', rpcUrl, '--broadcast', '--silent'],
+          { cwd: ROOT_DIR, env: { ...process.env, PRIVATE_KEY: ANVIL_KEYS.deployer }, encoding: 'utf8', timeout: 300_000 }
+        );
+        if (result.status !== 0) {
+          throw new Error(`forge script ${script.file} failed:\n${result.stderr || result.stdout}`);
+        }
+      }
+
+      const factory = readBroadcast('DeployFactory.s.sol');
+      const crowdsale = readBroadcast('DeployCrowdsale.s.sol');
+
+      return new LocalChain(rpcUrl, provider, {
+        CROWDSALEFACTORY: factory.CrowdsaleFactory,
+        TOKENCROWDSALE: crowdsale.TokenCrowdsale,
+        CROWDSALETOKEN: crowdsale.CrowdsaleToken,
+        WHITELISTMANAGER: crowdsale.WhitelistManager,
+      }, anvil);
+    } catch (error) {
+      provider.destroy();
+      anvil.kill();
+      throw error;
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.disconnectWallet();
+    this.provider.destroy();
+    if (this.anvil.exitCode === null) {
+      const exited = new Promise(done => this.anvil.once('exit', done));
+      this.anvil.kill();
+      await exited;
+    }
+  }
+
+  // anvil 账户已解锁，eth_sendTransaction 由节点直接签名
+  signer(account: ChainAccount = 'deployer'): Promise<ethers.JsonRpcSigner> {
+    return this.provider.getSigner(this.accounts[account]);
+  }
+
+  /**
+   * 把部署地址写入 import.meta.env（VITE_<NAME>_ADDRESS），供 getContractAddress 读取
+   */
+  useAddresses(overrides: Partial<DeployedAddresses> = {}): void {
+    for (const [name, address] of Object.entries({ ...this.addresses, ...overrides })) {
+      vi.stubEnv(`VITE_${name}_ADDRESS`, address ?? '');
+    }
+    vi.stubEnv('VITE_NETWORK_ID', String(CHAIN_ID));
+  }
+
+  /**
+   * 安装转发到 anvil 的 window.ethereum 并以指定账户登录钱包
+   */
+  connectWallet(account: ChainAccount): void {
+    this.walletAccount = account;
+    const provider = this.provider;
+
+    window.ethereum = {
+      isMetaMask: true,
+      isConnected: () => true,
+      request: async ({ method, params = [] }: { method: string; params?: unknown[] }) => {
+        const current = this.walletAccount ? this.accounts[this.walletAccount] : null;
+        switch (method) {
+          case 'eth_accounts':
+          case 'eth_requestAccounts':
+            return current ? [current] : [];
+          case 'eth_chainId':
+            return ethers.toQuantity(CHAIN_ID);
+          default:
+            return provider.send(method, params as unknown[]);
+        }
+      },
+      on: vi.fn(),
+      removeListener: vi.fn(),
+    };
+
+    const store = useWalletStore.getState();
+    store.setAddress(this.accounts[account]);
+    store.setChainId(CHAIN_ID);
+    store.setConnected(true);
+  }
+
+  disconnectWallet(): void {
+    this.walletAccount = null;
+    useWalletStore.getState().reset();
+  }
+
+  // ============ 时间与余额 ============
+
+  async now(): Promise<number> {
+    const block = await this.provider.getBlock('latest');
+    return block!.timestamp;
+  }
+
+  async increaseTime(seconds: number): Promise<void> {
+    await this.provider.send('evm_increaseTime', [seconds]);
+    await this.provider.send('evm_mine', []);
+  }
+
+  async warpTo(timestamp: number | bigint): Promise<void> {
+    const target = Number(timestamp);
+    if (target <= await this.now()) return;
+    await this.provider.send('evm_setNextBlockTimestamp', [target]);
+    await this.provider.send('evm_mine', []);
+  }
+
+  async fund(address: string, ether: string): Promise<void> {
+    await this.provider.send('anvil_setBalance', [address, ethers.toQuantity(ethers.parseEther(ether))]);
+  }
+
+  snapshot(): Promise<string> {
+    return this.provider.send('evm_snapshot', []);
+  }
+
+  async revert(snapshotId: string): Promise<void> {
+    await this.provider.send('evm_revert', [snapshotId]);
+  }
+
+  // ============ 众筹操作 ============
+
+  /**
+   * 推进众筹阶段：先把链上时间推进到对应时间窗口，再由管理员切换阶段
+   */
+  async advancePhase(crowdsaleAddress: string, phase: CrowdsalePhase, admin: ChainAccount = 'deployer'): Promise<void> {
+    const crowdsale = connectTokenCrowdsale(crowdsaleAddress, await this.signer(admin));
+    const config = await crowdsale.getCrowdsaleConfig();
+
+    switch (phase) {
+      case CrowdsalePhase.PRESALE:
+        await this.warpTo(config.presaleStartTime);
+        await (await crowdsale.startPresale()).wait();
+        break;
+      case CrowdsalePhase.PUBLIC_SALE:
+        if (Number(await crowdsale.getCurrentPhase()) === CrowdsalePhase.PENDING) {
+          await this.advancePhase(crowdsaleAddress, CrowdsalePhase.PRESALE, admin);
+        }
+        await this.warpTo(config.publicSaleStartTime);
+        await (await crowdsale.startPublicSale()).wait();
+        break;
+      case CrowdsalePhase.FINALIZED: {
+        const current = Number(await crowdsale.getCurrentPhase());
+        const endTime = current === CrowdsalePhase.PRESALE ? config.presaleEndTime : config.publicSaleEndTime;
+        await this.warpTo(endTime + 1n);
+        await (await crowdsale.finalizeCrowdsale()).wait();
+        break;
+      }
+      default:
+        throw new Error(`Cannot advance to phase ${phase}`);
+    }
+  }
+
+  async addToWhitelist(
+    whitelistAddress: string,
+    account: ChainAccount,
+    level: WhitelistLevel.WHITELISTED | WhitelistLevel.VIP = WhitelistLevel.WHITELISTED,
+    admin: ChainAccount = 'deployer'
+  ): Promise<void> {
+    const whitelist = connectWhitelistManager(whitelistAddress, await this.signer(admin));
+    await (await whitelist.addToWhitelist(this.accounts[account], level)).wait();
+  }
+
+  // DeployCrowdsale 部署的代币没有预铸造，购买前需要给众筹合约铸造库存
+  async mintSaleTokens(amount: string, crowdsaleAddress = this.addresses.TOKENCROWDSALE): Promise<void> {
+    const crowdsale = connectTokenCrowdsale(crowdsaleAddress, this.provider);
+    const token = connectCrowdsaleToken(await crowdsale.token(), await this.signer('deployer'));
+    await (await token.mint(crowdsaleAddress, ethers.parseEther(amount))).wait();
+  }
+
+  /**
+   * 通过工厂创建包含归属与退款金库的完整众筹实例
+   */
+  async createFactoryCrowdsale(
+    overrides: Partial<CrowdsaleParamsStruct> = {},
+    creator: ChainAccount = 'deployer'
+  ): Promise<FactoryCrowdsale> {
+    const factory = connectCrowdsaleFactory(this.addresses.CROWDSALEFACTORY, await this.signer(creator));
+    const now = await this.now();
+
+    const params: CrowdsaleParamsStruct = {
+      tokenName: 'Fixture Token',
+      tokenSymbol: 'FIX',
+      totalSupply: ethers.parseEther('1000000'),
+      softCap: ethers.parseEther('5'),
+      hardCap: ethers.parseEther('50'),
+      startTime: now + 3600,
+      endTime: now + 30 * 86_400,
+      fundingWallet: this.accounts[creator],
+      tokenPrice: ethers.parseEther('0.001'),
+      vestingParams: {
+        enabled: true,
+        cliffDuration: 30 * 86_400,
+        vestingDuration: 180 * 86_400,
+        vestingType: 0, // LINEAR
+        immediateReleasePercentage: 1000, // 10%
+      },
+      ...overrides,
+    };
+
+    const receipt = await (await factory.createCrowdsale(params, { value: await factory.creationFee() })).wait();
+    const created = receipt?.logs
+      .map(log => factory.interface.parseLog(log))
+      .find(parsed => parsed?.name === 'CrowdsaleCreated');
+    if (!created) {
+      throw new Error('CrowdsaleCreated event not found');
+    }
+
+    const crowdsale = connectTokenCrowdsale(created.args.crowdsaleAddress, this.provider);
+    const [whitelistAddress, vaultAddress] = await Promise.all([crowdsale.whitelistManager(), crowdsale.refundVault()]);
+
+    return {
+      crowdsaleAddress: created.args.crowdsaleAddress,
+      tokenAddress: created.args.tokenAddress,
+      vestingAddress: created.args.vestingAddress,
+      whitelistAddress,
+      vaultAddress,
+    };
+  }
+}
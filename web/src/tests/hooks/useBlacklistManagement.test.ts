@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useBlacklistManagement } from '@/hooks/useBlacklistManagement';
+
+const ALICE = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+const contract = {
+  getWhitelistStats: vi.fn(),
+  getUsersByLevel: vi.fn(),
+  isBlacklisted: vi.fn(),
+  removeFromWhitelist: vi.fn(),
+};
+
+// 返回稳定的引用，否则每次渲染都会重建 fetchBlacklist 并重复触发加载
+const wallet = {
+  getSigner: async () => ({ getAddress: async () => ALICE }),
+  getProvider: async () => null,
+};
+
+vi.mock('@/hooks/useWallet', () => ({
+  useWallet: () => wallet
+}));
+
+vi.mock('@/utils/contracts', () => ({
+  getContractAddress: () => '0x0000000000000000000000000000000000000001'
+}));
+
+vi.mock('@/generated', () => ({
+  connectWhitelistManager: () => contract
+}));
+
+describe('useBlacklistManagement', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    window.localStorage.clear();
+    contract.getWhitelistStats.mockResolvedValue([0n, 0n, 0n]);
+    contract.getUsersByLevel.mockResolvedValue([[], []]);
+    contract.removeFromWhitelist.mockResolvedValue({ hash: '0xabc', wait: async () => null });
+  });
+
+  it('refuses to remove an address that is not blacklisted', async () => {
+    contract.isBlacklisted.mockResolvedValue(false);
+    const { result } = renderHook(() => useBlacklistManagement());
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    await act(async () => {
+      await expect(result.current.removeFromBlacklist(ALICE, '误判')).rejects.toThrow('Address is not blacklisted');
+    });
+
+    expect(contract.removeFromWhitelist).not.toHaveBeenCalled();
+    expect(result.current.auditLog).toEqual([]);
+  });
+
+  it('rejects malformed addresses before touching the contract', async () => {
+    const { result } = renderHook(() => useBlacklistManagement());
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    await act(async () => {
+      await expect(result.current.removeFromBlacklist('0x1234', '误判')).rejects.toThrow('Invalid Ethereum address format');
+    });
+
+    expect(contract.isBlacklisted).not.toHaveBeenCalled();
+    expect(contract.removeFromWhitelist).not.toHaveBeenCalled();
+  });
+
+  it('removes a blacklisted address and records the audit entry', async () => {
+    contract.isBlacklisted.mockResolvedValue(true);
+    const { result } = renderHook(() => useBlacklistManagement());
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    await act(async () => {
+      await result.current.removeFromBlacklist(ALICE.toLowerCase(), '申诉通过');
+    });
+
+    expect(contract.removeFromWhitelist).toHaveBeenCalledWith(ALICE.toLowerCase());
+    expect(result.current.auditLog[0]).toMatchObject({ address: ALICE, action: 'remove', reason: '申诉通过', txHash: '0xabc' });
+  });
+});
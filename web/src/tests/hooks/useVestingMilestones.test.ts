@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { TokenVestingContract } from '@/generated';
+import { fetchScheduleMilestones } from '@/hooks/useVestingMilestones';
+
+const revert = (reason: string | null) =>
+  ethers.makeError(reason ? `execution reverted: "${reason}"` : 'missing revert data', 'CALL_EXCEPTION', {
+    action: 'call',
+    data: '0x',
+    reason,
+    transaction: { to: null, data: '0x' },
+    invocation: null,
+    revert: null,
+  });
+
+// 模拟 getMilestoneCount / getMilestone，hasCount 为 false 时模拟早期部署
+const createContract = (percentages: number[], { hasCount = true, failAt = -1 } = {}) => {
+  const contract = {
+    getMilestoneCount: vi.fn(async () => {
+      if (!hasCount) throw revert(null);
+      return BigInt(percentages.length);
+    }),
+    getMilestone: vi.fn(async (_scheduleId: bigint, index: number) => {
+      if (index === failAt) throw new Error('network error');
+      if (index >= percentages.length) throw revert('TokenVesting: milestone not found');
+      const milestone = [`M${index}`, BigInt(percentages[index]), false, 0n];
+      return Object.assign(milestone, {
+        description: milestone[0],
+        percentage: milestone[1],
+        achieved: milestone[2],
+        achievedTime: milestone[3],
+      });
+    }),
+  };
+  return contract as typeof contract & TokenVestingContract;
+};
+
+describe('fetchScheduleMilestones', () => {
+  it('reads every milestone reported by getMilestoneCount', async () => {
+    const percentages = Array.from({ length: 60 }, () => 100);
+    const contract = createContract(percentages);
+
+    const milestones = await fetchScheduleMilestones(contract, 1n);
+
+    expect(milestones).toHaveLength(60);
+    expect(milestones[59]).toMatchObject({ index: 59, description: 'M59', percentage: 100 });
+    expect(contract.getMilestone).toHaveBeenCalledTimes(60);
+  });
+
+  it('scans until the not-found revert when getMilestoneCount is missing', async () => {
+    const contract = createContract([4000, 6000], { hasCount: false });
+
+    const milestones = await fetchScheduleMilestones(contract, 1n);
+
+    expect(milestones.map(milestone => milestone.percentage)).toEqual([4000, 6000]);
+  });
+
+  it('rethrows errors other than the not-found revert', async () => {
+    await expect(fetchScheduleMilestones(createContract([4000, 6000], { failAt: 1 }), 1n)).rejects.toThrow('network error');
+    await expect(fetchScheduleMilestones(createContract([4000, 6000], { hasCount: false, failAt: 1 }), 1n)).rejects.toThrow('network error');
+  });
+});
@@ -6,13 +6,19 @@ import { CrowdsaleDetail } from '@/pages/CrowdsaleDetail';
 // Mock all the hooks and components
 const mockUseWallet = vi.fn();
 const mockUseCrowdsale = vi.fn();
+const mockCheckWhitelistStatus = vi.fn().mockResolvedValue({
+  isWhitelisted: false,
+  isBlacklisted: false,
+  tier: 'NONE',
+  discount: 0
+});
 
 vi.mock('@/hooks/useWallet', () => ({
   useWallet: () => mockUseWallet()
 }));
 
 vi.mock('@/hooks/useCrowdsale', () => ({
-  useCrowdsale: () => mockUseCrowdsale()
+  useCrowdsale: () => ({ checkWhitelistStatus: mockCheckWhitelistStatus, ...mockUseCrowdsale() })
 }));
 
 vi.mock('react-router-dom', async () => {
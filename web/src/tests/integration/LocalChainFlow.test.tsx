@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { ethers } from 'ethers';
+import { useCrowdsale } from '@/hooks/useCrowdsale';
+import { useTokenVesting } from '@/hooks/useTokenVesting';
+import { useWhitelistManagement } from '@/hooks/useWhitelistManagement';
+import { connectCrowdsaleToken, connectRefundVault, connectTokenCrowdsale } from '@/generated';
+import { CrowdsalePhase, WhitelistLevel } from '@/types/contracts';
+import { FactoryCrowdsale, LocalChain, isLocalChainAvailable } from '../fixtures/localChain';
+
+// 依赖本地 anvil 与 forge，未安装时整组跳过
+const CHAIN_TIMEOUT = 120_000;
+
+vi.mock('react-hot-toast', () => {
+  const toast = Object.assign(vi.fn(), { success: vi.fn(), error: vi.fn(), loading: vi.fn(), dismiss: vi.fn() });
+  return { default: toast, toast };
+});
+
+describe.skipIf(!isLocalChainAvailable())('local chain crowdsale flow', () => {
+  let chain: LocalChain;
+  let snapshotId: string;
+
+  beforeAll(async () => {
+    chain = await LocalChain.start();
+  }, CHAIN_TIMEOUT);
+
+  afterAll(async () => {
+    await chain?.stop();
+  });
+
+  beforeEach(async () => {
+    snapshotId = await chain.snapshot();
+    chain.useAddresses();
+  });
+
+  afterEach(async () => {
+    chain.disconnectWallet();
+    vi.unstubAllEnvs();
+    await chain.revert(snapshotId);
+  });
+
+  it('runs presale, public sale and finalization through useCrowdsale', async () => {
+    const { TOKENCROWDSALE: saleAddress } = chain.addresses;
+    await chain.mintSaleTokens('100000');
+
+    // 管理员通过 hook 把买家加入白名单，预售阶段只允许白名单购买
+    chain.connectWallet('deployer');
+    const whitelist = renderHook(() => useWhitelistManagement());
+    await act(() => whitelist.result.current.addWhitelistUser({ address: chain.accounts.buyer, tier: 'WHITELISTED' }));
+    await expect(whitelist.result.current.checkWhitelistStatus(chain.accounts.buyer))
+      .resolves.toMatchObject({ isWhitelisted: true, level: WhitelistLevel.WHITELISTED });
+    whitelist.unmount();
+
+    await chain.advancePhase(saleAddress, CrowdsalePhase.PRESALE);
+
+    chain.connectWallet('buyer');
+    const { result } = renderHook(() => useCrowdsale(saleAddress));
+    await waitFor(() => expect(result.current.phase).toBe(CrowdsalePhase.PRESALE));
+
+    await act(() => result.current.purchaseTokens('1'));
+    await waitFor(() => expect(result.current.stats?.totalRaised).toBe(ethers.parseEther('1')));
+
+    const token = connectCrowdsaleToken(chain.addresses.CROWDSALETOKEN, chain.provider);
+    expect(await token.balanceOf(chain.accounts.buyer)).toBeGreaterThan(0n);
+
+    await chain.advancePhase(saleAddress, CrowdsalePhase.PUBLIC_SALE);
+    await act(() => result.current.fetchCrowdsaleData(saleAddress));
+    expect(result.current.phase).toBe(CrowdsalePhase.PUBLIC_SALE);
+
+    // 公售阶段非白名单用户也可以购买
+    chain.connectWallet('outsider');
+    const outsider = renderHook(() => useCrowdsale(saleAddress));
+    await waitFor(() => expect(outsider.result.current.phase).toBe(CrowdsalePhase.PUBLIC_SALE));
+    await act(() => outsider.result.current.purchaseTokens('0.5'));
+    await waitFor(() => expect(outsider.result.current.stats?.totalParticipants).toBe(2n));
+
+    await chain.advancePhase(saleAddress, CrowdsalePhase.FINALIZED);
+    await act(() => outsider.result.current.fetchCrowdsaleData(saleAddress));
+    expect(outsider.result.current.phase).toBe(CrowdsalePhase.FINALIZED);
+  }, CHAIN_TIMEOUT);
+
+  describe('factory crowdsale', () => {
+    let sale: FactoryCrowdsale;
+
+    beforeEach(async () => {
+      sale = await chain.createFactoryCrowdsale();
+      chain.useAddresses({
+        TOKENCROWDSALE: sale.crowdsaleAddress,
+        CROWDSALETOKEN: sale.tokenAddress,
+        WHITELISTMANAGER: sale.whitelistAddress,
+        TOKENVESTING: sale.vestingAddress,
+        REFUNDVAULT: sale.vaultAddress,
+      });
+      await chain.addToWhitelist(sale.whitelistAddress, 'buyer');
+    }, CHAIN_TIMEOUT);
+
+    it('refunds deposits when the soft cap is missed', async () => {
+      await chain.advancePhase(sale.crowdsaleAddress, CrowdsalePhase.PRESALE);
+
+      chain.connectWallet('buyer');
+      const { result } = renderHook(() => useCrowdsale(sale.crowdsaleAddress));
+      await waitFor(() => expect(result.current.phase).toBe(CrowdsalePhase.PRESALE));
+      await act(() => result.current.purchaseTokens('1'));
+      await waitFor(() => expect(result.current.stats?.totalRaised).toBe(ethers.parseEther('1')));
+
+      await chain.advancePhase(sale.crowdsaleAddress, CrowdsalePhase.FINALIZED);
+
+      const vault = connectRefundVault(sale.vaultAddress, await chain.signer('buyer'));
+      expect(await vault.canRefund(chain.accounts.buyer)).toBe(true);
+
+      const before = await chain.provider.getBalance(chain.accounts.buyer);
+      const receipt = await (await vault.refund(chain.accounts.buyer)).wait();
+      const gasCost = receipt!.gasUsed * receipt!.gasPrice;
+      expect(await chain.provider.getBalance(chain.accounts.buyer)).toBe(before + ethers.parseEther('1') - gasCost);
+    }, CHAIN_TIMEOUT);
+
+    it('vests whitelisted purchases and releases them through useTokenVesting', async () => {
+      const crowdsale = connectTokenCrowdsale(sale.crowdsaleAddress, chain.provider);
+      const { softCap } = await crowdsale.getCrowdsaleConfig();
+      await chain.advancePhase(sale.crowdsaleAddress, CrowdsalePhase.PRESALE);
+
+      chain.connectWallet('buyer');
+      const purchase = renderHook(() => useCrowdsale(sale.crowdsaleAddress));
+      await waitFor(() => expect(purchase.result.current.phase).toBe(CrowdsalePhase.PRESALE));
+      await act(() => purchase.result.current.purchaseTokens(ethers.formatEther(softCap)));
+
+      await chain.advancePhase(sale.crowdsaleAddress, CrowdsalePhase.FINALIZED);
+
+      const { result } = renderHook(() => useTokenVesting(chain.accounts.buyer));
+      await waitFor(() => expect(result.current.vestingSchedules).toHaveLength(1));
+      const [schedule] = result.current.vestingSchedules;
+
+      // 越过悬崖期后才有可释放额度
+      await chain.warpTo(schedule.cliffTime + 86_400);
+      await act(() => result.current.refresh());
+      expect(Number(result.current.vestingSchedules[0].releasableAmount)).toBeGreaterThan(0);
+
+      const token = connectCrowdsaleToken(sale.tokenAddress, chain.provider);
+      const before = await token.balanceOf(chain.accounts.buyer);
+      await act(() => result.current.releaseTokens(schedule.id));
+      expect(await token.balanceOf(chain.accounts.buyer)).toBeGreaterThan(before);
+    }, CHAIN_TIMEOUT);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  DEFAULT_ADMIN_ROLE,
+  RoleAssignment,
+  getRoleHash,
+  getRoleName,
+  getRoleRemovalWarnings,
+  reconstructRoleMembers
+} from '@/utils/accessRoles';
+
+const ALICE = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const BOB = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const WHITELIST_ADMIN = getRoleHash('WHITELIST_ADMIN_ROLE');
+const WHITELIST_OPERATOR = getRoleHash('WHITELIST_OPERATOR_ROLE');
+
+const assignment = (name: string, members: string[], adminRole = DEFAULT_ADMIN_ROLE): RoleAssignment => ({
+  role: getRoleHash(name),
+  name,
+  adminRole,
+  members,
+});
+
+describe('accessRoles', () => {
+  it('maps role hashes to constant names', () => {
+    expect(getRoleName(DEFAULT_ADMIN_ROLE)).toBe('DEFAULT_ADMIN_ROLE');
+    expect(getRoleName(ethers.keccak256(ethers.toUtf8Bytes('PRICING_ADMIN_ROLE')))).toBe('PRICING_ADMIN_ROLE');
+    expect(getRoleName(ethers.id('UNKNOWN_ROLE'))).toMatch(/^0x[0-9a-f]{8}…[0-9a-f]{4}$/);
+  });
+
+  it('replays grants and revokes in log order', () => {
+    const members = reconstructRoleMembers([
+      { role: WHITELIST_OPERATOR, account: BOB, granted: false, blockNumber: 3, logIndex: 0 },
+      { role: WHITELIST_OPERATOR, account: ALICE.toLowerCase(), granted: true, blockNumber: 1, logIndex: 0 },
+      { role: WHITELIST_OPERATOR, account: BOB, granted: true, blockNumber: 1, logIndex: 1 },
+      { role: DEFAULT_ADMIN_ROLE, account: ALICE, granted: true, blockNumber: 1, logIndex: 2 },
+    ]);
+
+    expect(members.get(WHITELIST_OPERATOR)).toEqual([ALICE]);
+    expect(members.get(DEFAULT_ADMIN_ROLE)).toEqual([ALICE]);
+  });
+
+  it('warns before removing the last admin', () => {
+    const assignments = [
+      assignment('DEFAULT_ADMIN_ROLE', [ALICE]),
+      assignment('WHITELIST_ADMIN_ROLE', [ALICE, BOB]),
+      assignment('WHITELIST_OPERATOR_ROLE', [BOB], WHITELIST_ADMIN),
+    ];
+
+    expect(getRoleRemovalWarnings(assignments, DEFAULT_ADMIN_ROLE, ALICE)).toEqual([
+      '这是最后一个 DEFAULT_ADMIN_ROLE 持有者，移除后将无法再授予或撤销任何角色',
+      'WHITELIST_ADMIN_ROLE 的管理权限由该角色控制，移除后将无法再变更',
+    ]);
+    expect(getRoleRemovalWarnings(assignments, WHITELIST_ADMIN, BOB)).toEqual([]);
+    expect(getRoleRemovalWarnings(assignments, WHITELIST_OPERATOR, BOB)).toEqual([]);
+    expect(getRoleRemovalWarnings([assignment('WHITELIST_ADMIN_ROLE', [BOB])], WHITELIST_ADMIN, BOB)).toEqual([
+      '这是最后一个 WHITELIST_ADMIN_ROLE 持有者，移除后相关管理功能将无人可用',
+    ]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  BLACKLIST_AUDIT_STORAGE_KEY,
+  appendBlacklistAudit,
+  filterBlacklistAudit,
+  getLatestBlacklistReason,
+  loadBlacklistAudit
+} from '@/utils/blacklistAudit';
+
+const ALICE = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const BOB = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const OPERATOR = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+describe('blacklistAudit', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('appends entries newest first', () => {
+    appendBlacklistAudit({ address: ALICE, action: 'add', reason: 'Phishing', operator: OPERATOR, txHash: '0x01' }, localStorage, 1);
+    appendBlacklistAudit({ address: BOB, action: 'add', reason: 'Sanctioned', operator: OPERATOR, txHash: '0x02' }, localStorage, 2);
+    appendBlacklistAudit({ address: ALICE, action: 'remove', reason: 'Appeal accepted', operator: OPERATOR, txHash: '0x03' }, localStorage, 3);
+
+    expect(loadBlacklistAudit(localStorage).map(entry => [entry.txHash, entry.timestamp])).toEqual([
+      ['0x03', 3],
+      ['0x02', 2],
+      ['0x01', 1],
+    ]);
+  });
+
+  it('ignores corrupted storage', () => {
+    localStorage.setItem(BLACKLIST_AUDIT_STORAGE_KEY, '{not json');
+    expect(loadBlacklistAudit(localStorage)).toEqual([]);
+  });
+
+  it('finds the latest add reason and filters by address or reason', () => {
+    appendBlacklistAudit({ address: ALICE, action: 'add', reason: 'Phishing', operator: OPERATOR, txHash: '0x01' }, localStorage, 1);
+    appendBlacklistAudit({ address: ALICE, action: 'remove', reason: 'Appeal accepted', operator: OPERATOR, txHash: '0x02' }, localStorage, 2);
+    const entries = appendBlacklistAudit({ address: ALICE, action: 'add', reason: 'Repeat offence', operator: OPERATOR, txHash: '0x03' }, localStorage, 3);
+
+    expect(getLatestBlacklistReason(entries, ALICE.toLowerCase())).toBe('Repeat offence');
+    expect(getLatestBlacklistReason(entries, BOB)).toBeUndefined();
+    expect(filterBlacklistAudit(entries, 'appeal').map(entry => entry.txHash)).toEqual(['0x02']);
+    expect(filterBlacklistAudit(entries, 'F39FD6')).toHaveLength(3);
+    expect(filterBlacklistAudit(entries, '  ')).toHaveLength(3);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { parseEther } from 'ethers';
+import { VestingType } from '@/types/contracts';
+import { parseCrowdsaleBatch, planBatchChunks } from '@/utils/crowdsaleBatch';
+
+const NOW = 1_700_000_000;
+const DAY = 86400;
+const WALLET = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+const START = NOW + DAY;
+const END = NOW + 30 * DAY;
+
+describe('crowdsaleBatch', () => {
+  describe('parseCrowdsaleBatch', () => {
+    it('maps CSV rows to crowdsale params and skips the header', () => {
+      const rows = parseCrowdsaleBatch([
+        'tokenName,tokenSymbol,totalSupply,softCap,hardCap,startTime,endTime,fundingWallet,tokenPrice',
+        `Round A,RA,1000000,100,1000,${START},${END},${WALLET},0.001`,
+        `Round B,RB,500000,50,500,${START},${END},${WALLET},0.002,true,30,180,CLIFF,10`,
+      ].join('\n'), NOW);
+
+      expect(rows.map(row => [row.line, row.errors])).toEqual([[2, []], [3, []]]);
+      expect(rows[0].params).toMatchObject({
+        tokenName: 'Round A',
+        softCap: parseEther('100'),
+        startTime: BigInt(START),
+        vestingParams: { enabled: false },
+      });
+      expect(rows[1].params.vestingParams).toEqual({
+        enabled: true,
+        cliffDuration: BigInt(30 * DAY),
+        vestingDuration: BigInt(180 * DAY),
+        vestingType: VestingType.CLIFF,
+        immediateReleasePercentage: 1000n,
+      });
+    });
+
+    it('reports per-row errors', () => {
+      const rows = parseCrowdsaleBatch([
+        `Round A,RA,1000000,100,50,${START},${END},${WALLET},0.001`,
+        `,RB,1000000,100,1000,${NOW - DAY},${END},0x1234,0.001,true,0,0,FOREVER`,
+      ].join('\n'), NOW);
+
+      expect(rows[0].errors).toEqual(['硬顶必须大于软顶']);
+      expect(rows[1].errors).toEqual([
+        '释放类型无效',
+        '代币名称不能为空',
+        '开始时间必须晚于当前时间',
+        '资金钱包地址无效',
+        '释放期必须大于0',
+      ]);
+    });
+
+    it('accepts a JSON array with date strings', () => {
+      const [row] = parseCrowdsaleBatch(JSON.stringify([{
+        tokenName: 'Round A',
+        tokenSymbol: 'RA',
+        totalSupply: 1000000,
+        softCap: '100',
+        hardCap: '1000',
+        startTime: new Date(START * 1000).toISOString(),
+        endTime: END,
+        fundingWallet: WALLET,
+        tokenPrice: '0.001',
+        vestingEnabled: true,
+        vestingDays: 90,
+      }]), NOW);
+
+      expect(row.errors).toEqual([]);
+      expect(row.params.startTime).toBe(BigInt(START));
+      expect(row.params.vestingParams.vestingDuration).toBe(BigInt(90 * DAY));
+    });
+
+    it('rejects malformed JSON', () => {
+      expect(() => parseCrowdsaleBatch('[{', NOW)).toThrow('JSON 格式无效');
+      expect(parseCrowdsaleBatch('[1]', NOW)[0].errors).toEqual(['该行不是对象']);
+    });
+  });
+
+  describe('planBatchChunks', () => {
+    it('keeps each chunk under the gas budget', () => {
+      expect(planBatchChunks([4n, 4n, 4n, 9n, 1n], 10n)).toEqual([[0, 1], [2], [3, 4]]);
+    });
+
+    it('puts oversized rows in their own chunk', () => {
+      expect(planBatchChunks([3n, 12n, 3n], 10n)).toEqual([[0], [1], [2]]);
+      expect(planBatchChunks([], 10n)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { parseEther } from 'ethers';
+import { CrowdsalePhase, VestingType } from '@/types/contracts';
+import {
+  CrowdsaleSettings,
+  diffCrowdsaleSettings,
+  planConfigUpdate,
+  validateCrowdsaleSettings
+} from '@/utils/crowdsaleConfig';
+
+const HOUR = 60 * 60;
+const START = 1_800_000_000;
+
+const baseSettings: CrowdsaleSettings = {
+  presaleStartTime: BigInt(START),
+  presaleEndTime: BigInt(START + 24 * HOUR),
+  publicSaleStartTime: BigInt(START + 25 * HOUR),
+  publicSaleEndTime: BigInt(START + 7 * 24 * HOUR),
+  softCap: parseEther('10'),
+  hardCap: parseEther('100'),
+  minPurchase: parseEther('0.01'),
+  maxPurchase: parseEther('10'),
+  fundingWallet: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  vestingEnabled: false,
+  cliffDuration: 0n,
+  vestingDuration: 0n,
+  vestingType: VestingType.LINEAR,
+  immediateReleasePercentage: 10000n,
+};
+
+const pendingState = {
+  phase: CrowdsalePhase.PENDING,
+  paused: false,
+  lastConfigUpdateTime: START - 2 * HOUR,
+  now: START - HOUR,
+};
+
+describe('crowdsaleConfig', () => {
+  describe('validateCrowdsaleSettings', () => {
+    it('accepts a valid configuration', () => {
+      expect(validateCrowdsaleSettings(baseSettings)).toEqual([]);
+    });
+
+    it('mirrors the contract time and funding rules', () => {
+      const messages = validateCrowdsaleSettings({
+        ...baseSettings,
+        presaleEndTime: BigInt(START + HOUR / 2),
+        publicSaleStartTime: BigInt(START + HOUR / 2 + 60),
+        softCap: parseEther('5'),
+        hardCap: parseEther('100'),
+      }).map(error => error.message);
+
+      expect(messages).toEqual([
+        '预售至少持续1小时',
+        '公售开始时间须在预售结束至少10分钟之后',
+        '软顶不能低于硬顶的10%',
+      ]);
+    });
+
+    it('checks purchase limits, wallet and release percentage', () => {
+      const errors = validateCrowdsaleSettings({
+        ...baseSettings,
+        minPurchase: parseEther('0.0001'),
+        maxPurchase: parseEther('200'),
+        fundingWallet: '0x1234',
+        immediateReleasePercentage: 10001n,
+      });
+
+      expect(errors.map(error => error.group)).toEqual(['limits', 'limits', 'wallet', 'vesting']);
+    });
+  });
+
+  it('diffs only changed fields and ignores address casing', () => {
+    const diff = diffCrowdsaleSettings(baseSettings, {
+      ...baseSettings,
+      fundingWallet: baseSettings.fundingWallet.toLowerCase(),
+      hardCap: parseEther('200'),
+    });
+
+    expect(diff).toEqual([
+      { key: 'hardCap', label: '硬顶', group: 'funding', from: '100.0 ETH', to: '200.0 ETH' },
+    ]);
+  });
+
+  describe('planConfigUpdate', () => {
+    it('uses the single-group method when one config group changes', () => {
+      const plan = planConfigUpdate(baseSettings, { ...baseSettings, maxPurchase: parseEther('20') }, pendingState);
+
+      expect(plan.calls).toEqual([{ method: 'updatePurchaseLimits', groups: ['limits'] }]);
+      expect(plan.errors).toEqual([]);
+    });
+
+    it('merges several config groups into one updateConfig call', () => {
+      const plan = planConfigUpdate(baseSettings, {
+        ...baseSettings,
+        hardCap: parseEther('50'),
+        maxPurchase: parseEther('20'),
+        fundingWallet: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+        vestingEnabled: true,
+      }, pendingState);
+
+      expect(plan.calls.map(call => call.method)).toEqual(['updateConfig', 'updateFundingWallet', 'setVestingConfig']);
+      expect(plan.errors).toEqual([]);
+    });
+
+    it('only allows purchase limits, wallet and vesting after the sale starts', () => {
+      const state = { ...pendingState, phase: CrowdsalePhase.PRESALE };
+
+      expect(planConfigUpdate(baseSettings, { ...baseSettings, minPurchase: parseEther('0.02') }, state).errors).toEqual([]);
+      expect(planConfigUpdate(baseSettings, { ...baseSettings, softCap: parseEther('20') }, state).errors)
+        .toEqual(['众筹已开始，只能修改购买限额、资金钱包和释放配置']);
+    });
+
+    it('reports the config update cooldown and paused state', () => {
+      const coolingDown = { ...pendingState, lastConfigUpdateTime: pendingState.now - 30 * 60 };
+      expect(planConfigUpdate(baseSettings, { ...baseSettings, softCap: parseEther('20') }, coolingDown).errors)
+        .toEqual(['配置更新冷却中，还需等待 30 分钟']);
+
+      // 资金钱包不受冷却时间限制
+      expect(planConfigUpdate(baseSettings, {
+        ...baseSettings,
+        fundingWallet: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+      }, { ...coolingDown, paused: true }).errors).toEqual(['众筹已暂停，无法修改配置']);
+    });
+  });
+});
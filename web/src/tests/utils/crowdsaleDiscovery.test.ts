@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { discoverCrowdsales } from '@/utils/crowdsaleDiscovery';
+import { EventSyncer } from '@/utils/eventSync';
+import { MemoryEventStore } from '@/utils/eventStore';
+import { CONTRACT_ABIS } from '@/utils/contracts';
+
+const FACTORY = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const CREATOR = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+const address = (n: number) => ethers.getAddress(`0x${n.toString(16).padStart(40, '0')}`);
+
+const SALE_A = { crowdsale: address(0xa1), token: address(0xa2), vesting: address(0xa3), whitelist: address(0xa4), vault: address(0xa5) };
+const SALE_B = { crowdsale: address(0xb1), token: address(0xb2), vesting: ethers.ZeroAddress, whitelist: address(0xb4), vault: address(0xb5) };
+
+const factoryInterface = new ethers.Interface(CONTRACT_ABIS.CrowdsaleFactory);
+const crowdsaleInterface = new ethers.Interface(CONTRACT_ABIS.TokenCrowdsale);
+const tokenInterface = new ethers.Interface(CONTRACT_ABIS.CrowdsaleToken);
+
+type Responses = Record<string, Record<string, { iface: ethers.Interface; values: unknown[] }>>;
+
+const instance = (sale: typeof SALE_A, isActive: boolean) =>
+  [sale.crowdsale, sale.token, sale.vesting, CREATOR, 1_700_000_000n, isActive];
+
+// 按 合约地址 + 函数名 返回 ABI 编码结果，未配置的调用按 revert 处理
+const createProvider = (responses: Responses, createdEvents: Array<typeof SALE_A & { symbol: string }>) => {
+  const event = factoryInterface.getEvent('CrowdsaleCreated')!;
+  const logs = createdEvents.map((sale, index) => {
+    const { topics, data } = factoryInterface.encodeEventLog(event, [
+      CREATOR, sale.crowdsale, sale.token, sale.vesting, `${sale.symbol} Token`, sale.symbol,
+    ]);
+    return { address: FACTORY, blockNumber: 10 + index, blockHash: `0x${10 + index}`, transactionHash: `0xtx${index}`, index: 0, topics, data };
+  });
+
+  const provider = {
+    getNetwork: async () => ({ chainId: 31337n }),
+    getBlockNumber: async () => 50,
+    getLogs: async (filter: { fromBlock: number; toBlock: number }) =>
+      logs.filter(log => log.blockNumber >= filter.fromBlock && log.blockNumber <= filter.toBlock),
+    getBlock: async (blockNumber: number) => ({ hash: `0x${blockNumber}`, timestamp: 1_700_000_000 + blockNumber }),
+    call: async (tx: { to: string; data: string }) => {
+      for (const [name, { iface, values }] of Object.entries(responses[tx.to.toLowerCase()] ?? {})) {
+        const fragment = iface.getFunction(name)!;
+        if (tx.data.startsWith(fragment.selector)) {
+          return iface.encodeFunctionResult(fragment, values);
+        }
+      }
+      throw new Error('execution reverted');
+    },
+  };
+
+  return provider as unknown as ethers.Provider;
+};
+
+const saleResponses = (sale: typeof SALE_A, symbol?: string): Responses => ({
+  [sale.crowdsale.toLowerCase()]: {
+    token: { iface: crowdsaleInterface, values: [sale.token] },
+    whitelistManager: { iface: crowdsaleInterface, values: [sale.whitelist] },
+    refundVault: { iface: crowdsaleInterface, values: [sale.vault] },
+  },
+  ...(symbol ? {
+    [sale.token.toLowerCase()]: {
+      name: { iface: tokenInterface, values: [`${symbol} Token`] },
+      symbol: { iface: tokenInterface, values: [symbol] },
+    },
+  } : {}),
+});
+
+describe('discoverCrowdsales', () => {
+  beforeEach(() => {
+    vi.stubEnv('VITE_CROWDSALEFACTORY_ADDRESS', FACTORY);
+    vi.stubEnv('VITE_TOKENCROWDSALE_ADDRESS', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('discovers factory sales from CrowdsaleCreated events', async () => {
+    const provider = createProvider({
+      ...saleResponses(SALE_A),
+      ...saleResponses(SALE_B),
+      [FACTORY.toLowerCase()]: {
+        getActiveCrowdsales: { iface: factoryInterface, values: [[instance(SALE_A, true)]] },
+      },
+    }, [{ ...SALE_A, symbol: 'AAA' }, { ...SALE_B, symbol: 'BBB' }]);
+    const syncer = new EventSyncer(provider, new MemoryEventStore(), { startBlock: 0 });
+
+    const sources = await discoverCrowdsales(provider, syncer);
+
+    expect(sources).toHaveLength(2);
+    expect(sources[0]).toMatchObject({
+      crowdsaleAddress: SALE_A.crowdsale,
+      tokenSymbol: 'AAA',
+      vestingAddress: SALE_A.vesting,
+      whitelistAddress: SALE_A.whitelist,
+      vaultAddress: SALE_A.vault,
+      creator: CREATOR,
+      isActive: true,
+    });
+    // 未启用释放的众筹没有释放合约；不在活跃列表中的众筹标记为已停用
+    expect(sources[1]).toMatchObject({ crowdsaleAddress: SALE_B.crowdsale, tokenSymbol: 'BBB', vestingAddress: null, isActive: false });
+  });
+
+  it('adds sales known only to the factory registry and reads their token symbol', async () => {
+    const provider = createProvider({
+      ...saleResponses(SALE_A, 'AAA'),
+      [FACTORY.toLowerCase()]: {
+        getActiveCrowdsales: { iface: factoryInterface, values: [[]] },
+        getCreatorCrowdsales: { iface: factoryInterface, values: [[instance(SALE_A, false)]] },
+      },
+    }, []);
+    const syncer = new EventSyncer(provider, new MemoryEventStore(), { startBlock: 0 });
+
+    const sources = await discoverCrowdsales(provider, syncer, { creator: CREATOR });
+
+    expect(sources).toEqual([expect.objectContaining({
+      crowdsaleAddress: SALE_A.crowdsale,
+      tokenName: 'AAA Token',
+      tokenSymbol: 'AAA',
+      isActive: false,
+    })]);
+  });
+
+  it('includes the configured single crowdsale without a factory', async () => {
+    vi.stubEnv('VITE_CROWDSALEFACTORY_ADDRESS', '');
+    vi.stubEnv('VITE_TOKENCROWDSALE_ADDRESS', SALE_A.crowdsale);
+    vi.stubEnv('VITE_TOKENVESTING_ADDRESS', SALE_A.vesting);
+    const provider = createProvider(saleResponses(SALE_A, 'AAA'), []);
+    const syncer = new EventSyncer(provider, new MemoryEventStore(), { startBlock: 0 });
+
+    const sources = await discoverCrowdsales(provider, syncer);
+
+    expect(sources).toEqual([expect.objectContaining({
+      crowdsaleAddress: SALE_A.crowdsale,
+      tokenAddress: SALE_A.token,
+      vestingAddress: SALE_A.vesting,
+      vaultAddress: SALE_A.vault,
+      tokenSymbol: 'AAA',
+      creator: null,
+    })]);
+  });
+});
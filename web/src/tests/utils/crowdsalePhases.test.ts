@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { parseEther } from 'ethers';
+import { CrowdsaleConfig, CrowdsalePhase } from '@/types/contracts';
+import {
+  getPhaseTransitions,
+  getPhaseWarnings,
+  isValidPhaseTransition
+} from '@/utils/crowdsalePhases';
+
+const HOUR = 60 * 60;
+const START = 1_800_000_000;
+
+const config: CrowdsaleConfig = {
+  presaleStartTime: BigInt(START),
+  presaleEndTime: BigInt(START + 24 * HOUR),
+  publicSaleStartTime: BigInt(START + 25 * HOUR),
+  publicSaleEndTime: BigInt(START + 48 * HOUR),
+  softCap: parseEther('10'),
+  hardCap: parseEther('100'),
+  minPurchase: parseEther('0.01'),
+  maxPurchase: parseEther('10'),
+};
+
+const state = (phase: CrowdsalePhase, now: number, overrides = {}) => ({
+  phase,
+  paused: false,
+  hardCapReached: false,
+  now,
+  ...overrides,
+});
+
+describe('crowdsalePhases', () => {
+  it('mirrors the contract transition table', () => {
+    expect(isValidPhaseTransition(CrowdsalePhase.PENDING, CrowdsalePhase.PRESALE)).toBe(true);
+    expect(isValidPhaseTransition(CrowdsalePhase.PRESALE, CrowdsalePhase.PUBLIC_SALE)).toBe(true);
+    expect(isValidPhaseTransition(CrowdsalePhase.PRESALE, CrowdsalePhase.FINALIZED)).toBe(true);
+    expect(isValidPhaseTransition(CrowdsalePhase.PUBLIC_SALE, CrowdsalePhase.FINALIZED)).toBe(true);
+    expect(isValidPhaseTransition(CrowdsalePhase.PENDING, CrowdsalePhase.PUBLIC_SALE)).toBe(false);
+    expect(isValidPhaseTransition(CrowdsalePhase.FINALIZED, CrowdsalePhase.PENDING)).toBe(false);
+  });
+
+  describe('getPhaseTransitions', () => {
+    it('waits for the presale window before starting the presale', () => {
+      const [before] = getPhaseTransitions(config, state(CrowdsalePhase.PENDING, START - HOUR));
+      expect(before).toMatchObject({ method: 'startPresale', available: false, availableAt: START });
+
+      const [during] = getPhaseTransitions(config, state(CrowdsalePhase.PENDING, START + HOUR));
+      expect(during).toMatchObject({ method: 'startPresale', available: true });
+    });
+
+    it('offers public sale and finalization from the presale', () => {
+      const options = getPhaseTransitions(config, state(CrowdsalePhase.PRESALE, START + 25 * HOUR));
+      expect(options.map(option => [option.method, option.available])).toEqual([
+        ['startPublicSale', true],
+        ['finalizeCrowdsale', true],
+      ]);
+    });
+
+    it('allows early finalization once the hard cap is reached', () => {
+      const [finalize] = getPhaseTransitions(
+        config,
+        state(CrowdsalePhase.PUBLIC_SALE, START + 30 * HOUR, { hardCapReached: true })
+      );
+      expect(finalize).toMatchObject({ method: 'finalizeCrowdsale', available: true });
+    });
+
+    it('blocks every transition while paused', () => {
+      const [option] = getPhaseTransitions(config, state(CrowdsalePhase.PENDING, START + HOUR, { paused: true }));
+      expect(option).toMatchObject({ available: false, reason: '众筹已暂停' });
+    });
+
+    it('has nothing to offer once finalized', () => {
+      expect(getPhaseTransitions(config, state(CrowdsalePhase.FINALIZED, START + 50 * HOUR))).toEqual([]);
+    });
+  });
+
+  describe('getPhaseWarnings', () => {
+    it('warns when a scheduled time has passed without a phase change', () => {
+      expect(getPhaseWarnings(config, state(CrowdsalePhase.PENDING, START + HOUR)))
+        .toEqual(['预售开始时间已到，但众筹仍处于待开始阶段']);
+      expect(getPhaseWarnings(config, state(CrowdsalePhase.PRESALE, START + 24 * HOUR + 60)))
+        .toEqual(['预售结束时间已过，众筹仍处于预售阶段']);
+      expect(getPhaseWarnings(config, state(CrowdsalePhase.PRESALE, START + 26 * HOUR)))
+        .toEqual(['公售开始时间已到，但众筹仍处于预售阶段']);
+      expect(getPhaseWarnings(config, state(CrowdsalePhase.PUBLIC_SALE, START + 49 * HOUR)))
+        .toEqual(['公售结束时间已过，众筹尚未结束']);
+    });
+
+    it('stays quiet while the phase is on schedule', () => {
+      expect(getPhaseWarnings(config, state(CrowdsalePhase.PENDING, START - HOUR))).toEqual([]);
+      expect(getPhaseWarnings(config, state(CrowdsalePhase.PUBLIC_SALE, START + 30 * HOUR))).toEqual([]);
+    });
+  });
+});
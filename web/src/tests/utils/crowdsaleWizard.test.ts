@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { parseEther } from 'ethers';
+import { VestingType } from '@/types/contracts';
+import {
+  CrowdsaleWizardForm,
+  DRAFTS_STORAGE_KEY,
+  buildCrowdsaleParams,
+  createEmptyWizardForm,
+  deleteDraft,
+  loadDrafts,
+  resolveContractError,
+  saveDraft,
+  validateWizardStep,
+} from '@/utils/crowdsaleWizard';
+
+const NOW = 1_700_000_000;
+const DAY = 86400;
+const WALLET = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+
+const validForm: CrowdsaleWizardForm = {
+  ...createEmptyWizardForm(NOW),
+  tokenName: 'Project Token',
+  tokenSymbol: 'PRJ',
+  totalSupply: '1000000',
+  softCap: '100',
+  hardCap: '1000',
+  fundingWallet: WALLET,
+  tokenPrice: '0.001',
+};
+
+describe('crowdsaleWizard', () => {
+  describe('validateWizardStep', () => {
+    it('accepts a complete form on every step', () => {
+      for (const step of ['token', 'caps', 'timing', 'funding', 'price', 'vesting'] as const) {
+        expect(validateWizardStep(step, validForm, NOW)).toEqual([]);
+      }
+    });
+
+    it('mirrors the contract checks for caps and timing', () => {
+      expect(validateWizardStep('caps', { ...validForm, hardCap: '100' }, NOW)).toEqual(['硬顶必须大于软顶']);
+      expect(validateWizardStep('timing', { ...validForm, startTime: NOW }, NOW)).toEqual(['开始时间必须晚于当前时间']);
+      expect(validateWizardStep('timing', { ...validForm, endTime: validForm.startTime }, NOW)).toHaveLength(1);
+    });
+
+    it('reports malformed input and only checks vesting when enabled', () => {
+      expect(validateWizardStep('token', { ...validForm, totalSupply: 'abc' }, NOW)).toEqual(['总供应量格式无效']);
+      expect(validateWizardStep('funding', { ...validForm, fundingWallet: '0x1234' }, NOW)).toEqual(['资金钱包地址无效']);
+
+      const vesting = { ...validForm, vestingDays: '0', immediateReleasePercent: '120' };
+      expect(validateWizardStep('vesting', vesting, NOW)).toEqual([]);
+      expect(validateWizardStep('vesting', { ...vesting, vestingEnabled: true }, NOW)).toHaveLength(2);
+    });
+  });
+
+  describe('buildCrowdsaleParams', () => {
+    it('converts the form to contract units', () => {
+      const params = buildCrowdsaleParams({
+        ...validForm,
+        vestingEnabled: true,
+        vestingType: VestingType.CLIFF,
+        cliffDays: '30',
+        vestingDays: '180',
+        immediateReleasePercent: '12.5',
+      });
+
+      expect(params).toMatchObject({
+        totalSupply: parseEther('1000000'),
+        softCap: parseEther('100'),
+        hardCap: parseEther('1000'),
+        startTime: BigInt(NOW + DAY),
+        tokenPrice: parseEther('0.001'),
+        fundingWallet: WALLET,
+      });
+      expect(params.vestingParams).toEqual({
+        enabled: true,
+        cliffDuration: BigInt(30 * DAY),
+        vestingDuration: BigInt(180 * DAY),
+        vestingType: VestingType.CLIFF,
+        immediateReleasePercentage: 1250n,
+      });
+    });
+
+    it('falls back to zero values the contract rejects', () => {
+      const params = buildCrowdsaleParams({ ...validForm, softCap: 'x', fundingWallet: 'nope' });
+      expect(params.softCap).toBe(0n);
+      expect(params.fundingWallet).toBe('0x0000000000000000000000000000000000000000');
+    });
+  });
+
+  describe('resolveContractError', () => {
+    it('maps contract errors to their step', () => {
+      expect(resolveContractError('Hard cap must be greater than soft cap', 3)).toEqual({ step: 1, message: '硬顶必须大于软顶' });
+      expect(resolveContractError('', 3)).toBeNull();
+    });
+
+    it('ignores errors that belong to later steps', () => {
+      expect(resolveContractError('Zero token price', 2)).toBeNull();
+      expect(resolveContractError('Zero token price', 4)).toMatchObject({ step: 4 });
+    });
+
+    it('keeps unknown errors on the current step', () => {
+      expect(resolveContractError('Something else', 2)).toEqual({ step: 2, message: 'Something else' });
+    });
+  });
+
+  describe('drafts', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('saves, replaces and deletes drafts', () => {
+      saveDraft({ id: 'a', name: 'A', step: 1, form: validForm }, localStorage, 1);
+      saveDraft({ id: 'b', name: 'B', step: 0, form: validForm }, localStorage, 2);
+      saveDraft({ id: 'a', name: 'A2', step: 3, form: validForm }, localStorage, 3);
+
+      const drafts = loadDrafts(localStorage);
+      expect(drafts.map(draft => [draft.id, draft.name, draft.savedAt])).toEqual([['a', 'A2', 3], ['b', 'B', 2]]);
+      expect(drafts[0].form).toEqual(validForm);
+
+      expect(deleteDraft('a', localStorage).map(draft => draft.id)).toEqual(['b']);
+    });
+
+    it('ignores corrupted storage', () => {
+      localStorage.setItem(DRAFTS_STORAGE_KEY, '{not json');
+      expect(loadDrafts(localStorage)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { decodeEvent, decodeLogToTransaction, getEventInterface, getMappedEventTopics, DecodableContract, RawLog } from '@/utils/eventDecoder';
+import { TransactionType, TransactionStatus } from '@/types/transactionTypes';
+import recordedLogs from '../fixtures/recordedLogs.json';
+
+// 本地链上按合约事件签名编码录制的日志
+const fixtures = recordedLogs as Array<{ contract: DecodableContract; event: string; log: RawLog }>;
+
+const BUYER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const ADMIN = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const BLOCK_TIME = 1_800_000_000;
+
+const decodeFixture = (event: string, sender = ADMIN) => {
+  const fixture = fixtures.find(item => item.event === event);
+  if (!fixture) throw new Error(`missing fixture ${event}`);
+  return decodeLogToTransaction(fixture.contract, fixture.log, { timestamp: BLOCK_TIME, sender, gasUsed: '21000' });
+};
+
+describe('eventDecoder', () => {
+  it('decodes every recorded log against the frontend ABI', () => {
+    for (const { contract, event, log } of fixtures) {
+      expect(decodeEvent(contract, log)?.eventName).toBe(event);
+    }
+  });
+
+  it('maps token purchases using the block timestamp', () => {
+    const tx = decodeFixture('TokensPurchased');
+
+    expect(tx).toMatchObject({
+      type: TransactionType.TOKEN_PURCHASE,
+      status: TransactionStatus.SUCCESS,
+      buyer: BUYER,
+      weiAmount: '1000000000000000000',
+      tokenAmount: '10000000000000000000000',
+      timestamp: BLOCK_TIME,
+      blockNumber: 101,
+      gasUsed: '21000',
+    });
+    expect(tx?.id).toMatch(/^0x[0-9a-f]{64}-0$/);
+  });
+
+  it('maps refund vault events including failed refunds', () => {
+    expect(decodeFixture('Deposited')).toMatchObject({ type: TransactionType.DEPOSIT, depositor: BUYER });
+    expect(decodeFixture('Refunded')).toMatchObject({ type: TransactionType.REFUND, to: BUYER, status: TransactionStatus.SUCCESS });
+    expect(decodeFixture('RefundFailed')).toMatchObject({
+      type: TransactionType.REFUND,
+      status: TransactionStatus.FAILED,
+      reason: 'transfer failed',
+    });
+  });
+
+  it('maps vesting events by schedule id', () => {
+    expect(decodeFixture('VestingScheduleCreated')).toMatchObject({
+      type: TransactionType.VESTING_CREATE,
+      from: ADMIN,
+      beneficiary: BUYER,
+      scheduleId: '0',
+      vestingType: '1',
+    });
+    expect(decodeFixture('TokensReleased')).toMatchObject({
+      type: TransactionType.TOKEN_RELEASE,
+      beneficiary: BUYER,
+      scheduleId: '0',
+      amount: '1250000000000000000000',
+    });
+  });
+
+  it('maps admin and whitelist events', () => {
+    expect(decodeFixture('PhaseChanged')).toMatchObject({ type: TransactionType.PHASE_CHANGE, previousPhase: '0', newPhase: '1', changedBy: ADMIN });
+    expect(decodeFixture('ConfigUpdated')).toMatchObject({ type: TransactionType.CONFIG_UPDATE, updatedBy: ADMIN, configType: 'crowdsale_config' });
+    expect(decodeFixture('EmergencyAction')).toMatchObject({ type: TransactionType.EMERGENCY_ACTION, action: 'pause', reason: 'security review' });
+    expect(decodeFixture('WhitelistAdded')).toMatchObject({ type: TransactionType.WHITELIST_ADD, user: BUYER, level: '3' });
+    expect(decodeFixture('WhitelistRemoved')).toMatchObject({ type: TransactionType.WHITELIST_REMOVE, user: BUYER, level: '3' });
+  });
+
+  it('maps funding wallet and vesting config updates to config transactions', () => {
+    const iface = getEventInterface('TokenCrowdsale');
+    const encode = (event: string, values: unknown[]): RawLog => ({
+      ...iface.encodeEventLog(iface.getEvent(event)!, values),
+      address: ADMIN,
+      blockNumber: 120,
+      transactionHash: `0x${'ab'.repeat(32)}`,
+      logIndex: 0,
+    });
+
+    expect(decodeLogToTransaction('TokenCrowdsale', encode('FundingWalletUpdated', [ADMIN, BUYER, ADMIN]), { timestamp: BLOCK_TIME, sender: ADMIN }))
+      .toMatchObject({
+        type: TransactionType.CONFIG_UPDATE,
+        configType: 'funding_wallet',
+        values: { previousFundingWallet: ADMIN, fundingWallet: BUYER },
+      });
+    expect(decodeLogToTransaction('TokenCrowdsale', encode('VestingConfigUpdated', [true, 86400n, 864000n, ADMIN]), { timestamp: BLOCK_TIME, sender: ADMIN }))
+      .toMatchObject({
+        configType: 'vesting_config',
+        values: { vestingEnabled: 'true', cliffDuration: '86400', vestingDuration: '864000' },
+      });
+  });
+
+  it('returns null for events without a transaction mapping', () => {
+    expect(decodeFixture('MilestoneAchieved')).toBeNull();
+    expect(getMappedEventTopics('TokenVesting')).not.toContain(fixtures.find(item => item.event === 'MilestoneAchieved')!.log.topics[0]);
+  });
+
+  it('returns null for logs from another contract', () => {
+    const { log } = fixtures.find(item => item.event === 'TokensPurchased')!;
+    expect(decodeLogToTransaction('WhitelistManager', log, { timestamp: BLOCK_TIME, sender: ADMIN })).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ethers } from 'ethers';
+import { EventSyncer } from '@/utils/eventSync';
+import { MemoryEventStore } from '@/utils/eventStore';
+
+const CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+interface FakeLog {
+  blockNumber: number;
+  index: number;
+  blockHash?: string;
+}
+
+// 只实现同步所需的 provider 方法，记录每次 getLogs 的区块范围
+const createProvider = (options: { head: number; logs: FakeLog[]; maxRange?: number }) => {
+  const state = { ...options, calls: [] as Array<[number, number]>, blockCalls: 0, forkFrom: Infinity };
+
+  const provider = {
+    getNetwork: async () => ({ chainId: 31337n }),
+    getBlockNumber: async () => state.head,
+    getLogs: async (filter: { fromBlock: number; toBlock: number }) => {
+      if (state.maxRange && filter.toBlock - filter.fromBlock + 1 > state.maxRange) {
+        throw new Error('query exceeds max block range');
+      }
+      state.calls.push([filter.fromBlock, filter.toBlock]);
+      return state.logs
+        .filter(log => log.blockNumber >= filter.fromBlock && log.blockNumber <= filter.toBlock)
+        .map(log => ({
+          address: CONTRACT,
+          blockNumber: log.blockNumber,
+          blockHash: log.blockHash || `0x${log.blockNumber}`,
+          transactionHash: `0xtx${log.blockNumber}${log.index}`,
+          index: log.index,
+          topics: [],
+          data: '0x',
+        }));
+    },
+    getBlock: async (blockNumber: number) => {
+      state.blockCalls++;
+      const hash = blockNumber >= state.forkFrom ? `0xfork${blockNumber}` : `0x${blockNumber}`;
+      return { hash, timestamp: 1_700_000_000 + blockNumber };
+    },
+    getTransactionReceipt: async (hash: string) => ({ hash, from: CONTRACT, status: 1, gasUsed: 21000n, gasPrice: 1n }),
+  };
+
+  return { provider: provider as unknown as ethers.Provider, state };
+};
+
+describe('EventSyncer', () => {
+  let store: MemoryEventStore;
+
+  beforeEach(() => {
+    store = new MemoryEventStore();
+  });
+
+  it('fetches logs in chunks of the configured size', async () => {
+    const { provider, state } = createProvider({ head: 250, logs: [{ blockNumber: 10, index: 0 }, { blockNumber: 220, index: 1 }] });
+    const syncer = new EventSyncer(provider, store, { chunkSize: 100, reorgDepth: 5, startBlock: 0 });
+
+    const result = await syncer.syncContract(CONTRACT);
+
+    expect(state.calls).toEqual([[0, 99], [100, 199], [200, 250]]);
+    expect(result.logCount).toBe(2);
+    expect((await syncer.getLogs(CONTRACT)).map(log => log.blockNumber)).toEqual([10, 220]);
+  });
+
+  it('resumes from the last indexed block and re-checks recent blocks', async () => {
+    const { provider, state } = createProvider({ head: 100, logs: [] });
+    const syncer = new EventSyncer(provider, store, { chunkSize: 1000, reorgDepth: 10, startBlock: 0 });
+
+    await syncer.syncContract(CONTRACT);
+    state.head = 120;
+    state.calls = [];
+    await syncer.syncContract(CONTRACT);
+
+    expect(state.calls).toEqual([[91, 120]]);
+  });
+
+  it('serialises concurrent syncs of the same contract', async () => {
+    const { provider, state } = createProvider({ head: 100, logs: [{ blockNumber: 115, index: 0 }] });
+    const options = { chunkSize: 1000, reorgDepth: 10, startBlock: 0 };
+    await new EventSyncer(provider, store, options).syncContract(CONTRACT);
+    state.head = 120;
+    state.calls = [];
+
+    // 第二个实例在第一个写完游标后才读取，不会重复回退同一段区块
+    await Promise.all([
+      new EventSyncer(provider, store, options).syncContract(CONTRACT),
+      new EventSyncer(provider, store, options).syncContract(CONTRACT.toLowerCase()),
+    ]);
+
+    expect(state.calls).toEqual([[91, 120], [111, 120]]);
+    expect((await store.getLogs(31337, CONTRACT)).map(log => log.blockNumber)).toEqual([115]);
+  });
+
+  it('replaces logs from reorganised blocks', async () => {
+    const { provider, state } = createProvider({ head: 100, logs: [{ blockNumber: 98, index: 0, blockHash: '0xold' }] });
+    const syncer = new EventSyncer(provider, store, { chunkSize: 1000, reorgDepth: 5, startBlock: 0 });
+
+    await syncer.syncContract(CONTRACT);
+    state.logs = [{ blockNumber: 99, index: 0, blockHash: '0xnew' }];
+    await syncer.syncContract(CONTRACT);
+
+    const logs = await syncer.getLogs(CONTRACT);
+    expect(logs.map(log => [log.blockNumber, log.blockHash])).toEqual([[99, '0xnew']]);
+  });
+
+  it('rewinds past the reorg window when the last indexed block hash changed', async () => {
+    const { provider, state } = createProvider({ head: 100, logs: [{ blockNumber: 20, index: 0 }, { blockNumber: 50, index: 0 }] });
+    const syncer = new EventSyncer(provider, store, { chunkSize: 1000, reorgDepth: 5, startBlock: 0 });
+
+    await syncer.syncContract(CONTRACT);
+    await syncer.getReceipt('0xtx500');
+
+    state.forkFrom = 40;
+    state.head = 110;
+    state.logs = [{ blockNumber: 20, index: 0 }, { blockNumber: 60, index: 0, blockHash: '0xfork60' }];
+    state.calls = [];
+    await syncer.syncContract(CONTRACT);
+
+    expect(state.calls).toEqual([[21, 110]]);
+    const logs = await syncer.getLogs(CONTRACT);
+    expect(logs.map(log => [log.blockNumber, log.blockHash])).toEqual([[20, '0x20'], [60, '0xfork60']]);
+    expect(await store.getReceipt(31337, '0xtx500')).toBeNull();
+  });
+
+  it('halves the chunk size when the node rejects the range', async () => {
+    const { provider, state } = createProvider({ head: 99, logs: [], maxRange: 30 });
+    const syncer = new EventSyncer(provider, store, { chunkSize: 100, reorgDepth: 5, startBlock: 0 });
+
+    await syncer.syncContract(CONTRACT);
+
+    expect(state.calls[0]).toEqual([0, 24]);
+    expect(state.calls[state.calls.length - 1][1]).toBe(99);
+  });
+
+  it('caches block timestamps', async () => {
+    const { provider, state } = createProvider({ head: 10, logs: [] });
+    const syncer = new EventSyncer(provider, store, { startBlock: 0 });
+
+    expect(await syncer.getBlockTimestamp(5)).toBe(1_700_000_005);
+    expect(await syncer.getBlockTimestamp(5)).toBe(1_700_000_005);
+    expect(state.blockCalls).toBe(1);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { ethers, parseEther } from 'ethers';
+import { CONTRACT_ABIS } from '@/utils/contracts';
+import { parseFactoryFeeHistory, parseFactoryFeeLog } from '@/utils/factoryAdmin';
+
+const TREASURY = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+const fullInterface = new ethers.Interface(CONTRACT_ABIS.CrowdsaleFactory);
+const liteInterface = new ethers.Interface(CONTRACT_ABIS.CrowdsaleFactoryLite);
+
+const toLog = (
+  iface: ethers.Interface,
+  name: string,
+  values: unknown[],
+  blockNumber: number,
+  index = 0
+) => ({
+  ...iface.encodeEventLog(iface.getEvent(name)!, values),
+  blockNumber,
+  index,
+  transactionHash: ethers.id(`${name}-${blockNumber}-${index}`),
+});
+
+describe('factoryAdmin', () => {
+  describe('parseFactoryFeeLog', () => {
+    it('decodes fee updates and withdrawals', () => {
+      expect(parseFactoryFeeLog(toLog(fullInterface, 'CreationFeeUpdated', [parseEther('0.1'), parseEther('0.2')], 10)))
+        .toMatchObject({ type: 'feeUpdated', blockNumber: 10, oldFee: parseEther('0.1'), newFee: parseEther('0.2') });
+
+      expect(parseFactoryFeeLog(toLog(fullInterface, 'FeesWithdrawn', [TREASURY, parseEther('1')], 11)))
+        .toMatchObject({ type: 'feesWithdrawn', recipient: TREASURY, amount: parseEther('1') });
+    });
+
+    it('decodes Lite factory events with the same signatures', () => {
+      expect(parseFactoryFeeLog(toLog(liteInterface, 'FeesWithdrawn', [TREASURY, 5n], 12)))
+        .toMatchObject({ type: 'feesWithdrawn', recipient: TREASURY, amount: 5n });
+    });
+
+    it('ignores other factory events', () => {
+      expect(parseFactoryFeeLog(toLog(fullInterface, 'FactoryConfigUpdated', [TREASURY, 1n, true], 13))).toBeNull();
+    });
+  });
+
+  it('orders the history newest first', () => {
+    const history = parseFactoryFeeHistory([
+      toLog(fullInterface, 'CreationFeeUpdated', [0n, 1n], 20, 0),
+      toLog(fullInterface, 'FeesWithdrawn', [TREASURY, 1n], 30, 1),
+      toLog(fullInterface, 'CreationFeeUpdated', [1n, 2n], 30, 0),
+      toLog(fullInterface, 'FactoryConfigUpdated', [TREASURY, 2n, false], 31, 0),
+    ]);
+
+    expect(history.map(event => [event.blockNumber, event.logIndex, event.type])).toEqual([
+      [30, 1, 'feesWithdrawn'],
+      [30, 0, 'feeUpdated'],
+      [20, 0, 'feeUpdated'],
+    ]);
+  });
+});
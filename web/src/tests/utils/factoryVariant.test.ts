@@ -0,0 +1,88 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { CONTRACT_ABIS } from '@/utils/contracts';
+import { detectFactoryVariant, parseCrowdsaleCreatedLog, supportsEmergencyStopReason } from '@/utils/factoryVariant';
+
+const FACTORY = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const CREATOR = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+const address = (n: number) => ethers.getAddress(`0x${n.toString(16).padStart(40, '0')}`);
+
+const selector = (signature: string) => ethers.id(signature).slice(2, 10);
+
+// 只模拟 getCode，字节码里用 PUSH4 放入函数选择器
+const providerWithCode = (...signatures: string[]) => ({
+  getCode: vi.fn(async () => `0x6080${signatures.map(signature => `63${selector(signature)}`).join('')}00`),
+}) as unknown as ethers.Provider;
+
+describe('factoryVariant', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('detectFactoryVariant', () => {
+    it('detects the variant from function selectors in the bytecode', async () => {
+      await expect(detectFactoryVariant(providerWithCode('createCrowdsale((string,string,uint256,uint256,uint256,uint256,uint256,address,uint256,(bool,uint256,uint256,uint8,uint256)))', 'togglePublicCreation()'), FACTORY))
+        .resolves.toBe('lite');
+      await expect(detectFactoryVariant(providerWithCode('getTemplateAddresses()', 'pause()'), FACTORY))
+        .resolves.toBe('full');
+    });
+
+    it('falls back to the full factory when the code is not recognised', async () => {
+      await expect(detectFactoryVariant(providerWithCode(), FACTORY)).resolves.toBe('full');
+    });
+
+    it('prefers the configured variant', async () => {
+      vi.stubEnv('VITE_CROWDSALEFACTORY_VARIANT', 'Lite');
+      const provider = providerWithCode('getTemplateAddresses()');
+
+      await expect(detectFactoryVariant(provider, FACTORY)).resolves.toBe('lite');
+      expect(provider.getCode).not.toHaveBeenCalled();
+    });
+  });
+
+  it('detects the emergency stop overload that records a reason', async () => {
+    const current = await providerWithCode('emergencyStopCrowdsale(address)', 'emergencyStopCrowdsale(address,string)').getCode(FACTORY);
+    const legacy = await providerWithCode('emergencyStopCrowdsale(address)').getCode(FACTORY);
+
+    expect(supportsEmergencyStopReason(current)).toBe(true);
+    expect(supportsEmergencyStopReason(legacy)).toBe(false);
+  });
+
+  describe('parseCrowdsaleCreatedLog', () => {
+    it('decodes the full factory event', () => {
+      const iface = new ethers.Interface(CONTRACT_ABIS.CrowdsaleFactory);
+      const log = iface.encodeEventLog(iface.getEvent('CrowdsaleCreated')!, [
+        CREATOR, address(0xa1), address(0xa2), address(0xa3), 'Alpha Token', 'ALPHA',
+      ]);
+
+      expect(parseCrowdsaleCreatedLog(log)).toEqual({
+        crowdsaleAddress: address(0xa1),
+        tokenAddress: address(0xa2),
+        vestingAddress: address(0xa3),
+        creator: CREATOR,
+        tokenName: 'Alpha Token',
+        tokenSymbol: 'ALPHA',
+      });
+    });
+
+    it('decodes the Lite event without a vesting address', () => {
+      const iface = new ethers.Interface(CONTRACT_ABIS.CrowdsaleFactoryLite);
+      const event = iface.getEvent('CrowdsaleCreated(address,address,address,string,string)')!;
+      const log = iface.encodeEventLog(event, [address(0xb1), address(0xb2), CREATOR, 'Beta Token', 'BETA']);
+
+      expect(parseCrowdsaleCreatedLog(log)).toMatchObject({
+        crowdsaleAddress: address(0xb1),
+        tokenAddress: address(0xb2),
+        vestingAddress: null,
+        creator: CREATOR,
+      });
+    });
+
+    it('ignores other events', () => {
+      const iface = new ethers.Interface(CONTRACT_ABIS.CrowdsaleFactory);
+      const log = iface.encodeEventLog(iface.getEvent('CrowdsaleStatusUpdated')!, [CREATOR, false]);
+      expect(parseCrowdsaleCreatedLog(log)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { parseEther } from 'ethers';
+import {
+  validateTiers,
+  planTierChanges,
+  scaleTierPrices,
+  estimateTokenAmount,
+  getRemainingUntilNextTier,
+} from '@/utils/pricingUtils';
+
+const tier = (threshold: number, price: string) => ({
+  progressThreshold: BigInt(threshold),
+  pricePerToken: parseEther(price),
+});
+
+const defaultTiers = [
+  tier(2500, '0.0001'),
+  tier(5000, '0.0002'),
+  tier(7500, '0.0003'),
+  tier(10000, '0.0004'),
+];
+
+describe('pricingUtils', () => {
+  describe('validateTiers', () => {
+    it('accepts the default tiers', () => {
+      expect(validateTiers(defaultTiers)).toEqual([]);
+    });
+
+    it('rejects non-ascending thresholds and zero prices', () => {
+      const errors = validateTiers([tier(5000, '0.0001'), tier(5000, '0')]);
+      expect(errors).toHaveLength(2);
+    });
+
+    it('rejects thresholds above 100%', () => {
+      expect(validateTiers([tier(10001, '0.0001')])).toHaveLength(1);
+    });
+  });
+
+  describe('planTierChanges', () => {
+    it('returns no changes for identical tiers', () => {
+      expect(planTierChanges(defaultTiers, defaultTiers)).toEqual([]);
+    });
+
+    it('orders updates so that every step keeps thresholds ascending', () => {
+      const draft = [tier(3000, '0.0001'), tier(6000, '0.0002'), tier(7500, '0.0003'), tier(10000, '0.0004')];
+      const changes = planTierChanges(defaultTiers, draft);
+      expect(changes.map(c => c.index)).toEqual([1, 0]);
+
+      // 逐步应用时保持阈值严格递增
+      const state = defaultTiers.map(t => ({ ...t }));
+      for (const change of changes) {
+        state[change.index] = { progressThreshold: change.progressThreshold, pricePerToken: change.pricePerToken };
+        expect(validateTiers(state)).toEqual([]);
+      }
+    });
+
+    it('appends new tiers after updates', () => {
+      const current = [tier(5000, '0.0001')];
+      const draft = [tier(4000, '0.0001'), tier(10000, '0.0002')];
+      expect(planTierChanges(current, draft).map(c => c.type)).toEqual(['update', 'add']);
+    });
+
+    it('refuses to remove tiers', () => {
+      expect(() => planTierChanges(defaultTiers, defaultTiers.slice(1))).toThrow();
+    });
+  });
+
+  describe('scaleTierPrices', () => {
+    it('scales all tiers proportionally to the new base price', () => {
+      const scaled = scaleTierPrices(defaultTiers, parseEther('0.0002'));
+      expect(scaled.map(t => t.pricePerToken)).toEqual([
+        parseEther('0.0002'),
+        parseEther('0.0004'),
+        parseEther('0.0006'),
+        parseEther('0.0008'),
+      ]);
+    });
+  });
+
+  describe('estimateTokenAmount', () => {
+    it('matches the contract formula with and without discount', () => {
+      expect(estimateTokenAmount(parseEther('1'), parseEther('0.0001'))).toBe(parseEther('10000'));
+      expect(estimateTokenAmount(parseEther('1'), parseEther('0.0001'), 2000n)).toBe(parseEther('12500'));
+    });
+  });
+
+  describe('getRemainingUntilNextTier', () => {
+    it('returns the amount needed to move progress past the tier threshold', () => {
+      const hardCap = parseEther('100');
+      // 25% 档位在进度达到 25.01% 时切换
+      expect(getRemainingUntilNextTier(defaultTiers[0], parseEther('20'), hardCap)).toBe(parseEther('5.01'));
+      expect(getRemainingUntilNextTier(defaultTiers[0], parseEther('30'), hardCap)).toBe(0n);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { buildCostBasisReport, buildExportRows, exportTransactions, toCsv } from '@/utils/transactionExport';
+import { FixedPriceSource, PriceSource } from '@/utils/priceSource';
+import {
+  Transaction,
+  TransactionType,
+  TransactionStatus,
+  TokenPurchaseTransaction,
+  RefundTransaction,
+  TokenReleaseTransaction
+} from '@/types/transactionTypes';
+
+const BUYER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const SALE = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const DAY = 86_400;
+
+const base = (id: string, timestamp: number) => ({
+  id,
+  hash: `0x${id}`,
+  status: TransactionStatus.SUCCESS,
+  timestamp,
+  blockNumber: timestamp / DAY,
+  from: BUYER,
+  to: SALE,
+  crowdsaleAddress: SALE,
+  tokenSymbol: 'TKN',
+});
+
+const purchase = (id: string, timestamp: number, eth: string, tokens: string, gasUsed?: string): TokenPurchaseTransaction => ({
+  ...base(id, timestamp),
+  type: TransactionType.TOKEN_PURCHASE,
+  buyer: BUYER,
+  weiAmount: ethers.parseEther(eth).toString(),
+  tokenAmount: ethers.parseEther(tokens).toString(),
+  gasUsed,
+  gasPrice: gasUsed ? '1000000000' : undefined,
+});
+
+const release = (id: string, timestamp: number, tokens: string): TokenReleaseTransaction => ({
+  ...base(id, timestamp),
+  type: TransactionType.TOKEN_RELEASE,
+  beneficiary: BUYER,
+  scheduleId: '0',
+  amount: ethers.parseEther(tokens).toString(),
+});
+
+const refund = (id: string, timestamp: number, eth: string): RefundTransaction => ({
+  ...base(id, timestamp),
+  type: TransactionType.REFUND,
+  depositor: BUYER,
+  amount: ethers.parseEther(eth).toString(),
+});
+
+// 每天价格不同，用于验证按区块时间取价
+const dailyPrices: PriceSource = {
+  currency: 'USD',
+  getEthPrice: async (timestamp: number) => 1000 * Math.floor(timestamp / DAY),
+};
+
+describe('transactionExport', () => {
+  it('includes gas fees and fiat values at the block timestamp', async () => {
+    const [row] = await buildExportRows([purchase('a', 2 * DAY, '1', '1000', '100000')], dailyPrices);
+
+    expect(row).toMatchObject({
+      typeLabel: '代币购买',
+      ethAmount: '1.0',
+      tokenAmount: '1000.0',
+      gasFee: '0.0001',
+      ethPrice: 2000,
+      ethValue: 2000,
+      gasFeeValue: 0.2,
+      tokenSymbol: 'TKN',
+    });
+  });
+
+  it('counts the gas fee once per transaction hash', async () => {
+    const first = purchase('a', DAY, '1', '1000', '100000');
+    const second = { ...purchase('b', DAY, '1', '1000', '100000'), hash: first.hash };
+
+    const rows = await buildExportRows([first, second]);
+    expect(rows.map(row => row.gasFee)).toEqual(['0.0001', '0.0']);
+
+    const report = await buildCostBasisReport([first, second]);
+    expect(report.summaries[0].totalCost).toBe('2.0001');
+  });
+
+  it('leaves fiat columns empty without a price source', async () => {
+    const [row] = await buildExportRows([purchase('a', DAY, '1', '1000')]);
+    expect(row.ethPrice).toBeNull();
+    expect(row.ethValue).toBeNull();
+  });
+
+  it('matches releases to purchase lots first-in first-out', async () => {
+    const transactions: Transaction[] = [
+      release('r1', 5 * DAY, '1500'),
+      purchase('p1', 1 * DAY, '1', '1000'),
+      purchase('p2', 2 * DAY, '3', '1000'),
+    ];
+
+    const report = await buildCostBasisReport(transactions, dailyPrices);
+
+    expect(report.entries.map(entry => entry.kind)).toEqual(['purchase', 'purchase', 'release']);
+    // 1000 枚来自第一笔（1 ETH），500 枚来自第二笔（1.5 ETH）
+    expect(report.entries[2]).toMatchObject({
+      costBasis: '2.5',
+      costBasisValue: 1000 + 3000,
+      remainingTokens: '500.0',
+      remainingCostBasis: '1.5',
+      unmatchedTokens: '0.0',
+    });
+    expect(report.summaries[0]).toMatchObject({
+      purchasedTokens: '2000.0',
+      totalCost: '4.0',
+      releasedTokens: '1500.0',
+      totalCostValue: 7000,
+    });
+  });
+
+  it('removes refunded purchases from the position', async () => {
+    const report = await buildCostBasisReport([
+      purchase('p1', DAY, '2', '2000', '21000'),
+      refund('f1', 3 * DAY, '2'),
+    ], new FixedPriceSource(2000));
+
+    const refundEntry = report.entries[1];
+    expect(refundEntry).toMatchObject({ kind: 'refund', ethAmount: '2.0', tokenAmount: '2000.0', ethValue: 4000, remainingTokens: '0.0' });
+    // 退款不返还 Gas，成本包含购买时的 Gas
+    expect(refundEntry.costBasis).toBe('2.000021');
+    expect(report.summaries[0].refundedEth).toBe('2.0');
+  });
+
+  it('reports released tokens without a purchase as zero-cost', async () => {
+    const report = await buildCostBasisReport([release('r1', DAY, '10')]);
+    expect(report.entries[0]).toMatchObject({ costBasis: '0.0', unmatchedTokens: '10.0', costBasisValue: null });
+  });
+
+  it('escapes CSV values', () => {
+    const csv = toCsv<{ a: string; b: number | null }>([['a', 'A'], ['b', 'B']], [{ a: 'x,"y"', b: null }]);
+    expect(csv).toBe('A,B\r\n"x,""y""",');
+  });
+
+  it('prefixes values that spreadsheets would run as formulas', () => {
+    const csv = toCsv<{ a: string; b: number }>([['a', 'A'], ['b', 'B']], [
+      { a: '=HYPERLINK("http://evil","x")', b: -1 },
+      { a: '+1', b: 0 },
+      { a: '-2', b: 0 },
+      { a: '@SUM(A1)', b: 0 },
+    ]);
+    expect(csv.split('\r\n')).toEqual(['A,B', `"'=HYPERLINK(""http://evil"",""x"")",-1`, "'+1,0", "'-2,0", "'@SUM(A1),0"]);
+  });
+
+  it('writes the filtered transactions as JSON', async () => {
+    const file = await exportTransactions('json', [purchase('a', DAY, '1', '1000')], new FixedPriceSource(1500, 'EUR'));
+    const data = JSON.parse(file.content);
+
+    expect(file.filename).toMatch(/^transactions-\d{4}-\d{2}-\d{2}\.json$/);
+    expect(data.currency).toBe('EUR');
+    expect(data.transactions[0]).toMatchObject({ hash: '0xa', ethValue: 1500 });
+  });
+});
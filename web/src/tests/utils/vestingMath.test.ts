@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { parseEther } from 'ethers';
+import { VestingType } from '@/types/contracts';
+import {
+  calculateVestedAmount,
+  buildVestingCurve,
+  getUpcomingUnlocks,
+  getNextReleaseTime,
+  calculateVestingProgress,
+  VestingCurveInput,
+} from '@/utils/vestingMath';
+
+const DAY = 86400;
+const START = 1_700_000_000;
+
+const schedule = (overrides: Partial<VestingCurveInput> = {}): VestingCurveInput => ({
+  totalAmount: parseEther('1000'),
+  releasedAmount: 0n,
+  startTime: START,
+  cliffDuration: 30 * DAY,
+  vestingDuration: 120 * DAY,
+  vestingType: VestingType.LINEAR,
+  revoked: false,
+  ...overrides,
+});
+
+// 合约在创建阶梯计划时存储 4 个 25% 的步骤
+const steppedSteps = [1, 2, 3, 4].map(i => ({
+  index: i - 1,
+  timestamp: START + i * 30 * DAY,
+  percentage: 2500,
+  released: false,
+}));
+
+describe('vestingMath', () => {
+  describe('calculateVestedAmount', () => {
+    it('vests linearly from start to end', () => {
+      const linear = schedule();
+      expect(calculateVestedAmount(linear, START - 1)).toBe(0n);
+      expect(calculateVestedAmount(linear, START + 60 * DAY)).toBe(parseEther('500'));
+      expect(calculateVestedAmount(linear, START + 200 * DAY)).toBe(parseEther('1000'));
+    });
+
+    it('releases nothing at the cliff and then vests over the remaining duration', () => {
+      const cliff = schedule({ vestingType: VestingType.CLIFF });
+      expect(calculateVestedAmount(cliff, START + 30 * DAY - 1)).toBe(0n);
+      expect(calculateVestedAmount(cliff, START + 30 * DAY)).toBe(0n);
+      expect(calculateVestedAmount(cliff, START + 75 * DAY)).toBe(parseEther('500'));
+      expect(calculateVestedAmount(cliff, START + 120 * DAY)).toBe(parseEther('1000'));
+    });
+
+    it('sums the stored steps that have been reached', () => {
+      const stepped = schedule({ vestingType: VestingType.STEPPED, steps: steppedSteps });
+      expect(calculateVestedAmount(stepped, START + 30 * DAY - 1)).toBe(0n);
+      expect(calculateVestedAmount(stepped, START + 60 * DAY)).toBe(parseEther('500'));
+    });
+
+    it('sums achieved milestones only', () => {
+      const milestone = schedule({
+        vestingType: VestingType.MILESTONE,
+        milestones: [
+          { index: 0, description: 'A', percentage: 3000, achieved: true, achievedTime: START + DAY },
+          { index: 1, description: 'B', percentage: 7000, achieved: false, achievedTime: 0 },
+        ],
+      });
+      expect(calculateVestedAmount(milestone, START + 2 * DAY)).toBe(parseEther('300'));
+    });
+
+    it('returns the released amount for revoked schedules and zero for custom ones', () => {
+      expect(calculateVestedAmount(schedule({ revoked: true, releasedAmount: 42n }), START + 200 * DAY)).toBe(42n);
+      expect(calculateVestedAmount(schedule({ vestingType: VestingType.CUSTOM }), START + 200 * DAY)).toBe(0n);
+    });
+  });
+
+  describe('buildVestingCurve', () => {
+    it('is non-decreasing and ends at the total amount', () => {
+      const curve = buildVestingCurve(schedule({ vestingType: VestingType.CLIFF }), START);
+      for (let i = 1; i < curve.length; i++) {
+        expect(curve[i].vested >= curve[i - 1].vested).toBe(true);
+      }
+      expect(curve[curve.length - 1]).toEqual({ timestamp: START + 120 * DAY, vested: parseEther('1000') });
+    });
+
+    it('places stepped points at each step timestamp', () => {
+      const curve = buildVestingCurve(schedule({ vestingType: VestingType.STEPPED, steps: steppedSteps }), START);
+      expect(curve.map(p => p.timestamp)).toEqual([START, ...steppedSteps.map(s => s.timestamp)]);
+    });
+  });
+
+  describe('next unlock', () => {
+    it('lists future steps with their amounts', () => {
+      const stepped = schedule({ vestingType: VestingType.STEPPED, steps: steppedSteps });
+      const upcoming = getUpcomingUnlocks(stepped, START + 45 * DAY);
+      expect(upcoming).toHaveLength(3);
+      expect(upcoming[0]).toEqual({ timestamp: START + 60 * DAY, amount: parseEther('250') });
+      expect(getNextReleaseTime(stepped, START + 45 * DAY)).toBe(START + 60 * DAY);
+    });
+
+    it('returns the cliff end before the cliff and 0 while vesting continuously', () => {
+      const cliff = schedule({ vestingType: VestingType.CLIFF });
+      expect(getNextReleaseTime(cliff, START)).toBe(START + 30 * DAY);
+      expect(getNextReleaseTime(cliff, START + 40 * DAY)).toBe(0);
+      expect(getNextReleaseTime(schedule(), START + DAY)).toBe(0);
+    });
+  });
+
+  describe('calculateVestingProgress', () => {
+    it('returns a percentage with two decimals', () => {
+      expect(calculateVestingProgress(parseEther('1'), parseEther('3'))).toBe(33.33);
+      expect(calculateVestingProgress(0n, 0n)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { parseEther } from 'ethers';
+import { VestingType } from '@/types/contracts';
+import {
+  validateVestingSchedule,
+  parseVestingCsv,
+  sumVestingAmounts,
+  VestingScheduleDefaults,
+} from '@/utils/vestingScheduleUtils';
+
+const BENEFICIARY = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+const DAY = 86400;
+
+const defaults: VestingScheduleDefaults = {
+  startTime: 1_700_000_000,
+  cliffDuration: 0,
+  vestingDuration: 365 * DAY,
+  vestingType: VestingType.LINEAR,
+  revocable: true,
+};
+
+describe('vestingScheduleUtils', () => {
+  describe('validateVestingSchedule', () => {
+    it('accepts a valid linear schedule', () => {
+      expect(validateVestingSchedule({ ...defaults, beneficiary: BENEFICIARY, amount: '100' })).toEqual([]);
+    });
+
+    it('mirrors the contract requirements', () => {
+      const errors = validateVestingSchedule({
+        ...defaults,
+        beneficiary: '0x0000000000000000000000000000000000000000',
+        amount: '0',
+        vestingDuration: 0,
+      });
+      expect(errors).toHaveLength(3);
+    });
+
+    it('rejects cliffs that are not shorter than the duration and custom schedules', () => {
+      const input = { ...defaults, beneficiary: BENEFICIARY, amount: '1' };
+      expect(validateVestingSchedule({ ...input, vestingType: VestingType.CLIFF, cliffDuration: 365 * DAY })).toHaveLength(1);
+      expect(validateVestingSchedule({ ...input, vestingType: VestingType.CUSTOM })).toHaveLength(1);
+    });
+  });
+
+  describe('parseVestingCsv', () => {
+    it('skips the header and fills omitted columns from the defaults', () => {
+      const rows = parseVestingCsv(`beneficiary,amount\n${BENEFICIARY},250`, defaults);
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({ line: 2, errors: [], input: { ...defaults, beneficiary: BENEFICIARY, amount: '250' } });
+    });
+
+    it('parses optional columns', () => {
+      const [row] = parseVestingCsv(`${BENEFICIARY},10,1800000000,30,180,cliff,false`, defaults);
+      expect(row.errors).toEqual([]);
+      expect(row.input).toMatchObject({
+        startTime: 1_800_000_000,
+        cliffDuration: 30 * DAY,
+        vestingDuration: 180 * DAY,
+        vestingType: VestingType.CLIFF,
+        revocable: false,
+      });
+    });
+
+    it('reports invalid rows with their line numbers', () => {
+      const rows = parseVestingCsv(`${BENEFICIARY},10\n\nnot-an-address,abc,,,,WEEKLY`, defaults);
+      expect(rows.map(row => row.line)).toEqual([1, 3]);
+      expect(rows[1].errors.length).toBeGreaterThanOrEqual(3);
+    });
+  });
+
+  it('sums amounts in wei', () => {
+    expect(sumVestingAmounts([
+      { ...defaults, beneficiary: BENEFICIARY, amount: '1.5' },
+      { ...defaults, beneficiary: BENEFICIARY, amount: '2' },
+    ])).toBe(parseEther('3.5'));
+  });
+});
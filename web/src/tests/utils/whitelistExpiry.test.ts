@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { WhitelistLevel } from '@/types/contracts';
+import {
+  WhitelistExpiryEntry,
+  formatExpiryCountdown,
+  selectExpiredEntries,
+  selectExpiringEntries
+} from '@/utils/whitelistExpiry';
+
+const NOW = 1_800_000_000;
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+const entry = (suffix: string, overrides: Partial<WhitelistExpiryEntry>): WhitelistExpiryEntry => ({
+  address: `0x${suffix.padStart(40, '0')}`,
+  level: WhitelistLevel.WHITELISTED,
+  expirationTime: 0,
+  addedTime: NOW - DAY,
+  ...overrides,
+});
+
+const entries = [
+  entry('1', { expirationTime: NOW + 5 * DAY }),
+  entry('2', { expirationTime: NOW + HOUR, level: WhitelistLevel.VIP }),
+  entry('3', { expirationTime: NOW + 20 * DAY }),
+  entry('4', { expirationTime: NOW - HOUR }),
+  entry('5', {}),
+  entry('6', { expirationTime: NOW + HOUR, level: WhitelistLevel.NONE }),
+];
+
+describe('whitelistExpiry', () => {
+  it('formats the remaining time as a countdown', () => {
+    expect(formatExpiryCountdown(NOW + 2 * DAY + 3 * HOUR, NOW)).toBe('2 天 3 小时');
+    expect(formatExpiryCountdown(NOW + 5 * HOUR + 90, NOW)).toBe('5 小时 1 分钟');
+    expect(formatExpiryCountdown(NOW + 30, NOW)).toBe('1 分钟');
+    expect(formatExpiryCountdown(NOW, NOW)).toBe('已过期');
+  });
+
+  it('selects active entries expiring within the window, soonest first', () => {
+    expect(selectExpiringEntries(entries, NOW, 7 * DAY).map(item => item.address.slice(-1))).toEqual(['2', '1']);
+    expect(selectExpiringEntries(entries, NOW, 30 * DAY)).toHaveLength(3);
+  });
+
+  it('selects expired entries the contract would clean up', () => {
+    expect(selectExpiredEntries(entries, NOW).map(item => item.address.slice(-1))).toEqual(['4']);
+    expect(selectExpiredEntries(entries, NOW + HOUR).map(item => item.address.slice(-1))).toEqual(['2', '4', '6']);
+  });
+});
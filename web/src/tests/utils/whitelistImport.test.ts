@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { WhitelistLevel } from '@/types/contracts';
+import {
+  WhitelistImportRow,
+  isAlreadyAtTarget,
+  isCurrentlyBlacklisted,
+  parseWhitelistImport,
+  planWhitelistChunks,
+  splitChunksByGas
+} from '@/utils/whitelistImport';
+
+const NOW = 1_800_000_000;
+const ALICE = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const BOB = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const makeRows = (count: number, expirationTime = 0): WhitelistImportRow[] =>
+  Array.from({ length: count }, (_, index) => ({
+    line: index + 1,
+    address: `0x${(index + 1).toString(16).padStart(40, '0')}`,
+    level: WhitelistLevel.WHITELISTED,
+    expirationTime,
+    errors: [],
+  }));
+
+describe('whitelistImport', () => {
+  describe('parseWhitelistImport', () => {
+    it('parses CSV rows with optional level and expiry', () => {
+      const rows = parseWhitelistImport(
+        `address,level,expiry\n${ALICE.toLowerCase()},VIP\n${BOB},,${NOW + 3600}`,
+        NOW
+      );
+
+      expect(rows).toEqual([
+        { line: 2, address: ALICE, level: WhitelistLevel.VIP, expirationTime: 0, errors: [] },
+        { line: 3, address: BOB, level: WhitelistLevel.WHITELISTED, expirationTime: NOW + 3600, errors: [] },
+      ]);
+    });
+
+    it('rejects bad checksums, unknown levels and past expiries', () => {
+      const badChecksum = ALICE.replace('F', 'f').replace('a', 'A');
+      const rows = parseWhitelistImport(JSON.stringify([
+        { address: badChecksum },
+        { address: BOB, level: 'ADMIN' },
+        { address: BOB, expiry: NOW - 1 },
+      ]), NOW);
+
+      expect(rows.map(row => row.errors)).toEqual([
+        ['地址无效或 checksum 错误'],
+        ['级别必须是 WHITELISTED 或 VIP'],
+        ['过期时间必须晚于当前时间'],
+      ]);
+    });
+
+    it('dedupes repeated addresses and flags conflicting duplicates', () => {
+      const rows = parseWhitelistImport(`${ALICE},VIP\n${ALICE.toLowerCase()},VIP\n${ALICE},WHITELISTED`, NOW);
+
+      expect(rows[1].duplicateOf).toBe(1);
+      expect(rows[2].errors).toEqual(['与第 1 行地址相同但级别或过期时间不同']);
+    });
+  });
+
+  it('skips addresses already at the target level and expiry', () => {
+    const [row] = parseWhitelistImport(`${ALICE},VIP`, NOW);
+
+    expect(isAlreadyAtTarget(row, { level: WhitelistLevel.VIP, expirationTime: 0 })).toBe(true);
+    expect(isAlreadyAtTarget(row, { level: WhitelistLevel.VIP, expirationTime: NOW + 60 })).toBe(false);
+    expect(isAlreadyAtTarget(row, { level: WhitelistLevel.WHITELISTED, expirationTime: 0 })).toBe(false);
+  });
+
+  it('flags addresses that are currently blacklisted', () => {
+    expect(isCurrentlyBlacklisted({ level: WhitelistLevel.BLACKLISTED, expirationTime: 0 })).toBe(true);
+    expect(isCurrentlyBlacklisted({ level: WhitelistLevel.NONE, expirationTime: 0 })).toBe(false);
+    expect(isCurrentlyBlacklisted({ level: WhitelistLevel.VIP, expirationTime: 0 })).toBe(false);
+    expect(isCurrentlyBlacklisted(undefined)).toBe(false);
+  });
+
+  it('groups chunks by expiry and caps them at the batch size', () => {
+    const rows = [...makeRows(150), ...makeRows(3, NOW + 3600)];
+    const chunks = planWhitelistChunks(rows);
+
+    expect(chunks.map(chunk => [chunk.id, chunk.rows.length, chunk.expirationTime])).toEqual([
+      [0, 100, 0],
+      [1, 50, 0],
+      [2, 3, NOW + 3600],
+    ]);
+  });
+
+  it('halves chunks whose gas estimate exceeds the budget', async () => {
+    const chunks = planWhitelistChunks(makeRows(10));
+    const split = await splitChunksByGas(chunks, async chunk => BigInt(chunk.rows.length) * 100n, 300n);
+
+    expect(split.map(chunk => chunk.rows.length)).toEqual([3, 2, 3, 2]);
+    expect(split.map(chunk => chunk.id)).toEqual([0, 1, 2, 3]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  MIGRATION_CLOCK_SKEW,
+  MIGRATION_REQUEST_MAX_AGE,
+  WhitelistMigrationRequest,
+  buildMigrationMessage,
+  getMigrationRequestId,
+  loadMigrationRequests,
+  parseMigrationRequest,
+  saveMigrationRequest,
+  serializeMigrationRequest,
+  updateMigrationRequest,
+  verifyMigrationRequest
+} from '@/utils/whitelistMigration';
+
+// Hardhat 默认测试账户 #0
+const oldWallet = new ethers.Wallet('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80');
+const NEW_WALLET = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const TARGET = { contractAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3', chainId: 31337 };
+const NOW = 1_800_000_000_000;
+
+const signRequest = async (overrides: Partial<WhitelistMigrationRequest> = {}): Promise<WhitelistMigrationRequest> => {
+  const params = { ...TARGET, from: oldWallet.address, to: NEW_WALLET, issuedAt: NOW, ...overrides };
+  return {
+    ...params,
+    id: getMigrationRequestId(params.from, params.issuedAt),
+    signature: await oldWallet.signMessage(buildMigrationMessage(params)),
+    status: 'pending',
+  };
+};
+
+describe('whitelistMigration', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('accepts a request signed by the old wallet', async () => {
+    const request = await signRequest();
+
+    expect(buildMigrationMessage(request)).toContain(`New wallet: ${NEW_WALLET}`);
+    expect(verifyMigrationRequest(request, TARGET, NOW + 60_000)).toEqual([]);
+  });
+
+  it('rejects tampered, expired and cross-deployment requests', async () => {
+    const request = await signRequest();
+
+    expect(verifyMigrationRequest({ ...request, to: oldWallet.address }, TARGET, NOW)).toEqual([
+      '新旧钱包地址相同',
+      '签名与旧钱包地址不匹配',
+    ]);
+    expect(verifyMigrationRequest(request, TARGET, NOW + MIGRATION_REQUEST_MAX_AGE + 1)).toEqual([
+      '签名已超过 7 天有效期，请投资者重新签名',
+    ]);
+    expect(verifyMigrationRequest(request, { ...TARGET, chainId: 1 }, NOW)).toEqual([
+      '申请针对的不是当前网络上的白名单合约',
+    ]);
+    expect(verifyMigrationRequest({ ...request, signature: '0x1234' }, TARGET, NOW)).toEqual(['签名格式无效']);
+  });
+
+  it('rejects requests issued in the future beyond the allowed clock skew', async () => {
+    const request = await signRequest();
+
+    expect(verifyMigrationRequest(request, TARGET, NOW - MIGRATION_CLOCK_SKEW)).toEqual([]);
+    expect(verifyMigrationRequest(request, TARGET, NOW - MIGRATION_CLOCK_SKEW - 1)).toEqual([
+      '签名时间晚于当前时间，请投资者检查系统时钟后重新签名',
+    ]);
+  });
+
+  it('round-trips exported requests and rejects malformed input', async () => {
+    const request = await signRequest();
+
+    expect(parseMigrationRequest(serializeMigrationRequest({ ...request, status: 'executed', txHash: '0x01' }))).toEqual(request);
+    expect(parseMigrationRequest('{"from":"0x1234"}')).toBeNull();
+    expect(parseMigrationRequest('not json')).toBeNull();
+  });
+
+  it('stores requests newest first and updates their status', async () => {
+    const older = await signRequest();
+    const newer = await signRequest({ issuedAt: NOW + 1000 });
+
+    saveMigrationRequest(older, localStorage);
+    saveMigrationRequest(newer, localStorage);
+    updateMigrationRequest(older.id, { status: 'executed', txHash: '0x01' }, localStorage);
+
+    expect(loadMigrationRequests(localStorage).map(request => [request.issuedAt, request.status])).toEqual([
+      [NOW + 1000, 'pending'],
+      [NOW, 'executed'],
+    ]);
+  });
+
+  it('keeps the review status when a reviewed request is saved again', async () => {
+    const request = await signRequest();
+
+    saveMigrationRequest(request, localStorage);
+    updateMigrationRequest(request.id, { status: 'executed', txHash: '0x01', reviewedAt: NOW }, localStorage);
+    const [stored] = saveMigrationRequest(parseMigrationRequest(serializeMigrationRequest(request))!, localStorage);
+
+    expect(stored).toMatchObject({ status: 'executed', txHash: '0x01', reviewedAt: NOW });
+  });
+});
@@ -48,6 +48,21 @@ export interface VestingSchedule {
   revoked: boolean;
 }
 
+export interface VestingStep {
+  index: number;
+  timestamp: number;
+  percentage: number; // basis points
+  released: boolean;
+}
+
+export interface VestingMilestone {
+  index: number;
+  description: string;
+  percentage: number; // basis points
+  achieved: boolean;
+  achievedTime: number;
+}
+
 export interface CrowdsaleParams {
   tokenName: string;
   tokenSymbol: string;
@@ -94,6 +109,32 @@ export interface PurchaseHistory {
   phase: CrowdsalePhase;
 }
 
+export enum WhitelistLevel {
+  BLACKLISTED = 0,
+  NONE = 1,
+  WHITELISTED = 2,
+  VIP = 3
+}
+
+export enum PricingType {
+  FIXED = 0,
+  TIERED = 1,
+  DYNAMIC = 2,
+  WHITELIST = 3
+}
+
+export interface PriceTier {
+  progressThreshold: bigint; // basis points, 10000 = 100%
+  pricePerToken: bigint;
+  isActive: boolean;
+}
+
+export enum VaultState {
+  ACTIVE = 0,
+  REFUNDING = 1,
+  CLOSED = 2
+}
+
 export interface RefundInfo {
   depositor: string;
   amount: bigint;
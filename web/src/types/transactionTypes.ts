@@ -30,6 +30,8 @@ export interface BaseTransaction {
   gasUsed?: string;
   gasPrice?: string;
   value?: string;
+  crowdsaleAddress?: string; // 交易所属众筹
+  tokenSymbol?: string;
 }
 
 export interface TokenPurchaseTransaction extends BaseTransaction {
@@ -68,10 +70,13 @@ export interface PhaseChangeTransaction extends BaseTransaction {
   changedBy: string;
 }
 
+export type ConfigUpdateType = 'crowdsale_config' | 'funding_wallet' | 'vesting_config';
+
 export interface ConfigUpdateTransaction extends BaseTransaction {
   type: TransactionType.CONFIG_UPDATE;
   updatedBy: string;
-  configType: string;
+  configType: ConfigUpdateType;
+  values: Record<string, string>; // 更新后的字段值（wei、秒或地址）
 }
 
 export interface EmergencyActionTransaction extends BaseTransaction {
@@ -114,6 +119,7 @@ export interface TransactionFilter {
     end?: Date;
   };
   addresses: string[];
+  crowdsales: string[];
 }
 
 export interface PaginationInfo {
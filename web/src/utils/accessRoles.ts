@@ -0,0 +1,100 @@
+import { ethers } from 'ethers';
+
+export const DEFAULT_ADMIN_ROLE = ethers.ZeroHash;
+
+export type RoleContractKind = 'crowdsale' | 'token' | 'vesting' | 'vault' | 'whitelist' | 'pricing' | 'factory';
+
+export const ROLE_CONTRACT_LABELS: Record<RoleContractKind, string> = {
+  crowdsale: '众筹合约',
+  token: '代币合约',
+  vesting: '释放合约',
+  vault: '资金托管',
+  whitelist: '白名单',
+  pricing: '定价策略',
+  factory: '众筹工厂',
+};
+
+// 各合约中声明的角色常量，用于授予角色时的下拉选项
+export const CONTRACT_ROLE_NAMES: Record<RoleContractKind, string[]> = {
+  crowdsale: ['DEFAULT_ADMIN_ROLE', 'CROWDSALE_ADMIN_ROLE', 'CROWDSALE_OPERATOR_ROLE', 'EMERGENCY_ROLE'],
+  token: ['DEFAULT_ADMIN_ROLE', 'MINTER_ROLE', 'BURNER_ROLE', 'PAUSER_ROLE'],
+  vesting: ['DEFAULT_ADMIN_ROLE', 'VESTING_ADMIN_ROLE', 'VESTING_OPERATOR_ROLE', 'MILESTONE_MANAGER_ROLE'],
+  vault: ['DEFAULT_ADMIN_ROLE', 'VAULT_ADMIN_ROLE', 'VAULT_OPERATOR_ROLE', 'EMERGENCY_ROLE'],
+  whitelist: ['DEFAULT_ADMIN_ROLE', 'WHITELIST_ADMIN_ROLE', 'WHITELIST_OPERATOR_ROLE'],
+  pricing: ['DEFAULT_ADMIN_ROLE', 'PRICING_ADMIN_ROLE'],
+  factory: ['DEFAULT_ADMIN_ROLE', 'FACTORY_ADMIN_ROLE', 'FACTORY_OPERATOR_ROLE'],
+};
+
+export const getRoleHash = (name: string): string =>
+  name === 'DEFAULT_ADMIN_ROLE' ? DEFAULT_ADMIN_ROLE : ethers.keccak256(ethers.toUtf8Bytes(name));
+
+const ROLE_NAMES = new Map<string, string>(
+  [...new Set(Object.values(CONTRACT_ROLE_NAMES).flat())].map(name => [getRoleHash(name), name])
+);
+
+/**
+ * 将角色哈希映射为常量名，未知角色显示缩写的哈希
+ */
+export const getRoleName = (role: string): string =>
+  ROLE_NAMES.get(role.toLowerCase()) ?? `${role.slice(0, 10)}…${role.slice(-4)}`;
+
+export interface RoleEvent {
+  role: string;
+  account: string;
+  granted: boolean;
+  blockNumber: number;
+  logIndex: number;
+}
+
+export interface RoleAssignment {
+  role: string;
+  name: string;
+  adminRole: string;
+  members: string[];
+}
+
+/**
+ * 按区块和日志顺序重放 RoleGranted / RoleRevoked 事件，得到每个角色当前的持有者
+ */
+export const reconstructRoleMembers = (events: RoleEvent[]): Map<string, string[]> => {
+  const members = new Map<string, Set<string>>();
+  const ordered = [...events].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  for (const event of ordered) {
+    const role = event.role.toLowerCase();
+    const holders = members.get(role) ?? new Set<string>();
+    const account = ethers.getAddress(event.account);
+    if (event.granted) holders.add(account);
+    else holders.delete(account);
+    members.set(role, holders);
+  }
+
+  return new Map([...members].map(([role, holders]) => [role, [...holders]]));
+};
+
+/**
+ * 在移除某个持有者之前给出的警告：移除的是最后一个管理员时，相关角色将无法再被管理
+ */
+export const getRoleRemovalWarnings = (assignments: RoleAssignment[], role: string, account: string): string[] => {
+  const assignment = assignments.find(item => item.role.toLowerCase() === role.toLowerCase());
+  if (!assignment) return [];
+
+  const remaining = assignment.members.filter(member => member.toLowerCase() !== account.toLowerCase());
+  if (remaining.length > 0) return [];
+
+  const warnings: string[] = [];
+  const managed = assignments
+    .filter(item => item.adminRole.toLowerCase() === role.toLowerCase() && item.role.toLowerCase() !== role.toLowerCase())
+    .map(item => item.name);
+
+  if (role.toLowerCase() === DEFAULT_ADMIN_ROLE) {
+    warnings.push('这是最后一个 DEFAULT_ADMIN_ROLE 持有者，移除后将无法再授予或撤销任何角色');
+  } else if (assignment.name.endsWith('_ADMIN_ROLE')) {
+    warnings.push(`这是最后一个 ${assignment.name} 持有者，移除后相关管理功能将无人可用`);
+  }
+  if (managed.length > 0) {
+    warnings.push(`${managed.join('、')} 的管理权限由该角色控制，移除后将无法再变更`);
+  }
+
+  return warnings;
+};
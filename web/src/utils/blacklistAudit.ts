@@ -0,0 +1,63 @@
+export const BLACKLIST_AUDIT_STORAGE_KEY = 'blacklist-audit-log';
+
+export type BlacklistAction = 'add' | 'remove';
+
+/**
+ * 黑名单操作记录，原因只保存在本地，链上只有级别变更事件
+ */
+export interface BlacklistAuditEntry {
+  address: string;
+  action: BlacklistAction;
+  reason: string;
+  operator: string;
+  txHash: string;
+  timestamp: number; // 毫秒
+}
+
+export const BLACKLIST_ACTION_LABELS: Record<BlacklistAction, string> = {
+  add: '加入黑名单',
+  remove: '移出黑名单',
+};
+
+const getStorage = (): Storage | null =>
+  typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
+
+export const loadBlacklistAudit = (storage = getStorage()): BlacklistAuditEntry[] => {
+  if (!storage) return [];
+  try {
+    const entries = JSON.parse(storage.getItem(BLACKLIST_AUDIT_STORAGE_KEY) || '[]');
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * 追加一条审计记录，按时间倒序排列
+ */
+export const appendBlacklistAudit = (
+  entry: Omit<BlacklistAuditEntry, 'timestamp'>,
+  storage = getStorage(),
+  timestamp = Date.now()
+): BlacklistAuditEntry[] => {
+  const entries = [{ ...entry, timestamp }, ...loadBlacklistAudit(storage)];
+  storage?.setItem(BLACKLIST_AUDIT_STORAGE_KEY, JSON.stringify(entries));
+  return entries;
+};
+
+/**
+ * 某地址最近一次加入黑名单时填写的原因
+ */
+export const getLatestBlacklistReason = (entries: BlacklistAuditEntry[], address: string): string | undefined =>
+  entries.find(entry => entry.action === 'add' && entry.address.toLowerCase() === address.toLowerCase())?.reason;
+
+/**
+ * 按地址或原因过滤（不区分大小写）
+ */
+export const filterBlacklistAudit = (entries: BlacklistAuditEntry[], query: string): BlacklistAuditEntry[] => {
+  const keyword = query.trim().toLowerCase();
+  if (!keyword) return entries;
+  return entries.filter(entry =>
+    entry.address.toLowerCase().includes(keyword) || entry.reason.toLowerCase().includes(keyword)
+  );
+};
@@ -50,6 +50,20 @@ export const APP_CONFIG = {
   ITEMS_PER_PAGE: 10,
 } as const;
 
+// Event index sync (transaction history)
+export const EVENT_SYNC_CONFIG = {
+  CHUNK_SIZE: Number(import.meta.env.VITE_EVENT_SYNC_CHUNK_SIZE) || 2000, // blocks per eth_getLogs
+  REORG_DEPTH: Number(import.meta.env.VITE_EVENT_SYNC_REORG_DEPTH) || 12, // recent blocks re-checked on every sync
+  START_BLOCK: Number(import.meta.env.VITE_EVENT_SYNC_START_BLOCK) || 0, // usually the deployment block
+} as const;
+
+// ETH fiat price source for transaction exports
+export const PRICE_SOURCE_CONFIG = {
+  PROVIDER: import.meta.env.VITE_PRICE_SOURCE || '', // 'coingecko' | 'fixed' | '' (no fiat values)
+  CURRENCY: import.meta.env.VITE_FIAT_CURRENCY || 'USD',
+  FIXED_ETH_PRICE: Number(import.meta.env.VITE_FIXED_ETH_PRICE) || 0,
+} as const;
+
 // UI constants
 export const UI_CONFIG = {
   TOAST_DURATION: 5000,
@@ -0,0 +1,155 @@
+import { VestingType } from '@/types/contracts';
+import type { CrowdsaleParams } from '@/hooks/useCrowdsaleFactory';
+import {
+  CrowdsaleWizardForm,
+  WIZARD_STEPS,
+  buildCrowdsaleParams,
+  createEmptyWizardForm,
+  validateWizardStep
+} from '@/utils/crowdsaleWizard';
+
+// CSV 列顺序，JSON 使用同名字段；释放相关列可省略
+export const BATCH_COLUMNS = [
+  'tokenName',
+  'tokenSymbol',
+  'totalSupply',
+  'softCap',
+  'hardCap',
+  'startTime',
+  'endTime',
+  'fundingWallet',
+  'tokenPrice',
+  'vestingEnabled',
+  'cliffDays',
+  'vestingDays',
+  'vestingType',
+  'immediateReleasePercent',
+] as const;
+
+// 每批最多占用区块 gas 上限的比例，为估算误差留出余量
+export const BATCH_GAS_LIMIT_RATIO = 80n;
+
+export interface CrowdsaleBatchRow {
+  line: number; // CSV 行号或 JSON 数组下标 + 1
+  form: CrowdsaleWizardForm;
+  params: CrowdsaleParams;
+  errors: string[];
+}
+
+const VESTING_TYPE_NAMES = ['LINEAR', 'CLIFF', 'STEPPED', 'MILESTONE', 'CUSTOM'];
+
+const parseTimestamp = (value: string): number => {
+  if (/^\d+$/.test(value)) return Number(value);
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? NaN : Math.floor(time / 1000);
+};
+
+const parseVestingType = (value: string): VestingType | null => {
+  const normalized = value.trim().toUpperCase();
+  if (/^\d$/.test(normalized)) {
+    const index = Number(normalized);
+    return index < VESTING_TYPE_NAMES.length ? index as VestingType : null;
+  }
+  const index = VESTING_TYPE_NAMES.indexOf(normalized);
+  return index >= 0 ? index as VestingType : null;
+};
+
+const toRow = (line: number, record: Record<string, unknown>, now: number): CrowdsaleBatchRow => {
+  const value = (key: typeof BATCH_COLUMNS[number]) => {
+    const raw = record[key];
+    return raw === undefined || raw === null ? '' : String(raw).trim();
+  };
+
+  const errors: string[] = [];
+  const form: CrowdsaleWizardForm = {
+    ...createEmptyWizardForm(now),
+    tokenName: value('tokenName'),
+    tokenSymbol: value('tokenSymbol'),
+    totalSupply: value('totalSupply'),
+    softCap: value('softCap'),
+    hardCap: value('hardCap'),
+    startTime: parseTimestamp(value('startTime')),
+    endTime: parseTimestamp(value('endTime')),
+    fundingWallet: value('fundingWallet'),
+    tokenPrice: value('tokenPrice'),
+    vestingEnabled: ['true', '1', 'yes'].includes(value('vestingEnabled').toLowerCase()),
+  };
+
+  if (value('cliffDays')) form.cliffDays = value('cliffDays');
+  if (value('vestingDays')) form.vestingDays = value('vestingDays');
+  if (value('immediateReleasePercent')) form.immediateReleasePercent = value('immediateReleasePercent');
+  if (value('vestingType')) {
+    const vestingType = parseVestingType(value('vestingType'));
+    if (vestingType === null) errors.push('释放类型无效');
+    else form.vestingType = vestingType;
+  }
+
+  for (const step of WIZARD_STEPS) {
+    errors.push(...validateWizardStep(step.id, form, now));
+  }
+
+  return { line, form, params: buildCrowdsaleParams(form), errors };
+};
+
+/**
+ * 解析批量创建数据：以 [ 开头按 JSON 数组解析，否则按 CSV 解析（列顺序见 BATCH_COLUMNS）。
+ * 每行先做本地校验，合约校验由调用方逐行发起
+ */
+export const parseCrowdsaleBatch = (text: string, now = Math.floor(Date.now() / 1000)): CrowdsaleBatchRow[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  if (trimmed.startsWith('[')) {
+    let records: unknown;
+    try {
+      records = JSON.parse(trimmed);
+    } catch {
+      throw new Error('JSON 格式无效');
+    }
+    if (!Array.isArray(records)) {
+      throw new Error('JSON 必须是数组');
+    }
+    return records.map((record, index) => (
+      record && typeof record === 'object'
+        ? toRow(index + 1, record as Record<string, unknown>, now)
+        : { ...toRow(index + 1, {}, now), errors: ['该行不是对象'] }
+    ));
+  }
+
+  const rows: CrowdsaleBatchRow[] = [];
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const columns = line.split(',').map(column => column.trim());
+    // 跳过表头
+    if (index === 0 && columns[0] === 'tokenName') return;
+
+    const record = Object.fromEntries(BATCH_COLUMNS.map((key, column) => [key, columns[column]]));
+    rows.push(toRow(index + 1, record, now));
+  });
+
+  return rows;
+};
+
+/**
+ * 按 gas 估算把行分批，每批总量不超过 gasBudget；单行超出预算时独占一批，交由节点拒绝
+ */
+export const planBatchChunks = (gasEstimates: bigint[], gasBudget: bigint): number[][] => {
+  const chunks: number[][] = [];
+  let current: number[] = [];
+  let currentGas = 0n;
+
+  gasEstimates.forEach((gas, index) => {
+    if (current.length > 0 && currentGas + gas > gasBudget) {
+      chunks.push(current);
+      current = [];
+      currentGas = 0n;
+    }
+    current.push(index);
+    currentGas += gas;
+  });
+
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+};
@@ -0,0 +1,263 @@
+import { ethers, parseEther } from 'ethers';
+import { CrowdsaleConfig, CrowdsalePhase, VestingType } from '@/types/contracts';
+
+const DAY = 24 * 60 * 60;
+
+// 与 CrowdsaleConstants 保持一致
+export const CONFIG_LIMITS = {
+  MIN_PRESALE_DURATION: 60 * 60,
+  MIN_PUBLIC_SALE_DURATION: 60 * 60,
+  MIN_PHASE_INTERVAL: 10 * 60,
+  MAX_CROWDSALE_DURATION: 90 * DAY,
+  MIN_SOFT_CAP: parseEther('0.1'),
+  MIN_HARD_CAP: parseEther('1'),
+  MAX_HARD_CAP: parseEther('10000'),
+  MIN_SOFT_CAP_RATIO: 10n, // 软顶至少为硬顶的 10%
+  MIN_PURCHASE_AMOUNT: parseEther('0.001'),
+  DEFAULT_MAX_PURCHASE: parseEther('100'),
+  CONFIG_UPDATE_COOLDOWN: 60 * 60,
+  MAX_IMMEDIATE_RELEASE: 10000n, // basis points
+} as const;
+
+/**
+ * 众筹可编辑的全部设置：getCrowdsaleConfig 的字段加上资金钱包和释放配置
+ */
+export interface CrowdsaleSettings extends CrowdsaleConfig {
+  fundingWallet: string;
+  vestingEnabled: boolean;
+  cliffDuration: bigint; // 秒
+  vestingDuration: bigint; // 秒
+  vestingType: VestingType;
+  immediateReleasePercentage: bigint; // basis points
+}
+
+export type ConfigGroup = 'time' | 'funding' | 'limits' | 'wallet' | 'vesting';
+
+type FieldKind = 'time' | 'ether' | 'address' | 'bool' | 'duration' | 'vestingType' | 'percent';
+
+export const CONFIG_FIELDS: ReadonlyArray<{ key: keyof CrowdsaleSettings; label: string; group: ConfigGroup; kind: FieldKind }> = [
+  { key: 'presaleStartTime', label: '预售开始时间', group: 'time', kind: 'time' },
+  { key: 'presaleEndTime', label: '预售结束时间', group: 'time', kind: 'time' },
+  { key: 'publicSaleStartTime', label: '公售开始时间', group: 'time', kind: 'time' },
+  { key: 'publicSaleEndTime', label: '公售结束时间', group: 'time', kind: 'time' },
+  { key: 'softCap', label: '软顶', group: 'funding', kind: 'ether' },
+  { key: 'hardCap', label: '硬顶', group: 'funding', kind: 'ether' },
+  { key: 'minPurchase', label: '最小购买金额', group: 'limits', kind: 'ether' },
+  { key: 'maxPurchase', label: '最大购买金额', group: 'limits', kind: 'ether' },
+  { key: 'fundingWallet', label: '资金钱包', group: 'wallet', kind: 'address' },
+  { key: 'vestingEnabled', label: '启用释放', group: 'vesting', kind: 'bool' },
+  { key: 'cliffDuration', label: '悬崖期', group: 'vesting', kind: 'duration' },
+  { key: 'vestingDuration', label: '释放期', group: 'vesting', kind: 'duration' },
+  { key: 'vestingType', label: '释放类型', group: 'vesting', kind: 'vestingType' },
+  { key: 'immediateReleasePercentage', label: '立即释放比例', group: 'vesting', kind: 'percent' },
+];
+
+export const CONFIG_GROUP_LABELS: Record<ConfigGroup, string> = {
+  time: '时间配置',
+  funding: '资金目标',
+  limits: '购买限额',
+  wallet: '资金钱包',
+  vesting: '释放配置',
+};
+
+const VESTING_TYPE_NAMES = ['LINEAR', 'CLIFF', 'STEPPED', 'MILESTONE', 'CUSTOM'];
+
+type SettingValue = CrowdsaleSettings[keyof CrowdsaleSettings];
+
+export interface ConfigFieldDiff {
+  key: keyof CrowdsaleSettings;
+  label: string;
+  group: ConfigGroup;
+  from: string;
+  to: string;
+}
+
+const formatValue = (kind: FieldKind, value: SettingValue): string => {
+  switch (kind) {
+    case 'time':
+      return new Date(Number(value) * 1000).toLocaleString();
+    case 'ether':
+      return `${ethers.formatEther(value as bigint)} ETH`;
+    case 'bool':
+      return value ? '是' : '否';
+    case 'duration':
+      return `${Number(value) / DAY} 天`;
+    case 'vestingType':
+      return VESTING_TYPE_NAMES[Number(value)] ?? String(value);
+    case 'percent':
+      return `${Number(value) / 100}%`;
+    default:
+      return String(value);
+  }
+};
+
+const isSameValue = (a: SettingValue, b: SettingValue) =>
+  typeof a === 'string' && typeof b === 'string' ? a.toLowerCase() === b.toLowerCase() : a === b;
+
+/**
+ * 逐字段比较当前设置和修改后的设置，只返回发生变化的字段
+ */
+export const diffCrowdsaleSettings = (current: CrowdsaleSettings, proposed: CrowdsaleSettings): ConfigFieldDiff[] =>
+  CONFIG_FIELDS
+    .filter(field => !isSameValue(current[field.key], proposed[field.key]))
+    .map(field => ({
+      key: field.key,
+      label: field.label,
+      group: field.group,
+      from: formatValue(field.kind, current[field.key]),
+      to: formatValue(field.kind, proposed[field.key]),
+    }));
+
+export interface ConfigValidationError {
+  group: ConfigGroup;
+  message: string;
+}
+
+/**
+ * 校验设置，时间、资金目标和购买限额的规则与 CrowdsaleConstants 中 _validateConfig 使用的校验一致
+ */
+export const validateCrowdsaleSettings = (settings: CrowdsaleSettings): ConfigValidationError[] => {
+  const errors: ConfigValidationError[] = [];
+  const add = (group: ConfigGroup, message: string) => errors.push({ group, message });
+
+  const presaleStart = Number(settings.presaleStartTime);
+  const presaleEnd = Number(settings.presaleEndTime);
+  const publicStart = Number(settings.publicSaleStartTime);
+  const publicEnd = Number(settings.publicSaleEndTime);
+
+  if (presaleStart >= presaleEnd) {
+    add('time', '预售结束时间必须晚于开始时间');
+  } else if (presaleEnd - presaleStart < CONFIG_LIMITS.MIN_PRESALE_DURATION) {
+    add('time', '预售至少持续1小时');
+  }
+  if (presaleEnd + CONFIG_LIMITS.MIN_PHASE_INTERVAL > publicStart) {
+    add('time', '公售开始时间须在预售结束至少10分钟之后');
+  }
+  if (publicStart >= publicEnd) {
+    add('time', '公售结束时间必须晚于开始时间');
+  } else if (publicEnd - publicStart < CONFIG_LIMITS.MIN_PUBLIC_SALE_DURATION) {
+    add('time', '公售至少持续1小时');
+  }
+  if (publicEnd - presaleStart > CONFIG_LIMITS.MAX_CROWDSALE_DURATION) {
+    add('time', '众筹总时长不能超过90天');
+  }
+
+  const { softCap, hardCap } = settings;
+  if (softCap < CONFIG_LIMITS.MIN_SOFT_CAP) {
+    add('funding', '软顶不能低于 0.1 ETH');
+  }
+  if (hardCap < CONFIG_LIMITS.MIN_HARD_CAP) {
+    add('funding', '硬顶不能低于 1 ETH');
+  }
+  if (hardCap > CONFIG_LIMITS.MAX_HARD_CAP) {
+    add('funding', '硬顶不能超过 10000 ETH');
+  }
+  if (softCap > hardCap) {
+    add('funding', '软顶不能高于硬顶');
+  } else if (hardCap > 0n && (softCap * 100n) / hardCap < CONFIG_LIMITS.MIN_SOFT_CAP_RATIO) {
+    add('funding', '软顶不能低于硬顶的10%');
+  }
+
+  const { minPurchase, maxPurchase } = settings;
+  if (minPurchase < CONFIG_LIMITS.MIN_PURCHASE_AMOUNT) {
+    add('limits', '最小购买金额不能低于 0.001 ETH');
+  }
+  if (maxPurchase < minPurchase) {
+    add('limits', '最大购买金额不能低于最小购买金额');
+  }
+  if (maxPurchase > CONFIG_LIMITS.DEFAULT_MAX_PURCHASE) {
+    add('limits', '最大购买金额不能超过 100 ETH');
+  }
+
+  if (!ethers.isAddress(settings.fundingWallet) || settings.fundingWallet === ethers.ZeroAddress) {
+    add('wallet', '资金钱包地址无效');
+  }
+
+  if (settings.immediateReleasePercentage > CONFIG_LIMITS.MAX_IMMEDIATE_RELEASE) {
+    add('vesting', '立即释放比例不能超过100%');
+  }
+
+  return errors;
+};
+
+export type ConfigUpdateMethod =
+  | 'updateConfig'
+  | 'updateTimeConfig'
+  | 'updateFundingTargets'
+  | 'updatePurchaseLimits'
+  | 'updateFundingWallet'
+  | 'setVestingConfig';
+
+export interface ConfigUpdateCall {
+  method: ConfigUpdateMethod;
+  groups: ConfigGroup[];
+}
+
+export interface ConfigUpdatePlan {
+  diff: ConfigFieldDiff[];
+  calls: ConfigUpdateCall[];
+  errors: string[];
+}
+
+export interface ConfigUpdateState {
+  phase: CrowdsalePhase;
+  paused: boolean;
+  lastConfigUpdateTime: number;
+  now: number;
+}
+
+const SINGLE_GROUP_METHODS: Partial<Record<ConfigGroup, ConfigUpdateMethod>> = {
+  time: 'updateTimeConfig',
+  funding: 'updateFundingTargets',
+  limits: 'updatePurchaseLimits',
+};
+
+/**
+ * 根据字段差异选择需要发送的交易。时间、资金目标和购买限额共享 1 小时冷却时间，
+ * 多组同时修改时合并为一笔 updateConfig（只允许在 PENDING 阶段）
+ */
+export const planConfigUpdate = (
+  current: CrowdsaleSettings,
+  proposed: CrowdsaleSettings,
+  state: ConfigUpdateState
+): ConfigUpdatePlan => {
+  const diff = diffCrowdsaleSettings(current, proposed);
+  const changedGroups = new Set(diff.map(item => item.group));
+  const configGroups = (['time', 'funding', 'limits'] as const).filter(group => changedGroups.has(group));
+
+  const calls: ConfigUpdateCall[] = [];
+  if (configGroups.length > 1) {
+    calls.push({ method: 'updateConfig', groups: ['time', 'funding', 'limits'] });
+  } else if (configGroups.length === 1) {
+    calls.push({ method: SINGLE_GROUP_METHODS[configGroups[0]]!, groups: [configGroups[0]] });
+  }
+  if (changedGroups.has('wallet')) {
+    calls.push({ method: 'updateFundingWallet', groups: ['wallet'] });
+  }
+  if (changedGroups.has('vesting')) {
+    calls.push({ method: 'setVestingConfig', groups: ['vesting'] });
+  }
+
+  // updateConfig 会校验全部字段，单组更新只校验对应分组
+  const checkedGroups = new Set(calls.flatMap(call => call.groups));
+  const errors = validateCrowdsaleSettings(proposed)
+    .filter(error => checkedGroups.has(error.group))
+    .map(error => error.message);
+
+  if (calls.length > 0 && state.paused) {
+    errors.push('众筹已暂停，无法修改配置');
+  }
+
+  const configCall = calls.find(call => call.method !== 'updateFundingWallet' && call.method !== 'setVestingConfig');
+  if (configCall) {
+    if (configCall.method !== 'updatePurchaseLimits' && state.phase !== CrowdsalePhase.PENDING) {
+      errors.push('众筹已开始，只能修改购买限额、资金钱包和释放配置');
+    }
+    const cooldownEndsAt = state.lastConfigUpdateTime + CONFIG_LIMITS.CONFIG_UPDATE_COOLDOWN;
+    if (state.lastConfigUpdateTime > 0 && state.now < cooldownEndsAt) {
+      errors.push(`配置更新冷却中，还需等待 ${Math.ceil((cooldownEndsAt - state.now) / 60)} 分钟`);
+    }
+  }
+
+  return { diff, calls, errors };
+};
@@ -0,0 +1,167 @@
+import { ethers } from 'ethers';
+import { getContractAddress } from './contracts';
+import { parseCrowdsaleCreatedLog } from './factoryVariant';
+import { EventSyncer } from './eventSync';
+import { CrowdsaleInstanceStructOutput, connectCrowdsaleFactory, connectCrowdsaleToken, connectTokenCrowdsale } from '@/generated';
+
+// 一个众筹及其配套合约，交易历史按众筹归属
+export interface CrowdsaleSource {
+  crowdsaleAddress: string;
+  tokenAddress: string | null;
+  vestingAddress: string | null;
+  whitelistAddress: string | null;
+  vaultAddress: string | null;
+  tokenName: string;
+  tokenSymbol: string;
+  creator: string | null;
+  isActive: boolean;
+}
+
+export interface DiscoverCrowdsalesOptions {
+  creator?: string; // 额外查询该地址创建的众筹（包含已停用的）
+}
+
+const toOptionalAddress = (address: string | null | undefined): string | null =>
+  address && address !== ethers.ZeroAddress ? address : null;
+
+const createSource = (crowdsaleAddress: string): CrowdsaleSource => ({
+  crowdsaleAddress,
+  tokenAddress: null,
+  vestingAddress: null,
+  whitelistAddress: null,
+  vaultAddress: null,
+  tokenName: '',
+  tokenSymbol: '',
+  creator: null,
+  isActive: true,
+});
+
+// 读取失败（合约不存在或接口不匹配）时返回 null，不影响其他众筹
+const tryCall = async <T>(call: () => Promise<T>): Promise<T | null> => {
+  try {
+    return await call();
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 发现需要索引的全部众筹：工厂 CrowdsaleCreated 事件、getActiveCrowdsales/getCreatorCrowdsales
+ * 以及环境变量中配置的单个众筹，并补全各众筹的代币、释放、白名单和退款金库地址
+ */
+export const discoverCrowdsales = async (
+  provider: ethers.Provider,
+  syncer: EventSyncer,
+  options: DiscoverCrowdsalesOptions = {}
+): Promise<CrowdsaleSource[]> => {
+  const sources = new Map<string, CrowdsaleSource>();
+
+  const upsert = (crowdsaleAddress: string, update: Partial<CrowdsaleSource>) => {
+    const key = crowdsaleAddress.toLowerCase();
+    const existing = sources.get(key) ?? createSource(crowdsaleAddress);
+    sources.set(key, {
+      ...existing,
+      ...Object.fromEntries(Object.entries(update).filter(([, value]) => value !== null && value !== '')),
+    });
+  };
+
+  const addInstance = (instance: CrowdsaleInstanceStructOutput) => {
+    upsert(instance.crowdsaleAddress, {
+      tokenAddress: toOptionalAddress(instance.tokenAddress),
+      vestingAddress: toOptionalAddress(instance.vestingAddress),
+      creator: instance.creator,
+      isActive: instance.isActive,
+    });
+  };
+
+  // 单众筹部署（环境变量配置）
+  const configuredCrowdsale = getContractAddress('TOKENCROWDSALE');
+  if (configuredCrowdsale) {
+    upsert(configuredCrowdsale, {
+      vestingAddress: getContractAddress('TOKENVESTING'),
+      whitelistAddress: getContractAddress('WHITELISTMANAGER'),
+      vaultAddress: getContractAddress('REFUNDVAULT'),
+    });
+  }
+
+  const factoryAddress = getContractAddress('CROWDSALEFACTORY');
+  if (factoryAddress) {
+    // 工厂事件记录了全部创建过的众筹，包括已停用的
+    await syncer.syncContract(factoryAddress);
+    const logs = await syncer.getLogs(factoryAddress);
+
+    // 同时兼容完整版和精简版工厂的 CrowdsaleCreated
+    for (const log of logs) {
+      const created = parseCrowdsaleCreatedLog(log);
+      if (!created) continue;
+
+      upsert(created.crowdsaleAddress, {
+        tokenAddress: created.tokenAddress,
+        vestingAddress: created.vestingAddress,
+        tokenName: created.tokenName,
+        tokenSymbol: created.tokenSymbol,
+        creator: created.creator,
+      });
+    }
+
+    // 合约查询补充事件索引尚未覆盖的众筹，并提供最新的激活状态
+    const factory = connectCrowdsaleFactory(factoryAddress, provider);
+    const { creator } = options;
+    const activeInstances = await tryCall(() => factory.getActiveCrowdsales());
+    const creatorInstances = creator
+      ? await tryCall(() => factory.getCreatorCrowdsales(creator))
+      : null;
+
+    if (activeInstances) {
+      const activeAddresses = new Set(activeInstances.map(instance => instance.crowdsaleAddress.toLowerCase()));
+      for (const [key, source] of sources) {
+        if (source.creator) {
+          sources.set(key, { ...source, isActive: activeAddresses.has(key) });
+        }
+      }
+    }
+    [...(activeInstances ?? []), ...(creatorInstances ?? [])].forEach(addInstance);
+  }
+
+  return Promise.all([...sources.values()].map(source => resolveCrowdsaleContracts(provider, source)));
+};
+
+// 从众筹合约本身读取白名单、退款金库与代币信息
+const resolveCrowdsaleContracts = async (
+  provider: ethers.Provider,
+  source: CrowdsaleSource
+): Promise<CrowdsaleSource> => {
+  const crowdsale = connectTokenCrowdsale(source.crowdsaleAddress, provider);
+
+  const [tokenAddress, whitelistAddress, vaultAddress] = await Promise.all([
+    source.tokenAddress ? Promise.resolve(source.tokenAddress) : tryCall<string>(() => crowdsale.token()),
+    tryCall<string>(() => crowdsale.whitelistManager()),
+    tryCall<string>(() => crowdsale.refundVault()),
+  ]);
+
+  const resolved: CrowdsaleSource = {
+    ...source,
+    tokenAddress: toOptionalAddress(tokenAddress),
+    whitelistAddress: toOptionalAddress(whitelistAddress) ?? source.whitelistAddress,
+    vaultAddress: toOptionalAddress(vaultAddress) ?? source.vaultAddress,
+  };
+
+  if (resolved.tokenAddress && (!resolved.tokenSymbol || !resolved.tokenName)) {
+    const token = connectCrowdsaleToken(resolved.tokenAddress, provider);
+    const [name, symbol] = await Promise.all([
+      resolved.tokenName ? Promise.resolve(resolved.tokenName) : tryCall<string>(() => token.name()),
+      resolved.tokenSymbol ? Promise.resolve(resolved.tokenSymbol) : tryCall<string>(() => token.symbol()),
+    ]);
+    resolved.tokenName = name ?? '';
+    resolved.tokenSymbol = symbol ?? '';
+  }
+
+  return resolved;
+};
+
+export const getCrowdsaleLabel = (source: Pick<CrowdsaleSource, 'crowdsaleAddress' | 'tokenName' | 'tokenSymbol'>): string => {
+  if (source.tokenSymbol) {
+    return source.tokenName ? `${source.tokenName} (${source.tokenSymbol})` : source.tokenSymbol;
+  }
+  return `${source.crowdsaleAddress.slice(0, 6)}...${source.crowdsaleAddress.slice(-4)}`;
+};
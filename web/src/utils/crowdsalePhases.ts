@@ -0,0 +1,145 @@
+import { CrowdsaleConfig, CrowdsalePhase } from '@/types/contracts';
+import { formatTimestamp } from '@/utils/formatters';
+
+export type PhaseTransitionMethod = 'startPresale' | 'startPublicSale' | 'finalizeCrowdsale';
+
+export const PHASE_ORDER = [
+  CrowdsalePhase.PENDING,
+  CrowdsalePhase.PRESALE,
+  CrowdsalePhase.PUBLIC_SALE,
+  CrowdsalePhase.FINALIZED,
+] as const;
+
+export const PHASE_LABELS: Record<CrowdsalePhase, string> = {
+  [CrowdsalePhase.PENDING]: '待开始',
+  [CrowdsalePhase.PRESALE]: '预售',
+  [CrowdsalePhase.PUBLIC_SALE]: '公售',
+  [CrowdsalePhase.FINALIZED]: '已结束',
+};
+
+/**
+ * 允许的阶段转换，与 TokenCrowdsale._isValidTransition 保持一致
+ */
+export const PHASE_TRANSITIONS: ReadonlyArray<{
+  from: CrowdsalePhase;
+  to: CrowdsalePhase;
+  method: PhaseTransitionMethod;
+  label: string;
+}> = [
+  { from: CrowdsalePhase.PENDING, to: CrowdsalePhase.PRESALE, method: 'startPresale', label: '启动预售' },
+  { from: CrowdsalePhase.PRESALE, to: CrowdsalePhase.PUBLIC_SALE, method: 'startPublicSale', label: '启动公售' },
+  { from: CrowdsalePhase.PRESALE, to: CrowdsalePhase.FINALIZED, method: 'finalizeCrowdsale', label: '结束众筹' },
+  { from: CrowdsalePhase.PUBLIC_SALE, to: CrowdsalePhase.FINALIZED, method: 'finalizeCrowdsale', label: '结束众筹' },
+];
+
+export const isValidPhaseTransition = (from: CrowdsalePhase, to: CrowdsalePhase): boolean =>
+  PHASE_TRANSITIONS.some(transition => transition.from === from && transition.to === to);
+
+export interface PhaseState {
+  phase: CrowdsalePhase;
+  paused: boolean;
+  hardCapReached: boolean;
+  now: number;
+}
+
+export interface PhaseTransitionOption {
+  from: CrowdsalePhase;
+  to: CrowdsalePhase;
+  method: PhaseTransitionMethod;
+  label: string;
+  available: boolean;
+  reason?: string;
+  availableAt?: number; // 因时间未到而不可用时，预计可执行的时间
+}
+
+/**
+ * 列出当前阶段可以进行的转换，并按合约中的时间窗口和硬顶条件判断能否立即执行
+ */
+export const getPhaseTransitions = (config: CrowdsaleConfig, state: PhaseState): PhaseTransitionOption[] => {
+  const presaleStart = Number(config.presaleStartTime);
+  const presaleEnd = Number(config.presaleEndTime);
+  const publicStart = Number(config.publicSaleStartTime);
+  const publicEnd = Number(config.publicSaleEndTime);
+  const { now } = state;
+
+  return PHASE_TRANSITIONS
+    .filter(transition => transition.from === state.phase)
+    .map((transition): PhaseTransitionOption => {
+      const option = { ...transition, available: false };
+      if (state.paused) {
+        return { ...option, reason: '众筹已暂停' };
+      }
+
+      switch (transition.method) {
+        case 'startPresale':
+          if (now < presaleStart) {
+            return { ...option, reason: `预售将于 ${formatTimestamp(presaleStart)} 开始`, availableAt: presaleStart };
+          }
+          if (now > presaleEnd) {
+            return { ...option, reason: '预售时间窗口已过，请先调整时间配置' };
+          }
+          return { ...option, available: true };
+        case 'startPublicSale':
+          if (now < publicStart) {
+            return { ...option, reason: `公售将于 ${formatTimestamp(publicStart)} 开始`, availableAt: publicStart };
+          }
+          if (now > publicEnd) {
+            return { ...option, reason: '公售时间窗口已过，只能结束众筹' };
+          }
+          return { ...option, available: true };
+        case 'finalizeCrowdsale': {
+          const phaseEnd = transition.from === CrowdsalePhase.PRESALE ? presaleEnd : publicEnd;
+          if (now > phaseEnd || state.hardCapReached) {
+            return { ...option, available: true };
+          }
+          return {
+            ...option,
+            reason: `需等待当前阶段于 ${formatTimestamp(phaseEnd)} 结束或达到硬顶`,
+            availableAt: phaseEnd + 1,
+          };
+        }
+      }
+    });
+};
+
+/**
+ * 时间已到但阶段没有推进时给出提示，阶段切换需要管理员手动发送交易
+ */
+export const getPhaseWarnings = (config: CrowdsaleConfig, state: PhaseState): string[] => {
+  const presaleStart = Number(config.presaleStartTime);
+  const presaleEnd = Number(config.presaleEndTime);
+  const publicStart = Number(config.publicSaleStartTime);
+  const publicEnd = Number(config.publicSaleEndTime);
+  const { now } = state;
+  const warnings: string[] = [];
+
+  switch (state.phase) {
+    case CrowdsalePhase.PENDING:
+      if (now > presaleEnd) {
+        warnings.push('预售结束时间已过，众筹仍未开始，需要重新配置时间');
+      } else if (now >= presaleStart) {
+        warnings.push('预售开始时间已到，但众筹仍处于待开始阶段');
+      }
+      break;
+    case CrowdsalePhase.PRESALE:
+      if (now > publicEnd) {
+        warnings.push('公售结束时间已过，众筹仍处于预售阶段');
+      } else if (now >= publicStart) {
+        warnings.push('公售开始时间已到，但众筹仍处于预售阶段');
+      } else if (now > presaleEnd) {
+        warnings.push('预售结束时间已过，众筹仍处于预售阶段');
+      }
+      break;
+    case CrowdsalePhase.PUBLIC_SALE:
+      if (now > publicEnd) {
+        warnings.push('公售结束时间已过，众筹尚未结束');
+      }
+      break;
+  }
+
+  if (warnings.length > 0 && state.paused) {
+    warnings.push('众筹处于暂停状态，恢复后才能切换阶段');
+  }
+
+  return warnings;
+};
@@ -0,0 +1,225 @@
+import { ethers, parseEther } from 'ethers';
+import { VestingType } from '@/types/contracts';
+import type { CrowdsaleParams } from '@/hooks/useCrowdsaleFactory';
+
+const DAY = 24 * 60 * 60;
+
+// 与 CrowdsaleFactory.validateCrowdsaleParams 的检查顺序一致
+export const WIZARD_STEPS = [
+  { id: 'token', label: '代币信息' },
+  { id: 'caps', label: '募资目标' },
+  { id: 'timing', label: '时间安排' },
+  { id: 'funding', label: '资金钱包' },
+  { id: 'price', label: '代币价格' },
+  { id: 'vesting', label: '释放参数' },
+] as const;
+
+export type WizardStepId = typeof WIZARD_STEPS[number]['id'];
+
+export interface CrowdsaleWizardForm {
+  tokenName: string;
+  tokenSymbol: string;
+  totalSupply: string; // token amount
+  softCap: string; // ETH
+  hardCap: string; // ETH
+  startTime: number; // Unix timestamp
+  endTime: number; // Unix timestamp
+  fundingWallet: string;
+  tokenPrice: string; // ETH per token
+  vestingEnabled: boolean;
+  cliffDays: string;
+  vestingDays: string;
+  vestingType: VestingType;
+  immediateReleasePercent: string; // 0-100
+}
+
+export interface CrowdsaleDraft {
+  id: string;
+  name: string;
+  step: number;
+  savedAt: number; // ms
+  form: CrowdsaleWizardForm;
+}
+
+export const DRAFTS_STORAGE_KEY = 'crowdsale-wizard-drafts';
+
+// 合约返回的英文错误 -> 所属步骤与提示文案
+const CONTRACT_ERRORS: Record<string, { step: WizardStepId; message: string }> = {
+  'Empty token name': { step: 'token', message: '代币名称不能为空' },
+  'Empty token symbol': { step: 'token', message: '代币符号不能为空' },
+  'Zero total supply': { step: 'token', message: '总供应量必须大于0' },
+  'Zero soft cap': { step: 'caps', message: '软顶必须大于0' },
+  'Hard cap must be greater than soft cap': { step: 'caps', message: '硬顶必须大于软顶' },
+  'Start time must be in future': { step: 'timing', message: '开始时间必须晚于当前区块时间' },
+  'End time must be after start time': { step: 'timing', message: '结束时间必须晚于开始时间' },
+  'Zero funding wallet': { step: 'funding', message: '资金钱包地址不能为零地址' },
+  'Zero token price': { step: 'price', message: '代币价格必须大于0' },
+  'Zero vesting duration': { step: 'vesting', message: '释放期必须大于0' },
+  'Immediate release percentage too high': { step: 'vesting', message: '立即释放比例不能超过100%' },
+};
+
+export const createEmptyWizardForm = (now = Math.floor(Date.now() / 1000)): CrowdsaleWizardForm => ({
+  tokenName: '',
+  tokenSymbol: '',
+  totalSupply: '',
+  softCap: '',
+  hardCap: '',
+  startTime: now + DAY,
+  endTime: now + 31 * DAY,
+  fundingWallet: '',
+  tokenPrice: '',
+  vestingEnabled: false,
+  cliffDays: '0',
+  vestingDays: '180',
+  vestingType: VestingType.LINEAR,
+  immediateReleasePercent: '0',
+});
+
+const safeParseEther = (value: string): bigint | null => {
+  try {
+    return parseEther(value.trim() || '0');
+  } catch {
+    return null;
+  }
+};
+
+const parseDays = (value: string): number | null => {
+  const days = Number(value);
+  return value.trim() === '' || Number.isNaN(days) || days < 0 ? null : days;
+};
+
+/**
+ * 本地校验单个步骤，规则与 validateCrowdsaleParams 一致，
+ * 另外拦截合约无法表达的输入格式错误
+ */
+export const validateWizardStep = (
+  step: WizardStepId,
+  form: CrowdsaleWizardForm,
+  now = Math.floor(Date.now() / 1000)
+): string[] => {
+  const errors: string[] = [];
+
+  switch (step) {
+    case 'token': {
+      if (!form.tokenName.trim()) errors.push('代币名称不能为空');
+      if (!form.tokenSymbol.trim()) errors.push('代币符号不能为空');
+      const supply = safeParseEther(form.totalSupply);
+      if (supply === null) errors.push('总供应量格式无效');
+      else if (supply <= 0n) errors.push('总供应量必须大于0');
+      break;
+    }
+    case 'caps': {
+      const softCap = safeParseEther(form.softCap);
+      const hardCap = safeParseEther(form.hardCap);
+      if (softCap === null) errors.push('软顶格式无效');
+      else if (softCap <= 0n) errors.push('软顶必须大于0');
+      if (hardCap === null) errors.push('硬顶格式无效');
+      else if (softCap !== null && hardCap <= softCap) errors.push('硬顶必须大于软顶');
+      break;
+    }
+    case 'timing':
+      if (!Number.isInteger(form.startTime) || form.startTime <= now) errors.push('开始时间必须晚于当前时间');
+      if (!Number.isInteger(form.endTime) || form.endTime <= form.startTime) errors.push('结束时间必须晚于开始时间');
+      break;
+    case 'funding':
+      if (!ethers.isAddress(form.fundingWallet.trim())) errors.push('资金钱包地址无效');
+      else if (form.fundingWallet.trim() === ethers.ZeroAddress) errors.push('资金钱包地址不能为零地址');
+      break;
+    case 'price': {
+      const price = safeParseEther(form.tokenPrice);
+      if (price === null) errors.push('代币价格格式无效');
+      else if (price <= 0n) errors.push('代币价格必须大于0');
+      break;
+    }
+    case 'vesting': {
+      if (!form.vestingEnabled) break;
+      const cliffDays = parseDays(form.cliffDays);
+      const vestingDays = parseDays(form.vestingDays);
+      const percent = Number(form.immediateReleasePercent);
+      if (cliffDays === null) errors.push('悬崖期无效');
+      if (vestingDays === null || vestingDays <= 0) errors.push('释放期必须大于0');
+      if (form.immediateReleasePercent.trim() === '' || Number.isNaN(percent) || percent < 0 || percent > 100) {
+        errors.push('立即释放比例必须在 0-100% 之间');
+      }
+      break;
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * 将表单转换为合约参数；无法解析的数值按 0 处理，交由校验报错
+ */
+export const buildCrowdsaleParams = (form: CrowdsaleWizardForm): CrowdsaleParams => ({
+  tokenName: form.tokenName.trim(),
+  tokenSymbol: form.tokenSymbol.trim(),
+  totalSupply: safeParseEther(form.totalSupply) ?? 0n,
+  softCap: safeParseEther(form.softCap) ?? 0n,
+  hardCap: safeParseEther(form.hardCap) ?? 0n,
+  startTime: BigInt(Math.max(Math.floor(form.startTime) || 0, 0)),
+  endTime: BigInt(Math.max(Math.floor(form.endTime) || 0, 0)),
+  fundingWallet: ethers.isAddress(form.fundingWallet.trim()) ? form.fundingWallet.trim() : ethers.ZeroAddress,
+  tokenPrice: safeParseEther(form.tokenPrice) ?? 0n,
+  vestingParams: {
+    enabled: form.vestingEnabled,
+    cliffDuration: BigInt(Math.round((parseDays(form.cliffDays) ?? 0) * DAY)),
+    vestingDuration: BigInt(Math.round((parseDays(form.vestingDays) ?? 0) * DAY)),
+    vestingType: form.vestingType,
+    // 合约使用基点 (10000 = 100%)
+    immediateReleasePercentage: BigInt(Math.round((Number(form.immediateReleasePercent) || 0) * 100)),
+  },
+});
+
+/**
+ * 把 validateCrowdsaleParams 的结果归属到步骤。
+ * 合约只返回第一个错误，且检查顺序与 WIZARD_STEPS 一致，
+ * 所以错误落在当前步骤之后时，说明当前及之前的步骤都已通过
+ */
+export const resolveContractError = (
+  errorMessage: string,
+  currentStep: number
+): { step: number; message: string } | null => {
+  if (!errorMessage) return null;
+
+  const known = CONTRACT_ERRORS[errorMessage];
+  if (!known) return { step: currentStep, message: errorMessage };
+
+  const step = WIZARD_STEPS.findIndex(item => item.id === known.step);
+  return step <= currentStep ? { step, message: known.message } : null;
+};
+
+const getStorage = (): Storage | null =>
+  typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
+
+export const loadDrafts = (storage = getStorage()): CrowdsaleDraft[] => {
+  if (!storage) return [];
+  try {
+    const drafts = JSON.parse(storage.getItem(DRAFTS_STORAGE_KEY) || '[]');
+    return Array.isArray(drafts) ? drafts : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * 保存草稿，同 id 覆盖，按保存时间倒序排列
+ */
+export const saveDraft = (
+  draft: Omit<CrowdsaleDraft, 'savedAt'>,
+  storage = getStorage(),
+  savedAt = Date.now()
+): CrowdsaleDraft[] => {
+  const drafts = [
+    { ...draft, savedAt },
+    ...loadDrafts(storage).filter(item => item.id !== draft.id),
+  ];
+  storage?.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(drafts));
+  return drafts;
+};
+
+export const deleteDraft = (id: string, storage = getStorage()): CrowdsaleDraft[] => {
+  const drafts = loadDrafts(storage).filter(item => item.id !== id);
+  storage?.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(drafts));
+  return drafts;
+};
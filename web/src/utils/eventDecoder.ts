@@ -0,0 +1,255 @@
+import { ethers } from 'ethers';
+import { CONTRACT_ABIS } from './contracts';
+import {
+  Transaction,
+  TransactionType,
+  TransactionStatus,
+  TokenPurchaseTransaction,
+  RefundTransaction,
+  TokenReleaseTransaction,
+  WhitelistTransaction,
+  PhaseChangeTransaction,
+  ConfigUpdateTransaction,
+  EmergencyActionTransaction,
+  VestingCreateTransaction,
+  DepositTransaction
+} from '../types/transactionTypes';
+
+// 交易历史中解析事件的合约
+export const DECODABLE_CONTRACTS = ['TokenCrowdsale', 'RefundVault', 'TokenVesting', 'WhitelistManager'] as const;
+export type DecodableContract = typeof DECODABLE_CONTRACTS[number];
+
+// 从生成的 ABI 推导事件名，映射表中的拼写错误会在编译期报错
+type AbiEventName<C extends keyof typeof CONTRACT_ABIS> =
+  Extract<(typeof CONTRACT_ABIS)[C][number], { type: 'event' }>['name'];
+
+export interface RawLog {
+  address: string;
+  topics: readonly string[];
+  data: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface LogMetadata {
+  timestamp: number; // 区块头时间戳
+  sender: string; // 交易发起人
+  status?: TransactionStatus;
+  gasUsed?: string;
+  gasPrice?: string;
+}
+
+export interface DecodedEvent {
+  contract: DecodableContract;
+  eventName: string;
+  args: ethers.Result;
+}
+
+interface MapperContext extends LogMetadata {
+  log: RawLog;
+}
+
+type EventMapper = (args: ethers.Result, context: MapperContext) => Transaction;
+
+const baseTransaction = ({ log, timestamp, status, gasUsed, gasPrice }: MapperContext) => ({
+  id: `${log.transactionHash}-${log.logIndex}`,
+  hash: log.transactionHash,
+  status: status ?? TransactionStatus.SUCCESS,
+  timestamp,
+  blockNumber: log.blockNumber,
+  gasUsed,
+  gasPrice,
+});
+
+const EVENT_MAPPERS: { [C in DecodableContract]: Partial<Record<AbiEventName<C>, EventMapper>> } = {
+  TokenCrowdsale: {
+    TokensPurchased: (args, context): TokenPurchaseTransaction => ({
+      ...baseTransaction(context),
+      type: TransactionType.TOKEN_PURCHASE,
+      from: args.buyer,
+      to: context.log.address,
+      value: args.weiAmount.toString(),
+      buyer: args.buyer,
+      weiAmount: args.weiAmount.toString(),
+      tokenAmount: args.tokenAmount.toString(),
+    }),
+    PhaseChanged: (args, context): PhaseChangeTransaction => ({
+      ...baseTransaction(context),
+      type: TransactionType.PHASE_CHANGE,
+      from: args.changedBy,
+      to: context.log.address,
+      previousPhase: args.previousPhase.toString(),
+      newPhase: args.newPhase.toString(),
+      changedBy: args.changedBy,
+    }),
+    ConfigUpdated: (args, context): ConfigUpdateTransaction => ({
+      ...baseTransaction(context),
+      type: TransactionType.CONFIG_UPDATE,
+      from: args.updatedBy,
+      to: context.log.address,
+      updatedBy: args.updatedBy,
+      configType: 'crowdsale_config',
+      values: {
+        presaleStartTime: args.config.presaleStartTime.toString(),
+        presaleEndTime: args.config.presaleEndTime.toString(),
+        publicSaleStartTime: args.config.publicSaleStartTime.toString(),
+        publicSaleEndTime: args.config.publicSaleEndTime.toString(),
+        softCap: args.config.softCap.toString(),
+        hardCap: args.config.hardCap.toString(),
+        minPurchase: args.config.minPurchase.toString(),
+        maxPurchase: args.config.maxPurchase.toString(),
+      },
+    }),
+    FundingWalletUpdated: (args, context): ConfigUpdateTransaction => ({
+      ...baseTransaction(context),
+      type: TransactionType.CONFIG_UPDATE,
+      from: args.updatedBy,
+      to: context.log.address,
+      updatedBy: args.updatedBy,
+      configType: 'funding_wallet',
+      values: {
+        previousFundingWallet: args.oldWallet,
+        fundingWallet: args.newWallet,
+      },
+    }),
+    VestingConfigUpdated: (args, context): ConfigUpdateTransaction => ({
+      ...baseTransaction(context),
+      type: TransactionType.CONFIG_UPDATE,
+      from: args.updatedBy,
+      to: context.log.address,
+      updatedBy: args.updatedBy,
+      configType: 'vesting_config',
+      values: {
+        vestingEnabled: String(args.enabled),
+        cliffDuration: args.cliffDuration.toString(),
+        vestingDuration: args.vestingDuration.toString(),
+      },
+    }),
+    EmergencyAction: (args, context): EmergencyActionTransaction => ({
+      ...baseTransaction(context),
+      type: TransactionType.EMERGENCY_ACTION,
+      from: args.executor,
+      to: context.log.address,
+      action: args.action,
+      executor: args.executor,
+      reason: args.reason,
+    }),
+  },
+  RefundVault: {
+    Deposited: (args, context): DepositTransaction => ({
+      ...baseTransaction(context),
+      type: TransactionType.DEPOSIT,
+      from: args.depositor,
+      to: context.log.address,
+      value: args.amount.toString(),
+      depositor: args.depositor,
+      amount: args.amount.toString(),
+    }),
+    Refunded: (args, context): RefundTransaction => ({
+      ...baseTransaction(context),
+      type: TransactionType.REFUND,
+      from: context.log.address,
+      to: args.depositor,
+      value: args.amount.toString(),
+      depositor: args.depositor,
+      amount: args.amount.toString(),
+    }),
+    // 退款转账失败时交易本身成功，但退款未到账
+    RefundFailed: (args, context): RefundTransaction => ({
+      ...baseTransaction(context),
+      type: TransactionType.REFUND,
+      status: TransactionStatus.FAILED,
+      from: context.log.address,
+      to: args.depositor,
+      depositor: args.depositor,
+      amount: args.amount.toString(),
+      reason: args.reason,
+    }),
+  },
+  TokenVesting: {
+    VestingScheduleCreated: (args, context): VestingCreateTransaction => ({
+      ...baseTransaction(context),
+      type: TransactionType.VESTING_CREATE,
+      from: context.sender,
+      to: context.log.address,
+      beneficiary: args.beneficiary,
+      scheduleId: args.scheduleId.toString(),
+      totalAmount: args.totalAmount.toString(),
+      vestingType: args.vestingType.toString(),
+    }),
+    TokensReleased: (args, context): TokenReleaseTransaction => ({
+      ...baseTransaction(context),
+      type: TransactionType.TOKEN_RELEASE,
+      from: context.log.address,
+      to: args.beneficiary,
+      beneficiary: args.beneficiary,
+      scheduleId: args.scheduleId.toString(),
+      amount: args.amount.toString(),
+    }),
+  },
+  WhitelistManager: {
+    WhitelistAdded: (args, context): WhitelistTransaction => ({
+      ...baseTransaction(context),
+      type: TransactionType.WHITELIST_ADD,
+      from: args.addedBy,
+      to: context.log.address,
+      user: args.user,
+      level: args.level.toString(),
+      addedBy: args.addedBy,
+    }),
+    WhitelistRemoved: (args, context): WhitelistTransaction => ({
+      ...baseTransaction(context),
+      type: TransactionType.WHITELIST_REMOVE,
+      from: args.removedBy,
+      to: context.log.address,
+      user: args.user,
+      level: args.previousLevel.toString(),
+      addedBy: args.removedBy,
+    }),
+  },
+};
+
+const interfaces = new Map<DecodableContract, ethers.Interface>();
+
+export const getEventInterface = (contract: DecodableContract): ethers.Interface => {
+  let iface = interfaces.get(contract);
+  if (!iface) {
+    iface = new ethers.Interface(CONTRACT_ABIS[contract]);
+    interfaces.set(contract, iface);
+  }
+  return iface;
+};
+
+// 返回有对应交易类型的事件 topic，用于过滤日志
+export const getMappedEventTopics = (contract: DecodableContract): string[] => {
+  const iface = getEventInterface(contract);
+  return Object.keys(EVENT_MAPPERS[contract])
+    .map(name => iface.getEvent(name)?.topicHash)
+    .filter((topic): topic is string => Boolean(topic));
+};
+
+export const decodeEvent = (contract: DecodableContract, log: Pick<RawLog, 'topics' | 'data'>): DecodedEvent | null => {
+  try {
+    const parsed = getEventInterface(contract).parseLog({ topics: [...log.topics], data: log.data });
+    return parsed ? { contract, eventName: parsed.name, args: parsed.args } : null;
+  } catch {
+    // ABI 中未声明的事件或 indexed 参数不匹配
+    return null;
+  }
+};
+
+/**
+ * 将合约日志解码为交易记录，不支持的事件返回 null
+ */
+export const decodeLogToTransaction = (
+  contract: DecodableContract,
+  log: RawLog,
+  metadata: LogMetadata
+): Transaction | null => {
+  const decoded = decodeEvent(contract, log);
+  if (!decoded) return null;
+
+  const mapper = (EVENT_MAPPERS[contract] as Record<string, EventMapper | undefined>)[decoded.eventName];
+  return mapper ? mapper(decoded.args, { ...metadata, log }) : null;
+};
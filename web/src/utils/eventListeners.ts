@@ -1,634 +1,195 @@
 import { ethers } from 'ethers';
-import { getContractAddress, getContractABI } from './contracts';
-import { 
-  Transaction, 
-  TransactionType, 
-  TransactionStatus,
-  TokenPurchaseTransaction,
-  RefundTransaction,
-  TokenReleaseTransaction,
-  WhitelistTransaction,
-  PhaseChangeTransaction,
-  EmergencyActionTransaction,
-  VestingCreateTransaction,
-  DepositTransaction
-} from '../types/transactionTypes';
+import { APP_CONFIG, SUPPORTED_NETWORKS } from './constants';
+import { EventSyncer } from './eventSync';
+import { EventStore, StoredLog } from './eventStore';
+import { DecodableContract, decodeLogToTransaction, getMappedEventTopics } from './eventDecoder';
+import { CrowdsaleSource, discoverCrowdsales } from './crowdsaleDiscovery';
+import { Transaction, TransactionStatus } from '../types/transactionTypes';
+
+interface EventCallback {
+  (transactions: Transaction[]): void;
+}
+
+interface IndexedContract {
+  name: DecodableContract;
+  address: string;
+  topics: Set<string>;
+  crowdsale: CrowdsaleSource;
+}
 
+export interface TransactionEventListenerOptions {
+  provider?: ethers.Provider;
+  store?: EventStore;
+  creator?: string; // 当前钱包地址，用于包含其创建的已停用众筹
+}
+
+// 每个众筹需要索引的合约
+const getSourceContracts = (source: CrowdsaleSource): Array<[DecodableContract, string | null]> => [
+  ['TokenCrowdsale', source.crowdsaleAddress],
+  ['RefundVault', source.vaultAddress],
+  ['TokenVesting', source.vestingAddress],
+  ['WhitelistManager', source.whitelistAddress],
+];
+
+/**
+ * 交易历史事件监听：发现工厂部署的全部众筹，基于本地日志索引增量同步，并统一通过 eventDecoder 解码
+ */
 export class TransactionEventListener {
-  private provider: ethers.Provider | null = null;
-  private contracts: Map<string, ethers.Contract> = new Map();
-  private listeners: Map<string, (...args: any[]) => void> = new Map();
+  private provider: ethers.Provider | null;
+  private store?: EventStore;
+  private creator?: string;
+  private syncer: EventSyncer | null = null;
+  private crowdsales: CrowdsaleSource[] = [];
+  private contracts: IndexedContract[] = [];
+  private blockListener: ((blockNumber: number) => void) | null = null;
+  private lastDeliveredBlock = 0;
+  private syncing = false;
+
+  constructor(options: TransactionEventListenerOptions = {}) {
+    this.provider = options.provider ?? null;
+    this.store = options.store;
+    this.creator = options.creator;
+  }
 
   async initialize() {
-    this.provider = await getProvider();
     if (!this.provider) {
-      throw new Error('Provider not available');
+      this.provider = new ethers.JsonRpcProvider(SUPPORTED_NETWORKS[APP_CONFIG.DEFAULT_NETWORK_ID].rpcUrls[0]);
     }
-
-    // 初始化合约实例
-    await this.initializeContracts();
-  }
-
-  private async initializeContracts() {
-    const contractConfigs = [
-      { name: 'TokenCrowdsale', key: 'TOKENCROWDSALE' },
-      { name: 'RefundVault', key: 'REFUNDVAULT' },
-      { name: 'TokenVesting', key: 'TOKENVESTING' },
-      { name: 'WhitelistManager', key: 'WHITELISTMANAGER' }
-    ];
-
-    for (const config of contractConfigs) {
-      const address = getContractAddress(config.key);
-      if (address) {
-        try {
-          const abi = getContractABI(config.name);
-          const contract = new ethers.Contract(address, abi, this.provider!);
-          this.contracts.set(config.name, contract);
-        } catch (error) {
-          console.warn(`Failed to initialize ${config.name} contract:`, error);
-        }
+    this.syncer = new EventSyncer(this.provider, this.store);
+    await this.discoverContracts();
+  }
+
+  // 重新发现众筹，新创建的众筹在下次刷新时加入索引
+  private async discoverContracts() {
+    this.crowdsales = await discoverCrowdsales(this.provider!, this.syncer!, { creator: this.creator });
+
+    // 同一合约地址只索引一次（例如多个众筹共用的白名单），归属于先发现的众筹
+    const seen = new Set<string>();
+    this.contracts = [];
+    for (const crowdsale of this.crowdsales) {
+      for (const [name, address] of getSourceContracts(crowdsale)) {
+        if (!address || seen.has(address.toLowerCase())) continue;
+        seen.add(address.toLowerCase());
+        this.contracts.push({ name, address, crowdsale, topics: new Set(getMappedEventTopics(name)) });
       }
     }
   }
 
-  async getHistoricalTransactions(
-    userAddress?: string,
-    fromBlock: number = 0,
-    toBlock: number | string = 'latest'
-  ): Promise<Transaction[]> {
-    const transactions: Transaction[] = [];
-
-    // 获取TokenCrowdsale事件
-    await this.getTokenCrowdsaleEvents(transactions, userAddress, fromBlock, toBlock);
-    
-    // 获取RefundVault事件
-    await this.getRefundVaultEvents(transactions, userAddress, fromBlock, toBlock);
-    
-    // 获取TokenVesting事件
-    await this.getTokenVestingEvents(transactions, userAddress, fromBlock, toBlock);
-    
-    // 获取WhitelistManager事件
-    await this.getWhitelistEvents(transactions, userAddress, fromBlock, toBlock);
-
-    return transactions.sort((a, b) => b.timestamp - a.timestamp);
-  }
-
-  private async getTokenCrowdsaleEvents(
-    transactions: Transaction[],
-    userAddress?: string,
-    fromBlock: number,
-    toBlock: number | string
-  ) {
-    const contract = this.contracts.get('TokenCrowdsale');
-    if (!contract) return;
-
-    try {
-      // TokensPurchased事件
-      const purchaseFilter = contract.filters.TokensPurchased(
-        userAddress ? userAddress : null
-      );
-      const purchaseEvents = await contract.queryFilter(purchaseFilter, fromBlock, toBlock);
-
-      for (const event of purchaseEvents) {
-        try {
-          const receipt = await event.getTransactionReceipt();
-          const tx: TokenPurchaseTransaction = {
-            id: `${event.transactionHash}-${event.logIndex}`,
-            hash: event.transactionHash,
-            type: TransactionType.TOKEN_PURCHASE,
-            status: receipt?.status === 1 ? TransactionStatus.SUCCESS : TransactionStatus.FAILED,
-            timestamp: Number(event.args![3]),
-            blockNumber: event.blockNumber,
-            from: event.args![0],
-            to: contract.target as string,
-            buyer: event.args![0],
-            weiAmount: event.args![1].toString(),
-            tokenAmount: event.args![2].toString(),
-            gasUsed: receipt?.gasUsed.toString(),
-            gasPrice: receipt?.gasPrice?.toString()
-          };
-          transactions.push(tx);
-        } catch (error) {
-          console.warn('Error processing TokensPurchased event:', error);
-        }
-      }
-
-      // PhaseChanged事件
-      const phaseFilter = contract.filters.PhaseChanged();
-      const phaseEvents = await contract.queryFilter(phaseFilter, fromBlock, toBlock);
-
-      for (const event of phaseEvents) {
-        try {
-          const receipt = await event.getTransactionReceipt();
-          const tx: PhaseChangeTransaction = {
-            id: `${event.transactionHash}-${event.logIndex}`,
-            hash: event.transactionHash,
-            type: TransactionType.PHASE_CHANGE,
-            status: receipt?.status === 1 ? TransactionStatus.SUCCESS : TransactionStatus.FAILED,
-            timestamp: Number(event.args![2]),
-            blockNumber: event.blockNumber,
-            from: event.args![3],
-            to: contract.target as string,
-            previousPhase: event.args![0].toString(),
-            newPhase: event.args![1].toString(),
-            changedBy: event.args![3],
-            gasUsed: receipt?.gasUsed.toString(),
-            gasPrice: receipt?.gasPrice?.toString()
-          };
-          transactions.push(tx);
-        } catch (error) {
-          console.warn('Error processing PhaseChanged event:', error);
-        }
-      }
-
-      // EmergencyAction事件
-      const emergencyFilter = contract.filters.EmergencyAction();
-      const emergencyEvents = await contract.queryFilter(emergencyFilter, fromBlock, toBlock);
-
-      for (const event of emergencyEvents) {
-        try {
-          const receipt = await event.getTransactionReceipt();
-          const tx: EmergencyActionTransaction = {
-            id: `${event.transactionHash}-${event.logIndex}`,
-            hash: event.transactionHash,
-            type: TransactionType.EMERGENCY_ACTION,
-            status: receipt?.status === 1 ? TransactionStatus.SUCCESS : TransactionStatus.FAILED,
-            timestamp: Number(event.args![2]),
-            blockNumber: event.blockNumber,
-            from: event.args![1],
-            to: contract.target as string,
-            action: event.args![0],
-            executor: event.args![1],
-            reason: event.args![3],
-            gasUsed: receipt?.gasUsed.toString(),
-            gasPrice: receipt?.gasPrice?.toString()
-          };
-          transactions.push(tx);
-        } catch (error) {
-          console.warn('Error processing EmergencyAction event:', error);
-        }
-      }
-
-    } catch (error) {
-      console.error('Error fetching TokenCrowdsale events:', error);
-    }
+  getCrowdsales(): CrowdsaleSource[] {
+    return this.crowdsales;
   }
 
-  private async getRefundVaultEvents(
-    transactions: Transaction[],
-    userAddress?: string,
-    fromBlock: number,
-    toBlock: number | string
-  ) {
-    const contract = this.contracts.get('RefundVault');
-    if (!contract) return;
-
-    try {
-      // Deposited事件
-      const depositFilter = contract.filters.Deposited(
-        userAddress ? userAddress : null
-      );
-      const depositEvents = await contract.queryFilter(depositFilter, fromBlock, toBlock);
-
-      for (const event of depositEvents) {
-        try {
-          const receipt = await event.getTransactionReceipt();
-          const tx: DepositTransaction = {
-            id: `${event.transactionHash}-${event.logIndex}`,
-            hash: event.transactionHash,
-            type: TransactionType.DEPOSIT,
-            status: receipt?.status === 1 ? TransactionStatus.SUCCESS : TransactionStatus.FAILED,
-            timestamp: Number(event.args![2]),
-            blockNumber: event.blockNumber,
-            from: event.args![0],
-            to: contract.target as string,
-            depositor: event.args![0],
-            amount: event.args![1].toString(),
-            gasUsed: receipt?.gasUsed.toString(),
-            gasPrice: receipt?.gasPrice?.toString()
-          };
-          transactions.push(tx);
-        } catch (error) {
-          console.warn('Error processing Deposited event:', error);
-        }
-      }
-
-      // Refunded事件
-      const refundFilter = contract.filters.Refunded(
-        userAddress ? userAddress : null
-      );
-      const refundEvents = await contract.queryFilter(refundFilter, fromBlock, toBlock);
-
-      for (const event of refundEvents) {
-        try {
-          const receipt = await event.getTransactionReceipt();
-          const tx: RefundTransaction = {
-            id: `${event.transactionHash}-${event.logIndex}`,
-            hash: event.transactionHash,
-            type: TransactionType.REFUND,
-            status: receipt?.status === 1 ? TransactionStatus.SUCCESS : TransactionStatus.FAILED,
-            timestamp: Number(event.args![2]),
-            blockNumber: event.blockNumber,
-            from: contract.target as string,
-            to: event.args![0],
-            depositor: event.args![0],
-            amount: event.args![1].toString(),
-            gasUsed: receipt?.gasUsed.toString(),
-            gasPrice: receipt?.gasPrice?.toString()
-          };
-          transactions.push(tx);
-        } catch (error) {
-          console.warn('Error processing Refunded event:', error);
-        }
-      }
-
-    } catch (error) {
-      console.error('Error fetching RefundVault events:', error);
+  private async ensureInitialized(): Promise<EventSyncer> {
+    if (!this.syncer) {
+      await this.initialize();
     }
-  }
-
-  private async getTokenVestingEvents(
-    transactions: Transaction[],
-    userAddress?: string,
-    fromBlock: number,
-    toBlock: number | string
-  ) {
-    const contract = this.contracts.get('TokenVesting');
-    if (!contract) return;
-
-    try {
-      // VestingScheduleCreated事件
-      const createFilter = contract.filters.VestingScheduleCreated(
-        userAddress ? userAddress : null
-      );
-      const createEvents = await contract.queryFilter(createFilter, fromBlock, toBlock);
-
-      for (const event of createEvents) {
-        try {
-          const receipt = await event.getTransactionReceipt();
-          const tx: VestingCreateTransaction = {
-            id: `${event.transactionHash}-${event.logIndex}`,
-            hash: event.transactionHash,
-            type: TransactionType.VESTING_CREATE,
-            status: receipt?.status === 1 ? TransactionStatus.SUCCESS : TransactionStatus.FAILED,
-            timestamp: Number(event.args![4]),
-            blockNumber: event.blockNumber,
-            from: receipt?.from || '',
-            to: contract.target as string,
-            beneficiary: event.args![0],
-            scheduleId: event.args![1].toString(),
-            totalAmount: event.args![2].toString(),
-            vestingType: event.args![3].toString(),
-            gasUsed: receipt?.gasUsed.toString(),
-            gasPrice: receipt?.gasPrice?.toString()
-          };
-          transactions.push(tx);
-        } catch (error) {
-          console.warn('Error processing VestingScheduleCreated event:', error);
-        }
-      }
-
-      // TokensReleased事件
-      const releaseFilter = contract.filters.TokensReleased(
-        userAddress ? userAddress : null
-      );
-      const releaseEvents = await contract.queryFilter(releaseFilter, fromBlock, toBlock);
-
-      for (const event of releaseEvents) {
-        try {
-          const receipt = await event.getTransactionReceipt();
-          const tx: TokenReleaseTransaction = {
-            id: `${event.transactionHash}-${event.logIndex}`,
-            hash: event.transactionHash,
-            type: TransactionType.TOKEN_RELEASE,
-            status: receipt?.status === 1 ? TransactionStatus.SUCCESS : TransactionStatus.FAILED,
-            timestamp: Number(event.args![3]),
-            blockNumber: event.blockNumber,
-            from: contract.target as string,
-            to: event.args![0],
-            beneficiary: event.args![0],
-            scheduleId: event.args![1].toString(),
-            amount: event.args![2].toString(),
-            gasUsed: receipt?.gasUsed.toString(),
-            gasPrice: receipt?.gasPrice?.toString()
-          };
-          transactions.push(tx);
-        } catch (error) {
-          console.warn('Error processing TokensReleased event:', error);
-        }
-      }
+    return this.syncer!;
+  }
+
+  private async toTransaction(contract: IndexedContract, log: StoredLog): Promise<Transaction | null> {
+    const syncer = await this.ensureInitialized();
+    const [timestamp, receipt] = await Promise.all([
+      syncer.getBlockTimestamp(log.blockNumber),
+      syncer.getReceipt(log.transactionHash),
+    ]);
+
+    const transaction = decodeLogToTransaction(contract.name, log, {
+      timestamp,
+      sender: receipt?.from || '',
+      status: receipt?.status === 0 ? TransactionStatus.FAILED : TransactionStatus.SUCCESS,
+      gasUsed: receipt?.gasUsed,
+      gasPrice: receipt?.gasPrice,
+    });
 
-    } catch (error) {
-      console.error('Error fetching TokenVesting events:', error);
-    }
+    return transaction && {
+      ...transaction,
+      crowdsaleAddress: contract.crowdsale.crowdsaleAddress,
+      tokenSymbol: contract.crowdsale.tokenSymbol || undefined,
+    };
   }
 
-  private async getWhitelistEvents(
-    transactions: Transaction[],
-    userAddress?: string,
-    fromBlock: number,
-    toBlock: number | string
-  ) {
-    const contract = this.contracts.get('WhitelistManager');
-    if (!contract) return;
+  private async readTransactions(fromBlock?: number, toBlock?: number): Promise<Transaction[]> {
+    const syncer = await this.ensureInitialized();
+    const transactions: Transaction[] = [];
 
-    try {
-      // WhitelistAdded事件
-      const addFilter = contract.filters.WhitelistAdded(
-        userAddress ? userAddress : null
-      );
-      const addEvents = await contract.queryFilter(addFilter, fromBlock, toBlock);
+    for (const contract of this.contracts) {
+      const logs = await syncer.getLogs(contract.address, fromBlock, toBlock);
 
-      for (const event of addEvents) {
-        try {
-          const receipt = await event.getTransactionReceipt();
-          const tx: WhitelistTransaction = {
-            id: `${event.transactionHash}-${event.logIndex}`,
-            hash: event.transactionHash,
-            type: TransactionType.WHITELIST_ADD,
-            status: receipt?.status === 1 ? TransactionStatus.SUCCESS : TransactionStatus.FAILED,
-            timestamp: Number(event.args![2]) || Date.now() / 1000,
-            blockNumber: event.blockNumber,
-            from: event.args![3],
-            to: contract.target as string,
-            user: event.args![0],
-            level: event.args![1].toString(),
-            addedBy: event.args![3],
-            gasUsed: receipt?.gasUsed.toString(),
-            gasPrice: receipt?.gasPrice?.toString()
-          };
-          transactions.push(tx);
-        } catch (error) {
-          console.warn('Error processing WhitelistAdded event:', error);
-        }
-      }
-
-      // WhitelistRemoved事件
-      const removeFilter = contract.filters.WhitelistRemoved(
-        userAddress ? userAddress : null
-      );
-      const removeEvents = await contract.queryFilter(removeFilter, fromBlock, toBlock);
+      for (const log of logs) {
+        if (!contract.topics.has(log.topics[0])) continue;
 
-      for (const event of removeEvents) {
         try {
-          const receipt = await event.getTransactionReceipt();
-          const tx: WhitelistTransaction = {
-            id: `${event.transactionHash}-${event.logIndex}`,
-            hash: event.transactionHash,
-            type: TransactionType.WHITELIST_REMOVE,
-            status: receipt?.status === 1 ? TransactionStatus.SUCCESS : TransactionStatus.FAILED,
-            timestamp: Date.now() / 1000, // 使用当前时间，因为事件中没有timestamp
-            blockNumber: event.blockNumber,
-            from: event.args![2],
-            to: contract.target as string,
-            user: event.args![0],
-            level: event.args![1].toString(),
-            addedBy: event.args![2],
-            gasUsed: receipt?.gasUsed.toString(),
-            gasPrice: receipt?.gasPrice?.toString()
-          };
-          transactions.push(tx);
+          const transaction = await this.toTransaction(contract, log);
+          if (transaction) {
+            transactions.push(transaction);
+          }
         } catch (error) {
-          console.warn('Error processing WhitelistRemoved event:', error);
+          console.warn(`Failed to decode ${contract.name} log ${log.id}:`, error);
         }
       }
-
-    } catch (error) {
-      console.error('Error fetching WhitelistManager events:', error);
     }
-  }
-
-  startRealTimeListening(callback: (transaction: Transaction) => void) {
-    // 实现实时事件监听
-    this.contracts.forEach((contract, name) => {
-      const eventNames = this.getContractEventNames(name);
-      
-      eventNames.forEach(eventName => {
-        try {
-          const listener = async (...args: any[]) => {
-            try {
-              const event = args[args.length - 1]; // 最后一个参数是事件对象
-              const transaction = await this.parseEventToTransaction(event, name, eventName);
-              if (transaction) {
-                callback(transaction);
-              }
-            } catch (error) {
-              console.error(`Error parsing real-time event ${eventName} from ${name}:`, error);
-            }
-          };
-
-          contract.on(eventName, listener);
-          this.listeners.set(`${name}-${eventName}`, listener);
-        } catch (error) {
-          console.warn(`Failed to set up listener for ${eventName} on ${name}:`, error);
-        }
-      });
-    });
-  }
 
-  private getContractEventNames(contractName: string): string[] {
-    const eventMap = {
-      'TokenCrowdsale': ['TokensPurchased', 'PhaseChanged', 'EmergencyAction', 'ConfigUpdated'],
-      'RefundVault': ['Deposited', 'Refunded', 'RefundFailed'],
-      'TokenVesting': ['VestingScheduleCreated', 'TokensReleased', 'VestingRevoked'],
-      'WhitelistManager': ['WhitelistAdded', 'WhitelistRemoved', 'BatchWhitelistAdded']
-    };
-    
-    return eventMap[contractName as keyof typeof eventMap] || [];
+    // Most recent first
+    return transactions.sort((a, b) => b.blockNumber - a.blockNumber || b.id.localeCompare(a.id));
   }
 
-  private async parseEventToTransaction(
-    event: ethers.EventLog,
-    contractName: string,
-    eventName: string
-  ): Promise<Transaction | null> {
-    try {
-      const receipt = await event.getTransactionReceipt();
-      const baseTransaction = {
-        id: `${event.transactionHash}-${event.logIndex}`,
-        hash: event.transactionHash,
-        status: receipt?.status === 1 ? TransactionStatus.SUCCESS : TransactionStatus.FAILED,
-        blockNumber: event.blockNumber,
-        gasUsed: receipt?.gasUsed.toString(),
-        gasPrice: receipt?.gasPrice?.toString()
-      };
-
-      // 根据合约和事件名称解析具体的交易类型
-      switch (contractName) {
-        case 'TokenCrowdsale':
-          return this.parseTokenCrowdsaleEvent(event, eventName, baseTransaction);
-        case 'RefundVault':
-          return this.parseRefundVaultEvent(event, eventName, baseTransaction);
-        case 'TokenVesting':
-          return this.parseTokenVestingEvent(event, eventName, baseTransaction);
-        case 'WhitelistManager':
-          return this.parseWhitelistEvent(event, eventName, baseTransaction);
-        default:
-          return null;
-      }
-    } catch (error) {
-      console.error('Error parsing event to transaction:', error);
-      return null;
+  async getHistoricalTransactions(fromBlock?: number, toBlock?: number): Promise<Transaction[]> {
+    const wasInitialized = this.syncer !== null;
+    const syncer = await this.ensureInitialized();
+    if (wasInitialized) {
+      await this.discoverContracts();
     }
-  }
-
-  private parseTokenCrowdsaleEvent(event: ethers.EventLog, eventName: string, base: any): Transaction | null {
-    const contract = this.contracts.get('TokenCrowdsale');
-    if (!contract) return null;
 
-    switch (eventName) {
-      case 'TokensPurchased':
-        return {
-          ...base,
-          type: TransactionType.TOKEN_PURCHASE,
-          timestamp: Number(event.args![3]),
-          from: event.args![0],
-          to: contract.target as string,
-          buyer: event.args![0],
-          weiAmount: event.args![1].toString(),
-          tokenAmount: event.args![2].toString()
-        } as TokenPurchaseTransaction;
+    // 增量同步本地索引，只查询上次同步之后的新区块
+    const results = await syncer.sync(this.contracts.map(contract => contract.address));
+    this.lastDeliveredBlock = Math.max(this.lastDeliveredBlock, ...results.map(result => result.toBlock));
 
-      case 'PhaseChanged':
-        return {
-          ...base,
-          type: TransactionType.PHASE_CHANGE,
-          timestamp: Number(event.args![2]),
-          from: event.args![3],
-          to: contract.target as string,
-          previousPhase: event.args![0].toString(),
-          newPhase: event.args![1].toString(),
-          changedBy: event.args![3]
-        } as PhaseChangeTransaction;
-
-      case 'EmergencyAction':
-        return {
-          ...base,
-          type: TransactionType.EMERGENCY_ACTION,
-          timestamp: Number(event.args![2]),
-          from: event.args![1],
-          to: contract.target as string,
-          action: event.args![0],
-          executor: event.args![1],
-          reason: event.args![3]
-        } as EmergencyActionTransaction;
-
-      default:
-        return null;
-    }
+    return this.readTransactions(fromBlock, toBlock);
   }
 
-  private parseRefundVaultEvent(event: ethers.EventLog, eventName: string, base: any): Transaction | null {
-    const contract = this.contracts.get('RefundVault');
-    if (!contract) return null;
-
-    switch (eventName) {
-      case 'Deposited':
-        return {
-          ...base,
-          type: TransactionType.DEPOSIT,
-          timestamp: Number(event.args![2]),
-          from: event.args![0],
-          to: contract.target as string,
-          depositor: event.args![0],
-          amount: event.args![1].toString()
-        } as DepositTransaction;
+  // 每个新区块触发一次增量同步，只推送上次推送之后的交易
+  startListening(callback: EventCallback) {
+    if (this.blockListener) return;
 
-      case 'Refunded':
-        return {
-          ...base,
-          type: TransactionType.REFUND,
-          timestamp: Number(event.args![2]),
-          from: contract.target as string,
-          to: event.args![0],
-          depositor: event.args![0],
-          amount: event.args![1].toString()
-        } as RefundTransaction;
-
-      default:
-        return null;
-    }
-  }
+    this.blockListener = async () => {
+      if (this.syncing) return;
+      this.syncing = true;
 
-  private parseTokenVestingEvent(event: ethers.EventLog, eventName: string, base: any): Transaction | null {
-    const contract = this.contracts.get('TokenVesting');
-    if (!contract) return null;
+      try {
+        const syncer = await this.ensureInitialized();
+        const results = await syncer.sync(this.contracts.map(contract => contract.address));
+        const headBlock = Math.max(this.lastDeliveredBlock, ...results.map(result => result.toBlock));
 
-    switch (eventName) {
-      case 'VestingScheduleCreated':
-        return {
-          ...base,
-          type: TransactionType.VESTING_CREATE,
-          timestamp: Number(event.args![4]),
-          from: base.from || '',
-          to: contract.target as string,
-          beneficiary: event.args![0],
-          scheduleId: event.args![1].toString(),
-          totalAmount: event.args![2].toString(),
-          vestingType: event.args![3].toString()
-        } as VestingCreateTransaction;
-
-      case 'TokensReleased':
-        return {
-          ...base,
-          type: TransactionType.TOKEN_RELEASE,
-          timestamp: Number(event.args![3]),
-          from: contract.target as string,
-          to: event.args![0],
-          beneficiary: event.args![0],
-          scheduleId: event.args![1].toString(),
-          amount: event.args![2].toString()
-        } as TokenReleaseTransaction;
-
-      default:
-        return null;
-    }
-  }
-
-  private parseWhitelistEvent(event: ethers.EventLog, eventName: string, base: any): Transaction | null {
-    const contract = this.contracts.get('WhitelistManager');
-    if (!contract) return null;
-
-    switch (eventName) {
-      case 'WhitelistAdded':
-        return {
-          ...base,
-          type: TransactionType.WHITELIST_ADD,
-          timestamp: Number(event.args![2]) || Date.now() / 1000,
-          from: event.args![3],
-          to: contract.target as string,
-          user: event.args![0],
-          level: event.args![1].toString(),
-          addedBy: event.args![3]
-        } as WhitelistTransaction;
-
-      case 'WhitelistRemoved':
-        return {
-          ...base,
-          type: TransactionType.WHITELIST_REMOVE,
-          timestamp: Date.now() / 1000,
-          from: event.args![2],
-          to: contract.target as string,
-          user: event.args![0],
-          level: event.args![1].toString(),
-          addedBy: event.args![2]
-        } as WhitelistTransaction;
+        if (headBlock > this.lastDeliveredBlock) {
+          const transactions = await this.readTransactions(this.lastDeliveredBlock + 1, headBlock);
+          this.lastDeliveredBlock = headBlock;
+          if (transactions.length > 0) {
+            callback(transactions);
+          }
+        }
+      } catch (error) {
+        console.error('Failed to sync new transactions:', error);
+      } finally {
+        this.syncing = false;
+      }
+    };
 
-      default:
-        return null;
-    }
+    this.ensureInitialized()
+      .then(() => this.provider!.on('block', this.blockListener!))
+      .catch(error => console.error('Failed to start event listening:', error));
   }
 
   stopListening() {
-    this.contracts.forEach((contract, name) => {
-      contract.removeAllListeners();
-    });
-    this.listeners.clear();
+    if (this.provider && this.blockListener) {
+      this.provider.off('block', this.blockListener);
+    }
+    this.blockListener = null;
   }
 
   destroy() {
     this.stopListening();
-    this.contracts.clear();
-    this.provider = null;
+    this.contracts = [];
+    this.crowdsales = [];
+    this.syncer = null;
   }
 }
@@ -0,0 +1,282 @@
+// 本地事件索引：按链、合约地址与区块范围持久化原始日志，避免每次加载都从创世区块重新查询
+
+export interface StoredLog {
+  id: string; // chainId:address:blockNumber:logIndex
+  chainId: number;
+  address: string; // lowercase
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  topics: string[];
+  data: string;
+}
+
+export interface StoredBlock {
+  id: string; // chainId:blockNumber
+  chainId: number;
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+export interface StoredReceipt {
+  id: string; // chainId:transactionHash
+  chainId: number;
+  hash: string;
+  from: string;
+  status: number;
+  gasUsed: string;
+  gasPrice: string;
+}
+
+export interface SyncCursor {
+  id: string; // chainId:address
+  chainId: number;
+  address: string;
+  fromBlock: number; // 索引起始区块
+  lastIndexedBlock: number; // 已完整索引的最高区块
+  lastIndexedHash?: string; // lastIndexedBlock 的区块哈希，用于恢复同步时检测重组
+  updatedAt: number;
+}
+
+export interface EventStore {
+  getCursor(chainId: number, address: string): Promise<SyncCursor | null>;
+  putCursor(cursor: SyncCursor): Promise<void>;
+  putLogs(logs: StoredLog[]): Promise<void>;
+  getLogs(chainId: number, address: string, fromBlock?: number, toBlock?: number): Promise<StoredLog[]>;
+  deleteLogs(chainId: number, address: string, fromBlock: number): Promise<void>;
+  getBlock(chainId: number, blockNumber: number): Promise<StoredBlock | null>;
+  putBlock(block: StoredBlock): Promise<void>;
+  deleteBlocks(chainId: number, fromBlock: number): Promise<void>;
+  getReceipt(chainId: number, hash: string): Promise<StoredReceipt | null>;
+  putReceipt(receipt: StoredReceipt): Promise<void>;
+  deleteReceipts(chainId: number, hashes: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const DB_NAME = 'crowdsale-event-index';
+const DB_VERSION = 1;
+const MAX_BLOCK = Number.MAX_SAFE_INTEGER;
+
+export const getLogId = (chainId: number, address: string, blockNumber: number, logIndex: number) =>
+  `${chainId}:${address.toLowerCase()}:${blockNumber}:${logIndex}`;
+
+export const getCursorId = (chainId: number, address: string) => `${chainId}:${address.toLowerCase()}`;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export class IndexedDBEventStore implements EventStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private getDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          const logs = db.createObjectStore('logs', { keyPath: 'id' });
+          logs.createIndex('byContractBlock', ['chainId', 'address', 'blockNumber']);
+          logs.createIndex('byChainBlock', ['chainId', 'blockNumber']);
+          const blocks = db.createObjectStore('blocks', { keyPath: 'id' });
+          blocks.createIndex('byChainBlock', ['chainId', 'number']);
+          db.createObjectStore('receipts', { keyPath: 'id' });
+          db.createObjectStore('cursors', { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async get<T>(storeName: string, key: string): Promise<T | null> {
+    const db = await this.getDB();
+    const result = await requestToPromise(db.transaction(storeName).objectStore(storeName).get(key));
+    return (result as T) ?? null;
+  }
+
+  private async put(storeName: string, values: unknown[]): Promise<void> {
+    if (values.length === 0) return;
+    const db = await this.getDB();
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    values.forEach(value => store.put(value));
+    await transactionDone(transaction);
+  }
+
+  private async deleteRange(storeName: string, indexName: string, range: IDBKeyRange): Promise<void> {
+    const db = await this.getDB();
+    const transaction = db.transaction(storeName, 'readwrite');
+    const request = transaction.objectStore(storeName).index(indexName).openCursor(range);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+    await transactionDone(transaction);
+  }
+
+  getCursor(chainId: number, address: string) {
+    return this.get<SyncCursor>('cursors', getCursorId(chainId, address));
+  }
+
+  putCursor(cursor: SyncCursor) {
+    return this.put('cursors', [cursor]);
+  }
+
+  putLogs(logs: StoredLog[]) {
+    return this.put('logs', logs);
+  }
+
+  async getLogs(chainId: number, address: string, fromBlock = 0, toBlock = MAX_BLOCK): Promise<StoredLog[]> {
+    const db = await this.getDB();
+    const range = IDBKeyRange.bound(
+      [chainId, address.toLowerCase(), fromBlock],
+      [chainId, address.toLowerCase(), toBlock]
+    );
+    const logs = await requestToPromise(
+      db.transaction('logs').objectStore('logs').index('byContractBlock').getAll(range)
+    );
+    return (logs as StoredLog[]).sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  deleteLogs(chainId: number, address: string, fromBlock: number) {
+    return this.deleteRange(
+      'logs',
+      'byContractBlock',
+      IDBKeyRange.bound([chainId, address.toLowerCase(), fromBlock], [chainId, address.toLowerCase(), MAX_BLOCK])
+    );
+  }
+
+  getBlock(chainId: number, blockNumber: number) {
+    return this.get<StoredBlock>('blocks', `${chainId}:${blockNumber}`);
+  }
+
+  putBlock(block: StoredBlock) {
+    return this.put('blocks', [block]);
+  }
+
+  deleteBlocks(chainId: number, fromBlock: number) {
+    return this.deleteRange('blocks', 'byChainBlock', IDBKeyRange.bound([chainId, fromBlock], [chainId, MAX_BLOCK]));
+  }
+
+  getReceipt(chainId: number, hash: string) {
+    return this.get<StoredReceipt>('receipts', `${chainId}:${hash.toLowerCase()}`);
+  }
+
+  putReceipt(receipt: StoredReceipt) {
+    return this.put('receipts', [receipt]);
+  }
+
+  async deleteReceipts(chainId: number, hashes: string[]): Promise<void> {
+    if (hashes.length === 0) return;
+    const db = await this.getDB();
+    const transaction = db.transaction('receipts', 'readwrite');
+    const store = transaction.objectStore('receipts');
+    hashes.forEach(hash => store.delete(`${chainId}:${hash.toLowerCase()}`));
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.getDB();
+    const storeNames = ['logs', 'blocks', 'receipts', 'cursors'];
+    const transaction = db.transaction(storeNames, 'readwrite');
+    storeNames.forEach(name => transaction.objectStore(name).clear());
+    await transactionDone(transaction);
+  }
+}
+
+// 无 IndexedDB 的环境（测试、隐私模式）下使用内存存储，行为与持久化存储一致
+export class MemoryEventStore implements EventStore {
+  private logs = new Map<string, StoredLog>();
+  private blocks = new Map<string, StoredBlock>();
+  private receipts = new Map<string, StoredReceipt>();
+  private cursors = new Map<string, SyncCursor>();
+
+  async getCursor(chainId: number, address: string) {
+    return this.cursors.get(getCursorId(chainId, address)) ?? null;
+  }
+
+  async putCursor(cursor: SyncCursor) {
+    this.cursors.set(cursor.id, cursor);
+  }
+
+  async putLogs(logs: StoredLog[]) {
+    logs.forEach(log => this.logs.set(log.id, log));
+  }
+
+  async getLogs(chainId: number, address: string, fromBlock = 0, toBlock = MAX_BLOCK) {
+    const normalized = address.toLowerCase();
+    return [...this.logs.values()]
+      .filter(log => log.chainId === chainId && log.address === normalized && log.blockNumber >= fromBlock && log.blockNumber <= toBlock)
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  async deleteLogs(chainId: number, address: string, fromBlock: number) {
+    const normalized = address.toLowerCase();
+    this.logs.forEach((log, id) => {
+      if (log.chainId === chainId && log.address === normalized && log.blockNumber >= fromBlock) {
+        this.logs.delete(id);
+      }
+    });
+  }
+
+  async getBlock(chainId: number, blockNumber: number) {
+    return this.blocks.get(`${chainId}:${blockNumber}`) ?? null;
+  }
+
+  async putBlock(block: StoredBlock) {
+    this.blocks.set(block.id, block);
+  }
+
+  async deleteBlocks(chainId: number, fromBlock: number) {
+    this.blocks.forEach((block, id) => {
+      if (block.chainId === chainId && block.number >= fromBlock) {
+        this.blocks.delete(id);
+      }
+    });
+  }
+
+  async getReceipt(chainId: number, hash: string) {
+    return this.receipts.get(`${chainId}:${hash.toLowerCase()}`) ?? null;
+  }
+
+  async putReceipt(receipt: StoredReceipt) {
+    this.receipts.set(receipt.id, receipt);
+  }
+
+  async deleteReceipts(chainId: number, hashes: string[]) {
+    hashes.forEach(hash => this.receipts.delete(`${chainId}:${hash.toLowerCase()}`));
+  }
+
+  async clear() {
+    this.logs.clear();
+    this.blocks.clear();
+    this.receipts.clear();
+    this.cursors.clear();
+  }
+}
+
+let defaultStore: EventStore | null = null;
+
+export const getEventStore = (): EventStore => {
+  if (!defaultStore) {
+    defaultStore = typeof indexedDB !== 'undefined' ? new IndexedDBEventStore() : new MemoryEventStore();
+  }
+  return defaultStore;
+};
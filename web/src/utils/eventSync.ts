@@ -0,0 +1,239 @@
+import { ethers } from 'ethers';
+import { EVENT_SYNC_CONFIG } from './constants';
+import { EventStore, StoredLog, StoredReceipt, getCursorId, getEventStore, getLogId } from './eventStore';
+
+export interface EventSyncOptions {
+  chunkSize: number; // 单次 eth_getLogs 查询的区块数
+  reorgDepth: number; // 每次同步重新检查的最近区块数
+  startBlock: number; // 首次同步的起始区块（通常为合约部署区块）
+}
+
+export interface EventSyncProgress {
+  address: string;
+  fromBlock: number;
+  toBlock: number;
+  headBlock: number;
+}
+
+export interface EventSyncResult {
+  address: string;
+  fromBlock: number;
+  toBlock: number;
+  logCount: number;
+}
+
+// 节点拒绝过大查询范围时返回的错误，不同节点措辞不同
+const RANGE_ERROR_PATTERN = /range|limit|more than|too many|exceed|timeout/i;
+
+const isRangeError = (error: unknown) =>
+  RANGE_ERROR_PATTERN.test(error instanceof Error ? error.message : String(error));
+
+const toStoredLog = (chainId: number, log: ethers.Log): StoredLog => ({
+  id: getLogId(chainId, log.address, log.blockNumber, log.index),
+  chainId,
+  address: log.address.toLowerCase(),
+  blockNumber: log.blockNumber,
+  blockHash: log.blockHash,
+  transactionHash: log.transactionHash,
+  logIndex: log.index,
+  topics: [...log.topics],
+  data: log.data,
+});
+
+// 进行中的同步，按 chainId:address 排队。多个 EventSyncer 同时同步同一合约时，
+// 一个实例的回退删除可能落在另一个实例的写入之间，串行执行避免丢失日志
+const inFlightSyncs = new Map<string, Promise<unknown>>();
+
+export class EventSyncer {
+  private options: EventSyncOptions;
+  private chainId: number | null = null;
+
+  constructor(
+    private provider: ethers.Provider,
+    private store: EventStore = getEventStore(),
+    options: Partial<EventSyncOptions> = {}
+  ) {
+    this.options = {
+      chunkSize: EVENT_SYNC_CONFIG.CHUNK_SIZE,
+      reorgDepth: EVENT_SYNC_CONFIG.REORG_DEPTH,
+      startBlock: EVENT_SYNC_CONFIG.START_BLOCK,
+      ...options,
+    };
+  }
+
+  async getChainId(): Promise<number> {
+    if (this.chainId === null) {
+      this.chainId = Number((await this.provider.getNetwork()).chainId);
+    }
+    return this.chainId;
+  }
+
+  /**
+   * 增量同步单个合约的日志：从上次索引的区块继续，并重新检查最近 reorgDepth 个区块。
+   * 同一合约已有同步进行中时，等它结束后再开始
+   */
+  async syncContract(
+    address: string,
+    onProgress?: (progress: EventSyncProgress) => void
+  ): Promise<EventSyncResult> {
+    const chainId = await this.getChainId();
+    const key = `${chainId}:${address.toLowerCase()}`;
+
+    const previous = inFlightSyncs.get(key) ?? Promise.resolve();
+    const sync = previous.catch(() => undefined).then(() => this.runSync(chainId, address, onProgress));
+    const settled = sync.catch(() => undefined);
+    inFlightSyncs.set(key, settled);
+    settled.then(() => {
+      if (inFlightSyncs.get(key) === settled) inFlightSyncs.delete(key);
+    });
+
+    return sync;
+  }
+
+  private async runSync(
+    chainId: number,
+    address: string,
+    onProgress?: (progress: EventSyncProgress) => void
+  ): Promise<EventSyncResult> {
+    const headBlock = await this.provider.getBlockNumber();
+    const cursor = await this.store.getCursor(chainId, address);
+    const indexStart = cursor?.fromBlock ?? this.options.startBlock;
+
+    // 最近的区块可能因重组而变化，删除后重新拉取
+    let fromBlock = cursor
+      ? Math.max(indexStart, cursor.lastIndexedBlock - this.options.reorgDepth + 1)
+      : indexStart;
+
+    // 上次索引的最高区块哈希已变化，说明重组深度超过了 reorgDepth，回退到仍在主链上的区块
+    if (cursor?.lastIndexedHash) {
+      const lastBlock = await this.provider.getBlock(cursor.lastIndexedBlock);
+      if (lastBlock?.hash !== cursor.lastIndexedHash) {
+        fromBlock = Math.min(fromBlock, await this.findReorgStart(chainId, address, indexStart, cursor.lastIndexedBlock));
+      }
+    }
+
+    if (cursor && fromBlock <= cursor.lastIndexedBlock) {
+      // 被回退区块中交易的回执也可能已失效
+      const staleLogs = await this.store.getLogs(chainId, address, fromBlock);
+      await this.store.deleteReceipts(chainId, [...new Set(staleLogs.map(log => log.transactionHash))]);
+      await this.store.deleteLogs(chainId, address, fromBlock);
+      await this.store.deleteBlocks(chainId, fromBlock);
+    }
+
+    let logCount = 0;
+    let chunkSize = Math.max(1, this.options.chunkSize);
+    let from = fromBlock;
+
+    while (from <= headBlock) {
+      const to = Math.min(from + chunkSize - 1, headBlock);
+
+      let logs: ethers.Log[];
+      try {
+        logs = await this.provider.getLogs({ address, fromBlock: from, toBlock: to });
+      } catch (error) {
+        // 范围过大时减半重试
+        if (chunkSize > 1 && isRangeError(error)) {
+          chunkSize = Math.max(1, Math.floor(chunkSize / 2));
+          continue;
+        }
+        throw error;
+      }
+
+      const lastBlock = await this.provider.getBlock(to);
+
+      await this.store.putLogs(logs.map(log => toStoredLog(chainId, log)));
+      await this.store.putCursor({
+        id: getCursorId(chainId, address),
+        chainId,
+        address: address.toLowerCase(),
+        fromBlock: indexStart,
+        lastIndexedBlock: to,
+        lastIndexedHash: lastBlock?.hash || undefined,
+        updatedAt: Date.now(),
+      });
+
+      logCount += logs.length;
+      onProgress?.({ address, fromBlock: from, toBlock: to, headBlock });
+      from = to + 1;
+    }
+
+    return { address, fromBlock, toBlock: headBlock, logCount };
+  }
+
+  // 从最新的已索引日志向前比对区块哈希，返回最后一个仍在主链上的日志区块的下一个区块
+  private async findReorgStart(chainId: number, address: string, indexStart: number, lastIndexedBlock: number): Promise<number> {
+    const logs = await this.store.getLogs(chainId, address, indexStart, lastIndexedBlock);
+    const checked = new Set<number>();
+
+    for (let i = logs.length - 1; i >= 0; i--) {
+      const log = logs[i];
+      if (checked.has(log.blockNumber)) continue;
+      checked.add(log.blockNumber);
+
+      const block = await this.provider.getBlock(log.blockNumber);
+      if (block?.hash === log.blockHash) {
+        return log.blockNumber + 1;
+      }
+    }
+
+    return indexStart;
+  }
+
+  // 逐个同步，避免对节点并发发起大量查询
+  async sync(
+    addresses: string[],
+    onProgress?: (progress: EventSyncProgress) => void
+  ): Promise<EventSyncResult[]> {
+    const results: EventSyncResult[] = [];
+    for (const address of addresses) {
+      results.push(await this.syncContract(address, onProgress));
+    }
+    return results;
+  }
+
+  async getLogs(address: string, fromBlock?: number, toBlock?: number): Promise<StoredLog[]> {
+    return this.store.getLogs(await this.getChainId(), address, fromBlock, toBlock);
+  }
+
+  // 区块时间戳来自区块头，并缓存到本地索引
+  async getBlockTimestamp(blockNumber: number): Promise<number> {
+    const chainId = await this.getChainId();
+    const cached = await this.store.getBlock(chainId, blockNumber);
+    if (cached) return cached.timestamp;
+
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+
+    await this.store.putBlock({
+      id: `${chainId}:${blockNumber}`,
+      chainId,
+      number: blockNumber,
+      hash: block.hash || '',
+      timestamp: block.timestamp,
+    });
+    return block.timestamp;
+  }
+
+  async getReceipt(transactionHash: string): Promise<StoredReceipt | null> {
+    const chainId = await this.getChainId();
+    const cached = await this.store.getReceipt(chainId, transactionHash);
+    if (cached) return cached;
+
+    const receipt = await this.provider.getTransactionReceipt(transactionHash);
+    if (!receipt) return null;
+
+    const stored: StoredReceipt = {
+      id: `${chainId}:${transactionHash.toLowerCase()}`,
+      chainId,
+      hash: transactionHash,
+      from: receipt.from,
+      status: receipt.status ?? 0,
+      gasUsed: receipt.gasUsed.toString(),
+      gasPrice: receipt.gasPrice.toString(),
+    };
+    await this.store.putReceipt(stored);
+    return stored;
+  }
+}
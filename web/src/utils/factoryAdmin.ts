@@ -0,0 +1,62 @@
+import { ethers } from 'ethers';
+import { CONTRACT_ABIS } from './contracts';
+
+export const FACTORY_ROLES = {
+  DEFAULT_ADMIN: ethers.ZeroHash,
+  FACTORY_ADMIN: ethers.keccak256(ethers.toUtf8Bytes('FACTORY_ADMIN_ROLE')),
+  FACTORY_OPERATOR: ethers.keccak256(ethers.toUtf8Bytes('FACTORY_OPERATOR_ROLE')),
+} as const;
+
+export type FactoryFeeEvent =
+  | {
+      type: 'feeUpdated';
+      blockNumber: number;
+      logIndex: number;
+      txHash: string;
+      oldFee: bigint;
+      newFee: bigint;
+    }
+  | {
+      type: 'feesWithdrawn';
+      blockNumber: number;
+      logIndex: number;
+      txHash: string;
+      recipient: string;
+      amount: bigint;
+    };
+
+// 完整版与精简版工厂的 CreationFeeUpdated / FeesWithdrawn 事件签名一致
+const feeEventsInterface = new ethers.Interface(CONTRACT_ABIS.CrowdsaleFactory);
+
+export const FACTORY_FEE_TOPICS = [
+  feeEventsInterface.getEvent('CreationFeeUpdated')!.topicHash,
+  feeEventsInterface.getEvent('FeesWithdrawn')!.topicHash,
+];
+
+interface FeeLog {
+  topics: readonly string[];
+  data: string;
+  blockNumber: number;
+  index: number;
+  transactionHash: string;
+}
+
+export const parseFactoryFeeLog = (log: FeeLog): FactoryFeeEvent | null => {
+  if (!FACTORY_FEE_TOPICS.includes(log.topics[0])) return null;
+
+  const parsed = feeEventsInterface.parseLog({ topics: [...log.topics], data: log.data });
+  if (!parsed) return null;
+
+  const base = { blockNumber: log.blockNumber, logIndex: log.index, txHash: log.transactionHash };
+  if (parsed.name === 'CreationFeeUpdated') {
+    return { ...base, type: 'feeUpdated', oldFee: parsed.args.oldFee, newFee: parsed.args.newFee };
+  }
+  return { ...base, type: 'feesWithdrawn', recipient: parsed.args.recipient, amount: parsed.args.amount };
+};
+
+// 按时间倒序排列，最新的变更在前
+export const parseFactoryFeeHistory = (logs: readonly FeeLog[]): FactoryFeeEvent[] =>
+  logs
+    .map(parseFactoryFeeLog)
+    .filter((event): event is FactoryFeeEvent => event !== null)
+    .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex);
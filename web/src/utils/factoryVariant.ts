@@ -0,0 +1,125 @@
+import { ethers } from 'ethers';
+import { CONTRACT_ABIS } from './contracts';
+
+export type FactoryVariant = 'full' | 'lite';
+
+/**
+ * 工厂部署差异：
+ * - CrowdsaleFactory 部署代币、释放、白名单、众筹和 RefundVault，并把创建参数写入众筹合约
+ * - CrowdsaleFactoryLite 只部署代币、白名单和众筹，不部署 RefundVault，代币铸造给创建者，
+ *   软硬顶、时间和价格沿用 TokenCrowdsale 的默认值，启用释放时因工厂没有众筹管理员权限而回滚
+ */
+export interface FactoryCapabilities {
+  refunds: boolean; // 未达软顶时可从 RefundVault 退款
+  whitelist: boolean; // 每个众筹部署独立的 WhitelistManager
+  vestingAtCreation: boolean; // 创建时配置释放合约
+  saleConfigAtCreation: boolean; // 创建时应用软硬顶、时间和价格
+  tokensFundedAtCreation: boolean; // 代币在创建时转入众筹合约
+  pausable: boolean; // pause / unpause
+  emergencyStop: boolean; // emergencyStopCrowdsale
+  templates: boolean; // getTemplateAddresses
+  deactivateCrowdsale: boolean; // deactivateCrowdsale
+}
+
+export const FACTORY_CAPABILITIES: Record<FactoryVariant, FactoryCapabilities> = {
+  full: {
+    refunds: true,
+    whitelist: true,
+    vestingAtCreation: true,
+    saleConfigAtCreation: true,
+    tokensFundedAtCreation: true,
+    pausable: true,
+    emergencyStop: true,
+    templates: true,
+    deactivateCrowdsale: false,
+  },
+  lite: {
+    refunds: false,
+    whitelist: true,
+    vestingAtCreation: false,
+    saleConfigAtCreation: false,
+    tokensFundedAtCreation: false,
+    pausable: false,
+    emergencyStop: false,
+    templates: false,
+    deactivateCrowdsale: true,
+  },
+};
+
+export const FACTORY_VARIANT_LABELS: Record<FactoryVariant, string> = {
+  full: '完整版工厂',
+  lite: '精简版工厂',
+};
+
+// 只存在于某一版本的函数，用于从字节码识别工厂版本
+const VARIANT_SELECTORS: Record<FactoryVariant, string> = {
+  full: ethers.id('getTemplateAddresses()').slice(2, 10),
+  lite: ethers.id('togglePublicCreation()').slice(2, 10),
+};
+
+// 早期部署的完整版工厂只有 emergencyStopCrowdsale(address)，链上原因固定为 "Factory emergency pause"
+const EMERGENCY_STOP_REASON_SELECTOR = ethers.id('emergencyStopCrowdsale(address,string)').slice(2, 10);
+
+/**
+ * 工厂字节码中是否包含带原因的紧急停止重载
+ */
+export const supportsEmergencyStopReason = (code: string): boolean =>
+  code.toLowerCase().includes(EMERGENCY_STOP_REASON_SELECTOR);
+
+// Lite ABI 同时包含接口声明的 CrowdsaleCreated 和 Lite 自己的重载，两种事件都能解码
+const factoryEventsInterface = new ethers.Interface(CONTRACT_ABIS.CrowdsaleFactoryLite);
+
+export const CROWDSALE_CREATED_TOPICS = new Set<string>();
+factoryEventsInterface.forEachEvent(event => {
+  if (event.name === 'CrowdsaleCreated') CROWDSALE_CREATED_TOPICS.add(event.topicHash);
+});
+
+export interface CrowdsaleCreatedEvent {
+  crowdsaleAddress: string;
+  tokenAddress: string;
+  vestingAddress: string | null; // Lite 事件不包含释放合约地址
+  creator: string;
+  tokenName: string;
+  tokenSymbol: string;
+}
+
+export const parseCrowdsaleCreatedLog = (log: { topics: readonly string[]; data: string }): CrowdsaleCreatedEvent | null => {
+  if (!CROWDSALE_CREATED_TOPICS.has(log.topics[0])) return null;
+
+  const parsed = factoryEventsInterface.parseLog({ topics: [...log.topics], data: log.data });
+  if (!parsed) return null;
+
+  const hasVesting = parsed.fragment.inputs.some(input => input.name === 'vestingAddress');
+  const vestingAddress: string | null = hasVesting ? parsed.args.vestingAddress : null;
+  return {
+    crowdsaleAddress: parsed.args.crowdsaleAddress,
+    tokenAddress: parsed.args.tokenAddress,
+    vestingAddress: vestingAddress && vestingAddress !== ethers.ZeroAddress ? vestingAddress : null,
+    creator: parsed.args.creator,
+    tokenName: parsed.args.tokenName,
+    tokenSymbol: parsed.args.tokenSymbol,
+  };
+};
+
+const parseConfiguredVariant = (value: string | undefined): FactoryVariant | null => {
+  const normalized = value?.trim().toLowerCase();
+  return normalized === 'full' || normalized === 'lite' ? normalized : null;
+};
+
+/**
+ * 识别工厂版本：优先使用 VITE_CROWDSALEFACTORY_VARIANT 配置，否则按字节码中的函数选择器判断，
+ * 无法判断时按完整版处理
+ */
+export const detectFactoryVariant = async (
+  provider: ethers.Provider,
+  factoryAddress: string
+): Promise<FactoryVariant> => {
+  const configured = parseConfiguredVariant(import.meta.env.VITE_CROWDSALEFACTORY_VARIANT);
+  if (configured) return configured;
+
+  const code = (await provider.getCode(factoryAddress)).toLowerCase();
+  if (code.includes(VARIANT_SELECTORS.lite) && !code.includes(VARIANT_SELECTORS.full)) {
+    return 'lite';
+  }
+  return 'full';
+};
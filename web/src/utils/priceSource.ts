@@ -0,0 +1,74 @@
+import { PRICE_SOURCE_CONFIG } from './constants';
+
+/**
+ * ETH 法币价格来源，按区块时间戳查询，导出时用于计算法币价值
+ */
+export interface PriceSource {
+  readonly currency: string;
+  getEthPrice(timestamp: number): Promise<number | null>;
+}
+
+// 固定价格，适用于测试网或手动指定的估值
+export class FixedPriceSource implements PriceSource {
+  constructor(private price: number, readonly currency: string = 'USD') {}
+
+  async getEthPrice(): Promise<number | null> {
+    return this.price > 0 ? this.price : null;
+  }
+}
+
+// CoinGecko 历史日价格（UTC 日期），同一天只请求一次
+export class CoinGeckoPriceSource implements PriceSource {
+  private cache = new Map<string, Promise<number | null>>();
+
+  constructor(
+    readonly currency: string = 'USD',
+    private fetchFn: typeof fetch = (...args) => fetch(...args),
+    private baseUrl = 'https://api.coingecko.com/api/v3'
+  ) {}
+
+  getEthPrice(timestamp: number): Promise<number | null> {
+    const date = new Date(timestamp * 1000);
+    const day = `${String(date.getUTCDate()).padStart(2, '0')}-${String(date.getUTCMonth() + 1).padStart(2, '0')}-${date.getUTCFullYear()}`;
+
+    let price = this.cache.get(day);
+    if (!price) {
+      price = this.fetchPrice(day);
+      this.cache.set(day, price);
+    }
+    return price;
+  }
+
+  private async fetchPrice(day: string): Promise<number | null> {
+    try {
+      const response = await this.fetchFn(`${this.baseUrl}/coins/ethereum/history?date=${day}&localization=false`);
+      if (!response.ok) {
+        this.cache.delete(day); // 限流等临时错误允许重试
+        return null;
+      }
+      const data = await response.json();
+      const price = data?.market_data?.current_price?.[this.currency.toLowerCase()];
+      return typeof price === 'number' ? price : null;
+    } catch (error) {
+      console.warn(`Failed to fetch ETH price for ${day}:`, error);
+      this.cache.delete(day);
+      return null;
+    }
+  }
+}
+
+/**
+ * 根据环境变量创建价格来源，未配置时返回 null（导出只包含 ETH 数值）
+ */
+export const getConfiguredPriceSource = (): PriceSource | null => {
+  switch (PRICE_SOURCE_CONFIG.PROVIDER) {
+    case 'coingecko':
+      return new CoinGeckoPriceSource(PRICE_SOURCE_CONFIG.CURRENCY);
+    case 'fixed':
+      return PRICE_SOURCE_CONFIG.FIXED_ETH_PRICE > 0
+        ? new FixedPriceSource(PRICE_SOURCE_CONFIG.FIXED_ETH_PRICE, PRICE_SOURCE_CONFIG.CURRENCY)
+        : null;
+    default:
+      return null;
+  }
+};
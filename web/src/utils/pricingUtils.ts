@@ -0,0 +1,111 @@
+import { PriceTier } from '@/types/contracts';
+
+// 与 TieredPricingStrategy / FixedPricingStrategy 中的常量保持一致
+export const BASIS_POINTS = 10000n;
+export const MAX_TIERS = 10;
+export const MAX_DISCOUNT = 5000n;
+
+export type TierInput = Pick<PriceTier, 'progressThreshold' | 'pricePerToken'>;
+
+export type TierChange =
+  | { type: 'update'; index: number; progressThreshold: bigint; pricePerToken: bigint }
+  | { type: 'add'; index: number; progressThreshold: bigint; pricePerToken: bigint };
+
+const pick = (tier: TierInput) => ({
+  progressThreshold: tier.progressThreshold,
+  pricePerToken: tier.pricePerToken,
+});
+
+// 校验档位列表，规则与合约 addTier / updateTier / updatePricingParameters 一致
+export const validateTiers = (tiers: TierInput[]): string[] => {
+  const errors: string[] = [];
+
+  if (tiers.length === 0) {
+    errors.push('至少需要一个价格档位');
+  }
+  if (tiers.length > MAX_TIERS) {
+    errors.push(`价格档位不能超过 ${MAX_TIERS} 个`);
+  }
+
+  tiers.forEach((tier, index) => {
+    if (tier.pricePerToken <= 0n) {
+      errors.push(`档位 ${index + 1} 的价格必须大于 0`);
+    }
+    if (tier.progressThreshold > BASIS_POINTS) {
+      errors.push(`档位 ${index + 1} 的进度阈值不能超过 100%`);
+    }
+    if (index > 0 && tier.progressThreshold <= tiers[index - 1].progressThreshold) {
+      errors.push(`档位 ${index + 1} 的进度阈值必须高于档位 ${index}`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * 生成把链上档位更新为草稿档位所需的交易序列。
+ * updateTier 会用相邻档位的当前链上值校验阈值顺序，因此先从高到低处理阈值上调的档位，
+ * 再从低到高处理阈值下调的档位，最后追加新档位，保证每一步都满足合约校验。
+ */
+export const planTierChanges = (current: TierInput[], draft: TierInput[]): TierChange[] => {
+  if (draft.length < current.length) {
+    throw new Error('Existing tiers cannot be removed');
+  }
+
+  const raised: TierChange[] = [];
+  const lowered: TierChange[] = [];
+  const unchangedThreshold: TierChange[] = [];
+
+  current.forEach((tier, index) => {
+    const next = draft[index];
+    if (next.progressThreshold === tier.progressThreshold && next.pricePerToken === tier.pricePerToken) {
+      return;
+    }
+
+    const change: TierChange = { type: 'update', index, ...pick(next) };
+    if (next.progressThreshold > tier.progressThreshold) {
+      raised.push(change);
+    } else if (next.progressThreshold < tier.progressThreshold) {
+      lowered.push(change);
+    } else {
+      unchangedThreshold.push(change);
+    }
+  });
+
+  const additions: TierChange[] = draft
+    .slice(current.length)
+    .map((tier, offset) => ({ type: 'add', index: current.length + offset, ...pick(tier) }));
+
+  return [...raised.reverse(), ...lowered, ...unchangedThreshold, ...additions];
+};
+
+// 预览 TieredPricingStrategy.setBasePrice 的等比例调价结果
+export const scaleTierPrices = <T extends TierInput>(tiers: T[], newBasePrice: bigint): T[] => {
+  if (tiers.length === 0 || tiers[0].pricePerToken === 0n) return tiers;
+
+  const priceRatio = (newBasePrice * BASIS_POINTS) / tiers[0].pricePerToken;
+  return tiers.map(tier => ({
+    ...tier,
+    pricePerToken: (tier.pricePerToken * priceRatio) / BASIS_POINTS,
+  }));
+};
+
+// 与合约 calculateTokenAmount 相同的计算：weiAmount * 1e18 / 折后价格
+export const estimateTokenAmount = (weiAmount: bigint, pricePerToken: bigint, discount: bigint = 0n): bigint => {
+  const finalPrice = discount > 0n
+    ? (pricePerToken * (BASIS_POINTS - discount)) / BASIS_POINTS
+    : pricePerToken;
+  if (finalPrice === 0n) return 0n;
+  return (weiAmount * 10n ** 18n) / finalPrice;
+};
+
+// 计算离开当前档位所需的最少募集金额（合约进度按整数基点向下取整）
+export const getRemainingUntilNextTier = (
+  tier: TierInput,
+  totalRaised: bigint,
+  hardCap: bigint
+): bigint => {
+  if (hardCap === 0n) return 0n;
+  const boundary = ((tier.progressThreshold + 1n) * hardCap + BASIS_POINTS - 1n) / BASIS_POINTS;
+  return boundary > totalRaised ? boundary - totalRaised : 0n;
+};
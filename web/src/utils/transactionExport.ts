@@ -0,0 +1,518 @@
+import { ethers } from 'ethers';
+import {
+  Transaction,
+  TransactionType,
+  TransactionStatus,
+  TokenPurchaseTransaction,
+  RefundTransaction,
+  TokenReleaseTransaction
+} from '../types/transactionTypes';
+import { calculateGasFee, getTransactionStatusLabel, getTransactionTypeLabel } from './transactionUtils';
+import { PriceSource } from './priceSource';
+
+export type ExportFormat = 'csv' | 'json' | 'cost-basis';
+
+export interface TransactionExportRow {
+  id: string;
+  hash: string;
+  type: TransactionType;
+  typeLabel: string;
+  status: TransactionStatus;
+  statusLabel: string;
+  timestamp: number;
+  date: string; // ISO 8601 (UTC)
+  blockNumber: number;
+  from: string;
+  to: string;
+  crowdsaleAddress: string;
+  tokenSymbol: string;
+  ethAmount: string;
+  tokenAmount: string;
+  gasFee: string; // ETH
+  ethPrice: number | null; // 区块时间的 ETH 法币价格
+  ethValue: number | null;
+  gasFeeValue: number | null;
+}
+
+export type CostBasisEntryKind = 'purchase' | 'refund' | 'release';
+
+export interface CostBasisEntry {
+  hash: string;
+  timestamp: number;
+  date: string;
+  kind: CostBasisEntryKind;
+  holder: string;
+  crowdsaleAddress: string;
+  tokenSymbol: string;
+  tokenAmount: string;
+  ethAmount: string; // 购买支付或退款收到的 ETH
+  gasFee: string;
+  costBasis: string; // 本条记录计入（购买）或转出（退款、释放）的成本，ETH，含 Gas
+  costBasisValue: number | null; // 按购买时价格计算的法币成本
+  ethPrice: number | null;
+  ethValue: number | null; // ethAmount 按本条记录区块时间计算的法币价值
+  unmatchedTokens: string; // 释放数量中没有对应购买记录的部分（成本为 0）
+  remainingTokens: string; // 本条记录之后的持仓
+  remainingCostBasis: string;
+}
+
+export interface CostBasisSummary {
+  holder: string;
+  crowdsaleAddress: string;
+  tokenSymbol: string;
+  purchasedTokens: string;
+  totalCost: string;
+  refundedEth: string;
+  releasedTokens: string;
+  releasedCostBasis: string;
+  remainingTokens: string;
+  remainingCostBasis: string;
+  totalCostValue: number | null;
+}
+
+export interface CostBasisReport {
+  currency: string | null;
+  generatedAt: string;
+  entries: CostBasisEntry[];
+  summaries: CostBasisSummary[];
+}
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+// 购买批次的剩余部分，退款和释放按先进先出扣减
+interface Lot {
+  tokens: bigint;
+  wei: bigint;
+  gas: bigint;
+  costValue: number | null;
+}
+
+interface Position {
+  holder: string;
+  crowdsaleAddress: string;
+  tokenSymbol: string;
+  lots: Lot[];
+  purchasedTokens: bigint;
+  totalCost: bigint;
+  refundedWei: bigint;
+  releasedTokens: bigint;
+  releasedCost: bigint;
+  totalCostValue: number | null;
+}
+
+const toIsoDate = (timestamp: number) => new Date(timestamp * 1000).toISOString();
+
+const parseWei = (value?: string): bigint => {
+  try {
+    return value ? BigInt(value) : 0n;
+  } catch {
+    return 0n;
+  }
+};
+
+const roundValue = (value: number) => Math.round(value * 100) / 100;
+
+const toFiatValue = (wei: bigint, price: number | null): number | null =>
+  price === null ? null : roundValue(Number(ethers.formatEther(wei)) * price);
+
+const getGasFeeWei = (tx: Transaction): bigint => ethers.parseEther(calculateGasFee(tx.gasUsed, tx.gasPrice));
+
+// 一笔交易可能产生多条事件记录，Gas 只计入该交易的第一条记录
+const createGasFeeCounter = () => {
+  const counted = new Set<string>();
+  return (tx: Transaction): bigint => {
+    const hash = tx.hash.toLowerCase();
+    if (counted.has(hash)) return 0n;
+    counted.add(hash);
+    return getGasFeeWei(tx);
+  };
+};
+
+// 同一时间戳只查询一次价格
+const createPriceLookup = (priceSource: PriceSource | null) => {
+  const prices = new Map<number, Promise<number | null>>();
+  return (timestamp: number): Promise<number | null> => {
+    if (!priceSource) return Promise.resolve(null);
+    let price = prices.get(timestamp);
+    if (!price) {
+      price = priceSource.getEthPrice(timestamp).catch(() => null);
+      prices.set(timestamp, price);
+    }
+    return price;
+  };
+};
+
+const getAmounts = (tx: Transaction): { wei: bigint; tokens: bigint } => {
+  switch (tx.type) {
+    case TransactionType.TOKEN_PURCHASE:
+      return { wei: parseWei(tx.weiAmount), tokens: parseWei(tx.tokenAmount) };
+    case TransactionType.REFUND:
+    case TransactionType.DEPOSIT:
+      return { wei: parseWei(tx.amount), tokens: 0n };
+    case TransactionType.TOKEN_RELEASE:
+      return { wei: 0n, tokens: parseWei(tx.amount) };
+    case TransactionType.VESTING_CREATE:
+      return { wei: 0n, tokens: parseWei(tx.totalAmount) };
+    default:
+      return { wei: parseWei(tx.value), tokens: 0n };
+  }
+};
+
+/**
+ * 生成逐笔导出记录，法币价值按区块时间戳查询价格来源
+ */
+export const buildExportRows = async (
+  transactions: Transaction[],
+  priceSource: PriceSource | null = null
+): Promise<TransactionExportRow[]> => {
+  const getPrice = createPriceLookup(priceSource);
+  const gasFees = transactions.map(createGasFeeCounter());
+
+  return Promise.all(transactions.map(async (tx, index): Promise<TransactionExportRow> => {
+    const { wei, tokens } = getAmounts(tx);
+    const gasFeeWei = gasFees[index];
+    const ethPrice = await getPrice(tx.timestamp);
+
+    return {
+      id: tx.id,
+      hash: tx.hash,
+      type: tx.type,
+      typeLabel: getTransactionTypeLabel(tx.type),
+      status: tx.status,
+      statusLabel: getTransactionStatusLabel(tx.status),
+      timestamp: tx.timestamp,
+      date: toIsoDate(tx.timestamp),
+      blockNumber: tx.blockNumber,
+      from: tx.from,
+      to: tx.to,
+      crowdsaleAddress: tx.crowdsaleAddress || '',
+      tokenSymbol: tx.tokenSymbol || '',
+      ethAmount: ethers.formatEther(wei),
+      tokenAmount: ethers.formatEther(tokens),
+      gasFee: ethers.formatEther(gasFeeWei),
+      ethPrice,
+      ethValue: toFiatValue(wei, ethPrice),
+      gasFeeValue: toFiatValue(gasFeeWei, ethPrice),
+    };
+  }));
+};
+
+// 从持仓批次中先进先出扣减，by 指定按 ETH 还是代币数量扣减
+const takeFromLots = (lots: Lot[], by: 'wei' | 'tokens', amount: bigint) => {
+  const taken = { tokens: 0n, wei: 0n, gas: 0n, costValue: null as number | null, unmatched: amount };
+
+  while (taken.unmatched > 0n && lots.length > 0) {
+    const lot = lots[0];
+    const available = by === 'wei' ? lot.wei : lot.tokens;
+    const part = available < taken.unmatched ? available : taken.unmatched;
+
+    const scale = (value: bigint) => (available === 0n ? value : (value * part) / available);
+    const portion = { tokens: scale(lot.tokens), wei: scale(lot.wei), gas: scale(lot.gas) };
+    const portionValue = lot.costValue === null || available === 0n
+      ? lot.costValue
+      : lot.costValue * Number(part) / Number(available);
+
+    taken.tokens += portion.tokens;
+    taken.wei += portion.wei;
+    taken.gas += portion.gas;
+    if (portionValue !== null) {
+      taken.costValue = roundValue((taken.costValue ?? 0) + portionValue);
+    }
+    taken.unmatched -= part;
+
+    if (part === available) {
+      lots.shift();
+    } else {
+      lot.tokens -= portion.tokens;
+      lot.wei -= portion.wei;
+      lot.gas -= portion.gas;
+      lot.costValue = lot.costValue === null || portionValue === null ? lot.costValue : roundValue(lot.costValue - portionValue);
+    }
+  }
+
+  return taken;
+};
+
+const sumLots = (lots: Lot[]) => lots.reduce(
+  (total, lot) => ({ tokens: total.tokens + lot.tokens, cost: total.cost + lot.wei + lot.gas }),
+  { tokens: 0n, cost: 0n }
+);
+
+/**
+ * 成本报告：按 持有人 + 众筹 归集购买批次，退款和代币释放按先进先出匹配购买成本
+ */
+export const buildCostBasisReport = async (
+  transactions: Transaction[],
+  priceSource: PriceSource | null = null
+): Promise<CostBasisReport> => {
+  const getPrice = createPriceLookup(priceSource);
+  const getTxGasFee = createGasFeeCounter();
+  const positions = new Map<string, Position>();
+  const entries: CostBasisEntry[] = [];
+
+  const relevant = transactions
+    .filter((tx): tx is TokenPurchaseTransaction | RefundTransaction | TokenReleaseTransaction =>
+      tx.status === TransactionStatus.SUCCESS && (
+        tx.type === TransactionType.TOKEN_PURCHASE ||
+        tx.type === TransactionType.REFUND ||
+        tx.type === TransactionType.TOKEN_RELEASE
+      ))
+    .sort((a, b) => a.timestamp - b.timestamp || a.blockNumber - b.blockNumber || a.id.localeCompare(b.id));
+
+  for (const tx of relevant) {
+    const holder = tx.type === TransactionType.TOKEN_PURCHASE ? tx.buyer
+      : tx.type === TransactionType.REFUND ? tx.depositor
+      : tx.beneficiary;
+    const crowdsaleAddress = tx.crowdsaleAddress || '';
+    const key = `${holder.toLowerCase()}-${crowdsaleAddress.toLowerCase()}`;
+
+    let position = positions.get(key);
+    if (!position) {
+      position = {
+        holder,
+        crowdsaleAddress,
+        tokenSymbol: tx.tokenSymbol || '',
+        lots: [],
+        purchasedTokens: 0n,
+        totalCost: 0n,
+        refundedWei: 0n,
+        releasedTokens: 0n,
+        releasedCost: 0n,
+        totalCostValue: priceSource ? 0 : null,
+      };
+      positions.set(key, position);
+    }
+
+    const ethPrice = await getPrice(tx.timestamp);
+    const gasFeeWei = getTxGasFee(tx);
+    const { wei, tokens } = getAmounts(tx);
+    let entry: Omit<CostBasisEntry, 'remainingTokens' | 'remainingCostBasis'>;
+    const base = {
+      hash: tx.hash,
+      timestamp: tx.timestamp,
+      date: toIsoDate(tx.timestamp),
+      holder,
+      crowdsaleAddress,
+      tokenSymbol: position.tokenSymbol,
+      gasFee: ethers.formatEther(gasFeeWei),
+      ethPrice,
+    };
+
+    if (tx.type === TransactionType.TOKEN_PURCHASE) {
+      // Gas 计入购买成本
+      const costValue = toFiatValue(wei + gasFeeWei, ethPrice);
+      position.lots.push({ tokens, wei, gas: gasFeeWei, costValue });
+      position.purchasedTokens += tokens;
+      position.totalCost += wei + gasFeeWei;
+      position.totalCostValue = position.totalCostValue === null || costValue === null
+        ? null
+        : roundValue(position.totalCostValue + costValue);
+
+      entry = {
+        ...base,
+        kind: 'purchase',
+        tokenAmount: ethers.formatEther(tokens),
+        ethAmount: ethers.formatEther(wei),
+        costBasis: ethers.formatEther(wei + gasFeeWei),
+        costBasisValue: costValue,
+        ethValue: toFiatValue(wei, ethPrice),
+        unmatchedTokens: '0.0',
+      };
+    } else if (tx.type === TransactionType.REFUND) {
+      // 退款按支付的 ETH 冲销购买批次，对应代币一并移出持仓
+      const taken = takeFromLots(position.lots, 'wei', wei);
+      position.refundedWei += wei;
+
+      entry = {
+        ...base,
+        kind: 'refund',
+        tokenAmount: ethers.formatEther(taken.tokens),
+        ethAmount: ethers.formatEther(wei),
+        costBasis: ethers.formatEther(taken.wei + taken.gas),
+        costBasisValue: taken.costValue,
+        ethValue: toFiatValue(wei, ethPrice),
+        unmatchedTokens: '0.0',
+      };
+    } else {
+      const taken = takeFromLots(position.lots, 'tokens', tokens);
+      position.releasedTokens += tokens;
+      position.releasedCost += taken.wei + taken.gas;
+
+      entry = {
+        ...base,
+        kind: 'release',
+        tokenAmount: ethers.formatEther(tokens),
+        ethAmount: '0.0',
+        costBasis: ethers.formatEther(taken.wei + taken.gas),
+        costBasisValue: taken.costValue,
+        ethValue: null,
+        unmatchedTokens: ethers.formatEther(taken.unmatched),
+      };
+    }
+
+    const remaining = sumLots(position.lots);
+    entries.push({
+      ...entry,
+      remainingTokens: ethers.formatEther(remaining.tokens),
+      remainingCostBasis: ethers.formatEther(remaining.cost),
+    });
+  }
+
+  const summaries = [...positions.values()].map((position): CostBasisSummary => {
+    const remaining = sumLots(position.lots);
+    return {
+      holder: position.holder,
+      crowdsaleAddress: position.crowdsaleAddress,
+      tokenSymbol: position.tokenSymbol,
+      purchasedTokens: ethers.formatEther(position.purchasedTokens),
+      totalCost: ethers.formatEther(position.totalCost),
+      refundedEth: ethers.formatEther(position.refundedWei),
+      releasedTokens: ethers.formatEther(position.releasedTokens),
+      releasedCostBasis: ethers.formatEther(position.releasedCost),
+      remainingTokens: ethers.formatEther(remaining.tokens),
+      remainingCostBasis: ethers.formatEther(remaining.cost),
+      totalCostValue: position.totalCostValue,
+    };
+  });
+
+  return {
+    currency: priceSource?.currency ?? null,
+    generatedAt: new Date().toISOString(),
+    entries,
+    summaries,
+  };
+};
+
+type CsvColumn<T> = [keyof T, string];
+
+// 代币符号等字符串来自链上，以 = + - @ 开头时表格软件会当作公式执行，加 ' 前缀按文本处理；
+// 数字列不会被解析为公式，负数保持原样
+const escapeCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T>(columns: CsvColumn<T>[], rows: T[]): string => [
+  columns.map(([, label]) => escapeCsvValue(label)).join(','),
+  ...rows.map(row => columns.map(([key]) => escapeCsvValue(row[key])).join(',')),
+].join('\r\n');
+
+const getFiatLabel = (label: string, currency: string | null) => `${label}(${currency || '法币'})`;
+
+const getTransactionColumns = (currency: string | null): CsvColumn<TransactionExportRow>[] => [
+  ['date', '时间(UTC)'],
+  ['hash', '交易哈希'],
+  ['blockNumber', '区块'],
+  ['typeLabel', '交易类型'],
+  ['statusLabel', '状态'],
+  ['crowdsaleAddress', '众筹合约'],
+  ['tokenSymbol', '代币'],
+  ['from', '发送方'],
+  ['to', '接收方'],
+  ['ethAmount', 'ETH数量'],
+  ['tokenAmount', '代币数量'],
+  ['gasFee', 'Gas费用(ETH)'],
+  ['ethPrice', getFiatLabel('ETH价格', currency)],
+  ['ethValue', getFiatLabel('ETH价值', currency)],
+  ['gasFeeValue', getFiatLabel('Gas费用', currency)],
+];
+
+const COST_BASIS_KIND_LABELS: Record<CostBasisEntryKind, string> = {
+  purchase: '购买',
+  refund: '退款',
+  release: '释放',
+};
+
+const getCostBasisColumns = (currency: string | null): CsvColumn<CostBasisEntry & { kindLabel: string }>[] => [
+  ['date', '时间(UTC)'],
+  ['hash', '交易哈希'],
+  ['kindLabel', '类型'],
+  ['holder', '持有人'],
+  ['crowdsaleAddress', '众筹合约'],
+  ['tokenSymbol', '代币'],
+  ['tokenAmount', '代币数量'],
+  ['ethAmount', 'ETH数量'],
+  ['gasFee', 'Gas费用(ETH)'],
+  ['costBasis', '成本(ETH)'],
+  ['costBasisValue', getFiatLabel('成本', currency)],
+  ['ethPrice', getFiatLabel('ETH价格', currency)],
+  ['ethValue', getFiatLabel('ETH价值', currency)],
+  ['unmatchedTokens', '无购买记录代币'],
+  ['remainingTokens', '剩余代币'],
+  ['remainingCostBasis', '剩余成本(ETH)'],
+];
+
+const getSummaryColumns = (currency: string | null): CsvColumn<CostBasisSummary>[] => [
+  ['holder', '持有人'],
+  ['crowdsaleAddress', '众筹合约'],
+  ['tokenSymbol', '代币'],
+  ['purchasedTokens', '购买代币'],
+  ['totalCost', '总成本(ETH)'],
+  ['totalCostValue', getFiatLabel('总成本', currency)],
+  ['refundedEth', '已退款(ETH)'],
+  ['releasedTokens', '已释放代币'],
+  ['releasedCostBasis', '已释放成本(ETH)'],
+  ['remainingTokens', '剩余代币'],
+  ['remainingCostBasis', '剩余成本(ETH)'],
+];
+
+// BOM 让 Excel 正确识别 UTF-8 中文表头
+const CSV_BOM = '\uFEFF';
+
+/**
+ * 按格式生成导出文件内容
+ */
+export const exportTransactions = async (
+  format: ExportFormat,
+  transactions: Transaction[],
+  priceSource: PriceSource | null = null
+): Promise<ExportFile> => {
+  const stamp = new Date().toISOString().slice(0, 10);
+  const currency = priceSource?.currency ?? null;
+
+  if (format === 'cost-basis') {
+    const report = await buildCostBasisReport(transactions, priceSource);
+    const entries = report.entries.map(entry => ({ ...entry, kindLabel: COST_BASIS_KIND_LABELS[entry.kind] }));
+    return {
+      filename: `cost-basis-${stamp}.csv`,
+      mimeType: 'text/csv;charset=utf-8',
+      content: CSV_BOM + [
+        toCsv(getCostBasisColumns(currency), entries),
+        '',
+        toCsv(getSummaryColumns(currency), report.summaries),
+      ].join('\r\n'),
+    };
+  }
+
+  const rows = await buildExportRows(transactions, priceSource);
+
+  if (format === 'json') {
+    return {
+      filename: `transactions-${stamp}.json`,
+      mimeType: 'application/json',
+      content: JSON.stringify({ currency, exportedAt: new Date().toISOString(), transactions: rows }, null, 2),
+    };
+  }
+
+  return {
+    filename: `transactions-${stamp}.csv`,
+    mimeType: 'text/csv;charset=utf-8',
+    content: CSV_BOM + toCsv(getTransactionColumns(currency), rows),
+  };
+};
+
+export const downloadExportFile = (file: ExportFile) => {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -3,7 +3,8 @@ import {
   TransactionType, 
   TransactionStatus, 
   Transaction, 
-  TransactionFilter 
+  TransactionFilter,
+  ConfigUpdateType
 } from '../types/transactionTypes';
 
 export const getTransactionTypeLabel = (type: TransactionType): string => {
@@ -22,6 +23,15 @@ export const getTransactionTypeLabel = (type: TransactionType): string => {
   return labels[type] || type;
 };
 
+export const getConfigUpdateTypeLabel = (configType: ConfigUpdateType): string => {
+  const labels = {
+    crowdsale_config: '众筹参数',
+    funding_wallet: '资金钱包',
+    vesting_config: '释放配置'
+  };
+  return labels[configType] || configType;
+};
+
 export const getTransactionStatusLabel = (status: TransactionStatus): string => {
   const labels = {
     [TransactionStatus.PENDING]: '待确认',
@@ -126,6 +136,14 @@ export const filterTransactions = (
       }
     }
 
+    // 众筹过滤
+    if (filter.crowdsales && filter.crowdsales.length > 0) {
+      const crowdsales = filter.crowdsales.map(addr => addr.toLowerCase());
+      if (!tx.crowdsaleAddress || !crowdsales.includes(tx.crowdsaleAddress.toLowerCase())) {
+        return false;
+      }
+    }
+
     return true;
   });
 };
@@ -0,0 +1,205 @@
+import { VestingMilestone, VestingStep, VestingType } from '@/types/contracts';
+
+// 与 VestingMath.sol / TokenVesting._getVestedAmount 的计算规则保持一致
+const BASIS_POINTS = 10000n;
+
+export interface VestingCurveInput {
+  totalAmount: bigint;
+  releasedAmount: bigint;
+  startTime: number; // Unix timestamp
+  cliffDuration: number; // seconds
+  vestingDuration: number; // seconds
+  vestingType: VestingType;
+  revoked: boolean;
+  steps?: VestingStep[];
+  milestones?: VestingMilestone[];
+}
+
+export interface VestingCurvePoint {
+  timestamp: number;
+  vested: bigint;
+}
+
+export interface VestingUnlock {
+  timestamp: number;
+  amount: bigint;
+}
+
+export const calculateLinearVesting = (
+  totalAmount: bigint,
+  startTime: number,
+  duration: number,
+  currentTime: number
+): bigint => {
+  if (currentTime < startTime) return 0n;
+  if (currentTime >= startTime + duration) return totalAmount;
+
+  return (totalAmount * BigInt(currentTime - startTime)) / BigInt(duration);
+};
+
+export const calculateCliffVesting = (
+  totalAmount: bigint,
+  startTime: number,
+  cliffDuration: number,
+  vestingDuration: number,
+  currentTime: number
+): bigint => {
+  const cliffEnd = startTime + cliffDuration;
+  if (currentTime < cliffEnd) return 0n;
+
+  const vestingEnd = startTime + vestingDuration;
+  if (currentTime >= vestingEnd) return totalAmount;
+
+  // 悬崖期结束后在剩余时长内线性释放
+  const effectiveDuration = vestingDuration - cliffDuration;
+  return (totalAmount * BigInt(currentTime - cliffEnd)) / BigInt(effectiveDuration);
+};
+
+// 合约按已存储的步骤累加，而非 VestingMath.calculateSteppedVesting
+export const calculateSteppedVesting = (
+  totalAmount: bigint,
+  steps: VestingStep[],
+  currentTime: number
+): bigint => steps.reduce(
+  (vested, step) => (currentTime >= step.timestamp
+    ? vested + (totalAmount * BigInt(step.percentage)) / BASIS_POINTS
+    : vested),
+  0n
+);
+
+// 里程碑在达成时解锁，未达成的里程碑没有确定时间
+export const calculateMilestoneVesting = (
+  totalAmount: bigint,
+  milestones: VestingMilestone[],
+  currentTime: number
+): bigint => milestones.reduce(
+  (vested, milestone) => (milestone.achieved && milestone.achievedTime <= currentTime
+    ? vested + (totalAmount * BigInt(milestone.percentage)) / BASIS_POINTS
+    : vested),
+  0n
+);
+
+// 与 TokenVesting._initializeSteppedVesting 一致：4 个步骤，每步 25%
+export const buildDefaultSteps = (startTime: number, vestingDuration: number): VestingStep[] => {
+  const stepDuration = Math.floor(vestingDuration / 4);
+  return [0, 1, 2, 3].map(index => ({
+    index,
+    timestamp: startTime + (index + 1) * stepDuration,
+    percentage: 2500,
+    released: false,
+  }));
+};
+
+export const calculateVestedAmount = (schedule: VestingCurveInput, currentTime: number): bigint => {
+  if (schedule.revoked) {
+    return schedule.releasedAmount;
+  }
+
+  switch (schedule.vestingType) {
+    case VestingType.LINEAR:
+      return calculateLinearVesting(schedule.totalAmount, schedule.startTime, schedule.vestingDuration, currentTime);
+    case VestingType.CLIFF:
+      return calculateCliffVesting(
+        schedule.totalAmount,
+        schedule.startTime,
+        schedule.cliffDuration,
+        schedule.vestingDuration,
+        currentTime
+      );
+    case VestingType.STEPPED:
+      return calculateSteppedVesting(schedule.totalAmount, schedule.steps || [], currentTime);
+    case VestingType.MILESTONE:
+      return calculateMilestoneVesting(schedule.totalAmount, schedule.milestones || [], currentTime);
+    default:
+      // 合约未实现 CUSTOM 类型的计算，始终返回 0
+      return 0n;
+  }
+};
+
+/**
+ * 构建累计解锁曲线。线性部分按 samples 等分采样，阶梯与里程碑只在解锁时间点取值，
+ * 绘图时应使用阶梯线连接。
+ */
+export const buildVestingCurve = (
+  schedule: VestingCurveInput,
+  currentTime: number,
+  samples: number = 24
+): VestingCurvePoint[] => {
+  const { startTime, cliffDuration, vestingDuration } = schedule;
+  const endTime = startTime + Math.max(vestingDuration, cliffDuration);
+  const timestamps = new Set<number>([startTime]);
+
+  if (schedule.revoked) {
+    timestamps.add(Math.max(currentTime, startTime));
+  } else {
+    switch (schedule.vestingType) {
+      case VestingType.LINEAR:
+      case VestingType.CLIFF: {
+        const linearStart = schedule.vestingType === VestingType.CLIFF
+          ? Math.min(startTime + cliffDuration, endTime)
+          : startTime;
+        for (let i = 0; i <= samples; i++) {
+          timestamps.add(Math.round(linearStart + ((endTime - linearStart) * i) / samples));
+        }
+        break;
+      }
+      case VestingType.STEPPED:
+        (schedule.steps || []).forEach(step => timestamps.add(step.timestamp));
+        break;
+      case VestingType.MILESTONE:
+        (schedule.milestones || [])
+          .filter(milestone => milestone.achieved)
+          .forEach(milestone => timestamps.add(milestone.achievedTime));
+        timestamps.add(Math.max(currentTime, startTime));
+        break;
+      default:
+        timestamps.add(endTime);
+    }
+  }
+
+  return [...timestamps]
+    .sort((a, b) => a - b)
+    .map(timestamp => ({ timestamp, vested: calculateVestedAmount(schedule, timestamp) }));
+};
+
+// 未来有确定时间的解锁事件（仅阶梯式释放存在离散解锁点）
+export const getUpcomingUnlocks = (schedule: VestingCurveInput, currentTime: number): VestingUnlock[] => {
+  if (schedule.revoked || schedule.vestingType !== VestingType.STEPPED) {
+    return [];
+  }
+
+  return (schedule.steps || [])
+    .filter(step => step.timestamp > currentTime)
+    .map(step => ({
+      timestamp: step.timestamp,
+      amount: (schedule.totalAmount * BigInt(step.percentage)) / BASIS_POINTS,
+    }));
+};
+
+/**
+ * 下次开始解锁的时间，0 表示已在持续释放、已结束或无法预测（里程碑）
+ */
+export const getNextReleaseTime = (schedule: VestingCurveInput, currentTime: number): number => {
+  if (schedule.revoked) return 0;
+
+  const endTime = schedule.startTime + schedule.vestingDuration;
+  if (currentTime >= endTime && schedule.vestingType !== VestingType.MILESTONE) return 0;
+
+  switch (schedule.vestingType) {
+    case VestingType.LINEAR:
+      return currentTime < schedule.startTime ? schedule.startTime : 0;
+    case VestingType.CLIFF: {
+      const cliffEnd = schedule.startTime + schedule.cliffDuration;
+      return currentTime < cliffEnd ? cliffEnd : 0;
+    }
+    case VestingType.STEPPED:
+      return getUpcomingUnlocks(schedule, currentTime)[0]?.timestamp ?? 0;
+    default:
+      return 0;
+  }
+};
+
+export const calculateVestingProgress = (vestedAmount: bigint, totalAmount: bigint): number => {
+  if (totalAmount === 0n) return 0;
+  return Number((vestedAmount * BASIS_POINTS) / totalAmount) / 100;
+};
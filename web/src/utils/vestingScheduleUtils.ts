@@ -0,0 +1,146 @@
+import { ethers, parseEther } from 'ethers';
+import { VestingType } from '@/types/contracts';
+
+const DAY = 24 * 60 * 60;
+
+export interface VestingScheduleInput {
+  beneficiary: string;
+  amount: string; // token amount
+  startTime: number; // Unix timestamp
+  cliffDuration: number; // seconds
+  vestingDuration: number; // seconds
+  vestingType: VestingType;
+  revocable: boolean;
+}
+
+export type VestingScheduleDefaults = Omit<VestingScheduleInput, 'beneficiary' | 'amount'>;
+
+export interface ParsedVestingRow {
+  line: number;
+  input: VestingScheduleInput;
+  errors: string[];
+}
+
+const VESTING_TYPE_NAMES = ['LINEAR', 'CLIFF', 'STEPPED', 'MILESTONE', 'CUSTOM'];
+
+/**
+ * 校验释放计划参数，规则与 createVestingSchedule 的 require 保持一致
+ */
+export const validateVestingSchedule = (input: VestingScheduleInput): string[] => {
+  const errors: string[] = [];
+
+  if (!ethers.isAddress(input.beneficiary) || input.beneficiary === ethers.ZeroAddress) {
+    errors.push('受益人地址无效');
+  }
+
+  try {
+    if (parseEther(input.amount || '0') <= 0n) {
+      errors.push('释放数量必须大于0');
+    }
+  } catch {
+    errors.push('释放数量格式无效');
+  }
+
+  if (!Number.isInteger(input.startTime) || input.startTime <= 0) {
+    errors.push('开始时间无效');
+  }
+  if (!Number.isInteger(input.vestingDuration) || input.vestingDuration <= 0) {
+    errors.push('释放期必须大于0');
+  }
+  if (!Number.isInteger(input.cliffDuration) || input.cliffDuration < 0) {
+    errors.push('悬崖期不能为负数');
+  }
+  if (input.vestingType === VestingType.CLIFF && input.cliffDuration >= input.vestingDuration) {
+    errors.push('悬崖期必须短于释放期');
+  }
+  if (input.vestingType === VestingType.STEPPED && input.vestingDuration < 4) {
+    errors.push('阶梯释放的释放期过短');
+  }
+  // 合约未实现 CUSTOM 类型的计算，创建后永远无法解锁
+  if (input.vestingType === VestingType.CUSTOM) {
+    errors.push('合约不支持自定义释放类型');
+  }
+
+  return errors;
+};
+
+const parseVestingType = (value: string): VestingType | null => {
+  const normalized = value.trim().toUpperCase();
+  if (/^\d$/.test(normalized)) {
+    const index = Number(normalized);
+    return index < VESTING_TYPE_NAMES.length ? index as VestingType : null;
+  }
+  const index = VESTING_TYPE_NAMES.indexOf(normalized);
+  return index >= 0 ? index as VestingType : null;
+};
+
+const parseStartTime = (value: string): number => {
+  if (/^\d+$/.test(value)) return Number(value);
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? NaN : Math.floor(time / 1000);
+};
+
+/**
+ * 解析批量CSV，列顺序：
+ * beneficiary,amount[,startTime,cliffDays,durationDays,vestingType,revocable]
+ * 省略的列使用向导中填写的默认值，startTime 支持 Unix 时间戳或日期字符串
+ */
+export const parseVestingCsv = (text: string, defaults: VestingScheduleDefaults): ParsedVestingRow[] => {
+  const rows: ParsedVestingRow[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const columns = line.split(',').map(column => column.trim());
+    // 跳过表头
+    if (index === 0 && columns[0].toLowerCase() === 'beneficiary') return;
+
+    const errors: string[] = [];
+    const [beneficiary = '', amount = '', start, cliffDays, durationDays, type, revocable] = columns;
+
+    const input: VestingScheduleInput = {
+      ...defaults,
+      beneficiary,
+      amount,
+    };
+
+    if (start) {
+      input.startTime = parseStartTime(start);
+    }
+    if (cliffDays) {
+      input.cliffDuration = Math.round(Number(cliffDays) * DAY);
+    }
+    if (durationDays) {
+      input.vestingDuration = Math.round(Number(durationDays) * DAY);
+    }
+    if (type) {
+      const vestingType = parseVestingType(type);
+      if (vestingType === null) {
+        errors.push(`未知的释放类型: ${type}`);
+      } else {
+        input.vestingType = vestingType;
+      }
+    }
+    if (revocable) {
+      input.revocable = ['true', '1', 'yes', 'y'].includes(revocable.toLowerCase());
+    }
+
+    rows.push({
+      line: index + 1,
+      input,
+      errors: [...errors, ...validateVestingSchedule(input)],
+    });
+  });
+
+  return rows;
+};
+
+export const sumVestingAmounts = (inputs: VestingScheduleInput[]): bigint =>
+  inputs.reduce((sum, input) => {
+    try {
+      return sum + parseEther(input.amount || '0');
+    } catch {
+      return sum;
+    }
+  }, 0n);
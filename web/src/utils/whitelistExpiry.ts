@@ -0,0 +1,63 @@
+import { WhitelistLevel } from '@/types/contracts';
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// 即将过期视图可选的时间窗口（秒）
+export const EXPIRY_WINDOW_OPTIONS = [
+  { value: DAY, label: '1 天内' },
+  { value: 7 * DAY, label: '7 天内' },
+  { value: 30 * DAY, label: '30 天内' },
+  { value: 90 * DAY, label: '90 天内' },
+] as const;
+
+// 剩余时间少于该值时提示投资者尽快续期
+export const EXPIRY_WARNING_THRESHOLD = 3 * DAY;
+
+/**
+ * 链上记录的原始白名单条目，level 为存储的级别，不考虑是否过期
+ */
+export interface WhitelistExpiryEntry {
+  address: string;
+  level: WhitelistLevel;
+  expirationTime: number; // 0 表示永不过期
+  addedTime: number;
+}
+
+/**
+ * 将剩余有效期格式化为倒计时文本
+ */
+export const formatExpiryCountdown = (expirationTime: number, now: number): string => {
+  const remaining = expirationTime - now;
+  if (remaining <= 0) return '已过期';
+
+  const days = Math.floor(remaining / DAY);
+  const hours = Math.floor((remaining % DAY) / HOUR);
+  const minutes = Math.floor((remaining % HOUR) / MINUTE);
+
+  if (days > 0) return `${days} 天 ${hours} 小时`;
+  if (hours > 0) return `${hours} 小时 ${minutes} 分钟`;
+  return `${Math.max(minutes, 1)} 分钟`;
+};
+
+const isActiveLevel = (level: WhitelistLevel) =>
+  level === WhitelistLevel.WHITELISTED || level === WhitelistLevel.VIP;
+
+/**
+ * 在 windowSeconds 内即将过期的白名单条目，按过期时间升序排列
+ */
+export const selectExpiringEntries = (
+  entries: WhitelistExpiryEntry[],
+  now: number,
+  windowSeconds: number
+): WhitelistExpiryEntry[] =>
+  entries
+    .filter(entry => isActiveLevel(entry.level) && entry.expirationTime > now && entry.expirationTime <= now + windowSeconds)
+    .sort((a, b) => a.expirationTime - b.expirationTime);
+
+/**
+ * 已过期但尚未被 cleanupExpiredWhitelists 清理的条目，条件与合约中的清理判断一致
+ */
+export const selectExpiredEntries = (entries: WhitelistExpiryEntry[], now: number): WhitelistExpiryEntry[] =>
+  entries.filter(entry => entry.addedTime !== 0 && entry.expirationTime !== 0 && now >= entry.expirationTime);
@@ -0,0 +1,193 @@
+import { ethers } from 'ethers';
+import { WhitelistLevel } from '@/types/contracts';
+
+// CSV 列顺序，JSON 使用同名字段；level 省略时为 WHITELISTED，expiry 省略时永不过期
+export const WHITELIST_IMPORT_COLUMNS = ['address', 'level', 'expiry'] as const;
+
+// 与 WhitelistManager.MAX_BATCH_SIZE 保持一致
+export const WHITELIST_MAX_BATCH_SIZE = 100;
+
+export interface WhitelistImportRow {
+  line: number; // CSV 行号或 JSON 数组下标 + 1
+  address: string; // 校验通过时为 checksum 地址
+  level: WhitelistLevel;
+  expirationTime: number; // 0 表示永不过期
+  errors: string[];
+  duplicateOf?: number; // 与之前某行完全相同时记录该行行号
+}
+
+export interface WhitelistChunk {
+  id: number;
+  expirationTime: number;
+  rows: WhitelistImportRow[];
+}
+
+const LEVEL_NAMES: Record<string, WhitelistLevel> = {
+  WHITELISTED: WhitelistLevel.WHITELISTED,
+  VIP: WhitelistLevel.VIP,
+  '2': WhitelistLevel.WHITELISTED,
+  '3': WhitelistLevel.VIP,
+};
+
+const parseExpiry = (value: string): number => {
+  if (/^\d+$/.test(value)) return Number(value);
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? NaN : Math.floor(time / 1000);
+};
+
+const toRow = (line: number, record: Record<string, unknown>, now: number): WhitelistImportRow => {
+  const value = (key: typeof WHITELIST_IMPORT_COLUMNS[number]) => {
+    const raw = record[key];
+    return raw === undefined || raw === null ? '' : String(raw).trim();
+  };
+
+  const errors: string[] = [];
+
+  let address = value('address');
+  try {
+    // 大小写混合的地址必须通过 checksum 校验
+    address = ethers.getAddress(address);
+    if (address === ethers.ZeroAddress) errors.push('不能使用零地址');
+  } catch {
+    errors.push('地址无效或 checksum 错误');
+  }
+
+  const levelName = value('level').toUpperCase();
+  const level = levelName ? LEVEL_NAMES[levelName] : WhitelistLevel.WHITELISTED;
+  if (level === undefined) errors.push('级别必须是 WHITELISTED 或 VIP');
+
+  let expirationTime = 0;
+  if (value('expiry')) {
+    expirationTime = parseExpiry(value('expiry'));
+    if (Number.isNaN(expirationTime)) {
+      errors.push('过期时间格式无效');
+      expirationTime = 0;
+    } else if (expirationTime <= now) {
+      errors.push('过期时间必须晚于当前时间');
+    }
+  }
+
+  return { line, address, level: level ?? WhitelistLevel.WHITELISTED, expirationTime, errors };
+};
+
+// 同一地址出现多次：参数一致时标记为重复，参数冲突时报错
+const markDuplicates = (rows: WhitelistImportRow[]): WhitelistImportRow[] => {
+  const seen = new Map<string, WhitelistImportRow>();
+  return rows.map(row => {
+    if (row.errors.length > 0) return row;
+    const key = row.address.toLowerCase();
+    const first = seen.get(key);
+    if (!first) {
+      seen.set(key, row);
+      return row;
+    }
+    if (first.level === row.level && first.expirationTime === row.expirationTime) {
+      return { ...row, duplicateOf: first.line };
+    }
+    return { ...row, errors: [`与第 ${first.line} 行地址相同但级别或过期时间不同`] };
+  });
+};
+
+/**
+ * 解析白名单导入数据：以 [ 开头按 JSON 数组解析，否则按 CSV 解析（列顺序见 WHITELIST_IMPORT_COLUMNS）
+ */
+export const parseWhitelistImport = (text: string, now = Math.floor(Date.now() / 1000)): WhitelistImportRow[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  if (trimmed.startsWith('[')) {
+    let records: unknown;
+    try {
+      records = JSON.parse(trimmed);
+    } catch {
+      throw new Error('JSON 格式无效');
+    }
+    if (!Array.isArray(records)) {
+      throw new Error('JSON 必须是数组');
+    }
+    return markDuplicates(records.map((record, index) => (
+      record && typeof record === 'object'
+        ? toRow(index + 1, record as Record<string, unknown>, now)
+        : { ...toRow(index + 1, {}, now), errors: ['该行不是对象'] }
+    )));
+  }
+
+  const rows: WhitelistImportRow[] = [];
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const columns = line.split(',').map(column => column.trim());
+    // 跳过表头
+    if (index === 0 && columns[0].toLowerCase() === 'address') return;
+
+    const record = Object.fromEntries(WHITELIST_IMPORT_COLUMNS.map((key, column) => [key, columns[column]]));
+    rows.push(toRow(index + 1, record, now));
+  });
+
+  return markDuplicates(rows);
+};
+
+/**
+ * 链上已是目标级别且过期时间相同的地址无需再次提交
+ */
+export const isAlreadyAtTarget = (
+  row: WhitelistImportRow,
+  current: { level: WhitelistLevel; expirationTime: number }
+): boolean => current.level === row.level && current.expirationTime === row.expirationTime;
+
+/**
+ * 地址当前在黑名单中。导入会覆盖级别，等于直接解除黑名单，需要管理员单独确认
+ */
+export const isCurrentlyBlacklisted = (
+  current: { level: WhitelistLevel; expirationTime: number } | undefined
+): boolean => current?.level === WhitelistLevel.BLACKLISTED;
+
+/**
+ * 按过期时间分组（batchAddToWhitelistWithExpiration 每批只接受一个过期时间），
+ * 再按 maxSize 切分，保持原有行顺序
+ */
+export const planWhitelistChunks = (
+  rows: WhitelistImportRow[],
+  maxSize = WHITELIST_MAX_BATCH_SIZE
+): WhitelistChunk[] => {
+  const groups = new Map<number, WhitelistImportRow[]>();
+  rows.forEach(row => {
+    groups.set(row.expirationTime, [...(groups.get(row.expirationTime) ?? []), row]);
+  });
+
+  const chunks: WhitelistChunk[] = [];
+  groups.forEach((groupRows, expirationTime) => {
+    for (let start = 0; start < groupRows.length; start += maxSize) {
+      chunks.push({ id: chunks.length, expirationTime, rows: groupRows.slice(start, start + maxSize) });
+    }
+  });
+  return chunks;
+};
+
+/**
+ * 将超出 gas 预算的批次对半拆分；estimate 返回 null 表示无法估算，保持原样
+ */
+export const splitChunksByGas = async (
+  chunks: WhitelistChunk[],
+  estimate: (chunk: WhitelistChunk) => Promise<bigint | null>,
+  gasBudget: bigint
+): Promise<WhitelistChunk[]> => {
+  const result: WhitelistChunk[] = [];
+
+  const visit = async (chunk: WhitelistChunk) => {
+    const gas = chunk.rows.length > 1 ? await estimate(chunk) : null;
+    if (gas === null || gas <= gasBudget) {
+      result.push({ ...chunk, id: result.length });
+      return;
+    }
+    const middle = Math.ceil(chunk.rows.length / 2);
+    await visit({ ...chunk, rows: chunk.rows.slice(0, middle) });
+    await visit({ ...chunk, rows: chunk.rows.slice(middle) });
+  };
+
+  for (const chunk of chunks) {
+    await visit(chunk);
+  }
+  return result;
+};
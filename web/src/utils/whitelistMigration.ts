@@ -0,0 +1,174 @@
+import { ethers } from 'ethers';
+
+export const MIGRATION_STORAGE_KEY = 'whitelist-migration-requests';
+
+// 签名超过该时长的申请不再执行，需要投资者重新签名
+export const MIGRATION_REQUEST_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+// 允许投资者与管理员之间的时钟偏差，签名时间超出当前时间该范围视为无效
+export const MIGRATION_CLOCK_SKEW = 5 * 60 * 1000;
+
+export type MigrationStatus = 'pending' | 'executed' | 'rejected';
+
+export const MIGRATION_STATUS_LABELS: Record<MigrationStatus, string> = {
+  pending: '待审核',
+  executed: '已迁移',
+  rejected: '已拒绝',
+};
+
+export interface MigrationMessageParams {
+  contractAddress: string;
+  chainId: number;
+  from: string;
+  to: string;
+  issuedAt: number; // 毫秒
+}
+
+/**
+ * 投资者从旧钱包签名的迁移申请，签名覆盖合约地址和链 ID 以防跨部署重放
+ */
+export interface WhitelistMigrationRequest extends MigrationMessageParams {
+  id: string;
+  signature: string;
+  status: MigrationStatus;
+  txHash?: string;
+  reviewedAt?: number;
+  note?: string;
+}
+
+/**
+ * 构造需要签名的 EIP-191 消息正文
+ */
+export const buildMigrationMessage = ({ contractAddress, chainId, from, to, issuedAt }: MigrationMessageParams): string =>
+  [
+    'Whitelist wallet migration request',
+    '',
+    `WhitelistManager: ${ethers.getAddress(contractAddress)}`,
+    `Chain ID: ${chainId}`,
+    `Old wallet: ${ethers.getAddress(from)}`,
+    `New wallet: ${ethers.getAddress(to)}`,
+    `Issued at: ${new Date(issuedAt).toISOString()}`,
+  ].join('\n');
+
+export const getMigrationRequestId = (from: string, issuedAt: number) => `${from.toLowerCase()}-${issuedAt}`;
+
+/**
+ * 校验签名、目标部署和有效期，返回问题列表（为空表示可以执行）
+ */
+export const verifyMigrationRequest = (
+  request: WhitelistMigrationRequest,
+  expected: { contractAddress: string; chainId: number },
+  now = Date.now()
+): string[] => {
+  const errors: string[] = [];
+
+  if (request.from.toLowerCase() === request.to.toLowerCase()) {
+    errors.push('新旧钱包地址相同');
+  }
+  if (request.contractAddress.toLowerCase() !== expected.contractAddress.toLowerCase() || request.chainId !== expected.chainId) {
+    errors.push('申请针对的不是当前网络上的白名单合约');
+  }
+  if (now - request.issuedAt > MIGRATION_REQUEST_MAX_AGE) {
+    errors.push('签名已超过 7 天有效期，请投资者重新签名');
+  }
+  if (request.issuedAt - now > MIGRATION_CLOCK_SKEW) {
+    errors.push('签名时间晚于当前时间，请投资者检查系统时钟后重新签名');
+  }
+
+  try {
+    const signer = ethers.verifyMessage(buildMigrationMessage(request), request.signature);
+    if (signer.toLowerCase() !== request.from.toLowerCase()) {
+      errors.push('签名与旧钱包地址不匹配');
+    }
+  } catch {
+    errors.push('签名格式无效');
+  }
+
+  return errors;
+};
+
+/**
+ * 解析投资者导出的申请 JSON，字段缺失或地址无效时返回 null
+ */
+export const parseMigrationRequest = (text: string): WhitelistMigrationRequest | null => {
+  try {
+    const data = JSON.parse(text);
+    if (
+      !ethers.isAddress(data?.contractAddress) ||
+      !ethers.isAddress(data?.from) ||
+      !ethers.isAddress(data?.to) ||
+      !Number.isInteger(data?.chainId) ||
+      !Number.isInteger(data?.issuedAt) ||
+      typeof data?.signature !== 'string'
+    ) {
+      return null;
+    }
+
+    return {
+      id: getMigrationRequestId(data.from, data.issuedAt),
+      contractAddress: ethers.getAddress(data.contractAddress),
+      chainId: data.chainId,
+      from: ethers.getAddress(data.from),
+      to: ethers.getAddress(data.to),
+      issuedAt: data.issuedAt,
+      signature: data.signature,
+      status: 'pending',
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 导出给项目方的申请内容，不包含审核状态
+ */
+export const serializeMigrationRequest = (request: WhitelistMigrationRequest): string =>
+  JSON.stringify({
+    contractAddress: request.contractAddress,
+    chainId: request.chainId,
+    from: request.from,
+    to: request.to,
+    issuedAt: request.issuedAt,
+    signature: request.signature,
+  }, null, 2);
+
+const getStorage = (): Storage | null =>
+  typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
+
+export const loadMigrationRequests = (storage = getStorage()): WhitelistMigrationRequest[] => {
+  if (!storage) return [];
+  try {
+    const requests = JSON.parse(storage.getItem(MIGRATION_STORAGE_KEY) || '[]');
+    return Array.isArray(requests) ? requests : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * 保存申请，按签名时间倒序排列；同 id 的申请已存在时保留其审核状态，避免已处理的申请重新进入待审核队列
+ */
+export const saveMigrationRequest = (
+  request: WhitelistMigrationRequest,
+  storage = getStorage()
+): WhitelistMigrationRequest[] => {
+  const stored = loadMigrationRequests(storage);
+  const existing = stored.find(item => item.id === request.id);
+  const saved: WhitelistMigrationRequest = existing
+    ? { ...request, status: existing.status, txHash: existing.txHash, reviewedAt: existing.reviewedAt, note: existing.note }
+    : request;
+  const requests = [saved, ...stored.filter(item => item.id !== request.id)]
+    .sort((a, b) => b.issuedAt - a.issuedAt);
+  storage?.setItem(MIGRATION_STORAGE_KEY, JSON.stringify(requests));
+  return requests;
+};
+
+export const updateMigrationRequest = (
+  id: string,
+  patch: Partial<Pick<WhitelistMigrationRequest, 'status' | 'txHash' | 'reviewedAt' | 'note'>>,
+  storage = getStorage()
+): WhitelistMigrationRequest[] => {
+  const requests = loadMigrationRequests(storage).map(item => item.id === id ? { ...item, ...patch } : item);
+  storage?.setItem(MIGRATION_STORAGE_KEY, JSON.stringify(requests));
+  return requests;
+};
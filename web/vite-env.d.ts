@@ -4,11 +4,18 @@ interface ImportMetaEnv {
   readonly VITE_NETWORK_ID: string
   readonly VITE_FACTORY_ADDRESS: string
   readonly VITE_CROWDSALEFACTORY_ADDRESS: string
+  readonly VITE_CROWDSALEFACTORY_VARIANT: string
   readonly VITE_REFRESH_INTERVAL: string
   readonly VITE_TRANSACTION_TIMEOUT: string
   readonly VITE_INFURA_PROJECT_ID: string
   readonly VITE_WALLETCONNECT_PROJECT_ID: string
   readonly VITE_ETHERSCAN_API_KEY: string
+  readonly VITE_EVENT_SYNC_CHUNK_SIZE: string
+  readonly VITE_EVENT_SYNC_REORG_DEPTH: string
+  readonly VITE_EVENT_SYNC_START_BLOCK: string
+  readonly VITE_PRICE_SOURCE: string
+  readonly VITE_FIAT_CURRENCY: string
+  readonly VITE_FIXED_ETH_PRICE: string
 }
 
 interface ImportMeta {